@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
 import ProtectedRoute from "./components/ProtectedRoute";
 import ErrorBoundary from "./components/ErrorBoundary";
+import DemoModeBanner from "./components/DemoModeBanner";
 import MainLayout from "./components/layout/MainLayout";
 import Homepage from "./pages/Homepage";
 import Auth from "./pages/auth/Auth";
@@ -42,6 +43,7 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <DemoModeBanner />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Homepage />} />
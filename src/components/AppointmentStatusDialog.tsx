@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { formatSlot } from "@/lib/slots";
+import type { AppointmentRow } from "@/lib/repository";
+import { Check, UserX, X, XCircle } from "lucide-react";
+
+interface AppointmentStatusDialogProps {
+  appointment: AppointmentRow;
+  status: 'cancelled' | 'no_show';
+  /** Who is making the change; the other side is notified. */
+  actor: 'donor' | 'hospital';
+  timeZone: string;
+  /** Who or where the appointment is with, for the heading. */
+  counterpart?: string;
+  onClose: () => void;
+  onChanged: (appointment: AppointmentRow) => void;
+}
+
+/**
+ * Cancels an appointment or marks it a no-show, with the reason kept in
+ * its history. Cancelling needs a reason; a no-show does not.
+ */
+export default function AppointmentStatusDialog({
+  appointment,
+  status,
+  actor,
+  timeZone,
+  counterpart,
+  onClose,
+  onChanged,
+}: AppointmentStatusDialogProps) {
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const cancelling = status === 'cancelled';
+  const when = formatSlot(appointment.slot_start, timeZone);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const changed = await dataProvider.transitionAppointment(appointment.id, { status, reason: reason.trim() || undefined });
+      await notifyOtherSide();
+      toast({
+        title: cancelling ? "Appointment Cancelled" : "Marked as No-show",
+        description: cancelling ? "The slot is free for another donor." : "The donor's record has been updated.",
+      });
+      onChanged(changed);
+    } catch (error) {
+      console.error('Error updating appointment:', error);
+      toast({
+        title: "Update Failed",
+        description: (error as Error).message || "Failed to update the appointment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const notifyOtherSide = async () => {
+    // The change is already saved, so a failed notification is logged rather than surfaced
+    const toHospital = actor === 'donor';
+    try {
+      await dataProvider.createNotification({
+        user_id: toHospital ? appointment.hospital_id : appointment.donor_id,
+        user_type: toHospital ? 'hospital' : 'donor',
+        title: cancelling ? 'Appointment Cancelled' : 'Missed Appointment',
+        message: cancelling
+          ? `The donation appointment on ${when} was cancelled${toHospital ? ' by the donor' : ''}: ${reason.trim()}`
+          : `You missed your donation appointment on ${when}. Book a new slot whenever you are ready.`,
+        type: 'appointment',
+        data: {
+          appointment_id: appointment.id,
+          request_id: appointment.request_id,
+          status,
+        },
+      });
+    } catch (error) {
+      console.error('Error sending appointment notification:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {cancelling ? <XCircle className="h-5 w-5 text-red-600" /> : <UserX className="h-5 w-5 text-yellow-600" />}
+            {cancelling ? 'Cancel Appointment' : 'Mark as No-show'}
+          </CardTitle>
+          <CardDescription>
+            {counterpart ? `${counterpart}, ` : ''}{when}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="appointmentReason">
+                {cancelling ? 'Reason *' : 'Note (optional)'}
+              </Label>
+              <Textarea
+                id="appointmentReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={cancelling ? 'Why is the appointment being cancelled?' : 'e.g. Did not answer two calls'}
+                rows={3}
+                required={cancelling}
+              />
+              <p className="text-xs text-gray-500">
+                {cancelling
+                  ? `The ${actor === 'donor' ? 'hospital' : 'donor'} is told, and a linked pledge goes back to pledged.`
+                  : 'Kept on the donor\'s record. A linked pledge is withdrawn so the request can find another donor.'}
+              </p>
+            </div>
+            <div className="flex gap-4">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                type="submit"
+                disabled={loading || (cancelling && !reason.trim())}
+                className={`flex-1 ${cancelling ? 'bg-red-600 hover:bg-red-700' : 'bg-yellow-600 hover:bg-yellow-700'}`}
+              >
+                <Check className="h-4 w-4 mr-2" />
+                {loading ? 'Saving...' : cancelling ? 'Cancel Appointment' : 'Mark No-show'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
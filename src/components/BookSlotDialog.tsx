@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { formatSlot } from "@/lib/slots";
+import { isSlotTaken, type AppointmentRow } from "@/lib/repository";
+import SlotPicker from "./SlotPicker";
+import { Calendar, Check, X } from "lucide-react";
+
+interface BookSlotDialogProps {
+  hospitalId: string;
+  hospitalName?: string;
+  donorId: string;
+  requestId?: string;
+  onClose: () => void;
+  onBooked: (appointment: AppointmentRow) => void;
+}
+
+/** Lets a donor book themselves into a free donation slot. */
+export default function BookSlotDialog({ hospitalId, hospitalName, donorId, requestId, onClose, onBooked }: BookSlotDialogProps) {
+  const [slot, setSlot] = useState<{ start: string; timeZone: string } | null>(null);
+  // Remounts the picker so it reloads after someone else took the slot
+  const [pickerKey, setPickerKey] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleBook = async () => {
+    if (!slot) return;
+    setLoading(true);
+    try {
+      const appointment = await dataProvider.bookAppointment({
+        hospital_id: hospitalId,
+        donor_id: donorId,
+        slot_start: slot.start,
+        request_id: requestId ?? null,
+      });
+      toast({
+        title: "Appointment Booked",
+        description: `See you at ${hospitalName ?? 'the hospital'} on ${formatSlot(slot.start, slot.timeZone)}.`,
+      });
+      onBooked(appointment);
+    } catch (error) {
+      console.error('Error booking appointment:', error);
+      toast({
+        title: isSlotTaken(error) ? "Slot No Longer Free" : "Booking Failed",
+        description: (error as Error).message || "Failed to book the appointment. Please try again.",
+        variant: "destructive",
+      });
+      if (isSlotTaken(error)) {
+        setSlot(null);
+        setPickerKey((key) => key + 1);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Book a Donation Slot
+          </CardTitle>
+          <CardDescription>Choose a free time at {hospitalName ?? 'the hospital'}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <SlotPicker
+            key={pickerKey}
+            hospitalId={hospitalId}
+            value={slot?.start ?? null}
+            onChange={(start, timeZone) => setSlot(start ? { start, timeZone } : null)}
+          />
+          <div className="flex gap-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={handleBook} disabled={loading || !slot} className="flex-1 bg-green-600 hover:bg-green-700">
+              <Check className="h-4 w-4 mr-2" />
+              {loading ? 'Booking...' : 'Book Slot'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
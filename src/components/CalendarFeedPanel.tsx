@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import type { CalendarFeedOwner, CalendarFeedRow } from "@/lib/repository";
+import { Ban, Copy, Rss } from "lucide-react";
+
+interface CalendarFeedPanelProps {
+  ownerType: CalendarFeedOwner;
+  ownerId?: string;
+}
+
+/** Issues, replaces and revokes the private calendar feed of a donor or hospital. */
+export default function CalendarFeedPanel({ ownerType, ownerId }: CalendarFeedPanelProps) {
+  const [feed, setFeed] = useState<CalendarFeedRow | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!ownerId) return;
+    dataProvider.getCalendarFeed(ownerType, ownerId)
+      .then(setFeed)
+      .catch((error) => console.error('Error loading calendar feed:', error));
+  }, [ownerType, ownerId]);
+
+  const live = Boolean(feed?.token_hash);
+
+  const handleIssue = async () => {
+    if (!ownerId) return;
+    setWorking(true);
+    try {
+      setFeedUrl(await dataProvider.issueCalendarFeed(ownerType, ownerId));
+      setFeed(await dataProvider.getCalendarFeed(ownerType, ownerId));
+    } catch (error) {
+      console.error('Error issuing calendar feed:', error);
+      toast({
+        title: "Feed Not Created",
+        description: (error as Error).message || "Failed to create the calendar feed. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!ownerId) return;
+    setWorking(true);
+    try {
+      await dataProvider.revokeCalendarFeed(ownerType, ownerId);
+      setFeedUrl(null);
+      setFeed(await dataProvider.getCalendarFeed(ownerType, ownerId));
+      toast({
+        title: "Feed Revoked",
+        description: "Calendars subscribed to the old URL will stop updating.",
+      });
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      toast({
+        title: "Revoke Failed",
+        description: (error as Error).message || "Failed to revoke the calendar feed. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Feed URL Copied", description: "Paste it into your calendar app's subscribe option." });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 font-medium">
+        <Rss className="h-4 w-4" />
+        Calendar Feed
+      </div>
+      <p className="text-sm text-gray-500">
+        {live
+          ? `Live since ${new Date(feed.issued_at).toLocaleDateString()}. Subscribed calendars follow reschedules and cancellations.`
+          : feed?.revoked_at
+            ? `Revoked on ${new Date(feed.revoked_at).toLocaleDateString()}.`
+            : 'Subscribe from Google, Apple or Outlook Calendar to keep appointments in sync.'}
+      </p>
+
+      {feedUrl && (
+        <div className="p-3 border border-yellow-300 bg-yellow-50 rounded-lg text-sm space-y-2">
+          <p className="font-medium">Copy this URL now; it is not shown again and replaces any earlier one. Keep it private.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button size="sm" variant="outline" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={handleIssue} disabled={!ownerId || working}>
+          <Rss className="h-4 w-4 mr-2" />
+          {live ? 'Replace Feed URL' : 'Create Feed URL'}
+        </Button>
+        {live && (
+          <Button size="sm" variant="outline" onClick={handleRevoke} disabled={working}>
+            <Ban className="h-4 w-4 mr-2" />
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
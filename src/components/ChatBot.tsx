@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Heart, MessageCircle, X, Send } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { CURRENT_ELIGIBILITY_RULES, describeEligibilityRules } from '@/lib/eligibility';
+import { cooldownRange, describeCooldowns } from '@/lib/cooldown';
 
 interface Message {
   id: string;
@@ -31,19 +33,19 @@ const ChatBot = () => {
     
     // Blood donation related responses
     if (message.includes('blood') && message.includes('donate')) {
-      return 'To donate blood, you need to be 18-65 years old, weigh at least 50kg, and be in good health. You can donate every 56 days. Visit our Blood Requests page to find nearby donation opportunities.';
+      return `To donate blood, you need to be ${CURRENT_ELIGIBILITY_RULES.minAge}-${CURRENT_ELIGIBILITY_RULES.maxAge} years old, weigh at least ${CURRENT_ELIGIBILITY_RULES.minWeightKg}kg, and be in good health. You can donate whole blood every ${cooldownRange('blood')}. Visit our Blood Requests page to find nearby donation opportunities.`;
     }
     
     if (message.includes('plasma') && message.includes('donate')) {
-      return 'Plasma donation is similar to blood donation but takes 45-60 minutes. You can donate plasma every 14 days. Plasma is used for treating various medical conditions. Check our Plasma Center for more information.';
+      return `Plasma donation is similar to blood donation but takes 45-60 minutes. You can donate plasma every ${cooldownRange('plasma')}. Plasma is used for treating various medical conditions. Check our Plasma Center for more information.`;
     }
     
     if (message.includes('eligibility') || message.includes('eligible')) {
-      return 'Our AI system checks your eligibility based on age, weight, health status, and donation history. You can check your eligibility status in your profile page.';
+      return `${describeEligibilityRules()} Your own eligibility status and next eligible date are on your profile page.`;
     }
     
     if (message.includes('cooldown') || message.includes('wait')) {
-      return 'Blood donation cooldown is 56 days (8 weeks), while plasma donation cooldown is 14 days (2 weeks). Your next eligible date is shown in your profile.';
+      return `${describeCooldowns()} Your next eligible date is shown in your profile.`;
     }
     
     if (message.includes('emergency') || message.includes('urgent')) {
@@ -0,0 +1,16 @@
+import { FlaskConical } from "lucide-react";
+import { isDemoMode } from "@/lib/dataProvider";
+
+/** Shown on every page while the app is running against sample data. */
+export default function DemoModeBanner() {
+  if (!isDemoMode) return null;
+
+  return (
+    <div role="status" className="flex items-center justify-center gap-2 bg-amber-100 text-amber-900 border-b border-amber-200 px-4 py-2 text-sm">
+      <FlaskConical className="h-4 w-4" />
+      <span>
+        <strong>Demo mode</strong> — showing sample data. Nothing you do here is saved.
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { canDonorChangeAppointment } from "@/lib/appointments";
+import { dataProvider } from "@/lib/dataProvider";
+import { appointmentCalendar, downloadCalendar } from "@/lib/ical";
+import { DEFAULT_TIMEZONE, dayInZone, formatSlotTime } from "@/lib/slots";
+import type { AppointmentWithDonor, HospitalRow } from "@/lib/repository";
+import AppointmentStatusDialog from "./AppointmentStatusDialog";
+import CalendarFeedPanel from "./CalendarFeedPanel";
+import RescheduleDialog from "./RescheduleDialog";
+import { CalendarClock, CalendarPlus, Clock, XCircle } from "lucide-react";
+
+interface DonorAppointmentsProps {
+  donorId?: string;
+}
+
+type HospitalDetails = { hospital: HospitalRow | null; timeZone: string };
+
+/**
+ * The donor's upcoming donation appointments, each downloadable for their
+ * calendar and movable or cancellable until it starts.
+ */
+export default function DonorAppointments({ donorId }: DonorAppointmentsProps) {
+  const [appointments, setAppointments] = useState<AppointmentWithDonor[]>([]);
+  const [hospitals, setHospitals] = useState<Map<string, HospitalDetails>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [rescheduling, setRescheduling] = useState<AppointmentWithDonor | null>(null);
+  const [cancelling, setCancelling] = useState<AppointmentWithDonor | null>(null);
+
+  const load = useCallback(async () => {
+    if (!donorId) return;
+    setLoading(true);
+    try {
+      const rows = await dataProvider.listAppointments({
+        donorId,
+        status: ['scheduled', 'confirmed'],
+        from: new Date().toISOString(),
+      });
+      const hospitalIds = [...new Set(rows.map((a) => a.hospital_id))];
+      const details = await Promise.all(hospitalIds.map(async (id): Promise<[string, HospitalDetails]> => {
+        const [hospital, schedule] = await Promise.all([dataProvider.getHospital(id), dataProvider.getDonationSchedule(id)]);
+        return [id, { hospital, timeZone: schedule?.timezone ?? DEFAULT_TIMEZONE }];
+      }));
+      setAppointments([...rows].sort((a, b) => a.slot_start.localeCompare(b.slot_start)));
+      setHospitals(new Map(details));
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [donorId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleChanged = () => {
+    setRescheduling(null);
+    setCancelling(null);
+    load();
+  };
+
+  const handleDownload = (appointment: AppointmentWithDonor) => {
+    const details = hospitals.get(appointment.hospital_id);
+    if (!details?.hospital) return;
+    downloadCalendar(
+      appointmentCalendar(appointment, details.hospital, details.timeZone),
+      `donation-${dayInZone(new Date(appointment.slot_start), details.timeZone)}`
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-blood" /> Upcoming Appointments
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading appointments...</p>
+        ) : appointments.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming appointments. Pledge to a blood request to book a donation slot.</p>
+        ) : (
+          <div className="space-y-4">
+            {appointments.map((appointment) => {
+              const details = hospitals.get(appointment.hospital_id);
+              const timeZone = details?.timeZone ?? DEFAULT_TIMEZONE;
+              const start = new Date(appointment.slot_start);
+              return (
+                <div key={appointment.id} className="flex items-center gap-4 border-b pb-3 last:border-b-0">
+                  <div className="bg-gray-100 p-2 rounded-md text-center min-w-14">
+                    <div className="text-xs text-gray-500">
+                      {start.toLocaleDateString('en-US', { timeZone, month: 'short' }).toUpperCase()}
+                    </div>
+                    <div className="text-lg font-bold">{start.toLocaleDateString('en-US', { timeZone, day: '2-digit' })}</div>
+                  </div>
+                  <div className="flex-1">
+                    <p className="font-medium">Scheduled Donation</p>
+                    <p className="text-sm text-gray-500">
+                      {details?.hospital?.name ?? 'Hospital'}, {formatSlotTime(appointment.slot_start, timeZone)}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDownload(appointment)}
+                      disabled={!details?.hospital}
+                      title="Add to calendar (.ics)"
+                    >
+                      <CalendarPlus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setRescheduling(appointment)}
+                      disabled={!canDonorChangeAppointment(appointment)}
+                      title="Reschedule"
+                    >
+                      <CalendarClock className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setCancelling(appointment)}
+                      disabled={!canDonorChangeAppointment(appointment)}
+                      title="Cancel appointment"
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <CalendarFeedPanel ownerType="donor" ownerId={donorId} />
+      </CardFooter>
+
+      {rescheduling && (
+        <RescheduleDialog
+          appointment={rescheduling}
+          hospitalName={hospitals.get(rescheduling.hospital_id)?.hospital?.name}
+          timeZone={hospitals.get(rescheduling.hospital_id)?.timeZone ?? DEFAULT_TIMEZONE}
+          onClose={() => setRescheduling(null)}
+          onRescheduled={handleChanged}
+        />
+      )}
+
+      {cancelling && (
+        <AppointmentStatusDialog
+          appointment={cancelling}
+          status="cancelled"
+          actor="donor"
+          timeZone={hospitals.get(cancelling.hospital_id)?.timeZone ?? DEFAULT_TIMEZONE}
+          counterpart={hospitals.get(cancelling.hospital_id)?.hospital?.name}
+          onClose={() => setCancelling(null)}
+          onChanged={handleChanged}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import type { RankedDonor } from "@/lib/donorRanking";
+
+interface DonorRankingFactorsProps {
+  ranked: RankedDonor;
+}
+
+// Why a donor was suggested: one line per ranking factor with its weighted points
+export default function DonorRankingFactors({ ranked }: DonorRankingFactorsProps) {
+  return (
+    <ul className="space-y-0.5 text-xs text-gray-600">
+      {ranked.factors.map((factor) => (
+        <li key={factor.key} className="flex justify-between gap-2">
+          <span>
+            <span className="font-medium">{factor.label}:</span> {factor.detail}
+          </span>
+          <span className="text-gray-400 whitespace-nowrap">
+            +{Math.round(100 * factor.weight * factor.score)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
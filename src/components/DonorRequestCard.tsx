@@ -2,47 +2,33 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Heart, Droplets, MapPin, Clock, User, Phone, CheckCircle, XCircle } from "lucide-react";
+import { Heart, Droplets, MapPin, Clock, User, Phone, CheckCircle, XCircle, Calendar } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-
-interface Request {
-  id: string;
-  request_id: string;
-  hospital_id: string;
-  type: 'blood' | 'plasma';
-  blood_group: string;
-  units: number;
-  urgency: 'Low' | 'Medium' | 'High' | 'Emergency';
-  patient_name: string;
-  patient_age?: number;
-  patient_gender?: string;
-  medical_condition?: string;
-  location: string;
-  notes?: string;
-  status: 'pending' | 'accepted' | 'ignored' | 'completed' | 'cancelled';
-  created_at: string;
-  hospital?: {
-    name: string;
-    contact_info?: {
-      phone?: string;
-      address?: string;
-    };
-  };
-}
+import { dataProvider } from "@/lib/dataProvider";
+import type { AppointmentRow, BloodRequestWithHospital, PledgeStatus, RequestPledgeRow } from "@/lib/repository";
+import { PLEDGE_STATUS_LABELS, canTransitionPledge, withdrawPledge } from "@/lib/pledges";
+import { ELIGIBILITY_STATUS_LABELS, type EligibilityResult } from "@/lib/eligibility";
+import PledgeProgressBar from "./PledgeProgressBar";
+import BookSlotDialog from "./BookSlotDialog";
 
 interface DonorRequestCardProps {
-  request: Request;
+  request: BloodRequestWithHospital;
+  /** The signed-in donor's pledge to this request, if any. */
+  pledge?: RequestPledgeRow | null;
+  /** The signed-in donor's eligibility; pledging is blocked while deferred. */
+  eligibility?: EligibilityResult | null;
   onRequestUpdate: () => void;
+  onDismiss?: (requestId: string) => void;
 }
 
-export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequestCardProps) {
+export default function DonorRequestCard({ request, pledge, eligibility, onRequestUpdate, onDismiss }: DonorRequestCardProps) {
   const [loading, setLoading] = useState(false);
+  const [booking, setBooking] = useState(false);
   const { toast } = useToast();
 
   const getUrgencyColor = (urgency: string) => {
     switch (urgency) {
-      case 'Emergency': return 'bg-red-500';
+      case 'Critical': return 'bg-red-500';
       case 'High': return 'bg-orange-500';
       case 'Medium': return 'bg-yellow-500';
       case 'Low': return 'bg-green-500';
@@ -52,7 +38,7 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
 
   const getUrgencyIcon = (urgency: string) => {
     switch (urgency) {
-      case 'Emergency': return <Clock className="h-4 w-4" />;
+      case 'Critical': return <Clock className="h-4 w-4" />;
       case 'High': return <Clock className="h-4 w-4" />;
       case 'Medium': return <Clock className="h-4 w-4" />;
       case 'Low': return <Clock className="h-4 w-4" />;
@@ -75,66 +61,37 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
         return;
       }
 
-      // Update request status to accepted
-      const { error } = await supabase
-        .from('requests')
-        .update({
-          donor_id: donorData.id,
-          status: 'accepted',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', request.id);
+      // One donor gives one unit; the request closes once enough donors pledge
+      await dataProvider.pledgeToRequest(request.id, { donorId: donorData.id });
 
-      if (error) {
-        toast({
-          title: "Accept Failed",
-          description: error.message,
-          variant: "destructive",
-        });
-      } else {
-        // Create appointment
-        const { error: appointmentError } = await supabase
-          .from('appointments')
-          .insert({
+      // Create notification for hospital; the pledge is already saved, so a failure is only logged
+      try {
+        await dataProvider.createNotification({
+          user_id: request.hospital_id,
+          user_type: 'hospital',
+          title: 'Donor Pledged',
+          message: `A donor pledged to your ${request.request_type} request for ${request.blood_group}.`,
+          type: 'request',
+          data: {
             request_id: request.id,
-            hospital_id: request.hospital_id,
-            donor_id: donorData.id,
-            appointment_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // Tomorrow
-            appointment_time: "10:00 AM",
-            status: 'scheduled'
-          });
-
-        if (appointmentError) {
-          console.error('Appointment creation error:', appointmentError);
-        }
-
-        // Create notification for hospital
-        await supabase
-          .from('notifications')
-          .insert({
-            user_id: request.hospital_id,
-            user_type: 'hospital',
-            title: 'Request Accepted',
-            message: `Your ${request.type} request for ${request.blood_group} has been accepted by a donor.`,
-            type: 'request',
-            data: {
-              request_id: request.id,
-              donor_id: donorData.id
-            }
-          });
-
-        toast({
-          title: "Request Accepted",
-          description: "You have accepted this request. The hospital will contact you to schedule the donation.",
+            donor_id: donorData.id
+          }
         });
-        
-        onRequestUpdate();
+      } catch (error) {
+        console.error('Error sending pledge notification:', error);
       }
+
+      toast({
+        title: "Pledge Recorded",
+        description: "Thank you for pledging. Book a donation slot whenever suits you.",
+      });
+      
+      onRequestUpdate();
     } catch (error) {
       console.error('Accept error:', error);
       toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
+        title: "Accept Failed",
+        description: (error as Error).message || "An unexpected error occurred.",
         variant: "destructive",
       });
     } finally {
@@ -142,50 +99,21 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
     }
   };
 
-  const handleIgnore = async () => {
+  const handleWithdraw = async () => {
+    if (!pledge) return;
     setLoading(true);
     try {
-      // Get current donor from session
-      const donorData = JSON.parse(sessionStorage.getItem('donor') || '{}');
-      
-      if (!donorData.id) {
-        toast({
-          title: "Authentication Error",
-          description: "Please log in again.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Update request status to ignored
-      const { error } = await supabase
-        .from('requests')
-        .update({
-          donor_id: donorData.id,
-          status: 'ignored',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', request.id);
-
-      if (error) {
-        toast({
-          title: "Ignore Failed",
-          description: error.message,
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Request Ignored",
-          description: "This request has been marked as ignored.",
-        });
-        
-        onRequestUpdate();
-      }
+      await withdrawPledge(pledge);
+      toast({
+        title: "Pledge Withdrawn",
+        description: "The hospital will look for another donor.",
+      });
+      onRequestUpdate();
     } catch (error) {
-      console.error('Ignore error:', error);
+      console.error('Withdraw error:', error);
       toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
+        title: "Withdraw Failed",
+        description: (error as Error).message || "An unexpected error occurred.",
         variant: "destructive",
       });
     } finally {
@@ -193,6 +121,42 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
     }
   };
 
+  // The booked appointment moves the pledge to scheduled
+  const handleBooked = async (appointment: AppointmentRow) => {
+    setBooking(false);
+    try {
+      await dataProvider.pledgeToRequest(request.id, { donorId: appointment.donor_id, appointmentId: appointment.id });
+      await dataProvider.createNotification({
+        user_id: request.hospital_id,
+        user_type: 'hospital',
+        title: 'Donation Booked',
+        message: `A donor who pledged to your ${request.blood_group} request booked a donation slot.`,
+        type: 'appointment',
+        data: {
+          request_id: request.id,
+          appointment_id: appointment.id,
+          donor_id: appointment.donor_id
+        }
+      });
+    } catch (error) {
+      console.error('Error linking appointment to pledge:', error);
+    }
+    onRequestUpdate();
+  };
+
+  const deferred = eligibility != null && eligibility.status !== 'eligible';
+  const hasActivePledge = pledge?.status === 'pledged' || pledge?.status === 'scheduled';
+
+  // "Ignored" is not a request status: declining only hides the card for this
+  // donor and leaves the request open for everyone else.
+  const handleIgnore = () => {
+    onDismiss?.(request.id);
+    toast({
+      title: "Request Ignored",
+      description: "This request has been hidden from your list.",
+    });
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -204,27 +168,27 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
   };
 
   return (
-    <Card className={`${request.status === 'accepted' ? 'border-green-500 bg-green-50' : ''}`}>
+    <Card className={`${hasActivePledge || pledge?.status === 'collected' ? 'border-green-500 bg-green-50' : ''}`}>
       <CardHeader>
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-2">
-            {request.type === 'blood' ? (
+            {request.request_type === 'blood' ? (
               <Heart className="h-5 w-5 text-red-500" />
             ) : (
               <Droplets className="h-5 w-5 text-blue-500" />
             )}
             <div>
               <CardTitle className="text-lg">
-                {request.type === 'blood' ? 'Blood' : 'Plasma'} Request
+                {request.request_type === 'blood' ? 'Blood' : 'Plasma'} Request
               </CardTitle>
               <CardDescription>
                 {request.hospital?.name || 'Hospital'} • {formatDate(request.created_at)}
               </CardDescription>
             </div>
           </div>
-          <Badge className={`${getUrgencyColor(request.urgency)} text-white flex items-center gap-1`}>
-            {getUrgencyIcon(request.urgency)}
-            {request.urgency}
+          <Badge className={`${getUrgencyColor(request.emergency_level)} text-white flex items-center gap-1`}>
+            {getUrgencyIcon(request.emergency_level)}
+            {request.emergency_level}
           </Badge>
         </div>
       </CardHeader>
@@ -240,9 +204,10 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
           </div>
           <div className="flex items-center gap-2">
             <span className="font-medium">Units:</span>
-            <span className="text-lg font-bold text-red-600">{request.units}</span>
+            <span className="text-lg font-bold text-red-600">{request.units_required}</span>
           </div>
         </div>
+        <PledgeProgressBar request={request} />
 
         {/* Patient Information */}
         <div className="space-y-2">
@@ -253,11 +218,6 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
               <span className="text-sm text-gray-500">({request.patient_age} years old)</span>
             )}
           </div>
-          {request.patient_gender && (
-            <div className="text-sm text-gray-600 ml-6">
-              Gender: {request.patient_gender}
-            </div>
-          )}
           {request.medical_condition && (
             <div className="text-sm text-gray-600 ml-6">
               Condition: {request.medical_condition}
@@ -266,16 +226,18 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
         </div>
 
         {/* Location */}
-        <div className="flex items-center gap-2">
-          <MapPin className="h-4 w-4 text-gray-500" />
-          <span className="text-sm">{request.location}</span>
-        </div>
+        {request.hospital?.address && (
+          <div className="flex items-center gap-2">
+            <MapPin className="h-4 w-4 text-gray-500" />
+            <span className="text-sm">{[request.hospital.address, request.hospital.city].filter(Boolean).join(', ')}</span>
+          </div>
+        )}
 
         {/* Hospital Contact */}
-        {request.hospital?.contact_info?.phone && (
+        {request.hospital?.phone && (
           <div className="flex items-center gap-2">
             <Phone className="h-4 w-4 text-gray-500" />
-            <span className="text-sm">{request.hospital.contact_info.phone}</span>
+            <span className="text-sm">{request.hospital.phone}</span>
           </div>
         )}
 
@@ -287,23 +249,47 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
         )}
 
         {/* Status */}
-        {request.status === 'accepted' && (
+        {pledge && pledge.status !== 'withdrawn' && (
           <div className="flex items-center gap-2 text-green-600 bg-green-100 p-3 rounded-md">
             <CheckCircle className="h-4 w-4" />
-            <span className="font-medium">You have accepted this request</span>
+            <span className="font-medium">
+              {pledge.status === 'collected'
+                ? 'Your donation was collected. Thank you!'
+                : `You have pledged to this request (${PLEDGE_STATUS_LABELS[pledge.status as PledgeStatus] ?? pledge.status})`}
+            </span>
           </div>
         )}
 
+        {pledge?.status === 'pledged' && (
+          <Button onClick={() => setBooking(true)} disabled={loading} className="w-full bg-green-600 hover:bg-green-700">
+            <Calendar className="h-4 w-4 mr-2" />
+            Book a Donation Slot
+          </Button>
+        )}
+
+        {hasActivePledge && canTransitionPledge(pledge.status, 'withdrawn') && (
+          <Button onClick={handleWithdraw} disabled={loading} variant="outline" className="w-full">
+            <XCircle className="h-4 w-4 mr-2" />
+            {loading ? "Withdrawing..." : "Withdraw Pledge"}
+          </Button>
+        )}
+
         {/* Action Buttons */}
-        {request.status === 'pending' && (
+        {request.status === 'pending' && !hasActivePledge && pledge?.status !== 'collected' && deferred && (
+          <div className="text-sm text-yellow-800 bg-yellow-50 p-3 rounded-md">
+            <strong>{ELIGIBILITY_STATUS_LABELS[eligibility.status]}:</strong> {eligibility.reason}
+            {eligibility.eligibleFrom && ` You can pledge again from ${eligibility.eligibleFrom.toLocaleDateString()}.`}
+          </div>
+        )}
+        {request.status === 'pending' && !hasActivePledge && pledge?.status !== 'collected' && (
           <div className="flex gap-2 pt-2">
             <Button
               onClick={handleAccept}
-              disabled={loading}
+              disabled={loading || deferred}
               className="flex-1 bg-green-600 hover:bg-green-700"
             >
               <CheckCircle className="h-4 w-4 mr-2" />
-              {loading ? "Accepting..." : "Accept Request"}
+              {loading ? "Pledging..." : "Pledge to Donate"}
             </Button>
             <Button
               onClick={handleIgnore}
@@ -312,11 +298,22 @@ export default function DonorRequestCard({ request, onRequestUpdate }: DonorRequ
               className="flex-1"
             >
               <XCircle className="h-4 w-4 mr-2" />
-              {loading ? "Ignoring..." : "Ignore"}
+              Ignore
             </Button>
           </div>
         )}
       </CardContent>
+
+      {booking && pledge && (
+        <BookSlotDialog
+          hospitalId={request.hospital_id}
+          hospitalName={request.hospital?.name}
+          donorId={pledge.donor_id}
+          requestId={request.id}
+          onClose={() => setBooking(false)}
+          onBooked={handleBooked}
+        />
+      )}
     </Card>
   );
 }
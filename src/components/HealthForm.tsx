@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,54 +7,100 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { Heart, Shield, Activity } from "lucide-react";
+import {
+  ELIGIBILITY_STATUS_LABELS,
+  eligibilityColumns,
+  eligibilityInputFromProfile,
+  evaluateEligibility,
+} from "@/lib/eligibility";
+import {
+  CURRENT_QUESTIONNAIRE,
+  askedAnswers,
+  consentText,
+  eligibilityInputFromAnswers,
+  emptyAnswers,
+  isAsked,
+  profileColumnsFromAnswers,
+  unansweredQuestions,
+  type Answer,
+  type Answers,
+  type Question,
+} from "@/lib/questionnaire";
+import { dataProvider } from "@/lib/dataProvider";
+import type { DonorRow, ProfileRow } from "@/lib/repository";
 
 interface HealthFormProps {
   onComplete: () => void;
   onCancel: () => void;
 }
 
-export default function HealthForm({ onComplete, onCancel }: HealthFormProps) {
-  const [formData, setFormData] = useState({
-    age: '',
-    weight: '',
-    height: '',
-    bloodType: '',
-    medicalConditions: '',
-    medications: '',
-    allergies: '',
-    lastDonationDate: '',
-    hasTattoo: false,
-    hasPiercing: false,
-    hasTraveledRecently: false,
-    hasSurgeryRecently: false,
-    isPregnant: false,
-    hasDiabetes: false,
-    hasHypertension: false,
-    hasHeartDisease: false,
-    emergencyContact: '',
-    emergencyPhone: '',
-    address: '',
-    city: '',
-    state: '',
-    zipCode: ''
-  });
+const questionnaire = CURRENT_QUESTIONNAIRE;
 
+export default function HealthForm({ onComplete, onCancel }: HealthFormProps) {
+  const [answers, setAnswers] = useState<Answers>(() => emptyAnswers(questionnaire));
+  const [consents, setConsents] = useState<boolean[]>(() => questionnaire.consent.map(() => false));
   const [loading, setLoading] = useState(false);
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
+  const [donor, setDonor] = useState<DonorRow | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
-  const handleInputChange = (field: string, value: any) => {
-    setFormData(prev => ({
+  // Start from the donor's last declaration when it used the same questions
+  useEffect(() => {
+    if (!user?.id) return;
+    dataProvider.listDeclarations({ donorId: user.id })
+      .then(([latest]) => {
+        if (latest?.questionnaire_version === questionnaire.version) {
+          setAnswers((prev) => ({ ...prev, ...(latest.answers as Answers) }));
+        }
+      })
+      .catch((error) => console.error('Error loading previous declaration:', error));
+    // Screening results and the donation cooldown still apply whatever is answered
+    Promise.all([dataProvider.getProfile(user.id), dataProvider.getDonor(user.id)])
+      .then(([current, record]) => {
+        setProfile(current);
+        setDonor(record);
+      })
+      .catch((error) => console.error('Error loading profile:', error));
+  }, [user?.id]);
+
+  const handleAnswerChange = (key: string, value: Answer) => {
+    setAnswers(prev => ({
       ...prev,
-      [field]: value
+      [key]: value
     }));
   };
 
+  const answered = eligibilityInputFromAnswers(answers);
+  const eligibility = evaluateEligibility({
+    ...eligibilityInputFromProfile(profile ?? {}, donor),
+    ...answered,
+    hemoglobinGdl: profile?.hemoglobin_g_dl ?? answered.hemoglobinGdl,
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const unanswered = unansweredQuestions(answers, questionnaire);
+    if (unanswered.length > 0) {
+      toast({
+        title: "Missing Information",
+        description: `Please answer: ${unanswered.join(', ')}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (consents.includes(false)) {
+      toast({
+        title: "Consent Required",
+        description: "Please read and tick every consent statement.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -62,52 +108,28 @@ export default function HealthForm({ onComplete, onCancel }: HealthFormProps) {
         throw new Error('User not authenticated');
       }
 
-      // Calculate BMI
-      const weight = parseFloat(formData.weight);
-      const height = parseFloat(formData.height) / 100; // Convert cm to meters
-      const bmi = weight / (height * height);
-
-      // Check eligibility
-      const isEligible = checkEligibility();
-
-      // Update user profile with health information
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          age: parseInt(formData.age),
-          weight: weight,
-          height: parseFloat(formData.height),
-          blood_type: formData.bloodType,
-          medical_conditions: formData.medicalConditions,
-          medications: formData.medications,
-          allergies: formData.allergies,
-          last_donation_date: formData.lastDonationDate || null,
-          has_tattoo: formData.hasTattoo,
-          has_piercing: formData.hasPiercing,
-          has_traveled_recently: formData.hasTraveledRecently,
-          has_surgery_recently: formData.hasSurgeryRecently,
-          is_pregnant: formData.isPregnant,
-          has_diabetes: formData.hasDiabetes,
-          has_hypertension: formData.hasHypertension,
-          has_heart_disease: formData.hasHeartDisease,
-          emergency_contact: formData.emergencyContact,
-          emergency_phone: formData.emergencyPhone,
-          address: formData.address,
-          city: formData.city,
-          state: formData.state,
-          zip_code: formData.zipCode,
-          bmi: bmi,
-          is_eligible: isEligible,
-          health_form_completed: true,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', user.id);
+      // The declaration is the record of what was answered and agreed to;
+      // the profile only carries the latest answers for other screens
+      const declared = askedAnswers(answers, questionnaire);
+      await dataProvider.createDeclaration({
+        donor_id: user.id,
+        questionnaire_version: questionnaire.version,
+        answers: declared,
+        consent_text: consentText(questionnaire),
+        eligibility_status: eligibility.status,
+        eligibility_reason: eligibility.reason,
+        eligibility_rules_version: eligibility.rulesVersion,
+      });
 
-      if (error) throw error;
+      await dataProvider.updateProfile(user.id, {
+        ...profileColumnsFromAnswers(declared, profile),
+        ...eligibilityColumns(eligibility),
+        health_form_completed: true,
+      });
 
       toast({
         title: "Health Information Saved",
-        description: "Your health information has been successfully recorded.",
+        description: `${ELIGIBILITY_STATUS_LABELS[eligibility.status]}: ${eligibility.reason}`,
         variant: "default",
       });
 
@@ -124,18 +146,60 @@ export default function HealthForm({ onComplete, onCancel }: HealthFormProps) {
     }
   };
 
-  const checkEligibility = () => {
-    const age = parseInt(formData.age);
-    const weight = parseFloat(formData.weight);
-    
-    // Basic eligibility criteria
-    if (age < 18 || age > 65) return false;
-    if (weight < 50) return false;
-    if (formData.hasDiabetes || formData.hasHypertension || formData.hasHeartDisease) return false;
-    if (formData.isPregnant) return false;
-    if (formData.hasSurgeryRecently) return false;
-    
-    return true;
+  const renderQuestion = (question: Question) => {
+    const value = answers[question.key];
+    const label = `${question.label}${question.required ? ' *' : ''}`;
+
+    if (question.kind === 'boolean') {
+      return (
+        <div key={question.key} className="flex items-center space-x-2">
+          <Checkbox
+            id={question.key}
+            checked={value === true}
+            onCheckedChange={(checked) => handleAnswerChange(question.key, checked === true)}
+          />
+          <Label htmlFor={question.key}>{question.label}</Label>
+        </div>
+      );
+    }
+
+    return (
+      <div key={question.key} className={`space-y-2 ${question.kind === 'longText' ? 'md:col-span-2' : ''}`}>
+        <Label htmlFor={question.key}>{label}</Label>
+        {question.kind === 'select' ? (
+          <Select value={String(value ?? '')} onValueChange={(next) => handleAnswerChange(question.key, next)}>
+            <SelectTrigger id={question.key}>
+              <SelectValue placeholder={question.placeholder ?? 'Select'} />
+            </SelectTrigger>
+            <SelectContent>
+              {question.options?.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : question.kind === 'longText' ? (
+          <Textarea
+            id={question.key}
+            value={String(value ?? '')}
+            onChange={(e) => handleAnswerChange(question.key, e.target.value)}
+            placeholder={question.placeholder}
+          />
+        ) : (
+          <Input
+            id={question.key}
+            type={question.kind === 'text' ? 'text' : question.kind}
+            value={String(value ?? '')}
+            onChange={(e) => handleAnswerChange(question.key, e.target.value)}
+            required={question.required}
+            disabled={!isAsked(question, answers)}
+            min={question.min}
+            max={question.max}
+            step={question.step}
+            placeholder={question.placeholder}
+          />
+        )}
+      </div>
+    );
   };
 
   return (
@@ -154,220 +218,59 @@ export default function HealthForm({ onComplete, onCancel }: HealthFormProps) {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Basic Information */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Basic Information</h3>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="age">Age *</Label>
-                  <Input
-                    id="age"
-                    type="number"
-                    value={formData.age}
-                    onChange={(e) => handleInputChange('age', e.target.value)}
-                    required
-                    min="18"
-                    max="65"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="weight">Weight (kg) *</Label>
-                  <Input
-                    id="weight"
-                    type="number"
-                    value={formData.weight}
-                    onChange={(e) => handleInputChange('weight', e.target.value)}
-                    required
-                    min="50"
-                    step="0.1"
-                  />
+            {questionnaire.sections.map((section) => {
+              const ticks = section.questions.filter((question) => question.kind === 'boolean');
+              const fields = section.questions.filter((question) => question.kind !== 'boolean');
+              return (
+                <div key={section.title} className="space-y-4">
+                  <h3 className="text-lg font-semibold">{section.title}</h3>
+                  {ticks.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {ticks.map(renderQuestion)}
+                    </div>
+                  )}
+                  {section.hint && <p className="text-sm text-gray-500">{section.hint}</p>}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {fields.map(renderQuestion)}
+                  </div>
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="height">Height (cm) *</Label>
-                  <Input
-                    id="height"
-                    type="number"
-                    value={formData.height}
-                    onChange={(e) => handleInputChange('height', e.target.value)}
-                    required
-                    min="150"
-                    max="200"
-                  />
-                </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="bloodType">Blood Type *</Label>
-                <Select value={formData.bloodType} onValueChange={(value) => handleInputChange('bloodType', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select your blood type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="A+">A+</SelectItem>
-                    <SelectItem value="A-">A-</SelectItem>
-                    <SelectItem value="B+">B+</SelectItem>
-                    <SelectItem value="B-">B-</SelectItem>
-                    <SelectItem value="AB+">AB+</SelectItem>
-                    <SelectItem value="AB-">AB-</SelectItem>
-                    <SelectItem value="O+">O+</SelectItem>
-                    <SelectItem value="O-">O-</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
+              );
+            })}
 
-            {/* Medical Information */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Medical Information</h3>
-              <div className="space-y-2">
-                <Label htmlFor="medicalConditions">Medical Conditions</Label>
-                <Textarea
-                  id="medicalConditions"
-                  value={formData.medicalConditions}
-                  onChange={(e) => handleInputChange('medicalConditions', e.target.value)}
-                  placeholder="List any current medical conditions"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="medications">Current Medications</Label>
-                <Textarea
-                  id="medications"
-                  value={formData.medications}
-                  onChange={(e) => handleInputChange('medications', e.target.value)}
-                  placeholder="List any medications you are currently taking"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="allergies">Allergies</Label>
-                <Textarea
-                  id="allergies"
-                  value={formData.allergies}
-                  onChange={(e) => handleInputChange('allergies', e.target.value)}
-                  placeholder="List any allergies you have"
-                />
+              <div className={`rounded-md border p-3 text-sm ${
+                eligibility.status === 'eligible'
+                  ? 'border-green-200 bg-green-50 text-green-800'
+                  : eligibility.status === 'temporarily_deferred'
+                    ? 'border-yellow-200 bg-yellow-50 text-yellow-800'
+                    : 'border-red-200 bg-red-50 text-red-800'
+              }`}>
+                <p className="font-medium">{ELIGIBILITY_STATUS_LABELS[eligibility.status]}</p>
+                <p>{eligibility.reason}</p>
+                {eligibility.eligibleFrom && (
+                  <p>You can donate again from {eligibility.eligibleFrom.toLocaleDateString()}.</p>
+                )}
               </div>
             </div>
 
-            {/* Health Checkboxes */}
+            {/* Consent */}
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Health Status</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="flex items-center space-x-2">
+              <h3 className="text-lg font-semibold">Consent</h3>
+              {questionnaire.consent.map((statement, index) => (
+                <div key={statement} className="flex items-start space-x-2">
                   <Checkbox
-                    id="hasTattoo"
-                    checked={formData.hasTattoo}
-                    onCheckedChange={(checked) => handleInputChange('hasTattoo', checked)}
+                    id={`consent-${index}`}
+                    checked={consents[index]}
+                    onCheckedChange={(checked) =>
+                      setConsents((prev) => prev.map((given, i) => (i === index ? checked === true : given)))
+                    }
                   />
-                  <Label htmlFor="hasTattoo">Have tattoos or piercings in last 6 months</Label>
+                  <Label htmlFor={`consent-${index}`} className="text-sm font-normal leading-snug">{statement}</Label>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="hasTraveledRecently"
-                    checked={formData.hasTraveledRecently}
-                    onCheckedChange={(checked) => handleInputChange('hasTraveledRecently', checked)}
-                  />
-                  <Label htmlFor="hasTraveledRecently">Traveled internationally recently</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="hasSurgeryRecently"
-                    checked={formData.hasSurgeryRecently}
-                    onCheckedChange={(checked) => handleInputChange('hasSurgeryRecently', checked)}
-                  />
-                  <Label htmlFor="hasSurgeryRecently">Had surgery in last 6 months</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="isPregnant"
-                    checked={formData.isPregnant}
-                    onCheckedChange={(checked) => handleInputChange('isPregnant', checked)}
-                  />
-                  <Label htmlFor="isPregnant">Currently pregnant or breastfeeding</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="hasDiabetes"
-                    checked={formData.hasDiabetes}
-                    onCheckedChange={(checked) => handleInputChange('hasDiabetes', checked)}
-                  />
-                  <Label htmlFor="hasDiabetes">Have diabetes</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="hasHypertension"
-                    checked={formData.hasHypertension}
-                    onCheckedChange={(checked) => handleInputChange('hasHypertension', checked)}
-                  />
-                  <Label htmlFor="hasHypertension">Have hypertension</Label>
-                </div>
-              </div>
-            </div>
-
-            {/* Emergency Contact */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Emergency Contact</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="emergencyContact">Emergency Contact Name *</Label>
-                  <Input
-                    id="emergencyContact"
-                    value={formData.emergencyContact}
-                    onChange={(e) => handleInputChange('emergencyContact', e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="emergencyPhone">Emergency Contact Phone *</Label>
-                  <Input
-                    id="emergencyPhone"
-                    value={formData.emergencyPhone}
-                    onChange={(e) => handleInputChange('emergencyPhone', e.target.value)}
-                    required
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Address Information */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Address Information</h3>
-              <div className="space-y-2">
-                <Label htmlFor="address">Address *</Label>
-                <Input
-                  id="address"
-                  value={formData.address}
-                  onChange={(e) => handleInputChange('address', e.target.value)}
-                  required
-                />
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="city">City *</Label>
-                  <Input
-                    id="city"
-                    value={formData.city}
-                    onChange={(e) => handleInputChange('city', e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="state">State *</Label>
-                  <Input
-                    id="state"
-                    value={formData.state}
-                    onChange={(e) => handleInputChange('state', e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="zipCode">ZIP Code *</Label>
-                  <Input
-                    id="zipCode"
-                    value={formData.zipCode}
-                    onChange={(e) => handleInputChange('zipCode', e.target.value)}
-                    required
-                  />
-                </div>
-              </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                Questionnaire version {questionnaire.version}. Your answers and consent are kept with the time you submit them.
+              </p>
             </div>
 
             {/* Form Actions */}
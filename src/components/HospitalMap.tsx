@@ -3,7 +3,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Search, Phone, Heart, Navigation, X, CheckCircle, XCircle, Users } from "lucide-react";
+import { MapPin, Search, Phone, Heart, Navigation, X, CheckCircle, XCircle, Users, Building } from "lucide-react";
+import { dataProvider } from "@/lib/dataProvider";
+import { BLOOD_GROUPS, type BloodStockHolderRow } from "@/lib/repository";
+import { isBloodGroup, rankCompatibleDonors } from "@/lib/compatibility";
 
 // Declare Leaflet as global
 declare global {
@@ -49,6 +52,8 @@ export default function HospitalMap() {
   const [donors, setDonors] = useState<Donor[]>([]);
   const [showDonorPopup, setShowDonorPopup] = useState(false);
   const [filterBloodType, setFilterBloodType] = useState<string>('all');
+  const [stockHolders, setStockHolders] = useState<BloodStockHolderRow[]>([]);
+  const stockMarkersRef = useRef<unknown[]>([]);
 
   // Load donors from database
   useEffect(() => {
@@ -65,6 +70,17 @@ export default function HospitalMap() {
     loadDonors();
   }, []);
 
+  // Facilities holding the chosen group, for a transfer instead of a donor call-out
+  useEffect(() => {
+    if (!isBloodGroup(filterBloodType)) {
+      setStockHolders([]);
+      return;
+    }
+    dataProvider.findBloodStock({ bloodGroup: filterBloodType })
+      .then(setStockHolders)
+      .catch((error) => console.error('Error finding blood stock:', error));
+  }, [filterBloodType]);
+
   // Initialize map
   useEffect(() => {
     if (mapRef.current && !mapInstance.current && window.L) {
@@ -176,6 +192,38 @@ export default function HospitalMap() {
     }
   }, [donors]);
 
+  // Add stock markers to map
+  useEffect(() => {
+    if (mapInstance.current && window.L) {
+      stockMarkersRef.current.forEach(marker => {
+        mapInstance.current.removeLayer(marker);
+      });
+      stockMarkersRef.current = [];
+
+      stockHolders
+        .filter(holder => holder.latitude != null && holder.longitude != null)
+        .forEach(holder => {
+          const marker = window.L.marker([holder.latitude, holder.longitude], {
+            icon: window.L.divIcon({
+              className: 'custom-stock-icon',
+              html: `<div class="stock-marker">${holder.units_available}</div>`,
+              iconSize: [30, 30],
+              iconAnchor: [15, 15]
+            })
+          })
+            .addTo(mapInstance.current)
+            .bindPopup(`
+              <div class="donor-popup">
+                <h3><strong>${holder.name}</strong></h3>
+                <p>${filterBloodType} red cells in stock: <strong>${holder.units_available}</strong></p>
+                <p>Contact: ${holder.phone || 'N/A'}</p>
+              </div>
+            `);
+          stockMarkersRef.current.push(marker);
+        });
+    }
+  }, [stockHolders, filterBloodType]);
+
   // Global functions for popup buttons
   useEffect(() => {
     (window as any).contactDonor = (donorId: string) => {
@@ -196,12 +244,14 @@ export default function HospitalMap() {
     };
   }, [donors]);
 
-  const filteredDonors = donors.filter(donor => {
-    const matchesSearch = donor.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         donor.bloodType.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesBloodType = filterBloodType === 'all' || donor.bloodType === filterBloodType;
-    return matchesSearch && matchesBloodType;
-  });
+  const searchedDonors = donors.filter(donor =>
+    donor.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    donor.bloodType.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+  // The filter is the patient's blood type, so list everyone who can donate to it
+  const filteredDonors = isBloodGroup(filterBloodType)
+    ? rankCompatibleDonors(searchedDonors, filterBloodType, donor => donor.bloodType).map(({ donor }) => donor)
+    : searchedDonors;
 
   const getAvailabilityColor = (availability: string) => {
     switch (availability) {
@@ -221,7 +271,7 @@ export default function HospitalMap() {
     }
   };
 
-  const bloodTypes = ['all', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+  const bloodTypes = ['all', ...BLOOD_GROUPS];
 
   return (
     <div className="space-y-6">
@@ -250,7 +300,7 @@ export default function HospitalMap() {
               </div>
               
               <div className="space-y-2">
-                <h4 className="font-medium">Blood Type Filter</h4>
+                <h4 className="font-medium">Patient Blood Type</h4>
                 <select
                   value={filterBloodType}
                   onChange={(e) => setFilterBloodType(e.target.value)}
@@ -349,8 +399,48 @@ export default function HospitalMap() {
               </div>
             </CardContent>
           </Card>
+          {/* Facilities With Stock */}
+          {isBloodGroup(filterBloodType) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building className="h-5 w-5" />
+                  Facilities With {filterBloodType}
+                </CardTitle>
+                <CardDescription>
+                  Red cells in stock; request a transfer from the Inventory tab
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stockHolders.length === 0 ? (
+                  <p className="text-sm text-gray-500">No facility holds {filterBloodType} right now</p>
+                ) : (
+                  <div className="space-y-3 max-h-64 overflow-y-auto">
+                    {stockHolders.map((holder) => (
+                      <div
+                        key={holder.hospital_id}
+                        className="p-3 border rounded-lg cursor-pointer border-gray-200 hover:border-gray-300"
+                        onClick={() => {
+                          if (mapInstance.current && holder.latitude != null && holder.longitude != null) {
+                            mapInstance.current.setView([holder.latitude, holder.longitude], 15);
+                          }
+                        }}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="min-w-0">
+                            <h4 className="font-medium text-sm truncate">{holder.name}</h4>
+                            <p className="text-xs text-gray-500">{holder.city || 'Location unknown'}</p>
+                          </div>
+                          <Badge variant="outline">{holder.units_available} units</Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
-
         {/* Real Map */}
         <div className="lg:col-span-3">
           <Card className="h-[600px]">
@@ -486,6 +576,21 @@ export default function HospitalMap() {
           background-color: #ef4444;
         }
         
+        .stock-marker {
+          width: 30px;
+          height: 30px;
+          border-radius: 6px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          color: white;
+          font-weight: bold;
+          font-size: 12px;
+          background-color: #3b82f6;
+          box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          border: 2px solid white;
+        }
+        
         .donor-popup {
           min-width: 200px;
         }
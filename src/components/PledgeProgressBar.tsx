@@ -0,0 +1,31 @@
+import React from 'react';
+import type { BloodRequestRow } from "@/lib/repository";
+import { pledgeProgress } from "@/lib/pledges";
+
+interface PledgeProgressBarProps {
+  request: Pick<BloodRequestRow, 'units_required' | 'pledged_units' | 'scheduled_units' | 'collected_units'>;
+  showLegend?: boolean;
+}
+
+// Collected, scheduled and pledged units stacked against units_required
+export default function PledgeProgressBar({ request, showLegend = false }: PledgeProgressBarProps) {
+  const progress = pledgeProgress(request);
+  const width = (units: number) => `${Math.min(100, (100 * units) / Math.max(progress.required, 1))}%`;
+
+  return (
+    <div className="space-y-1 min-w-[8rem]">
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-200">
+        <div className="bg-green-600" style={{ width: width(progress.collected) }} />
+        <div className="bg-blue-500" style={{ width: width(progress.scheduled) }} />
+        <div className="bg-yellow-400" style={{ width: width(progress.pledged) }} />
+      </div>
+      <div className="text-xs text-gray-500">
+        {showLegend
+          ? `${progress.collected} collected · ${progress.scheduled} scheduled · ${progress.pledged} pledged of ${progress.required}`
+          : progress.remaining > 0
+            ? `${progress.remaining} of ${progress.required} unit(s) still needed`
+            : `All ${progress.required} unit(s) pledged`}
+      </div>
+    </div>
+  );
+}
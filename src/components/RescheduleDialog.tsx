@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { formatSlot } from "@/lib/slots";
+import { isSlotTaken, type AppointmentRow } from "@/lib/repository";
+import SlotPicker from "./SlotPicker";
+import { CalendarClock, Check, X } from "lucide-react";
+
+interface RescheduleDialogProps {
+  appointment: AppointmentRow;
+  hospitalName?: string;
+  timeZone: string;
+  onClose: () => void;
+  onRescheduled: (appointment: AppointmentRow) => void;
+}
+
+/** Lets a donor move their appointment to another free slot at the same hospital. */
+export default function RescheduleDialog({ appointment, hospitalName, timeZone, onClose, onRescheduled }: RescheduleDialogProps) {
+  const [slot, setSlot] = useState<{ start: string; timeZone: string } | null>(null);
+  const [reason, setReason] = useState('');
+  // Remounts the picker so it reloads after someone else took the slot
+  const [pickerKey, setPickerKey] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleReschedule = async () => {
+    if (!slot || !reason.trim()) return;
+    setLoading(true);
+    try {
+      const moved = await dataProvider.rescheduleAppointment(appointment.id, { slotStart: slot.start, reason: reason.trim() });
+      await notifyHospital(moved);
+      toast({
+        title: "Appointment Moved",
+        description: `See you at ${hospitalName ?? 'the hospital'} on ${formatSlot(moved.slot_start, slot.timeZone)}.`,
+      });
+      onRescheduled(moved);
+    } catch (error) {
+      console.error('Error rescheduling appointment:', error);
+      toast({
+        title: isSlotTaken(error) ? "Slot No Longer Free" : "Reschedule Failed",
+        description: (error as Error).message || "Failed to move the appointment. Please try again.",
+        variant: "destructive",
+      });
+      if (isSlotTaken(error)) {
+        setSlot(null);
+        setPickerKey((key) => key + 1);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const notifyHospital = async (moved: AppointmentRow) => {
+    // The move is already saved, so a failed notification is logged rather than surfaced
+    try {
+      await dataProvider.createNotification({
+        user_id: moved.hospital_id,
+        user_type: 'hospital',
+        title: 'Appointment Rescheduled',
+        message: `A donor moved their appointment from ${formatSlot(appointment.slot_start, timeZone)} to ${formatSlot(moved.slot_start, timeZone)}: ${reason.trim()}`,
+        type: 'appointment',
+        data: {
+          appointment_id: moved.id,
+          request_id: moved.request_id,
+          donor_id: moved.donor_id,
+        },
+      });
+    } catch (error) {
+      console.error('Error sending appointment notification:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Reschedule Donation
+          </CardTitle>
+          <CardDescription>
+            Now {formatSlot(appointment.slot_start, timeZone)} at {hospitalName ?? 'the hospital'}. Pick a new time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <SlotPicker
+            key={pickerKey}
+            hospitalId={appointment.hospital_id}
+            value={slot?.start ?? null}
+            onChange={(start, zone) => setSlot(start ? { start, timeZone: zone } : null)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="rescheduleReason">Reason *</Label>
+            <Textarea
+              id="rescheduleReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why does the appointment need to move?"
+              rows={2}
+            />
+          </div>
+          <div className="flex gap-4">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              <X className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <Button
+              onClick={handleReschedule}
+              disabled={loading || !slot || !reason.trim()}
+              className="flex-1 bg-green-600 hover:bg-green-700"
+            >
+              <Check className="h-4 w-4 mr-2" />
+              {loading ? 'Moving...' : 'Move Appointment'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
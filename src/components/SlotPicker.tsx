@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { dataProvider } from "@/lib/dataProvider";
+import { BOOKING_WINDOW_DAYS, addDays, dayInZone, formatSlotTime, isBookable } from "@/lib/slots";
+import type { AppointmentSlot, DonationScheduleRow } from "@/lib/repository";
+
+interface SlotPickerProps {
+  hospitalId: string;
+  /** Start of the chosen slot, or null. */
+  value: string | null;
+  onChange: (slotStart: string | null, timeZone: string) => void;
+}
+
+/** Picks a free slot at a hospital; days and times are in the hospital's time zone. */
+export default function SlotPicker({ hospitalId, value, onChange }: SlotPickerProps) {
+  const [schedule, setSchedule] = useState<DonationScheduleRow | null | undefined>(undefined);
+  const [day, setDay] = useState('');
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    dataProvider.getDonationSchedule(hospitalId)
+      .then((found) => {
+        setSchedule(found);
+        if (found) setDay(dayInZone(new Date(), found.timezone));
+      })
+      .catch((error) => {
+        console.error('Error loading donation schedule:', error);
+        setSchedule(null);
+      });
+  }, [hospitalId]);
+
+  useEffect(() => {
+    if (!schedule || !day) return;
+    setLoading(true);
+    dataProvider.listAppointmentSlots(hospitalId, day)
+      .then(setSlots)
+      .catch((error) => console.error('Error loading slots:', error))
+      .finally(() => setLoading(false));
+  }, [hospitalId, schedule, day]);
+
+  if (schedule === undefined) {
+    return <p className="text-sm text-gray-500">Loading opening hours...</p>;
+  }
+  if (schedule === null) {
+    return <p className="text-sm text-gray-500">This hospital has not opened bookings yet. Please call them to arrange a time.</p>;
+  }
+
+  const today = dayInZone(new Date(), schedule.timezone);
+  const now = new Date();
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="slotDay">Day *</Label>
+        <Input
+          id="slotDay"
+          type="date"
+          value={day}
+          min={today}
+          max={addDays(today, BOOKING_WINDOW_DAYS)}
+          onChange={(e) => {
+            setDay(e.target.value);
+            onChange(null, schedule.timezone);
+          }}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Time * <span className="font-normal text-gray-500">({schedule.timezone})</span></Label>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading slots...</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500">Closed on this day</p>
+        ) : (
+          <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+            {slots.map((slot) => {
+              const free = slot.chairs - slot.booked;
+              return (
+                <Button
+                  key={slot.slot_start}
+                  type="button"
+                  size="sm"
+                  variant={value === slot.slot_start ? 'default' : 'outline'}
+                  disabled={!isBookable(slot, now)}
+                  onClick={() => onChange(slot.slot_start, schedule.timezone)}
+                  className="flex flex-col h-auto py-1"
+                >
+                  <span>{formatSlotTime(slot.slot_start, schedule.timezone)}</span>
+                  <span className="text-xs font-normal">{free > 0 ? `${free} free` : 'Full'}</span>
+                </Button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,18 +6,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
-import { Calendar, Clock, MapPin, Phone, X, Check } from "lucide-react";
+import { dataProvider } from "@/lib/dataProvider";
+import { formatSlot } from "@/lib/slots";
+import { isSlotTaken, type DonorRow } from "@/lib/repository";
+import SlotPicker from "@/components/SlotPicker";
+import { Calendar, Clock, Phone, X, Check } from "lucide-react";
 
-interface Donor {
-  id: string;
-  first_name: string;
-  last_name: string;
-  blood_type: string;
-  phone: string;
-  location: string;
-}
+type Donor = Pick<DonorRow, 'id' | 'name' | 'blood_group' | 'phone' | 'location'>;
 
 interface AppointmentFormProps {
   donor: Donor;
@@ -27,8 +23,6 @@ interface AppointmentFormProps {
 }
 
 interface AppointmentData {
-  date: string;
-  time: string;
   hospitalContact: string;
   notes: string;
   donationType: 'blood' | 'plasma';
@@ -41,13 +35,14 @@ export default function AppointmentForm({
   onAppointmentScheduled 
 }: AppointmentFormProps) {
   const [formData, setFormData] = useState<AppointmentData>({
-    date: '',
-    time: '',
     hospitalContact: '',
     notes: '',
     donationType: 'blood'
   });
   
+  const [slot, setSlot] = useState<{ start: string; timeZone: string } | null>(null);
+  // Remounts the picker so it reloads after someone else took the slot
+  const [pickerKey, setPickerKey] = useState(0);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -71,7 +66,7 @@ export default function AppointmentForm({
       return;
     }
 
-    if (!formData.date || !formData.time || !formData.hospitalContact) {
+    if (!slot || !formData.hospitalContact) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields.",
@@ -83,40 +78,38 @@ export default function AppointmentForm({
     setLoading(true);
 
     try {
-      // Create appointment
-      const { error: appointmentError } = await supabase
-        .from('appointments')
-        .insert([
-          {
-            donor_id: donor.id,
-            hospital_id: user.id,
-            request_id: requestId || null,
-            donation_type: formData.donationType,
-            status: 'pending',
-            appointment_date: new Date(`${formData.date}T${formData.time}`).toISOString(),
-            hospital_contact: formData.hospitalContact,
-            notes: formData.notes,
-          }
-        ]);
+      const notes = [
+        `Donation type: ${formData.donationType}`,
+        `Hospital contact: ${formData.hospitalContact}`,
+        formData.notes,
+      ].filter(Boolean).join('\n');
 
-      if (appointmentError) throw appointmentError;
+      const appointment = await dataProvider.bookAppointment({
+        donor_id: donor.id,
+        hospital_id: user.id,
+        request_id: requestId || null,
+        slot_start: slot.start,
+        notes,
+      });
 
-      // Update request status to 'Scheduled' if requestId is provided
+      // Book the donor's pledge, or pledge on their behalf while the request is still open
       if (requestId) {
-        const { error: requestError } = await supabase
-          .from('requests')
-          .update({ status: 'Scheduled' })
-          .eq('id', requestId);
-
-        if (requestError) throw requestError;
+        const [request, [existing]] = await Promise.all([
+          dataProvider.getRequest(requestId),
+          dataProvider.listRequestPledges({ requestIds: [requestId], donorId: donor.id }),
+        ]);
+        const hasOpenPledge = existing?.status === 'pledged' || existing?.status === 'scheduled';
+        if (request?.status === 'pending' || hasOpenPledge) {
+          await dataProvider.pledgeToRequest(requestId, { donorId: donor.id, appointmentId: appointment.id });
+        }
       }
 
-      // Send notification to donor (mock implementation)
+      // Let the donor know about the booking
       await sendNotificationToDonor();
 
       toast({
         title: "Appointment Scheduled",
-        description: `Appointment scheduled with ${donor.first_name} ${donor.last_name} for ${formatDate(formData.date)} at ${formData.time}`,
+        description: `Appointment scheduled with ${donor.name} for ${formatSlot(slot.start, slot.timeZone)}`,
         variant: "default",
       });
 
@@ -124,57 +117,38 @@ export default function AppointmentForm({
     } catch (error) {
       console.error('Error scheduling appointment:', error);
       toast({
-        title: "Scheduling Failed",
-        description: "Failed to schedule appointment. Please try again.",
+        title: isSlotTaken(error) ? "Slot No Longer Free" : "Scheduling Failed",
+        description: (error as Error).message || "Failed to schedule appointment. Please try again.",
         variant: "destructive",
       });
+      if (isSlotTaken(error)) {
+        setSlot(null);
+        setPickerKey((key) => key + 1);
+      }
     } finally {
       setLoading(false);
     }
   };
 
   const sendNotificationToDonor = async () => {
-    // Mock notification - in a real app, this would send push notification, email, or SMS
+    // The appointment is already booked, so a failed notification is logged rather than surfaced
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .insert([
-          {
-            user_id: donor.id,
-            title: 'Appointment Confirmation',
-            message: `Your donation appointment has been scheduled for ${formatDate(formData.date)} at ${formData.time}. Hospital Contact: ${formData.hospitalContact}`,
-            type: 'appointment_confirmation',
-            is_read: false,
-          }
-        ]);
-
-      if (error) {
-        console.log('Notification table might not exist, this is expected for demo');
-      }
+      await dataProvider.createNotification({
+        user_id: donor.id,
+        user_type: 'donor',
+        title: 'Appointment Confirmation',
+        message: `Your donation appointment has been scheduled for ${formatSlot(slot.start, slot.timeZone)}. Hospital Contact: ${formData.hospitalContact}`,
+        type: 'appointment_confirmation',
+        data: {
+          hospital_id: user.id,
+          request_id: requestId || null,
+        },
+      });
     } catch (error) {
-      console.log('Notification system not fully implemented, this is expected for demo');
+      console.error('Error sending appointment notification:', error);
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
-  const getMinDate = () => {
-    const today = new Date();
-    return today.toISOString().split('T')[0];
-  };
-
-  const getMaxDate = () => {
-    const maxDate = new Date();
-    maxDate.setDate(maxDate.getDate() + 30); // 30 days from now
-    return maxDate.toISOString().split('T')[0];
-  };
-
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
       <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -185,7 +159,7 @@ export default function AppointmentForm({
           </div>
           <CardTitle>Schedule Appointment</CardTitle>
           <CardDescription>
-            Schedule a donation appointment with {donor.first_name} {donor.last_name}
+            Schedule a donation appointment with {donor.name}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -196,11 +170,11 @@ export default function AppointmentForm({
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                 <div>
                   <span className="text-gray-500">Name:</span>
-                  <p className="font-medium">{donor.first_name} {donor.last_name}</p>
+                  <p className="font-medium">{donor.name}</p>
                 </div>
                 <div>
                   <span className="text-gray-500">Blood Type:</span>
-                  <p className="font-medium text-red-600">{donor.blood_type}</p>
+                  <p className="font-medium text-red-600">{donor.blood_group}</p>
                 </div>
                 <div>
                   <span className="text-gray-500">Phone:</span>
@@ -208,7 +182,7 @@ export default function AppointmentForm({
                 </div>
                 <div>
                   <span className="text-gray-500">Location:</span>
-                  <p className="font-medium">{donor.location}</p>
+                  <p className="font-medium">{donor.location || 'Not provided'}</p>
                 </div>
               </div>
             </div>
@@ -217,31 +191,14 @@ export default function AppointmentForm({
             <div className="space-y-4">
               <h3 className="font-semibold">Appointment Details</h3>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="date">Appointment Date *</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => handleInputChange('date', e.target.value)}
-                    min={getMinDate()}
-                    max={getMaxDate()}
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="time">Appointment Time *</Label>
-                  <Input
-                    id="time"
-                    type="time"
-                    value={formData.time}
-                    onChange={(e) => handleInputChange('time', e.target.value)}
-                    required
-                  />
-                </div>
-              </div>
+              {user?.id && (
+                <SlotPicker
+                  key={pickerKey}
+                  hospitalId={user.id}
+                  value={slot?.start ?? null}
+                  onChange={(start, timeZone) => setSlot(start ? { start, timeZone } : null)}
+                />
+              )}
 
               <div className="space-y-2">
                 <Label htmlFor="donationType">Donation Type *</Label>
@@ -0,0 +1,126 @@
+import React, { useRef } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { code128Widths } from "@/lib/barcode";
+import { COMPONENT_LABELS, isBloodGroup } from "@/lib/compatibility";
+import {
+  checkCharacter,
+  dinFromBagNumber,
+  encodeBloodGroup,
+  encodeDin,
+  encodeExpiry,
+  encodeProductCode,
+  formatDin,
+} from "@/lib/isbt128";
+import type { BloodComponent, BloodUnitRow } from "@/lib/repository";
+import { Printer, Tag, X } from "lucide-react";
+
+interface BagLabelProps {
+  unit: BloodUnitRow;
+  onClose: () => void;
+}
+
+/** Quiet zone either side of a barcode, in modules. */
+const QUIET_ZONE = 10;
+
+function Barcode({ text, height = 40 }: { text: string; height?: number }) {
+  // Free-text bag numbers may hold characters Code 128 cannot carry
+  if (!/^[\x20-\x7e]+$/.test(text)) return null;
+  const widths = code128Widths(text);
+  const total = widths.reduce((sum, width) => sum + width, 0) + QUIET_ZONE * 2;
+  let x = QUIET_ZONE;
+  const bars = widths.map((width, i) => {
+    const bar = i % 2 === 0 ? <rect key={i} x={x} y={0} width={width} height={height} fill="black" /> : null;
+    x += width;
+    return bar;
+  });
+  return (
+    <svg viewBox={`0 0 ${total} ${height}`} width="100%" height={height} preserveAspectRatio="none" role="img" aria-label={text}>
+      {bars}
+    </svg>
+  );
+}
+
+/**
+ * An ISBT 128 style bag label: donation number, blood group, product and
+ * expiry, each with its barcode. Bags not numbered with a DIN get a plain
+ * Code 128 barcode of their bag number instead.
+ */
+export default function BagLabel({ unit, onClose }: BagLabelProps) {
+  const labelRef = useRef<HTMLDivElement>(null);
+  const din = dinFromBagNumber(unit.bag_number);
+  const expiresAt = new Date(unit.expires_at);
+
+  // Prints the label alone rather than the whole dashboard, with the app's styles
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=480,height=640');
+    if (!printWindow || !labelRef.current) return;
+    const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'))
+      .map((node) => node.outerHTML)
+      .join('');
+    printWindow.document.write(`<!doctype html><html><head><title>${unit.bag_number}</title>${styles}
+      <style>body{margin:8mm}.label{width:100mm}</style></head><body>${labelRef.current.outerHTML}</body></html>`);
+    printWindow.onload = () => {
+      printWindow.print();
+      printWindow.close();
+    };
+    printWindow.document.close();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <Tag className="h-8 w-8 text-red-600" />
+          </div>
+          <CardTitle>Bag Label</CardTitle>
+          <CardDescription>{unit.bag_number}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div ref={labelRef} className="label mx-auto max-w-md border-2 border-black grid grid-cols-2 text-black bg-white">
+            <div className="quadrant p-3 border-r border-b border-black">
+              <Barcode text={din ? encodeDin(din) : unit.bag_number} />
+              {din ? (
+                <p className="font-mono text-sm mt-1">
+                  {formatDin(din)} <span className="border border-black px-1">{checkCharacter(din)}</span>
+                </p>
+              ) : (
+                <p className="font-mono text-sm mt-1">{unit.bag_number}</p>
+              )}
+            </div>
+            <div className="quadrant p-3 border-b border-black">
+              {isBloodGroup(unit.blood_group) && <Barcode text={encodeBloodGroup(unit.blood_group)} />}
+              <p className="text-4xl font-bold text-center mt-1">{unit.blood_group}</p>
+            </div>
+            <div className="quadrant p-3 border-r border-black">
+              {unit.product_code && <Barcode text={encodeProductCode(unit.product_code)} />}
+              <p className="text-sm font-semibold mt-1">
+                {COMPONENT_LABELS[unit.component as BloodComponent] ?? unit.component}
+              </p>
+              {unit.product_code && <p className="font-mono text-xs">{unit.product_code}</p>}
+              {unit.volume_ml && <p className="text-xs">{unit.volume_ml} mL</p>}
+            </div>
+            <div className="quadrant p-3">
+              <Barcode text={encodeExpiry(expiresAt)} />
+              <p className="text-xs mt-1">Expires</p>
+              <p className="text-sm font-semibold">{format(expiresAt, 'dd MMM yyyy HH:mm')}</p>
+            </div>
+          </div>
+
+          <div className="flex gap-4 pt-6">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              <X className="h-4 w-4 mr-2" />
+              Close
+            </Button>
+            <Button type="button" onClick={handlePrint} className="flex-1 bg-blue-600 hover:bg-blue-700">
+              <Printer className="h-4 w-4 mr-2" />
+              Print Label
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Heart, Droplets, AlertTriangle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import { BLOOD_GROUPS, type BloodGroup, type EmergencyLevel, type RequestType } from "@/lib/repository";
+import CompatibleDonorsHint from "./CompatibleDonorsHint";
 
 interface BloodRequestFormProps {
   onRequestSubmitted: () => void;
@@ -22,20 +24,18 @@ export default function BloodRequestForm({ onRequestSubmitted }: BloodRequestFor
     urgency: 'Medium',
     patientName: '',
     patientAge: '',
-    patientGender: '',
     medicalCondition: '',
-    location: '',
     notes: ''
   });
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
-  const bloodGroups = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+  const bloodGroups = BLOOD_GROUPS;
   const urgencyLevels = [
     { value: 'Low', label: 'Low', color: 'bg-green-500', icon: <Clock className="h-4 w-4" /> },
     { value: 'Medium', label: 'Medium', color: 'bg-yellow-500', icon: <Clock className="h-4 w-4" /> },
     { value: 'High', label: 'High', color: 'bg-orange-500', icon: <AlertTriangle className="h-4 w-4" /> },
-    { value: 'Emergency', label: 'Emergency', color: 'bg-red-500', icon: <AlertTriangle className="h-4 w-4" /> }
+    { value: 'Critical', label: 'Critical', color: 'bg-red-500', icon: <AlertTriangle className="h-4 w-4" /> }
   ];
 
   const handleInputChange = (field: string, value: string) => {
@@ -43,7 +43,7 @@ export default function BloodRequestForm({ onRequestSubmitted }: BloodRequestFor
   };
 
   const isFormValid = () => {
-    return formData.bloodGroup && formData.units && formData.patientName && formData.location;
+    return formData.bloodGroup && formData.units && formData.patientName;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -71,57 +71,42 @@ export default function BloodRequestForm({ onRequestSubmitted }: BloodRequestFor
         return;
       }
 
-      // Create request
-      const { error } = await supabase
-        .from('requests')
-        .insert({
-          hospital_id: hospitalData.id,
-          type: formData.type,
-          blood_group: formData.bloodGroup,
-          units: parseInt(formData.units),
-          urgency: formData.urgency,
-          patient_name: formData.patientName,
-          patient_age: formData.patientAge ? parseInt(formData.patientAge) : null,
-          patient_gender: formData.patientGender || null,
-          medical_condition: formData.medicalCondition || null,
-          location: formData.location,
-          notes: formData.notes || null,
-          status: 'pending'
-        });
+      await dataProvider.createRequest({
+        hospital_id: hospitalData.id,
+        request_type: formData.type as RequestType,
+        blood_group: formData.bloodGroup as BloodGroup,
+        units_required: parseInt(formData.units),
+        emergency_level: formData.urgency as EmergencyLevel,
+        patient_name: formData.patientName,
+        patient_age: formData.patientAge ? parseInt(formData.patientAge) : null,
+        medical_condition: formData.medicalCondition || null,
+        notes: formData.notes || null,
+        status: 'pending'
+      });
 
-      if (error) {
-        toast({
-          title: "Request Failed",
-          description: error.message,
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Request Submitted",
-          description: "Your blood/plasma request has been submitted and will be visible to eligible donors.",
-        });
-        
-        // Reset form
-        setFormData({
-          type: 'blood',
-          bloodGroup: '',
-          units: '',
-          urgency: 'Medium',
-          patientName: '',
-          patientAge: '',
-          patientGender: '',
-          medicalCondition: '',
-          location: '',
-          notes: ''
-        });
-        
-        onRequestSubmitted();
-      }
+      toast({
+        title: "Request Submitted",
+        description: "Your blood/plasma request has been submitted and will be visible to eligible donors.",
+      });
+
+      // Reset form
+      setFormData({
+        type: 'blood',
+        bloodGroup: '',
+        units: '',
+        urgency: 'Medium',
+        patientName: '',
+        patientAge: '',
+        medicalCondition: '',
+        notes: ''
+      });
+
+      onRequestSubmitted();
     } catch (error) {
       console.error('Request submission error:', error);
       toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
+        title: "Request Failed",
+        description: (error as Error).message,
         variant: "destructive",
       });
     } finally {
@@ -180,6 +165,7 @@ export default function BloodRequestForm({ onRequestSubmitted }: BloodRequestFor
                   ))}
                 </SelectContent>
               </Select>
+              <CompatibleDonorsHint bloodGroup={formData.bloodGroup} requestType={formData.type} />
             </div>
 
             {/* Units */}
@@ -240,41 +226,16 @@ export default function BloodRequestForm({ onRequestSubmitted }: BloodRequestFor
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label>Gender</Label>
-                <Select value={formData.patientGender} onValueChange={(value) => handleInputChange('patientGender', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select gender" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Male">Male</SelectItem>
-                    <SelectItem value="Female">Female</SelectItem>
-                    <SelectItem value="Other">Other</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label>Medical Condition</Label>
-                <Input
-                  placeholder="Enter medical condition"
-                  value={formData.medicalCondition}
-                  onChange={(e) => handleInputChange('medicalCondition', e.target.value)}
-                />
-              </div>
+            <div className="space-y-2">
+              <Label>Medical Condition</Label>
+              <Input
+                placeholder="Enter medical condition"
+                value={formData.medicalCondition}
+                onChange={(e) => handleInputChange('medicalCondition', e.target.value)}
+              />
             </div>
           </div>
 
-          {/* Location */}
-          <div className="space-y-2">
-            <Label>Location *</Label>
-            <Input
-              placeholder="Enter hospital location or address"
-              value={formData.location}
-              onChange={(e) => handleInputChange('location', e.target.value)}
-            />
-          </div>
-
           {/* Notes */}
           <div className="space-y-2">
             <Label>Additional Notes</Label>
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import {
+  isStaleEdit,
+  type BloodUnitMovementRow,
+  type BloodUnitRow,
+  type BloodUnitStatus,
+  type BloodUnitUpdate,
+  type StorageUnitRow,
+} from "@/lib/repository";
+import BloodUnitTimeline from "./BloodUnitTimeline";
+import { Check, PackageOpen, X } from "lucide-react";
+
+interface BloodUnitAdjustDialogProps {
+  unit: BloodUnitRow;
+  storageUnits: StorageUnitRow[];
+  /** Preselects a status, e.g. available to release a quarantined bag. */
+  initialStatus?: BloodUnitStatus;
+  onClose: () => void;
+  /** Called after a save, and after a save was rejected because the bag had changed. */
+  onAdjusted: () => void;
+}
+
+/** Statuses staff can move a bag between; everything else has its own workflow. */
+const ADJUSTABLE_STATUSES: BloodUnitStatus[] = ['available', 'reserved', 'quarantined'];
+const NO_STORAGE_UNIT = 'none';
+
+export default function BloodUnitAdjustDialog({ unit, storageUnits, initialStatus, onClose, onAdjusted }: BloodUnitAdjustDialogProps) {
+  const [status, setStatus] = useState<string>(initialStatus ?? unit.status);
+  const [storageUnitId, setStorageUnitId] = useState(unit.storage_unit_id ?? NO_STORAGE_UNIT);
+  const [storageLocation, setStorageLocation] = useState(unit.storage_location ?? '');
+  const [reason, setReason] = useState('');
+  const [movements, setMovements] = useState<BloodUnitMovementRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    dataProvider.listBloodUnitMovements([unit.id])
+      .then(setMovements)
+      .catch((error) => console.error('Error loading bag movements:', error));
+  }, [unit.id]);
+
+  const canChangeStatus = ADJUSTABLE_STATUSES.includes(unit.status as BloodUnitStatus);
+  const changes = {
+    ...(status !== unit.status && { status: status as BloodUnitUpdate['status'] }),
+    ...(storageUnitId !== (unit.storage_unit_id ?? NO_STORAGE_UNIT) && {
+      storage_unit_id: storageUnitId === NO_STORAGE_UNIT ? null : storageUnitId,
+    }),
+    ...(storageLocation.trim() !== (unit.storage_location ?? '') && { storage_location: storageLocation.trim() || null }),
+  };
+  const changed = Object.keys(changes).length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!changed || !reason.trim()) {
+      toast({
+        title: "Missing Information",
+        description: changed ? "Please say why the bag is being adjusted." : "Nothing has been changed.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await dataProvider.adjustBloodUnit(unit.id, { ...changes, version: unit.version, reason: reason.trim() });
+      toast({ title: "Bag Updated", description: `${unit.bag_number} was saved.` });
+      onAdjusted();
+    } catch (error) {
+      console.error('Error adjusting blood unit:', error);
+      toast({
+        title: isStaleEdit(error) ? "Bag Changed Elsewhere" : "Update Failed",
+        description: (error as Error).message || "Failed to update the bag. Please try again.",
+        variant: "destructive",
+      });
+      if (isStaleEdit(error)) onAdjusted();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PackageOpen className="h-5 w-5" />
+            Adjust {unit.bag_number}
+          </CardTitle>
+          <CardDescription>Every change is kept in the bag's history with your reason</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={setStatus} disabled={!canChangeStatus}>
+                  <SelectTrigger className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(canChangeStatus ? ADJUSTABLE_STATUSES : [unit.status]).map((s) => (
+                      <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Storage Unit</Label>
+                <Select value={storageUnitId} onValueChange={setStorageUnitId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_STORAGE_UNIT}>Not monitored</SelectItem>
+                    {storageUnits.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustLocation">Storage Location</Label>
+                <Input
+                  id="adjustLocation"
+                  value={storageLocation}
+                  onChange={(e) => setStorageLocation(e.target.value)}
+                  placeholder="e.g. Shelf 2"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustReason">Reason *</Label>
+              <Textarea
+                id="adjustReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Excursion reviewed, bag within limits"
+                rows={2}
+              />
+            </div>
+
+            <div className="flex gap-4">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading || !changed} className="flex-1 bg-blue-600 hover:bg-blue-700">
+                <Check className="h-4 w-4 mr-2" />
+                {loading ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">History</h4>
+            <BloodUnitTimeline entries={movements} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
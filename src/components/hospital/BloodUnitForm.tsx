@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import { parseDin, parseIsbtScan } from "@/lib/isbt128";
+import {
+  BLOOD_COMPONENTS,
+  BLOOD_GROUPS,
+  COMPONENT_SHELF_LIFE_DAYS,
+  defaultExpiry,
+  type BloodComponent,
+  type BloodGroup,
+  type BloodUnitRow,
+  type StorageUnitRow,
+} from "@/lib/repository";
+import ScanInput from "./ScanInput";
+import { Check, Package, X } from "lucide-react";
+
+interface BloodUnitFormProps {
+  hospitalId: string;
+  onClose: () => void;
+  onUnitAdded: (unit: BloodUnitRow) => void;
+}
+
+const LOCAL_DATE_TIME = "yyyy-MM-dd'T'HH:mm";
+const NO_STORAGE_UNIT = 'none';
+
+export default function BloodUnitForm({ hospitalId, onClose, onUnitAdded }: BloodUnitFormProps) {
+  const [bagNumber, setBagNumber] = useState('');
+  const [component, setComponent] = useState<BloodComponent>('red_cells');
+  const [bloodGroup, setBloodGroup] = useState<BloodGroup | ''>('');
+  const [collectedAt, setCollectedAt] = useState(format(new Date(), LOCAL_DATE_TIME));
+  // Left empty, the bag expires after the component's shelf life
+  const [expiresAt, setExpiresAt] = useState('');
+  const [volumeMl, setVolumeMl] = useState('');
+  const [storageLocation, setStorageLocation] = useState('');
+  const [storageUnitId, setStorageUnitId] = useState(NO_STORAGE_UNIT);
+  const [storageUnits, setStorageUnits] = useState<StorageUnitRow[]>([]);
+  const [productCode, setProductCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    dataProvider.listStorageUnits({ hospitalId })
+      .then((units) => setStorageUnits(units.filter((unit) => unit.is_active)))
+      .catch((error) => console.error('Error loading storage units:', error));
+  }, [hospitalId]);
+
+  const collected = collectedAt ? new Date(collectedAt) : null;
+  const shelfLifeExpiry = collected ? defaultExpiry(component, collected) : null;
+
+  // Each label barcode fills in its own field
+  const handleScan = (text: string) => {
+    const scan = parseIsbtScan(text);
+    switch (scan.kind) {
+      case 'din':
+        setBagNumber(scan.din);
+        break;
+      case 'blood_group':
+        if (scan.bloodGroup) setBloodGroup(scan.bloodGroup);
+        else toast({ title: "Unsupported Blood Group", description: `Code ${scan.code} is not an ABO/RhD group; choose the group by hand.` });
+        break;
+      case 'product':
+        setProductCode(scan.code);
+        break;
+      case 'expiry':
+        setExpiresAt(format(scan.expiresAt, LOCAL_DATE_TIME));
+        break;
+      case 'invalid':
+        toast({ title: "Unreadable Label", description: scan.error, variant: "destructive" });
+        break;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // A DIN typed from the eye-readable label ends in its check character
+    const din = parseDin(bagNumber);
+    if (din.kind === 'invalid' && /^[A-NP-Z1-9][0-9]{12}[0-9A-Z*]$/i.test(bagNumber.trim())) {
+      toast({
+        title: "Check Character Mismatch",
+        description: din.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!bagNumber.trim() || !bloodGroup || !collected) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the bag number, blood group and collection time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const unit = await dataProvider.createBloodUnit({
+        hospital_id: hospitalId,
+        bag_number: din.kind === 'din' ? din.din : bagNumber.trim(),
+        component,
+        blood_group: bloodGroup,
+        volume_ml: volumeMl ? parseInt(volumeMl) : null,
+        collected_at: collected.toISOString(),
+        expires_at: (expiresAt ? new Date(expiresAt) : shelfLifeExpiry!).toISOString(),
+        storage_location: storageLocation.trim() || null,
+        storage_unit_id: storageUnitId === NO_STORAGE_UNIT ? null : storageUnitId,
+        product_code: productCode.trim() || null,
+      });
+
+      toast({
+        title: "Bag Added",
+        description: `${unit.bag_number} (${unit.blood_group} ${COMPONENT_LABELS[component]}) is in stock.`,
+        variant: "default",
+      });
+      onUnitAdded(unit);
+    } catch (error) {
+      console.error('Error adding blood unit:', error);
+      toast({
+        title: "Failed to Add Bag",
+        description: (error as Error).message || "Failed to add the bag. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <Package className="h-8 w-8 text-red-600" />
+          </div>
+          <CardTitle>Receive Blood Bag</CardTitle>
+          <CardDescription>Log a bag into the blood bank</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="bagScan">Scan Label</Label>
+              <ScanInput id="bagScan" autoFocus onScan={handleScan} placeholder="Scan each ISBT 128 barcode on the bag" />
+              <p className="text-xs text-gray-500">Donation number, blood group, product code and expiry fill in as they are scanned.</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bagNumber">Bag Number *</Label>
+                <Input id="bagNumber" value={bagNumber} onChange={(e) => setBagNumber(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Component *</Label>
+                <Select value={component} onValueChange={(value: BloodComponent) => setComponent(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_COMPONENTS.map((c) => (
+                      <SelectItem key={c} value={c}>{COMPONENT_LABELS[c]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Blood Group *</Label>
+                <Select value={bloodGroup} onValueChange={(value: BloodGroup) => setBloodGroup(value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_GROUPS.map((group) => (
+                      <SelectItem key={group} value={group}>{group}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="collectedAt">Collected *</Label>
+                <Input
+                  id="collectedAt"
+                  type="datetime-local"
+                  value={collectedAt}
+                  onChange={(e) => setCollectedAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expiresAt">Expires</Label>
+                <Input
+                  id="expiresAt"
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">
+                  {shelfLifeExpiry
+                    ? `Leave empty for ${format(shelfLifeExpiry, 'PPp')} (${COMPONENT_SHELF_LIFE_DAYS[component]} days).`
+                    : `Leave empty for ${COMPONENT_SHELF_LIFE_DAYS[component]} days after collection.`}
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="productCode">Product Code</Label>
+                <Input
+                  id="productCode"
+                  value={productCode}
+                  onChange={(e) => setProductCode(e.target.value)}
+                  placeholder="e.g. E0001V00"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="volumeMl">Volume (mL)</Label>
+                <Input
+                  id="volumeMl"
+                  type="number"
+                  min="1"
+                  value={volumeMl}
+                  onChange={(e) => setVolumeMl(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Storage Unit</Label>
+                <Select value={storageUnitId} onValueChange={setStorageUnitId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_STORAGE_UNIT}>Not monitored</SelectItem>
+                    {storageUnits.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="storageLocation">Storage Location</Label>
+                <Input
+                  id="storageLocation"
+                  value={storageLocation}
+                  onChange={(e) => setStorageLocation(e.target.value)}
+                  placeholder="e.g. Shelf 2"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-4 pt-6">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-blue-600 hover:bg-blue-700">
+                {loading ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    <Check className="h-4 w-4 mr-2" />
+                    Add Bag
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import React, { useEffect, useState } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import { dinFromBagNumber, parseIsbtScan } from "@/lib/isbt128";
+import {
+  BLOOD_COMPONENTS,
+  BLOOD_GROUPS,
+  BLOOD_UNIT_STATUSES,
+  byExpiry,
+  isInStock,
+  type BloodComponent,
+  type BloodGroup,
+  type BloodRequestWithHospital,
+  type BloodUnitRow,
+  type BloodUnitStatus,
+  type StorageUnitRow,
+} from "@/lib/repository";
+import BloodUnitForm from "./BloodUnitForm";
+import BloodUnitAdjustDialog from "./BloodUnitAdjustDialog";
+import BagLabel from "./BagLabel";
+import DiscardUnitDialog from "./DiscardUnitDialog";
+import ScanInput from "./ScanInput";
+import { PackageCheck, PackageMinus, Pencil, Plus, Printer, Trash2 } from "lucide-react";
+
+interface BloodUnitInventoryProps {
+  hospitalId?: string;
+  /** The hospital's bags, soonest expiry first. */
+  units: BloodUnitRow[];
+  onUnitsChanged: () => void;
+}
+
+/** Days left within which a bag in stock is flagged as expiring. */
+const EXPIRY_WARNING_DAYS = 3;
+
+const STATUS_STYLES: Record<BloodUnitStatus, string> = {
+  available: 'bg-green-100 text-green-800',
+  reserved: 'bg-blue-100 text-blue-800',
+  issued: 'bg-gray-100 text-gray-800',
+  expired: 'bg-red-100 text-red-800',
+  discarded: 'bg-gray-100 text-gray-500',
+  processed: 'bg-purple-100 text-purple-800',
+  quarantined: 'bg-orange-100 text-orange-800',
+};
+
+const NO_REQUEST = 'none';
+
+export default function BloodUnitInventory({ hospitalId, units, onUnitsChanged }: BloodUnitInventoryProps) {
+  const [statusFilter, setStatusFilter] = useState<BloodUnitStatus | 'all'>('available');
+  const [showForm, setShowForm] = useState(false);
+  const [issueGroup, setIssueGroup] = useState<BloodGroup | ''>('');
+  const [issueComponent, setIssueComponent] = useState<BloodComponent>('red_cells');
+  const [issueCount, setIssueCount] = useState('1');
+  const [issueRequestId, setIssueRequestId] = useState(NO_REQUEST);
+  const [openRequests, setOpenRequests] = useState<BloodRequestWithHospital[]>([]);
+  const [storageUnits, setStorageUnits] = useState<StorageUnitRow[]>([]);
+  const [issuing, setIssuing] = useState(false);
+  const [labelUnit, setLabelUnit] = useState<BloodUnitRow | null>(null);
+  const [discardUnit, setDiscardUnit] = useState<BloodUnitRow | null>(null);
+  const [adjusting, setAdjusting] = useState<{ unit: BloodUnitRow; status?: BloodUnitStatus } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!hospitalId) return;
+    dataProvider.listRequests({ hospitalId, requestType: 'blood', status: ['pending', 'accepted'] })
+      .then(setOpenRequests)
+      .catch((error) => console.error('Error loading open requests:', error));
+    dataProvider.listStorageUnits({ hospitalId })
+      .then(setStorageUnits)
+      .catch((error) => console.error('Error loading storage units:', error));
+  }, [hospitalId]);
+
+  const now = new Date();
+  const shown = units.filter((unit) => statusFilter === 'all' || unit.status === statusFilter);
+  const inStock = (group: BloodGroup | '', component: BloodComponent) =>
+    units.filter((unit) => unit.blood_group === group && unit.component === component && isInStock(unit, now)).length;
+
+  // A scanned bag picks the group and component to issue; FEFO still decides which bag goes
+  const handleIssueScan = (text: string) => {
+    const scan = parseIsbtScan(text);
+    if (scan.kind !== 'din' && scan.kind !== 'invalid') {
+      toast({ title: "Scan the Donation Number", description: "Use the barcode in the top left of the label.", variant: "destructive" });
+      return;
+    }
+    const scanned = scan.kind === 'din' ? scan.din : text.trim();
+    const candidates = units.filter((unit) =>
+      (unit.bag_number === scanned || dinFromBagNumber(unit.bag_number) === scanned) && isInStock(unit, now)
+    );
+    const bag = candidates.find((unit) => unit.component === issueComponent) ?? candidates[0];
+    if (!bag) {
+      toast({ title: "Bag Not in Stock", description: `${scanned} is not an available bag here.`, variant: "destructive" });
+      return;
+    }
+
+    setIssueGroup(bag.blood_group as BloodGroup);
+    setIssueComponent(bag.component as BloodComponent);
+    const next = units
+      .filter((unit) => unit.blood_group === bag.blood_group && unit.component === bag.component && isInStock(unit, now))
+      .sort(byExpiry)[0];
+    toast(next.id === bag.id
+      ? { title: "Bag Ready", description: `${bag.bag_number} is next out for ${bag.blood_group}.` }
+      : {
+          title: "Older Bag First",
+          description: `${next.bag_number} expires ${format(new Date(next.expires_at), 'PP')} and will be issued before ${bag.bag_number}.`,
+          variant: "destructive",
+        });
+  };
+
+  const handleIssue = async () => {
+    const count = parseInt(issueCount);
+    if (!hospitalId || !issueGroup || !(count > 0)) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose a blood group and the number of bags to issue.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIssuing(true);
+    try {
+      const issued = await dataProvider.issueBloodUnits({
+        hospitalId,
+        bloodGroup: issueGroup,
+        component: issueComponent,
+        units: count,
+        requestId: issueRequestId === NO_REQUEST ? undefined : issueRequestId,
+      });
+      toast({
+        title: "Bags Issued",
+        description: `Bags to hand out: ${issued.map((unit) => unit.bag_number).join(', ')}`,
+        variant: "default",
+      });
+      onUnitsChanged();
+    } catch (error) {
+      console.error('Error issuing blood units:', error);
+      toast({
+        title: "Issue Failed",
+        description: (error as Error).message || "Failed to issue the bags. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const locationOf = (unit: BloodUnitRow) => {
+    const storageUnit = storageUnits.find((s) => s.id === unit.storage_unit_id);
+    return [storageUnit?.name, unit.storage_location].filter(Boolean).join(' · ') || '—';
+  };
+
+  const expiryBadge = (unit: BloodUnitRow) => {
+    if (unit.status !== 'available' && unit.status !== 'reserved') return null;
+    const daysLeft = differenceInCalendarDays(new Date(unit.expires_at), now);
+    if (new Date(unit.expires_at) <= now) return <Badge variant="destructive">Expired</Badge>;
+    if (daysLeft <= EXPIRY_WARNING_DAYS) {
+      return <Badge className="bg-yellow-500 text-white">{daysLeft === 0 ? 'Expires today' : `${daysLeft}d left`}</Badge>;
+    }
+    return null;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Issue Blood</CardTitle>
+              <CardDescription>Bags are issued first-expiry-first-out</CardDescription>
+            </div>
+            <Button onClick={() => setShowForm(true)} disabled={!hospitalId} className="medical-btn">
+              <Plus className="h-4 w-4 mr-2" />
+              Receive Bag
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 md:w-1/2">
+            <Label htmlFor="issueScan">Scan Bag</Label>
+            <ScanInput id="issueScan" onScan={handleIssueScan} placeholder="Scan the donation number to pick the group" />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Blood Group</Label>
+              <Select value={issueGroup} onValueChange={(value: BloodGroup) => setIssueGroup(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOOD_GROUPS.map((group) => (
+                    <SelectItem key={group} value={group}>{group}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Component</Label>
+              <Select value={issueComponent} onValueChange={(value: BloodComponent) => setIssueComponent(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOOD_COMPONENTS.map((c) => (
+                    <SelectItem key={c} value={c}>{COMPONENT_LABELS[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issueCount">Bags ({inStock(issueGroup, issueComponent)} in stock)</Label>
+              <Input
+                id="issueCount"
+                type="number"
+                min="1"
+                value={issueCount}
+                onChange={(e) => setIssueCount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>For Request</Label>
+              <Select value={issueRequestId} onValueChange={setIssueRequestId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REQUEST}>No request</SelectItem>
+                  {openRequests.map((request) => (
+                    <SelectItem key={request.id} value={request.id}>
+                      {request.patient_name} · {request.blood_group} · {request.units_required} units
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleIssue} disabled={issuing || !hospitalId}>
+              <PackageMinus className="h-4 w-4 mr-2" />
+              {issuing ? 'Issuing...' : 'Issue'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Blood Bags</CardTitle>
+              <CardDescription>Every bag in the blood bank, soonest expiry first</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(value: BloodUnitStatus | 'all') => setStatusFilter(value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All bags</SelectItem>
+                {BLOOD_UNIT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {shown.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No bags to show</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bag</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Collected</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((unit) => (
+                  <TableRow key={unit.id}>
+                    <TableCell className="font-mono text-sm">{unit.bag_number}</TableCell>
+                    <TableCell className="font-bold text-blood">{unit.blood_group}</TableCell>
+                    <TableCell>{COMPONENT_LABELS[unit.component as BloodComponent] ?? unit.component}</TableCell>
+                    <TableCell>{format(new Date(unit.collected_at), 'PP')}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {format(new Date(unit.expires_at), 'PP')}
+                        {expiryBadge(unit)}
+                      </div>
+                    </TableCell>
+                    <TableCell>{locationOf(unit)}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[unit.status as BloodUnitStatus]}>{unit.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 justify-end">
+                        <Button size="sm" variant="outline" onClick={() => setLabelUnit(unit)}>
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                        {/* Quarantined bags go back into stock only once someone has reviewed the excursion */}
+                        {unit.status === 'quarantined' && (
+                          <Button size="sm" variant="outline" onClick={() => setAdjusting({ unit, status: 'available' })} title="Release after review">
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {['available', 'reserved', 'quarantined'].includes(unit.status) && (
+                          <Button size="sm" variant="outline" onClick={() => setAdjusting({ unit })} title="Adjust and view history">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {['available', 'reserved', 'expired', 'quarantined'].includes(unit.status) && (
+                          <Button size="sm" variant="outline" onClick={() => setDiscardUnit(unit)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {showForm && hospitalId && (
+        <BloodUnitForm
+          hospitalId={hospitalId}
+          onClose={() => setShowForm(false)}
+          onUnitAdded={(unit) => {
+            setShowForm(false);
+            setLabelUnit(unit);
+            onUnitsChanged();
+          }}
+        />
+      )}
+
+      {labelUnit && <BagLabel unit={labelUnit} onClose={() => setLabelUnit(null)} />}
+
+      {adjusting && (
+        <BloodUnitAdjustDialog
+          unit={adjusting.unit}
+          storageUnits={storageUnits}
+          initialStatus={adjusting.status}
+          onClose={() => setAdjusting(null)}
+          onAdjusted={() => {
+            setAdjusting(null);
+            onUnitsChanged();
+          }}
+        />
+      )}
+
+      {discardUnit && (
+        <DiscardUnitDialog
+          unit={discardUnit}
+          onClose={() => setDiscardUnit(null)}
+          onDiscarded={() => {
+            setDiscardUnit(null);
+            onUnitsChanged();
+          }}
+        />
+      )}
+    </>
+  );
+}
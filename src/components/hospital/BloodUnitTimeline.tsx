@@ -0,0 +1,44 @@
+import React from 'react';
+import type { BloodUnitMovementRow } from "@/lib/repository";
+
+interface BloodUnitTimelineProps {
+  entries: BloodUnitMovementRow[];
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  hospital: 'Hospital',
+  admin: 'Admin',
+  system: 'System',
+};
+
+const describe = (entry: BloodUnitMovementRow) => {
+  const parts: string[] = [];
+  if (!entry.from_status) parts.push(entry.to_status);
+  else if (entry.from_status !== entry.to_status) parts.push(`${entry.from_status} → ${entry.to_status}`);
+  if (entry.from_hospital_id) parts.push('transferred in');
+  if (entry.from_status && entry.from_location !== entry.to_location) {
+    parts.push(`moved ${entry.from_location ?? 'unplaced'} → ${entry.to_location ?? 'unplaced'}`);
+  }
+  return parts.join(', ');
+};
+
+export default function BloodUnitTimeline({ entries }: BloodUnitTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No movements recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-red-500" />
+          <div className="text-sm font-medium capitalize">{describe(entry)}</div>
+          <div className="text-xs text-gray-500">
+            {ACTOR_LABELS[entry.actor_role] ?? entry.actor_role} · {new Date(entry.created_at).toLocaleString()}
+          </div>
+          {entry.reason && <p className="text-sm text-gray-700">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { APPOINTMENT_STATUS_LABELS } from "@/lib/appointments";
+import { dataProvider } from "@/lib/dataProvider";
+import { addDays, dayInZone, formatSlotTime, zonedTime } from "@/lib/slots";
+import type { AppointmentSlot, AppointmentStatus, AppointmentWithDonor, DonationScheduleRow } from "@/lib/repository";
+import { LayoutGrid } from "lucide-react";
+
+interface ChairDayViewProps {
+  hospitalId?: string;
+  /** Bumped by the dashboard to reload after bookings or schedule changes. */
+  refreshKey?: number;
+}
+
+// Lays bookings out as a chair grid; appointments made before chairs existed fill the gaps
+const seatBookings = (slot: AppointmentSlot, chairs: number, bookings: AppointmentWithDonor[]) => {
+  const inSlot = bookings.filter((b) => Date.parse(b.slot_start) === Date.parse(slot.slot_start));
+  const seats: (AppointmentWithDonor | undefined)[] = Array.from({ length: chairs }, (_, i) =>
+    inSlot.find((b) => b.chair === i + 1)
+  );
+  const unseated = inSlot.filter((b) => b.chair == null || b.chair > chairs);
+  return seats.map((seat) => seat ?? unseated.shift());
+};
+
+/** One day's slots with who sits in each chair. */
+export default function ChairDayView({ hospitalId, refreshKey }: ChairDayViewProps) {
+  const [schedule, setSchedule] = useState<DonationScheduleRow | null>(null);
+  const [day, setDay] = useState('');
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [bookings, setBookings] = useState<AppointmentWithDonor[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!hospitalId) return;
+    dataProvider.getDonationSchedule(hospitalId)
+      .then((found) => {
+        setSchedule(found);
+        if (found) setDay((current) => current || dayInZone(new Date(), found.timezone));
+      })
+      .catch((error) => console.error('Error loading donation schedule:', error));
+  }, [hospitalId, refreshKey]);
+
+  useEffect(() => {
+    if (!hospitalId || !schedule || !day) return;
+    setLoading(true);
+    Promise.all([
+      dataProvider.listAppointmentSlots(hospitalId, day),
+      dataProvider.listAppointments({
+        hospitalId,
+        status: ['scheduled', 'confirmed'],
+        from: zonedTime(day, '00:00', schedule.timezone).toISOString(),
+        to: zonedTime(addDays(day, 1), '00:00', schedule.timezone).toISOString(),
+      }),
+    ])
+      .then(([daySlots, dayBookings]) => {
+        setSlots(daySlots);
+        setBookings(dayBookings);
+      })
+      .catch((error) => console.error('Error loading the day view:', error))
+      .finally(() => setLoading(false));
+  }, [hospitalId, schedule, day, refreshKey]);
+
+  if (!schedule) return null;
+
+  const chairs = Array.from({ length: schedule.chairs }, (_, i) => i + 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LayoutGrid className="h-5 w-5" />
+              Chair Schedule
+            </CardTitle>
+            <CardDescription>Booked donors per chair, in {schedule.timezone} time</CardDescription>
+          </div>
+          <Input type="date" value={day} onChange={(e) => setDay(e.target.value)} className="w-44" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-gray-500 text-center py-4">Loading slots...</p>
+        ) : slots.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">Closed on this day</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                {chairs.map((chair) => (
+                  <TableHead key={chair}>Chair {chair}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {slots.map((slot) => (
+                <TableRow key={slot.slot_start}>
+                  <TableCell className="font-medium whitespace-nowrap">{formatSlotTime(slot.slot_start, schedule.timezone)}</TableCell>
+                  {seatBookings(slot, schedule.chairs, bookings).map((booking, i) => (
+                    <TableCell key={i}>
+                      {booking ? (
+                        <div className="flex items-center gap-2">
+                          <span>{booking.donor?.name ?? 'Unknown donor'}</span>
+                          <Badge variant="outline">{APPOINTMENT_STATUS_LABELS[booking.status as AppointmentStatus] ?? booking.status}</Badge>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">Free</span>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
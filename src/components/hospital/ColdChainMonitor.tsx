@@ -0,0 +1,327 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { format, formatDistanceStrict, subDays } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import { STORAGE_UNIT_KIND_LABELS, STORAGE_UNIT_KIND_RANGES, parseTemperatureCsv } from "@/lib/coldChain";
+import type {
+  BloodComponent,
+  StorageUnitKind,
+  StorageUnitRow,
+  TemperatureExcursionRow,
+  TemperatureExcursionUnitRow,
+  TemperatureReadingRow,
+} from "@/lib/repository";
+import { KeyRound, Plus, Thermometer, Upload } from "lucide-react";
+import StorageUnitForm from "./StorageUnitForm";
+
+interface ColdChainMonitorProps {
+  hospitalId?: string;
+  /** Called after readings are stored, since an excursion may have quarantined bags. */
+  onUnitsChanged: () => void;
+}
+
+const TIMELINE_OPTIONS = [1, 7, 30];
+
+export default function ColdChainMonitor({ hospitalId, onUnitsChanged }: ColdChainMonitorProps) {
+  const [storageUnits, setStorageUnits] = useState<StorageUnitRow[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [timelineDays, setTimelineDays] = useState(7);
+  const [readings, setReadings] = useState<TemperatureReadingRow[]>([]);
+  const [excursions, setExcursions] = useState<TemperatureExcursionRow[]>([]);
+  const [excursionUnits, setExcursionUnits] = useState<TemperatureExcursionUnitRow[]>([]);
+  const [deviceKey, setDeviceKey] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const selected = storageUnits.find((unit) => unit.id === selectedId);
+
+  const loadStorageUnits = useCallback(async () => {
+    if (!hospitalId) return;
+    try {
+      const units = await dataProvider.listStorageUnits({ hospitalId });
+      setStorageUnits(units);
+      setSelectedId((prev) => (units.some((unit) => unit.id === prev) ? prev : units[0]?.id ?? ''));
+    } catch (error) {
+      console.error('Error loading storage units:', error);
+    }
+  }, [hospitalId]);
+
+  const loadExcursions = useCallback(async () => {
+    try {
+      const rows = await dataProvider.listTemperatureExcursions({ storageUnitIds: storageUnits.map((unit) => unit.id) });
+      setExcursions(rows);
+      setExcursionUnits(await dataProvider.listTemperatureExcursionUnits(rows.map((row) => row.id)));
+    } catch (error) {
+      console.error('Error loading excursions:', error);
+    }
+  }, [storageUnits]);
+
+  const loadReadings = useCallback(async () => {
+    if (!selectedId) {
+      setReadings([]);
+      return;
+    }
+    try {
+      setReadings(await dataProvider.listTemperatureReadings({
+        storageUnitId: selectedId,
+        from: subDays(new Date(), timelineDays).toISOString(),
+      }));
+    } catch (error) {
+      console.error('Error loading temperature readings:', error);
+    }
+  }, [selectedId, timelineDays]);
+
+  useEffect(() => {
+    loadStorageUnits();
+  }, [loadStorageUnits]);
+
+  useEffect(() => {
+    loadExcursions();
+  }, [loadExcursions]);
+
+  useEffect(() => {
+    loadReadings();
+    setDeviceKey(null);
+  }, [loadReadings]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected) return;
+
+    const { readings: parsed, errors } = parseTemperatureCsv(await file.text());
+    if (parsed.length === 0) {
+      toast({
+        title: "Nothing to Upload",
+        description: errors[0] ?? "The file has no readings.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const added = await dataProvider.recordTemperatureReadings(selected.id, parsed);
+      const skipped = errors.length > 0 ? ` ${errors.length} line(s) could not be read, first: ${errors[0]}` : '';
+      toast({
+        title: "Readings Uploaded",
+        description: `${added} new reading(s) stored for ${selected.name}.${skipped}`,
+        variant: errors.length > 0 ? "destructive" : "default",
+      });
+      await Promise.all([loadReadings(), loadExcursions()]);
+      onUnitsChanged();
+    } catch (error) {
+      console.error('Error uploading temperature readings:', error);
+      toast({
+        title: "Upload Failed",
+        description: (error as Error).message || "Failed to upload the readings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRotateKey = async () => {
+    if (!selected) return;
+    try {
+      setDeviceKey(await dataProvider.rotateStorageUnitKey(selected.id));
+      loadStorageUnits();
+    } catch (error) {
+      console.error('Error issuing device key:', error);
+      toast({
+        title: "Key Not Issued",
+        description: (error as Error).message || "Failed to issue a device key. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const unitName = (id: string) => storageUnits.find((unit) => unit.id === id)?.name ?? 'Unknown unit';
+  const range = selected ? STORAGE_UNIT_KIND_RANGES[selected.kind as StorageUnitKind] : null;
+  const chartData = useMemo(
+    () => readings.map((reading) => ({ time: new Date(reading.recorded_at).getTime(), temperature: Number(reading.temperature_c) })),
+    [readings]
+  );
+  const chartEnd = chartData.length > 0 ? chartData[chartData.length - 1].time : Date.now();
+  const shownExcursions = excursions.filter((excursion) => excursion.storage_unit_id === selectedId);
+
+  // The furthest a reading went past the limit it broke
+  const peak = (excursion: TemperatureExcursionRow) =>
+    Number(excursion.highest_temp_c) > Number(excursion.max_temp_c) ? excursion.highest_temp_c : excursion.lowest_temp_c;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Thermometer className="h-5 w-5" />
+                Cold Chain
+              </CardTitle>
+              <CardDescription>
+                Readings outside a component's range open an excursion and quarantine its bags in that unit
+              </CardDescription>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <Select value={selectedId} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-52">
+                  <SelectValue placeholder="No storage units" />
+                </SelectTrigger>
+                <SelectContent>
+                  {storageUnits.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.name} · {STORAGE_UNIT_KIND_LABELS[unit.kind as StorageUnitKind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(timelineDays)} onValueChange={(value) => setTimelineDays(Number(value))}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMELINE_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>Last {days === 1 ? '24 hours' : `${days} days`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={() => setShowForm(true)} disabled={!hospitalId}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Unit
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {selected && (
+            <div className="flex items-center gap-2 flex-wrap">
+              <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={handleUpload} />
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={uploading}>
+                <Upload className="h-4 w-4 mr-2" />
+                {uploading ? 'Uploading...' : 'Upload CSV'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRotateKey}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {selected.device_key_hash ? 'Replace Device Key' : 'Issue Device Key'}
+              </Button>
+              {selected.location && <span className="text-sm text-gray-500">{selected.location}</span>}
+            </div>
+          )}
+
+          {deviceKey && (
+            <div className="p-3 border border-yellow-300 bg-yellow-50 rounded-lg text-sm space-y-1">
+              <p className="font-medium">Copy this key now; it is not shown again and replaces any earlier key.</p>
+              <p className="font-mono break-all">{deviceKey}</p>
+              <p className="text-gray-600">
+                The logger posts {'{ "p_device_key": …, "p_readings": [{ "recorded_at": …, "temperature_c": … }] }'} to
+                {' '}<span className="font-mono">/rest/v1/rpc/ingest_temperature_readings</span>.
+              </p>
+            </div>
+          )}
+
+          {!selected ? (
+            <p className="text-gray-500 text-center py-4">Add a storage unit to start logging temperatures</p>
+          ) : chartData.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No readings for {selected.name} in this period</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(time) => format(time, timelineDays === 1 ? 'HH:mm' : 'MMM d')}
+                />
+                <YAxis unit=" °C" />
+                <Tooltip labelFormatter={(time) => format(time, 'PPp')} formatter={(value) => [`${value} °C`, 'Temperature']} />
+                {range && <ReferenceArea y1={range.min} y2={range.max} fill="#38A169" fillOpacity={0.1} />}
+                {shownExcursions.map((excursion) => (
+                  <ReferenceArea
+                    key={excursion.id}
+                    x1={Math.max(new Date(excursion.started_at).getTime(), chartData[0].time)}
+                    x2={excursion.ended_at ? new Date(excursion.ended_at).getTime() : chartEnd}
+                    fill="#E53E3E"
+                    fillOpacity={0.15}
+                  />
+                ))}
+                <Line type="monotone" dataKey="temperature" stroke="#3182CE" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Excursion Report</CardTitle>
+          <CardDescription>Every time a unit left a component's range, and the bags it quarantined</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {excursions.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No temperature excursions recorded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Allowed</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Peak</TableHead>
+                  <TableHead>Bags Quarantined</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {excursions.map((excursion) => (
+                  <TableRow key={excursion.id}>
+                    <TableCell>{unitName(excursion.storage_unit_id)}</TableCell>
+                    <TableCell>{COMPONENT_LABELS[excursion.component as BloodComponent] ?? excursion.component}</TableCell>
+                    <TableCell>{excursion.min_temp_c} to {excursion.max_temp_c} °C</TableCell>
+                    <TableCell>{format(new Date(excursion.started_at), 'PPp')}</TableCell>
+                    <TableCell>
+                      {excursion.ended_at ? (
+                        formatDistanceStrict(new Date(excursion.ended_at), new Date(excursion.started_at))
+                      ) : (
+                        <Badge variant="destructive">Ongoing</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium text-red-600">{peak(excursion)} °C</TableCell>
+                    <TableCell>
+                      {excursionUnits.filter((link) => link.excursion_id === excursion.id).length}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {showForm && hospitalId && (
+        <StorageUnitForm
+          hospitalId={hospitalId}
+          onClose={() => setShowForm(false)}
+          onUnitAdded={(unit) => {
+            setShowForm(false);
+            setSelectedId(unit.id);
+            loadStorageUnits();
+          }}
+        />
+      )}
+    </>
+  );
+}
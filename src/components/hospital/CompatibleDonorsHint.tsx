@@ -0,0 +1,20 @@
+import React from 'react';
+import { compatibleDonorGroups, componentForRequest, isBloodGroup } from "@/lib/compatibility";
+
+interface CompatibleDonorsHintProps {
+  bloodGroup: string;
+  requestType: string;
+}
+
+// Tells the requester which donors will be contacted, using the same rules as donor matching
+export default function CompatibleDonorsHint({ bloodGroup, requestType }: CompatibleDonorsHintProps) {
+  if (!isBloodGroup(bloodGroup)) return null;
+
+  const groups = compatibleDonorGroups(bloodGroup, { component: componentForRequest(requestType) });
+
+  return (
+    <p className="text-xs text-gray-500">
+      Compatible donors: {groups.join(', ')}
+    </p>
+  );
+}
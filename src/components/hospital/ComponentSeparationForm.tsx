@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import {
+  COMPONENT_SHELF_LIFE_DAYS,
+  SEPARABLE_COMPONENTS,
+  defaultExpiry,
+  type BloodComponent,
+  type BloodUnitRow,
+  type DonationRow,
+} from "@/lib/repository";
+import { Check, Split, X } from "lucide-react";
+
+interface ComponentSeparationFormProps {
+  donation: DonationRow;
+  onClose: () => void;
+  onSeparated: (units: BloodUnitRow[]) => void;
+}
+
+const DEFAULT_STORAGE: Partial<Record<BloodComponent, string>> = {
+  red_cells: 'Refrigerator',
+  plasma: 'Freezer',
+  platelets: 'Platelet agitator',
+};
+
+export default function ComponentSeparationForm({ donation, onClose, onSeparated }: ComponentSeparationFormProps) {
+  const [components, setComponents] = useState<BloodComponent[]>(SEPARABLE_COMPONENTS);
+  const [storage, setStorage] = useState<Partial<Record<BloodComponent, string>>>(DEFAULT_STORAGE);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const collectedAt = new Date(donation.donation_date);
+
+  const toggle = (component: BloodComponent, checked: boolean) =>
+    setComponents((prev) => (checked ? [...prev, component] : prev.filter((c) => c !== component)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (components.length === 0) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose at least one component.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const units = await dataProvider.separateDonation({
+        donationId: donation.id,
+        components: SEPARABLE_COMPONENTS.filter((c) => components.includes(c)),
+        storageLocations: Object.fromEntries(components.map((c) => [c, storage[c] ?? ''])),
+      });
+
+      toast({
+        title: "Donation Separated",
+        description: `Added ${units.map((unit) => unit.bag_number).join(', ')} to inventory.`,
+        variant: "default",
+      });
+      onSeparated(units);
+    } catch (error) {
+      console.error('Error separating donation:', error);
+      toast({
+        title: "Separation Failed",
+        description: (error as Error).message || "Failed to separate the donation. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <Split className="h-8 w-8 text-red-600" />
+          </div>
+          <CardTitle>Separate Components</CardTitle>
+          <CardDescription>
+            {donation.blood_group} whole blood collected {collectedAt.toLocaleString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-4">
+              {SEPARABLE_COMPONENTS.map((component) => {
+                const selected = components.includes(component);
+                return (
+                  <div key={component} className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center p-4 border rounded-lg">
+                    <div className="flex items-start gap-3">
+                      <Checkbox
+                        id={`component-${component}`}
+                        checked={selected}
+                        onCheckedChange={(checked) => toggle(component, checked === true)}
+                      />
+                      <div>
+                        <Label htmlFor={`component-${component}`}>{COMPONENT_LABELS[component]}</Label>
+                        <p className="text-xs text-gray-500">
+                          Keeps {COMPONENT_SHELF_LIFE_DAYS[component]} days, until {format(defaultExpiry(component, collectedAt), 'PP')}
+                        </p>
+                      </div>
+                    </div>
+                    <Input
+                      aria-label={`${COMPONENT_LABELS[component]} storage location`}
+                      value={storage[component] ?? ''}
+                      disabled={!selected}
+                      onChange={(e) => setStorage((prev) => ({ ...prev, [component]: e.target.value }))}
+                      placeholder="Storage location"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex gap-4 pt-6">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-blue-600 hover:bg-blue-700">
+                {loading ? (
+                  "Processing..."
+                ) : (
+                  <>
+                    <Check className="h-4 w-4 mr-2" />
+                    Separate
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { dataProvider } from "@/lib/dataProvider";
+import type { DeclarationRow } from "@/lib/repository";
+import { ELIGIBILITY_STATUS_LABELS, type EligibilityStatus } from "@/lib/eligibility";
+import { QUESTIONNAIRE_VERSIONS, formatAnswer, type Answers } from "@/lib/questionnaire";
+import { FileText, X } from "lucide-react";
+
+interface DeclarationViewerProps {
+  donorName?: string;
+  /** Shows this declaration, e.g. the one a donation points at... */
+  declarationId?: string | null;
+  /** ...or the one the donor had made by `at`. */
+  donorId?: string;
+  at?: string;
+  onClose: () => void;
+}
+
+export default function DeclarationViewer({ donorName, declarationId, donorId, at, onClose }: DeclarationViewerProps) {
+  const [declaration, setDeclaration] = useState<DeclarationRow | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        if (declarationId) setDeclaration(await dataProvider.getDeclaration(declarationId));
+        else if (donorId) setDeclaration(await dataProvider.getDeclarationAt(donorId, at));
+      } catch (error) {
+        console.error('Error loading declaration:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [declarationId, donorId, at]);
+
+  const questionnaire = declaration ? QUESTIONNAIRE_VERSIONS[declaration.questionnaire_version] : undefined;
+  const answers = (declaration?.answers ?? {}) as Answers;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Health Declaration
+              </CardTitle>
+              <CardDescription>
+                {declaration
+                  ? `${donorName ?? 'Donor'} · questionnaire ${declaration.questionnaire_version} · `
+                    + `consented ${new Date(declaration.consented_at).toLocaleString()}`
+                  : donorName}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loading ? (
+            <p className="text-gray-500 text-center py-4">Loading declaration...</p>
+          ) : !declaration ? (
+            <p className="text-gray-500 text-center py-4">No health declaration was made before this date.</p>
+          ) : (
+            <>
+              {declaration.eligibility_status && (
+                <div className="text-sm">
+                  <Badge variant="outline">
+                    {ELIGIBILITY_STATUS_LABELS[declaration.eligibility_status as EligibilityStatus] ?? declaration.eligibility_status}
+                  </Badge>
+                  {declaration.eligibility_reason && <span className="ml-2 text-gray-600">{declaration.eligibility_reason}</span>}
+                </div>
+              )}
+
+              {questionnaire ? (
+                questionnaire.sections.map((section) => (
+                  <div key={section.title} className="space-y-2">
+                    <h3 className="font-semibold">{section.title}</h3>
+                    {section.questions.map((question) => (
+                      <div key={question.key} className="flex justify-between gap-4 text-sm">
+                        <span className="text-gray-500">{question.label}</span>
+                        <span className="text-right">{formatAnswer(question, answers[question.key])}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              ) : (
+                // A version this build does not know: show the answers as stored
+                <div className="space-y-2">
+                  {Object.entries(answers).map(([key, value]) => (
+                    <div key={key} className="flex justify-between gap-4 text-sm">
+                      <span className="text-gray-500">{key}</span>
+                      <span className="text-right">{String(value)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h3 className="font-semibold">Consent given</h3>
+                {declaration.consent_text.split('\n').map((statement) => (
+                  <p key={statement} className="text-sm text-gray-600">✓ {statement}</p>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
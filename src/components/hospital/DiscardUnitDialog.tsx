@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { DISCARD_REASON_LABELS } from "@/lib/wastage";
+import { DISCARD_REASONS, isStaleEdit, type BloodUnitRow, type DiscardReason } from "@/lib/repository";
+import { Trash2, X } from "lucide-react";
+
+interface DiscardUnitDialogProps {
+  unit: BloodUnitRow;
+  onClose: () => void;
+  /** Called after the discard, and after it was rejected because the bag had changed. */
+  onDiscarded: () => void;
+}
+
+// Expired and quarantined bags are usually thrown away for the reason they left stock
+const suggestedReason = (unit: BloodUnitRow): DiscardReason | '' => {
+  if (unit.status === 'expired' || new Date(unit.expires_at) <= new Date()) return 'expired';
+  if (unit.status === 'quarantined') return 'temperature_excursion';
+  return '';
+};
+
+export default function DiscardUnitDialog({ unit, onClose, onDiscarded }: DiscardUnitDialogProps) {
+  const [reason, setReason] = useState<DiscardReason | ''>(suggestedReason(unit));
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason || (reason === 'other' && !notes.trim())) {
+      toast({
+        title: "Missing Information",
+        description: reason ? "Please say why the bag is discarded." : "Please choose a reason for discarding the bag.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await dataProvider.adjustBloodUnit(unit.id, {
+        version: unit.version,
+        reason: notes.trim() || DISCARD_REASON_LABELS[reason],
+        status: 'discarded',
+        discard_reason: reason,
+        discard_notes: notes.trim() || null,
+      });
+      toast({ title: "Bag Discarded", description: `${unit.bag_number} was taken out of stock.` });
+      onDiscarded();
+    } catch (error) {
+      console.error('Error discarding blood unit:', error);
+      toast({
+        title: isStaleEdit(error) ? "Bag Changed Elsewhere" : "Discard Failed",
+        description: (error as Error).message || "Failed to discard the bag. Please try again.",
+        variant: "destructive",
+      });
+      if (isStaleEdit(error)) onDiscarded();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Discard {unit.bag_number}
+          </CardTitle>
+          <CardDescription>The bag leaves stock for good and is counted as wastage</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Select value={reason} onValueChange={(value: DiscardReason) => setReason(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISCARD_REASONS.map((r) => (
+                    <SelectItem key={r} value={r}>{DISCARD_REASON_LABELS[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discardNotes">Notes{reason === 'other' && ' *'}</Label>
+              <Textarea
+                id="discardNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What was found, test reference..."
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-4 pt-2">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={loading} className="flex-1">
+                <Trash2 className="h-4 w-4 mr-2" />
+                {loading ? 'Discarding...' : 'Discard'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
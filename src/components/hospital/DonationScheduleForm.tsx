@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { DEFAULT_SLOT_MINUTES, DEFAULT_TIMEZONE, WEEKDAY_LABELS } from "@/lib/slots";
+import type { OpeningHoursRow } from "@/lib/repository";
+import { CalendarClock, Save } from "lucide-react";
+
+interface DonationScheduleFormProps {
+  hospitalId?: string;
+  /** Called after the schedule and opening hours are saved. */
+  onSaved: () => void;
+}
+
+type DayDraft = { open: boolean; opensAt: string; closesAt: string };
+
+const SLOT_LENGTHS = [15, 20, 30, 45, 60];
+
+const toDayDraft = (hours?: OpeningHoursRow): DayDraft => ({
+  open: Boolean(hours),
+  opensAt: hours?.opens_at.slice(0, 5) ?? '09:00',
+  closesAt: hours?.closes_at.slice(0, 5) ?? '17:00',
+});
+
+/** Chairs, slot length and weekly opening hours that donation slots are built from. */
+export default function DonationScheduleForm({ hospitalId, onSaved }: DonationScheduleFormProps) {
+  const [chairs, setChairs] = useState('1');
+  const [slotMinutes, setSlotMinutes] = useState(String(DEFAULT_SLOT_MINUTES));
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const [days, setDays] = useState<DayDraft[]>(WEEKDAY_LABELS.map(() => toDayDraft()));
+  const [configured, setConfigured] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!hospitalId) return;
+    Promise.all([dataProvider.getDonationSchedule(hospitalId), dataProvider.listOpeningHours(hospitalId)])
+      .then(([schedule, hours]) => {
+        setConfigured(Boolean(schedule));
+        if (schedule) {
+          setChairs(String(schedule.chairs));
+          setSlotMinutes(String(schedule.slot_minutes));
+          setTimezone(schedule.timezone);
+        }
+        setDays(WEEKDAY_LABELS.map((_, weekday) => toDayDraft(hours.find((h) => h.weekday === weekday))));
+      })
+      .catch((error) => console.error('Error loading donation schedule:', error));
+  }, [hospitalId]);
+
+  const updateDay = (weekday: number, patch: Partial<DayDraft>) => {
+    setDays((prev) => prev.map((day, i) => (i === weekday ? { ...day, ...patch } : day)));
+  };
+
+  const handleSave = async () => {
+    if (!hospitalId) return;
+    setSaving(true);
+    try {
+      // The schedule row comes first: opening hours reference it
+      await dataProvider.saveDonationSchedule({
+        hospital_id: hospitalId,
+        chairs: Number(chairs),
+        slot_minutes: Number(slotMinutes),
+        timezone: timezone.trim(),
+      });
+      for (const [weekday, day] of days.entries()) {
+        if (day.open) {
+          await dataProvider.saveOpeningHours({ hospital_id: hospitalId, weekday, opens_at: day.opensAt, closes_at: day.closesAt });
+        } else {
+          await dataProvider.deleteOpeningHours(hospitalId, weekday);
+        }
+      }
+      setConfigured(true);
+      toast({
+        title: "Opening Hours Saved",
+        description: `Donors can book ${chairs} chair(s) in ${slotMinutes}-minute slots.`,
+        variant: "default",
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error saving donation schedule:', error);
+      toast({
+        title: "Save Failed",
+        description: (error as Error).message || "Failed to save the opening hours. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const valid = Number(chairs) >= 1 && timezone.trim() !== '' && days.every((day) => !day.open || day.closesAt > day.opensAt);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Donation Slots
+        </CardTitle>
+        <CardDescription>
+          {configured
+            ? 'Each slot takes one donor per chair; donors book free slots themselves'
+            : 'Set your chairs and opening hours so donors can book slots'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="chairs">Donation Chairs *</Label>
+            <Input id="chairs" type="number" min={1} max={50} value={chairs} onChange={(e) => setChairs(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="slotMinutes">Slot Length</Label>
+            <Select value={slotMinutes} onValueChange={setSlotMinutes}>
+              <SelectTrigger id="slotMinutes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_LENGTHS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Time Zone *</Label>
+            <Input id="timezone" value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder={DEFAULT_TIMEZONE} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {WEEKDAY_LABELS.map((label, weekday) => {
+            const day = days[weekday];
+            return (
+              <div key={label} className="flex items-center gap-4">
+                <Switch
+                  id={`open-${weekday}`}
+                  checked={day.open}
+                  onCheckedChange={(open) => updateDay(weekday, { open })}
+                />
+                <Label htmlFor={`open-${weekday}`} className="w-24">{label}</Label>
+                {day.open ? (
+                  <>
+                    <Input
+                      type="time"
+                      value={day.opensAt}
+                      onChange={(e) => updateDay(weekday, { opensAt: e.target.value })}
+                      className="w-32"
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <Input
+                      type="time"
+                      value={day.closesAt}
+                      onChange={(e) => updateDay(weekday, { closesAt: e.target.value })}
+                      className="w-32"
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-500">Closed</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <Button onClick={handleSave} disabled={!hospitalId || !valid || saving}>
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Opening Hours'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
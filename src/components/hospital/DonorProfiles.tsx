@@ -4,25 +4,27 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import {
+  latestScreeningByDonor,
+  type BloodRequestWithHospital,
+  type DonationRow,
+  type DonorRow,
+  type ScreeningRow,
+} from "@/lib/repository";
+import { rankDonors, type RankedDonor } from "@/lib/donorRanking";
+import DonorRankingFactors from "@/components/DonorRankingFactors";
 import { Users, Heart, Activity, Calendar, Phone, MapPin } from "lucide-react";
 import AppointmentForm from "./AppointmentForm";
 
-interface Donor {
-  id: string;
-  first_name: string;
-  last_name: string;
-  blood_type: string;
-  is_available: boolean;
-  last_donation_date: string;
-  health_condition: string;
-  recent_donations: Array<{
-    date: string;
-    type: 'blood' | 'plasma';
-  }>;
-  phone: string;
-  location: string;
-}
+type Donor = DonorRow & {
+  /** Set when a request is selected. */
+  ranking?: RankedDonor;
+  /** The donor's most recent pre-donation screening, at any hospital. */
+  screening: ScreeningRow | null;
+  /** Newest first; only donations made at this hospital are visible to it. */
+  recent_donations: DonationRow[];
+};
 
 interface DonorProfilesProps {
   selectedRequestId?: string;
@@ -34,28 +36,47 @@ export default function DonorProfiles({ selectedRequestId, onAppointmentSchedule
   const [loading, setLoading] = useState(true);
   const [selectedDonor, setSelectedDonor] = useState<Donor | null>(null);
   const [showAppointmentForm, setShowAppointmentForm] = useState(false);
+  const [request, setRequest] = useState<BloodRequestWithHospital | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchDonors();
-  }, []);
+  }, [selectedRequestId]);
 
   const fetchDonors = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, first_name, last_name, blood_type, is_available, last_donation_date, phone, address')
-        .eq('is_available', true);
+      const [data, selectedRequest] = await Promise.all([
+        dataProvider.listDonors({ availableOnly: true }),
+        selectedRequestId ? dataProvider.getRequest(selectedRequestId) : Promise.resolve(null),
+      ]);
+      setRequest(selectedRequest);
+
+      // With a request selected, only suggest donors who can give what it asks for, best first
+      const candidates: Array<{ donor: DonorRow; ranking?: RankedDonor }> = selectedRequest
+        ? rankDonors(data, selectedRequest, {
+            reliability: await dataProvider.listDonorReliability(data.map((d) => d.id)),
+          }).map((ranking) => ({ donor: ranking.donor, ranking }))
+        : data.map((donor) => ({ donor }));
 
-      if (error) throw error;
+      const donorIds = candidates.map(({ donor }) => donor.id);
+      const [screenings, donations] = donorIds.length > 0
+        ? await Promise.all([
+            dataProvider.listScreenings({ donorIds }).then(latestScreeningByDonor),
+            dataProvider.listDonations({ donorIds }),
+          ])
+        : [new Map<string, ScreeningRow>(), [] as DonationRow[]];
 
-      // Transform data and add mock health conditions and recent donations
-      const donorsWithHealthData = (data || []).map(donor => ({
+      const donationsByDonor = donations.reduce<Record<string, DonationRow[]>>((groups, donation) => {
+        (groups[donation.donor_id] ||= []).push(donation);
+        return groups;
+      }, {});
+
+      const donorsWithHealthData = candidates.map(({ donor, ranking }) => ({
         ...donor,
-        health_condition: getRandomHealthCondition(),
-        recent_donations: getRandomRecentDonations(),
-        location: 'Downtown Medical District' // Mock location
+        ranking,
+        screening: screenings.get(donor.id) ?? null,
+        recent_donations: donationsByDonor[donor.id] ?? [],
       }));
 
       setDonors(donorsWithHealthData);
@@ -71,77 +92,41 @@ export default function DonorProfiles({ selectedRequestId, onAppointmentSchedule
     }
   };
 
-  const getRandomHealthCondition = () => {
-    const conditions = ['Healthy', 'Low Hemoglobin', 'Excellent Health', 'Good Condition', 'Minor Anemia'];
-    return conditions[Math.floor(Math.random() * conditions.length)];
-  };
-
-  const getRandomRecentDonations = () => {
-    const donations = [];
-    const numDonations = Math.floor(Math.random() * 3) + 1;
-    
-    for (let i = 0; i < numDonations; i++) {
-      const daysAgo = Math.floor(Math.random() * 365) + 1;
-      const date = new Date();
-      date.setDate(date.getDate() - daysAgo);
-      
-      donations.push({
-        date: date.toISOString().split('T')[0],
-        type: Math.random() > 0.5 ? 'blood' : 'plasma'
-      });
-    }
-    
-    return donations.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  };
-
   const handleAcceptDonor = (donor: Donor) => {
     setSelectedDonor(donor);
     setShowAppointmentForm(true);
   };
 
-  const handleIgnoreDonor = async (donorId: string) => {
-    try {
-      // Update donor availability status
-      const { error } = await supabase
-        .from('profiles')
-        .update({ is_available: false })
-        .eq('id', donorId);
-
-      if (error) throw error;
-
-      // Remove from local state
-      setDonors(prev => prev.filter(donor => donor.id !== donorId));
+  // Availability belongs to the donor, so ignoring only hides them from this list
+  const handleIgnoreDonor = (donorId: string) => {
+    setDonors(prev => prev.filter(donor => donor.id !== donorId));
 
-      toast({
-        title: "Donor Ignored",
-        description: "Donor has been removed from the available list.",
-        variant: "default",
-      });
-    } catch (error) {
-      console.error('Error ignoring donor:', error);
-      toast({
-        title: "Error",
-        description: "Failed to ignore donor. Please try again.",
-        variant: "destructive",
-      });
-    }
+    toast({
+      title: "Donor Ignored",
+      description: "Donor has been removed from the available list.",
+      variant: "default",
+    });
   };
 
-  const getHealthConditionColor = (condition: string) => {
-    switch (condition) {
-      case 'Healthy':
-      case 'Excellent Health':
-        return 'bg-green-100 text-green-800 border-green-200';
-      case 'Good Condition':
-        return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'Low Hemoglobin':
-      case 'Minor Anemia':
-        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      default:
-        return 'bg-gray-100 text-gray-800 border-gray-200';
+  // A deferral whose date has passed no longer holds the donor back
+  const getScreeningStatus = (screening: ScreeningRow | null) => {
+    if (!screening) {
+      return { label: 'Not screened yet', className: 'bg-gray-100 text-gray-800 border-gray-200' };
     }
+    const stillDeferred = screening.decision === 'deferred'
+      && (!screening.deferred_until || new Date(screening.deferred_until) > new Date());
+    return stillDeferred
+      ? { label: 'Deferred at screening', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' }
+      : { label: 'Passed screening', className: 'bg-green-100 text-green-800 border-green-200' };
   };
 
+  const formatReadings = (screening: ScreeningRow) => [
+    screening.hemoglobin_g_dl != null && `Hb ${screening.hemoglobin_g_dl} g/dL`,
+    screening.systolic_bp != null && `BP ${screening.systolic_bp}/${screening.diastolic_bp ?? '?'}`,
+    screening.pulse_bpm != null && `Pulse ${screening.pulse_bpm}`,
+    screening.temperature_c != null && `${screening.temperature_c} °C`,
+  ].filter(Boolean).join(' · ');
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -150,8 +135,8 @@ export default function DonorProfiles({ selectedRequestId, onAppointmentSchedule
     });
   };
 
-  const getInitials = (firstName: string, lastName: string) => {
-    return `${firstName?.charAt(0) || ''}${lastName?.charAt(0) || ''}`.toUpperCase();
+  const getInitials = (name: string) => {
+    return name.split(' ').map(part => part.charAt(0)).join('').slice(0, 2).toUpperCase();
   };
 
   if (loading) {
@@ -179,14 +164,18 @@ export default function DonorProfiles({ selectedRequestId, onAppointmentSchedule
             Available Donors
           </CardTitle>
           <CardDescription>
-            View and manage available blood and plasma donors
+            {request
+              ? `Donors compatible with ${request.patient_name} (${request.blood_group} ${request.request_type})`
+              : 'View and manage available blood and plasma donors'}
           </CardDescription>
         </CardHeader>
         <CardContent>
           {donors.length === 0 ? (
             <div className="text-center py-8">
               <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-500">No available donors found.</p>
+              <p className="text-gray-500">
+                {request ? 'No compatible donors are available for this request.' : 'No available donors found.'}
+              </p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -196,28 +185,44 @@ export default function DonorProfiles({ selectedRequestId, onAppointmentSchedule
                     <div className="flex items-center gap-3">
                       <Avatar>
                         <AvatarFallback className="bg-red-100 text-red-600">
-                          {getInitials(donor.first_name, donor.last_name)}
+                          {getInitials(donor.name)}
                         </AvatarFallback>
                       </Avatar>
                       <div>
                         <h3 className="font-semibold">
-                          {donor.first_name} {donor.last_name}
+                          {donor.name}
                         </h3>
                         <p className="text-sm text-gray-500">Donor ID: {donor.id.slice(0, 8)}...</p>
                       </div>
                     </div>
-                    <Badge className="bg-red-100 text-red-800 border-red-200">
-                      {donor.blood_type}
-                    </Badge>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge className="bg-red-100 text-red-800 border-red-200">
+                        {donor.blood_group}
+                      </Badge>
+                      {donor.ranking && (
+                        <Badge variant="outline" className="text-xs">
+                          Score {donor.ranking.score}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
 
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
                       <Activity className="h-4 w-4 text-gray-500" />
-                      <Badge className={getHealthConditionColor(donor.health_condition)}>
-                        {donor.health_condition}
+                      <Badge className={getScreeningStatus(donor.screening).className}>
+                        {getScreeningStatus(donor.screening).label}
                       </Badge>
                     </div>
+                    {donor.screening && (
+                      <p className="text-xs text-gray-600 pl-6">
+                        {formatReadings(donor.screening) || 'No readings recorded'}
+                        {' '}({formatDate(donor.screening.screened_at)})
+                        {donor.screening.decision === 'deferred' && donor.screening.deferral_reason && (
+                          <span className="block text-yellow-700">{donor.screening.deferral_reason}</span>
+                        )}
+                      </p>
+                    )}
 
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-gray-500" />
@@ -235,19 +240,26 @@ export default function DonorProfiles({ selectedRequestId, onAppointmentSchedule
 
                     <div className="flex items-center gap-2">
                       <MapPin className="h-4 w-4 text-gray-500" />
-                      <span className="text-sm text-gray-600">{donor.location}</span>
+                      <span className="text-sm text-gray-600">{donor.location || 'Location not provided'}</span>
                     </div>
                   </div>
 
+                  {donor.ranking && (
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-gray-700">Why suggested:</p>
+                      <DonorRankingFactors ranked={donor.ranking} />
+                    </div>
+                  )}
+
                   {donor.recent_donations.length > 0 && (
                     <div className="space-y-1">
                       <p className="text-sm font-medium text-gray-700">Recent Donations:</p>
                       <div className="space-y-1">
-                        {donor.recent_donations.slice(0, 2).map((donation, index) => (
-                          <div key={index} className="flex justify-between text-xs text-gray-600">
-                            <span>{formatDate(donation.date)}</span>
+                        {donor.recent_donations.slice(0, 2).map((donation) => (
+                          <div key={donation.id} className="flex justify-between text-xs text-gray-600">
+                            <span>{formatDate(donation.donation_date)}</span>
                             <Badge variant="outline" className="text-xs">
-                              {donation.type}
+                              {donation.donation_type}
                             </Badge>
                           </div>
                         ))}
@@ -3,17 +3,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import type { NotificationRow } from "@/lib/repository";
 import { Bell, CheckCircle, Clock, AlertCircle, X } from "lucide-react";
 
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: 'appointment_confirmation' | 'appointment_reminder' | 'request_update' | 'general';
-  is_read: boolean;
-  created_at: string;
-}
+type Notification = NotificationRow;
 
 interface NotificationSystemProps {
   donorId?: string;
@@ -34,69 +28,23 @@ export default function NotificationSystem({ donorId }: NotificationSystemProps)
   const fetchNotifications = async (userId: string) => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('notifications')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        // If notifications table doesn't exist, create mock data
-        console.log('Notifications table not found, using mock data');
-        setNotifications(getMockNotifications());
-        return;
-      }
-
-      setNotifications(data || []);
+      setNotifications(await dataProvider.listNotifications(userId));
     } catch (error) {
       console.error('Error fetching notifications:', error);
-      // Fallback to mock data
-      setNotifications(getMockNotifications());
+      toast({
+        title: "Error",
+        description: "Failed to load notifications. Please try again.",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
   };
 
-  const getMockNotifications = (): Notification[] => {
-    return [
-      {
-        id: '1',
-        title: 'Appointment Confirmation',
-        message: 'Your donation appointment has been scheduled for December 25, 2024 at 2:00 PM. Hospital Contact: +1-555-0123',
-        type: 'appointment_confirmation',
-        is_read: false,
-        created_at: new Date().toISOString()
-      },
-      {
-        id: '2',
-        title: 'Appointment Reminder',
-        message: 'Reminder: You have a blood donation appointment tomorrow at 10:00 AM. Please arrive 15 minutes early.',
-        type: 'appointment_reminder',
-        is_read: true,
-        created_at: new Date(Date.now() - 86400000).toISOString() // 1 day ago
-      },
-      {
-        id: '3',
-        title: 'Request Update',
-        message: 'Your blood donation request has been accepted by City General Hospital.',
-        type: 'request_update',
-        is_read: false,
-        created_at: new Date(Date.now() - 172800000).toISOString() // 2 days ago
-      }
-    ];
-  };
-
   const markAsRead = async (notificationId: string) => {
+    if (!donorId) return;
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ is_read: true })
-        .eq('id', notificationId);
-
-      if (error) {
-        // If table doesn't exist, just update local state
-        console.log('Notifications table not found, updating local state only');
-      }
+      await dataProvider.markNotificationsRead(donorId, [notificationId]);
 
       setNotifications(prev =>
         prev.map(notification =>
@@ -113,21 +61,18 @@ export default function NotificationSystem({ donorId }: NotificationSystemProps)
       });
     } catch (error) {
       console.error('Error marking notification as read:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the notification. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
   const markAllAsRead = async () => {
+    if (!donorId) return;
     try {
-      if (donorId) {
-        const { error } = await supabase
-          .from('notifications')
-          .update({ is_read: true })
-          .eq('user_id', donorId);
-
-        if (error) {
-          console.log('Notifications table not found, updating local state only');
-        }
-      }
+      await dataProvider.markNotificationsRead(donorId);
 
       setNotifications(prev =>
         prev.map(notification => ({ ...notification, is_read: true }))
@@ -140,19 +85,17 @@ export default function NotificationSystem({ donorId }: NotificationSystemProps)
       });
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update notifications. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
   const deleteNotification = async (notificationId: string) => {
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .delete()
-        .eq('id', notificationId);
-
-      if (error) {
-        console.log('Notifications table not found, updating local state only');
-      }
+      await dataProvider.deleteNotification(notificationId);
 
       setNotifications(prev =>
         prev.filter(notification => notification.id !== notificationId)
@@ -165,6 +108,11 @@ export default function NotificationSystem({ donorId }: NotificationSystemProps)
       });
     } catch (error) {
       console.error('Error deleting notification:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the notification. Please try again.",
+        variant: "destructive",
+      });
     }
   };
 
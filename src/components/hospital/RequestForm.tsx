@@ -6,7 +6,9 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import type { BloodGroup, EmergencyLevel, RequestType } from "@/lib/repository";
+import CompatibleDonorsHint from "./CompatibleDonorsHint";
 import { useAuth } from "@/contexts/AuthContext";
 import { Plus, Droplets, Heart } from "lucide-react";
 
@@ -16,10 +18,10 @@ interface RequestFormProps {
 
 interface RequestData {
   patientName: string;
-  requestType: 'blood' | 'plasma';
-  bloodType: string;
+  requestType: RequestType;
+  bloodType: BloodGroup | '';
   unitsRequired: number;
-  urgency: 'Low' | 'Medium' | 'High' | 'Emergency';
+  urgency: EmergencyLevel;
   contactDetails: string;
   notes: string;
 }
@@ -70,24 +72,15 @@ export default function RequestForm({ onRequestSubmitted }: RequestFormProps) {
     setLoading(true);
 
     try {
-      const { error } = await supabase
-        .from('requests')
-        .insert([
-          {
-            request_type: formData.requestType,
-            blood_group: formData.bloodType,
-            quantity_ml: formData.unitsRequired * 450, // Convert units to ml (1 unit = 450ml)
-            urgency: formData.urgency,
-            patient_name: formData.patientName,
-            hospital: 'Current Hospital', // This should be the actual hospital name
-            hospital_id: user.id, // This should be the hospital ID
-            location: 'Hospital Location', // This should be the actual location
-            notes: formData.notes,
-            created_by: user.id,
-          }
-        ]);
-
-      if (error) throw error;
+      await dataProvider.createRequest({
+        hospital_id: user.id,
+        request_type: formData.requestType,
+        blood_group: formData.bloodType as BloodGroup,
+        units_required: formData.unitsRequired,
+        emergency_level: formData.urgency,
+        patient_name: formData.patientName,
+        notes: formData.notes || null,
+      });
 
       toast({
         title: "Request Submitted",
@@ -186,6 +179,7 @@ export default function RequestForm({ onRequestSubmitted }: RequestFormProps) {
                   <SelectItem value="O-">O-</SelectItem>
                 </SelectContent>
               </Select>
+              <CompatibleDonorsHint bloodGroup={formData.bloodType} requestType={formData.requestType} />
             </div>
 
             <div className="space-y-2">
@@ -207,7 +201,7 @@ export default function RequestForm({ onRequestSubmitted }: RequestFormProps) {
               <Label htmlFor="urgency">Urgency Level *</Label>
               <Select 
                 value={formData.urgency} 
-                onValueChange={(value: 'Low' | 'Medium' | 'High' | 'Emergency') => handleInputChange('urgency', value)}
+                onValueChange={(value: EmergencyLevel) => handleInputChange('urgency', value)}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select urgency level" />
@@ -216,7 +210,7 @@ export default function RequestForm({ onRequestSubmitted }: RequestFormProps) {
                   <SelectItem value="Low">Low</SelectItem>
                   <SelectItem value="Medium">Medium</SelectItem>
                   <SelectItem value="High">High</SelectItem>
-                  <SelectItem value="Emergency">Emergency</SelectItem>
+                  <SelectItem value="Critical">Critical</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { RequestStatus, RequestStatusHistoryRow } from "@/lib/repository";
+import { REQUEST_STATUS_LABELS } from "@/lib/requestLifecycle";
+
+interface RequestTimelineProps {
+  entries: RequestStatusHistoryRow[];
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  donor: 'Donor',
+  hospital: 'Hospital',
+  admin: 'Admin',
+  system: 'System',
+};
+
+const statusLabel = (status: string) => REQUEST_STATUS_LABELS[status as RequestStatus] ?? status;
+
+export default function RequestTimeline({ entries }: RequestTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+              entry.event === 'escalation' ? 'bg-orange-500' : 'bg-red-500'
+            }`}
+          />
+          <div className="text-sm font-medium">
+            {entry.event === 'escalation'
+              ? 'Escalated'
+              : entry.from_status
+                ? `${statusLabel(entry.from_status)} → ${statusLabel(entry.to_status)}`
+                : statusLabel(entry.to_status)}
+          </div>
+          <div className="text-xs text-gray-500">
+            {ACTOR_LABELS[entry.actor_role] ?? entry.actor_role} · {new Date(entry.created_at).toLocaleString()}
+          </div>
+          {entry.reason && <p className="text-sm text-gray-700">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -4,29 +4,43 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import type {
+  BloodRequestWithHospital,
+  PledgeStatus,
+  RequestPledgeWithDonor,
+  RequestStatus,
+  RequestStatusHistoryRow,
+} from "@/lib/repository";
+import { REQUEST_STATUS_LABELS, canTransition, transitionRequest } from "@/lib/requestLifecycle";
+import { PLEDGE_STATUS_LABELS, canTransitionPledge, markPledgeCollected } from "@/lib/pledges";
 import { useAuth } from "@/contexts/AuthContext";
-import { Clock, AlertCircle, CheckCircle, XCircle, Eye } from "lucide-react";
-
-interface Request {
-  id: string;
-  request_type: 'blood' | 'plasma';
-  blood_group: string;
-  quantity_ml: number;
-  urgency: 'Low' | 'Medium' | 'High' | 'Emergency';
-  patient_name: string;
-  hospital: string;
-  notes: string;
-  status: 'Pending' | 'Accepted' | 'Ignored' | 'Scheduled';
-  created_at: string;
-}
+import { Clock, AlertCircle, CheckCircle, XCircle, Eye, History } from "lucide-react";
+import RequestTimeline from "./RequestTimeline";
+import PledgeProgressBar from "@/components/PledgeProgressBar";
 
 interface RequestsListProps {
   onRequestUpdate: () => void;
 }
 
+// What the hospital can do from the list, and the reason recorded for it
+const HOSPITAL_ACTIONS: { status: RequestStatus; label: string; reason: string }[] = [
+  { status: 'fulfilled', label: 'Mark Fulfilled', reason: 'Donation received by hospital' },
+  { status: 'pending', label: 'Release Donor', reason: 'Donor released by hospital' },
+  { status: 'cancelled', label: 'Cancel', reason: 'Cancelled by hospital' },
+];
+
+const groupByRequest = <T extends { request_id: string }>(entries: T[]) =>
+  entries.reduce<Record<string, T[]>>((groups, entry) => {
+    (groups[entry.request_id] ||= []).push(entry);
+    return groups;
+  }, {});
+
 export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
-  const [requests, setRequests] = useState<Request[]>([]);
+  const [requests, setRequests] = useState<BloodRequestWithHospital[]>([]);
+  const [history, setHistory] = useState<Record<string, RequestStatusHistoryRow[]>>({});
+  const [pledges, setPledges] = useState<Record<string, RequestPledgeWithDonor[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -40,21 +54,15 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('requests')
-        .select('*')
-        .eq('created_by', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Add status field if not present (for demo purposes)
-      const requestsWithStatus = (data || []).map(request => ({
-        ...request,
-        status: request.status || 'Pending'
-      }));
-
-      setRequests(requestsWithStatus);
+      const data = await dataProvider.listRequests({ hospitalId: user.id });
+      const requestIds = data.map((request) => request.id);
+      const [entries, requestPledges] = await Promise.all([
+        dataProvider.listRequestStatusHistory(requestIds),
+        dataProvider.listRequestPledges({ requestIds }),
+      ]);
+      setRequests(data);
+      setHistory(groupByRequest(entries));
+      setPledges(groupByRequest(requestPledges));
     } catch (error) {
       console.error('Error fetching requests:', error);
       toast({
@@ -67,24 +75,26 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
     }
   };
 
-  const updateRequestStatus = async (requestId: string, status: 'Accepted' | 'Ignored' | 'Scheduled') => {
+  const updateRequestStatus = async (request: BloodRequestWithHospital, status: RequestStatus, reason: string) => {
     try {
-      const { error } = await supabase
-        .from('requests')
-        .update({ status })
-        .eq('id', requestId);
-
-      if (error) throw error;
+      const updated = await transitionRequest(request, status, { reason });
 
       setRequests(prev => 
-        prev.map(request => 
-          request.id === requestId ? { ...request, status } : request
+        prev.map(item => 
+          item.id === request.id ? { ...item, ...updated } : item
         )
       );
+      // Cancelling releases open pledges, so refresh them along with the timeline
+      const [entries, requestPledges] = await Promise.all([
+        dataProvider.listRequestStatusHistory([request.id]),
+        dataProvider.listRequestPledges({ requestIds: [request.id] }),
+      ]);
+      setHistory(prev => ({ ...prev, [request.id]: entries }));
+      setPledges(prev => ({ ...prev, [request.id]: requestPledges }));
 
       toast({
         title: "Status Updated",
-        description: `Request status updated to ${status}`,
+        description: `Request status updated to ${formatStatus(status)}`,
         variant: "default",
       });
 
@@ -93,7 +103,28 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
       console.error('Error updating request status:', error);
       toast({
         title: "Update Failed",
-        description: "Failed to update request status. Please try again.",
+        description: (error as Error).message || "Failed to update request status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Collecting the last unit closes the request in the database, so reload everything
+  const collectPledge = async (pledge: RequestPledgeWithDonor) => {
+    try {
+      await markPledgeCollected(pledge);
+      toast({
+        title: "Donation Collected",
+        description: `Recorded ${pledge.units} unit(s) from ${pledge.donor?.name ?? 'the donor'}`,
+        variant: "default",
+      });
+      await fetchRequests();
+      onRequestUpdate();
+    } catch (error) {
+      console.error('Error collecting pledge:', error);
+      toast({
+        title: "Update Failed",
+        description: (error as Error).message || "Failed to record the donation. Please try again.",
         variant: "destructive",
       });
     }
@@ -101,7 +132,7 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
 
   const getUrgencyColor = (urgency: string) => {
     switch (urgency) {
-      case 'Emergency':
+      case 'Critical':
         return 'bg-red-500 text-white';
       case 'High':
         return 'bg-orange-500 text-white';
@@ -116,13 +147,14 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'Pending':
+      case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'Accepted':
+      case 'accepted':
         return 'bg-green-100 text-green-800 border-green-200';
-      case 'Scheduled':
+      case 'fulfilled':
         return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'Ignored':
+      case 'cancelled':
+      case 'expired':
         return 'bg-gray-100 text-gray-800 border-gray-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
@@ -131,13 +163,14 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
 
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case 'Pending':
+      case 'pending':
         return <Clock className="h-4 w-4" />;
-      case 'Accepted':
+      case 'accepted':
         return <CheckCircle className="h-4 w-4" />;
-      case 'Scheduled':
+      case 'fulfilled':
         return <CheckCircle className="h-4 w-4" />;
-      case 'Ignored':
+      case 'cancelled':
+      case 'expired':
         return <XCircle className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
@@ -154,10 +187,71 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
     });
   };
 
-  const convertMlToUnits = (ml: number) => {
-    return Math.round(ml / 450); // 1 unit = 450ml
+  const formatStatus = (status: string) => {
+    return REQUEST_STATUS_LABELS[status as RequestStatus] ?? status;
   };
 
+  const toggleHistory = (requestId: string) => {
+    setExpandedId(prev => (prev === requestId ? null : requestId));
+  };
+
+  const renderActions = (request: BloodRequestWithHospital, buttonClassName?: string) => (
+    <>
+      {HOSPITAL_ACTIONS.filter(action =>
+        canTransition(request.status, action.status) &&
+        // Pledged requests reopen by themselves when a pledge is withdrawn
+        (action.status !== 'pending' || request.donor_id)
+      ).map(action => (
+        <Button
+          key={action.status}
+          size="sm"
+          variant={action.status === 'fulfilled' ? 'default' : 'outline'}
+          onClick={() => updateRequestStatus(request, action.status, action.reason)}
+          className={action.status === 'fulfilled' ? `bg-green-600 hover:bg-green-700 ${buttonClassName ?? ''}` : buttonClassName}
+        >
+          {action.label}
+        </Button>
+      ))}
+      <Button size="sm" variant="ghost" onClick={() => toggleHistory(request.id)} className={buttonClassName}>
+        <History className="h-4 w-4 mr-1" />
+        Details
+      </Button>
+    </>
+  );
+
+  const renderDetails = (request: BloodRequestWithHospital) => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Pledges</h4>
+        {(pledges[request.id] || []).length === 0 ? (
+          <p className="text-sm text-gray-500">No donors have pledged yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {pledges[request.id].map(pledge => (
+              <li key={pledge.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {pledge.donor?.name ?? 'Donor'} ({pledge.donor?.blood_group}) · {pledge.units} unit(s)
+                </span>
+                <span className="flex items-center gap-2">
+                  <Badge variant="outline">{PLEDGE_STATUS_LABELS[pledge.status as PledgeStatus] ?? pledge.status}</Badge>
+                  {pledge.status === 'scheduled' && canTransitionPledge(pledge.status, 'collected') && (
+                    <Button size="sm" variant="outline" onClick={() => collectPledge(pledge)}>
+                      Mark Collected
+                    </Button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Timeline</h4>
+        <RequestTimeline entries={history[request.id] || []} />
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <Card>
@@ -210,25 +304,36 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
                 </TableHeader>
                 <TableBody>
                   {requests.map((request) => (
-                    <TableRow key={request.id}>
-                      <TableCell className="font-medium">{request.patient_name}</TableCell>
+                    <React.Fragment key={request.id}>
+                    <TableRow>
+                      <TableCell className="font-medium">
+                        {request.source === 'low_stock' ? (
+                          <Badge variant="outline" className="border-red-300 text-red-700">Low stock restock</Badge>
+                        ) : request.patient_name}
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline" className="capitalize">
                           {request.request_type}
                         </Badge>
                       </TableCell>
                       <TableCell className="font-bold text-red-600">{request.blood_group}</TableCell>
-                      <TableCell>{convertMlToUnits(request.quantity_ml)} units</TableCell>
                       <TableCell>
-                        <Badge className={getUrgencyColor(request.urgency)}>
-                          {request.urgency}
+                        <div>{request.units_required} units</div>
+                        <PledgeProgressBar request={request} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getUrgencyColor(request.emergency_level)}>
+                          {request.emergency_level}
                         </Badge>
+                        {request.escalation_level > 0 && (
+                          <div className="text-xs text-orange-600 mt-1">Escalated ×{request.escalation_level}</div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge className={getStatusColor(request.status)}>
                           <div className="flex items-center gap-1">
                             {getStatusIcon(request.status)}
-                            {request.status}
+                            {formatStatus(request.status)}
                           </div>
                         </Badge>
                       </TableCell>
@@ -237,27 +342,18 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          {request.status === 'Pending' && (
-                            <>
-                              <Button
-                                size="sm"
-                                onClick={() => updateRequestStatus(request.id, 'Accepted')}
-                                className="bg-green-600 hover:bg-green-700"
-                              >
-                                Accept
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => updateRequestStatus(request.id, 'Ignored')}
-                              >
-                                Ignore
-                              </Button>
-                            </>
-                          )}
+                          {renderActions(request)}
                         </div>
                       </TableCell>
                     </TableRow>
+                    {expandedId === request.id && (
+                      <TableRow>
+                        <TableCell colSpan={8}>
+                          {renderDetails(request)}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    </React.Fragment>
                   ))}
                 </TableBody>
               </Table>
@@ -275,7 +371,7 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
                     <Badge className={getStatusColor(request.status)}>
                       <div className="flex items-center gap-1">
                         {getStatusIcon(request.status)}
-                        {request.status}
+                        {formatStatus(request.status)}
                       </div>
                     </Badge>
                   </div>
@@ -293,12 +389,12 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
                     </div>
                     <div>
                       <span className="text-gray-500">Units:</span>
-                      <span className="ml-1">{convertMlToUnits(request.quantity_ml)}</span>
+                      <span className="ml-1">{request.units_required}</span>
                     </div>
                     <div>
                       <span className="text-gray-500">Urgency:</span>
-                      <Badge className={`ml-1 ${getUrgencyColor(request.urgency)}`}>
-                        {request.urgency}
+                      <Badge className={`ml-1 ${getUrgencyColor(request.emergency_level)}`}>
+                        {request.emergency_level}
                       </Badge>
                     </div>
                   </div>
@@ -310,25 +406,13 @@ export default function RequestsList({ onRequestUpdate }: RequestsListProps) {
                     </div>
                   )}
 
-                  {request.status === 'Pending' && (
-                    <div className="flex gap-2 pt-2">
-                      <Button
-                        size="sm"
-                        onClick={() => updateRequestStatus(request.id, 'Accepted')}
-                        className="bg-green-600 hover:bg-green-700 flex-1"
-                      >
-                        Accept
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => updateRequestStatus(request.id, 'Ignored')}
-                        className="flex-1"
-                      >
-                        Ignore
-                      </Button>
-                    </div>
-                  )}
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {renderActions(request, 'flex-1')}
+                  </div>
+
+                  <PledgeProgressBar request={request} showLegend />
+
+                  {expandedId === request.id && renderDetails(request)}
                 </div>
               ))}
             </div>
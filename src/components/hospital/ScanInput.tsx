@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Input } from "@/components/ui/input";
+import { ScanLine } from "lucide-react";
+
+interface ScanInputProps {
+  id?: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+  onScan: (text: string) => void;
+}
+
+/**
+ * Takes barcode scans from a scanner acting as a keyboard: it types the
+ * barcode and presses Enter. Enter hands the text over and clears the box
+ * for the next scan instead of submitting the surrounding form, so typing a
+ * code by hand works the same way.
+ */
+export default function ScanInput({ id, placeholder = 'Scan or type a barcode', autoFocus, onScan }: ScanInputProps) {
+  const [text, setText] = useState('');
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (text.trim()) onScan(text.trim());
+    setText('');
+  };
+
+  return (
+    <div className="relative">
+      <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <Input
+        id={id}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        autoComplete="off"
+        className="pl-9 font-mono"
+      />
+    </div>
+  );
+}
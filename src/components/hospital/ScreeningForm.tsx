@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { donorSex } from "@/lib/cooldown";
+import { screeningFailures, type DonorSex } from "@/lib/eligibility";
+import type { AppointmentWithDonor, ScreeningDecision, ScreeningRow } from "@/lib/repository";
+import { Activity, AlertTriangle, Check, X } from "lucide-react";
+
+interface ScreeningFormProps {
+  appointment: AppointmentWithDonor;
+  /** The appointment's earlier screening, when re-checking. */
+  screening?: ScreeningRow | null;
+  onClose: () => void;
+  onScreeningRecorded: (screening: ScreeningRow) => void;
+}
+
+type Reading = 'hemoglobin_g_dl' | 'systolic_bp' | 'diastolic_bp' | 'pulse_bpm' | 'temperature_c' | 'weight_kg';
+
+const READINGS: { field: Reading; label: string; step: string }[] = [
+  { field: 'hemoglobin_g_dl', label: 'Hemoglobin (g/dL)', step: '0.1' },
+  { field: 'systolic_bp', label: 'Systolic BP (mmHg)', step: '1' },
+  { field: 'diastolic_bp', label: 'Diastolic BP (mmHg)', step: '1' },
+  { field: 'pulse_bpm', label: 'Pulse (bpm)', step: '1' },
+  { field: 'temperature_c', label: 'Temperature (°C)', step: '0.1' },
+  { field: 'weight_kg', label: 'Weight (kg)', step: '0.1' },
+];
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function ScreeningForm({ appointment, screening, onClose, onScreeningRecorded }: ScreeningFormProps) {
+  const [readings, setReadings] = useState<Record<Reading, string>>(() =>
+    Object.fromEntries(READINGS.map(({ field }) => [field, screening?.[field]?.toString() ?? ''])) as Record<Reading, string>
+  );
+  // Left unset, the decision follows the readings
+  const [decision, setDecision] = useState<ScreeningDecision | null>((screening?.decision as ScreeningDecision) ?? null);
+  const [deferralReason, setDeferralReason] = useState(screening?.deferral_reason ?? '');
+  const [deferredUntil, setDeferredUntil] = useState(screening?.deferred_until ?? '');
+  const [notes, setNotes] = useState(screening?.notes ?? '');
+  const [sex, setSex] = useState<DonorSex | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    dataProvider.getDonor(appointment.donor_id)
+      .then((donor) => setSex(donorSex(null, donor?.gender) as DonorSex | null))
+      .catch((error) => console.error('Error loading donor:', error));
+  }, [appointment.donor_id]);
+
+  const failures = useMemo(() => screeningFailures({
+    hemoglobinGdl: toNumber(readings.hemoglobin_g_dl),
+    systolicBp: toNumber(readings.systolic_bp),
+    diastolicBp: toNumber(readings.diastolic_bp),
+    pulseBpm: toNumber(readings.pulse_bpm),
+    temperatureC: toNumber(readings.temperature_c),
+    weightKg: toNumber(readings.weight_kg),
+  }, sex), [readings, sex]);
+
+  const effectiveDecision: ScreeningDecision = decision ?? (failures.length > 0 ? 'deferred' : 'accepted');
+  const effectiveReason = deferralReason.trim() || failures.join('; ');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (effectiveDecision === 'deferred' && !effectiveReason) {
+      toast({
+        title: "Missing Information",
+        description: "Please give a reason for the deferral.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const deferred = effectiveDecision === 'deferred';
+      const recorded = await dataProvider.recordScreening({
+        appointment_id: appointment.id,
+        donor_id: appointment.donor_id,
+        hospital_id: appointment.hospital_id,
+        ...Object.fromEntries(READINGS.map(({ field }) => [field, toNumber(readings[field])])),
+        decision: effectiveDecision,
+        deferral_reason: deferred ? effectiveReason : null,
+        deferred_until: deferred && deferredUntil ? deferredUntil : null,
+        notes: notes.trim() || null,
+      });
+
+      toast({
+        title: deferred ? "Donor Deferred" : "Screening Passed",
+        description: deferred
+          ? `${appointment.donor?.name ?? 'The donor'} is deferred: ${effectiveReason}`
+          : `${appointment.donor?.name ?? 'The donor'} can donate today.`,
+        variant: "default",
+      });
+      onScreeningRecorded(recorded);
+    } catch (error) {
+      console.error('Error recording screening:', error);
+      toast({
+        title: "Screening Failed",
+        description: (error as Error).message || "Failed to record the screening. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <Activity className="h-8 w-8 text-red-600" />
+          </div>
+          <CardTitle>Pre-donation Screening</CardTitle>
+          <CardDescription>
+            Record {appointment.donor?.name ?? 'the donor'}'s checks before collection
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {READINGS.map(({ field, label, step }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={field}>{label}</Label>
+                  <Input
+                    id={field}
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={readings[field]}
+                    onChange={(e) => setReadings((prev) => ({ ...prev, [field]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {failures.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800 space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  Outside the donation limits
+                </div>
+                {failures.map((failure) => <p key={failure}>{failure}</p>)}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Decision *</Label>
+              <Select value={effectiveDecision} onValueChange={(value: ScreeningDecision) => setDecision(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="accepted">Accept for donation</SelectItem>
+                  <SelectItem value="deferred">Defer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {effectiveDecision === 'deferred' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="deferralReason">Reason *</Label>
+                  <Input
+                    id="deferralReason"
+                    value={deferralReason}
+                    onChange={(e) => setDeferralReason(e.target.value)}
+                    placeholder={failures.join('; ') || 'Why the donor cannot give today'}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="deferredUntil">Deferred until</Label>
+                  <Input
+                    id="deferredUntil"
+                    type="date"
+                    value={deferredUntil}
+                    onChange={(e) => setDeferredUntil(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">Leave empty to re-check at the next screening.</p>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="screeningNotes">Notes</Label>
+              <Textarea
+                id="screeningNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-4 pt-6">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-blue-600 hover:bg-blue-700">
+                {loading ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    <Check className="h-4 w-4 mr-2" />
+                    Record Screening
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { dataProvider } from "@/lib/dataProvider";
+import {
+  DEFAULT_FORECAST_HORIZON_DAYS,
+  FORECAST_HORIZON_OPTIONS,
+  FORECAST_LOOKBACK_DAYS,
+  FORECAST_PROJECTION_DAYS,
+  forecastStock,
+} from "@/lib/forecast";
+import type { BloodRequestWithHospital, BloodUnitRow, DonationRow } from "@/lib/repository";
+import { TrendingDown } from "lucide-react";
+
+interface StockForecastProps {
+  hospitalId?: string;
+  units: BloodUnitRow[];
+  donations: DonationRow[];
+}
+
+const LINE_COLORS = ['#E53E3E', '#DD6B20', '#D69E2E', '#805AD5', '#3182CE', '#319795', '#38A169', '#718096'];
+
+export default function StockForecast({ hospitalId, units, donations }: StockForecastProps) {
+  const [requests, setRequests] = useState<BloodRequestWithHospital[]>([]);
+  const [horizonDays, setHorizonDays] = useState(DEFAULT_FORECAST_HORIZON_DAYS);
+
+  useEffect(() => {
+    if (!hospitalId) return;
+    dataProvider.listRequests({ hospitalId, requestType: 'blood' })
+      .then(setRequests)
+      .catch((error) => console.error('Error loading request history:', error));
+  }, [hospitalId]);
+
+  const forecasts = useMemo(
+    () => forecastStock({ units, requests, donations, horizonDays }),
+    [units, requests, donations, horizonDays]
+  );
+  const atRisk = forecasts.filter((forecast) => forecast.atRisk);
+
+  // One row per day, one column per group at risk, over twice the horizon
+  const chartData = useMemo(() => {
+    const days = Math.min(horizonDays * 2, FORECAST_PROJECTION_DAYS);
+    return Array.from({ length: days + 1 }, (_, day) => ({
+      day,
+      ...Object.fromEntries(atRisk.map((forecast) => [forecast.bloodGroup, forecast.projection[day].units])),
+    }));
+  }, [atRisk, horizonDays]);
+
+  const formatDays = (days: number | null) => (days === null ? `${FORECAST_PROJECTION_DAYS}+ days` : `${days} days`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingDown className="h-5 w-5" />
+              Days of Supply
+            </CardTitle>
+            <CardDescription>
+              Red cell stock projected from the last {FORECAST_LOOKBACK_DAYS} days of requests, issues and collections
+            </CardDescription>
+          </div>
+          <Select value={String(horizonDays)} onValueChange={(value) => setHorizonDays(Number(value))}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORECAST_HORIZON_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>Flag within {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {atRisk.length > 0 ? (
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="day" tickFormatter={(day) => `+${day}d`} />
+              <YAxis allowDecimals={false} />
+              <Tooltip labelFormatter={(day) => `In ${day} day(s)`} />
+              <Legend />
+              {atRisk.map((forecast, i) => (
+                <Line
+                  key={forecast.bloodGroup}
+                  type="monotone"
+                  dataKey={forecast.bloodGroup}
+                  stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-gray-500 text-center py-4">No blood group is expected to run out within {horizonDays} days</p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Group</TableHead>
+              <TableHead>In Stock</TableHead>
+              <TableHead>Demand / day</TableHead>
+              <TableHead>Collected / day</TableHead>
+              <TableHead>Days of Supply</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {forecasts.map((forecast) => (
+              <TableRow key={forecast.bloodGroup}>
+                <TableCell className="font-bold text-blood">{forecast.bloodGroup}</TableCell>
+                <TableCell>{forecast.inStock}</TableCell>
+                <TableCell>{forecast.dailyDemand}</TableCell>
+                <TableCell>{forecast.dailySupply}</TableCell>
+                <TableCell>
+                  {forecast.atRisk ? (
+                    <Badge variant="destructive">
+                      {formatDays(forecast.daysOfSupply)} · out by {format(forecast.runsOutOn!, 'PP')}
+                    </Badge>
+                  ) : (
+                    formatDays(forecast.daysOfSupply)
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { stockLevel, type BloodGroup, type StockLevel, type StockThresholdRow } from "@/lib/repository";
+import { Gauge, Save, Trash2 } from "lucide-react";
+
+interface StockThresholdsProps {
+  hospitalId?: string;
+  /** Red cell bags in stock per group, as shown on the overview. */
+  stock: { type: BloodGroup; units: number }[];
+  thresholds: StockThresholdRow[];
+  /** Called after a save or clear; a save may also have opened a restock request. */
+  onThresholdsChanged: () => void;
+}
+
+type Draft = { min: string; target: string };
+
+const STOCK_LEVEL_STYLES: Record<StockLevel, { label: string; className: string }> = {
+  below_min: { label: 'Below minimum', className: 'bg-red-500 text-white' },
+  below_target: { label: 'Below target', className: 'bg-yellow-500 text-white' },
+  ok: { label: 'At target', className: 'bg-green-500 text-white' },
+};
+
+const toDraft = (threshold?: StockThresholdRow): Draft => ({
+  min: threshold ? String(threshold.min_units) : '',
+  target: threshold ? String(threshold.target_units) : '',
+});
+
+export default function StockThresholds({ hospitalId, stock, thresholds, onThresholdsChanged }: StockThresholdsProps) {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(thresholds.map((threshold) => [threshold.blood_group, toDraft(threshold)])));
+  }, [thresholds]);
+
+  const thresholdFor = (group: BloodGroup) => thresholds.find((threshold) => threshold.blood_group === group);
+
+  const updateDraft = (group: BloodGroup, field: keyof Draft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [group]: { ...(prev[group] ?? toDraft()), [field]: value } }));
+  };
+
+  const handleSave = async (group: BloodGroup) => {
+    if (!hospitalId) return;
+    const draft = drafts[group] ?? toDraft();
+    setSaving(group);
+    try {
+      await dataProvider.saveStockThreshold({
+        hospital_id: hospitalId,
+        blood_group: group,
+        min_units: Number(draft.min),
+        target_units: Number(draft.target),
+      });
+      toast({
+        title: "Threshold Saved",
+        description: `${group} is restocked automatically below ${draft.min} unit(s).`,
+        variant: "default",
+      });
+      onThresholdsChanged();
+    } catch (error) {
+      console.error('Error saving threshold:', error);
+      toast({
+        title: "Save Failed",
+        description: (error as Error).message || "Failed to save the threshold. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleClear = async (group: BloodGroup) => {
+    if (!hospitalId) return;
+    setSaving(group);
+    try {
+      await dataProvider.deleteStockThreshold(hospitalId, group);
+      onThresholdsChanged();
+    } catch (error) {
+      console.error('Error clearing threshold:', error);
+      toast({
+        title: "Clear Failed",
+        description: (error as Error).message || "Failed to clear the threshold. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Stock Thresholds
+        </CardTitle>
+        <CardDescription>
+          Below the minimum, a restock request up to the target is opened and compatible donors nearby are notified
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Group</TableHead>
+              <TableHead>In Stock</TableHead>
+              <TableHead>Minimum</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stock.map(({ type, units }) => {
+              const threshold = thresholdFor(type);
+              const draft = drafts[type] ?? toDraft();
+              const level = STOCK_LEVEL_STYLES[stockLevel(units, threshold)];
+              const valid = draft.min !== '' && draft.target !== '' && Number(draft.target) > Number(draft.min);
+              const changed = !threshold || draft.min !== String(threshold.min_units) || draft.target !== String(threshold.target_units);
+              return (
+                <TableRow key={type}>
+                  <TableCell className="font-bold text-red-600">{type}</TableCell>
+                  <TableCell>{units}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={draft.min}
+                      onChange={(e) => updateDraft(type, 'min', e.target.value)}
+                      placeholder="Not set"
+                      className="w-24"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={draft.target}
+                      onChange={(e) => updateDraft(type, 'target', e.target.value)}
+                      placeholder="Not set"
+                      className="w-24"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {threshold ? (
+                      <Badge className={level.className}>{level.label}</Badge>
+                    ) : (
+                      <span className="text-xs text-gray-500">No automatic restock</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(type)}
+                      disabled={!hospitalId || !valid || !changed || saving === type}
+                    >
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    {threshold && (
+                      <Button size="sm" variant="outline" onClick={() => handleClear(type)} disabled={saving === type}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
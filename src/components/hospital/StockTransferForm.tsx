@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import { haversineKm } from "@/lib/donorRanking";
+import {
+  BLOOD_COMPONENTS,
+  BLOOD_GROUPS,
+  type BloodComponent,
+  type BloodGroup,
+  type BloodStockHolderRow,
+  type HospitalRow,
+} from "@/lib/repository";
+import { ArrowLeftRight, Check, MapPin, X } from "lucide-react";
+
+interface StockTransferFormProps {
+  hospital: HospitalRow;
+  initialBloodGroup?: BloodGroup;
+  onClose: () => void;
+  onRequested: () => void;
+}
+
+type Holder = BloodStockHolderRow & { distanceKm: number | null };
+
+export default function StockTransferForm({ hospital, initialBloodGroup, onClose, onRequested }: StockTransferFormProps) {
+  const [bloodGroup, setBloodGroup] = useState<BloodGroup | ''>(initialBloodGroup ?? '');
+  const [component, setComponent] = useState<BloodComponent>('red_cells');
+  const [units, setUnits] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [holders, setHolders] = useState<Holder[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const count = parseInt(units);
+
+  // Nearest hospitals with enough stock first; those without coordinates last
+  useEffect(() => {
+    if (!bloodGroup || !(count > 0)) {
+      setHolders([]);
+      return;
+    }
+    dataProvider.findBloodStock({ bloodGroup, component, minUnits: count })
+      .then((rows) => {
+        const nearby = rows
+          .filter((row) => row.hospital_id !== hospital.id)
+          .map((row): Holder => ({
+            ...row,
+            distanceKm: row.latitude != null && row.longitude != null && hospital.latitude != null && hospital.longitude != null
+              ? haversineKm({ latitude: hospital.latitude, longitude: hospital.longitude }, row)
+              : null,
+          }))
+          .sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
+        setHolders(nearby);
+        setSupplierId((prev) => (nearby.some((row) => row.hospital_id === prev) ? prev : ''));
+      })
+      .catch((error) => console.error('Error finding blood stock:', error));
+  }, [bloodGroup, component, count, hospital]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!bloodGroup || !(count > 0) || !supplierId) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose a blood group, the number of bags and a hospital to ask.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await dataProvider.createStockTransfer({
+        requesting_hospital_id: hospital.id,
+        supplying_hospital_id: supplierId,
+        blood_group: bloodGroup,
+        component,
+        units_requested: count,
+        notes: notes.trim() || null,
+      });
+
+      toast({
+        title: "Transfer Requested",
+        description: `Asked ${holders.find((row) => row.hospital_id === supplierId)?.name} for ${count} ${bloodGroup} bag(s).`,
+        variant: "default",
+      });
+      onRequested();
+    } catch (error) {
+      console.error('Error requesting transfer:', error);
+      toast({
+        title: "Request Failed",
+        description: (error as Error).message || "Failed to request the transfer. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <ArrowLeftRight className="h-8 w-8 text-red-600" />
+          </div>
+          <CardTitle>Request Stock Transfer</CardTitle>
+          <CardDescription>Ask a hospital with stock to send bags to {hospital.name}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Blood Group *</Label>
+                <Select value={bloodGroup} onValueChange={(value: BloodGroup) => setBloodGroup(value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_GROUPS.map((group) => (
+                      <SelectItem key={group} value={group}>{group}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Component</Label>
+                <Select value={component} onValueChange={(value: BloodComponent) => setComponent(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_COMPONENTS.map((c) => (
+                      <SelectItem key={c} value={c}>{COMPONENT_LABELS[c]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transferUnits">Bags *</Label>
+                <Input
+                  id="transferUnits"
+                  type="number"
+                  min="1"
+                  value={units}
+                  onChange={(e) => setUnits(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ask Hospital *</Label>
+              {!bloodGroup ? (
+                <p className="text-sm text-gray-500">Choose a blood group to see who holds it.</p>
+              ) : holders.length === 0 ? (
+                <p className="text-sm text-gray-500">No other hospital holds {count > 0 ? count : ''} {bloodGroup} bag(s) right now.</p>
+              ) : (
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {holders.map((row) => (
+                    <button
+                      key={row.hospital_id}
+                      type="button"
+                      onClick={() => setSupplierId(row.hospital_id)}
+                      className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                        supplierId === row.hospital_id ? 'border-red-500 bg-red-50' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{row.name}</p>
+                          <p className="text-xs text-gray-500 flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {row.distanceKm != null ? `${row.distanceKm.toFixed(1)} km away` : row.city || 'Location unknown'}
+                          </p>
+                        </div>
+                        <span className="text-sm font-semibold text-blood">{row.units_available} in stock</span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transferNotes">Notes</Label>
+              <Textarea
+                id="transferNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Patient need, pickup arrangements..."
+                rows={3}
+              />
+            </div>
+
+            <div className="flex gap-4 pt-6">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-blue-600 hover:bg-blue-700">
+                {loading ? (
+                  "Requesting..."
+                ) : (
+                  <>
+                    <Check className="h-4 w-4 mr-2" />
+                    Request Transfer
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import type {
+  BloodComponent,
+  HospitalRow,
+  StockTransferHistoryRow,
+  StockTransferStatus,
+  StockTransferWithHospitals,
+} from "@/lib/repository";
+import { TRANSFER_STATUS_LABELS, availableTransferSteps, isFinalTransferStatus } from "@/lib/transferLifecycle";
+import StockTransferForm from "./StockTransferForm";
+import { ArrowLeftRight, History, Plus } from "lucide-react";
+
+interface StockTransfersProps {
+  hospital: HospitalRow | null;
+  /** Called after a step that moved bags in or out of this hospital. */
+  onUnitsChanged: () => void;
+}
+
+// The button for each step and the reason recorded with it
+const TRANSFER_ACTIONS: Partial<Record<StockTransferStatus, { label: string; reason: string }>> = {
+  approved: { label: 'Approve', reason: 'Approved by supplying hospital' },
+  rejected: { label: 'Reject', reason: 'Rejected by supplying hospital' },
+  dispatched: { label: 'Dispatch', reason: 'Bags dispatched' },
+  received: { label: 'Mark Received', reason: 'Bags received' },
+  cancelled: { label: 'Cancel', reason: 'Cancelled by requesting hospital' },
+};
+
+const STATUS_STYLES: Record<StockTransferStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  dispatched: 'bg-purple-100 text-purple-800',
+  received: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const ACTOR_LABELS: Record<string, string> = {
+  requesting_hospital: 'Requesting hospital',
+  supplying_hospital: 'Supplying hospital',
+  admin: 'Admin',
+  system: 'System',
+};
+
+const statusLabel = (status: string) => TRANSFER_STATUS_LABELS[status as StockTransferStatus] ?? status;
+
+export default function StockTransfers({ hospital, onUnitsChanged }: StockTransfersProps) {
+  const [transfers, setTransfers] = useState<StockTransferWithHospitals[]>([]);
+  const [history, setHistory] = useState<Record<string, StockTransferHistoryRow[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const { toast } = useToast();
+
+  const loadTransfers = useCallback(async () => {
+    if (!hospital?.id) return;
+    try {
+      const rows = await dataProvider.listStockTransfers({ hospitalId: hospital.id });
+      const entries = await dataProvider.listStockTransferHistory(rows.map((transfer) => transfer.id));
+      setTransfers(rows);
+      setHistory(entries.reduce<Record<string, StockTransferHistoryRow[]>>((groups, entry) => {
+        (groups[entry.transfer_id] ||= []).push(entry);
+        return groups;
+      }, {}));
+    } catch (error) {
+      console.error('Error loading transfers:', error);
+    }
+  }, [hospital?.id]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const takeStep = async (transfer: StockTransferWithHospitals, status: StockTransferStatus) => {
+    try {
+      await dataProvider.transitionStockTransfer(transfer.id, { status, reason: TRANSFER_ACTIONS[status]?.reason });
+      toast({
+        title: "Transfer Updated",
+        description: `Transfer marked ${statusLabel(status).toLowerCase()}.`,
+        variant: "default",
+      });
+      await loadTransfers();
+      // Approving, rejecting, cancelling and receiving all change what is in stock here
+      if (status !== 'dispatched') onUnitsChanged();
+    } catch (error) {
+      console.error('Error updating transfer:', error);
+      toast({
+        title: "Update Failed",
+        description: (error as Error).message || "Failed to update the transfer. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const shown = transfers.filter((transfer) => showClosed || !isFinalTransferStatus(transfer.status));
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5" />
+                Stock Transfers
+              </CardTitle>
+              <CardDescription>Bags requested from and by other hospitals</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowClosed((prev) => !prev)}>
+                {showClosed ? 'Hide Closed' : 'Show Closed'}
+              </Button>
+              <Button onClick={() => setShowForm(true)} disabled={!hospital} className="medical-btn">
+                <Plus className="h-4 w-4 mr-2" />
+                Request Transfer
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {shown.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No transfers to show</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Direction</TableHead>
+                  <TableHead>Hospital</TableHead>
+                  <TableHead>Bags</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((transfer) => {
+                  const incoming = transfer.requesting_hospital_id === hospital?.id;
+                  const other = incoming ? transfer.supplying_hospital : transfer.requesting_hospital;
+                  const steps = hospital ? availableTransferSteps(transfer, hospital.id) : [];
+                  return (
+                    <React.Fragment key={transfer.id}>
+                      <TableRow>
+                        <TableCell>
+                          <Badge variant="outline">{incoming ? 'Incoming' : 'Outgoing'}</Badge>
+                        </TableCell>
+                        <TableCell>{other?.name ?? 'Unknown hospital'}</TableCell>
+                        <TableCell>
+                          <span className="font-bold text-blood">{transfer.blood_group}</span>{' '}
+                          {transfer.units_requested} × {COMPONENT_LABELS[transfer.component as BloodComponent] ?? transfer.component}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[transfer.status as StockTransferStatus]}>{statusLabel(transfer.status)}</Badge>
+                        </TableCell>
+                        <TableCell>{new Date(transfer.created_at).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-2 justify-end">
+                            {steps.map((status) => (
+                              <Button
+                                key={status}
+                                size="sm"
+                                variant={status === 'rejected' || status === 'cancelled' ? 'outline' : 'default'}
+                                onClick={() => takeStep(transfer, status)}
+                              >
+                                {TRANSFER_ACTIONS[status]?.label ?? statusLabel(status)}
+                              </Button>
+                            ))}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setExpandedId((prev) => (prev === transfer.id ? null : transfer.id))}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {expandedId === transfer.id && (
+                        <TableRow>
+                          <TableCell colSpan={6}>
+                            {transfer.notes && <p className="text-sm text-gray-700 mb-3">{transfer.notes}</p>}
+                            <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+                              {(history[transfer.id] ?? []).map((entry) => (
+                                <li key={entry.id} className="ml-4">
+                                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-red-500" />
+                                  <div className="text-sm font-medium">
+                                    {entry.from_status
+                                      ? `${statusLabel(entry.from_status)} → ${statusLabel(entry.to_status)}`
+                                      : statusLabel(entry.to_status)}
+                                  </div>
+                                  <div className="text-xs text-gray-500">
+                                    {ACTOR_LABELS[entry.actor_role] ?? entry.actor_role} · {new Date(entry.created_at).toLocaleString()}
+                                    {entry.unit_ids.length > 0 && ` · ${entry.unit_ids.length} bag(s)`}
+                                  </div>
+                                  {entry.reason && <p className="text-sm text-gray-700">{entry.reason}</p>}
+                                </li>
+                              ))}
+                            </ol>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {showForm && hospital && (
+        <StockTransferForm
+          hospital={hospital}
+          onClose={() => setShowForm(false)}
+          onRequested={() => {
+            setShowForm(false);
+            loadTransfers();
+          }}
+        />
+      )}
+    </>
+  );
+}
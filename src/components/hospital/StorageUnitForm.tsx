@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { dataProvider } from "@/lib/dataProvider";
+import { STORAGE_UNIT_KIND_LABELS, STORAGE_UNIT_KIND_RANGES } from "@/lib/coldChain";
+import { STORAGE_UNIT_KINDS, type StorageUnitKind, type StorageUnitRow } from "@/lib/repository";
+import { Check, Thermometer, X } from "lucide-react";
+
+interface StorageUnitFormProps {
+  hospitalId: string;
+  onClose: () => void;
+  onUnitAdded: (unit: StorageUnitRow) => void;
+}
+
+export default function StorageUnitForm({ hospitalId, onClose, onUnitAdded }: StorageUnitFormProps) {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<StorageUnitKind>('refrigerator');
+  const [location, setLocation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const range = STORAGE_UNIT_KIND_RANGES[kind];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please give the storage unit a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const unit = await dataProvider.createStorageUnit({
+        hospital_id: hospitalId,
+        name: name.trim(),
+        kind,
+        location: location.trim() || null,
+      });
+
+      toast({
+        title: "Storage Unit Added",
+        description: `${unit.name} is ready for temperature logging.`,
+        variant: "default",
+      });
+      onUnitAdded(unit);
+    } catch (error) {
+      console.error('Error adding storage unit:', error);
+      toast({
+        title: "Failed to Add Storage Unit",
+        description: (error as Error).message || "Failed to add the storage unit. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <Thermometer className="h-8 w-8 text-red-600" />
+          </div>
+          <CardTitle>Add Storage Unit</CardTitle>
+          <CardDescription>A refrigerator, freezer or incubator whose temperature is logged</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="storageUnitName">Name *</Label>
+              <Input
+                id="storageUnitName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Blood Bank Fridge 2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select value={kind} onValueChange={(value: StorageUnitKind) => setKind(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STORAGE_UNIT_KINDS.map((k) => (
+                    <SelectItem key={k} value={k}>{STORAGE_UNIT_KIND_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">Usually run between {range.min} °C and {range.max} °C</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="storageUnitLocation">Location</Label>
+              <Input
+                id="storageUnitLocation"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Ground floor, blood bank"
+              />
+            </div>
+
+            <div className="flex gap-4 pt-6">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-blue-600 hover:bg-blue-700">
+                {loading ? (
+                  "Saving..."
+                ) : (
+                  <>
+                    <Check className="h-4 w-4 mr-2" />
+                    Add Unit
+                  </>
+                )}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { format, parse, subMonths } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { COMPONENT_LABELS } from "@/lib/compatibility";
+import {
+  DEFAULT_WASTAGE_PERIOD_MONTHS,
+  DISCARD_REASON_LABELS,
+  WASTAGE_PERIOD_OPTIONS,
+  summarizeWastage,
+  totalWastageBy,
+  wastageCsv,
+} from "@/lib/wastage";
+import { DISCARD_REASONS, type BloodUnitRow } from "@/lib/repository";
+import { Download, Recycle } from "lucide-react";
+
+interface WastageReportProps {
+  /** The hospital's bags, in any state. */
+  units: BloodUnitRow[];
+}
+
+const REASON_COLORS = ['#E53E3E', '#DD6B20', '#805AD5', '#3182CE', '#718096'];
+
+const monthLabel = (month: string) => format(parse(month, 'yyyy-MM', new Date()), 'MMM yyyy');
+
+export default function WastageReport({ units }: WastageReportProps) {
+  const [months, setMonths] = useState(DEFAULT_WASTAGE_PERIOD_MONTHS);
+
+  const rows = useMemo(() => summarizeWastage(units, months), [units, months]);
+  const total = rows.reduce((sum, row) => sum + row.units, 0);
+  const byComponent = totalWastageBy(rows, 'component');
+  const byGroup = totalWastageBy(rows, 'bloodGroup');
+
+  // One bar per month, oldest first, stacked by reason
+  const chartData = useMemo(() => {
+    const now = new Date();
+    return Array.from({ length: months }, (_, i) => {
+      const month = format(subMonths(now, months - 1 - i), 'yyyy-MM');
+      const inMonth = rows.filter((row) => row.month === month);
+      return {
+        month: monthLabel(month),
+        ...Object.fromEntries(DISCARD_REASONS.map((reason) => [
+          reason,
+          inMonth.filter((row) => row.reason === reason).reduce((sum, row) => sum + row.units, 0),
+        ])),
+      };
+    });
+  }, [rows, months]);
+
+  const handleExport = () => {
+    const blob = new Blob([wastageCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `wastage-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Recycle className="h-5 w-5" />
+              Wastage
+            </CardTitle>
+            <CardDescription>
+              {total} bag(s) expired or discarded in the last {months} months
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WASTAGE_PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>Last {option} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleExport} disabled={rows.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rows.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No bags were wasted in this period</p>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {DISCARD_REASONS.map((reason, i) => (
+                  <Bar
+                    key={reason}
+                    dataKey={reason}
+                    name={DISCARD_REASON_LABELS[reason]}
+                    stackId="reason"
+                    fill={REASON_COLORS[i % REASON_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component</TableHead>
+                    <TableHead className="text-right">Bags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byComponent.map(({ key, units: count }) => (
+                    <TableRow key={key}>
+                      <TableCell>{COMPONENT_LABELS[key]}</TableCell>
+                      <TableCell className="text-right">{count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Group</TableHead>
+                    <TableHead className="text-right">Bags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byGroup.map(({ key, units: count }) => (
+                    <TableRow key={key}>
+                      <TableCell className="font-bold text-blood">{key}</TableCell>
+                      <TableCell className="text-right">{count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Bags</TableHead>
+                  <TableHead className="text-right">Volume (mL)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={`${row.month}-${row.component}-${row.bloodGroup}-${row.reason}`}>
+                    <TableCell>{monthLabel(row.month)}</TableCell>
+                    <TableCell>{COMPONENT_LABELS[row.component]}</TableCell>
+                    <TableCell className="font-bold text-blood">{row.bloodGroup}</TableCell>
+                    <TableCell>{DISCARD_REASON_LABELS[row.reason]}</TableCell>
+                    <TableCell className="text-right">{row.units}</TableCell>
+                    <TableCell className="text-right">{row.volumeMl}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,203 +3,482 @@ export const sampleHospitals = [
   {
     id: "hosp-001",
     name: "City General Hospital",
-    address: "123 Medical Center Dr, Downtown",
-    contact: "+1-555-0123",
-    verified: true,
-    created_at: "2024-01-15T08:00:00Z"
+    email: "contact@citygeneral.com",
+    phone: "+1-555-0123",
+    address: "123 Medical Center Dr",
+    city: "Downtown",
+    latitude: 40.7128,
+    longitude: -74.006,
+    state: "NY",
+    pincode: "10001",
+    registration_number: "HOSP001",
+    is_verified: true,
+    is_active: true,
+    created_at: "2024-01-15T08:00:00Z",
+    updated_at: "2024-01-15T08:00:00Z"
   },
   {
-    id: "hosp-002", 
+    id: "hosp-002",
     name: "Memorial Medical Center",
-    address: "456 Health Plaza, North District",
-    contact: "+1-555-0456",
-    verified: true,
-    created_at: "2024-01-20T10:30:00Z"
+    email: "info@memorialmed.com",
+    phone: "+1-555-0456",
+    address: "456 Health Plaza",
+    city: "North District",
+    latitude: 40.7831,
+    longitude: -73.9712,
+    state: "CA",
+    pincode: "90210",
+    registration_number: "HOSP002",
+    is_verified: true,
+    is_active: true,
+    created_at: "2024-01-20T10:30:00Z",
+    updated_at: "2024-01-20T10:30:00Z"
   },
   {
     id: "hosp-003",
     name: "St. Mary's Hospital",
-    address: "789 Care Avenue, East Side",
-    contact: "+1-555-0789",
-    verified: true,
-    created_at: "2024-02-01T14:15:00Z"
+    email: "admin@stmarys.com",
+    phone: "+1-555-0789",
+    address: "789 Care Avenue",
+    city: "East Side",
+    latitude: 40.7265,
+    longitude: -73.9815,
+    state: "IL",
+    pincode: "60601",
+    registration_number: "HOSP003",
+    is_verified: true,
+    is_active: true,
+    created_at: "2024-02-01T14:15:00Z",
+    updated_at: "2024-02-01T14:15:00Z"
   }
 ];
 
+const hospitalSummary = (id: string) => {
+  const { name, phone, address, city, latitude, longitude } = sampleHospitals.find((h) => h.id === id)!;
+  return { id, name, phone, address, city, latitude, longitude };
+};
+
 export const sampleBloodRequests = [
   {
     id: "req-001",
-    patient_name: "John Smith",
+    hospital_id: "hosp-001",
+    donor_id: null,
+    request_type: "blood",
     blood_group: "A+",
-    hospital_name: "City General Hospital",
-    urgency: "Emergency",
-    location: "Downtown Medical District",
-    quantity_ml: 500,
+    units_required: 2,
+    status: "pending",
+    emergency_level: "Critical",
+    escalation_level: 0,
+    last_escalated_at: null,
+    pledged_units: 0,
+    scheduled_units: 1,
+    collected_units: 0,
+    source: "manual",
+    patient_name: "John Smith",
+    patient_age: 54,
+    medical_condition: null,
+    notes: "Emergency surgery patient needs blood transfusion",
     created_at: "2024-01-15T09:30:00Z",
-    status: "Pending",
-    description: "Emergency surgery patient needs blood transfusion",
-    hospital_id: "hosp-001"
+    updated_at: "2024-01-15T09:30:00Z",
+    hospital: hospitalSummary("hosp-001")
   },
   {
     id: "req-002",
-    patient_name: "Sarah Johnson",
+    hospital_id: "hosp-002",
+    donor_id: "donor-002",
+    request_type: "blood",
     blood_group: "O-",
-    hospital_name: "Memorial Medical Center", 
-    urgency: "High",
-    location: "North District",
-    quantity_ml: 300,
+    units_required: 1,
+    status: "accepted",
+    emergency_level: "High",
+    escalation_level: 0,
+    last_escalated_at: null,
+    pledged_units: 0,
+    scheduled_units: 1,
+    collected_units: 0,
+    source: "manual",
+    patient_name: "Sarah Johnson",
+    patient_age: 41,
+    medical_condition: "Oncology",
+    notes: "Cancer patient requiring blood during treatment",
     created_at: "2024-01-16T11:45:00Z",
-    status: "In Progress",
-    description: "Cancer patient requiring blood during treatment",
-    hospital_id: "hosp-002"
+    updated_at: "2024-01-16T11:45:00Z",
+    hospital: hospitalSummary("hosp-002")
   },
   {
     id: "req-003",
-    patient_name: "Michael Brown",
+    hospital_id: "hosp-003",
+    donor_id: null,
+    request_type: "blood",
     blood_group: "B+",
-    hospital_name: "St. Mary's Hospital",
-    urgency: "Medium",
-    location: "East Side",
-    quantity_ml: 250,
+    units_required: 1,
+    status: "pending",
+    emergency_level: "Medium",
+    escalation_level: 0,
+    last_escalated_at: null,
+    pledged_units: 0,
+    scheduled_units: 0,
+    collected_units: 0,
+    source: "manual",
+    patient_name: "Michael Brown",
+    patient_age: 63,
+    medical_condition: null,
+    notes: "Scheduled surgery next week",
     created_at: "2024-01-17T08:20:00Z",
-    status: "Pending",
-    description: "Scheduled surgery next week",
-    hospital_id: "hosp-003"
+    updated_at: "2024-01-17T08:20:00Z",
+    hospital: hospitalSummary("hosp-003")
   },
   {
     id: "req-004",
-    patient_name: "Emily Davis",
+    hospital_id: "hosp-001",
+    donor_id: "donor-004",
+    request_type: "blood",
     blood_group: "AB+",
-    hospital_name: "City General Hospital",
-    urgency: "Low",
-    location: "Downtown",
-    quantity_ml: 200,
+    units_required: 1,
+    status: "fulfilled",
+    emergency_level: "Low",
+    escalation_level: 0,
+    last_escalated_at: null,
+    pledged_units: 0,
+    scheduled_units: 0,
+    collected_units: 1,
+    source: "manual",
+    patient_name: "Emily Davis",
+    patient_age: 29,
+    medical_condition: "Chronic anemia",
+    notes: "Regular blood transfusion for chronic condition",
     created_at: "2024-01-18T15:10:00Z",
-    status: "Fulfilled",
-    description: "Regular blood transfusion for chronic condition",
-    hospital_id: "hosp-001"
+    updated_at: "2024-01-18T15:10:00Z",
+    hospital: hospitalSummary("hosp-001")
   }
 ];
 
 export const samplePlasmaRequests = [
   {
     id: "plasma-001",
+    hospital_id: "hosp-001",
     patient_name: "Robert Wilson",
+    diagnosis: "Post-COVID Recovery",
     plasma_type: "Convalescent",
-    component_type: "Platelets",
-    hospital_name: "City General Hospital",
+    required_units: 2,
     urgency: "High",
-    location: "Downtown",
-    quantity_ml: 400,
-    condition: "Post-COVID Recovery",
+    status: "pending",
     created_at: "2024-01-15T10:00:00Z",
-    status: "Pending",
-    hospital_id: "hosp-001"
+    updated_at: "2024-01-15T10:00:00Z"
   },
   {
     id: "plasma-002",
+    hospital_id: "hosp-002",
     patient_name: "Lisa Anderson",
+    diagnosis: "Dengue Fever",
     plasma_type: "Fresh Frozen",
-    component_type: "RBC",
-    hospital_name: "Memorial Medical Center",
-    urgency: "Emergency",
-    location: "North District",
-    quantity_ml: 600,
-    condition: "Dengue Fever",
+    required_units: 3,
+    urgency: "Critical",
+    status: "in_progress",
     created_at: "2024-01-16T12:30:00Z",
-    status: "In Progress",
-    hospital_id: "hosp-002"
+    updated_at: "2024-01-16T12:30:00Z"
   }
 ];
 
 export const sampleDonors = [
   {
     id: "donor-001",
-    first_name: "David",
-    last_name: "Miller",
-    blood_type: "A+",
-    is_available: true,
-    location_sharing: true,
+    name: "David Miller",
+    email: "david.miller@email.com",
+    phone: "+1-555-1001",
+    blood_group: "A+",
+    age: 34,
+    gender: "Male",
+    location: "Downtown",
+    latitude: 40.715,
+    longitude: -74.009,
     last_donation_date: "2024-01-01T00:00:00Z",
-    next_eligible_date: "2024-02-26T00:00:00Z"
+    next_eligible_date: "2024-02-26T00:00:00Z",
+    is_available: true,
+    is_verified: true,
+    created_at: "2023-06-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z"
   },
   {
     id: "donor-002",
-    first_name: "Jennifer",
-    last_name: "Garcia",
-    blood_type: "O-",
-    is_available: true,
-    location_sharing: true,
+    name: "Jennifer Garcia",
+    email: "jennifer.garcia@email.com",
+    phone: "+1-555-1002",
+    blood_group: "O-",
+    age: 28,
+    gender: "Female",
+    location: "North District",
+    latitude: 40.79,
+    longitude: -73.968,
     last_donation_date: "2024-01-10T00:00:00Z",
-    next_eligible_date: "2024-03-06T00:00:00Z"
+    next_eligible_date: "2024-03-06T00:00:00Z",
+    is_available: true,
+    is_verified: true,
+    created_at: "2023-07-12T00:00:00Z",
+    updated_at: "2024-01-10T00:00:00Z"
   },
   {
     id: "donor-003",
-    first_name: "Christopher",
-    last_name: "Lee",
-    blood_type: "B+",
-    is_available: false,
-    location_sharing: false,
+    name: "Christopher Lee",
+    email: "christopher.lee@email.com",
+    phone: "+1-555-1003",
+    blood_group: "B+",
+    age: 45,
+    gender: "Male",
+    location: "East Side",
+    latitude: 40.73,
+    longitude: -73.98,
     last_donation_date: "2024-01-20T00:00:00Z",
-    next_eligible_date: "2024-03-16T00:00:00Z"
+    next_eligible_date: "2024-03-16T00:00:00Z",
+    is_available: false,
+    is_verified: true,
+    created_at: "2023-08-03T00:00:00Z",
+    updated_at: "2024-01-20T00:00:00Z"
   },
   {
     id: "donor-004",
-    first_name: "Amanda",
-    last_name: "Taylor",
-    blood_type: "AB+",
-    is_available: true,
-    location_sharing: true,
+    name: "Amanda Taylor",
+    email: "amanda.taylor@email.com",
+    phone: "+1-555-1004",
+    blood_group: "AB+",
+    age: 31,
+    gender: "Female",
+    location: "Downtown",
+    latitude: 40.706,
+    longitude: -74.012,
     last_donation_date: "2024-01-05T00:00:00Z",
-    next_eligible_date: "2024-03-01T00:00:00Z"
+    next_eligible_date: "2024-03-01T00:00:00Z",
+    is_available: true,
+    is_verified: false,
+    created_at: "2023-09-21T00:00:00Z",
+    updated_at: "2024-01-05T00:00:00Z"
   }
 ];
 
+const donorSummary = (id: string) => {
+  const { name, blood_group, phone } = sampleDonors.find((d) => d.id === id)!;
+  return { id, name, blood_group, phone };
+};
+
 export const sampleAppointments = [
   {
     id: "appt-001",
-    donor_id: "donor-001",
-    donor_name: "David Miller",
     hospital_id: "hosp-001",
-    hospital_name: "City General Hospital",
+    donor_id: "donor-001",
     request_id: "req-001",
-    donation_type: "blood",
     appointment_date: "2024-01-20T10:00:00Z",
-    status: "pending",
-    created_at: "2024-01-15T09:45:00Z"
+    appointment_time: "10:00",
+    slot_start: "2024-01-20T10:00:00Z",
+    slot_end: "2024-01-20T10:30:00Z",
+    chair: 1,
+    ical_sequence: 0,
+    status: "scheduled",
+    notes: null,
+    created_at: "2024-01-15T09:45:00Z",
+    updated_at: "2024-01-15T09:45:00Z",
+    donor: donorSummary("donor-001")
   },
   {
     id: "appt-002",
-    donor_id: "donor-002",
-    donor_name: "Jennifer Garcia",
     hospital_id: "hosp-002",
-    hospital_name: "Memorial Medical Center",
+    donor_id: "donor-002",
     request_id: "req-002",
-    donation_type: "blood",
     appointment_date: "2024-01-21T14:30:00Z",
-    status: "accepted",
-    created_at: "2024-01-16T12:00:00Z"
+    appointment_time: "14:30",
+    slot_start: "2024-01-21T14:30:00Z",
+    slot_end: "2024-01-21T15:00:00Z",
+    chair: 1,
+    ical_sequence: 0,
+    status: "confirmed",
+    notes: null,
+    created_at: "2024-01-16T12:00:00Z",
+    updated_at: "2024-01-16T12:00:00Z",
+    donor: donorSummary("donor-002")
   }
 ];
 
+export const sampleDonationSchedules = sampleHospitals.map((hospital) => ({
+  hospital_id: hospital.id,
+  chairs: 4,
+  slot_minutes: 30,
+  timezone: "Asia/Kolkata",
+  created_at: hospital.created_at,
+  updated_at: hospital.created_at
+}));
+
+// Monday to Saturday, 9 to 5
+export const sampleOpeningHours = sampleDonationSchedules.flatMap((schedule) =>
+  [1, 2, 3, 4, 5, 6].map((weekday) => ({
+    hospital_id: schedule.hospital_id,
+    weekday,
+    opens_at: "09:00:00",
+    closes_at: "17:00:00",
+    created_at: schedule.created_at,
+    updated_at: schedule.created_at
+  }))
+);
+
+export const sampleRequestPledges = [
+  { id: "pledge-001", request_id: "req-001", donor_id: "donor-001", units: 1, status: "scheduled", appointment_id: "appt-001", created_at: "2024-01-15T09:40:00Z", updated_at: "2024-01-15T09:45:00Z", donor: donorSummary("donor-001") },
+  { id: "pledge-002", request_id: "req-002", donor_id: "donor-002", units: 1, status: "scheduled", appointment_id: "appt-002", created_at: "2024-01-16T11:50:00Z", updated_at: "2024-01-16T12:00:00Z", donor: donorSummary("donor-002") },
+  { id: "pledge-003", request_id: "req-004", donor_id: "donor-004", units: 1, status: "collected", appointment_id: null, created_at: "2024-01-18T15:20:00Z", updated_at: "2024-01-19T10:00:00Z", donor: donorSummary("donor-004") }
+];
+
 export const samplePlasmaInventory = [
-  { plasma_type: "Convalescent", units: 15 },
-  { plasma_type: "Fresh Frozen", units: 8 },
-  { plasma_type: "Platelets", units: 12 },
-  { plasma_type: "RBC", units: 6 }
+  { id: "pinv-001", hospital_id: "hosp-001", blood_group: "AB+", units_available: 15, plasma_type: "Convalescent", expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "pinv-002", hospital_id: "hosp-001", blood_group: "AB-", units_available: 8, plasma_type: "Fresh Frozen", expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "pinv-003", hospital_id: "hosp-002", blood_group: "A+", units_available: 12, plasma_type: "Platelets", expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "pinv-004", hospital_id: "hosp-002", blood_group: "O+", units_available: 6, plasma_type: "RBC", expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" }
 ];
 
 export const sampleBloodInventory = [
-  { type: "A+", units: 25 },
-  { type: "A-", units: 8 },
-  { type: "B+", units: 15 },
-  { type: "B-", units: 5 },
-  { type: "AB+", units: 12 },
-  { type: "AB-", units: 3 },
-  { type: "O+", units: 30 },
-  { type: "O-", units: 10 }
+  { id: "inv-001", hospital_id: "hosp-001", blood_group: "A+", units_available: 25, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-002", hospital_id: "hosp-001", blood_group: "A-", units_available: 8, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-003", hospital_id: "hosp-001", blood_group: "B+", units_available: 15, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-004", hospital_id: "hosp-001", blood_group: "B-", units_available: 5, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-005", hospital_id: "hosp-001", blood_group: "AB+", units_available: 12, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-006", hospital_id: "hosp-001", blood_group: "AB-", units_available: 3, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-007", hospital_id: "hosp-001", blood_group: "O+", units_available: 30, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" },
+  { id: "inv-008", hospital_id: "hosp-001", blood_group: "O-", units_available: 10, expiry_date: null, status: "available", created_at: "2024-01-15T08:00:00Z", updated_at: "2024-01-15T08:00:00Z" }
 ];
 
+// One bag per aggregate unit above, as the blood_units migrations convert
+// them. Collection dates are relative to today so the demo always has bags
+// in date, a few of them close to expiry.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bagsFromAggregate = (
+  row: { id: string; hospital_id: string; blood_group: string; units_available: number },
+  component: string,
+  shelfLifeDays: number,
+  storage: string
+) =>
+  Array.from({ length: row.units_available }, (_, i) => {
+    const collectedAt = new Date(Date.now() - (((i * 3) % (shelfLifeDays - 1)) + 1) * DAY_MS).toISOString();
+    return {
+      id: `${row.id}-bag-${i + 1}`,
+      hospital_id: row.hospital_id,
+      bag_number: `${row.id.toUpperCase()}-${String(i + 1).padStart(3, "0")}`,
+      component,
+      blood_group: row.blood_group,
+      volume_ml: component === "plasma" ? 250 : 450,
+      donation_id: null,
+      collected_at: collectedAt,
+      expires_at: new Date(Date.parse(collectedAt) + shelfLifeDays * DAY_MS).toISOString(),
+      storage_location: `Shelf ${i % 2 === 0 ? "A" : "B"}`,
+      storage_unit_id: `${row.hospital_id}-${storage}`,
+      product_code: null,
+      status: "available",
+      issued_at: null,
+      issued_request_id: null,
+      discard_reason: null,
+      discard_notes: null,
+      discarded_at: null,
+      discarded_by: null,
+      version: 1,
+      created_at: collectedAt,
+      updated_at: collectedAt
+    };
+  });
+
+// A refrigerator and a freezer per hospital, logging every hour for the
+// last two days without leaving their range
+export const sampleStorageUnits = sampleHospitals.flatMap((hospital) =>
+  (["refrigerator", "freezer"] as const).map((kind) => ({
+    id: `${hospital.id}-${kind}`,
+    hospital_id: hospital.id,
+    name: kind === "refrigerator" ? "Blood Bank Refrigerator" : "Plasma Freezer",
+    kind,
+    location: "Blood bank",
+    device_key_hash: null,
+    is_active: true,
+    created_at: hospital.created_at,
+    updated_at: hospital.created_at
+  }))
+);
+
+export const sampleTemperatureReadings = sampleStorageUnits.flatMap((unit) =>
+  Array.from({ length: 48 }, (_, hour) => {
+    const recordedAt = new Date(Math.floor(Date.now() / 3600000) * 3600000 - (47 - hour) * 3600000).toISOString();
+    const swing = Math.sin(hour / 4) * (unit.kind === "refrigerator" ? 0.8 : 2);
+    return {
+      id: `${unit.id}-reading-${hour + 1}`,
+      storage_unit_id: unit.id,
+      recorded_at: recordedAt,
+      temperature_c: Math.round(((unit.kind === "refrigerator" ? 4 : -25) + swing) * 10) / 10,
+      source: "device",
+      created_at: recordedAt
+    };
+  })
+);
+
+// Bags lost over the last few months, for the wastage report
+const wastedBags = ([
+  ["A+", "whole_blood", 20, "expired", null],
+  ["B-", "whole_blood", 48, "expired", null],
+  ["O+", "whole_blood", 51, "broken_bag", "Seal torn on receipt"],
+  ["AB+", "plasma", 75, "temperature_excursion", "Freezer door left open"],
+  ["O-", "whole_blood", 80, "reactive_test", "HBsAg reactive"],
+  ["A+", "whole_blood", 110, "expired", null]
+] as const).map(([bloodGroup, component, daysAgo, reason, notes], i) => {
+  const discardedAt = new Date(Date.now() - daysAgo * DAY_MS).toISOString();
+  const shelfLifeDays = component === "plasma" ? 365 : 35;
+  const collectedAt = new Date(Date.parse(discardedAt) - (reason === "expired" ? shelfLifeDays : 10) * DAY_MS).toISOString();
+  return {
+    id: `wasted-bag-${i + 1}`,
+    hospital_id: "hosp-001",
+    bag_number: `WASTE-${String(i + 1).padStart(3, "0")}`,
+    component,
+    blood_group: bloodGroup,
+    volume_ml: component === "plasma" ? 250 : 450,
+    donation_id: null,
+    collected_at: collectedAt,
+    expires_at: new Date(Date.parse(collectedAt) + shelfLifeDays * DAY_MS).toISOString(),
+    storage_location: null,
+    storage_unit_id: null,
+    product_code: null,
+    status: "discarded",
+    issued_at: null,
+    issued_request_id: null,
+    discard_reason: reason,
+    discard_notes: notes,
+    discarded_at: discardedAt,
+    discarded_by: null,
+    version: 1,
+    created_at: collectedAt,
+    updated_at: discardedAt
+  };
+});
+
+export const sampleBloodUnits = [
+  ...sampleBloodInventory.flatMap((row) => bagsFromAggregate(row, "whole_blood", 35, "refrigerator")),
+  ...samplePlasmaInventory.flatMap((row) => bagsFromAggregate(row, "plasma", 365, "freezer")),
+  ...wastedBags
+];
+
+// Whole blood collected today and yesterday, waiting to be separated
+export const sampleDonations = [0, 1].map((daysAgo) => {
+  const donatedAt = new Date(Date.now() - daysAgo * DAY_MS).toISOString();
+  const donor = sampleDonors[daysAgo];
+  return {
+    id: `don-000${daysAgo + 1}`,
+    hospital_id: "hosp-001",
+    donor_id: donor.id,
+    donation_type: "blood",
+    donation_date: donatedAt,
+    units_donated: 1,
+    blood_group: donor.blood_group,
+    verified: false,
+    verified_by: null,
+    verification_date: null,
+    notes: null,
+    pledge_id: null,
+    health_declaration_id: null,
+    created_at: donatedAt,
+    updated_at: donatedAt
+  };
+});
+
 export const sampleBlockchainTransactions = [
   {
     id: "tx-001",
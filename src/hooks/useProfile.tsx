@@ -1,28 +1,11 @@
 
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from "@/hooks/use-toast";
 
-interface Profile {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  email: string | null;
-  phone: string | null;
-  address: string | null;
-  blood_type: string | null;
-  date_of_birth: string | null;
-  last_donation_date: string | null;
-  medical_conditions: string | null;
-  medications: string | null;
-  allergies: string | null;
-  avatar_url: string | null;
-  is_available: boolean | null;
-  email_notifications: boolean | null;
-  sms_notifications: boolean | null;
-  location_sharing: boolean | null;
-}
+type Profile = Tables<'profiles'>;
 
 export const useProfile = () => {
   const [profile, setProfile] = useState<Profile | null>(null);
@@ -1,6 +1,7 @@
 import { ethers } from "ethers";
 
 export interface DonationRecord {
+  donationId?: string | null;
   donorId: string | null;
   hospitalId: string | null;
   donationType: "blood" | "plasma";
@@ -9,343 +9,725 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      blockchain_ledger: {
+      appointment_history: {
         Row: {
+          actor_role: string
+          appointment_id: string | null
+          changed_by: string | null
+          created_at: string
+          donor_id: string
+          from_slot_start: string | null
+          from_status: string | null
+          hospital_id: string
           id: string
-          donor_id: string | null
-          hospital_id: string | null
-          donation_type: string
-          tx_hash: string
-          network: string
-          status: string
-          timestamp: string
+          reason: string | null
+          to_slot_start: string
+          to_status: string
         }
         Insert: {
+          actor_role: string
+          appointment_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          donor_id: string
+          from_slot_start?: string | null
+          from_status?: string | null
+          hospital_id: string
           id?: string
-          donor_id?: string | null
-          hospital_id?: string | null
-          donation_type: string
-          tx_hash: string
-          network?: string
-          status?: string
-          timestamp?: string
+          reason?: string | null
+          to_slot_start: string
+          to_status: string
         }
         Update: {
+          actor_role?: string
+          appointment_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          donor_id?: string
+          from_slot_start?: string | null
+          from_status?: string | null
+          hospital_id?: string
           id?: string
-          donor_id?: string | null
-          hospital_id?: string | null
-          donation_type?: string
-          tx_hash?: string
-          network?: string
-          status?: string
-          timestamp?: string
+          reason?: string | null
+          to_slot_start?: string
+          to_status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_appointment_history_appointment_id"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_appointment_history_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_appointment_history_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      plasma_donations: {
+      appointments: {
         Row: {
-          id: string
+          appointment_date: string
+          appointment_time: string | null
+          chair: number | null
+          created_at: string
           donor_id: string
           hospital_id: string
-          plasma_type: string
-          donation_volume_ml: number
-          extracted_date: string
-          expiry_date: string
-          component_status: string
-          created_at: string
+          ical_sequence: number
+          id: string
+          notes: string | null
+          request_id: string | null
+          slot_end: string
+          slot_start: string
+          status: string
+          updated_at: string
         }
         Insert: {
-          id?: string
+          appointment_date: string
+          appointment_time?: string | null
+          chair?: number | null
+          created_at?: string
           donor_id: string
           hospital_id: string
-          plasma_type: string
-          donation_volume_ml: number
-          extracted_date?: string
-          expiry_date: string
-          component_status?: string
-          created_at?: string
+          ical_sequence?: number
+          id?: string
+          notes?: string | null
+          request_id?: string | null
+          slot_end: string
+          slot_start: string
+          status?: string
+          updated_at?: string
         }
         Update: {
-          id?: string
+          appointment_date?: string
+          appointment_time?: string | null
+          chair?: number | null
+          created_at?: string
           donor_id?: string
           hospital_id?: string
-          plasma_type?: string
-          donation_volume_ml?: number
-          extracted_date?: string
-          expiry_date?: string
-          component_status?: string
-          created_at?: string
+          ical_sequence?: number
+          id?: string
+          notes?: string | null
+          request_id?: string | null
+          slot_end?: string
+          slot_start?: string
+          status?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_appointments_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_appointments_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_appointments_request_id"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      plasma_inventory: {
+      blockchain_ledger: {
         Row: {
-          id: string
+          block_number: number | null
+          created_at: string
+          donation_id: string
+          donor_id: string
+          gas_used: number | null
           hospital_id: string
-          plasma_type: string
-          units: number
+          id: string
+          network: string
+          transaction_hash: string
           updated_at: string
+          verification_status: string
         }
         Insert: {
-          id?: string
+          block_number?: number | null
+          created_at?: string
+          donation_id: string
+          donor_id: string
+          gas_used?: number | null
           hospital_id: string
-          plasma_type: string
-          units?: number
+          id?: string
+          network?: string
+          transaction_hash: string
           updated_at?: string
+          verification_status?: string
         }
         Update: {
-          id?: string
+          block_number?: number | null
+          created_at?: string
+          donation_id?: string
+          donor_id?: string
+          gas_used?: number | null
           hospital_id?: string
-          plasma_type?: string
-          units?: number
+          id?: string
+          network?: string
+          transaction_hash?: string
           updated_at?: string
+          verification_status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_blockchain_ledger_donation_id"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_blockchain_ledger_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_blockchain_ledger_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      plasma_requests: {
+      blood_inventory: {
         Row: {
-          id: string
-          patient_name: string
+          blood_group: string
+          created_at: string
+          expiry_date: string | null
           hospital_id: string
-          diagnosis: string | null
-          plasma_type: string
-          required_units: number
-          urgency: string
+          id: string
           status: string
-          created_at: string
+          units_available: number
+          updated_at: string
         }
         Insert: {
-          id?: string
-          patient_name: string
+          blood_group: string
+          created_at?: string
+          expiry_date?: string | null
           hospital_id: string
-          diagnosis?: string | null
-          plasma_type: string
-          required_units: number
-          urgency?: string
+          id?: string
           status?: string
-          created_at?: string
+          units_available?: number
+          updated_at?: string
         }
         Update: {
-          id?: string
-          patient_name?: string
+          blood_group?: string
+          created_at?: string
+          expiry_date?: string | null
           hospital_id?: string
-          diagnosis?: string | null
-          plasma_type?: string
-          required_units?: number
-          urgency?: string
+          id?: string
           status?: string
-          created_at?: string
+          units_available?: number
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_blood_inventory_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      plasma_therapy_logs: {
+      blood_unit_movements: {
         Row: {
-          id: string
-          plasma_request_id: string
-          donation_id: string | null
-          hospital_id: string
-          status: string
-          notes: string | null
+          actor_role: string
+          blood_unit_id: string
+          changed_by: string | null
           created_at: string
+          from_hospital_id: string | null
+          from_location: string | null
+          from_status: string | null
+          hospital_id: string
+          id: string
+          reason: string | null
+          to_location: string | null
+          to_status: string
         }
         Insert: {
-          id?: string
-          plasma_request_id: string
-          donation_id?: string | null
-          hospital_id: string
-          status?: string
-          notes?: string | null
+          actor_role: string
+          blood_unit_id: string
+          changed_by?: string | null
           created_at?: string
+          from_hospital_id?: string | null
+          from_location?: string | null
+          from_status?: string | null
+          hospital_id: string
+          id?: string
+          reason?: string | null
+          to_location?: string | null
+          to_status: string
         }
         Update: {
-          id?: string
-          plasma_request_id?: string
-          donation_id?: string | null
-          hospital_id?: string
-          status?: string
-          notes?: string | null
+          actor_role?: string
+          blood_unit_id?: string
+          changed_by?: string | null
           created_at?: string
+          from_hospital_id?: string | null
+          from_location?: string | null
+          from_status?: string | null
+          hospital_id?: string
+          id?: string
+          reason?: string | null
+          to_location?: string | null
+          to_status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_blood_unit_movements_blood_unit_id"
+            columns: ["blood_unit_id"]
+            isOneToOne: false
+            referencedRelation: "blood_units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_blood_unit_movements_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      emergency_requests: {
+      blood_units: {
         Row: {
-          additional_details: string | null
-          blood_type: string
-          created_at: string | null
+          bag_number: string
+          blood_group: string
+          collected_at: string
+          component: string
+          created_at: string
+          discard_notes: string | null
+          discard_reason: string | null
+          discarded_at: string | null
+          discarded_by: string | null
+          donation_id: string | null
+          expires_at: string
+          hospital_id: string
           id: string
-          location: string
-          patient_name: string
-          status: string | null
-          units_required: number
-          user_id: string
+          issued_at: string | null
+          issued_request_id: string | null
+          product_code: string | null
+          status: string
+          storage_location: string | null
+          storage_unit_id: string | null
+          updated_at: string
+          version: number
+          volume_ml: number | null
         }
         Insert: {
-          additional_details?: string | null
-          blood_type: string
-          created_at?: string | null
+          bag_number: string
+          blood_group: string
+          collected_at: string
+          component: string
+          created_at?: string
+          discard_notes?: string | null
+          discard_reason?: string | null
+          discarded_at?: string | null
+          discarded_by?: string | null
+          donation_id?: string | null
+          expires_at: string
+          hospital_id: string
           id?: string
-          location: string
-          patient_name: string
-          status?: string | null
-          units_required: number
-          user_id: string
+          issued_at?: string | null
+          issued_request_id?: string | null
+          product_code?: string | null
+          status?: string
+          storage_location?: string | null
+          storage_unit_id?: string | null
+          updated_at?: string
+          version?: number
+          volume_ml?: number | null
         }
         Update: {
-          additional_details?: string | null
-          blood_type?: string
-          created_at?: string | null
+          bag_number?: string
+          blood_group?: string
+          collected_at?: string
+          component?: string
+          created_at?: string
+          discard_notes?: string | null
+          discard_reason?: string | null
+          discarded_at?: string | null
+          discarded_by?: string | null
+          donation_id?: string | null
+          expires_at?: string
+          hospital_id?: string
           id?: string
-          location?: string
-          patient_name?: string
-          status?: string | null
-          units_required?: number
-          user_id?: string
+          issued_at?: string | null
+          issued_request_id?: string | null
+          product_code?: string | null
+          status?: string
+          storage_location?: string | null
+          storage_unit_id?: string | null
+          updated_at?: string
+          version?: number
+          volume_ml?: number | null
         }
-        Relationships: []
-      }
-      hospitals: {
-        Row: {
-          avg_opd_registrations: number | null
-          created_at: string | null
-          district: string
-          email: string
-          government_category: string | null
-          hmis_solution_deployed: boolean | null
-          hospital_address: string
-          hospital_head_name: string | null
-          hospital_name: string
-          hospital_type: string
-          id: string
-          is_mobile_verified: boolean | null
-          is_verified: boolean | null
-          landline_number: string | null
-          mobile_number: string
-          number_of_doctors: number | null
-          registration_status: string | null
-          state: string
-          updated_at: string | null
-          website: string | null
-        }
-        Insert: {
-          avg_opd_registrations?: number | null
-          created_at?: string | null
-          district: string
-          email: string
-          government_category?: string | null
-          hmis_solution_deployed?: boolean | null
-          hospital_address: string
-          hospital_head_name?: string | null
-          hospital_name: string
-          hospital_type: string
-          id?: string
-          is_mobile_verified?: boolean | null
-          is_verified?: boolean | null
-          landline_number?: string | null
-          mobile_number: string
-          number_of_doctors?: number | null
-          registration_status?: string | null
-          state: string
-          updated_at?: string | null
-          website?: string | null
-        }
-        Update: {
-          avg_opd_registrations?: number | null
-          created_at?: string | null
-          district?: string
-          email?: string
-          government_category?: string | null
-          hmis_solution_deployed?: boolean | null
-          hospital_address?: string
-          hospital_head_name?: string | null
-          hospital_name?: string
-          hospital_type?: string
-          id?: string
-          is_mobile_verified?: boolean | null
-          is_verified?: boolean | null
-          landline_number?: string | null
-          mobile_number?: string
-          number_of_doctors?: number | null
-          registration_status?: string | null
-          state?: string
-          updated_at?: string | null
-          website?: string | null
+        Relationships: [
+          {
+            foreignKeyName: "fk_blood_units_donation_id"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_blood_units_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_blood_units_issued_request_id"
+            columns: ["issued_request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_blood_units_storage_unit_id"
+            columns: ["storage_unit_id"]
+            isOneToOne: false
+            referencedRelation: "storage_units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          issued_at: string
+          owner_id: string
+          owner_type: string
+          revoked_at: string | null
+          token_hash: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          issued_at?: string
+          owner_id: string
+          owner_type: string
+          revoked_at?: string | null
+          token_hash?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          issued_at?: string
+          owner_id?: string
+          owner_type?: string
+          revoked_at?: string | null
+          token_hash?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
-      messages: {
+      component_storage_ranges: {
         Row: {
-          content: string | null
-          created_at: string | null
+          component: string
+          max_temp_c: number
+          min_temp_c: number
+          updated_at: string
+        }
+        Insert: {
+          component: string
+          max_temp_c: number
+          min_temp_c: number
+          updated_at?: string
+        }
+        Update: {
+          component?: string
+          max_temp_c?: number
+          min_temp_c?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      donation_intervals: {
+        Row: {
+          annual_cap: number
+          donation_type: string
+          min_days: number
+          sex: string
+        }
+        Insert: {
+          annual_cap: number
+          donation_type: string
+          min_days: number
+          sex: string
+        }
+        Update: {
+          annual_cap?: number
+          donation_type?: string
+          min_days?: number
+          sex?: string
+        }
+        Relationships: []
+      }
+      donation_opening_hours: {
+        Row: {
+          closes_at: string
+          created_at: string
+          hospital_id: string
+          opens_at: string
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string
+          hospital_id: string
+          opens_at: string
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string
+          hospital_id?: string
+          opens_at?: string
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_donation_opening_hours_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "donation_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_schedules: {
+        Row: {
+          chairs: number
+          created_at: string
+          hospital_id: string
+          slot_minutes: number
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          chairs: number
+          created_at?: string
+          hospital_id: string
+          slot_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          chairs?: number
+          created_at?: string
+          hospital_id?: string
+          slot_minutes?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_donation_schedules_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donations: {
+        Row: {
+          blood_group: string
+          created_at: string
+          donation_date: string
+          donation_type: string
+          donor_id: string
+          health_declaration_id: string | null
+          hospital_id: string
           id: string
-          image_url: string | null
-          message_type: string | null
-          read_at: string | null
-          receiver_id: string
-          sender_id: string
+          notes: string | null
+          pledge_id: string | null
+          units_donated: number
+          updated_at: string
+          verification_date: string | null
+          verified: boolean | null
+          verified_by: string | null
         }
         Insert: {
-          content?: string | null
-          created_at?: string | null
+          blood_group: string
+          created_at?: string
+          donation_date?: string
+          donation_type: string
+          donor_id: string
+          health_declaration_id?: string | null
+          hospital_id: string
           id?: string
-          image_url?: string | null
-          message_type?: string | null
-          read_at?: string | null
-          receiver_id: string
-          sender_id: string
+          notes?: string | null
+          pledge_id?: string | null
+          units_donated: number
+          updated_at?: string
+          verification_date?: string | null
+          verified?: boolean | null
+          verified_by?: string | null
         }
         Update: {
-          content?: string | null
-          created_at?: string | null
+          blood_group?: string
+          created_at?: string
+          donation_date?: string
+          donation_type?: string
+          donor_id?: string
+          health_declaration_id?: string | null
+          hospital_id?: string
           id?: string
-          image_url?: string | null
-          message_type?: string | null
-          read_at?: string | null
-          receiver_id?: string
-          sender_id?: string
+          notes?: string | null
+          pledge_id?: string | null
+          units_donated?: number
+          updated_at?: string
+          verification_date?: string | null
+          verified?: boolean | null
+          verified_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "fk_donations_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_donations_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_donations_verified_by"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_donations_pledge_id"
+            columns: ["pledge_id"]
+            isOneToOne: true
+            referencedRelation: "request_pledges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_donations_health_declaration_id"
+            columns: ["health_declaration_id"]
+            isOneToOne: false
+            referencedRelation: "health_declarations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      otp_verifications: {
+      donor_screenings: {
         Row: {
-          attempts: number | null
-          created_at: string | null
-          expires_at: string
-          hospital_id: string | null
+          appointment_id: string
+          created_at: string
+          decision: string
+          deferral_reason: string | null
+          deferred_until: string | null
+          diastolic_bp: number | null
+          donor_id: string
+          hemoglobin_g_dl: number | null
+          hospital_id: string
           id: string
-          is_used: boolean | null
-          otp_code: string
-          phone_number: string
-          purpose: string
-          user_id: string | null
+          notes: string | null
+          pulse_bpm: number | null
+          screened_at: string
+          screened_by: string | null
+          systolic_bp: number | null
+          temperature_c: number | null
+          updated_at: string
+          weight_kg: number | null
         }
         Insert: {
-          attempts?: number | null
-          created_at?: string | null
-          expires_at: string
-          hospital_id?: string | null
+          appointment_id: string
+          created_at?: string
+          decision: string
+          deferral_reason?: string | null
+          deferred_until?: string | null
+          diastolic_bp?: number | null
+          donor_id: string
+          hemoglobin_g_dl?: number | null
+          hospital_id: string
           id?: string
-          is_used?: boolean | null
-          otp_code: string
-          phone_number: string
-          purpose: string
-          user_id?: string | null
+          notes?: string | null
+          pulse_bpm?: number | null
+          screened_at?: string
+          screened_by?: string | null
+          systolic_bp?: number | null
+          temperature_c?: number | null
+          updated_at?: string
+          weight_kg?: number | null
         }
         Update: {
-          attempts?: number | null
-          created_at?: string | null
-          expires_at?: string
-          hospital_id?: string | null
+          appointment_id?: string
+          created_at?: string
+          decision?: string
+          deferral_reason?: string | null
+          deferred_until?: string | null
+          diastolic_bp?: number | null
+          donor_id?: string
+          hemoglobin_g_dl?: number | null
+          hospital_id?: string
           id?: string
-          is_used?: boolean | null
-          otp_code?: string
-          phone_number?: string
-          purpose?: string
-          user_id?: string | null
+          notes?: string | null
+          pulse_bpm?: number | null
+          screened_at?: string
+          screened_by?: string | null
+          systolic_bp?: number | null
+          temperature_c?: number | null
+          updated_at?: string
+          weight_kg?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "otp_verifications_hospital_id_fkey"
+            foreignKeyName: "fk_donor_screenings_appointment_id"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_donor_screenings_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_donor_screenings_hospital_id"
             columns: ["hospital_id"]
             isOneToOne: false
             referencedRelation: "hospitals"
@@ -353,90 +735,1718 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      donors: {
         Row: {
-          address: string | null
-          allergies: string | null
-          avatar_url: string | null
-          backup_codes: string[] | null
-          blood_type: string | null
-          created_at: string | null
-          date_of_birth: string | null
-          email: string | null
-          email_notifications: boolean | null
-          first_name: string | null
+          age: number | null
+          blood_group: string
+          created_at: string
+          email: string
+          gender: string | null
           id: string
           is_available: boolean | null
-          is_mobile_verified: boolean | null
+          is_verified: boolean | null
           last_donation_date: string | null
-          last_name: string | null
-          location_sharing: boolean | null
-          medical_conditions: string | null
-          medications: string | null
+          latitude: number | null
+          location: string | null
+          longitude: number | null
+          name: string
+          next_eligible_date: string | null
           phone: string | null
-          sms_notifications: boolean | null
-          two_factor_enabled: boolean | null
-          updated_at: string | null
+          updated_at: string
         }
         Insert: {
-          address?: string | null
-          allergies?: string | null
-          avatar_url?: string | null
-          backup_codes?: string[] | null
-          blood_type?: string | null
-          created_at?: string | null
-          date_of_birth?: string | null
-          email?: string | null
-          email_notifications?: boolean | null
-          first_name?: string | null
-          id: string
+          age?: number | null
+          blood_group: string
+          created_at?: string
+          email: string
+          gender?: string | null
+          id?: string
           is_available?: boolean | null
-          is_mobile_verified?: boolean | null
+          is_verified?: boolean | null
           last_donation_date?: string | null
-          last_name?: string | null
-          location_sharing?: boolean | null
-          medical_conditions?: string | null
-          medications?: string | null
+          latitude?: number | null
+          location?: string | null
+          longitude?: number | null
+          name: string
+          next_eligible_date?: string | null
           phone?: string | null
-          sms_notifications?: boolean | null
-          two_factor_enabled?: boolean | null
-          updated_at?: string | null
+          updated_at?: string
         }
         Update: {
-          address?: string | null
-          allergies?: string | null
-          avatar_url?: string | null
-          backup_codes?: string[] | null
+          age?: number | null
+          blood_group?: string
+          created_at?: string
+          email?: string
+          gender?: string | null
+          id?: string
+          is_available?: boolean | null
+          is_verified?: boolean | null
+          last_donation_date?: string | null
+          latitude?: number | null
+          location?: string | null
+          longitude?: number | null
+          name?: string
+          next_eligible_date?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      emergency_requests: {
+        Row: {
+          additional_details: string | null
+          blood_type: string
+          created_at: string
+          id: string
+          location: string
+          patient_name: string
+          status: string
+          units_required: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          additional_details?: string | null
+          blood_type: string
+          created_at?: string
+          id?: string
+          location: string
+          patient_name: string
+          status?: string
+          units_required: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          additional_details?: string | null
+          blood_type?: string
+          created_at?: string
+          id?: string
+          location?: string
+          patient_name?: string
+          status?: string
+          units_required?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      health_declarations: {
+        Row: {
+          answers: Json
+          consent_text: string
+          consented_at: string
+          created_at: string
+          donor_id: string
+          eligibility_reason: string | null
+          eligibility_rules_version: string | null
+          eligibility_status: string | null
+          id: string
+          questionnaire_version: string
+        }
+        Insert: {
+          answers: Json
+          consent_text: string
+          consented_at?: string
+          created_at?: string
+          donor_id: string
+          eligibility_reason?: string | null
+          eligibility_rules_version?: string | null
+          eligibility_status?: string | null
+          id?: string
+          questionnaire_version: string
+        }
+        Update: {
+          answers?: Json
+          consent_text?: string
+          consented_at?: string
+          created_at?: string
+          donor_id?: string
+          eligibility_reason?: string | null
+          eligibility_rules_version?: string | null
+          eligibility_status?: string | null
+          id?: string
+          questionnaire_version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_health_declarations_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_activities: {
+        Row: {
+          activity_type: string
+          created_at: string
+          details: Json
+          hospital_id: string | null
+          id: string
+        }
+        Insert: {
+          activity_type: string
+          created_at?: string
+          details?: Json
+          hospital_id?: string | null
+          id?: string
+        }
+        Update: {
+          activity_type?: string
+          created_at?: string
+          details?: Json
+          hospital_id?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_hospital_activities_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_staff: {
+        Row: {
+          created_at: string
+          hospital_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          hospital_id: string
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          hospital_id?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_hospital_staff_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospitals: {
+        Row: {
+          address: string | null
+          city: string | null
+          created_at: string
+          email: string
+          id: string
+          is_active: boolean | null
+          is_verified: boolean | null
+          latitude: number | null
+          longitude: number | null
+          name: string
+          phone: string | null
+          pincode: string | null
+          registration_number: string | null
+          state: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          is_active?: boolean | null
+          is_verified?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          phone?: string | null
+          pincode?: string | null
+          registration_number?: string | null
+          state?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          is_active?: boolean | null
+          is_verified?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          phone?: string | null
+          pincode?: string | null
+          registration_number?: string | null
+          state?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      messages: {
+        Row: {
+          content: string | null
+          created_at: string
+          id: string
+          image_url: string | null
+          message_type: string
+          read_at: string | null
+          receiver_id: string
+          sender_id: string
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          message_type?: string
+          read_at?: string | null
+          receiver_id: string
+          sender_id: string
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          message_type?: string
+          read_at?: string | null
+          receiver_id?: string
+          sender_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          is_read: boolean
+          message: string
+          title: string
+          type: string
+          user_id: string
+          user_type: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          id?: string
+          is_read?: boolean
+          message: string
+          title: string
+          type?: string
+          user_id: string
+          user_type?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          is_read?: boolean
+          message?: string
+          title?: string
+          type?: string
+          user_id?: string
+          user_type?: string
+        }
+        Relationships: []
+      }
+      otp_verifications: {
+        Row: {
+          attempts: number
+          created_at: string
+          email: string | null
+          expires_at: string
+          hospital_id: string | null
+          id: string
+          is_used: boolean
+          otp_code: string
+          phone_number: string | null
+          purpose: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          email?: string | null
+          expires_at: string
+          hospital_id?: string | null
+          id?: string
+          is_used?: boolean
+          otp_code: string
+          phone_number?: string | null
+          purpose: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          hospital_id?: string | null
+          id?: string
+          is_used?: boolean
+          otp_code?: string
+          phone_number?: string | null
+          purpose?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_otp_verifications_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plasma_donations: {
+        Row: {
+          component_status: string
+          created_at: string
+          donation_volume_ml: number
+          donor_id: string
+          expiry_date: string
+          extracted_date: string
+          hospital_id: string | null
+          id: string
+          plasma_type: string
+          updated_at: string
+        }
+        Insert: {
+          component_status?: string
+          created_at?: string
+          donation_volume_ml: number
+          donor_id: string
+          expiry_date: string
+          extracted_date?: string
+          hospital_id?: string | null
+          id?: string
+          plasma_type: string
+          updated_at?: string
+        }
+        Update: {
+          component_status?: string
+          created_at?: string
+          donation_volume_ml?: number
+          donor_id?: string
+          expiry_date?: string
+          extracted_date?: string
+          hospital_id?: string | null
+          id?: string
+          plasma_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_plasma_donations_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_plasma_donations_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plasma_inventory: {
+        Row: {
+          blood_group: string
+          created_at: string
+          expiry_date: string | null
+          hospital_id: string
+          id: string
+          plasma_type: string | null
+          status: string
+          units_available: number
+          updated_at: string
+        }
+        Insert: {
+          blood_group: string
+          created_at?: string
+          expiry_date?: string | null
+          hospital_id: string
+          id?: string
+          plasma_type?: string | null
+          status?: string
+          units_available?: number
+          updated_at?: string
+        }
+        Update: {
+          blood_group?: string
+          created_at?: string
+          expiry_date?: string | null
+          hospital_id?: string
+          id?: string
+          plasma_type?: string | null
+          status?: string
+          units_available?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_plasma_inventory_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plasma_requests: {
+        Row: {
+          created_at: string
+          diagnosis: string | null
+          hospital_id: string | null
+          id: string
+          patient_name: string
+          plasma_type: string
+          required_units: number
+          status: string
+          updated_at: string
+          urgency: string
+        }
+        Insert: {
+          created_at?: string
+          diagnosis?: string | null
+          hospital_id?: string | null
+          id?: string
+          patient_name: string
+          plasma_type: string
+          required_units?: number
+          status?: string
+          updated_at?: string
+          urgency?: string
+        }
+        Update: {
+          created_at?: string
+          diagnosis?: string | null
+          hospital_id?: string | null
+          id?: string
+          patient_name?: string
+          plasma_type?: string
+          required_units?: number
+          status?: string
+          updated_at?: string
+          urgency?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_plasma_requests_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plasma_therapy_logs: {
+        Row: {
+          created_at: string
+          donation_id: string | null
+          hospital_id: string
+          id: string
+          notes: string | null
+          plasma_request_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          donation_id?: string | null
+          hospital_id: string
+          id?: string
+          notes?: string | null
+          plasma_request_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          donation_id?: string | null
+          hospital_id?: string
+          id?: string
+          notes?: string | null
+          plasma_request_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_plasma_therapy_logs_donation_id"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "plasma_donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_plasma_therapy_logs_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_plasma_therapy_logs_plasma_request_id"
+            columns: ["plasma_request_id"]
+            isOneToOne: false
+            referencedRelation: "plasma_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          allergies: string | null
+          avatar_url: string | null
+          backup_codes: string[] | null
+          blood_type: string | null
+          city: string | null
+          created_at: string
+          date_of_birth: string | null
+          deferral_medication: string | null
+          deferral_medication_last_dose: string | null
+          eligibility_checked_at: string | null
+          eligibility_reason: string | null
+          eligibility_rules_version: string | null
+          eligibility_status: string | null
+          eligible_from: string | null
+          email: string | null
+          email_notifications: boolean | null
+          emergency_contact_name: string | null
+          emergency_contact_phone: string | null
+          first_name: string | null
+          has_heart_disease: boolean
+          has_hypertension: boolean
+          has_insulin_diabetes: boolean
+          health_form_completed: boolean
+          height_cm: number | null
+          hemoglobin_g_dl: number | null
+          id: string
+          is_available: boolean | null
+          is_breastfeeding: boolean
+          is_email_verified: boolean | null
+          is_mobile_verified: boolean | null
+          is_pregnant: boolean
+          last_donation_date: string | null
+          last_malaria_travel_date: string | null
+          last_name: string | null
+          last_pregnancy_end_date: string | null
+          last_screened_at: string | null
+          last_surgery_date: string | null
+          last_tattoo_date: string | null
+          last_vaccination_date: string | null
+          last_vaccine: string | null
+          location_sharing: boolean | null
+          medical_conditions: string | null
+          medications: string | null
+          phone: string | null
+          preferred_donation_type: string | null
+          screening_deferral_reason: string | null
+          screening_deferred_until: string | null
+          sex: string | null
+          sms_notifications: boolean | null
+          state: string | null
+          two_factor_enabled: boolean | null
+          updated_at: string
+          weight_kg: number | null
+          zip_code: string | null
+        }
+        Insert: {
+          address?: string | null
+          allergies?: string | null
+          avatar_url?: string | null
+          backup_codes?: string[] | null
+          blood_type?: string | null
+          city?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          deferral_medication?: string | null
+          deferral_medication_last_dose?: string | null
+          eligibility_checked_at?: string | null
+          eligibility_reason?: string | null
+          eligibility_rules_version?: string | null
+          eligibility_status?: string | null
+          eligible_from?: string | null
+          email?: string | null
+          email_notifications?: boolean | null
+          emergency_contact_name?: string | null
+          emergency_contact_phone?: string | null
+          first_name?: string | null
+          has_heart_disease?: boolean
+          has_hypertension?: boolean
+          has_insulin_diabetes?: boolean
+          health_form_completed?: boolean
+          height_cm?: number | null
+          hemoglobin_g_dl?: number | null
+          id: string
+          is_available?: boolean | null
+          is_breastfeeding?: boolean
+          is_email_verified?: boolean | null
+          is_mobile_verified?: boolean | null
+          is_pregnant?: boolean
+          last_donation_date?: string | null
+          last_malaria_travel_date?: string | null
+          last_name?: string | null
+          last_pregnancy_end_date?: string | null
+          last_screened_at?: string | null
+          last_surgery_date?: string | null
+          last_tattoo_date?: string | null
+          last_vaccination_date?: string | null
+          last_vaccine?: string | null
+          location_sharing?: boolean | null
+          medical_conditions?: string | null
+          medications?: string | null
+          phone?: string | null
+          preferred_donation_type?: string | null
+          screening_deferral_reason?: string | null
+          screening_deferred_until?: string | null
+          sex?: string | null
+          sms_notifications?: boolean | null
+          state?: string | null
+          two_factor_enabled?: boolean | null
+          updated_at?: string
+          weight_kg?: number | null
+          zip_code?: string | null
+        }
+        Update: {
+          address?: string | null
+          allergies?: string | null
+          avatar_url?: string | null
+          backup_codes?: string[] | null
           blood_type?: string | null
-          created_at?: string | null
+          city?: string | null
+          created_at?: string
           date_of_birth?: string | null
+          deferral_medication?: string | null
+          deferral_medication_last_dose?: string | null
+          eligibility_checked_at?: string | null
+          eligibility_reason?: string | null
+          eligibility_rules_version?: string | null
+          eligibility_status?: string | null
+          eligible_from?: string | null
           email?: string | null
           email_notifications?: boolean | null
+          emergency_contact_name?: string | null
+          emergency_contact_phone?: string | null
           first_name?: string | null
+          has_heart_disease?: boolean
+          has_hypertension?: boolean
+          has_insulin_diabetes?: boolean
+          health_form_completed?: boolean
+          height_cm?: number | null
+          hemoglobin_g_dl?: number | null
+          id?: string
+          is_available?: boolean | null
+          is_breastfeeding?: boolean
+          is_email_verified?: boolean | null
+          is_mobile_verified?: boolean | null
+          is_pregnant?: boolean
+          last_donation_date?: string | null
+          last_malaria_travel_date?: string | null
+          last_name?: string | null
+          last_pregnancy_end_date?: string | null
+          last_screened_at?: string | null
+          last_surgery_date?: string | null
+          last_tattoo_date?: string | null
+          last_vaccination_date?: string | null
+          last_vaccine?: string | null
+          location_sharing?: boolean | null
+          medical_conditions?: string | null
+          medications?: string | null
+          phone?: string | null
+          preferred_donation_type?: string | null
+          screening_deferral_reason?: string | null
+          screening_deferred_until?: string | null
+          sex?: string | null
+          sms_notifications?: boolean | null
+          state?: string | null
+          two_factor_enabled?: boolean | null
+          updated_at?: string
+          weight_kg?: number | null
+          zip_code?: string | null
+        }
+        Relationships: []
+      }
+      request_deadline_settings: {
+        Row: {
+          emergency_level: string
+          escalate_after: unknown | null
+          expire_after: unknown
+          max_escalations: number
+          updated_at: string
+        }
+        Insert: {
+          emergency_level: string
+          escalate_after?: unknown | null
+          expire_after: unknown
+          max_escalations?: number
+          updated_at?: string
+        }
+        Update: {
+          emergency_level?: string
+          escalate_after?: unknown | null
+          expire_after?: unknown
+          max_escalations?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      request_pledges: {
+        Row: {
+          appointment_id: string | null
+          created_at: string
+          donor_id: string
+          id: string
+          request_id: string
+          status: string
+          units: number
+          updated_at: string
+        }
+        Insert: {
+          appointment_id?: string | null
+          created_at?: string
+          donor_id: string
+          id?: string
+          request_id: string
+          status?: string
+          units?: number
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string | null
+          created_at?: string
+          donor_id?: string
+          id?: string
+          request_id?: string
+          status?: string
+          units?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_request_pledges_appointment_id"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_request_pledges_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_request_pledges_request_id"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_status_history: {
+        Row: {
+          actor_role: string
+          changed_by: string | null
+          created_at: string
+          event: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          request_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_role: string
+          changed_by?: string | null
+          created_at?: string
+          event?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          request_id: string
+          to_status: string
+        }
+        Update: {
+          actor_role?: string
+          changed_by?: string | null
+          created_at?: string
+          event?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          request_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_request_status_history_request_id"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      requests: {
+        Row: {
+          blood_group: string
+          collected_units: number
+          created_at: string
+          donor_id: string | null
+          emergency_level: string
+          escalation_level: number
+          hospital_id: string
+          id: string
+          last_escalated_at: string | null
+          medical_condition: string | null
+          notes: string | null
+          patient_age: number | null
+          patient_name: string | null
+          pledged_units: number
+          request_type: string
+          scheduled_units: number
+          source: string
+          status: string
+          units_required: number
+          updated_at: string
+        }
+        Insert: {
+          blood_group: string
+          collected_units?: number
+          created_at?: string
+          donor_id?: string | null
+          emergency_level?: string
+          escalation_level?: number
+          hospital_id: string
+          id?: string
+          last_escalated_at?: string | null
+          medical_condition?: string | null
+          notes?: string | null
+          patient_age?: number | null
+          patient_name?: string | null
+          pledged_units?: number
+          request_type: string
+          scheduled_units?: number
+          source?: string
+          status?: string
+          units_required: number
+          updated_at?: string
+        }
+        Update: {
+          blood_group?: string
+          collected_units?: number
+          created_at?: string
+          donor_id?: string | null
+          emergency_level?: string
+          escalation_level?: number
+          hospital_id?: string
+          id?: string
+          last_escalated_at?: string | null
+          medical_condition?: string | null
+          notes?: string | null
+          patient_age?: number | null
+          patient_name?: string | null
+          pledged_units?: number
+          request_type?: string
+          scheduled_units?: number
+          source?: string
+          status?: string
+          units_required?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_requests_donor_id"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_requests_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_thresholds: {
+        Row: {
+          blood_group: string
+          created_at: string
+          hospital_id: string
+          min_units: number
+          target_units: number
+          updated_at: string
+        }
+        Insert: {
+          blood_group: string
+          created_at?: string
+          hospital_id: string
+          min_units: number
+          target_units: number
+          updated_at?: string
+        }
+        Update: {
+          blood_group?: string
+          created_at?: string
+          hospital_id?: string
+          min_units?: number
+          target_units?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_stock_thresholds_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_history: {
+        Row: {
+          actor_role: string
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          reason: string | null
+          to_status: string
+          transfer_id: string
+          unit_ids: string[]
+        }
+        Insert: {
+          actor_role: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status: string
+          transfer_id: string
+          unit_ids?: string[]
+        }
+        Update: {
+          actor_role?: string
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          reason?: string | null
+          to_status?: string
+          transfer_id?: string
+          unit_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_stock_transfer_history_transfer_id"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_units: {
+        Row: {
+          blood_unit_id: string
+          created_at: string
+          transfer_id: string
+        }
+        Insert: {
+          blood_unit_id: string
+          created_at?: string
+          transfer_id: string
+        }
+        Update: {
+          blood_unit_id?: string
+          created_at?: string
+          transfer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_stock_transfer_units_blood_unit_id"
+            columns: ["blood_unit_id"]
+            isOneToOne: false
+            referencedRelation: "blood_units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_stock_transfer_units_transfer_id"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          approved_at: string | null
+          blood_group: string
+          component: string
+          created_at: string
+          dispatched_at: string | null
+          id: string
+          notes: string | null
+          received_at: string | null
+          requested_by: string | null
+          requesting_hospital_id: string
+          status: string
+          supplying_hospital_id: string
+          units_requested: number
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          blood_group: string
+          component?: string
+          created_at?: string
+          dispatched_at?: string | null
           id?: string
-          is_available?: boolean | null
-          is_mobile_verified?: boolean | null
-          last_donation_date?: string | null
-          last_name?: string | null
-          location_sharing?: boolean | null
-          medical_conditions?: string | null
-          medications?: string | null
-          phone?: string | null
-          sms_notifications?: boolean | null
-          two_factor_enabled?: boolean | null
-          updated_at?: string | null
+          notes?: string | null
+          received_at?: string | null
+          requested_by?: string | null
+          requesting_hospital_id: string
+          status?: string
+          supplying_hospital_id: string
+          units_requested: number
+          updated_at?: string
         }
-        Relationships: []
+        Update: {
+          approved_at?: string | null
+          blood_group?: string
+          component?: string
+          created_at?: string
+          dispatched_at?: string | null
+          id?: string
+          notes?: string | null
+          received_at?: string | null
+          requested_by?: string | null
+          requesting_hospital_id?: string
+          status?: string
+          supplying_hospital_id?: string
+          units_requested?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_stock_transfers_requesting_hospital_id"
+            columns: ["requesting_hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_stock_transfers_supplying_hospital_id"
+            columns: ["supplying_hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      storage_units: {
+        Row: {
+          created_at: string
+          device_key_hash: string | null
+          hospital_id: string
+          id: string
+          is_active: boolean
+          kind: string
+          location: string | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          device_key_hash?: string | null
+          hospital_id: string
+          id?: string
+          is_active?: boolean
+          kind: string
+          location?: string | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          device_key_hash?: string | null
+          hospital_id?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          location?: string | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_storage_units_hospital_id"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      temperature_excursion_units: {
+        Row: {
+          blood_unit_id: string
+          excursion_id: string
+        }
+        Insert: {
+          blood_unit_id: string
+          excursion_id: string
+        }
+        Update: {
+          blood_unit_id?: string
+          excursion_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_temperature_excursion_units_blood_unit_id"
+            columns: ["blood_unit_id"]
+            isOneToOne: false
+            referencedRelation: "blood_units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_temperature_excursion_units_excursion_id"
+            columns: ["excursion_id"]
+            isOneToOne: false
+            referencedRelation: "temperature_excursions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      temperature_excursions: {
+        Row: {
+          component: string
+          created_at: string
+          ended_at: string | null
+          highest_temp_c: number
+          id: string
+          lowest_temp_c: number
+          max_temp_c: number
+          min_temp_c: number
+          started_at: string
+          storage_unit_id: string
+          updated_at: string
+        }
+        Insert: {
+          component: string
+          created_at?: string
+          ended_at?: string | null
+          highest_temp_c: number
+          id?: string
+          lowest_temp_c: number
+          max_temp_c: number
+          min_temp_c: number
+          started_at: string
+          storage_unit_id: string
+          updated_at?: string
+        }
+        Update: {
+          component?: string
+          created_at?: string
+          ended_at?: string | null
+          highest_temp_c?: number
+          id?: string
+          lowest_temp_c?: number
+          max_temp_c?: number
+          min_temp_c?: number
+          started_at?: string
+          storage_unit_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_temperature_excursions_storage_unit_id"
+            columns: ["storage_unit_id"]
+            isOneToOne: false
+            referencedRelation: "storage_units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      temperature_readings: {
+        Row: {
+          created_at: string
+          id: string
+          recorded_at: string
+          source: string
+          storage_unit_id: string
+          temperature_c: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          recorded_at: string
+          source: string
+          storage_unit_id: string
+          temperature_c: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          recorded_at?: string
+          source?: string
+          storage_unit_id?: string
+          temperature_c?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_temperature_readings_storage_unit_id"
+            columns: ["storage_unit_id"]
+            isOneToOne: false
+            referencedRelation: "storage_units"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      adjust_blood_unit: {
+        Args: {
+          p_blood_unit_id: string
+          p_changes: Json
+          p_expected_version: number
+          p_reason: string
+        }
+        Returns: {
+          bag_number: string
+          blood_group: string
+          collected_at: string
+          component: string
+          created_at: string
+          discard_notes: string | null
+          discard_reason: string | null
+          discarded_at: string | null
+          discarded_by: string | null
+          donation_id: string | null
+          expires_at: string
+          hospital_id: string
+          id: string
+          issued_at: string | null
+          issued_request_id: string | null
+          product_code: string | null
+          status: string
+          storage_location: string | null
+          storage_unit_id: string | null
+          updated_at: string
+          version: number
+          volume_ml: number | null
+        }
+      }
+      appointment_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      blood_unit_location: {
+        Args: { p_storage_location: string; p_storage_unit_id: string }
+        Returns: string
+      }
+      book_appointment: {
+        Args: {
+          p_donor_id?: string
+          p_hospital_id: string
+          p_notes?: string
+          p_request_id?: string
+          p_slot_start: string
+        }
+        Returns: {
+          appointment_date: string
+          appointment_time: string | null
+          chair: number | null
+          created_at: string
+          donor_id: string
+          hospital_id: string
+          ical_sequence: number
+          id: string
+          notes: string | null
+          request_id: string | null
+          slot_end: string
+          slot_start: string
+          status: string
+          updated_at: string
+        }
+      }
+      calendar_feed: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      can_manage_calendar_feed: {
+        Args: { p_owner_id: string; p_owner_type: string }
+        Returns: boolean
+      }
       cleanup_expired_otps: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      compatible_donor_groups: {
+        Args: { p_recipient: string; p_request_type?: string }
+        Returns: string[]
+      }
+      component_bag_suffix: {
+        Args: { p_component: string }
+        Returns: string
+      }
+      component_shelf_life: {
+        Args: { p_component: string }
+        Returns: unknown
+      }
+      delete_user: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      donation_interval: {
+        Args: { p_sex: string; p_type: string }
+        Returns: {
+          annual_cap: number
+          min_days: number
+        }[]
+      }
+      donor_next_eligible_date: {
+        Args: { p_donor_id: string; p_type?: string }
+        Returns: string
+      }
+      donor_reliability: {
+        Args: { p_donor_ids: string[] }
+        Returns: {
+          appointments_kept: number
+          appointments_missed: number
+          donor_id: string
+          requests_accepted: number
+          requests_notified: number
+        }[]
+      }
+      donor_sex: {
+        Args: { p_donor_id: string }
+        Returns: string
+      }
+      expire_blood_units: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      find_blood_stock: {
+        Args: { p_blood_group: string; p_component?: string; p_min_units?: number }
+        Returns: {
+          city: string
+          hospital_id: string
+          latitude: number
+          longitude: number
+          name: string
+          phone: string
+          units_available: number
+        }[]
+      }
+      health_declaration_at: {
+        Args: { p_at?: string; p_donor_id: string }
+        Returns: {
+          answers: Json
+          consent_text: string
+          consented_at: string
+          created_at: string
+          donor_id: string
+          eligibility_reason: string | null
+          eligibility_rules_version: string | null
+          eligibility_status: string | null
+          id: string
+          questionnaire_version: string
+        }[]
+      }
+      ical_fold: {
+        Args: { p_line: string }
+        Returns: string
+      }
+      ical_text: {
+        Args: { p_value: string }
+        Returns: string
+      }
+      ical_utc: {
+        Args: { p_at: string }
+        Returns: string
+      }
+      ingest_temperature_readings: {
+        Args: { p_device_key: string; p_readings: Json }
+        Returns: number
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_donor: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_hospital_member: {
+        Args: { p_hospital_id: string }
+        Returns: boolean
+      }
+      is_hospital_user: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      issue_calendar_feed: {
+        Args: { p_owner_id: string; p_owner_type: string }
+        Returns: string
+      }
+      issue_blood_units: {
+        Args: {
+          p_blood_group: string
+          p_component: string
+          p_hospital_id: string
+          p_request_id?: string
+          p_units: number
+        }
+        Returns: {
+          bag_number: string
+          blood_group: string
+          collected_at: string
+          component: string
+          created_at: string
+          discard_notes: string | null
+          discard_reason: string | null
+          discarded_at: string | null
+          discarded_by: string | null
+          donation_id: string | null
+          expires_at: string
+          hospital_id: string
+          id: string
+          issued_at: string | null
+          issued_request_id: string | null
+          product_code: string | null
+          status: string
+          storage_location: string | null
+          storage_unit_id: string | null
+          updated_at: string
+          version: number
+          volume_ml: number | null
+        }[]
+      }
+      list_appointment_slots: {
+        Args: { p_days?: number; p_from: string; p_hospital_id: string }
+        Returns: {
+          booked: number
+          chairs: number
+          slot_end: string
+          slot_start: string
+        }[]
+      }
+      pledge_to_request: {
+        Args: {
+          p_appointment_id?: string
+          p_donor_id?: string
+          p_request_id: string
+          p_units?: number
+        }
+        Returns: {
+          appointment_id: string | null
+          created_at: string
+          donor_id: string
+          id: string
+          request_id: string
+          status: string
+          units: number
+          updated_at: string
+        }
+      }
+      pledge_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      process_stale_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          action: string
+          detail: string
+          request_id: string
+        }[]
+      }
+      record_temperature_readings: {
+        Args: { p_readings: Json; p_source?: string; p_storage_unit_id: string }
+        Returns: number
+      }
+      request_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      reschedule_appointment: {
+        Args: {
+          p_appointment_id: string
+          p_reason: string
+          p_slot_start: string
+        }
+        Returns: {
+          appointment_date: string
+          appointment_time: string | null
+          chair: number | null
+          created_at: string
+          donor_id: string
+          hospital_id: string
+          ical_sequence: number
+          id: string
+          notes: string | null
+          request_id: string | null
+          slot_end: string
+          slot_start: string
+          status: string
+          updated_at: string
+        }
+      }
+      revoke_calendar_feed: {
+        Args: { p_owner_id: string; p_owner_type: string }
+        Returns: undefined
+      }
+      rotate_storage_unit_key: {
+        Args: { p_storage_unit_id: string }
+        Returns: string
+      }
+      separate_donation: {
+        Args: {
+          p_components?: string[]
+          p_donation_id: string
+          p_storage_locations?: Json
+        }
+        Returns: {
+          bag_number: string
+          blood_group: string
+          collected_at: string
+          component: string
+          created_at: string
+          discard_notes: string | null
+          discard_reason: string | null
+          discarded_at: string | null
+          discarded_by: string | null
+          donation_id: string | null
+          expires_at: string
+          hospital_id: string
+          id: string
+          issued_at: string | null
+          issued_request_id: string | null
+          product_code: string | null
+          status: string
+          storage_location: string | null
+          storage_unit_id: string | null
+          updated_at: string
+          version: number
+          volume_ml: number | null
+        }[]
+      }
+      set_donor_cooldown: {
+        Args: { p_type: string; p_user_id: string }
+        Returns: string
+      }
+      stock_transfer_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      transition_appointment: {
+        Args: {
+          p_appointment_id: string
+          p_reason?: string
+          p_status: string
+        }
+        Returns: {
+          appointment_date: string
+          appointment_time: string | null
+          chair: number | null
+          created_at: string
+          donor_id: string
+          hospital_id: string
+          ical_sequence: number
+          id: string
+          notes: string | null
+          request_id: string | null
+          slot_end: string
+          slot_start: string
+          status: string
+          updated_at: string
+        }
+      }
+      transition_request: {
+        Args: {
+          p_donor_id?: string
+          p_reason?: string
+          p_request_id: string
+          p_status: string
+        }
+        Returns: {
+          blood_group: string
+          collected_units: number
+          created_at: string
+          donor_id: string | null
+          emergency_level: string
+          escalation_level: number
+          hospital_id: string
+          id: string
+          last_escalated_at: string | null
+          medical_condition: string | null
+          notes: string | null
+          patient_age: number | null
+          patient_name: string | null
+          pledged_units: number
+          request_type: string
+          scheduled_units: number
+          source: string
+          status: string
+          units_required: number
+          updated_at: string
+        }
+      }
+      transition_stock_transfer: {
+        Args: {
+          p_reason?: string
+          p_status: string
+          p_transfer_id: string
+          p_unit_ids?: string[]
+        }
+        Returns: {
+          approved_at: string | null
+          blood_group: string
+          component: string
+          created_at: string
+          dispatched_at: string | null
+          id: string
+          notes: string | null
+          received_at: string | null
+          requested_by: string | null
+          requesting_hospital_id: string
+          status: string
+          supplying_hospital_id: string
+          units_requested: number
+          updated_at: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,42 +1,70 @@
-import { supabase } from "@/integrations/supabase/client";
-import { addDays } from "date-fns";
+import * as repository from "@/lib/repository";
+import type { AppointmentRow, AppointmentStatus } from "@/lib/repository";
 
-export async function createAppointment(params: {
+// Mirrors appointment_transition_allowed() and the checks in
+// transition_appointment() in
+// supabase/migrations/20250210000000-appointment-changes.sql.
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  scheduled: ['confirmed', 'completed', 'cancelled', 'no_show'],
+  confirmed: ['completed', 'cancelled', 'no_show'],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+export function canTransitionAppointment(from: string, to: AppointmentStatus): boolean {
+  return (APPOINTMENT_TRANSITIONS[from as AppointmentStatus] ?? []).includes(to);
+}
+
+/** Open appointments hold a chair; they can still be moved or cancelled until they start. */
+export function isOpenAppointment(appointment: Pick<AppointmentRow, 'status'>): boolean {
+  return appointment.status === 'scheduled' || appointment.status === 'confirmed';
+}
+
+export function hasAppointmentStarted(appointment: Pick<AppointmentRow, 'slot_start'>, now = new Date()): boolean {
+  return new Date(appointment.slot_start) <= now;
+}
+
+/** Donors may move or cancel an open appointment until it starts. */
+export function canDonorChangeAppointment(appointment: Pick<AppointmentRow, 'status' | 'slot_start'>): boolean {
+  return isOpenAppointment(appointment) && !hasAppointmentStarted(appointment);
+}
+
+/** Hospitals mark a no-show once the slot has started. */
+export function canMarkNoShow(appointment: Pick<AppointmentRow, 'status' | 'slot_start'>): boolean {
+  return canTransitionAppointment(appointment.status, 'no_show') && hasAppointmentStarted(appointment);
+}
+
+// Only slots from listAppointmentSlots() can be booked; a full slot is
+// rejected (see supabase/migrations/20250208000000-appointment-slots.sql)
+export async function bookAppointment(params: {
   donorId: string;
   hospitalId: string;
+  slotStart: string;
   requestId?: string;
-  donationType: 'blood' | 'plasma';
-  appointmentDate?: string;
 }) {
-  const { error } = await supabase.from('appointments').insert({
+  return repository.bookAppointment({
     donor_id: params.donorId,
     hospital_id: params.hospitalId,
+    slot_start: params.slotStart,
     request_id: params.requestId ?? null,
-    donation_type: params.donationType,
-    appointment_date: params.appointmentDate ?? new Date().toISOString(),
-    status: 'pending',
   });
-  if (error) throw error;
 }
 
-export async function acceptAppointment(params: { appointmentId: string; donorId: string; donationType: 'blood' | 'plasma' }) {
-  // mark appointment accepted
-  const { error } = await supabase.from('appointments').update({ status: 'accepted' }).eq('id', params.appointmentId);
-  if (error) throw error;
-
-  // apply 3-month cooldown
-  const nextEligible = addDays(new Date(), 90);
-  const { error: profErr } = await supabase.from('profiles').update({
-    next_eligible_date: nextEligible.toISOString(),
-    donation_type: params.donationType,
-    last_donation_date: new Date().toISOString(),
-  }).eq('id', params.donorId);
-  if (profErr) throw profErr;
+// Confirming is not donating: the cooldown starts when the donation is
+// recorded (see supabase/migrations/20250128000000-donation-cooldowns.sql)
+export async function acceptAppointment(params: { appointmentId: string }) {
+  await repository.updateAppointment(params.appointmentId, { status: 'confirmed' });
 }
 
 export async function listHospitalAppointments(hospitalId: string) {
-  const { data, error } = await supabase.from('appointments').select('*').eq('hospital_id', hospitalId).order('created_at', { ascending: false });
-  if (error) throw error;
-  return data || [];
+  return repository.listAppointments({ hospitalId });
 }
-
@@ -1,5 +1,5 @@
 import { recordDonationOnPolygon, DonationRecord } from "@/integrations/blockchain/polygon";
-import { supabase } from "@/integrations/supabase/client";
+import { createLedgerEntry } from "@/lib/repository";
 
 export async function verifyDonationOnChain(
   record: DonationRecord,
@@ -9,15 +9,16 @@ export async function verifyDonationOnChain(
   }: { rpcUrl: string; privateKey: string }
 ): Promise<string> {
   const txHash = await recordDonationOnPolygon(rpcUrl, privateKey, record);
-  await supabase.from("blockchain_ledger").insert({
-    donor_id: record.donorId,
-    hospital_id: record.hospitalId,
-    donation_type: record.donationType,
-    tx_hash: txHash,
-    network: "polygon",
-    status: record.status || "recorded",
-  });
+  // The ledger row references a concrete donation, so only persist when one is known.
+  if (record.donationId && record.donorId && record.hospitalId) {
+    await createLedgerEntry({
+      donation_id: record.donationId,
+      donor_id: record.donorId,
+      hospital_id: record.hospitalId,
+      transaction_hash: txHash,
+      network: "polygon",
+      verification_status: "pending",
+    });
+  }
   return txHash;
 }
-
-
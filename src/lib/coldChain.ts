@@ -0,0 +1,103 @@
+import { isValid, parse, parseISO } from "date-fns";
+import type { BloodComponent, StorageUnitKind } from "@/lib/repository";
+
+// Storage temperature limits per component and the parsing of logger CSV
+// exports. Excursions themselves are detected in the database by
+// detect_temperature_excursion() in
+// supabase/migrations/20250205000000-cold-chain.sql, which reads the same
+// limits from component_storage_ranges; keep the two in sync.
+
+export interface TemperatureRange {
+  min: number;
+  max: number;
+}
+
+/** Allowed storage range in °C. Plasma is frozen storage, platelets are kept agitated at room temperature. */
+export const COMPONENT_STORAGE_RANGES: Record<BloodComponent, TemperatureRange> = {
+  red_cells: { min: 2, max: 6 },
+  whole_blood: { min: 2, max: 6 },
+  plasma: { min: -90, max: -18 },
+  platelets: { min: 20, max: 24 },
+};
+
+export const STORAGE_UNIT_KIND_LABELS: Record<StorageUnitKind, string> = {
+  refrigerator: 'Refrigerator',
+  freezer: 'Freezer',
+  platelet_incubator: 'Platelet incubator',
+};
+
+/** The range a kind of unit is run at, for charts of units that hold nothing yet. */
+export const STORAGE_UNIT_KIND_RANGES: Record<StorageUnitKind, TemperatureRange> = {
+  refrigerator: COMPONENT_STORAGE_RANGES.red_cells,
+  freezer: COMPONENT_STORAGE_RANGES.plasma,
+  platelet_incubator: COMPONENT_STORAGE_RANGES.platelets,
+};
+
+export const isWithinRange = (temperature: number, range: TemperatureRange) =>
+  temperature >= range.min && temperature <= range.max;
+
+export interface ParsedReading {
+  recorded_at: string;
+  temperature_c: number;
+}
+
+export interface TemperatureCsvResult {
+  readings: ParsedReading[];
+  /** One message per line that could not be read, with its line number. */
+  errors: string[];
+}
+
+const TIME_HEADERS = ['recorded_at', 'timestamp', 'time', 'datetime', 'date'];
+const TEMPERATURE_HEADERS = ['temperature_c', 'temperature', 'temp', 'temp_c', 'value'];
+const LOCAL_FORMATS = ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm', 'dd/MM/yyyy HH:mm:ss', 'dd/MM/yyyy HH:mm'];
+
+const parseTime = (text: string): Date | null => {
+  const iso = parseISO(text);
+  if (isValid(iso)) return iso;
+  for (const pattern of LOCAL_FORMATS) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  return null;
+};
+
+/**
+ * Reads a logger export with a header row naming a time column and a
+ * temperature column (in °C), in any order and separated by commas or
+ * semicolons. Times without an offset are taken as local time. Readings
+ * come back sorted by time.
+ */
+export function parseTemperatureCsv(text: string): TemperatureCsvResult {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex < 0) return { readings: [], errors: ['The file is empty'] };
+
+  const separator = lines[headerIndex].includes(';') ? ';' : ',';
+  const split = (line: string) => line.split(separator).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+  const headers = split(lines[headerIndex]).map((header) => header.toLowerCase().replace(/\s*\(°?c\)$/, '').replace(/\s+/g, '_'));
+  const timeColumn = headers.findIndex((header) => TIME_HEADERS.includes(header));
+  const temperatureColumn = headers.findIndex((header) => TEMPERATURE_HEADERS.includes(header));
+  if (timeColumn < 0 || temperatureColumn < 0) {
+    return { readings: [], errors: ['The header needs a time column and a temperature column'] };
+  }
+
+  const readings: ParsedReading[] = [];
+  const errors: string[] = [];
+  lines.slice(headerIndex + 1).forEach((line, i) => {
+    if (line.trim() === '') return;
+    const cells = split(line);
+    const lineNumber = headerIndex + i + 2;
+    const at = parseTime(cells[timeColumn] ?? '');
+    const temperature = Number((cells[temperatureColumn] ?? '').replace(',', '.'));
+    if (!at) {
+      errors.push(`Line ${lineNumber}: '${cells[timeColumn] ?? ''}' is not a time`);
+    } else if (cells[temperatureColumn] === undefined || cells[temperatureColumn] === '' || !Number.isFinite(temperature)) {
+      errors.push(`Line ${lineNumber}: '${cells[temperatureColumn] ?? ''}' is not a temperature`);
+    } else {
+      readings.push({ recorded_at: at.toISOString(), temperature_c: temperature });
+    }
+  });
+
+  readings.sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+  return { readings, errors };
+}
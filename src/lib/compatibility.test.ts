@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  canDonate,
+  compatibleDonorGroups,
+  compatibleRecipientGroups,
+  matchQuality,
+  rankCompatibleDonors,
+  type CompatibilityOptions,
+} from "./compatibility";
+import type { BloodGroup } from "@/lib/repository";
+
+const EVERY_GROUP = ['A+', 'A-', 'AB+', 'AB-', 'B+', 'B-', 'O+', 'O-'];
+
+const donorGroups = (recipient: BloodGroup, options?: CompatibilityOptions) =>
+  [...compatibleDonorGroups(recipient, options)].sort();
+
+// The same table as supabase/tests/database/blood_compatibility.test.sql
+describe('compatibleDonorGroups under the strict Rh policy', () => {
+  it.each<[BloodGroup, CompatibilityOptions, string[]]>([
+    ['A+', { component: 'red_cells' }, ['A+', 'A-', 'O+', 'O-']],
+    ['AB+', { component: 'red_cells' }, EVERY_GROUP],
+    ['O-', { component: 'red_cells' }, ['O-']],
+    ['B-', {}, ['B-', 'O-']],
+    ['O-', { component: 'plasma' }, EVERY_GROUP],
+    ['A+', { component: 'plasma' }, ['A+', 'A-', 'AB+', 'AB-']],
+    ['AB-', { component: 'plasma' }, ['AB+', 'AB-']],
+    ['A+', { component: 'whole_blood' }, ['A+', 'A-']],
+    ['AB-', { component: 'whole_blood' }, ['AB-']],
+    ['AB+', { component: 'platelets' }, EVERY_GROUP],
+    ['B-', { component: 'platelets' }, ['A-', 'AB-', 'B-', 'O-']],
+  ])('%s %o', (recipient, options, expected) => {
+    expect(donorGroups(recipient, options)).toEqual(expected);
+  });
+
+  it('lists the best match first', () => {
+    expect(compatibleDonorGroups('A+')[0]).toBe('A+');
+    expect(compatibleDonorGroups('A+', { component: 'plasma' })[0]).toBe('A+');
+  });
+});
+
+describe('matchQuality', () => {
+  it('treats plasma of the same ABO group as identical whatever the Rh', () => {
+    expect(matchQuality('A-', 'A+', { component: 'plasma' })).toBe('identical');
+    expect(matchQuality('AB+', 'O-', { component: 'plasma' })).toBe('compatible');
+    expect(matchQuality('O+', 'A+', { component: 'plasma' })).toBe('incompatible');
+  });
+
+  it('ranks platelets across ABO below plasma-compatible ones', () => {
+    expect(matchQuality('A+', 'A+', { component: 'platelets' })).toBe('identical');
+    expect(matchQuality('AB+', 'A+', { component: 'platelets' })).toBe('compatible');
+    expect(matchQuality('O+', 'A+', { component: 'platelets' })).toBe('abo_mismatch');
+  });
+
+  it('only offers Rh-positive cells to an Rh-negative patient in an emergency', () => {
+    expect(matchQuality('O+', 'O-')).toBe('incompatible');
+    expect(matchQuality('O+', 'O-', { rhPolicy: 'emergency' })).toBe('rh_substitution');
+    expect(matchQuality('B+', 'O-', { rhPolicy: 'emergency' })).toBe('incompatible');
+    expect(canDonate('A+', 'A-', { rhPolicy: 'emergency' })).toBe(true);
+  });
+});
+
+describe('compatibleDonorGroups ranking', () => {
+  it('puts Rh substitutions last', () => {
+    expect(compatibleDonorGroups('A-', { rhPolicy: 'emergency' })).toEqual(['A-', 'O-', 'A+', 'O+']);
+  });
+
+  it('puts platelet ABO mismatches after plasma-compatible groups', () => {
+    expect(compatibleDonorGroups('A+', { component: 'platelets' })).toEqual(
+      ['A+', 'A-', 'AB+', 'AB-', 'B+', 'B-', 'O+', 'O-'],
+    );
+  });
+});
+
+describe('compatibleRecipientGroups', () => {
+  it('lets O- red cells and AB plasma go to everyone', () => {
+    expect([...compatibleRecipientGroups('O-')].sort()).toEqual(EVERY_GROUP);
+    expect([...compatibleRecipientGroups('AB-', { component: 'plasma' })].sort()).toEqual(EVERY_GROUP);
+  });
+});
+
+describe('rankCompatibleDonors', () => {
+  const donors = [
+    { name: 'Rh substitute', group: 'O+' },
+    { name: 'Unknown group', group: 'unknown' },
+    { name: 'Universal', group: 'O-' },
+    { name: 'Incompatible', group: 'B-' },
+    { name: 'Exact', group: 'A-' },
+    { name: 'Second universal', group: 'O-' },
+  ];
+
+  it('drops incompatible donors and orders the rest best first', () => {
+    const ranked = rankCompatibleDonors(donors, 'A-', (d) => d.group, { rhPolicy: 'emergency' });
+    expect(ranked.map(({ donor, match }) => [donor.name, match])).toEqual([
+      ['Exact', 'identical'],
+      ['Universal', 'compatible'],
+      ['Second universal', 'compatible'],
+      ['Rh substitute', 'rh_substitution'],
+    ]);
+  });
+
+  it('leaves out Rh substitutes under the strict policy', () => {
+    const ranked = rankCompatibleDonors(donors, 'A-', (d) => d.group);
+    expect(ranked.map(({ donor }) => donor.name)).toEqual(['Exact', 'Universal', 'Second universal']);
+  });
+});
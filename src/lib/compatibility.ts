@@ -0,0 +1,146 @@
+import { BLOOD_GROUPS, type BloodComponent, type BloodGroup, type RequestType } from "@/lib/repository";
+
+// Donor/recipient compatibility for each blood component. The same rules are
+// in compatible_donor_groups() in
+// supabase/migrations/20250124000000-request-expiry-escalation.sql, which the
+// escalation job uses to widen a donor search; keep the two in sync. The SQL
+// only knows the strict Rh policy and returns groups unranked. Both copies
+// are tested against the same table (compatibility.test.ts and
+// supabase/tests/database/blood_compatibility.test.sql).
+
+export { BLOOD_COMPONENTS, type BloodComponent } from "@/lib/repository";
+
+/**
+ * What to do when an Rh-negative patient needs a component that carries Rh
+ * antigen (everything except plasma):
+ *   strict    - only Rh-negative donors
+ *   emergency - Rh-positive donors are acceptable as a last resort, e.g. for
+ *               adult males during a shortage; such matches are reported as
+ *               'rh_substitution' so they sort last and can be flagged
+ */
+export const RH_POLICIES = ['strict', 'emergency'] as const;
+export type RhPolicy = typeof RH_POLICIES[number];
+
+/**
+ * Best first. 'abo_mismatch' only arises for platelets, which may be given
+ * across ABO when nothing better is available.
+ */
+export type MatchQuality = 'identical' | 'compatible' | 'abo_mismatch' | 'rh_substitution' | 'incompatible';
+
+export interface CompatibilityOptions {
+  component?: BloodComponent;
+  rhPolicy?: RhPolicy;
+}
+
+type Abo = 'O' | 'A' | 'B' | 'AB';
+
+const MATCH_RANK: Record<MatchQuality, number> = {
+  identical: 0,
+  compatible: 1,
+  abo_mismatch: 2,
+  rh_substitution: 3,
+  incompatible: 4,
+};
+
+const abo = (group: BloodGroup) => group.slice(0, -1) as Abo;
+const isRhNegative = (group: BloodGroup) => group.endsWith('-');
+
+// Red cells carry A/B antigens, so the donor may not have any the patient lacks
+const redCellAboCompatible = (donor: Abo, recipient: Abo) =>
+  donor === 'O' || donor === recipient || recipient === 'AB';
+
+// Plasma carries anti-A/anti-B, so the rule runs the other way and AB gives to everyone
+const plasmaAboCompatible = (donor: Abo, recipient: Abo) =>
+  donor === 'AB' || donor === recipient || recipient === 'O';
+
+function aboCompatible(donor: Abo, recipient: Abo, component: BloodComponent): boolean {
+  switch (component) {
+    case 'whole_blood':
+      return donor === recipient;
+    case 'plasma':
+      return plasmaAboCompatible(donor, recipient);
+    case 'platelets':
+      // Platelets are routinely given across ABO; identical is preferred (see matchQuality)
+      return true;
+    case 'red_cells':
+    default:
+      return redCellAboCompatible(donor, recipient);
+  }
+}
+
+export function isBloodGroup(value: string): value is BloodGroup {
+  return (BLOOD_GROUPS as readonly string[]).includes(value);
+}
+
+/** The component a request asks for when it has no finer breakdown. */
+export function componentForRequest(requestType: RequestType | string): BloodComponent {
+  return requestType === 'plasma' ? 'plasma' : 'red_cells';
+}
+
+export function matchQuality(donor: BloodGroup, recipient: BloodGroup, options: CompatibilityOptions = {}): MatchQuality {
+  const { component = 'red_cells', rhPolicy = 'strict' } = options;
+
+  if (!aboCompatible(abo(donor), abo(recipient), component)) return 'incompatible';
+
+  if (component !== 'plasma' && isRhNegative(recipient) && !isRhNegative(donor)) {
+    return rhPolicy === 'emergency' ? 'rh_substitution' : 'incompatible';
+  }
+
+  if (donor === recipient || (component === 'plasma' && abo(donor) === abo(recipient))) return 'identical';
+
+  // Platelets are suspended in plasma, so a plasma-compatible unit is the next best thing
+  if (component === 'platelets' && !plasmaAboCompatible(abo(donor), abo(recipient))) return 'abo_mismatch';
+
+  return 'compatible';
+}
+
+export function canDonate(donor: BloodGroup, recipient: BloodGroup, options: CompatibilityOptions = {}): boolean {
+  return matchQuality(donor, recipient, options) !== 'incompatible';
+}
+
+/** Donor groups that can give to `recipient`, best match first. */
+export function compatibleDonorGroups(recipient: BloodGroup, options: CompatibilityOptions = {}): BloodGroup[] {
+  return BLOOD_GROUPS
+    .filter((donor) => canDonate(donor, recipient, options))
+    .sort((a, b) => MATCH_RANK[matchQuality(a, recipient, options)] - MATCH_RANK[matchQuality(b, recipient, options)]);
+}
+
+/** Recipient groups that can receive from `donor`. */
+export function compatibleRecipientGroups(donor: BloodGroup, options: CompatibilityOptions = {}): BloodGroup[] {
+  return BLOOD_GROUPS.filter((recipient) => canDonate(donor, recipient, options));
+}
+
+/**
+ * Keeps the donors who can give to `recipient` and orders them best match
+ * first, preserving the incoming order within each match quality. Every
+ * screen that suggests donors should go through this so they agree.
+ */
+export function rankCompatibleDonors<T>(
+  donors: T[],
+  recipient: BloodGroup,
+  bloodGroupOf: (donor: T) => string,
+  options: CompatibilityOptions = {},
+): Array<{ donor: T; match: MatchQuality }> {
+  return donors
+    .map((donor) => {
+      const group = bloodGroupOf(donor);
+      return { donor, match: isBloodGroup(group) ? matchQuality(group, recipient, options) : 'incompatible' as MatchQuality };
+    })
+    .filter(({ match }) => match !== 'incompatible')
+    .sort((a, b) => MATCH_RANK[a.match] - MATCH_RANK[b.match]);
+}
+
+export const MATCH_QUALITY_LABELS: Record<MatchQuality, string> = {
+  identical: 'Exact match',
+  compatible: 'Compatible',
+  abo_mismatch: 'ABO mismatch',
+  rh_substitution: 'Rh substitution',
+  incompatible: 'Incompatible',
+};
+
+export const COMPONENT_LABELS: Record<BloodComponent, string> = {
+  red_cells: 'Red Cells',
+  whole_blood: 'Whole Blood',
+  plasma: 'Plasma',
+  platelets: 'Platelets',
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { nextEligibleDate } from "./cooldown";
+
+const now = new Date('2025-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 86_400_000).toISOString();
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 86_400_000);
+
+describe('nextEligibleDate', () => {
+  it('has nothing to wait for without donations', () => {
+    expect(nextEligibleDate([], 'male', { now })).toBeNull();
+  });
+
+  it('waits the interval of the last donation', () => {
+    const history = [{ donation_type: 'plasma', donation_date: daysAgo(0) }];
+    expect(nextEligibleDate(history, 'male', { now })).toEqual(daysFromNow(14));
+  });
+
+  it('keeps an earlier, longer wait after a later, shorter one', () => {
+    const history = [
+      { donation_type: 'plasma', donation_date: daysAgo(0) },
+      { donation_type: 'blood', donation_date: daysAgo(10) },
+    ];
+    expect(nextEligibleDate(history, 'male', { now })).toEqual(daysFromNow(80));
+    expect(nextEligibleDate(history, 'female', { now, type: 'plasma' })).toEqual(daysFromNow(110));
+  });
+
+  it('holds a type back once its yearly cap is reached', () => {
+    const history = [364, 273, 182, 91].map((days) => ({ donation_type: 'blood', donation_date: daysAgo(days) }));
+    expect(nextEligibleDate(history, 'male', { now, type: 'blood' })).toEqual(daysFromNow(1));
+    expect(nextEligibleDate(history, 'male', { now, type: 'plasma' })).toEqual(daysFromNow(-1));
+  });
+});
@@ -0,0 +1,108 @@
+import { addDays } from "date-fns";
+import { DONATION_TYPES, type DonationType } from "@/lib/repository";
+import type { DonorSex } from "@/lib/eligibility";
+
+// Mirrors donation_intervals and donor_next_eligible_date() in
+// supabase/migrations/20250128000000-donation-cooldowns.sql. The database
+// is what sets donors.next_eligible_date; this copy lets screens explain it
+// and work out per-type dates without a round trip. Keep both in sync.
+
+export interface CooldownRule {
+  /** Days to wait after a donation of this type, before any next donation. */
+  minDays: number;
+  /** Donations of this type allowed in any 365 days. */
+  annualCap: number;
+}
+
+export const COOLDOWN_RULES: Record<DonationType, Record<Exclude<DonorSex, 'other'>, CooldownRule>> = {
+  blood: { male: { minDays: 90, annualCap: 4 }, female: { minDays: 120, annualCap: 3 } },
+  plasma: { male: { minDays: 14, annualCap: 24 }, female: { minDays: 14, annualCap: 24 } },
+  platelets: { male: { minDays: 2, annualCap: 24 }, female: { minDays: 2, annualCap: 24 } },
+  double_red_cells: { male: { minDays: 112, annualCap: 3 }, female: { minDays: 168, annualCap: 2 } },
+};
+
+export const DONATION_TYPE_LABELS: Record<DonationType, string> = {
+  blood: 'Whole blood',
+  plasma: 'Plasma',
+  platelets: 'Platelets',
+  double_red_cells: 'Double red cells',
+};
+
+const YEAR_DAYS = 365;
+
+/** The rule for a donor; unknown or other sex gets the stricter of the two. */
+export function cooldownRule(type: DonationType, sex?: DonorSex | string | null): CooldownRule {
+  const rules = COOLDOWN_RULES[type];
+  if (sex === 'male' || sex === 'female') return rules[sex];
+  return {
+    minDays: Math.max(rules.male.minDays, rules.female.minDays),
+    annualCap: Math.min(rules.male.annualCap, rules.female.annualCap),
+  };
+}
+
+/** Donors carry gender as 'Male' / 'Female'; the health form stores sex in lower case. */
+export function donorSex(profileSex?: string | null, donorGender?: string | null): string | null {
+  return profileSex ?? donorGender?.toLowerCase() ?? null;
+}
+
+export interface PastDonation {
+  donation_type: string;
+  donation_date: string;
+}
+
+/**
+ * When the donor may next give `type`, or anything at all when `type` is
+ * left out. Null means nothing holds them back. The wait after each
+ * donation depends on what it was; the yearly cap only on the type asked for.
+ */
+export function nextEligibleDate(
+  history: PastDonation[],
+  sex: string | null,
+  options: { type?: DonationType; now?: Date } = {},
+): Date | null {
+  const now = options.now ?? new Date();
+  const donations = history
+    .filter((d) => (DONATION_TYPES as readonly string[]).includes(d.donation_type))
+    .map((d) => ({ type: d.donation_type as DonationType, date: new Date(d.donation_date) }))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+  if (donations.length === 0) return null;
+
+  // Each donation sets its own wait, so a short one after a long one does
+  // not end the longer wait early
+  const afterLast = donations
+    .map((d) => addDays(d.date, cooldownRule(d.type, sex).minDays))
+    .reduce((a, b) => (b > a ? b : a));
+  const yearAgo = addDays(now, -YEAR_DAYS);
+
+  const dateFor = (type: DonationType) => {
+    const inYear = donations.filter((d) => d.type === type && d.date > yearAgo);
+    const oldestCounted = inYear[cooldownRule(type, sex).annualCap - 1];
+    const capEnds = oldestCounted ? addDays(oldestCounted.date, YEAR_DAYS) : null;
+    return capEnds && capEnds > afterLast ? capEnds : afterLast;
+  };
+
+  const types = options.type ? [options.type] : [...DONATION_TYPES];
+  return types.map(dateFor).reduce((a, b) => (b < a ? b : a));
+}
+
+/** One line per donation type, for help text and the assistant. */
+export function describeCooldowns(): string {
+  return DONATION_TYPES.map((type) => {
+    const { male, female } = COOLDOWN_RULES[type];
+    const wait = male.minDays === female.minDays
+      ? `${male.minDays} days`
+      : `${male.minDays} days for men and ${female.minDays} for women`;
+    const cap = male.annualCap === female.annualCap
+      ? `${male.annualCap}`
+      : `${male.annualCap} (men) or ${female.annualCap} (women)`;
+    return `${DONATION_TYPE_LABELS[type]}: wait ${wait}, at most ${cap} a year.`;
+  }).join(' ');
+}
+
+/** Short wait for a type as shown in comparison tables, e.g. "90-120 days". */
+export function cooldownRange(type: DonationType): string {
+  const { male, female } = COOLDOWN_RULES[type];
+  const low = Math.min(male.minDays, female.minDays);
+  const high = Math.max(male.minDays, female.minDays);
+  return low === high ? `${low} days` : `${low}-${high} days`;
+}
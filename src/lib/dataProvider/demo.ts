@@ -0,0 +1,1311 @@
+import {
+  sampleAppointments,
+  sampleBloodRequests,
+  sampleBloodUnits,
+  sampleDonations,
+  sampleDonationSchedules,
+  sampleDonors,
+  sampleHospitals,
+  sampleOpeningHours,
+  samplePlasmaRequests,
+  sampleRequestPledges,
+  sampleStats,
+  sampleStorageUnits,
+  sampleTemperatureReadings,
+} from "@/data/sampleData";
+import { canTransitionAppointment, hasAppointmentStarted, isOpenAppointment } from "@/lib/appointments";
+import { COMPONENT_STORAGE_RANGES, isWithinRange } from "@/lib/coldChain";
+import { cooldownRule, donorSex } from "@/lib/cooldown";
+import { dayInZone, formatSlotTime, generateSlots } from "@/lib/slots";
+import {
+  byExpiry,
+  calendarFeedUrl,
+  COMPONENT_BAG_SUFFIXES,
+  defaultExpiry,
+  isInStock,
+  SEPARABLE_COMPONENTS,
+  type AppointmentHistoryRow,
+  type AppointmentWithDonor,
+  type BloodComponent,
+  type BloodRequestWithHospital,
+  type BloodUnitMovementRow,
+  type BloodUnitRow,
+  type CalendarFeedRow,
+  type DeclarationRow,
+  type DonationRow,
+  type DonationScheduleRow,
+  type DonorReliabilityRow,
+  type DonorRow,
+  type HospitalActivityRow,
+  type HospitalRow,
+  type NotificationRow,
+  type OpeningHoursRow,
+  type PlasmaRequestRow,
+  type ProfileRow,
+  type RequestPledgeWithDonor,
+  type RequestStatusHistoryRow,
+  type ScreeningRow,
+  type StockThresholdRow,
+  type StockTransferHistoryRow,
+  type StockTransferStatus,
+  type StockTransferWithHospitals,
+  type StorageUnitRow,
+  type TemperatureExcursionRow,
+  type TemperatureExcursionUnitRow,
+  type TemperatureReadingRow,
+} from "@/lib/repository";
+import { canTransitionTransfer, TRANSFER_STEP_SIDE } from "@/lib/transferLifecycle";
+import { buildDashboardSummary } from "./summary";
+import type { DataProvider } from "./types";
+
+const matches = <T>(value: T, filter: T | T[] | undefined) =>
+  filter === undefined || (Array.isArray(filter) ? filter.includes(value) : value === filter);
+
+const newest = <T extends { created_at: string }>(rows: T[]) =>
+  [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+/**
+ * In-memory provider seeded from src/data/sampleData.ts. Writes only live
+ * for the current page load, so the demo always starts from the same state.
+ */
+export function createDemoProvider(): DataProvider {
+  const hospitals: HospitalRow[] = structuredClone(sampleHospitals);
+  const hospitalActivities: HospitalActivityRow[] = [];
+  const donors: DonorRow[] = structuredClone(sampleDonors);
+  // The sample data has no full profiles, so there are none to read or edit
+  const profiles: ProfileRow[] = [];
+  const requests: BloodRequestWithHospital[] = structuredClone(sampleBloodRequests);
+  const requestHistory: RequestStatusHistoryRow[] = [];
+  const appointments: AppointmentWithDonor[] = structuredClone(sampleAppointments);
+  const appointmentHistory: AppointmentHistoryRow[] = [];
+  const schedules: DonationScheduleRow[] = structuredClone(sampleDonationSchedules);
+  const openingHours: OpeningHoursRow[] = structuredClone(sampleOpeningHours);
+  const calendarFeeds: CalendarFeedRow[] = [];
+  const bloodUnits: BloodUnitRow[] = structuredClone(sampleBloodUnits);
+  const plasmaRequests: PlasmaRequestRow[] = structuredClone(samplePlasmaRequests);
+  const pledges: RequestPledgeWithDonor[] = structuredClone(sampleRequestPledges);
+  const screenings: ScreeningRow[] = [];
+  const donations: DonationRow[] = structuredClone(sampleDonations);
+  const declarations: DeclarationRow[] = [];
+  const notifications: NotificationRow[] = [];
+  const transfers: StockTransferWithHospitals[] = [];
+  const transferUnits = new Map<string, string[]>();
+  const transferHistory: StockTransferHistoryRow[] = [];
+  const thresholds: StockThresholdRow[] = [];
+  const storageUnits: StorageUnitRow[] = structuredClone(sampleStorageUnits);
+  const temperatureReadings: TemperatureReadingRow[] = structuredClone(sampleTemperatureReadings);
+  const excursions: TemperatureExcursionRow[] = [];
+  const excursionUnits: TemperatureExcursionUnitRow[] = [];
+  const movements: BloodUnitMovementRow[] = [];
+
+  const locationOf = (unit: BloodUnitRow) =>
+    [storageUnits.find((s) => s.id === unit.storage_unit_id)?.name, unit.storage_location].filter(Boolean).join(' · ') || null;
+
+  // Same rows as record_blood_unit_movement(); the demo has no signed-in user
+  const recordMovement = (unit: BloodUnitRow, before: BloodUnitRow | null, reason: string | null, at = new Date().toISOString()) => {
+    movements.push({
+      id: crypto.randomUUID(),
+      blood_unit_id: unit.id,
+      hospital_id: unit.hospital_id,
+      from_hospital_id: before && before.hospital_id !== unit.hospital_id ? before.hospital_id : null,
+      from_status: before?.status ?? null,
+      to_status: unit.status,
+      from_location: before ? locationOf(before) : null,
+      to_location: locationOf(unit),
+      changed_by: null,
+      actor_role: 'system',
+      reason,
+      created_at: at,
+    });
+  };
+
+  bloodUnits.forEach((unit) => recordMovement(unit, null, 'Recorded when movement history was introduced', unit.updated_at));
+
+  // Every change to a bag goes through here so its version is bumped and
+  // the move recorded, as the blood_units triggers do
+  const changeBloodUnit = (unit: BloodUnitRow, changes: Partial<BloodUnitRow>, reason: string | null = null) => {
+    const before = { ...unit };
+    Object.assign(unit, changes, { version: unit.version + 1, updated_at: new Date().toISOString() });
+    if (
+      before.status !== unit.status ||
+      before.hospital_id !== unit.hospital_id ||
+      before.storage_unit_id !== unit.storage_unit_id ||
+      before.storage_location !== unit.storage_location
+    ) {
+      recordMovement(unit, before, reason);
+    }
+  };
+
+  // Same rows as record_appointment_change(); the demo has no signed-in user
+  const recordAppointmentChange = (
+    appointment: AppointmentWithDonor,
+    before: AppointmentWithDonor | null,
+    reason: string | null,
+    at = new Date().toISOString()
+  ) => {
+    appointmentHistory.push({
+      id: crypto.randomUUID(),
+      appointment_id: appointment.id,
+      donor_id: appointment.donor_id,
+      hospital_id: appointment.hospital_id,
+      from_status: before?.status ?? null,
+      to_status: appointment.status,
+      from_slot_start: before?.slot_start ?? null,
+      to_slot_start: appointment.slot_start,
+      changed_by: null,
+      actor_role: 'system',
+      reason,
+      created_at: at,
+    });
+  };
+
+  appointments.forEach((a) => recordAppointmentChange(a, null, 'Recorded when appointment history was introduced', a.updated_at));
+
+  // Same rows as record_request_status(); the demo has no signed-in user
+  const recordRequestStatus = (
+    request: BloodRequestWithHospital,
+    from: string | null,
+    reason: string | null,
+    at = new Date().toISOString()
+  ) => {
+    requestHistory.push({
+      id: crypto.randomUUID(),
+      request_id: request.id,
+      from_status: from,
+      to_status: request.status,
+      changed_by: null,
+      actor_role: 'system',
+      event: 'status_change',
+      reason,
+      created_at: at,
+    });
+  };
+
+  requests.forEach((r) => recordRequestStatus(r, null, 'Recorded when status history was introduced', r.updated_at));
+
+  const setRequestStatus = (request: BloodRequestWithHospital, status: string, reason: string | null) => {
+    const from = request.status;
+    Object.assign(request, { status, updated_at: new Date().toISOString() });
+    recordRequestStatus(request, from, reason);
+  };
+
+  // Same as sync_request_pledges(): totals, then the request follows them
+  const syncRequestPledges = (requestId: string) => {
+    const request = requests.find((r) => r.id === requestId);
+    if (!request) return;
+    const units = (status: string) =>
+      pledges.filter((p) => p.request_id === request.id && p.status === status).reduce((sum, p) => sum + p.units, 0);
+    Object.assign(request, {
+      pledged_units: units('pledged'),
+      scheduled_units: units('scheduled'),
+      collected_units: units('collected'),
+      updated_at: new Date().toISOString(),
+    });
+    const committed = request.pledged_units + request.scheduled_units + request.collected_units;
+    if (request.status === 'pending' && committed >= request.units_required) {
+      setRequestStatus(request, 'accepted', `Fully pledged: ${committed} of ${request.units_required} unit(s)`);
+    } else if (request.status === 'accepted' && !request.donor_id && committed < request.units_required) {
+      setRequestStatus(request, 'pending', `Pledges dropped to ${committed} of ${request.units_required} unit(s)`);
+    }
+    if (request.status === 'accepted' && request.collected_units >= request.units_required) {
+      setRequestStatus(request, 'fulfilled', `All ${request.units_required} unit(s) collected`);
+    }
+  };
+
+  // Same as record_pledge_donation(): a collected pledge is a donation
+  const changePledgeStatus = (pledge: RequestPledgeWithDonor, status: string) => {
+    const now = new Date().toISOString();
+    Object.assign(pledge, { status, updated_at: now });
+    const request = requests.find((r) => r.id === pledge.request_id);
+    const donor = donors.find((d) => d.id === pledge.donor_id);
+    if (status === 'collected' && request && donor && !donations.some((d) => d.pledge_id === pledge.id)) {
+      donations.push({
+        id: crypto.randomUUID(),
+        hospital_id: request.hospital_id,
+        donor_id: donor.id,
+        donation_type: request.request_type,
+        donation_date: now,
+        units_donated: pledge.units,
+        blood_group: donor.blood_group,
+        verified: false,
+        verified_by: null,
+        verification_date: null,
+        notes: null,
+        pledge_id: pledge.id,
+        health_declaration_id: null,
+        created_at: now,
+        updated_at: now,
+      });
+    }
+    syncRequestPledges(pledge.request_id);
+  };
+
+  // Same as sync_pledge_from_appointment()
+  const syncPledgeFromAppointment = (appointment: AppointmentWithDonor) => {
+    const next = ({ completed: 'collected', no_show: 'withdrawn', cancelled: 'pledged' } as Record<string, string>)[appointment.status];
+    const pledge = pledges.find((p) => p.appointment_id === appointment.id && p.status === 'scheduled');
+    if (!next || !pledge) return;
+    changePledgeStatus(pledge, next);
+  };
+
+  const overlaps = (a: AppointmentWithDonor, slot: { slot_start: string; slot_end: string }) =>
+    Date.parse(a.slot_start) < Date.parse(slot.slot_end) && Date.parse(a.slot_end) > Date.parse(slot.slot_start);
+
+  // Same slots and counts as list_appointment_slots()
+  const appointmentSlots = (hospitalId: string, from: string, days: number) => {
+    const schedule = schedules.find((s) => s.hospital_id === hospitalId);
+    if (!schedule) return [];
+    const hours = openingHours.filter((h) => h.hospital_id === hospitalId);
+    return generateSlots(schedule, hours, from, days).map((slot) => ({
+      ...slot,
+      chairs: schedule.chairs,
+      booked: appointments.filter((a) => a.hospital_id === hospitalId && isOpenAppointment(a) && overlaps(a, slot)).length,
+    }));
+  };
+
+  // Same checks and chair choice as claim_appointment_slot(); `appointmentId`
+  // is the appointment being moved, which does not count against itself
+  const claimSlot = (hospitalId: string, slotStart: string, donorId: string, appointmentId?: string) => {
+    const schedule = schedules.find((s) => s.hospital_id === hospitalId);
+    if (!schedule) throw new Error(`hospital ${hospitalId} does not take bookings`);
+    const start = new Date(slotStart).toISOString();
+    if (new Date(start) <= new Date()) throw new Error(`the slot at ${start} has already started`);
+
+    const slot = generateSlots(schedule, openingHours.filter((h) => h.hospital_id === hospitalId), dayInZone(new Date(start), schedule.timezone), 1)
+      .find((s) => s.slot_start === start);
+    if (!slot) throw new Error(`no slot starts at ${start}`);
+    const taken = (message: string) => Object.assign(new Error(message), { code: '23P01' });
+    const others = appointments.filter((a) => a.id !== appointmentId && isOpenAppointment(a) && overlaps(a, slot));
+    if (others.some((a) => a.donor_id === donorId)) {
+      throw taken('the donor already has an appointment at that time');
+    }
+    const used = others.filter((a) => a.hospital_id === hospitalId);
+    const chair = used.length < schedule.chairs
+      ? Array.from({ length: schedule.chairs }, (_, i) => i + 1).find((c) => !used.some((a) => a.chair === c))
+      : undefined;
+    if (!chair) throw taken(`every chair is booked at ${formatSlotTime(start, schedule.timezone)}; pick another slot`);
+    return { schedule, slot, chair };
+  };
+
+  const transferHospital = (id: string) => {
+    const hospital = hospitals.find((h) => h.id === id);
+    return hospital ? { id: hospital.id, name: hospital.name, phone: hospital.phone, city: hospital.city } : null;
+  };
+
+  const recordTransferStatus = (transfer: StockTransferWithHospitals, from: string | null, reason: string | null) => {
+    transferHistory.push({
+      id: crypto.randomUUID(),
+      transfer_id: transfer.id,
+      from_status: from,
+      to_status: transfer.status,
+      changed_by: null,
+      actor_role: `${TRANSFER_STEP_SIDE[transfer.status as StockTransferStatus] ?? 'requesting'}_hospital`,
+      reason,
+      unit_ids: [...(transferUnits.get(transfer.id) ?? [])].sort(),
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  // New requests start pending with no pledges, as enforce_request_status() requires
+  const addRequest = (
+    values: Pick<BloodRequestWithHospital, 'hospital_id' | 'blood_group' | 'units_required'> & Partial<BloodRequestWithHospital>,
+    reason = 'Request created'
+  ) => {
+    const now = new Date().toISOString();
+    const hospital = hospitals.find((h) => h.id === values.hospital_id);
+    const request: BloodRequestWithHospital = {
+      donor_id: null,
+      request_type: 'blood',
+      emergency_level: 'Medium',
+      source: 'manual',
+      patient_name: null,
+      patient_age: null,
+      medical_condition: null,
+      notes: null,
+      ...values,
+      id: crypto.randomUUID(),
+      status: 'pending',
+      escalation_level: 0,
+      last_escalated_at: null,
+      pledged_units: 0,
+      scheduled_units: 0,
+      collected_units: 0,
+      created_at: now,
+      updated_at: now,
+      hospital: hospital ? {
+        id: hospital.id,
+        name: hospital.name,
+        phone: hospital.phone,
+        address: hospital.address,
+        city: hospital.city,
+        latitude: hospital.latitude,
+        longitude: hospital.longitude,
+      } : null,
+    };
+    requests.push(request);
+    recordRequestStatus(request, null, reason, now);
+    return request;
+  };
+
+  // Same rule as check_stock_threshold(): one open restock request per
+  // group, for the difference to the target. Donor call-outs are not sent.
+  const checkStockThreshold = (hospitalId: string, bloodGroup: string) => {
+    const threshold = thresholds.find((t) => t.hospital_id === hospitalId && t.blood_group === bloodGroup);
+    if (!threshold) return;
+    const stock = bloodUnits.filter((u) =>
+      u.hospital_id === hospitalId &&
+      u.blood_group === bloodGroup &&
+      (u.component === 'red_cells' || u.component === 'whole_blood') &&
+      isInStock(u)
+    ).length;
+    const open = requests.some((r) =>
+      r.hospital_id === hospitalId && r.blood_group === bloodGroup && r.source === 'low_stock' && ['pending', 'accepted'].includes(r.status)
+    );
+    if (stock >= threshold.min_units || open) return;
+
+    addRequest({
+      hospital_id: hospitalId,
+      blood_group: bloodGroup,
+      units_required: threshold.target_units - stock,
+      emergency_level: stock === 0 ? 'Critical' : 'High',
+      source: 'low_stock',
+      notes: `Automatic restock: ${stock} unit(s) in stock against a minimum of ${threshold.min_units}, target ${threshold.target_units}.`,
+    }, `Stock fell to ${stock} unit(s), below the minimum of ${threshold.min_units}`);
+  };
+
+  // Same rules as detect_temperature_excursion(): every component held in
+  // the unit, or with an excursion still open there, is checked
+  const detectExcursion = (reading: TemperatureReadingRow) => {
+    const now = new Date().toISOString();
+    const open = excursions.filter((e) => e.storage_unit_id === reading.storage_unit_id && e.ended_at === null);
+    const components = new Set([
+      ...bloodUnits
+        .filter((u) => u.storage_unit_id === reading.storage_unit_id && ['available', 'reserved', 'quarantined'].includes(u.status))
+        .map((u) => u.component),
+      ...open.map((e) => e.component),
+    ]);
+
+    for (const component of components) {
+      const range = COMPONENT_STORAGE_RANGES[component as BloodComponent];
+      let excursion = open.find((e) => e.component === component);
+      if (isWithinRange(reading.temperature_c, range)) {
+        if (excursion) {
+          const endedAt = reading.recorded_at > excursion.started_at ? reading.recorded_at : excursion.started_at;
+          Object.assign(excursion, { ended_at: endedAt, updated_at: now });
+        }
+        continue;
+      }
+
+      if (excursion) {
+        Object.assign(excursion, {
+          lowest_temp_c: Math.min(excursion.lowest_temp_c, reading.temperature_c),
+          highest_temp_c: Math.max(excursion.highest_temp_c, reading.temperature_c),
+          updated_at: now,
+        });
+      } else {
+        excursion = {
+          id: crypto.randomUUID(),
+          storage_unit_id: reading.storage_unit_id,
+          component,
+          min_temp_c: range.min,
+          max_temp_c: range.max,
+          started_at: reading.recorded_at,
+          ended_at: null,
+          lowest_temp_c: reading.temperature_c,
+          highest_temp_c: reading.temperature_c,
+          created_at: now,
+          updated_at: now,
+        };
+        excursions.push(excursion);
+      }
+
+      const affected = bloodUnits.filter((u) =>
+        u.storage_unit_id === reading.storage_unit_id && u.component === component && ['available', 'reserved'].includes(u.status)
+      );
+      for (const unit of affected) {
+        const wasAvailable = unit.status === 'available';
+        changeBloodUnit(unit, { status: 'quarantined' });
+        excursionUnits.push({ excursion_id: excursion.id, blood_unit_id: unit.id });
+        if (wasAvailable) checkStockThreshold(unit.hospital_id, unit.blood_group);
+      }
+    }
+  };
+
+  const provider: DataProvider = {
+    mode: 'demo',
+
+    async listHospitals(filters = {}) {
+      return hospitals
+        .filter((h) => (!filters.activeOnly || h.is_active) && matches(h.city, filters.city))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async getHospital(id) {
+      return hospitals.find((h) => h.id === id) ?? null;
+    },
+
+    async createHospitalActivity(input) {
+      hospitalActivities.push({
+        id: crypto.randomUUID(),
+        hospital_id: input.hospital_id ?? null,
+        activity_type: input.activity_type,
+        details: input.details ?? {},
+        created_at: new Date().toISOString(),
+      });
+    },
+
+    async listDonors(filters = {}) {
+      const search = filters.search?.toLowerCase();
+      return donors
+        .filter((d) =>
+          (!filters.bloodGroups?.length || filters.bloodGroups.includes(d.blood_group as never)) &&
+          (!filters.availableOnly || d.is_available) &&
+          (!search || d.name.toLowerCase().includes(search) || (d.location ?? '').toLowerCase().includes(search))
+        )
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async getDonor(id) {
+      return donors.find((d) => d.id === id) ?? null;
+    },
+
+    // The sample data has no notifications, so a request the donor pledged to counts as both sent and answered
+    async listDonorReliability(donorIds) {
+      return donorIds
+        .filter((id) => donors.some((d) => d.id === id))
+        .map((id): DonorReliabilityRow => {
+          const taken = pledges.filter((p) => p.donor_id === id).length;
+          return {
+            donor_id: id,
+            requests_notified: taken,
+            requests_accepted: taken,
+            appointments_kept: appointmentHistory.filter((h) => h.donor_id === id && h.to_status === 'completed').length,
+            appointments_missed: appointmentHistory.filter((h) => h.donor_id === id && h.to_status === 'no_show').length,
+          };
+        });
+    },
+
+    // Same as set_donor_cooldown(): never shortens a wait already running
+    async setDonorCooldown(donorId, donationType) {
+      const donor = donors.find((d) => d.id === donorId);
+      if (!donor) throw new Error(`Donor ${donorId} not found`);
+      const now = new Date();
+      const cooldownEnds = new Date(now);
+      cooldownEnds.setDate(cooldownEnds.getDate() + cooldownRule(donationType, donorSex(null, donor.gender)).minDays);
+      const next = donor.next_eligible_date && donor.next_eligible_date > cooldownEnds.toISOString()
+        ? donor.next_eligible_date
+        : cooldownEnds.toISOString();
+      Object.assign(donor, { last_donation_date: now.toISOString(), next_eligible_date: next });
+      const profile = profiles.find((p) => p.id === donorId);
+      if (profile) profile.last_donation_date = now.toISOString();
+      return next;
+    },
+
+    async getProfile(id) {
+      return profiles.find((p) => p.id === id) ?? null;
+    },
+
+    async updateProfile(id, patch) {
+      const profile = profiles.find((p) => p.id === id);
+      if (!profile) throw new Error(`Profile ${id} not found`);
+      return Object.assign(profile, patch, { updated_at: new Date().toISOString() });
+    },
+
+    async deleteProfile(id) {
+      const index = profiles.findIndex((p) => p.id === id);
+      if (index >= 0) profiles.splice(index, 1);
+    },
+
+    async listRequests(filters = {}) {
+      return newest(requests.filter((r) =>
+        matches(r.hospital_id, filters.hospitalId) &&
+        matches(r.donor_id, filters.donorId) &&
+        matches(r.request_type, filters.requestType) &&
+        matches(r.emergency_level, filters.emergencyLevel) &&
+        matches(r.status, filters.status as string | string[] | undefined)
+      ));
+    },
+
+    async getRequest(id) {
+      return requests.find((r) => r.id === id) ?? null;
+    },
+
+    async createRequest(input) {
+      return addRequest({
+        hospital_id: input.hospital_id,
+        blood_group: input.blood_group,
+        units_required: input.units_required,
+        request_type: input.request_type,
+        emergency_level: input.emergency_level ?? 'Medium',
+        donor_id: input.donor_id ?? null,
+        patient_name: input.patient_name ?? null,
+        patient_age: input.patient_age ?? null,
+        medical_condition: input.medical_condition ?? null,
+        notes: input.notes ?? null,
+      });
+    },
+
+    // The helpers in @/lib/requestLifecycle check the step; this applies it as transition_request() does
+    async transitionRequestStatus(id, { status, reason, donorId }) {
+      const request = requests.find((r) => r.id === id);
+      if (!request) throw new Error(`Request ${id} was not found or cannot be changed`);
+      const from = request.status;
+      Object.assign(request, {
+        status,
+        // A released request loses its donor, as in enforce_request_status()
+        donor_id: status === 'pending' ? null : donorId ?? request.donor_id,
+        updated_at: new Date().toISOString(),
+      });
+      recordRequestStatus(request, from, reason ?? null);
+      // Same as release_request_pledges()
+      if (status === 'cancelled' || status === 'expired') {
+        pledges
+          .filter((p) => p.request_id === id && (p.status === 'pledged' || p.status === 'scheduled'))
+          .forEach((p) => changePledgeStatus(p, 'withdrawn'));
+      }
+      return request;
+    },
+
+    async listRequestStatusHistory(requestIds) {
+      return requestHistory.filter((h) => requestIds.includes(h.request_id));
+    },
+
+    async listRequestPledges(filters = {}) {
+      return pledges.filter((p) =>
+        (!filters.requestIds || filters.requestIds.includes(p.request_id)) &&
+        matches(p.donor_id, filters.donorId) &&
+        matches(p.status, filters.status as string | string[] | undefined)
+      );
+    },
+
+    // Same as pledge_to_request(); the demo always pledges on a donor's behalf
+    async pledgeToRequest(requestId, { units = 1, donorId, appointmentId } = {}) {
+      if (!donorId) throw new Error('choose the donor who is pledging');
+      const existing = pledges.find((p) => p.request_id === requestId && p.donor_id === donorId);
+      if (existing?.status === 'collected') throw new Error(`donation for request ${requestId} was already collected`);
+
+      const now = new Date().toISOString();
+      const pledge = existing ?? (() => {
+        const donor = donors.find((d) => d.id === donorId);
+        const created: RequestPledgeWithDonor = {
+          id: crypto.randomUUID(),
+          request_id: requestId,
+          donor_id: donorId,
+          units,
+          status: 'pledged',
+          appointment_id: null,
+          created_at: now,
+          updated_at: now,
+          donor: donor ? { id: donor.id, name: donor.name, blood_group: donor.blood_group, phone: donor.phone } : null,
+        };
+        pledges.push(created);
+        return created;
+      })();
+      Object.assign(pledge, { units, appointment_id: appointmentId ?? pledge.appointment_id, updated_at: now });
+      changePledgeStatus(pledge, appointmentId ? 'scheduled' : pledge.status === 'withdrawn' ? 'pledged' : pledge.status);
+      return pledge;
+    },
+
+    // The helpers in @/lib/pledges check the step
+    async updatePledgeStatus(id, status) {
+      const pledge = pledges.find((p) => p.id === id);
+      if (!pledge) throw new Error(`pledge ${id} not found`);
+      changePledgeStatus(pledge, status);
+      return pledge;
+    },
+
+    async listAppointments(filters = {}) {
+      return newest(appointments.filter((a) =>
+        matches(a.hospital_id, filters.hospitalId) &&
+        matches(a.donor_id, filters.donorId) &&
+        matches(a.request_id, filters.requestId) &&
+        matches(a.status, filters.status as string | string[] | undefined) &&
+        (!filters.from || Date.parse(a.slot_start) >= Date.parse(filters.from)) &&
+        (!filters.to || Date.parse(a.slot_start) < Date.parse(filters.to))
+      ));
+    },
+
+    async listAppointmentSlots(hospitalId, from, days = 1) {
+      if (!(days >= 1 && days <= 62)) throw new Error('slots can be listed for 1 to 62 days at a time');
+      return appointmentSlots(hospitalId, from, days);
+    },
+
+    async bookAppointment(input) {
+      if (!input.donor_id) throw new Error('choose the donor to book');
+      const { schedule, slot, chair } = claimSlot(input.hospital_id, input.slot_start, input.donor_id);
+
+      const now = new Date().toISOString();
+      const donor = donors.find((d) => d.id === input.donor_id);
+      const appointment: AppointmentWithDonor = {
+        id: crypto.randomUUID(),
+        hospital_id: input.hospital_id,
+        donor_id: input.donor_id,
+        request_id: input.request_id ?? null,
+        appointment_date: slot.slot_start,
+        appointment_time: formatSlotTime(slot.slot_start, schedule.timezone),
+        slot_start: slot.slot_start,
+        slot_end: slot.slot_end,
+        chair,
+        status: 'scheduled',
+        notes: input.notes ?? null,
+        ical_sequence: 0,
+        created_at: now,
+        updated_at: now,
+        donor: donor ? { id: donor.id, name: donor.name, blood_group: donor.blood_group, phone: donor.phone } : null,
+      };
+      appointments.push(appointment);
+      recordAppointmentChange(appointment, null, appointment.notes);
+      return appointment;
+    },
+
+    // Same rules as transition_appointment(); the demo acts for both sides
+    async transitionAppointment(id, { status, reason }) {
+      const appointment = appointments.find((a) => a.id === id);
+      if (!appointment) throw new Error(`appointment ${id} not found`);
+      const why = reason?.trim() || (status === 'no_show' ? 'Did not attend' : '');
+      if (status === 'cancelled' && !why) throw new Error('give a reason for cancelling');
+      if (!canTransitionAppointment(appointment.status, status)) {
+        throw new Error(`appointment cannot move from ${appointment.status} to ${status}`);
+      }
+      if (status === 'no_show' && !hasAppointmentStarted(appointment)) {
+        throw new Error(`the appointment at ${appointment.slot_start} has not started yet`);
+      }
+
+      const before = { ...appointment };
+      Object.assign(appointment, { status, ical_sequence: appointment.ical_sequence + 1, updated_at: new Date().toISOString() });
+      recordAppointmentChange(appointment, before, why || null);
+      syncPledgeFromAppointment(appointment);
+      return appointment;
+    },
+
+    // Same checks as reschedule_appointment()
+    async rescheduleAppointment(id, { slotStart, reason }) {
+      const appointment = appointments.find((a) => a.id === id);
+      if (!appointment) throw new Error(`appointment ${id} not found`);
+      if (!isOpenAppointment(appointment)) throw new Error(`a ${appointment.status} appointment cannot be rescheduled`);
+      if (hasAppointmentStarted(appointment)) throw new Error('the appointment has already started');
+      if (!reason.trim()) throw new Error('give a reason for rescheduling');
+      if (Date.parse(slotStart) === Date.parse(appointment.slot_start)) throw new Error('the appointment is already at that time');
+      const { schedule, slot, chair } = claimSlot(appointment.hospital_id, slotStart, appointment.donor_id, appointment.id);
+
+      const before = { ...appointment };
+      Object.assign(appointment, {
+        slot_start: slot.slot_start,
+        slot_end: slot.slot_end,
+        chair,
+        appointment_date: slot.slot_start,
+        appointment_time: formatSlotTime(slot.slot_start, schedule.timezone),
+        ical_sequence: appointment.ical_sequence + 1,
+        updated_at: new Date().toISOString(),
+      });
+      recordAppointmentChange(appointment, before, reason.trim());
+      return appointment;
+    },
+
+    async listAppointmentHistory(appointmentIds) {
+      return appointmentHistory.filter((h) => h.appointment_id !== null && appointmentIds.includes(h.appointment_id));
+    },
+
+    async getDonationSchedule(hospitalId) {
+      return schedules.find((s) => s.hospital_id === hospitalId) ?? null;
+    },
+
+    async saveDonationSchedule(input) {
+      const now = new Date().toISOString();
+      let schedule = schedules.find((s) => s.hospital_id === input.hospital_id);
+      if (!schedule) {
+        schedule = { hospital_id: input.hospital_id, chairs: input.chairs, slot_minutes: 30, timezone: 'Asia/Kolkata', created_at: now, updated_at: now };
+        schedules.push(schedule);
+      }
+      Object.assign(schedule, {
+        chairs: input.chairs,
+        ...(input.slot_minutes !== undefined && { slot_minutes: input.slot_minutes }),
+        ...(input.timezone !== undefined && { timezone: input.timezone }),
+        updated_at: now,
+      });
+      return schedule;
+    },
+
+    async listOpeningHours(hospitalId) {
+      return openingHours.filter((h) => h.hospital_id === hospitalId).sort((a, b) => a.weekday - b.weekday);
+    },
+
+    async saveOpeningHours(input) {
+      if (input.closes_at <= input.opens_at) throw new Error('Closing time must be after opening time');
+      if (!schedules.some((s) => s.hospital_id === input.hospital_id)) throw new Error('save the schedule before its opening hours');
+      const now = new Date().toISOString();
+      let hours = openingHours.find((h) => h.hospital_id === input.hospital_id && h.weekday === input.weekday);
+      if (!hours) {
+        hours = {
+          hospital_id: input.hospital_id,
+          weekday: input.weekday,
+          opens_at: input.opens_at,
+          closes_at: input.closes_at,
+          created_at: now,
+          updated_at: now,
+        };
+        openingHours.push(hours);
+      }
+      Object.assign(hours, { opens_at: input.opens_at, closes_at: input.closes_at, updated_at: now });
+      return hours;
+    },
+
+    async deleteOpeningHours(hospitalId, weekday) {
+      const index = openingHours.findIndex((h) => h.hospital_id === hospitalId && h.weekday === weekday);
+      if (index >= 0) openingHours.splice(index, 1);
+    },
+
+    async getCalendarFeed(ownerType, ownerId) {
+      return calendarFeeds.find((f) => f.owner_type === ownerType && f.owner_id === ownerId) ?? null;
+    },
+
+    // There is no server to fetch the demo feed from, but the URL is issued the same way
+    async issueCalendarFeed(ownerType, ownerId) {
+      const token = Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+      const now = new Date().toISOString();
+      const existing = calendarFeeds.find((f) => f.owner_type === ownerType && f.owner_id === ownerId);
+      if (existing) {
+        Object.assign(existing, { token_hash: 'demo', issued_at: now, revoked_at: null, updated_at: now });
+      } else {
+        calendarFeeds.push({
+          owner_type: ownerType,
+          owner_id: ownerId,
+          token_hash: 'demo',
+          issued_at: now,
+          revoked_at: null,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+      return calendarFeedUrl(token);
+    },
+
+    async revokeCalendarFeed(ownerType, ownerId) {
+      const feed = calendarFeeds.find((f) => f.owner_type === ownerType && f.owner_id === ownerId && f.token_hash);
+      if (feed) Object.assign(feed, { token_hash: null, revoked_at: new Date().toISOString(), updated_at: new Date().toISOString() });
+    },
+
+    async listScreenings(filters = {}) {
+      return screenings
+        .filter((s) =>
+          matches(s.donor_id, filters.donorId) &&
+          (!filters.donorIds || filters.donorIds.includes(s.donor_id)) &&
+          matches(s.hospital_id, filters.hospitalId) &&
+          (!filters.appointmentIds || filters.appointmentIds.includes(s.appointment_id))
+        )
+        .sort((a, b) => b.screened_at.localeCompare(a.screened_at));
+    },
+
+    // Replaces the appointment's earlier screening, as the upsert does in the database
+    async recordScreening(input) {
+      const now = new Date().toISOString();
+      const existing = screenings.findIndex((s) => s.appointment_id === input.appointment_id);
+      const screening: ScreeningRow = {
+        id: existing >= 0 ? screenings[existing].id : crypto.randomUUID(),
+        appointment_id: input.appointment_id,
+        donor_id: input.donor_id,
+        hospital_id: input.hospital_id,
+        hemoglobin_g_dl: input.hemoglobin_g_dl ?? null,
+        systolic_bp: input.systolic_bp ?? null,
+        diastolic_bp: input.diastolic_bp ?? null,
+        pulse_bpm: input.pulse_bpm ?? null,
+        temperature_c: input.temperature_c ?? null,
+        weight_kg: input.weight_kg ?? null,
+        decision: input.decision,
+        deferral_reason: input.deferral_reason ?? null,
+        deferred_until: input.deferred_until ?? null,
+        notes: input.notes ?? null,
+        screened_by: null,
+        screened_at: now,
+        created_at: existing >= 0 ? screenings[existing].created_at : now,
+        updated_at: now,
+      };
+      if (existing >= 0) screenings[existing] = screening;
+      else screenings.push(screening);
+      return screening;
+    },
+
+    async listDonations(filters = {}) {
+      return donations
+        .filter((d) =>
+          matches(d.hospital_id, filters.hospitalId) &&
+          matches(d.donor_id, filters.donorId) &&
+          (!filters.donorIds || filters.donorIds.includes(d.donor_id)) &&
+          matches(d.donation_type, filters.donationType) &&
+          (filters.verified === undefined || d.verified === filters.verified)
+        )
+        .sort((a, b) => b.donation_date.localeCompare(a.donation_date));
+    },
+
+    async listDeclarations(filters = {}) {
+      return declarations
+        .filter((d) => matches(d.donor_id, filters.donorId))
+        .sort((a, b) => b.consented_at.localeCompare(a.consented_at));
+    },
+
+    async getDeclaration(id) {
+      return declarations.find((d) => d.id === id) ?? null;
+    },
+
+    async getDeclarationAt(donorId, at = new Date().toISOString()) {
+      return declarations
+        .filter((d) => d.donor_id === donorId && d.consented_at <= at)
+        .sort((a, b) => b.consented_at.localeCompare(a.consented_at))[0] ?? null;
+    },
+
+    // Declarations are append-only; the consent time is set here, as the database does
+    async createDeclaration(input) {
+      const now = new Date().toISOString();
+      const declaration: DeclarationRow = {
+        id: crypto.randomUUID(),
+        donor_id: input.donor_id,
+        questionnaire_version: input.questionnaire_version,
+        answers: input.answers,
+        consent_text: input.consent_text,
+        eligibility_status: input.eligibility_status ?? null,
+        eligibility_reason: input.eligibility_reason ?? null,
+        eligibility_rules_version: input.eligibility_rules_version ?? null,
+        consented_at: now,
+        created_at: now,
+      };
+      declarations.push(declaration);
+      return declaration;
+    },
+
+    async listBloodUnits(filters = {}) {
+      return bloodUnits
+        .filter((u) =>
+          matches(u.hospital_id, filters.hospitalId) &&
+          matches(u.blood_group, filters.bloodGroup) &&
+          matches(u.component, filters.component) &&
+          matches(u.status, filters.status as string | string[] | undefined)
+        )
+        .sort(byExpiry);
+    },
+
+    async createBloodUnit(input) {
+      const now = new Date().toISOString();
+      const unit: BloodUnitRow = {
+        id: crypto.randomUUID(),
+        hospital_id: input.hospital_id,
+        bag_number: input.bag_number,
+        component: input.component,
+        blood_group: input.blood_group,
+        volume_ml: input.volume_ml ?? null,
+        donation_id: input.donation_id ?? null,
+        collected_at: input.collected_at,
+        expires_at: input.expires_at,
+        storage_location: input.storage_location ?? null,
+        storage_unit_id: input.storage_unit_id ?? null,
+        product_code: input.product_code ?? null,
+        status: input.status ?? 'available',
+        issued_at: null,
+        issued_request_id: null,
+        discard_reason: null,
+        discard_notes: null,
+        discarded_at: null,
+        discarded_by: null,
+        version: 1,
+        created_at: now,
+        updated_at: now,
+      };
+      bloodUnits.push(unit);
+      recordMovement(unit, null, 'Bag received');
+      return unit;
+    },
+
+    // Same checks as adjust_blood_unit() and stamp_blood_unit_discard()
+    async adjustBloodUnit(id, { version, reason, ...patch }) {
+      const unit = bloodUnits.find((u) => u.id === id);
+      if (!unit) throw new Error(`bag ${id} not found or not editable`);
+      if (!reason?.trim()) throw new Error('a reason is needed to adjust a bag');
+      if (unit.version !== version) {
+        throw Object.assign(
+          new Error(`bag ${unit.bag_number} was changed by someone else since you opened it; reload and try again`),
+          { code: '40001' }
+        );
+      }
+      if (['issued', 'discarded', 'processed'].includes(unit.status) && patch.status && patch.status !== unit.status) {
+        throw new Error(`bag ${unit.bag_number} is ${unit.status} and cannot be returned to stock`);
+      }
+
+      const changes: Partial<BloodUnitRow> = { ...patch };
+      if (patch.status === 'discarded' && unit.status !== 'discarded') {
+        changes.discard_reason = patch.discard_reason
+          ?? (unit.status === 'expired' ? 'expired' : unit.status === 'quarantined' ? 'temperature_excursion' : undefined);
+        if (!changes.discard_reason) throw new Error(`a reason is needed to discard bag ${unit.bag_number}`);
+        changes.discarded_at = new Date().toISOString();
+      }
+
+      const wasAvailable = unit.status === 'available';
+      changeBloodUnit(unit, changes, reason.trim());
+      if (wasAvailable && unit.status !== 'available') checkStockThreshold(unit.hospital_id, unit.blood_group);
+      return unit;
+    },
+
+    async listBloodUnitMovements(bloodUnitIds) {
+      return movements
+        .filter((m) => bloodUnitIds.includes(m.blood_unit_id))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    // Demo data lives in this tab only, so nobody else's changes can arrive
+    subscribeToBloodUnits() {
+      return () => {};
+    },
+
+    // Same picking order and all-or-nothing rule as issue_blood_units()
+    async issueBloodUnits({ hospitalId, bloodGroup, component, units, requestId }) {
+      const picked = bloodUnits
+        .filter((u) => u.hospital_id === hospitalId && u.blood_group === bloodGroup && u.component === component && isInStock(u))
+        .sort(byExpiry)
+        .slice(0, units);
+      if (picked.length < units) {
+        throw new Error(`only ${picked.length} ${bloodGroup} ${component} unit(s) in stock, ${units} requested`);
+      }
+      const now = new Date().toISOString();
+      for (const unit of picked) {
+        changeBloodUnit(unit, { status: 'issued', issued_at: now, issued_request_id: requestId ?? null });
+      }
+      checkStockThreshold(hospitalId, bloodGroup);
+      return picked;
+    },
+
+    // Same checks and bag numbering as separate_donation()
+    async separateDonation({ donationId, components = SEPARABLE_COMPONENTS, storageLocations = {} }) {
+      const donation = donations.find((d) => d.id === donationId);
+      if (!donation) throw new Error(`donation ${donationId} not found`);
+      if (donation.donation_type !== 'blood') {
+        throw new Error(`only whole blood donations can be separated, this is a ${donation.donation_type} donation`);
+      }
+      if (bloodUnits.some((u) => u.donation_id === donationId && u.component !== 'whole_blood')) {
+        throw new Error(`donation ${donationId} has already been separated`);
+      }
+
+      const now = new Date().toISOString();
+      const source = bloodUnits.find((u) => u.donation_id === donationId && u.component === 'whole_blood');
+      if (source && !isInStock(source)) throw new Error(`bag ${source.bag_number} is no longer available for processing`);
+      if (source) changeBloodUnit(source, { status: 'processed' });
+      const base = source?.bag_number ?? `DON-${donationId.slice(0, 8).toUpperCase()}`;
+
+      const created = [...new Set(components)].map((component): BloodUnitRow => ({
+        id: crypto.randomUUID(),
+        hospital_id: donation.hospital_id,
+        bag_number: `${base}-${COMPONENT_BAG_SUFFIXES[component]}`,
+        component,
+        blood_group: donation.blood_group,
+        volume_ml: null,
+        donation_id: donationId,
+        collected_at: donation.donation_date,
+        expires_at: defaultExpiry(component, new Date(donation.donation_date)).toISOString(),
+        storage_location: storageLocations[component]?.trim() || null,
+        storage_unit_id: null,
+        product_code: null,
+        status: 'available',
+        issued_at: null,
+        issued_request_id: null,
+        discard_reason: null,
+        discard_notes: null,
+        discarded_at: null,
+        discarded_by: null,
+        version: 1,
+        created_at: now,
+        updated_at: now,
+      }));
+      bloodUnits.push(...created);
+      created.forEach((unit) => recordMovement(unit, null, 'Bag received'));
+      if (source) checkStockThreshold(source.hospital_id, source.blood_group);
+      return created;
+    },
+
+    async listStockTransfers(filters = {}) {
+      return newest(transfers.filter((t) =>
+        (!filters.hospitalId || t.requesting_hospital_id === filters.hospitalId || t.supplying_hospital_id === filters.hospitalId) &&
+        matches(t.status, filters.status as string | string[] | undefined)
+      ));
+    },
+
+    async createStockTransfer(input) {
+      const now = new Date().toISOString();
+      const transfer: StockTransferWithHospitals = {
+        id: crypto.randomUUID(),
+        requesting_hospital_id: input.requesting_hospital_id,
+        supplying_hospital_id: input.supplying_hospital_id,
+        blood_group: input.blood_group,
+        component: input.component ?? 'red_cells',
+        units_requested: input.units_requested,
+        status: 'requested',
+        notes: input.notes ?? null,
+        requested_by: null,
+        approved_at: null,
+        dispatched_at: null,
+        received_at: null,
+        created_at: now,
+        updated_at: now,
+        requesting_hospital: transferHospital(input.requesting_hospital_id),
+        supplying_hospital: transferHospital(input.supplying_hospital_id),
+      };
+      transfers.push(transfer);
+      recordTransferStatus(transfer, null, transfer.notes ?? 'Transfer requested');
+      return transfer;
+    },
+
+    // Same rules and bag handling as transition_stock_transfer()
+    async transitionStockTransfer(id, { status, reason, unitIds }) {
+      const transfer = transfers.find((t) => t.id === id);
+      if (!transfer) throw new Error(`transfer ${id} not found`);
+      if (!canTransitionTransfer(transfer.status, status)) {
+        throw new Error(`transfer cannot move from ${transfer.status} to ${status}`);
+      }
+
+      const reserved = () => bloodUnits.filter((u) => transferUnits.get(id)?.includes(u.id));
+      const now = new Date().toISOString();
+      if (status === 'approved') {
+        if (unitIds && unitIds.length !== transfer.units_requested) {
+          throw new Error(`${unitIds.length} bag(s) chosen, ${transfer.units_requested} requested`);
+        }
+        const picked = bloodUnits
+          .filter((u) =>
+            u.hospital_id === transfer.supplying_hospital_id &&
+            u.blood_group === transfer.blood_group &&
+            u.component === transfer.component &&
+            isInStock(u) &&
+            (!unitIds || unitIds.includes(u.id))
+          )
+          .sort(byExpiry)
+          .slice(0, transfer.units_requested);
+        if (picked.length < transfer.units_requested) {
+          throw new Error(`only ${picked.length} suitable ${transfer.blood_group} ${transfer.component} unit(s) available, ${transfer.units_requested} requested`);
+        }
+        picked.forEach((u) => changeBloodUnit(u, { status: 'reserved' }, reason ?? null));
+        transferUnits.set(id, picked.map((u) => u.id));
+        checkStockThreshold(transfer.supplying_hospital_id, transfer.blood_group);
+      } else if (status === 'rejected' || status === 'cancelled') {
+        reserved().filter((u) => u.status === 'reserved').forEach((u) => changeBloodUnit(u, { status: 'available' }, reason ?? null));
+      } else if (status === 'dispatched') {
+        if (reserved().some((u) => u.status !== 'reserved')) {
+          throw new Error('a bag reserved for this transfer has left stock; reject the transfer and request again');
+        }
+      } else if (status === 'received') {
+        reserved().forEach((u) => changeBloodUnit(u, {
+          hospital_id: transfer.requesting_hospital_id,
+          status: u.status === 'reserved' ? 'available' : u.status,
+          storage_location: null,
+          storage_unit_id: null,
+        }, reason ?? null));
+      }
+
+      const from = transfer.status;
+      Object.assign(transfer, {
+        status,
+        updated_at: now,
+        ...(status === 'approved' && { approved_at: now }),
+        ...(status === 'dispatched' && { dispatched_at: now }),
+        ...(status === 'received' && { received_at: now }),
+      });
+      recordTransferStatus(transfer, from, reason ?? null);
+      return transfer;
+    },
+
+    async listStockTransferHistory(transferIds) {
+      return transferHistory.filter((h) => transferIds.includes(h.transfer_id));
+    },
+
+    // Counts per hospital only, as find_blood_stock() shares them
+    async findBloodStock({ bloodGroup, component = 'red_cells', minUnits = 1 }) {
+      return hospitals
+        .filter((h) => h.is_active !== false)
+        .map((h) => ({
+          hospital_id: h.id,
+          name: h.name,
+          city: h.city,
+          phone: h.phone,
+          latitude: h.latitude,
+          longitude: h.longitude,
+          units_available: bloodUnits.filter((u) =>
+            u.hospital_id === h.id && u.blood_group === bloodGroup && u.component === component && isInStock(u)
+          ).length,
+        }))
+        .filter((row) => row.units_available >= Math.max(minUnits, 1))
+        .sort((a, b) => b.units_available - a.units_available || a.name.localeCompare(b.name));
+    },
+
+    async listStockThresholds(filters = {}) {
+      return thresholds
+        .filter((t) => matches(t.hospital_id, filters.hospitalId))
+        .sort((a, b) => a.blood_group.localeCompare(b.blood_group));
+    },
+
+    async saveStockThreshold(input) {
+      if (input.target_units <= input.min_units) throw new Error('The target must be above the minimum');
+      const now = new Date().toISOString();
+      let threshold = thresholds.find((t) => t.hospital_id === input.hospital_id && t.blood_group === input.blood_group);
+      if (threshold) {
+        Object.assign(threshold, { min_units: input.min_units, target_units: input.target_units, updated_at: now });
+      } else {
+        threshold = {
+          hospital_id: input.hospital_id,
+          blood_group: input.blood_group,
+          min_units: input.min_units,
+          target_units: input.target_units,
+          created_at: now,
+          updated_at: now,
+        };
+        thresholds.push(threshold);
+      }
+      checkStockThreshold(threshold.hospital_id, threshold.blood_group);
+      return threshold;
+    },
+
+    async deleteStockThreshold(hospitalId, bloodGroup) {
+      const index = thresholds.findIndex((t) => t.hospital_id === hospitalId && t.blood_group === bloodGroup);
+      if (index >= 0) thresholds.splice(index, 1);
+    },
+
+    async listStorageUnits(filters = {}) {
+      return storageUnits
+        .filter((unit) => matches(unit.hospital_id, filters.hospitalId))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async createStorageUnit(input) {
+      if (storageUnits.some((unit) => unit.hospital_id === input.hospital_id && unit.name === input.name.trim())) {
+        throw new Error(`a storage unit named ${input.name.trim()} already exists`);
+      }
+      const now = new Date().toISOString();
+      const unit: StorageUnitRow = {
+        id: crypto.randomUUID(),
+        hospital_id: input.hospital_id,
+        name: input.name.trim(),
+        kind: input.kind,
+        location: input.location ?? null,
+        device_key_hash: null,
+        is_active: input.is_active ?? true,
+        created_at: now,
+        updated_at: now,
+      };
+      storageUnits.push(unit);
+      return unit;
+    },
+
+    // Demo devices cannot post, but the key is issued the same way
+    async rotateStorageUnitKey(id) {
+      const unit = storageUnits.find((u) => u.id === id);
+      if (!unit) throw new Error(`storage unit ${id} not found`);
+      const key = Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+      Object.assign(unit, { device_key_hash: 'demo', updated_at: new Date().toISOString() });
+      return key;
+    },
+
+    async listTemperatureReadings({ storageUnitId, from, to }) {
+      return temperatureReadings
+        .filter((r) =>
+          r.storage_unit_id === storageUnitId &&
+          (!from || r.recorded_at >= from) &&
+          (!to || r.recorded_at <= to)
+        )
+        .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+    },
+
+    // Same ordering and duplicate rule as insert_temperature_readings()
+    async recordTemperatureReadings(storageUnitId, readings, source = 'csv') {
+      if (!storageUnits.some((u) => u.id === storageUnitId)) throw new Error(`storage unit ${storageUnitId} not found`);
+      const now = new Date().toISOString();
+      let added = 0;
+      const sorted = readings
+        .map((r) => ({ recorded_at: new Date(r.recorded_at).toISOString(), temperature_c: r.temperature_c }))
+        .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+      for (const { recorded_at, temperature_c } of sorted) {
+        if (temperatureReadings.some((r) => r.storage_unit_id === storageUnitId && r.recorded_at === recorded_at)) continue;
+        const reading: TemperatureReadingRow = {
+          id: crypto.randomUUID(),
+          storage_unit_id: storageUnitId,
+          recorded_at,
+          temperature_c,
+          source,
+          created_at: now,
+        };
+        temperatureReadings.push(reading);
+        detectExcursion(reading);
+        added++;
+      }
+      return added;
+    },
+
+    async listTemperatureExcursions({ storageUnitIds, component, openOnly }) {
+      return excursions
+        .filter((e) =>
+          storageUnitIds.includes(e.storage_unit_id) &&
+          matches(e.component, component) &&
+          (!openOnly || e.ended_at === null)
+        )
+        .sort((a, b) => b.started_at.localeCompare(a.started_at));
+    },
+
+    async listTemperatureExcursionUnits(excursionIds) {
+      return excursionUnits.filter((u) => excursionIds.includes(u.excursion_id));
+    },
+
+    async listPlasmaRequests(filters = {}) {
+      return newest(plasmaRequests.filter((r) => matches(r.hospital_id, filters.hospitalId) && matches(r.status, filters.status)));
+    },
+
+    async createPlasmaRequest(input) {
+      const now = new Date().toISOString();
+      const request: PlasmaRequestRow = {
+        id: crypto.randomUUID(),
+        hospital_id: input.hospital_id ?? null,
+        patient_name: input.patient_name,
+        diagnosis: input.diagnosis ?? null,
+        plasma_type: input.plasma_type,
+        required_units: input.required_units,
+        urgency: input.urgency ?? 'Medium',
+        status: input.status ?? 'pending',
+        created_at: now,
+        updated_at: now,
+      };
+      plasmaRequests.push(request);
+      return request;
+    },
+
+    async listNotifications(userId) {
+      return newest(notifications.filter((n) => n.user_id === userId));
+    },
+
+    async createNotification(input) {
+      notifications.push({
+        id: crypto.randomUUID(),
+        user_id: input.user_id,
+        user_type: input.user_type,
+        title: input.title,
+        message: input.message,
+        type: input.type ?? 'general',
+        data: (input.data ?? {}) as NotificationRow['data'],
+        is_read: false,
+        created_at: new Date().toISOString(),
+      });
+    },
+
+    async markNotificationsRead(userId, ids) {
+      notifications
+        .filter((n) => n.user_id === userId && (!ids || ids.includes(n.id)))
+        .forEach((n) => { n.is_read = true; });
+    },
+
+    async deleteNotification(id) {
+      const index = notifications.findIndex((n) => n.id === id);
+      if (index >= 0) notifications.splice(index, 1);
+    },
+
+    async getDashboardSummary() {
+      return buildDashboardSummary({
+        totalDonors: sampleStats.totalDonors,
+        availableDonors: sampleStats.availableDonors,
+        bloodUnits,
+        openRequests: requests.filter((r) => r.request_type === 'blood' && ['pending', 'accepted'].includes(r.status)),
+      });
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,15 @@
+// Selects where pages read their data from. Set VITE_DATA_MODE=demo to run
+// the app offline against the sample data in src/data/sampleData.ts;
+// anything else uses Supabase. The choice is fixed at build time and the
+// two sources are never mixed.
+import { createDemoProvider } from "./demo";
+import { supabaseProvider } from "./supabase";
+import type { DataMode, DataProvider } from "./types";
+
+export type { DashboardSummary, DataMode, DataProvider } from "./types";
+
+export const dataMode: DataMode = import.meta.env.VITE_DATA_MODE === 'demo' ? 'demo' : 'live';
+
+export const isDemoMode = dataMode === 'demo';
+
+export const dataProvider: DataProvider = isDemoMode ? createDemoProvider() : supabaseProvider;
@@ -0,0 +1,33 @@
+import {
+  summarizeByBloodGroup,
+  type BloodRequestRow,
+  type BloodUnitRow,
+} from "@/lib/repository";
+import type { DashboardSummary } from "./types";
+
+/** Builds the dashboard figures from raw rows so both providers compute them the same way. */
+export function buildDashboardSummary(source: {
+  totalDonors: number;
+  availableDonors: number;
+  /** Bags of every component; blood and plasma figures are both counted from them. */
+  bloodUnits: Array<Pick<BloodUnitRow, 'blood_group' | 'component' | 'status' | 'expires_at'>>;
+  openRequests: Array<Pick<BloodRequestRow, 'blood_group' | 'units_required'>>;
+}): DashboardSummary {
+  const required = new Map<string, number>();
+  for (const request of source.openRequests) {
+    required.set(request.blood_group, (required.get(request.blood_group) || 0) + request.units_required);
+  }
+
+  return {
+    totalDonors: source.totalDonors,
+    availableDonors: source.availableDonors,
+    bloodTypes: summarizeByBloodGroup(source.bloodUnits).map(({ type, units }) => ({
+      name: type,
+      available: units,
+      required: required.get(type) || 0,
+    })),
+    plasmaTypes: summarizeByBloodGroup(source.bloodUnits, ['plasma'])
+      .filter(({ units }) => units > 0)
+      .map(({ type, units }) => ({ plasma_type: type, units })),
+  };
+}
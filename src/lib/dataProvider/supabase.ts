@@ -0,0 +1,85 @@
+import * as repository from "@/lib/repository";
+import { buildDashboardSummary } from "./summary";
+import type { DataProvider } from "./types";
+
+export const supabaseProvider: DataProvider = {
+  mode: 'live',
+
+  listHospitals: repository.listHospitals,
+  getHospital: repository.getHospital,
+  createHospitalActivity: repository.createHospitalActivity,
+  listDonors: repository.listDonors,
+  getDonor: repository.getDonor,
+  listDonorReliability: repository.listDonorReliability,
+  setDonorCooldown: repository.setDonorCooldown,
+  getProfile: repository.getProfile,
+  updateProfile: repository.updateProfile,
+  deleteProfile: repository.deleteProfile,
+  listRequests: repository.listRequests,
+  getRequest: repository.getRequest,
+  createRequest: repository.createRequest,
+  transitionRequestStatus: repository.transitionRequestStatus,
+  listRequestStatusHistory: repository.listRequestStatusHistory,
+  listRequestPledges: repository.listRequestPledges,
+  pledgeToRequest: repository.pledgeToRequest,
+  updatePledgeStatus: repository.updatePledgeStatus,
+  listAppointments: repository.listAppointments,
+  listAppointmentSlots: repository.listAppointmentSlots,
+  bookAppointment: repository.bookAppointment,
+  transitionAppointment: repository.transitionAppointment,
+  rescheduleAppointment: repository.rescheduleAppointment,
+  listAppointmentHistory: repository.listAppointmentHistory,
+  getDonationSchedule: repository.getDonationSchedule,
+  saveDonationSchedule: repository.saveDonationSchedule,
+  listOpeningHours: repository.listOpeningHours,
+  saveOpeningHours: repository.saveOpeningHours,
+  deleteOpeningHours: repository.deleteOpeningHours,
+  getCalendarFeed: repository.getCalendarFeed,
+  issueCalendarFeed: repository.issueCalendarFeed,
+  revokeCalendarFeed: repository.revokeCalendarFeed,
+  listScreenings: repository.listScreenings,
+  recordScreening: repository.recordScreening,
+  listDonations: repository.listDonations,
+  listDeclarations: repository.listDeclarations,
+  getDeclaration: repository.getDeclaration,
+  getDeclarationAt: repository.getDeclarationAt,
+  createDeclaration: repository.createDeclaration,
+  listBloodUnits: repository.listBloodUnits,
+  createBloodUnit: repository.createBloodUnit,
+  adjustBloodUnit: repository.adjustBloodUnit,
+  listBloodUnitMovements: repository.listBloodUnitMovements,
+  subscribeToBloodUnits: repository.subscribeToBloodUnits,
+  issueBloodUnits: repository.issueBloodUnits,
+  separateDonation: repository.separateDonation,
+  listStockTransfers: repository.listStockTransfers,
+  createStockTransfer: repository.createStockTransfer,
+  transitionStockTransfer: repository.transitionStockTransfer,
+  listStockTransferHistory: repository.listStockTransferHistory,
+  findBloodStock: repository.findBloodStock,
+  listStockThresholds: repository.listStockThresholds,
+  saveStockThreshold: repository.saveStockThreshold,
+  deleteStockThreshold: repository.deleteStockThreshold,
+  listStorageUnits: repository.listStorageUnits,
+  createStorageUnit: repository.createStorageUnit,
+  rotateStorageUnitKey: repository.rotateStorageUnitKey,
+  listTemperatureReadings: repository.listTemperatureReadings,
+  recordTemperatureReadings: repository.recordTemperatureReadings,
+  listTemperatureExcursions: repository.listTemperatureExcursions,
+  listTemperatureExcursionUnits: repository.listTemperatureExcursionUnits,
+  listPlasmaRequests: repository.listPlasmaRequests,
+  createPlasmaRequest: repository.createPlasmaRequest,
+  listNotifications: repository.listNotifications,
+  createNotification: repository.createNotification,
+  markNotificationsRead: repository.markNotificationsRead,
+  deleteNotification: repository.deleteNotification,
+
+  async getDashboardSummary() {
+    const [totalDonors, availableDonors, bloodUnits, openRequests] = await Promise.all([
+      repository.countDonors(),
+      repository.countDonors({ availableOnly: true }),
+      repository.listBloodUnits({ status: 'available' }),
+      repository.listRequests({ requestType: 'blood', status: ['pending', 'accepted'] }),
+    ]);
+    return buildDashboardSummary({ totalDonors, availableDonors, bloodUnits, openRequests });
+  },
+};
@@ -0,0 +1,169 @@
+import type * as repository from "@/lib/repository";
+import type {
+  AppointmentHistoryRow,
+  AppointmentRow,
+  AppointmentSlot,
+  AppointmentWithDonor,
+  BloodRequestRow,
+  BloodRequestWithHospital,
+  BloodStockHolderRow,
+  BloodUnitRow,
+  BloodGroup,
+  BloodUnitMovementRow,
+  CalendarFeedOwner,
+  CalendarFeedRow,
+  DeclarationRow,
+  DonationRow,
+  DonationScheduleRow,
+  DonationType,
+  DonorReliabilityRow,
+  DonorRow,
+  HospitalRow,
+  NewDeclaration,
+  NewHospitalActivity,
+  NewBloodRequest,
+  NewBooking,
+  NewDonationSchedule,
+  NewBloodUnit,
+  NewNotification,
+  NewOpeningHours,
+  NewPlasmaRequest,
+  NewScreening,
+  NewStockThreshold,
+  NewStorageUnit,
+  NewTemperatureReading,
+  NewStockTransfer,
+  NotificationRow,
+  OpeningHoursRow,
+  PlasmaRequestRow,
+  PledgeStatus,
+  ProfileRow,
+  ProfileUpdate,
+  RequestPledgeRow,
+  RequestPledgeWithDonor,
+  RequestStatusHistoryRow,
+  ScreeningRow,
+  StockThresholdRow,
+  StockTransferHistoryRow,
+  StockTransferRow,
+  StockTransferWithHospitals,
+  StorageUnitRow,
+  TemperatureExcursionRow,
+  TemperatureExcursionUnitRow,
+  TemperatureReadingRow,
+} from "@/lib/repository";
+
+export type DataMode = 'live' | 'demo';
+
+type FiltersOf<F extends (...args: never[]) => unknown> = NonNullable<Parameters<F>[0]>;
+
+export interface DashboardSummary {
+  totalDonors: number;
+  availableDonors: number;
+  /** Units on hand against units still requested, per blood group. */
+  bloodTypes: { name: string; available: number; required: number }[];
+  plasmaTypes: { plasma_type: string; units: number }[];
+}
+
+/**
+ * Everything the pages read or write. Pages get one implementation for the
+ * whole session (see ./index.ts) and never fall back to the other, so live
+ * and demo data are never shown side by side.
+ */
+export interface DataProvider {
+  readonly mode: DataMode;
+
+  listHospitals(filters?: FiltersOf<typeof repository.listHospitals>): Promise<HospitalRow[]>;
+  getHospital(id: string): Promise<HospitalRow | null>;
+  createHospitalActivity(input: NewHospitalActivity): Promise<void>;
+
+  listDonors(filters?: FiltersOf<typeof repository.listDonors>): Promise<DonorRow[]>;
+  getDonor(id: string): Promise<DonorRow | null>;
+  listDonorReliability(donorIds: string[]): Promise<DonorReliabilityRow[]>;
+  /** Starts a donor's cooldown by hand; returns the new next eligible date. */
+  setDonorCooldown(donorId: string, donationType: DonationType): Promise<string>;
+
+  getProfile(id: string): Promise<ProfileRow | null>;
+  updateProfile(id: string, patch: ProfileUpdate): Promise<ProfileRow>;
+  deleteProfile(id: string): Promise<void>;
+
+  listRequests(filters?: FiltersOf<typeof repository.listRequests>): Promise<BloodRequestWithHospital[]>;
+  getRequest(id: string): Promise<BloodRequestWithHospital | null>;
+  createRequest(input: NewBloodRequest): Promise<BloodRequestRow>;
+  /** Use the helpers in @/lib/requestLifecycle, which check the step first. */
+  transitionRequestStatus(id: string, change: Parameters<typeof repository.transitionRequestStatus>[1]): Promise<BloodRequestRow>;
+  listRequestStatusHistory(requestIds: string[]): Promise<RequestStatusHistoryRow[]>;
+  listRequestPledges(filters?: FiltersOf<typeof repository.listRequestPledges>): Promise<RequestPledgeWithDonor[]>;
+  pledgeToRequest(requestId: string, options?: Parameters<typeof repository.pledgeToRequest>[1]): Promise<RequestPledgeRow>;
+  /** Use the helpers in @/lib/pledges, which check the step first. */
+  updatePledgeStatus(id: string, status: PledgeStatus): Promise<RequestPledgeRow>;
+
+  listAppointments(filters?: FiltersOf<typeof repository.listAppointments>): Promise<AppointmentWithDonor[]>;
+  listAppointmentSlots(hospitalId: string, from: string, days?: number): Promise<AppointmentSlot[]>;
+  bookAppointment(input: NewBooking): Promise<AppointmentRow>;
+  transitionAppointment(id: string, change: Parameters<typeof repository.transitionAppointment>[1]): Promise<AppointmentRow>;
+  rescheduleAppointment(id: string, change: Parameters<typeof repository.rescheduleAppointment>[1]): Promise<AppointmentRow>;
+  listAppointmentHistory(appointmentIds: string[]): Promise<AppointmentHistoryRow[]>;
+
+  getDonationSchedule(hospitalId: string): Promise<DonationScheduleRow | null>;
+  saveDonationSchedule(input: NewDonationSchedule): Promise<DonationScheduleRow>;
+  listOpeningHours(hospitalId: string): Promise<OpeningHoursRow[]>;
+  saveOpeningHours(input: NewOpeningHours): Promise<OpeningHoursRow>;
+  deleteOpeningHours(hospitalId: string, weekday: number): Promise<void>;
+
+  getCalendarFeed(ownerType: CalendarFeedOwner, ownerId: string): Promise<CalendarFeedRow | null>;
+  /** Returns the new feed URL; the previous one stops working. */
+  issueCalendarFeed(ownerType: CalendarFeedOwner, ownerId: string): Promise<string>;
+  revokeCalendarFeed(ownerType: CalendarFeedOwner, ownerId: string): Promise<void>;
+
+  listScreenings(filters?: FiltersOf<typeof repository.listScreenings>): Promise<ScreeningRow[]>;
+  recordScreening(input: NewScreening): Promise<ScreeningRow>;
+
+  listDonations(filters?: FiltersOf<typeof repository.listDonations>): Promise<DonationRow[]>;
+
+  listDeclarations(filters?: FiltersOf<typeof repository.listDeclarations>): Promise<DeclarationRow[]>;
+  getDeclaration(id: string): Promise<DeclarationRow | null>;
+  getDeclarationAt(donorId: string, at?: string): Promise<DeclarationRow | null>;
+  createDeclaration(input: NewDeclaration): Promise<DeclarationRow>;
+
+  listBloodUnits(filters?: FiltersOf<typeof repository.listBloodUnits>): Promise<BloodUnitRow[]>;
+  createBloodUnit(input: NewBloodUnit): Promise<BloodUnitRow>;
+  adjustBloodUnit(id: string, change: Parameters<typeof repository.adjustBloodUnit>[1]): Promise<BloodUnitRow>;
+  listBloodUnitMovements(bloodUnitIds: string[]): Promise<BloodUnitMovementRow[]>;
+  /** Returns a function that stops listening. */
+  subscribeToBloodUnits(hospitalId: string, onChange: () => void): () => void;
+  issueBloodUnits(input: Parameters<typeof repository.issueBloodUnits>[0]): Promise<BloodUnitRow[]>;
+  separateDonation(input: Parameters<typeof repository.separateDonation>[0]): Promise<BloodUnitRow[]>;
+
+  listStockTransfers(filters?: FiltersOf<typeof repository.listStockTransfers>): Promise<StockTransferWithHospitals[]>;
+  createStockTransfer(input: NewStockTransfer): Promise<StockTransferRow>;
+  transitionStockTransfer(id: string, change: Parameters<typeof repository.transitionStockTransfer>[1]): Promise<StockTransferRow>;
+  listStockTransferHistory(transferIds: string[]): Promise<StockTransferHistoryRow[]>;
+  findBloodStock(filters: FiltersOf<typeof repository.findBloodStock>): Promise<BloodStockHolderRow[]>;
+
+  listStockThresholds(filters?: FiltersOf<typeof repository.listStockThresholds>): Promise<StockThresholdRow[]>;
+  saveStockThreshold(input: NewStockThreshold): Promise<StockThresholdRow>;
+  deleteStockThreshold(hospitalId: string, bloodGroup: BloodGroup): Promise<void>;
+
+  listStorageUnits(filters?: FiltersOf<typeof repository.listStorageUnits>): Promise<StorageUnitRow[]>;
+  createStorageUnit(input: NewStorageUnit): Promise<StorageUnitRow>;
+  rotateStorageUnitKey(id: string): Promise<string>;
+  listTemperatureReadings(filters: FiltersOf<typeof repository.listTemperatureReadings>): Promise<TemperatureReadingRow[]>;
+  recordTemperatureReadings(
+    storageUnitId: string,
+    readings: NewTemperatureReading[],
+    source?: Parameters<typeof repository.recordTemperatureReadings>[2]
+  ): Promise<number>;
+  listTemperatureExcursions(filters: FiltersOf<typeof repository.listTemperatureExcursions>): Promise<TemperatureExcursionRow[]>;
+  listTemperatureExcursionUnits(excursionIds: string[]): Promise<TemperatureExcursionUnitRow[]>;
+
+  listPlasmaRequests(filters?: FiltersOf<typeof repository.listPlasmaRequests>): Promise<PlasmaRequestRow[]>;
+  createPlasmaRequest(input: NewPlasmaRequest): Promise<PlasmaRequestRow>;
+
+  listNotifications(userId: string): Promise<NotificationRow[]>;
+  createNotification(input: NewNotification): Promise<void>;
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+  deleteNotification(id: string): Promise<void>;
+
+  getDashboardSummary(): Promise<DashboardSummary>;
+}
@@ -0,0 +1,196 @@
+import { dataProvider } from "@/lib/dataProvider";
+import type { BloodRequestWithHospital, DonorReliabilityRow, DonorRow } from "@/lib/repository";
+import {
+  compatibleDonorGroups,
+  componentForRequest,
+  isBloodGroup,
+  MATCH_QUALITY_LABELS,
+  matchQuality,
+  type MatchQuality,
+} from "@/lib/compatibility";
+import { evaluateEligibility } from "@/lib/eligibility";
+
+// Scores donors for a request. Each factor is scored 0..1 and weighted; the
+// weights add up to 1 so the total reads as a percentage. Every factor keeps a
+// one-line explanation so staff can see why a donor was suggested.
+
+export const RANKING_WEIGHTS = {
+  compatibility: 0.3,
+  distance: 0.25,
+  eligibility: 0.2,
+  reliability: 0.15,
+  availability: 0.1,
+} as const;
+
+export type RankingFactorKey = keyof typeof RANKING_WEIGHTS;
+
+export const RANKING_FACTOR_LABELS: Record<RankingFactorKey, string> = {
+  compatibility: 'Compatibility',
+  distance: 'Distance',
+  eligibility: 'Cooldown',
+  reliability: 'Reliability',
+  availability: 'Availability',
+};
+
+/** Donors further away than this score zero for distance. */
+export const MAX_DISTANCE_KM = 50;
+
+const MATCH_SCORES: Record<MatchQuality, number> = {
+  identical: 1,
+  compatible: 0.8,
+  abo_mismatch: 0.5,
+  rh_substitution: 0.3,
+  incompatible: 0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RankingFactor {
+  key: RankingFactorKey;
+  label: string;
+  weight: number;
+  /** 0..1 before weighting. */
+  score: number;
+  detail: string;
+}
+
+export interface RankedDonor {
+  donor: DonorRow;
+  match: MatchQuality;
+  /** 0..100 */
+  score: number;
+  factors: RankingFactor[];
+}
+
+export interface RankingOptions {
+  reliability?: DonorReliabilityRow[];
+  now?: Date;
+  limit?: number;
+}
+
+type Coordinates = { latitude: number | null; longitude: number | null };
+type RankableRequest = Pick<BloodRequestWithHospital, 'blood_group' | 'request_type' | 'hospital'>;
+
+const hasCoordinates = (point: Coordinates | null | undefined): point is { latitude: number; longitude: number } =>
+  point?.latitude != null && point?.longitude != null;
+
+/** Great-circle distance in kilometres. */
+export function haversineKm(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.latitude - from.latitude);
+  const dLng = toRad(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
+
+const factor = (key: RankingFactorKey, score: number, detail: string): RankingFactor => ({
+  key,
+  label: RANKING_FACTOR_LABELS[key],
+  weight: RANKING_WEIGHTS[key],
+  score,
+  detail,
+});
+
+function distanceFactor(donor: DonorRow, hospital: RankableRequest['hospital']): RankingFactor {
+  if (hasCoordinates(donor) && hasCoordinates(hospital)) {
+    const km = haversineKm(donor, hospital);
+    return factor('distance', Math.max(0, 1 - km / MAX_DISTANCE_KM), `${km.toFixed(1)} km from ${hospital.name}`);
+  }
+  // Without coordinates the best we can do is the city name
+  const city = hospital?.city?.toLowerCase();
+  if (city && donor.location?.toLowerCase().includes(city)) {
+    return factor('distance', 0.6, `Same city as the hospital (${hospital.city})`);
+  }
+  return factor('distance', 0.25, 'Distance unknown');
+}
+
+function eligibilityFactor(donor: DonorRow, now: Date): RankingFactor {
+  // Hospitals only see the donor row, so this is the cooldown part of the rules
+  const eligibility = evaluateEligibility({ nextEligibleDate: donor.next_eligible_date }, { now });
+  if (!eligibility.eligibleFrom) {
+    return factor('eligibility', 1, 'Eligible to donate now');
+  }
+  const days = Math.ceil((eligibility.eligibleFrom.getTime() - now.getTime()) / DAY_MS);
+  return factor('eligibility', days <= 7 ? 0.3 : 0, `In cooldown for ${days} more day${days === 1 ? '' : 's'}`);
+}
+
+function reliabilityFactor(stats: DonorReliabilityRow | undefined): RankingFactor {
+  const notified = stats?.requests_notified ?? 0;
+  const attended = (stats?.appointments_kept ?? 0) + (stats?.appointments_missed ?? 0);
+  if (!stats || (notified === 0 && attended === 0)) {
+    return factor('reliability', 0.5, 'No response history yet');
+  }
+
+  const rates: number[] = [];
+  const details: string[] = [];
+  if (notified > 0) {
+    const accepted = Math.min(stats.requests_accepted, notified);
+    rates.push(accepted / notified);
+    details.push(`answered ${accepted} of ${notified} requests`);
+  }
+  if (attended > 0) {
+    rates.push(stats.appointments_kept / attended);
+    details.push(`missed ${stats.appointments_missed} of ${attended} appointments`);
+  }
+  const detail = details.join(', ');
+  return factor('reliability', rates.reduce((sum, rate) => sum + rate, 0) / rates.length, detail.charAt(0).toUpperCase() + detail.slice(1));
+}
+
+/** Scores one donor for a request, or returns null if they cannot give what it needs. */
+export function scoreDonor(
+  donor: DonorRow,
+  request: RankableRequest,
+  options: { reliability?: DonorReliabilityRow; now?: Date } = {},
+): RankedDonor | null {
+  if (!isBloodGroup(donor.blood_group) || !isBloodGroup(request.blood_group)) return null;
+
+  const component = componentForRequest(request.request_type);
+  const match = matchQuality(donor.blood_group, request.blood_group, { component });
+  if (match === 'incompatible') return null;
+
+  const factors = [
+    factor('compatibility', MATCH_SCORES[match], `${MATCH_QUALITY_LABELS[match]}: ${donor.blood_group} for a ${request.blood_group} patient`),
+    distanceFactor(donor, request.hospital),
+    eligibilityFactor(donor, options.now ?? new Date()),
+    reliabilityFactor(options.reliability),
+    factor('availability', donor.is_available ? 1 : 0, donor.is_available ? 'Marked available' : 'Marked unavailable'),
+  ];
+  const score = Math.round(100 * factors.reduce((sum, f) => sum + f.weight * f.score, 0));
+
+  return { donor, match, score, factors };
+}
+
+/** Compatible donors for a request, highest score first. */
+export function rankDonors(donors: DonorRow[], request: RankableRequest, options: RankingOptions = {}): RankedDonor[] {
+  const reliability = new Map((options.reliability ?? []).map((row) => [row.donor_id, row]));
+  const ranked = donors
+    .map((donor) => scoreDonor(donor, request, { reliability: reliability.get(donor.id), now: options.now }))
+    .filter((ranked): ranked is RankedDonor => ranked !== null)
+    .sort((a, b) => b.score - a.score || a.donor.name.localeCompare(b.donor.name));
+  return options.limit ? ranked.slice(0, options.limit) : ranked;
+}
+
+/**
+ * Loads the compatible donors for a request and ranks them. Reliability is
+ * only visible to hospital staff; for anyone else it is left out and every
+ * donor gets the neutral "no history" score.
+ */
+export async function rankDonorsForRequest(
+  request: RankableRequest,
+  options: Pick<RankingOptions, 'limit' | 'now'> = {},
+): Promise<RankedDonor[]> {
+  if (!isBloodGroup(request.blood_group)) return [];
+
+  const donors = await dataProvider.listDonors({
+    bloodGroups: compatibleDonorGroups(request.blood_group, { component: componentForRequest(request.request_type) }),
+  });
+
+  let reliability: DonorReliabilityRow[] = [];
+  try {
+    reliability = await dataProvider.listDonorReliability(donors.map((d) => d.id));
+  } catch (error) {
+    console.warn('Donor reliability unavailable, ranking without it:', error);
+  }
+
+  return rankDonors(donors, request, { ...options, reliability });
+}
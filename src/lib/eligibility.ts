@@ -0,0 +1,451 @@
+import { addDays, addMonths, addYears, differenceInYears } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Donor eligibility rules. Every screen that says whether someone can donate
+// goes through evaluateEligibility() so the health form, the profile page,
+// the assistant and hospital ranking cannot disagree. Thresholds live in a
+// versioned rule set: results record the version that produced them, and a
+// rule change means adding a new entry to ELIGIBILITY_RULE_SETS rather than
+// editing an old one.
+
+export const ELIGIBILITY_STATUSES = ['eligible', 'temporarily_deferred', 'permanently_deferred'] as const;
+export type EligibilityStatus = typeof ELIGIBILITY_STATUSES[number];
+
+export const DONOR_SEXES = ['female', 'male', 'other'] as const;
+export type DonorSex = typeof DONOR_SEXES[number];
+
+export const DEFERRAL_MEDICATIONS = [
+  'antibiotic',
+  'anticoagulant',
+  'isotretinoin',
+  'finasteride',
+  'dutasteride',
+  'acitretin',
+  'etretinate',
+] as const;
+export type DeferralMedication = typeof DEFERRAL_MEDICATIONS[number];
+
+export const VACCINES = [
+  'inactivated',
+  'covid_19',
+  'live_attenuated',
+  'rabies_post_exposure',
+  'hepatitis_b_immunoglobulin',
+] as const;
+export type Vaccine = typeof VACCINES[number];
+
+export const ELIGIBILITY_STATUS_LABELS: Record<EligibilityStatus, string> = {
+  eligible: 'Eligible',
+  temporarily_deferred: 'Temporarily deferred',
+  permanently_deferred: 'Permanently deferred',
+};
+
+export const MEDICATION_LABELS: Record<DeferralMedication, string> = {
+  antibiotic: 'Antibiotics',
+  anticoagulant: 'Blood thinners (e.g. warfarin)',
+  isotretinoin: 'Isotretinoin (acne)',
+  finasteride: 'Finasteride (hair loss, prostate)',
+  dutasteride: 'Dutasteride (prostate)',
+  acitretin: 'Acitretin (psoriasis)',
+  etretinate: 'Etretinate (psoriasis)',
+};
+
+export const VACCINE_LABELS: Record<Vaccine, string> = {
+  inactivated: 'Inactivated or toxoid (flu, tetanus, typhoid)',
+  covid_19: 'COVID-19',
+  live_attenuated: 'Live vaccine (MMR, yellow fever, oral polio)',
+  rabies_post_exposure: 'Rabies, after an animal bite',
+  hepatitis_b_immunoglobulin: 'Hepatitis B immunoglobulin',
+};
+
+export interface EligibilityRuleSet {
+  version: string;
+  minAge: number;
+  maxAge: number;
+  minWeightKg: number;
+  minHemoglobinGdl: Record<DonorSex, number>;
+  /** After delivery or the end of a pregnancy. */
+  pregnancyDeferralMonths: number;
+  surgeryDeferralMonths: number;
+  /** Tattoos, piercings and acupuncture. */
+  tattooDeferralMonths: number;
+  /** After returning from a malaria-endemic area. */
+  malariaTravelDeferralMonths: number;
+  /** Days after the last dose; null defers permanently. */
+  medicationDeferralDays: Record<DeferralMedication, number | null>;
+  vaccineDeferralDays: Record<Vaccine, number>;
+  /** Vitals checked at the pre-donation screening, as inclusive [min, max]. */
+  vitals: {
+    systolicBp: [number, number];
+    diastolicBp: [number, number];
+    pulseBpm: [number, number];
+    maxTemperatureC: number;
+  };
+}
+
+export const ELIGIBILITY_RULE_SETS: Record<string, EligibilityRuleSet> = {
+  '2025.1': {
+    version: '2025.1',
+    minAge: 18,
+    maxAge: 65,
+    minWeightKg: 50,
+    minHemoglobinGdl: { female: 12.5, male: 13, other: 12.5 },
+    pregnancyDeferralMonths: 12,
+    surgeryDeferralMonths: 12,
+    tattooDeferralMonths: 12,
+    malariaTravelDeferralMonths: 3,
+    medicationDeferralDays: {
+      antibiotic: 14,
+      anticoagulant: 7,
+      isotretinoin: 30,
+      finasteride: 30,
+      dutasteride: 180,
+      acitretin: 3 * 365,
+      etretinate: null,
+    },
+    vaccineDeferralDays: {
+      inactivated: 2,
+      covid_19: 14,
+      live_attenuated: 28,
+      rabies_post_exposure: 365,
+      hepatitis_b_immunoglobulin: 365,
+    },
+    vitals: {
+      systolicBp: [90, 180],
+      diastolicBp: [50, 100],
+      pulseBpm: [50, 100],
+      maxTemperatureC: 37.5,
+    },
+  },
+};
+
+export const CURRENT_ELIGIBILITY_RULES = ELIGIBILITY_RULE_SETS['2025.1'];
+
+type DateInput = string | Date | null | undefined;
+
+/** Everything the rules look at. Missing values are reported, not assumed. */
+export interface EligibilityInput {
+  dateOfBirth?: DateInput;
+  sex?: DonorSex | null;
+  weightKg?: number | null;
+  hemoglobinGdl?: number | null;
+  isPregnant?: boolean | null;
+  isBreastfeeding?: boolean | null;
+  lastPregnancyEndDate?: DateInput;
+  lastSurgeryDate?: DateInput;
+  lastTattooDate?: DateInput;
+  lastMalariaTravelDate?: DateInput;
+  medication?: DeferralMedication | null;
+  medicationLastDose?: DateInput;
+  vaccine?: Vaccine | null;
+  vaccinationDate?: DateInput;
+  hasHeartDisease?: boolean | null;
+  hasInsulinDiabetes?: boolean | null;
+  hasHypertension?: boolean | null;
+  /** End of the post-donation cooldown, from donors.next_eligible_date. */
+  nextEligibleDate?: DateInput;
+  /** Set when the last pre-donation screening deferred the donor. */
+  screeningDeferralReason?: string | null;
+  screeningDeferredUntil?: DateInput;
+}
+
+export type EligibilityRuleKey =
+  | 'age'
+  | 'weight'
+  | 'hemoglobin'
+  | 'pregnancy'
+  | 'surgery'
+  | 'tattoo'
+  | 'travel'
+  | 'medication'
+  | 'vaccination'
+  | 'conditions'
+  | 'screening'
+  | 'cooldown';
+
+export const ELIGIBILITY_RULE_LABELS: Record<EligibilityRuleKey, string> = {
+  age: 'Age',
+  weight: 'Weight',
+  hemoglobin: 'Hemoglobin',
+  pregnancy: 'Pregnancy and breastfeeding',
+  surgery: 'Recent surgery',
+  tattoo: 'Tattoos and piercings',
+  travel: 'Travel',
+  medication: 'Medication',
+  vaccination: 'Vaccination',
+  conditions: 'Medical conditions',
+  screening: 'Pre-donation screening',
+  cooldown: 'Time since last donation',
+};
+
+export interface EligibilityFinding {
+  rule: EligibilityRuleKey;
+  status: Exclude<EligibilityStatus, 'eligible'>;
+  reason: string;
+  /** When this deferral ends; null if it needs a review rather than a date. */
+  until: Date | null;
+}
+
+export interface EligibilityResult {
+  status: EligibilityStatus;
+  /** The finding that decides the status, in one sentence. */
+  reason: string;
+  /** Earliest date the donor may donate again; null when eligible now or not known. */
+  eligibleFrom: Date | null;
+  findings: EligibilityFinding[];
+  /** Rules that could not be checked because the answer is missing. */
+  missing: EligibilityRuleKey[];
+  rulesVersion: string;
+}
+
+const toDate = (value: DateInput): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+type Check = (input: EligibilityInput, rules: EligibilityRuleSet, now: Date) => Omit<EligibilityFinding, 'rule'> | 'missing' | null;
+
+const temporary = (reason: string, until: Date | null = null) => ({ status: 'temporarily_deferred' as const, reason, until });
+const permanent = (reason: string) => ({ status: 'permanently_deferred' as const, reason, until: null });
+
+/** Defers until `from` plus the given period, if that is still in the future. */
+const deferAfter = (from: DateInput, add: (date: Date) => Date, now: Date, reason: (until: Date) => string) => {
+  const start = toDate(from);
+  if (!start) return null;
+  const until = add(start);
+  return until > now ? temporary(reason(until), until) : null;
+};
+
+const CHECKS: Record<EligibilityRuleKey, Check> = {
+  age: (input, rules, now) => {
+    const born = toDate(input.dateOfBirth);
+    if (!born) return 'missing';
+    const age = differenceInYears(now, born);
+    if (age < rules.minAge) {
+      return temporary(`Donors must be at least ${rules.minAge}`, addYears(born, rules.minAge));
+    }
+    if (age > rules.maxAge) return permanent(`Donors must be ${rules.maxAge} or younger`);
+    return null;
+  },
+
+  weight: (input, rules) => {
+    if (input.weightKg == null) return 'missing';
+    return input.weightKg < rules.minWeightKg
+      ? temporary(`Donors must weigh at least ${rules.minWeightKg} kg`)
+      : null;
+  },
+
+  hemoglobin: (input, rules) => {
+    if (input.hemoglobinGdl == null) return 'missing';
+    const threshold = input.sex
+      ? rules.minHemoglobinGdl[input.sex]
+      : Math.min(...Object.values(rules.minHemoglobinGdl));
+    return input.hemoglobinGdl < threshold
+      ? temporary(`Hemoglobin ${input.hemoglobinGdl} g/dL is below ${threshold} g/dL; it will be re-tested at the next screening`)
+      : null;
+  },
+
+  pregnancy: (input, rules, now) => {
+    if (input.isPregnant) {
+      return temporary(`Not while pregnant; eligible ${rules.pregnancyDeferralMonths} months after delivery`);
+    }
+    const afterDelivery = deferAfter(
+      input.lastPregnancyEndDate,
+      (date) => addMonths(date, rules.pregnancyDeferralMonths),
+      now,
+      (until) => `Within ${rules.pregnancyDeferralMonths} months of a pregnancy, until ${formatDate(until)}`,
+    );
+    if (afterDelivery) return afterDelivery;
+    return input.isBreastfeeding ? temporary('Not while breastfeeding') : null;
+  },
+
+  surgery: (input, rules, now) =>
+    deferAfter(input.lastSurgeryDate, (date) => addMonths(date, rules.surgeryDeferralMonths), now,
+      (until) => `Surgery in the last ${rules.surgeryDeferralMonths} months, until ${formatDate(until)}`),
+
+  tattoo: (input, rules, now) =>
+    deferAfter(input.lastTattooDate, (date) => addMonths(date, rules.tattooDeferralMonths), now,
+      (until) => `Tattoo or piercing in the last ${rules.tattooDeferralMonths} months, until ${formatDate(until)}`),
+
+  travel: (input, rules, now) =>
+    deferAfter(input.lastMalariaTravelDate, (date) => addMonths(date, rules.malariaTravelDeferralMonths), now,
+      (until) => `Recent travel to a malaria area, until ${formatDate(until)}`),
+
+  medication: (input, rules, now) => {
+    if (!input.medication) return null;
+    const label = MEDICATION_LABELS[input.medication];
+    const days = rules.medicationDeferralDays[input.medication];
+    if (days === null) return permanent(`${label} defers donors permanently`);
+    if (!toDate(input.medicationLastDose)) return temporary(`Not while taking ${label.toLowerCase()}`);
+    return deferAfter(input.medicationLastDose, (date) => addDays(date, days), now,
+      (until) => `${label} taken recently, until ${formatDate(until)}`);
+  },
+
+  vaccination: (input, rules, now) => {
+    if (!input.vaccine) return null;
+    const label = VACCINE_LABELS[input.vaccine];
+    const days = rules.vaccineDeferralDays[input.vaccine];
+    if (!toDate(input.vaccinationDate)) return temporary(`${label} vaccination: date of vaccination required`);
+    return deferAfter(input.vaccinationDate, (date) => addDays(date, days), now,
+      (until) => `${label} vaccination, until ${formatDate(until)}`);
+  },
+
+  conditions: (input) => {
+    if (input.hasHeartDisease) return permanent('Heart disease defers donors permanently');
+    if (input.hasInsulinDiabetes) return permanent('Diabetes treated with insulin defers donors permanently');
+    if (input.hasHypertension) return temporary('Blood pressure must be confirmed in range at screening');
+    return null;
+  },
+
+  screening: (input, _rules, now) => {
+    if (!input.screeningDeferralReason) return null;
+    const until = toDate(input.screeningDeferredUntil);
+    if (until && until <= now) return null;
+    const reason = `Deferred at screening: ${input.screeningDeferralReason}`;
+    return temporary(until ? `${reason}, until ${formatDate(until)}` : reason, until);
+  },
+
+  cooldown: (input, _rules, now) => {
+    const until = toDate(input.nextEligibleDate);
+    return until && until > now ? temporary(`Recovering from the last donation, until ${formatDate(until)}`, until) : null;
+  },
+};
+
+/**
+ * Runs every rule against the donor's answers. Permanent deferrals win over
+ * temporary ones; a temporary deferral without an end date (low hemoglobin,
+ * pregnancy) leaves eligibleFrom null because it needs a fresh check rather
+ * than a wait.
+ */
+export function evaluateEligibility(
+  input: EligibilityInput,
+  options: { rules?: EligibilityRuleSet; now?: Date } = {},
+): EligibilityResult {
+  const rules = options.rules ?? CURRENT_ELIGIBILITY_RULES;
+  const now = options.now ?? new Date();
+  const findings: EligibilityFinding[] = [];
+  const missing: EligibilityRuleKey[] = [];
+
+  for (const rule of Object.keys(CHECKS) as EligibilityRuleKey[]) {
+    const outcome = CHECKS[rule](input, rules, now);
+    if (outcome === 'missing') missing.push(rule);
+    else if (outcome) findings.push({ rule, ...outcome });
+  }
+
+  const result = { findings, missing, rulesVersion: rules.version };
+  const permanentFinding = findings.find((finding) => finding.status === 'permanently_deferred');
+  if (permanentFinding) {
+    return { ...result, status: 'permanently_deferred', reason: permanentFinding.reason, eligibleFrom: null };
+  }
+
+  if (findings.length > 0) {
+    // The deferral that lasts longest is the one to explain
+    const undated = findings.find((finding) => finding.until === null);
+    const latest = findings.reduce((a, b) => (b.until! > a.until! ? b : a));
+    const deciding = undated ?? latest;
+    return { ...result, status: 'temporarily_deferred', reason: deciding.reason, eligibleFrom: undated ? null : latest.until };
+  }
+
+  const reason = missing.length > 0
+    ? `Eligible on the answers given; ${missing.map((rule) => ELIGIBILITY_RULE_LABELS[rule].toLowerCase()).join(', ')} still to be checked`
+    : 'Meets every eligibility rule';
+  return { ...result, status: 'eligible', reason, eligibleFrom: null };
+}
+
+type ProfileRow = Tables<'profiles'>;
+
+/** Maps the health columns on profiles (and the donor's cooldown) onto the rules input. */
+export function eligibilityInputFromProfile(
+  profile: Partial<ProfileRow>,
+  donor?: Pick<Tables<'donors'>, 'next_eligible_date'> | null,
+): EligibilityInput {
+  return {
+    dateOfBirth: profile.date_of_birth,
+    sex: profile.sex as DonorSex | null,
+    weightKg: profile.weight_kg,
+    hemoglobinGdl: profile.hemoglobin_g_dl,
+    isPregnant: profile.is_pregnant,
+    isBreastfeeding: profile.is_breastfeeding,
+    lastPregnancyEndDate: profile.last_pregnancy_end_date,
+    lastSurgeryDate: profile.last_surgery_date,
+    lastTattooDate: profile.last_tattoo_date,
+    lastMalariaTravelDate: profile.last_malaria_travel_date,
+    medication: profile.deferral_medication as DeferralMedication | null,
+    medicationLastDose: profile.deferral_medication_last_dose,
+    vaccine: profile.last_vaccine as Vaccine | null,
+    vaccinationDate: profile.last_vaccination_date,
+    hasHeartDisease: profile.has_heart_disease,
+    hasInsulinDiabetes: profile.has_insulin_diabetes,
+    hasHypertension: profile.has_hypertension,
+    nextEligibleDate: donor?.next_eligible_date,
+    screeningDeferralReason: profile.screening_deferral_reason,
+    screeningDeferredUntil: profile.screening_deferred_until,
+  };
+}
+
+/** What the screener measures before collection. */
+export interface ScreeningReadings {
+  hemoglobinGdl?: number | null;
+  systolicBp?: number | null;
+  diastolicBp?: number | null;
+  pulseBpm?: number | null;
+  temperatureC?: number | null;
+  weightKg?: number | null;
+}
+
+/**
+ * The readings that fall outside the rules, one sentence each, so the
+ * screening form can suggest a deferral. The screener still decides.
+ */
+export function screeningFailures(
+  readings: ScreeningReadings,
+  sex?: DonorSex | null,
+  rules: EligibilityRuleSet = CURRENT_ELIGIBILITY_RULES,
+): string[] {
+  const failures: string[] = [];
+  const outside = (value: number | null | undefined, [min, max]: [number, number]) =>
+    value != null && (value < min || value > max);
+
+  const hemoglobin = CHECKS.hemoglobin({ hemoglobinGdl: readings.hemoglobinGdl, sex }, rules, new Date());
+  if (hemoglobin && hemoglobin !== 'missing') failures.push(`Hemoglobin ${readings.hemoglobinGdl} g/dL is below the minimum`);
+  if (readings.weightKg != null && readings.weightKg < rules.minWeightKg) {
+    failures.push(`Weight ${readings.weightKg} kg is under ${rules.minWeightKg} kg`);
+  }
+  if (outside(readings.systolicBp, rules.vitals.systolicBp) || outside(readings.diastolicBp, rules.vitals.diastolicBp)) {
+    failures.push(`Blood pressure ${readings.systolicBp ?? '?'}/${readings.diastolicBp ?? '?'} is outside `
+      + `${rules.vitals.systolicBp.join('-')}/${rules.vitals.diastolicBp.join('-')}`);
+  }
+  if (outside(readings.pulseBpm, rules.vitals.pulseBpm)) {
+    failures.push(`Pulse ${readings.pulseBpm} bpm is outside ${rules.vitals.pulseBpm.join('-')}`);
+  }
+  if (readings.temperatureC != null && readings.temperatureC > rules.vitals.maxTemperatureC) {
+    failures.push(`Temperature ${readings.temperatureC} °C is above ${rules.vitals.maxTemperatureC} °C`);
+  }
+  return failures;
+}
+
+/** The columns a result is stored in on profiles. */
+export function eligibilityColumns(result: EligibilityResult, now = new Date()) {
+  return {
+    eligibility_status: result.status,
+    eligibility_reason: result.reason,
+    eligible_from: result.eligibleFrom ? result.eligibleFrom.toISOString().slice(0, 10) : null,
+    eligibility_rules_version: result.rulesVersion,
+    eligibility_checked_at: now.toISOString(),
+  };
+}
+
+/** Plain-language summary of the current rules, for help text and the assistant. */
+export function describeEligibilityRules(rules: EligibilityRuleSet = CURRENT_ELIGIBILITY_RULES): string {
+  return [
+    `You need to be ${rules.minAge}-${rules.maxAge} years old, weigh at least ${rules.minWeightKg} kg`,
+    `and have hemoglobin of at least ${rules.minHemoglobinGdl.female} g/dL (${rules.minHemoglobinGdl.male} g/dL for men).`,
+    `Pregnancy defers you until ${rules.pregnancyDeferralMonths} months after delivery, and breastfeeding until you stop;`,
+    `surgery and tattoos or piercings defer you for ${rules.surgeryDeferralMonths} and ${rules.tattooDeferralMonths} months,`,
+    `and travel to a malaria area for ${rules.malariaTravelDeferralMonths} months.`,
+    'Some medicines and vaccines add a short wait, and heart disease or insulin-treated diabetes rule donation out.',
+  ].join(' ');
+}
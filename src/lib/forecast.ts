@@ -0,0 +1,126 @@
+import { addDays, differenceInCalendarDays, subDays } from "date-fns";
+import {
+  BLOOD_GROUPS,
+  COMPONENT_SHELF_LIFE_DAYS,
+  RED_CELL_COMPONENTS,
+  isInStock,
+  type BloodComponent,
+  type BloodGroup,
+  type BloodRequestRow,
+  type BloodUnitRow,
+  type DonationRow,
+} from "@/lib/repository";
+
+// Projects how long a hospital's red cell stock will last per blood group.
+// Demand and supply are daily rates over a look-back window: demand is the
+// larger of the bags issued and the units asked for in blood requests (so a
+// hospital that could not issue still shows the need; restock requests
+// opened by the low-stock check are not demand), supply is the whole blood
+// it collected. The projection then runs day by day: new bags arrive at the
+// supply rate, bags leave at the demand rate earliest expiry first, and bags
+// past their expiry are lost.
+
+/** Days of history the rates are averaged over. */
+export const FORECAST_LOOKBACK_DAYS = 28;
+/** A group is flagged when it is projected to run out within this many days. */
+export const DEFAULT_FORECAST_HORIZON_DAYS = 7;
+export const FORECAST_HORIZON_OPTIONS = [3, 7, 14, 30];
+/** How far ahead the projection runs; stock lasting longer is reported as lasting. */
+export const FORECAST_PROJECTION_DAYS = 60;
+
+export interface StockForecast {
+  bloodGroup: BloodGroup;
+  inStock: number;
+  /** Units needed per day, averaged over the look-back window. */
+  dailyDemand: number;
+  /** Units collected per day, averaged over the look-back window. */
+  dailySupply: number;
+  /** Whole days the stock covers demand; null when it outlasts the projection. */
+  daysOfSupply: number | null;
+  runsOutOn: Date | null;
+  /** Runs out within the horizon. */
+  atRisk: boolean;
+  /** Projected units on hand at the end of each day, from today (day 0). */
+  projection: { day: number; units: number }[];
+}
+
+export interface ForecastInput {
+  /** The hospital's bags, in any state; issued ones count towards demand. */
+  units: Array<Pick<BloodUnitRow, 'blood_group' | 'component' | 'status' | 'expires_at' | 'issued_at'>>;
+  requests: Array<Pick<BloodRequestRow, 'blood_group' | 'units_required' | 'request_type' | 'status' | 'source' | 'created_at'>>;
+  donations: Array<Pick<DonationRow, 'blood_group' | 'units_donated' | 'donation_type' | 'donation_date'>>;
+  horizonDays?: number;
+  lookbackDays?: number;
+  now?: Date;
+}
+
+/** Red cell bags from a whole blood collection keep the shorter of the two shelf lives. */
+const SUPPLY_SHELF_LIFE_DAYS = Math.min(...RED_CELL_COMPONENTS.map((c) => COMPONENT_SHELF_LIFE_DAYS[c]));
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function forecastStock({
+  units,
+  requests,
+  donations,
+  horizonDays = DEFAULT_FORECAST_HORIZON_DAYS,
+  lookbackDays = FORECAST_LOOKBACK_DAYS,
+  now = new Date(),
+}: ForecastInput): StockForecast[] {
+  const since = subDays(now, lookbackDays);
+  const inWindow = (at: string | null) => !!at && new Date(at) >= since && new Date(at) <= now;
+  const redCells = (component: string) => RED_CELL_COMPONENTS.includes(component as BloodComponent);
+
+  return BLOOD_GROUPS.map((group): StockForecast => {
+    const stock = units.filter((u) => u.blood_group === group && redCells(u.component) && isInStock(u, now));
+    const issued = units.filter((u) => u.blood_group === group && redCells(u.component) && inWindow(u.issued_at)).length;
+    const requested = requests
+      .filter((r) => r.blood_group === group && r.request_type === 'blood' && r.source !== 'low_stock' && r.status !== 'cancelled' && inWindow(r.created_at))
+      .reduce((sum, r) => sum + r.units_required, 0);
+    const collected = donations
+      .filter((d) => d.blood_group === group && d.donation_type === 'blood' && inWindow(d.donation_date))
+      .reduce((sum, d) => sum + d.units_donated, 0);
+
+    const dailyDemand = Math.max(issued, requested) / lookbackDays;
+    const dailySupply = collected / lookbackDays;
+
+    // Batches of stock by the day they expire on, soonest first
+    const batches = stock
+      .map((u) => ({ expiresDay: differenceInCalendarDays(new Date(u.expires_at), now), units: 1 }))
+      .sort((a, b) => a.expiresDay - b.expiresDay);
+
+    const onHand = () => batches.reduce((sum, b) => sum + b.units, 0);
+    const projection = [{ day: 0, units: stock.length }];
+    let daysOfSupply: number | null = null;
+
+    for (let day = 1; day <= FORECAST_PROJECTION_DAYS; day++) {
+      while (batches.length && batches[0].expiresDay <= day) batches.shift();
+      if (dailySupply > 0) {
+        batches.push({ expiresDay: day + SUPPLY_SHELF_LIFE_DAYS, units: dailySupply });
+        batches.sort((a, b) => a.expiresDay - b.expiresDay);
+      }
+
+      let needed = dailyDemand;
+      while (needed > 1e-9 && batches.length) {
+        const taken = Math.min(needed, batches[0].units);
+        batches[0].units -= taken;
+        needed -= taken;
+        if (batches[0].units <= 1e-9) batches.shift();
+      }
+
+      projection.push({ day, units: round(onHand()) });
+      if (needed > 1e-9 && daysOfSupply === null) daysOfSupply = day - 1;
+    }
+
+    return {
+      bloodGroup: group,
+      inStock: stock.length,
+      dailyDemand: round(dailyDemand),
+      dailySupply: round(dailySupply),
+      daysOfSupply,
+      runsOutOn: daysOfSupply === null ? null : addDays(now, daysOfSupply),
+      atRisk: daysOfSupply !== null && daysOfSupply < horizonDays,
+      projection,
+    };
+  });
+}
@@ -1,16 +1,17 @@
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import type { DonationType } from "@/lib/repository";
 
 export async function logHospitalActivity(hospitalId: string | null, activityType: string, details: Record<string, any>) {
-  await supabase.from('hospital_activities').insert({
+  await dataProvider.createHospitalActivity({
     hospital_id: hospitalId,
     activity_type: activityType,
     details,
   });
 }
 
-export async function acknowledgeDonationReceived(donorUserId: string, donationType: 'blood' | 'plasma', hospitalId: string | null) {
+export async function acknowledgeDonationReceived(donorUserId: string, donationType: DonationType, hospitalId: string | null) {
   // Update cooldown via RPC
-  await supabase.rpc('set_donor_cooldown', { p_user_id: donorUserId, p_type: donationType });
+  await dataProvider.setDonorCooldown(donorUserId, donationType);
   // Log activity for audit
   await logHospitalActivity(hospitalId, 'donation_received', { donorUserId, donationType });
 }
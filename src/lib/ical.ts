@@ -0,0 +1,102 @@
+import { formatHospitalAddress, type AppointmentRow, type AppointmentWithDonor, type HospitalRow } from "@/lib/repository";
+
+// iCalendar (RFC 5545) files for single appointments. The subscribed feeds
+// are built by public.calendar_feed()
+// (supabase/migrations/20250209000000-calendar-feeds.sql); both write the
+// same UID and SEQUENCE, so a downloaded event and a feed event are one
+// appointment to calendar apps.
+
+type CalendarHospital = Pick<
+  HospitalRow,
+  'name' | 'address' | 'city' | 'state' | 'pincode' | 'phone' | 'email' | 'latitude' | 'longitude'
+>;
+
+/** Escapes a TEXT value: backslashes, semicolons, commas and newlines. */
+export const icalText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Instants are written in UTC, which every calendar app places correctly. */
+export const icalUtc = (at: string) => new Date(at).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** Folds a content line into 75-octet pieces without splitting a character. */
+export function icalFold(line: string): string {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let piece = '';
+  let limit = 75;
+  for (const char of line) {
+    if (encoder.encode(piece + char).length > limit) {
+      pieces.push(piece);
+      piece = '';
+      limit = 74;
+    }
+    piece += char;
+  }
+  return [...pieces, piece].join('\r\n ');
+}
+
+// The appointment's day and time as the hospital's clock shows it
+const localTime = (at: string, timeZone: string) =>
+  new Date(at).toLocaleString('en-GB', {
+    timeZone,
+    weekday: 'long',
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).replace(' at ', ', ');
+
+/** One VCALENDAR holding the appointment, written for the donor or for hospital staff. */
+export function appointmentCalendar(
+  appointment: AppointmentRow & { donor?: AppointmentWithDonor['donor'] },
+  hospital: CalendarHospital,
+  timeZone: string,
+  audience: 'donor' | 'hospital' = 'donor'
+): string {
+  const donor = appointment.donor;
+  const summary = audience === 'hospital'
+    ? `Donation: ${donor?.name ?? 'Donor'}${donor?.blood_group ? ` (${donor.blood_group})` : ''}${appointment.chair ? `, chair ${appointment.chair}` : ''}`
+    : `Blood donation at ${hospital.name}`;
+  const description = [
+    `${localTime(appointment.slot_start, timeZone)} (${timeZone})`,
+    `Hospital contact: ${[hospital.phone, hospital.email].filter(Boolean).join(', ')}`,
+    audience === 'hospital' && donor?.phone ? `Donor phone: ${donor.phone}` : null,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PulseConnect//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-TIMEZONE:${timeZone}`,
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@pulseconnect`,
+    `SEQUENCE:${appointment.ical_sequence}`,
+    `DTSTAMP:${icalUtc(appointment.updated_at)}`,
+    `DTSTART:${icalUtc(appointment.slot_start)}`,
+    `DTEND:${icalUtc(appointment.slot_end)}`,
+    `SUMMARY:${icalText(summary)}`,
+    `LOCATION:${icalText([hospital.name, formatHospitalAddress(hospital)].filter(Boolean).join(', '))}`,
+    hospital.latitude != null && hospital.longitude != null ? `GEO:${hospital.latitude};${hospital.longitude}` : null,
+    `DESCRIPTION:${icalText(description)}`,
+    `ORGANIZER;CN="${hospital.name.replace(/"/g, '')}":mailto:${hospital.email}`,
+    `STATUS:${appointment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.filter((line): line is string => line !== null).map(icalFold).join('\r\n') + '\r\n';
+}
+
+/** Saves the calendar as an .ics file that calendar apps open. */
+export function downloadCalendar(ics: string, filename: string) {
+  const blob = new Blob([ics], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,151 @@
+import { format, getDayOfYear, setDayOfYear } from "date-fns";
+import type { BloodGroup } from "@/lib/repository";
+
+// ISBT 128 data structures found on blood bag labels. Each barcode carries
+// one structure: a two-character data identifier followed by its data
+// content. Only the structures PulseConnect reads or prints are covered:
+//
+//   001 Donation identification number  =αppppyynnnnnnff
+//   002 Blood groups [ABO and RhD]       =%ggre
+//   003 Product code                     =<αooootds
+//   004 Expiration date                  =>cyyjjj
+//   005 Expiration date and time         &>cyyjjjhhmm
+//
+// A DIN's first character doubles as the second character of its data
+// identifier. Dates are a three-digit year counted from 2000 (cyy) and the
+// day of the year (jjj).
+
+/** ISO 7064 Mod 37-2 alphabet; a character's value is its index. */
+export const CHECK_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ*';
+
+/** ABO/RhD codes from data structure 002. */
+export const BLOOD_GROUP_CODES: Record<BloodGroup, string> = {
+  'O-': '95',
+  'O+': '51',
+  'A-': '06',
+  'A+': '62',
+  'B-': '17',
+  'B+': '73',
+  'AB-': '28',
+  'AB+': '84',
+};
+
+export type IsbtScan =
+  | { kind: 'din'; din: string; flags: string | null; checkCharacter: string }
+  | { kind: 'blood_group'; code: string; bloodGroup: BloodGroup | null }
+  | { kind: 'product'; code: string; descriptionCode: string; collectionType: string; division: string }
+  | { kind: 'expiry'; code: string; expiresAt: Date }
+  | { kind: 'invalid'; raw: string; error: string };
+
+const DIN_PATTERN = /^[A-NP-Z1-9][0-9]{4}[0-9]{2}[0-9]{6}$/;
+const PRODUCT_PATTERN = /^([A-Z][0-9]{4})([0-9A-Z])([0-9A-Z][0-9a-z])$/;
+
+/** The ISO 7064 Mod 37-2 check character for `data` (digits and capital letters). */
+export function checkCharacter(data: string): string {
+  let sum = 0;
+  for (const char of data) {
+    const value = CHECK_CHARACTERS.indexOf(char);
+    if (value < 0 || value > 35) throw new Error(`'${char}' cannot be check-summed`);
+    sum = ((sum + value) * 2) % 37;
+  }
+  return CHECK_CHARACTERS[(38 - sum) % 37];
+}
+
+const invalid = (raw: string, error: string): IsbtScan => ({ kind: 'invalid', raw, error });
+
+/**
+ * A donation identification number, either scanned (=DIN plus two flag
+ * characters) or typed from the eye-readable label (the DIN followed by the
+ * boxed check character). Flags 60 to 96 carry the check character too, and
+ * are verified like it.
+ */
+export function parseDin(raw: string): IsbtScan {
+  const text = raw.trim().toUpperCase().replace(/\s+/g, '');
+  let din: string;
+  let flags: string | null = null;
+  let typedCheck: string | null = null;
+
+  if (text.startsWith('=') && text.length === 16) {
+    din = text.slice(1, 14);
+    flags = text.slice(14);
+  } else if (text.length === 14) {
+    din = text.slice(0, 13);
+    typedCheck = text[13];
+  } else if (text.length === 13) {
+    din = text;
+  } else {
+    return invalid(raw, 'A donation number has 13 characters');
+  }
+
+  if (!DIN_PATTERN.test(din)) {
+    return invalid(raw, `${din} is not a donation identification number`);
+  }
+  const check = checkCharacter(din);
+  if (typedCheck !== null && typedCheck !== check) {
+    return invalid(raw, `Check character ${typedCheck} does not match ${din}; re-enter the number`);
+  }
+  if (flags && /^\d\d$/.test(flags) && Number(flags) >= 60 && Number(flags) <= 96 && CHECK_CHARACTERS[Number(flags) - 60] !== check) {
+    return invalid(raw, `Flag ${flags} does not match the check character of ${din}`);
+  }
+  return { kind: 'din', din, flags, checkCharacter: check };
+}
+
+export function parseBloodGroupCode(content: string): IsbtScan {
+  if (!/^[0-9A-Z]{2}[0-9A-Z][0-9A-Z]$/.test(content)) {
+    return invalid(content, 'A blood group code has four characters');
+  }
+  const code = content.slice(0, 2);
+  const bloodGroup = (Object.keys(BLOOD_GROUP_CODES) as BloodGroup[]).find((group) => BLOOD_GROUP_CODES[group] === code) ?? null;
+  return { kind: 'blood_group', code: content, bloodGroup };
+}
+
+export function parseProductCode(content: string): IsbtScan {
+  const match = PRODUCT_PATTERN.exec(content);
+  if (!match) return invalid(content, `${content} is not a product code`);
+  return { kind: 'product', code: content, descriptionCode: match[1], collectionType: match[2], division: match[3] };
+}
+
+/** Expiry as cyyjjj (end of that day) or cyyjjjhhmm, in local time. */
+export function parseExpiryCode(content: string): IsbtScan {
+  const match = /^(\d{3})(\d{3})(\d{2})?(\d{2})?$/.exec(content);
+  if (!match || (match[3] === undefined) !== (match[4] === undefined)) {
+    return invalid(content, `${content} is not an expiry date`);
+  }
+  const year = 2000 + Number(match[1]);
+  const day = Number(match[2]);
+  const [hours, minutes] = match[3] === undefined ? [23, 59] : [Number(match[3]), Number(match[4])];
+  const daysInYear = getDayOfYear(new Date(year, 11, 31));
+  if (day < 1 || day > daysInYear || hours > 23 || minutes > 59) {
+    return invalid(content, `${content} is not an expiry date`);
+  }
+  const expiresAt = setDayOfYear(new Date(year, 0, 1, hours, minutes), day);
+  return { kind: 'expiry', code: content, expiresAt };
+}
+
+/** Works out which structure a scan (or typed entry) is and parses it. */
+export function parseIsbtScan(raw: string): IsbtScan {
+  const text = raw.trim();
+  if (text.startsWith('=%')) return parseBloodGroupCode(text.slice(2));
+  if (text.startsWith('=<')) return parseProductCode(text.slice(2));
+  if (text.startsWith('=>') || text.startsWith('&>')) return parseExpiryCode(text.slice(2));
+  if (text.startsWith('=') || /^[A-Za-z0-9]{13,14}$/.test(text)) return parseDin(text);
+  return invalid(raw, 'Not an ISBT 128 label');
+}
+
+/** The DIN a bag number starts with, e.g. for component bags numbered DIN-RC. */
+export function dinFromBagNumber(bagNumber: string): string | null {
+  const din = bagNumber.slice(0, 13).toUpperCase();
+  return DIN_PATTERN.test(din) && (bagNumber.length === 13 || bagNumber[13] === '-') ? din : null;
+}
+
+/** 'A9999 24 123456' — how a DIN is printed, without its check character. */
+export const formatDin = (din: string) => `${din.slice(0, 5)} ${din.slice(5, 7)} ${din.slice(7)}`;
+
+const cyyjjj = (date: Date) =>
+  `${String(date.getFullYear() - 2000).padStart(3, '0')}${String(getDayOfYear(date)).padStart(3, '0')}`;
+
+/** Barcode text, data identifier included, for each structure a label prints. */
+export const encodeDin = (din: string) => `=${din}00`;
+export const encodeBloodGroup = (group: BloodGroup) => `=%${BLOOD_GROUP_CODES[group]}00`;
+export const encodeProductCode = (code: string) => `=<${code}`;
+export const encodeExpiry = (expiresAt: Date) => `&>${cyyjjj(expiresAt)}${format(expiresAt, 'HHmm')}`;
@@ -0,0 +1,62 @@
+import { dataProvider } from "@/lib/dataProvider";
+import type { BloodRequestRow, PledgeStatus, RequestPledgeRow } from "@/lib/repository";
+
+// Mirrors pledge_transition_allowed() in
+// supabase/migrations/20250126000000-request-pledges.sql. The request itself
+// is moved by the database as pledges come and go (fully pledged -> accepted,
+// fully collected -> fulfilled), so there is nothing to do for it here.
+export const PLEDGE_TRANSITIONS: Record<PledgeStatus, readonly PledgeStatus[]> = {
+  pledged: ['scheduled', 'withdrawn'],
+  scheduled: ['pledged', 'collected', 'withdrawn'],
+  withdrawn: ['pledged', 'scheduled'],
+  collected: [],
+};
+
+export const PLEDGE_STATUS_LABELS: Record<PledgeStatus, string> = {
+  pledged: 'Pledged',
+  scheduled: 'Scheduled',
+  collected: 'Collected',
+  withdrawn: 'Withdrawn',
+};
+
+export function canTransitionPledge(from: string, to: PledgeStatus): boolean {
+  return (PLEDGE_TRANSITIONS[from as PledgeStatus] ?? []).includes(to);
+}
+
+export async function transitionPledge(pledge: Pick<RequestPledgeRow, 'id' | 'status'>, to: PledgeStatus): Promise<RequestPledgeRow> {
+  if (!canTransitionPledge(pledge.status, to)) {
+    throw new Error(`A ${pledge.status} pledge cannot be marked ${to}`);
+  }
+  return dataProvider.updatePledgeStatus(pledge.id, to);
+}
+
+export function withdrawPledge(pledge: Pick<RequestPledgeRow, 'id' | 'status'>) {
+  return transitionPledge(pledge, 'withdrawn');
+}
+
+/** Also records the donation server-side, which starts the donor's cooldown. */
+export function markPledgeCollected(pledge: Pick<RequestPledgeRow, 'id' | 'status'>) {
+  return transitionPledge(pledge, 'collected');
+}
+
+export interface PledgeProgress {
+  required: number;
+  pledged: number;
+  scheduled: number;
+  collected: number;
+  /** Units still without a pledge; zero once the request is fully pledged. */
+  remaining: number;
+}
+
+export function pledgeProgress(
+  request: Pick<BloodRequestRow, 'units_required' | 'pledged_units' | 'scheduled_units' | 'collected_units'>,
+): PledgeProgress {
+  const committed = request.pledged_units + request.scheduled_units + request.collected_units;
+  return {
+    required: request.units_required,
+    pledged: request.pledged_units,
+    scheduled: request.scheduled_units,
+    collected: request.collected_units,
+    remaining: Math.max(0, request.units_required - committed),
+  };
+}
@@ -0,0 +1,273 @@
+import {
+  DEFERRAL_MEDICATIONS,
+  MEDICATION_LABELS,
+  VACCINE_LABELS,
+  VACCINES,
+  type DeferralMedication,
+  type DonorSex,
+  type EligibilityInput,
+  type Vaccine,
+} from "@/lib/eligibility";
+import { BLOOD_GROUPS, type ProfileRow } from "@/lib/repository";
+
+// The donor health questionnaire as data. Every submission is stored in
+// health_declarations with the version it was answered against, so a
+// published version must never change: new or reworded questions, or new
+// consent wording, go into a new entry in QUESTIONNAIRE_VERSIONS.
+
+export type QuestionKind = 'text' | 'longText' | 'number' | 'date' | 'boolean' | 'select';
+
+export interface Question {
+  /** Key of the answer in health_declarations.answers. */
+  key: string;
+  label: string;
+  kind: QuestionKind;
+  required?: boolean;
+  options?: { value: string; label: string }[];
+  placeholder?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Only asked once this select has an answer other than NO_ANSWER. */
+  askedAfter?: string;
+}
+
+export interface QuestionnaireSection {
+  title: string;
+  /** Shown under the title. */
+  hint?: string;
+  questions: Question[];
+}
+
+export interface QuestionnaireVersion {
+  version: string;
+  sections: QuestionnaireSection[];
+  /** Each statement needs its own tick before the form can be submitted. */
+  consent: string[];
+}
+
+export type Answer = string | boolean;
+export type Answers = Record<string, Answer>;
+
+/** Select answer for "none of these". */
+export const NO_ANSWER = 'none';
+
+export const QUESTIONNAIRE_VERSIONS: Record<string, QuestionnaireVersion> = {
+  '2025.1': {
+    version: '2025.1',
+    sections: [
+      {
+        title: 'Basic Information',
+        questions: [
+          { key: 'dateOfBirth', label: 'Date of Birth', kind: 'date', required: true },
+          { key: 'weight', label: 'Weight (kg)', kind: 'number', required: true, min: 1, step: 0.1 },
+          { key: 'height', label: 'Height (cm)', kind: 'number', required: true, min: 150, max: 200 },
+          {
+            key: 'sex',
+            label: 'Sex',
+            kind: 'select',
+            options: [
+              { value: 'female', label: 'Female' },
+              { value: 'male', label: 'Male' },
+              { value: 'other', label: 'Other' },
+            ],
+          },
+          { key: 'hemoglobin', label: 'Hemoglobin (g/dL), if known', kind: 'number', min: 1, step: 0.1 },
+          {
+            key: 'bloodType',
+            label: 'Blood Type',
+            kind: 'select',
+            required: true,
+            placeholder: 'Select your blood type',
+            options: BLOOD_GROUPS.map((group) => ({ value: group, label: group })),
+          },
+        ],
+      },
+      {
+        title: 'Medical Information',
+        questions: [
+          { key: 'medicalConditions', label: 'Medical Conditions', kind: 'longText', placeholder: 'List any current medical conditions' },
+          { key: 'medications', label: 'Current Medications', kind: 'longText', placeholder: 'List any medications you are currently taking' },
+          { key: 'allergies', label: 'Allergies', kind: 'longText', placeholder: 'List any allergies you have' },
+        ],
+      },
+      {
+        title: 'Health Status',
+        hint: 'Leave a date empty if it does not apply to you.',
+        questions: [
+          { key: 'isPregnant', label: 'Currently pregnant', kind: 'boolean' },
+          { key: 'isBreastfeeding', label: 'Currently breastfeeding', kind: 'boolean' },
+          { key: 'hasHeartDisease', label: 'Have heart disease', kind: 'boolean' },
+          { key: 'hasInsulinDiabetes', label: 'Have diabetes treated with insulin', kind: 'boolean' },
+          { key: 'hasHypertension', label: 'Have hypertension', kind: 'boolean' },
+          { key: 'lastPregnancyEndDate', label: 'End of last pregnancy', kind: 'date' },
+          { key: 'lastSurgeryDate', label: 'Last surgery', kind: 'date' },
+          { key: 'lastTattooDate', label: 'Last tattoo or piercing', kind: 'date' },
+          { key: 'lastMalariaTravelDate', label: 'Return from a malaria area', kind: 'date' },
+          {
+            key: 'deferralMedication',
+            label: 'Recent medication',
+            kind: 'select',
+            options: [
+              { value: NO_ANSWER, label: 'None of these' },
+              ...DEFERRAL_MEDICATIONS.map((medication) => ({ value: medication, label: MEDICATION_LABELS[medication] })),
+            ],
+          },
+          { key: 'medicationLastDose', label: 'Last dose (empty if still taking)', kind: 'date', askedAfter: 'deferralMedication' },
+          {
+            key: 'vaccine',
+            label: 'Recent vaccination',
+            kind: 'select',
+            options: [
+              { value: NO_ANSWER, label: 'None' },
+              ...VACCINES.map((vaccine) => ({ value: vaccine, label: VACCINE_LABELS[vaccine] })),
+            ],
+          },
+          { key: 'vaccinationDate', label: 'Vaccination date', kind: 'date', askedAfter: 'vaccine' },
+        ],
+      },
+      {
+        title: 'Emergency Contact',
+        questions: [
+          { key: 'emergencyContact', label: 'Emergency Contact Name', kind: 'text', required: true },
+          { key: 'emergencyPhone', label: 'Emergency Contact Phone', kind: 'text', required: true },
+        ],
+      },
+      {
+        title: 'Address Information',
+        questions: [
+          { key: 'address', label: 'Address', kind: 'text', required: true },
+          { key: 'city', label: 'City', kind: 'text', required: true },
+          { key: 'state', label: 'State', kind: 'text', required: true },
+          { key: 'zipCode', label: 'ZIP Code', kind: 'text', required: true },
+        ],
+      },
+    ],
+    consent: [
+      'The answers I have given are true and complete to the best of my knowledge.',
+      'I understand that giving false information may put patients at risk.',
+      'I agree to be screened before donating and to have my blood tested for infections, '
+        + 'and to be told of any result that affects my health.',
+      'I consent to PulseConnect and the hospitals I book with storing these answers and my donation records.',
+    ],
+  },
+};
+
+export const CURRENT_QUESTIONNAIRE = QUESTIONNAIRE_VERSIONS['2025.1'];
+
+export const questionsOf = (questionnaire: QuestionnaireVersion) =>
+  questionnaire.sections.flatMap((section) => section.questions);
+
+/** Blank answers for every question: false for ticks, NO_ANSWER for optional selects. */
+export function emptyAnswers(questionnaire: QuestionnaireVersion = CURRENT_QUESTIONNAIRE): Answers {
+  return Object.fromEntries(questionsOf(questionnaire).map((question) => [
+    question.key,
+    question.kind === 'boolean'
+      ? false
+      : question.kind === 'select' && question.options?.some((option) => option.value === NO_ANSWER) ? NO_ANSWER : '',
+  ]));
+}
+
+/** Whether a dependent question is asked, given the answers so far. */
+export const isAsked = (question: Question, answers: Answers) =>
+  !question.askedAfter || (!!answers[question.askedAfter] && answers[question.askedAfter] !== NO_ANSWER);
+
+/** The answers to the questions actually asked; dependent answers left behind are dropped. */
+export function askedAnswers(answers: Answers, questionnaire: QuestionnaireVersion = CURRENT_QUESTIONNAIRE): Answers {
+  return Object.fromEntries(questionsOf(questionnaire)
+    .filter((question) => isAsked(question, answers) && answers[question.key] !== undefined)
+    .map((question) => [question.key, answers[question.key]]));
+}
+
+/** Labels of required questions left blank. */
+export function unansweredQuestions(answers: Answers, questionnaire: QuestionnaireVersion = CURRENT_QUESTIONNAIRE): string[] {
+  return questionsOf(questionnaire)
+    .filter((question) => question.required && isAsked(question, answers) && (answers[question.key] ?? '') === '')
+    .map((question) => question.label);
+}
+
+/** The answer as it reads on a declaration, e.g. the option label rather than its key. */
+export function formatAnswer(question: Question, answer: Answer | undefined): string {
+  if (question.kind === 'boolean') return answer ? 'Yes' : 'No';
+  if (answer === undefined || answer === '' || answer === NO_ANSWER) return '—';
+  if (question.kind === 'select') return question.options?.find((option) => option.value === answer)?.label ?? String(answer);
+  if (question.kind === 'date') return new Date(String(answer)).toLocaleDateString();
+  return String(answer);
+}
+
+/** The wording agreed to, stored with the declaration. */
+export const consentText = (questionnaire: QuestionnaireVersion = CURRENT_QUESTIONNAIRE) =>
+  questionnaire.consent.join('\n');
+
+const text = (answers: Answers, key: string) => {
+  const value = answers[key];
+  return typeof value === 'string' && value !== '' && value !== NO_ANSWER ? value : null;
+};
+const number = (answers: Answers, key: string) => {
+  const value = text(answers, key);
+  return value === null ? null : parseFloat(value);
+};
+
+/** Maps answers to the current questionnaire onto the eligibility rules input. */
+export function eligibilityInputFromAnswers(answers: Answers): EligibilityInput {
+  return {
+    dateOfBirth: text(answers, 'dateOfBirth'),
+    sex: text(answers, 'sex') as DonorSex | null,
+    weightKg: number(answers, 'weight'),
+    hemoglobinGdl: number(answers, 'hemoglobin'),
+    isPregnant: answers.isPregnant === true,
+    isBreastfeeding: answers.isBreastfeeding === true,
+    lastPregnancyEndDate: text(answers, 'lastPregnancyEndDate'),
+    lastSurgeryDate: text(answers, 'lastSurgeryDate'),
+    lastTattooDate: text(answers, 'lastTattooDate'),
+    lastMalariaTravelDate: text(answers, 'lastMalariaTravelDate'),
+    medication: text(answers, 'deferralMedication') as DeferralMedication | null,
+    medicationLastDose: text(answers, 'medicationLastDose'),
+    vaccine: text(answers, 'vaccine') as Vaccine | null,
+    vaccinationDate: text(answers, 'vaccinationDate'),
+    hasHeartDisease: answers.hasHeartDisease === true,
+    hasInsulinDiabetes: answers.hasInsulinDiabetes === true,
+    hasHypertension: answers.hasHypertension === true,
+  };
+}
+
+/**
+ * The profile columns that hold the donor's current answers. Hemoglobin is
+ * measured at screening, so a typed value only fills an empty column.
+ */
+export function profileColumnsFromAnswers(answers: Answers, current?: Pick<ProfileRow, 'hemoglobin_g_dl'> | null) {
+  const input = eligibilityInputFromAnswers(answers);
+  const hemoglobin = current?.hemoglobin_g_dl == null && input.hemoglobinGdl != null
+    ? { hemoglobin_g_dl: input.hemoglobinGdl }
+    : {};
+  return {
+    date_of_birth: text(answers, 'dateOfBirth'),
+    sex: input.sex ?? null,
+    weight_kg: input.weightKg ?? null,
+    height_cm: number(answers, 'height'),
+    blood_type: text(answers, 'bloodType'),
+    medical_conditions: text(answers, 'medicalConditions'),
+    medications: text(answers, 'medications'),
+    allergies: text(answers, 'allergies'),
+    last_tattoo_date: text(answers, 'lastTattooDate'),
+    last_malaria_travel_date: text(answers, 'lastMalariaTravelDate'),
+    last_surgery_date: text(answers, 'lastSurgeryDate'),
+    is_pregnant: input.isPregnant ?? false,
+    is_breastfeeding: input.isBreastfeeding ?? false,
+    last_pregnancy_end_date: text(answers, 'lastPregnancyEndDate'),
+    deferral_medication: input.medication ?? null,
+    deferral_medication_last_dose: text(answers, 'medicationLastDose'),
+    last_vaccine: input.vaccine ?? null,
+    last_vaccination_date: text(answers, 'vaccinationDate'),
+    has_insulin_diabetes: input.hasInsulinDiabetes ?? false,
+    has_hypertension: input.hasHypertension ?? false,
+    has_heart_disease: input.hasHeartDisease ?? false,
+    emergency_contact_name: text(answers, 'emergencyContact'),
+    emergency_contact_phone: text(answers, 'emergencyPhone'),
+    address: text(answers, 'address'),
+    city: text(answers, 'city'),
+    state: text(answers, 'state'),
+    zip_code: text(answers, 'zipCode'),
+    ...hemoglobin,
+  };
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { appointmentBookingSchema, appointmentUpdateSchema, validate, type AppointmentStatus } from "./schema";
+
+export type AppointmentRow = Tables<'appointments'>;
+export type NewBooking = z.input<typeof appointmentBookingSchema>;
+export type AppointmentUpdate = z.input<typeof appointmentUpdateSchema>;
+export type AppointmentSlot = Database['public']['Functions']['list_appointment_slots']['Returns'][number];
+export type AppointmentHistoryRow = Tables<'appointment_history'>;
+
+export type AppointmentWithDonor = AppointmentRow & {
+  donor: Pick<Tables<'donors'>, 'id' | 'name' | 'blood_group' | 'phone'> | null;
+};
+
+const APPOINTMENT_WITH_DONOR = '*, donor:donors(id, name, blood_group, phone)';
+
+export async function listAppointments(filters: {
+  hospitalId?: string;
+  donorId?: string;
+  requestId?: string;
+  status?: AppointmentStatus | AppointmentStatus[];
+  /** Appointments starting at or after this time. */
+  from?: string;
+  /** Appointments starting before this time. */
+  to?: string;
+} = {}): Promise<AppointmentWithDonor[]> {
+  let query = supabase.from('appointments').select(APPOINTMENT_WITH_DONOR);
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+  if (filters.requestId) query = query.eq('request_id', filters.requestId);
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+  if (filters.from) query = query.gte('slot_start', filters.from);
+  if (filters.to) query = query.lt('slot_start', filters.to);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as AppointmentWithDonor[];
+}
+
+export async function getAppointment(id: string): Promise<AppointmentRow | null> {
+  const { data, error } = await supabase.from('appointments').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The slots of `days` days from `from` (a yyyy-MM-dd date in the
+ * hospital's time zone), with how many chairs are booked in each. Empty
+ * when the hospital has no schedule or is closed.
+ */
+export async function listAppointmentSlots(hospitalId: string, from: string, days = 1): Promise<AppointmentSlot[]> {
+  const { data, error } = await supabase.rpc('list_appointment_slots', {
+    p_hospital_id: hospitalId,
+    p_from: from,
+    p_days: days,
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Books the donor (the signed-in donor when `donor_id` is left out) into
+ * the first free chair of a slot from listAppointmentSlots().
+ */
+export async function bookAppointment(input: NewBooking): Promise<AppointmentRow> {
+  const values = validate(appointmentBookingSchema, input, 'booking');
+  const { data, error } = await supabase.rpc('book_appointment', {
+    p_hospital_id: values.hospital_id,
+    p_slot_start: values.slot_start,
+    p_donor_id: values.donor_id,
+    p_request_id: values.request_id ?? undefined,
+    p_notes: values.notes ?? undefined,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** True when a booking failed because the slot filled up or the donor is already booked then. */
+export const isSlotTaken = (error: unknown) => (error as { code?: string } | null)?.code === '23P01';
+
+/**
+ * Moves an appointment to `status` through the transition_appointment RPC,
+ * which rejects illegal steps, lets donors only cancel, and records the
+ * step with `reason`. Cancelling needs a reason; a cancelled or missed
+ * appointment frees its chair and hands the linked pledge back.
+ */
+export async function transitionAppointment(id: string, change: {
+  status: AppointmentStatus;
+  reason?: string;
+}): Promise<AppointmentRow> {
+  const { data, error } = await supabase.rpc('transition_appointment', {
+    p_appointment_id: id,
+    p_status: change.status,
+    p_reason: change.reason,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Moves an open appointment to another free slot from
+ * listAppointmentSlots(), keeping its id, request and pledge. Fails
+ * like bookAppointment() when the slot is taken.
+ */
+export async function rescheduleAppointment(id: string, change: {
+  slotStart: string;
+  reason: string;
+}): Promise<AppointmentRow> {
+  const { data, error } = await supabase.rpc('reschedule_appointment', {
+    p_appointment_id: id,
+    p_slot_start: change.slotStart,
+    p_reason: change.reason,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function listAppointmentHistory(appointmentIds: string[]): Promise<AppointmentHistoryRow[]> {
+  if (appointmentIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('appointment_history')
+    .select('*')
+    .in('appointment_id', appointmentIds)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function updateAppointment(id: string, patch: AppointmentUpdate): Promise<AppointmentRow> {
+  const values = validate(appointmentUpdateSchema, patch, 'appointment update');
+  const { data, error } = await supabase.from('appointments').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { addDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  BLOOD_GROUPS,
+  bloodUnitInsertSchema,
+  bloodUnitUpdateSchema,
+  validate,
+  type BloodComponent,
+  type BloodGroup,
+  type BloodUnitStatus,
+} from "./schema";
+
+export type BloodUnitRow = Tables<'blood_units'>;
+export type NewBloodUnit = z.input<typeof bloodUnitInsertSchema>;
+export type BloodUnitUpdate = z.input<typeof bloodUnitUpdateSchema>;
+export type BloodUnitMovementRow = Tables<'blood_unit_movements'>;
+
+/**
+ * Days a component keeps from collection, used when a bag is logged without
+ * an expiry. Plasma's is frozen storage. Mirrors component_shelf_life() in
+ * supabase/migrations/20250201000000-component-separation.sql.
+ */
+export const COMPONENT_SHELF_LIFE_DAYS: Record<BloodComponent, number> = {
+  whole_blood: 35,
+  red_cells: 42,
+  plasma: 365,
+  platelets: 5,
+};
+
+/** What a whole blood donation can be separated into. */
+export const SEPARABLE_COMPONENTS: BloodComponent[] = ['red_cells', 'plasma', 'platelets'];
+
+/** Appended to the source bag number to number a component bag, as component_bag_suffix() does. */
+export const COMPONENT_BAG_SUFFIXES: Partial<Record<BloodComponent, string>> = {
+  red_cells: 'RC',
+  plasma: 'FFP',
+  platelets: 'PLT',
+};
+
+/** Components that carry red cells, i.e. what a blood request is filled from. */
+export const RED_CELL_COMPONENTS: BloodComponent[] = ['whole_blood', 'red_cells'];
+
+export const defaultExpiry = (component: BloodComponent, collectedAt: Date) =>
+  addDays(collectedAt, COMPONENT_SHELF_LIFE_DAYS[component]);
+
+export async function listBloodUnits(filters: {
+  hospitalId?: string;
+  bloodGroup?: BloodGroup;
+  component?: BloodComponent;
+  status?: BloodUnitStatus | BloodUnitStatus[];
+} = {}): Promise<BloodUnitRow[]> {
+  let query = supabase.from('blood_units').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.bloodGroup) query = query.eq('blood_group', filters.bloodGroup);
+  if (filters.component) query = query.eq('component', filters.component);
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('expires_at').order('bag_number');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBloodUnit(input: NewBloodUnit): Promise<BloodUnitRow> {
+  const values = validate(bloodUnitInsertSchema, input, 'blood unit');
+  const { data, error } = await supabase.from('blood_units').insert(values as TablesInsert<'blood_units'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Changes a bag's status or storage through the adjust_blood_unit RPC,
+ * which records the change as a movement with `reason`. `version` is the
+ * version of the bag the change was based on; if someone has changed the
+ * bag since, nothing is saved and the error satisfies isStaleEdit().
+ */
+export async function adjustBloodUnit(
+  id: string,
+  change: BloodUnitUpdate & { version: number; reason: string }
+): Promise<BloodUnitRow> {
+  const { version, reason, ...patch } = change;
+  const values = validate(bloodUnitUpdateSchema, patch, 'blood unit update');
+  const { data, error } = await supabase.rpc('adjust_blood_unit', {
+    p_blood_unit_id: id,
+    p_expected_version: version,
+    p_changes: values,
+    p_reason: reason,
+  });
+  if (error) throw error;
+  // The RPC raises when nothing was saved; a null row must never pass as success
+  if (!data) throw new Error(`Blood unit ${id} was not found or cannot be edited`);
+  return data;
+}
+
+/** Whether an adjustment was rejected because the bag changed after it was loaded. */
+export const isStaleEdit = (error: unknown) => (error as { code?: string } | null)?.code === '40001';
+
+/** Movements of the given bags, oldest first. */
+export async function listBloodUnitMovements(bloodUnitIds: string[]): Promise<BloodUnitMovementRow[]> {
+  if (bloodUnitIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('blood_unit_movements')
+    .select('*')
+    .in('blood_unit_id', bloodUnitIds)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Calls `onChange` whenever a bag of the hospital is added or changed, by
+ * anyone, through Supabase Realtime. Returns a function that stops listening.
+ */
+export function subscribeToBloodUnits(hospitalId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`blood_units:${hospitalId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'blood_units', filter: `hospital_id=eq.${hospitalId}` },
+      () => onChange()
+    )
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Issues `units` bags through the issue_blood_units RPC, which picks the
+ * bags expiring first and fails without issuing anything when there are
+ * not enough in date. Returns the bags issued.
+ */
+export async function issueBloodUnits(input: {
+  hospitalId: string;
+  bloodGroup: BloodGroup;
+  component: BloodComponent;
+  units: number;
+  requestId?: string;
+}): Promise<BloodUnitRow[]> {
+  const { data, error } = await supabase.rpc('issue_blood_units', {
+    p_hospital_id: input.hospitalId,
+    p_blood_group: input.bloodGroup,
+    p_component: input.component,
+    p_units: input.units,
+    p_request_id: input.requestId,
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Separates a whole blood donation into component bags through the
+ * separate_donation RPC. The donation's whole blood bag, if logged, is
+ * marked processed. `storageLocations` says where each component is kept.
+ */
+export async function separateDonation(input: {
+  donationId: string;
+  components?: BloodComponent[];
+  storageLocations?: Partial<Record<BloodComponent, string>>;
+}): Promise<BloodUnitRow[]> {
+  const { data, error } = await supabase.rpc('separate_donation', {
+    p_donation_id: input.donationId,
+    p_components: input.components,
+    p_storage_locations: input.storageLocations,
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+/** Whether a bag can still be issued: available and not yet past its expiry. */
+export const isInStock = (unit: Pick<BloodUnitRow, 'status' | 'expires_at'>, now: Date = new Date()) =>
+  unit.status === 'available' && new Date(unit.expires_at) > now;
+
+/** First-expiry-first-out order, as issue_blood_units() picks bags. */
+export const byExpiry = (a: BloodUnitRow, b: BloodUnitRow) =>
+  a.expires_at.localeCompare(b.expires_at) || a.collected_at.localeCompare(b.collected_at) || a.bag_number.localeCompare(b.bag_number);
+
+/**
+ * Bags in stock per blood group, with every group present even when empty.
+ * Counts the red cell components unless told which to count.
+ */
+export function summarizeByBloodGroup(
+  units: Array<Pick<BloodUnitRow, 'blood_group' | 'component' | 'status' | 'expires_at'>>,
+  components: BloodComponent[] = RED_CELL_COMPONENTS,
+  now: Date = new Date()
+): { type: BloodGroup; units: number }[] {
+  const totals = new Map<string, number>(BLOOD_GROUPS.map((group) => [group, 0]));
+  for (const unit of units) {
+    if (!components.includes(unit.component as BloodComponent) || !isInStock(unit, now)) continue;
+    totals.set(unit.blood_group, (totals.get(unit.blood_group) || 0) + 1);
+  }
+  return BLOOD_GROUPS.map((group) => ({ type: group, units: totals.get(group) || 0 }));
+}
@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { CalendarFeedOwner } from "./schema";
+
+export type CalendarFeedRow = Tables<'calendar_feeds'>;
+
+/** The owner's feed, live or revoked, or null if none was ever issued. */
+export async function getCalendarFeed(ownerType: CalendarFeedOwner, ownerId: string): Promise<CalendarFeedRow | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('owner_type', ownerType)
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * The URL calendar apps subscribe to. Calendar apps cannot send headers,
+ * so the public API key rides along in the query string.
+ */
+export function calendarFeedUrl(token: string): string {
+  const url = new URL('/rest/v1/rpc/calendar_feed', import.meta.env.VITE_SUPABASE_URL);
+  url.searchParams.set('p_token', token);
+  url.searchParams.set('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY ?? '');
+  return url.toString();
+}
+
+/**
+ * Issues a new feed URL for a donor or hospital (see calendar_feed). The
+ * URL is only ever shown here; any earlier one stops working.
+ */
+export async function issueCalendarFeed(ownerType: CalendarFeedOwner, ownerId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('issue_calendar_feed', { p_owner_type: ownerType, p_owner_id: ownerId });
+  if (error) throw error;
+  return calendarFeedUrl(data);
+}
+
+export async function revokeCalendarFeed(ownerType: CalendarFeedOwner, ownerId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_calendar_feed', { p_owner_type: ownerType, p_owner_id: ownerId });
+  if (error) throw error;
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  storageUnitInsertSchema,
+  temperatureReadingSchema,
+  validate,
+  type BloodComponent,
+  type TemperatureSource,
+} from "./schema";
+
+export type StorageUnitRow = Tables<'storage_units'>;
+export type NewStorageUnit = z.input<typeof storageUnitInsertSchema>;
+export type StorageUnitUpdate = Partial<Omit<NewStorageUnit, 'hospital_id'>>;
+export type TemperatureReadingRow = Tables<'temperature_readings'>;
+export type NewTemperatureReading = z.input<typeof temperatureReadingSchema>;
+export type TemperatureExcursionRow = Tables<'temperature_excursions'>;
+export type TemperatureExcursionUnitRow = Tables<'temperature_excursion_units'>;
+
+export async function listStorageUnits(filters: { hospitalId?: string } = {}): Promise<StorageUnitRow[]> {
+  let query = supabase.from('storage_units').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+
+  const { data, error } = await query.order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createStorageUnit(input: NewStorageUnit): Promise<StorageUnitRow> {
+  const values = validate(storageUnitInsertSchema, input, 'storage unit');
+  const { data, error } = await supabase
+    .from('storage_units')
+    .insert(values as TablesInsert<'storage_units'>)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateStorageUnit(id: string, patch: StorageUnitUpdate): Promise<StorageUnitRow> {
+  const values = validate(storageUnitInsertSchema.omit({ hospital_id: true }).partial(), patch, 'storage unit update');
+  const { data, error } = await supabase.from('storage_units').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Issues a new key for a unit's temperature logger to post readings with
+ * (see ingest_temperature_readings). The key is only ever shown here; the
+ * previous one stops working.
+ */
+export async function rotateStorageUnitKey(id: string): Promise<string> {
+  const { data, error } = await supabase.rpc('rotate_storage_unit_key', { p_storage_unit_id: id });
+  if (error) throw error;
+  return data;
+}
+
+/** Readings for one unit, oldest first, optionally within [from, to]. */
+export async function listTemperatureReadings(filters: {
+  storageUnitId: string;
+  from?: string;
+  to?: string;
+}): Promise<TemperatureReadingRow[]> {
+  let query = supabase.from('temperature_readings').select('*').eq('storage_unit_id', filters.storageUnitId);
+  if (filters.from) query = query.gte('recorded_at', filters.from);
+  if (filters.to) query = query.lte('recorded_at', filters.to);
+
+  const { data, error } = await query.order('recorded_at');
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Stores readings for a unit through the record_temperature_readings RPC,
+ * which checks each against the ranges of the components held there,
+ * opens or closes excursions and quarantines affected bags. Readings
+ * already stored for the same time are skipped; returns how many were added.
+ */
+export async function recordTemperatureReadings(
+  storageUnitId: string,
+  readings: NewTemperatureReading[],
+  source: Exclude<TemperatureSource, 'device'> = 'csv'
+): Promise<number> {
+  const values = readings.map((reading, i) => validate(temperatureReadingSchema, reading, `reading ${i + 1}`));
+  const { data, error } = await supabase.rpc('record_temperature_readings', {
+    p_storage_unit_id: storageUnitId,
+    p_readings: values,
+    p_source: source,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Excursions in the given units, most recent first. */
+export async function listTemperatureExcursions(filters: {
+  storageUnitIds: string[];
+  component?: BloodComponent;
+  openOnly?: boolean;
+}): Promise<TemperatureExcursionRow[]> {
+  if (filters.storageUnitIds.length === 0) return [];
+  let query = supabase.from('temperature_excursions').select('*').in('storage_unit_id', filters.storageUnitIds);
+  if (filters.component) query = query.eq('component', filters.component);
+  if (filters.openOnly) query = query.is('ended_at', null);
+
+  const { data, error } = await query.order('started_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/** The bags each excursion quarantined. */
+export async function listTemperatureExcursionUnits(excursionIds: string[]): Promise<TemperatureExcursionUnitRow[]> {
+  if (excursionIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('temperature_excursion_units')
+    .select('*')
+    .in('excursion_id', excursionIds);
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { declarationInsertSchema, validate } from "./schema";
+
+export type DeclarationRow = Tables<'health_declarations'>;
+export type NewDeclaration = z.input<typeof declarationInsertSchema>;
+
+export async function listDeclarations(filters: { donorId?: string } = {}): Promise<DeclarationRow[]> {
+  let query = supabase.from('health_declarations').select('*');
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+
+  const { data, error } = await query.order('consented_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getDeclaration(id: string): Promise<DeclarationRow | null> {
+  const { data, error } = await supabase.from('health_declarations').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** The declaration the donor had made by `at` (default now), if any. */
+export async function getDeclarationAt(donorId: string, at?: string): Promise<DeclarationRow | null> {
+  const { data, error } = await supabase.rpc('health_declaration_at', { p_donor_id: donorId, p_at: at });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+/** Declarations are append-only; the consent time is set by the database. */
+export async function createDeclaration(input: NewDeclaration): Promise<DeclarationRow> {
+  const values = validate(declarationInsertSchema, input, 'health declaration');
+  const { data, error } = await supabase.from('health_declarations').insert(values as TablesInsert<'health_declarations'>).select().single();
+  if (error) throw error;
+  return data;
+}
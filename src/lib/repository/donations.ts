@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { donationInsertSchema, validate, type DonationType } from "./schema";
+
+export type DonationRow = Tables<'donations'>;
+export type NewDonation = z.input<typeof donationInsertSchema>;
+export type DonationUpdate = Partial<Omit<NewDonation, 'hospital_id' | 'donor_id'>>;
+
+export async function listDonations(filters: {
+  hospitalId?: string;
+  donorId?: string;
+  donorIds?: string[];
+  donationType?: DonationType;
+  verified?: boolean;
+} = {}): Promise<DonationRow[]> {
+  let query = supabase.from('donations').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+  if (filters.donorIds) query = query.in('donor_id', filters.donorIds);
+  if (filters.donationType) query = query.eq('donation_type', filters.donationType);
+  if (filters.verified !== undefined) query = query.eq('verified', filters.verified);
+
+  const { data, error } = await query.order('donation_date', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getDonation(id: string): Promise<DonationRow | null> {
+  const { data, error } = await supabase.from('donations').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function createDonation(input: NewDonation): Promise<DonationRow> {
+  const values = validate(donationInsertSchema, input, 'donation');
+  const { data, error } = await supabase.from('donations').insert(values as TablesInsert<'donations'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDonation(id: string, patch: DonationUpdate): Promise<DonationRow> {
+  const values = validate(donationInsertSchema.omit({ hospital_id: true, donor_id: true }).partial(), patch, 'donation update');
+  const { data, error } = await supabase.from('donations').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { donorInsertSchema, validate, type BloodGroup, type DonationType } from "./schema";
+
+export type DonorRow = Tables<'donors'>;
+export type NewDonor = z.input<typeof donorInsertSchema>;
+export type DonorUpdate = Partial<Omit<NewDonor, 'id'>>;
+export type DonorReliabilityRow = Database['public']['Functions']['donor_reliability']['Returns'][number];
+
+// A PostgREST filter value for `ilike` that matches `term` anywhere, taken
+// literally: LIKE wildcards are escaped, and the value is quoted so commas
+// and parentheses cannot start another filter
+const containsPattern = (term: string) => {
+  const like = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+  return `"${like.replace(/["\\]/g, '\\$&')}"`;
+};
+
+export async function listDonors(filters: {
+  bloodGroups?: BloodGroup[];
+  availableOnly?: boolean;
+  search?: string;
+} = {}): Promise<DonorRow[]> {
+  let query = supabase.from('donors').select('*');
+  if (filters.bloodGroups?.length) query = query.in('blood_group', filters.bloodGroups);
+  if (filters.availableOnly) query = query.eq('is_available', true);
+  if (filters.search) {
+    const pattern = containsPattern(filters.search);
+    query = query.or(`name.ilike.${pattern},location.ilike.${pattern}`);
+  }
+
+  const { data, error } = await query.order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function countDonors(filters: { availableOnly?: boolean } = {}): Promise<number> {
+  let query = supabase.from('donors').select('*', { count: 'exact', head: true });
+  if (filters.availableOnly) query = query.eq('is_available', true);
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export async function getDonor(id: string): Promise<DonorRow | null> {
+  const { data, error } = await supabase.from('donors').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function createDonor(input: NewDonor): Promise<DonorRow> {
+  const values = validate(donorInsertSchema, input, 'donor');
+  const { data, error } = await supabase.from('donors').insert(values as TablesInsert<'donors'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDonor(id: string, patch: DonorUpdate): Promise<DonorRow> {
+  const values = validate(donorInsertSchema.omit({ id: true }).partial(), patch, 'donor update');
+  const { data, error } = await supabase.from('donors').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Starts a donor's post-donation cooldown by hand, for donations logged
+ * without a donations row; recording a donation starts it on its own. Runs
+ * through the set_donor_cooldown RPC because hospitals cannot update donor
+ * rows directly under RLS. Returns the new next_eligible_date.
+ */
+export async function setDonorCooldown(donorId: string, donationType: DonationType): Promise<string> {
+  const { data, error } = await supabase.rpc('set_donor_cooldown', { p_user_id: donorId, p_type: donationType });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Notification, acceptance and appointment counts for each donor, used to
+ * rank donors for a request. Hospital staff and admins only.
+ */
+export async function listDonorReliability(donorIds: string[]): Promise<DonorReliabilityRow[]> {
+  if (donorIds.length === 0) return [];
+  const { data, error } = await supabase.rpc('donor_reliability', { p_donor_ids: donorIds });
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { hospitalInsertSchema, validate } from "./schema";
+
+export type HospitalRow = Tables<'hospitals'>;
+export type NewHospital = z.input<typeof hospitalInsertSchema>;
+export type HospitalUpdate = Partial<Omit<NewHospital, 'id'>>;
+export type HospitalActivityRow = Tables<'hospital_activities'>;
+export type NewHospitalActivity = TablesInsert<'hospital_activities'>;
+
+export async function listHospitals(filters: { activeOnly?: boolean; city?: string } = {}): Promise<HospitalRow[]> {
+  let query = supabase.from('hospitals').select('*');
+  if (filters.activeOnly) query = query.eq('is_active', true);
+  if (filters.city) query = query.eq('city', filters.city);
+
+  const { data, error } = await query.order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getHospital(id: string): Promise<HospitalRow | null> {
+  const { data, error } = await supabase.from('hospitals').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function createHospital(input: NewHospital): Promise<HospitalRow> {
+  const values = validate(hospitalInsertSchema, input, 'hospital');
+  const { data, error } = await supabase.from('hospitals').insert(values as TablesInsert<'hospitals'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateHospital(id: string, patch: HospitalUpdate): Promise<HospitalRow> {
+  const values = validate(hospitalInsertSchema.omit({ id: true }).partial(), patch, 'hospital update');
+  const { data, error } = await supabase.from('hospitals').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
+
+/** Single-line contact string used across hospital cards. */
+/** Appends an entry to a hospital's audit log. */
+export async function createHospitalActivity(input: NewHospitalActivity): Promise<void> {
+  const { error } = await supabase.from('hospital_activities').insert(input);
+  if (error) throw error;
+}
+
+export function formatHospitalContact(hospital: Pick<HospitalRow, 'phone' | 'email'>): string {
+  return hospital.phone || hospital.email;
+}
+
+/** Single-line address built from the structured address columns. */
+export function formatHospitalAddress(hospital: Pick<HospitalRow, 'address' | 'city' | 'state' | 'pincode'>): string {
+  return [hospital.address, hospital.city, hospital.state, hospital.pincode].filter(Boolean).join(', ');
+}
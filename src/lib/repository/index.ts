@@ -0,0 +1,24 @@
+// Typed data-access layer over the tables defined in
+// supabase/migrations/20250120000000-pulseconnect-complete-schema.sql.
+// Pages and components should read and write through these functions
+// rather than calling supabase.from(...) directly.
+export * from "./schema";
+export * from "./hospitals";
+export * from "./donors";
+export * from "./profiles";
+export * from "./requests";
+export * from "./pledges";
+export * from "./appointments";
+export * from "./schedules";
+export * from "./calendarFeeds";
+export * from "./inventory";
+export * from "./bloodUnits";
+export * from "./transfers";
+export * from "./thresholds";
+export * from "./coldChain";
+export * from "./plasmaRequests";
+export * from "./notifications";
+export * from "./donations";
+export * from "./screenings";
+export * from "./declarations";
+export * from "./ledger";
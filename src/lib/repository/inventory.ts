@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  bloodInventoryInsertSchema,
+  plasmaInventoryInsertSchema,
+  validate,
+  type BloodGroup,
+  type InventoryStatus,
+} from "./schema";
+
+export type BloodInventoryRow = Tables<'blood_inventory'>;
+export type PlasmaInventoryRow = Tables<'plasma_inventory'>;
+export type NewBloodInventory = z.input<typeof bloodInventoryInsertSchema>;
+export type NewPlasmaInventory = z.input<typeof plasmaInventoryInsertSchema>;
+export type BloodInventoryUpdate = Partial<Omit<NewBloodInventory, 'hospital_id'>>;
+export type PlasmaInventoryUpdate = Partial<Omit<NewPlasmaInventory, 'hospital_id'>>;
+
+type InventoryFilters = { hospitalId?: string; bloodGroup?: BloodGroup; status?: InventoryStatus };
+
+export async function listBloodInventory(filters: InventoryFilters = {}): Promise<BloodInventoryRow[]> {
+  let query = supabase.from('blood_inventory').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.bloodGroup) query = query.eq('blood_group', filters.bloodGroup);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('blood_group');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBloodInventory(input: NewBloodInventory): Promise<BloodInventoryRow> {
+  const values = validate(bloodInventoryInsertSchema, input, 'blood inventory');
+  const { data, error } = await supabase.from('blood_inventory').insert(values as TablesInsert<'blood_inventory'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateBloodInventory(id: string, patch: BloodInventoryUpdate): Promise<BloodInventoryRow> {
+  const values = validate(bloodInventoryInsertSchema.omit({ hospital_id: true }).partial(), patch, 'blood inventory update');
+  const { data, error } = await supabase.from('blood_inventory').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function listPlasmaInventory(filters: InventoryFilters = {}): Promise<PlasmaInventoryRow[]> {
+  let query = supabase.from('plasma_inventory').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.bloodGroup) query = query.eq('blood_group', filters.bloodGroup);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('blood_group');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createPlasmaInventory(input: NewPlasmaInventory): Promise<PlasmaInventoryRow> {
+  const values = validate(plasmaInventoryInsertSchema, input, 'plasma inventory');
+  const { data, error } = await supabase.from('plasma_inventory').insert(values as TablesInsert<'plasma_inventory'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePlasmaInventory(id: string, patch: PlasmaInventoryUpdate): Promise<PlasmaInventoryRow> {
+  const values = validate(plasmaInventoryInsertSchema.omit({ hospital_id: true }).partial(), patch, 'plasma inventory update');
+  const { data, error } = await supabase.from('plasma_inventory').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
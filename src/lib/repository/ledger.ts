@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { ledgerInsertSchema, validate, type LedgerStatus } from "./schema";
+
+export type LedgerEntryRow = Tables<'blockchain_ledger'>;
+export type NewLedgerEntry = z.input<typeof ledgerInsertSchema>;
+
+export async function listLedgerEntries(filters: {
+  hospitalId?: string;
+  donorId?: string;
+  donationId?: string;
+} = {}): Promise<LedgerEntryRow[]> {
+  let query = supabase.from('blockchain_ledger').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+  if (filters.donationId) query = query.eq('donation_id', filters.donationId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createLedgerEntry(input: NewLedgerEntry): Promise<LedgerEntryRow> {
+  const values = validate(ledgerInsertSchema, input, 'ledger entry');
+  const { data, error } = await supabase.from('blockchain_ledger').insert(values as TablesInsert<'blockchain_ledger'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function setLedgerStatus(id: string, status: LedgerStatus, blockNumber?: number): Promise<LedgerEntryRow> {
+  const { data, error } = await supabase
+    .from('blockchain_ledger')
+    .update({ verification_status: status, block_number: blockNumber ?? null })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { notificationInsertSchema, validate } from "./schema";
+
+export type NotificationRow = Tables<'notifications'>;
+export type NewNotification = z.input<typeof notificationInsertSchema>;
+
+/** The user's notifications, newest first. Each user only sees their own. */
+export async function listNotifications(userId: string): Promise<NotificationRow[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Sends a notification to another user. Nothing is returned: only the
+ * recipient may read it back.
+ */
+export async function createNotification(input: NewNotification): Promise<void> {
+  const values = validate(notificationInsertSchema, input, 'notification');
+  const { error } = await supabase.from('notifications').insert(values as TablesInsert<'notifications'>);
+  if (error) throw error;
+}
+
+/** Marks the given notifications read, or all of the user's when `ids` is left out. */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+  let query = supabase.from('notifications').update({ is_read: true }).eq('user_id', userId);
+  if (ids) query = query.in('id', ids);
+  const { error } = await query;
+  if (error) throw error;
+}
+
+export async function deleteNotification(id: string): Promise<void> {
+  const { error } = await supabase.from('notifications').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { plasmaRequestInsertSchema, validate, type PlasmaRequestStatus } from "./schema";
+
+export type PlasmaRequestRow = Tables<'plasma_requests'>;
+export type NewPlasmaRequest = z.input<typeof plasmaRequestInsertSchema>;
+
+export async function listPlasmaRequests(filters: {
+  hospitalId?: string;
+  status?: PlasmaRequestStatus;
+} = {}): Promise<PlasmaRequestRow[]> {
+  let query = supabase.from('plasma_requests').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createPlasmaRequest(input: NewPlasmaRequest): Promise<PlasmaRequestRow> {
+  const values = validate(plasmaRequestInsertSchema, input, 'plasma request');
+  const { data, error } = await supabase.from('plasma_requests').insert(values as TablesInsert<'plasma_requests'>).select().single();
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PledgeStatus } from "./schema";
+
+export type RequestPledgeRow = Tables<'request_pledges'>;
+
+export type RequestPledgeWithDonor = RequestPledgeRow & {
+  donor: Pick<Tables<'donors'>, 'id' | 'name' | 'blood_group' | 'phone'> | null;
+};
+
+const PLEDGE_WITH_DONOR = '*, donor:donors(id, name, blood_group, phone)';
+
+export async function listRequestPledges(filters: {
+  requestIds?: string[];
+  donorId?: string;
+  status?: PledgeStatus | PledgeStatus[];
+} = {}): Promise<RequestPledgeWithDonor[]> {
+  if (filters.requestIds && filters.requestIds.length === 0) return [];
+
+  let query = supabase.from('request_pledges').select(PLEDGE_WITH_DONOR);
+  if (filters.requestIds) query = query.in('request_id', filters.requestIds);
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []) as RequestPledgeWithDonor[];
+}
+
+/**
+ * Commits a donor to a request through the pledge_to_request RPC. Donors
+ * leave donorId out to pledge for themselves; hospital staff pass it, and an
+ * appointmentId when the pledge is already booked. Pledging again after
+ * withdrawing reopens the same pledge. `units` only counts for hospital
+ * staff; a donor always pledges one unit.
+ */
+export async function pledgeToRequest(requestId: string, options: {
+  units?: number;
+  donorId?: string;
+  appointmentId?: string;
+} = {}): Promise<RequestPledgeRow> {
+  const { data, error } = await supabase.rpc('pledge_to_request', {
+    p_request_id: requestId,
+    p_units: options.units,
+    p_donor_id: options.donorId,
+    p_appointment_id: options.appointmentId,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePledgeStatus(id: string, status: PledgeStatus): Promise<RequestPledgeRow> {
+  const { data, error } = await supabase.from('request_pledges').update({ status }).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
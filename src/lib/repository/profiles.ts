@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type ProfileRow = Tables<'profiles'>;
+export type ProfileUpdate = Omit<TablesUpdate<'profiles'>, 'id'>;
+
+export async function getProfile(id: string): Promise<ProfileRow | null> {
+  const { data, error } = await supabase.from('profiles').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateProfile(id: string, patch: ProfileUpdate): Promise<ProfileRow> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+  const { error } = await supabase.from('profiles').delete().eq('id', id);
+  if (error) throw error;
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  requestInsertSchema,
+  validate,
+  type EmergencyLevel,
+  type RequestStatus,
+  type RequestType,
+} from "./schema";
+
+export type BloodRequestRow = Tables<'requests'>;
+export type NewBloodRequest = z.input<typeof requestInsertSchema>;
+// Status changes go through transitionRequestStatus so they are validated and recorded
+export type BloodRequestUpdate = Partial<Omit<NewBloodRequest, 'hospital_id' | 'status'>>;
+export type RequestStatusHistoryRow = Tables<'request_status_history'>;
+
+export type BloodRequestWithHospital = BloodRequestRow & {
+  hospital: Pick<Tables<'hospitals'>, 'id' | 'name' | 'phone' | 'address' | 'city' | 'latitude' | 'longitude'> | null;
+};
+
+const REQUEST_WITH_HOSPITAL = '*, hospital:hospitals(id, name, phone, address, city, latitude, longitude)';
+
+export async function listRequests(filters: {
+  hospitalId?: string;
+  donorId?: string;
+  requestType?: RequestType;
+  status?: RequestStatus | RequestStatus[];
+  emergencyLevel?: EmergencyLevel;
+} = {}): Promise<BloodRequestWithHospital[]> {
+  let query = supabase.from('requests').select(REQUEST_WITH_HOSPITAL);
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+  if (filters.requestType) query = query.eq('request_type', filters.requestType);
+  if (filters.emergencyLevel) query = query.eq('emergency_level', filters.emergencyLevel);
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as BloodRequestWithHospital[];
+}
+
+export async function getRequest(id: string): Promise<BloodRequestWithHospital | null> {
+  const { data, error } = await supabase.from('requests').select(REQUEST_WITH_HOSPITAL).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as BloodRequestWithHospital | null;
+}
+
+export async function createRequest(input: NewBloodRequest): Promise<BloodRequestRow> {
+  const values = validate(requestInsertSchema, input, 'request');
+  const { data, error } = await supabase.from('requests').insert(values as TablesInsert<'requests'>).select().single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateRequest(id: string, patch: BloodRequestUpdate): Promise<BloodRequestRow> {
+  const values = validate(requestInsertSchema.omit({ hospital_id: true, status: true }).partial(), patch, 'request update');
+  const { data, error } = await supabase.from('requests').update(values).eq('id', id).select().single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Moves a request to `status` through the transition_request RPC, which
+ * rejects illegal transitions and writes a request_status_history row with
+ * the caller and `reason`. Use the helpers in @/lib/requestLifecycle rather
+ * than calling this directly.
+ */
+export async function transitionRequestStatus(id: string, change: {
+  status: RequestStatus;
+  reason?: string;
+  donorId?: string;
+}): Promise<BloodRequestRow> {
+  const { data, error } = await supabase.rpc('transition_request', {
+    p_request_id: id,
+    p_status: change.status,
+    p_reason: change.reason,
+    p_donor_id: change.donorId,
+  });
+  if (error) throw error;
+  // The RPC raises when nothing was saved; a null row must never pass as success
+  if (!data) throw new Error(`Request ${id} was not found or cannot be changed`);
+  return data;
+}
+
+export async function listRequestStatusHistory(requestIds: string[]): Promise<RequestStatusHistoryRow[]> {
+  if (requestIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('request_status_history')
+    .select('*')
+    .in('request_id', requestIds)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
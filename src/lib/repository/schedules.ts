@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { donationScheduleSchema, openingHoursSchema, validate } from "./schema";
+
+export type DonationScheduleRow = Tables<'donation_schedules'>;
+export type NewDonationSchedule = z.input<typeof donationScheduleSchema>;
+export type OpeningHoursRow = Tables<'donation_opening_hours'>;
+export type NewOpeningHours = z.input<typeof openingHoursSchema>;
+
+export async function getDonationSchedule(hospitalId: string): Promise<DonationScheduleRow | null> {
+  const { data, error } = await supabase.from('donation_schedules').select('*').eq('hospital_id', hospitalId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** Creates or replaces the hospital's chairs, slot length and time zone. */
+export async function saveDonationSchedule(input: NewDonationSchedule): Promise<DonationScheduleRow> {
+  const values = validate(donationScheduleSchema, input, 'donation schedule');
+  const { data, error } = await supabase
+    .from('donation_schedules')
+    .upsert(values as TablesInsert<'donation_schedules'>, { onConflict: 'hospital_id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function listOpeningHours(hospitalId: string): Promise<OpeningHoursRow[]> {
+  const { data, error } = await supabase
+    .from('donation_opening_hours')
+    .select('*')
+    .eq('hospital_id', hospitalId)
+    .order('weekday');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Creates or replaces the opening hours of one weekday (0 = Sunday). */
+export async function saveOpeningHours(input: NewOpeningHours): Promise<OpeningHoursRow> {
+  const values = validate(openingHoursSchema, input, 'opening hours');
+  const { data, error } = await supabase
+    .from('donation_opening_hours')
+    .upsert(values as TablesInsert<'donation_opening_hours'>, { onConflict: 'hospital_id,weekday' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Closes the hospital for bookings on a weekday. */
+export async function deleteOpeningHours(hospitalId: string, weekday: number): Promise<void> {
+  const { error } = await supabase
+    .from('donation_opening_hours')
+    .delete()
+    .eq('hospital_id', hospitalId)
+    .eq('weekday', weekday);
+  if (error) throw error;
+}
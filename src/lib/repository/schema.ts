@@ -0,0 +1,325 @@
+import { z } from "zod";
+
+// Allowed values mirror the CHECK constraints in
+// supabase/migrations/20250120000000-pulseconnect-complete-schema.sql.
+// Keep both sides in sync when a constraint changes.
+
+export const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'] as const;
+export type BloodGroup = typeof BLOOD_GROUPS[number];
+
+export const REQUEST_TYPES = ['blood', 'plasma'] as const;
+export type RequestType = typeof REQUEST_TYPES[number];
+
+export const REQUEST_STATUSES = ['pending', 'accepted', 'fulfilled', 'cancelled', 'expired'] as const;
+export type RequestStatus = typeof REQUEST_STATUSES[number];
+
+/** Who opened a request: hospital staff, or the low-stock threshold check. */
+export const REQUEST_SOURCES = ['manual', 'low_stock'] as const;
+export type RequestSource = typeof REQUEST_SOURCES[number];
+
+export const EMERGENCY_LEVELS = ['Low', 'Medium', 'High', 'Critical'] as const;
+export type EmergencyLevel = typeof EMERGENCY_LEVELS[number];
+
+export const PLEDGE_STATUSES = ['pledged', 'scheduled', 'collected', 'withdrawn'] as const;
+export type PledgeStatus = typeof PLEDGE_STATUSES[number];
+
+export const APPOINTMENT_STATUSES = ['scheduled', 'confirmed', 'completed', 'cancelled', 'no_show'] as const;
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+export const PLASMA_REQUEST_STATUSES = ['pending', 'in_progress', 'fulfilled', 'cancelled'] as const;
+export type PlasmaRequestStatus = typeof PLASMA_REQUEST_STATUSES[number];
+
+export const INVENTORY_STATUSES = ['available', 'reserved', 'used', 'expired'] as const;
+export type InventoryStatus = typeof INVENTORY_STATUSES[number];
+
+export const BLOOD_COMPONENTS = ['red_cells', 'whole_blood', 'plasma', 'platelets'] as const;
+export type BloodComponent = typeof BLOOD_COMPONENTS[number];
+
+export const BLOOD_UNIT_STATUSES = ['available', 'reserved', 'issued', 'expired', 'discarded', 'processed', 'quarantined'] as const;
+export type BloodUnitStatus = typeof BLOOD_UNIT_STATUSES[number];
+
+export const DISCARD_REASONS = ['expired', 'broken_bag', 'reactive_test', 'temperature_excursion', 'other'] as const;
+export type DiscardReason = typeof DISCARD_REASONS[number];
+
+export const STORAGE_UNIT_KINDS = ['refrigerator', 'freezer', 'platelet_incubator'] as const;
+export type StorageUnitKind = typeof STORAGE_UNIT_KINDS[number];
+
+export const TEMPERATURE_SOURCES = ['csv', 'device', 'manual'] as const;
+export type TemperatureSource = typeof TEMPERATURE_SOURCES[number];
+
+export const STOCK_TRANSFER_STATUSES = ['requested', 'approved', 'rejected', 'dispatched', 'received', 'cancelled'] as const;
+export type StockTransferStatus = typeof STOCK_TRANSFER_STATUSES[number];
+
+export const DONATION_TYPES = ['blood', 'plasma', 'platelets', 'double_red_cells'] as const;
+export type DonationType = typeof DONATION_TYPES[number];
+
+export const SCREENING_DECISIONS = ['accepted', 'deferred'] as const;
+export type ScreeningDecision = typeof SCREENING_DECISIONS[number];
+
+export const GENDERS = ['Male', 'Female', 'Other'] as const;
+export type Gender = typeof GENDERS[number];
+
+export const LEDGER_STATUSES = ['pending', 'verified', 'failed'] as const;
+export type LedgerStatus = typeof LEDGER_STATUSES[number];
+
+export const CALENDAR_FEED_OWNERS = ['donor', 'hospital'] as const;
+export type CalendarFeedOwner = typeof CALENDAR_FEED_OWNERS[number];
+
+export const NOTIFICATION_RECIPIENTS = ['donor', 'hospital'] as const;
+export type NotificationRecipient = typeof NOTIFICATION_RECIPIENTS[number];
+
+const uuid = z.string().uuid();
+const timestamp = z.string().datetime({ offset: true });
+const date = z.string().date();
+const optionalText = z.string().trim().min(1).nullish();
+const latitude = z.number().min(-90).max(90).nullish();
+const longitude = z.number().min(-180).max(180).nullish();
+
+export const hospitalInsertSchema = z.object({
+  id: uuid.optional(),
+  name: z.string().trim().min(1),
+  email: z.string().email(),
+  phone: optionalText,
+  address: optionalText,
+  city: optionalText,
+  state: optionalText,
+  pincode: optionalText,
+  registration_number: optionalText,
+  latitude,
+  longitude,
+  is_verified: z.boolean().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const donorInsertSchema = z.object({
+  id: uuid.optional(),
+  name: z.string().trim().min(1),
+  email: z.string().email(),
+  phone: optionalText,
+  blood_group: z.enum(BLOOD_GROUPS),
+  age: z.number().int().min(18).max(65).nullish(),
+  gender: z.enum(GENDERS).nullish(),
+  location: optionalText,
+  latitude,
+  longitude,
+  last_donation_date: timestamp.nullish(),
+  next_eligible_date: timestamp.nullish(),
+  is_available: z.boolean().optional(),
+  is_verified: z.boolean().optional(),
+});
+
+export const requestInsertSchema = z.object({
+  hospital_id: uuid,
+  donor_id: uuid.nullish(),
+  request_type: z.enum(REQUEST_TYPES),
+  blood_group: z.enum(BLOOD_GROUPS),
+  units_required: z.number().int().positive(),
+  status: z.enum(REQUEST_STATUSES).optional(),
+  emergency_level: z.enum(EMERGENCY_LEVELS).optional(),
+  patient_name: optionalText,
+  patient_age: z.number().int().min(0).max(120).nullish(),
+  medical_condition: optionalText,
+  notes: optionalText,
+});
+
+// Appointments are created only by booking a slot (book_appointment());
+// after that only their status and notes change
+export const appointmentBookingSchema = z.object({
+  hospital_id: uuid,
+  slot_start: timestamp,
+  donor_id: uuid.optional(),
+  request_id: uuid.nullish(),
+  notes: optionalText,
+});
+
+export const appointmentUpdateSchema = z.object({
+  status: z.enum(APPOINTMENT_STATUSES).optional(),
+  notes: optionalText,
+});
+
+export const donationScheduleSchema = z.object({
+  hospital_id: uuid,
+  chairs: z.number().int().min(1).max(50),
+  slot_minutes: z.number().int().min(10).max(240).optional(),
+  timezone: z.string().trim().min(1).optional(),
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Use HH:MM');
+
+export const openingHoursSchema = z.object({
+  hospital_id: uuid,
+  weekday: z.number().int().min(0).max(6),
+  opens_at: timeOfDay,
+  closes_at: timeOfDay,
+}).refine((hours) => hours.closes_at > hours.opens_at, {
+  message: 'Closing time must be after opening time',
+  path: ['closes_at'],
+});
+
+export const bloodInventoryInsertSchema = z.object({
+  hospital_id: uuid,
+  blood_group: z.enum(BLOOD_GROUPS),
+  units_available: z.number().int().min(0),
+  expiry_date: timestamp.nullish(),
+  status: z.enum(INVENTORY_STATUSES).optional(),
+});
+
+export const plasmaInventoryInsertSchema = bloodInventoryInsertSchema.extend({
+  plasma_type: optionalText,
+});
+
+export const bloodUnitInsertSchema = z.object({
+  hospital_id: uuid,
+  bag_number: z.string().trim().min(1),
+  component: z.enum(BLOOD_COMPONENTS),
+  blood_group: z.enum(BLOOD_GROUPS),
+  volume_ml: z.number().int().positive().nullish(),
+  donation_id: uuid.nullish(),
+  collected_at: timestamp,
+  expires_at: timestamp,
+  storage_location: optionalText,
+  storage_unit_id: uuid.nullish(),
+  product_code: z.string().regex(/^[A-Z][0-9]{4}[0-9A-Z][0-9A-Z][0-9a-z]$/, 'Not an ISBT 128 product code').nullish(),
+  status: z.enum(BLOOD_UNIT_STATUSES).optional(),
+}).refine((unit) => new Date(unit.expires_at) > new Date(unit.collected_at), {
+  message: 'Expiry must be after collection',
+  path: ['expires_at'],
+});
+
+/**
+ * Bags leave stock as issued or processed only through issueBloodUnits() and
+ * separateDonation(). A discard needs a reason unless the bag had expired or
+ * was quarantined, which the database fills in.
+ */
+export const bloodUnitUpdateSchema = z.object({
+  storage_location: optionalText,
+  storage_unit_id: uuid.nullish(),
+  status: z.enum(BLOOD_UNIT_STATUSES).exclude(['issued', 'processed']).optional(),
+  discard_reason: z.enum(DISCARD_REASONS).optional(),
+  discard_notes: optionalText,
+});
+
+export const storageUnitInsertSchema = z.object({
+  hospital_id: uuid,
+  name: z.string().trim().min(1),
+  kind: z.enum(STORAGE_UNIT_KINDS),
+  location: optionalText,
+  is_active: z.boolean().optional(),
+});
+
+export const temperatureReadingSchema = z.object({
+  recorded_at: timestamp,
+  temperature_c: z.number().min(-100).max(100),
+});
+
+/** Transfers always start as requested; later steps go through transitionStockTransfer(). */
+export const stockTransferInsertSchema = z.object({
+  requesting_hospital_id: uuid,
+  supplying_hospital_id: uuid,
+  blood_group: z.enum(BLOOD_GROUPS),
+  component: z.enum(BLOOD_COMPONENTS).optional(),
+  units_requested: z.number().int().positive(),
+  notes: optionalText,
+}).refine((transfer) => transfer.requesting_hospital_id !== transfer.supplying_hospital_id, {
+  message: 'A hospital cannot request a transfer from itself',
+  path: ['supplying_hospital_id'],
+});
+
+export const stockThresholdSchema = z.object({
+  hospital_id: uuid,
+  blood_group: z.enum(BLOOD_GROUPS),
+  min_units: z.number().int().min(0),
+  target_units: z.number().int().positive(),
+}).refine((threshold) => threshold.target_units > threshold.min_units, {
+  message: 'The target must be above the minimum',
+  path: ['target_units'],
+});
+
+export const plasmaRequestInsertSchema = z.object({
+  hospital_id: uuid.nullish(),
+  patient_name: z.string().trim().min(1),
+  diagnosis: optionalText,
+  plasma_type: z.string().trim().min(1),
+  required_units: z.number().int().positive(),
+  urgency: z.enum(EMERGENCY_LEVELS).optional(),
+  status: z.enum(PLASMA_REQUEST_STATUSES).optional(),
+});
+
+export const donationInsertSchema = z.object({
+  hospital_id: uuid,
+  donor_id: uuid,
+  donation_type: z.enum(DONATION_TYPES),
+  donation_date: timestamp.optional(),
+  units_donated: z.number().int().positive(),
+  blood_group: z.enum(BLOOD_GROUPS),
+  verified: z.boolean().optional(),
+  verified_by: uuid.nullish(),
+  verification_date: timestamp.nullish(),
+  notes: optionalText,
+});
+
+const reading = z.number().positive().nullish();
+
+export const screeningInsertSchema = z.object({
+  appointment_id: uuid,
+  donor_id: uuid,
+  hospital_id: uuid,
+  hemoglobin_g_dl: reading,
+  systolic_bp: z.number().int().positive().nullish(),
+  diastolic_bp: z.number().int().positive().nullish(),
+  pulse_bpm: z.number().int().positive().nullish(),
+  temperature_c: reading,
+  weight_kg: reading,
+  decision: z.enum(SCREENING_DECISIONS),
+  deferral_reason: optionalText,
+  deferred_until: date.nullish(),
+  notes: optionalText,
+}).refine((screening) => screening.decision === 'accepted' || !!screening.deferral_reason, {
+  message: 'A deferral needs a reason',
+  path: ['deferral_reason'],
+});
+
+export const declarationInsertSchema = z.object({
+  donor_id: uuid,
+  questionnaire_version: z.string().trim().min(1),
+  answers: z.record(z.union([z.string(), z.boolean()])),
+  consent_text: z.string().trim().min(1),
+  eligibility_status: optionalText,
+  eligibility_reason: optionalText,
+  eligibility_rules_version: optionalText,
+});
+
+export const ledgerInsertSchema = z.object({
+  donation_id: uuid,
+  hospital_id: uuid,
+  donor_id: uuid,
+  transaction_hash: z.string().min(1),
+  verification_status: z.enum(LEDGER_STATUSES).optional(),
+  network: z.string().min(1).optional(),
+  block_number: z.number().int().nullish(),
+  gas_used: z.number().int().nullish(),
+});
+
+export const notificationInsertSchema = z.object({
+  user_id: uuid,
+  user_type: z.enum(NOTIFICATION_RECIPIENTS),
+  title: z.string().trim().min(1),
+  message: z.string().trim().min(1),
+  type: z.string().trim().min(1).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Parses `input` against `schema`, throwing an Error whose message lists the
+ * offending fields so it can be shown directly in a toast.
+ */
+export function validate<T extends z.ZodTypeAny>(schema: T, input: unknown, entity: string): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'value'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid ${entity} — ${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { screeningInsertSchema, validate } from "./schema";
+
+export type ScreeningRow = Tables<'donor_screenings'>;
+export type NewScreening = z.input<typeof screeningInsertSchema>;
+
+export async function listScreenings(filters: {
+  donorId?: string;
+  donorIds?: string[];
+  hospitalId?: string;
+  appointmentIds?: string[];
+} = {}): Promise<ScreeningRow[]> {
+  let query = supabase.from('donor_screenings').select('*');
+  if (filters.donorId) query = query.eq('donor_id', filters.donorId);
+  if (filters.donorIds) query = query.in('donor_id', filters.donorIds);
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+  if (filters.appointmentIds) query = query.in('appointment_id', filters.appointmentIds);
+
+  const { data, error } = await query.order('screened_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Records the screening for an appointment, or replaces it when the donor
+ * is re-checked. The database copies the readings and any deferral onto
+ * the donor's profile.
+ */
+export async function recordScreening(input: NewScreening): Promise<ScreeningRow> {
+  const values = validate(screeningInsertSchema, input, 'screening');
+  const { data, error } = await supabase
+    .from('donor_screenings')
+    .upsert({ ...values, screened_at: new Date().toISOString() } as TablesInsert<'donor_screenings'>, { onConflict: 'appointment_id' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** The newest screening per donor, from rows in any order. */
+export function latestScreeningByDonor(rows: ScreeningRow[]): Map<string, ScreeningRow> {
+  const latest = new Map<string, ScreeningRow>();
+  for (const row of rows) {
+    const current = latest.get(row.donor_id);
+    if (!current || row.screened_at > current.screened_at) latest.set(row.donor_id, row);
+  }
+  return latest;
+}
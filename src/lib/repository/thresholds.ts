@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { stockThresholdSchema, validate, type BloodGroup } from "./schema";
+
+export type StockThresholdRow = Tables<'stock_thresholds'>;
+export type NewStockThreshold = z.input<typeof stockThresholdSchema>;
+
+/**
+ * Levels used to colour a group that has no threshold set. They only
+ * colour the dashboard: groups without a row are never restocked.
+ */
+export const DEFAULT_STOCK_THRESHOLD = { min_units: 5, target_units: 15 } as const;
+
+export type StockLevel = 'below_min' | 'below_target' | 'ok';
+
+/** Where `units` stands against a group's threshold, or the default levels. */
+export function stockLevel(
+  units: number,
+  threshold: Pick<StockThresholdRow, 'min_units' | 'target_units'> = DEFAULT_STOCK_THRESHOLD
+): StockLevel {
+  if (units < threshold.min_units) return 'below_min';
+  if (units < threshold.target_units) return 'below_target';
+  return 'ok';
+}
+
+export async function listStockThresholds(filters: { hospitalId?: string } = {}): Promise<StockThresholdRow[]> {
+  let query = supabase.from('stock_thresholds').select('*');
+  if (filters.hospitalId) query = query.eq('hospital_id', filters.hospitalId);
+
+  const { data, error } = await query.order('blood_group');
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates or replaces the threshold for a group. Setting a minimum above
+ * the current stock opens a restock request straight away.
+ */
+export async function saveStockThreshold(input: NewStockThreshold): Promise<StockThresholdRow> {
+  const values = validate(stockThresholdSchema, input, 'stock threshold');
+  const { data, error } = await supabase
+    .from('stock_thresholds')
+    .upsert(values as TablesInsert<'stock_thresholds'>, { onConflict: 'hospital_id,blood_group' })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteStockThreshold(hospitalId: string, bloodGroup: BloodGroup): Promise<void> {
+  const { error } = await supabase
+    .from('stock_thresholds')
+    .delete()
+    .eq('hospital_id', hospitalId)
+    .eq('blood_group', bloodGroup);
+  if (error) throw error;
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables, TablesInsert } from "@/integrations/supabase/types";
+import {
+  stockTransferInsertSchema,
+  validate,
+  type BloodComponent,
+  type BloodGroup,
+  type StockTransferStatus,
+} from "./schema";
+
+export type StockTransferRow = Tables<'stock_transfers'>;
+export type NewStockTransfer = z.input<typeof stockTransferInsertSchema>;
+export type StockTransferHistoryRow = Tables<'stock_transfer_history'>;
+export type BloodStockHolderRow = Database['public']['Functions']['find_blood_stock']['Returns'][number];
+
+type TransferHospital = Pick<Tables<'hospitals'>, 'id' | 'name' | 'phone' | 'city'>;
+
+export type StockTransferWithHospitals = StockTransferRow & {
+  requesting_hospital: TransferHospital | null;
+  supplying_hospital: TransferHospital | null;
+};
+
+const TRANSFER_WITH_HOSPITALS = [
+  '*',
+  'requesting_hospital:hospitals!fk_stock_transfers_requesting_hospital_id(id, name, phone, city)',
+  'supplying_hospital:hospitals!fk_stock_transfers_supplying_hospital_id(id, name, phone, city)',
+].join(', ');
+
+/** Transfers the hospital asked for or was asked to supply, newest first. */
+export async function listStockTransfers(filters: {
+  hospitalId?: string;
+  status?: StockTransferStatus | StockTransferStatus[];
+} = {}): Promise<StockTransferWithHospitals[]> {
+  let query = supabase.from('stock_transfers').select(TRANSFER_WITH_HOSPITALS);
+  if (filters.hospitalId) {
+    query = query.or(`requesting_hospital_id.eq.${filters.hospitalId},supplying_hospital_id.eq.${filters.hospitalId}`);
+  }
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as unknown as StockTransferWithHospitals[];
+}
+
+export async function createStockTransfer(input: NewStockTransfer): Promise<StockTransferRow> {
+  const values = validate(stockTransferInsertSchema, input, 'stock transfer');
+  const { data, error } = await supabase
+    .from('stock_transfers')
+    .insert(values as TablesInsert<'stock_transfers'>)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Moves a transfer to `status` through the transition_stock_transfer RPC,
+ * which checks the caller is on the right side for the step, reserves,
+ * releases or hands over the bags, and records the step with `reason`.
+ * `unitIds` picks the bags when approving; otherwise the bags that expire
+ * first are reserved.
+ */
+export async function transitionStockTransfer(id: string, change: {
+  status: StockTransferStatus;
+  reason?: string;
+  unitIds?: string[];
+}): Promise<StockTransferRow> {
+  const { data, error } = await supabase.rpc('transition_stock_transfer', {
+    p_transfer_id: id,
+    p_status: change.status,
+    p_reason: change.reason,
+    p_unit_ids: change.unitIds,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function listStockTransferHistory(transferIds: string[]): Promise<StockTransferHistoryRow[]> {
+  if (transferIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('stock_transfer_history')
+    .select('*')
+    .in('transfer_id', transferIds)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Hospitals holding at least `minUnits` available, in-date bags of a group
+ * and component, most stock first. Only counts are shared, not the bags.
+ */
+export async function findBloodStock(filters: {
+  bloodGroup: BloodGroup;
+  component?: BloodComponent;
+  minUnits?: number;
+}): Promise<BloodStockHolderRow[]> {
+  const { data, error } = await supabase.rpc('find_blood_stock', {
+    p_blood_group: filters.bloodGroup,
+    p_component: filters.component,
+    p_min_units: filters.minUnits,
+  });
+  if (error) throw error;
+  return data || [];
+}
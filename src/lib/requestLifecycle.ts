@@ -0,0 +1,65 @@
+import { dataProvider } from "@/lib/dataProvider";
+import type { BloodRequestRow, RequestStatus } from "@/lib/repository";
+
+// Mirrors request_transition_allowed() in
+// supabase/migrations/20250123000000-request-lifecycle.sql.
+// The database enforces the same rules; checking here gives a clear error
+// before the round trip.
+export const REQUEST_TRANSITIONS: Record<RequestStatus, readonly RequestStatus[]> = {
+  pending: ['accepted', 'cancelled', 'expired'],
+  accepted: ['pending', 'fulfilled', 'cancelled', 'expired'],
+  fulfilled: [],
+  cancelled: [],
+  expired: [],
+};
+
+export const REQUEST_STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+export function canTransition(from: string, to: RequestStatus): boolean {
+  return (REQUEST_TRANSITIONS[from as RequestStatus] ?? []).includes(to);
+}
+
+export function isFinalStatus(status: string): boolean {
+  return (REQUEST_TRANSITIONS[status as RequestStatus] ?? []).length === 0;
+}
+
+export function assertTransition(from: string, to: RequestStatus) {
+  if (!canTransition(from, to)) {
+    throw new Error(`A ${from} request cannot be marked ${to}`);
+  }
+}
+
+/** Validates and applies a status change; the reason shows up in the request's timeline. */
+export async function transitionRequest(
+  request: Pick<BloodRequestRow, 'id' | 'status'>,
+  to: RequestStatus,
+  options: { reason?: string; donorId?: string } = {},
+): Promise<BloodRequestRow> {
+  assertTransition(request.status, to);
+  if (to === 'accepted' && !options.donorId) {
+    throw new Error('An accepted request needs a donor');
+  }
+  return dataProvider.transitionRequestStatus(request.id, { status: to, ...options });
+}
+
+export function acceptRequest(request: Pick<BloodRequestRow, 'id' | 'status'>, donorId: string, reason: string) {
+  return transitionRequest(request, 'accepted', { donorId, reason });
+}
+
+export function releaseRequest(request: Pick<BloodRequestRow, 'id' | 'status'>, reason: string) {
+  return transitionRequest(request, 'pending', { reason });
+}
+
+export function fulfilRequest(request: Pick<BloodRequestRow, 'id' | 'status'>, reason = 'Donation received') {
+  return transitionRequest(request, 'fulfilled', { reason });
+}
+
+export function cancelRequest(request: Pick<BloodRequestRow, 'id' | 'status'>, reason: string) {
+  return transitionRequest(request, 'cancelled', { reason });
+}
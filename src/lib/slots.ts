@@ -0,0 +1,89 @@
+import type { AppointmentSlot, DonationScheduleRow, OpeningHoursRow } from "@/lib/repository";
+
+// Slot rules shared by the booking screens and the demo data provider.
+// The database builds the same slots in public.list_appointment_slots()
+// (supabase/migrations/20250208000000-appointment-slots.sql).
+
+/** How many days ahead donors and staff can book. */
+export const BOOKING_WINDOW_DAYS = 30;
+
+export const DEFAULT_SLOT_MINUTES = 30;
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+/** Indexed like extract(dow): 0 is Sunday. */
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const zonedParts = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// Minutes the zone is ahead of UTC at that instant
+const offsetMinutes = (at: Date, timeZone: string) => {
+  const p = zonedParts(at, timeZone);
+  return Math.round((Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - at.getTime()) / 60000);
+};
+
+/** The instant a wall-clock time ("HH:MM") on a day ("yyyy-MM-dd") falls at in a time zone. */
+export function zonedTime(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const naive = Date.UTC(year, month - 1, date, hour, minute);
+  const guess = naive - offsetMinutes(new Date(naive), timeZone) * 60000;
+  return new Date(naive - offsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+/** The calendar day ("yyyy-MM-dd") an instant falls on in a time zone. */
+export function dayInZone(at: Date, timeZone: string): string {
+  const p = zonedParts(at, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/** `day` moved by a number of days, both as "yyyy-MM-dd". */
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+/** A slot's start as the hospital's wall-clock time, e.g. "09:30 AM". */
+export const formatSlotTime = (at: string, timeZone: string) =>
+  new Date(at).toLocaleTimeString('en-US', { timeZone, hour: '2-digit', minute: '2-digit' });
+
+/** A slot's day and time in the hospital's time zone, for messages. */
+export const formatSlot = (at: string, timeZone: string) =>
+  new Date(at).toLocaleString('en-US', { timeZone, dateStyle: 'long', timeStyle: 'short' });
+
+export const isBookable = (slot: AppointmentSlot, now: Date = new Date()) =>
+  slot.booked < slot.chairs && new Date(slot.slot_start) > now;
+
+/** The slots opening hours give over `days` days from `from`, without bookings counted. */
+export function generateSlots(
+  schedule: Pick<DonationScheduleRow, 'slot_minutes' | 'timezone'>,
+  hours: Pick<OpeningHoursRow, 'weekday' | 'opens_at' | 'closes_at'>[],
+  from: string,
+  days = 1
+): Pick<AppointmentSlot, 'slot_start' | 'slot_end'>[] {
+  const slots: Pick<AppointmentSlot, 'slot_start' | 'slot_end'>[] = [];
+  const length = schedule.slot_minutes * 60000;
+  for (let i = 0; i < days; i++) {
+    const day = addDays(from, i);
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    const open = hours.find((h) => h.weekday === weekday);
+    if (!open) continue;
+    const closes = zonedTime(day, open.closes_at, schedule.timezone).getTime();
+    for (let start = zonedTime(day, open.opens_at, schedule.timezone).getTime(); start + length <= closes; start += length) {
+      slots.push({ slot_start: new Date(start).toISOString(), slot_end: new Date(start + length).toISOString() });
+    }
+  }
+  return slots;
+}
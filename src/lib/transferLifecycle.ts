@@ -0,0 +1,50 @@
+import type { StockTransferRow, StockTransferStatus } from "@/lib/repository";
+
+// Mirrors stock_transfer_transition_allowed() and the checks in
+// transition_stock_transfer() in
+// supabase/migrations/20250202000000-stock-transfers.sql.
+export const TRANSFER_TRANSITIONS: Record<StockTransferStatus, readonly StockTransferStatus[]> = {
+  requested: ['approved', 'rejected', 'cancelled'],
+  approved: ['dispatched', 'rejected', 'cancelled'],
+  dispatched: ['received'],
+  rejected: [],
+  received: [],
+  cancelled: [],
+};
+
+export const TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  dispatched: 'Dispatched',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+/** Which side of the transfer takes each step. */
+export const TRANSFER_STEP_SIDE: Partial<Record<StockTransferStatus, 'requesting' | 'supplying'>> = {
+  approved: 'supplying',
+  rejected: 'supplying',
+  dispatched: 'supplying',
+  cancelled: 'requesting',
+  received: 'requesting',
+};
+
+export function canTransitionTransfer(from: string, to: StockTransferStatus): boolean {
+  return (TRANSFER_TRANSITIONS[from as StockTransferStatus] ?? []).includes(to);
+}
+
+export function isFinalTransferStatus(status: string): boolean {
+  return (TRANSFER_TRANSITIONS[status as StockTransferStatus] ?? []).length === 0;
+}
+
+/** The steps `hospitalId` can take on the transfer right now. */
+export function availableTransferSteps(
+  transfer: Pick<StockTransferRow, 'status' | 'requesting_hospital_id' | 'supplying_hospital_id'>,
+  hospitalId: string,
+): StockTransferStatus[] {
+  const side = transfer.supplying_hospital_id === hospitalId ? 'supplying'
+    : transfer.requesting_hospital_id === hospitalId ? 'requesting'
+    : null;
+  return (TRANSFER_TRANSITIONS[transfer.status as StockTransferStatus] ?? []).filter((to) => TRANSFER_STEP_SIDE[to] === side);
+}
@@ -0,0 +1,106 @@
+import { format, startOfMonth, subMonths } from "date-fns";
+import type { BloodComponent, BloodGroup, BloodUnitRow, DiscardReason } from "@/lib/repository";
+
+// Summarises the bags a hospital lost. A bag is wasted when it was
+// discarded (counted in the month it was discarded, under its reason) or
+// expired in stock (counted in the month it expired). Bags still marked
+// available, reserved or quarantined past their expiry count as expired,
+// since expire_blood_units() will mark them so within the hour.
+
+export const DISCARD_REASON_LABELS: Record<DiscardReason, string> = {
+  expired: 'Expired',
+  broken_bag: 'Broken bag',
+  reactive_test: 'Reactive test',
+  temperature_excursion: 'Temperature excursion',
+  other: 'Other',
+};
+
+export const WASTAGE_PERIOD_OPTIONS = [3, 6, 12];
+export const DEFAULT_WASTAGE_PERIOD_MONTHS = 6;
+
+type WastageUnit = Pick<
+  BloodUnitRow,
+  'blood_group' | 'component' | 'status' | 'expires_at' | 'volume_ml' | 'discard_reason' | 'discarded_at' | 'updated_at'
+>;
+
+export interface WastedBag {
+  reason: DiscardReason;
+  at: Date;
+}
+
+export interface WastageRow {
+  /** yyyy-MM */
+  month: string;
+  component: BloodComponent;
+  bloodGroup: BloodGroup;
+  reason: DiscardReason;
+  units: number;
+  volumeMl: number;
+}
+
+/** Why and when a bag was lost, or null while it is in use or stock. */
+export function wastedBag(unit: WastageUnit, now = new Date()): WastedBag | null {
+  if (unit.status === 'discarded') {
+    return {
+      reason: (unit.discard_reason as DiscardReason) ?? 'other',
+      at: new Date(unit.discarded_at ?? unit.updated_at),
+    };
+  }
+  const expiresAt = new Date(unit.expires_at);
+  if (unit.status === 'expired' || (['available', 'reserved', 'quarantined'].includes(unit.status) && expiresAt <= now)) {
+    return { reason: 'expired', at: expiresAt };
+  }
+  return null;
+}
+
+/**
+ * Wasted bags from the start of the month `months - 1` months ago, one row
+ * per month, component, group and reason, newest month first.
+ */
+export function summarizeWastage(units: WastageUnit[], months: number, now = new Date()): WastageRow[] {
+  const since = startOfMonth(subMonths(now, months - 1));
+  const rows = new Map<string, WastageRow>();
+
+  for (const unit of units) {
+    const waste = wastedBag(unit, now);
+    if (!waste || waste.at < since || waste.at > now) continue;
+    const month = format(waste.at, 'yyyy-MM');
+    const key = [month, unit.component, unit.blood_group, waste.reason].join('|');
+    const row = rows.get(key) ?? {
+      month,
+      component: unit.component as BloodComponent,
+      bloodGroup: unit.blood_group as BloodGroup,
+      reason: waste.reason,
+      units: 0,
+      volumeMl: 0,
+    };
+    row.units += 1;
+    row.volumeMl += unit.volume_ml ?? 0;
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    b.month.localeCompare(a.month) ||
+    a.component.localeCompare(b.component) ||
+    a.bloodGroup.localeCompare(b.bloodGroup) ||
+    a.reason.localeCompare(b.reason)
+  );
+}
+
+/** Units per value of one column of the report, largest first. */
+export function totalWastageBy<K extends 'month' | 'component' | 'bloodGroup' | 'reason'>(
+  rows: WastageRow[],
+  key: K
+): { key: WastageRow[K]; units: number }[] {
+  const totals = new Map<WastageRow[K], number>();
+  rows.forEach((row) => totals.set(row[key], (totals.get(row[key]) ?? 0) + row.units));
+  return [...totals.entries()].map(([value, units]) => ({ key: value, units })).sort((a, b) => b.units - a.units);
+}
+
+/** The report as CSV, one line per row. */
+export function wastageCsv(rows: WastageRow[]): string {
+  const header = 'month,component,blood_group,reason,units,volume_ml';
+  return [header, ...rows.map((row) =>
+    [row.month, row.component, row.bloodGroup, row.reason, row.units, row.volumeMl].join(',')
+  )].join('\n');
+}
@@ -2,7 +2,6 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
-import { createAppointment } from "@/lib/appointments";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -26,22 +25,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Droplet, Filter, MapPin, PlusCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { sampleBloodRequests, sampleHospitals } from "@/data/sampleData";
+import { dataProvider } from "@/lib/dataProvider";
+import type { BloodRequestWithHospital } from "@/lib/repository";
+import BookSlotDialog from "@/components/BookSlotDialog";
 
-interface BloodRequest {
-  id: string;
-  patient_name: string;
-  blood_group: string;
-  hospital_name: string;
-  urgency: string;
-  location: string;
-  quantity_ml: number;
-  created_at: string;
-  status: string;
-  description?: string;
-  hospital_id?: string;
-}
+type BloodRequest = BloodRequestWithHospital;
 
 export default function BloodRequests() {
   const { user, isGuest } = useAuth();
@@ -51,50 +39,23 @@ export default function BloodRequests() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [bloodTypeFilter, setBloodTypeFilter] = useState("all");
   const [loading, setLoading] = useState(true);
+  const [bookingRequest, setBookingRequest] = useState<BloodRequest | null>(null);
   const { toast } = useToast();
 
-  // Load requests from Supabase
   useEffect(() => {
     const loadRequests = async () => {
       setLoading(true);
       try {
-        const { data: reqs, error } = await supabase
-          .from('requests')
-          .select('*')
-          .eq('request_type', 'blood')
-          .order('created_at', { ascending: false });
-
-        // Filter to only show requests from registered hospitals
-        const { data: hospitals } = await supabase
-          .from('hospitals')
-          .select('id, name');
-
-        // Use sample data if no real data available
-        const finalRequests = (reqs && reqs.length > 0) ? reqs : sampleBloodRequests;
-        const finalHospitals = (hospitals && hospitals.length > 0) ? hospitals : sampleHospitals;
-
-        const hospitalNames = new Set(finalHospitals.map((h: any) => h.name));
-        const hospitalIds = new Map(finalHospitals.map((h: any) => [h.name, h.id]));
-
-        const filteredReqs = finalRequests.filter((req: any) => 
-          !req.hospital_name || hospitalNames.has(req.hospital_name)
-        ).map((req: any) => ({
-          ...req,
-          hospital_id: hospitalIds.get(req.hospital_name) || req.hospital_id
-        }));
-
-        setRequests(filteredReqs);
-        setFilteredRequests(filteredReqs);
+        const reqs = await dataProvider.listRequests({ requestType: 'blood' });
+        setRequests(reqs);
+        setFilteredRequests(reqs);
       } catch (error) {
         console.error('Error loading requests:', error);
-        // Fallback to sample data
-        const hospitalIds = new Map(sampleHospitals.map((h: any) => [h.name, h.id]));
-        const sampleReqsWithIds = sampleBloodRequests.map((req: any) => ({
-          ...req,
-          hospital_id: hospitalIds.get(req.hospital_name) || req.hospital_id
-        }));
-        setRequests(sampleReqsWithIds);
-        setFilteredRequests(sampleReqsWithIds);
+        toast({
+          title: "Error",
+          description: "Failed to load blood requests. Please try again.",
+          variant: "destructive",
+        });
       } finally {
         setLoading(false);
       }
@@ -124,9 +85,9 @@ export default function BloodRequests() {
     if (search) {
       filtered = filtered.filter(
         (request) =>
-          request.patient_name.toLowerCase().includes(search.toLowerCase()) ||
-          request.hospital_name.toLowerCase().includes(search.toLowerCase()) ||
-          request.location.toLowerCase().includes(search.toLowerCase())
+          (request.patient_name ?? '').toLowerCase().includes(search.toLowerCase()) ||
+          (request.hospital?.name ?? '').toLowerCase().includes(search.toLowerCase()) ||
+          (request.hospital?.city ?? '').toLowerCase().includes(search.toLowerCase())
       );
     }
 
@@ -151,7 +112,7 @@ export default function BloodRequests() {
     });
   };
 
-  const handleDonate = async (request: BloodRequest) => {
+  const handleDonate = (request: BloodRequest) => {
     if (!user || isGuest) {
       toast({
         title: "Authentication Required",
@@ -170,27 +131,7 @@ export default function BloodRequests() {
       return;
     }
 
-    try {
-      await createAppointment({
-        donorId: user.id,
-        hospitalId: request.hospital_id,
-        requestId: request.id,
-        donationType: 'blood'
-      });
-
-      toast({
-        title: "Donation Request Sent",
-        description: `Your donation request has been sent to ${request.hospital_name}. They will contact you soon.`,
-        variant: "default",
-      });
-    } catch (error) {
-      console.error('Error creating appointment:', error);
-      toast({
-        title: "Error",
-        description: "Failed to send donation request. Please try again.",
-        variant: "destructive",
-      });
-    }
+    setBookingRequest(request);
   };
 
   return (
@@ -297,10 +238,10 @@ export default function BloodRequests() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Statuses</SelectItem>
-              <SelectItem value="Pending">Pending</SelectItem>
-              <SelectItem value="In Progress">In Progress</SelectItem>
-              <SelectItem value="Fulfilled">Fulfilled</SelectItem>
-              <SelectItem value="Cancelled">Cancelled</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="accepted">Accepted</SelectItem>
+              <SelectItem value="fulfilled">Fulfilled</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
           </Select>
 
@@ -334,22 +275,22 @@ export default function BloodRequests() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {filteredRequests.length > 0 ? (
             filteredRequests.map((request) => (
-              <Card key={request.id} className={request.urgency === "Emergency" ? "border-red-500" : ""}>
+              <Card key={request.id} className={request.emergency_level === "Critical" ? "border-red-500" : ""}>
                 <CardHeader className="pb-2">
                   <div className="flex justify-between">
                     <div>
                       <CardTitle>{request.patient_name}</CardTitle>
-                      <CardDescription>{request.hospital_name}</CardDescription>
+                      <CardDescription>{request.hospital?.name}</CardDescription>
                     </div>
                     <Badge
                       className={
-                        request.urgency === "Emergency" ? "bg-red-500" :
-                        request.urgency === "High" ? "bg-orange-500" :
-                        request.urgency === "Medium" ? "bg-yellow-500" :
+                        request.emergency_level === "Critical" ? "bg-red-500" :
+                        request.emergency_level === "High" ? "bg-orange-500" :
+                        request.emergency_level === "Medium" ? "bg-yellow-500" :
                         "bg-green-500"
                       }
                     >
-                      {request.urgency}
+                      {request.emergency_level}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -361,11 +302,11 @@ export default function BloodRequests() {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-sm font-medium">Required Units:</span>
-                      <span className="text-sm">{request.quantity_ml}ml</span>
+                      <span className="text-sm">{request.units_required}</span>
                     </div>
                     <div className="flex items-start">
                       <MapPin className="h-4 w-4 mr-1 mt-0.5 text-gray-500" />
-                      <span className="text-sm text-gray-500">{request.location}</span>
+                      <span className="text-sm text-gray-500">{[request.hospital?.address, request.hospital?.city].filter(Boolean).join(', ')}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-sm font-medium">Date:</span>
@@ -373,21 +314,21 @@ export default function BloodRequests() {
                         {new Date(request.created_at).toLocaleDateString()}
                       </span>
                     </div>
-                    {request.description && (
+                    {request.notes && (
                       <div className="text-sm text-gray-600 border-t pt-2 mt-2">
-                        {request.description}
+                        {request.notes}
                       </div>
                     )}
                   </div>
                 </CardContent>
                 <CardFooter className="justify-between border-t pt-4">
                   <Badge variant="outline" className={
-                    request.status === "Pending" ? "text-blue-500 border-blue-500" :
-                    request.status === "In Progress" ? "text-orange-500 border-orange-500" :
-                    request.status === "Fulfilled" ? "text-green-500 border-green-500" :
+                    request.status === "pending" ? "text-blue-500 border-blue-500" :
+                    request.status === "accepted" ? "text-orange-500 border-orange-500" :
+                    request.status === "fulfilled" ? "text-green-500 border-green-500" :
                     "text-gray-500 border-gray-500"
                   }>
-                    {request.status}
+                    <span className="capitalize">{request.status}</span>
                   </Badge>
                   <div className="flex gap-2">
                     <Button variant="outline" size="sm">Details</Button>
@@ -409,6 +350,17 @@ export default function BloodRequests() {
           )}
         </div>
       )}
+
+      {bookingRequest && user && (
+        <BookSlotDialog
+          hospitalId={bookingRequest.hospital_id}
+          hospitalName={bookingRequest.hospital?.name}
+          donorId={user.id}
+          requestId={bookingRequest.id}
+          onClose={() => setBookingRequest(null)}
+          onBooked={() => setBookingRequest(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-// Live data replaces mockData
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 // duplicate imports removed
 import { AreaChart, BarChart, XAxis, YAxis, CartesianGrid, Tooltip, Area, Bar, ResponsiveContainer, Legend } from "recharts";
@@ -12,129 +11,88 @@ import { Button } from "@/components/ui/button";
 import { verifyDonationOnChain } from "@/lib/blockchain";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { sampleBloodRequests, sampleStats } from "@/data/sampleData";
+import { dataProvider, type DashboardSummary } from "@/lib/dataProvider";
+import type { BloodRequestWithHospital, DonorRow, RequestPledgeRow } from "@/lib/repository";
+import { eligibilityInputFromProfile, evaluateEligibility } from "@/lib/eligibility";
+import { useProfile } from "@/hooks/useProfile";
+import { rankDonorsForRequest, type RankedDonor } from "@/lib/donorRanking";
+import DonorRankingFactors from "@/components/DonorRankingFactors";
 import RealMap from "@/components/RealMap";
 import DonorRequestCard from "@/components/DonorRequestCard";
 
 // Format data for charts
 const useLiveDashboardData = () => {
-  const [bloodTypeData, setBloodTypeData] = useState<{ name: string; available: number; required: number }[]>([]);
-  const [requests, setRequests] = useState<Array<{
-    id: string;
-    patient_name: string;
-    blood_group: string;
-    hospital_name: string;
-    urgency: string;
-    location: string;
-    quantity_ml: number;
-    created_at: string;
-    status: string;
-    description: string;
-    hospital_id: string;
-    hospital?: string;
-    request_type?: string;
-  }>>([]);
-  const [totals, setTotals] = useState({ totalDonors: 0, availableDonors: 0 });
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [requests, setRequests] = useState<BloodRequestWithHospital[]>([]);
 
   useEffect(() => {
     const load = async () => {
       try {
-        console.log('Loading dashboard data...');
-        
-        // For now, use sample data directly to avoid Supabase connection issues
-        console.log('Using sample data for dashboard');
-        
-        const totalsData = {
-          totalDonors: sampleStats.totalDonors,
-          availableDonors: sampleStats.availableDonors,
-        };
-        
-        const bloodTypeData = [
-          { name: "A+", available: 45, required: 35 },
-          { name: "A-", available: 12, required: 8 },
-          { name: "B+", available: 28, required: 22 },
-          { name: "B-", available: 8, required: 5 },
-          { name: "AB+", available: 15, required: 12 },
-          { name: "AB-", available: 3, required: 2 },
-          { name: "O+", available: 52, required: 45 },
-          { name: "O-", available: 18, required: 15 }
-        ];
-        
-        setTotals(totalsData);
-        setRequests(sampleBloodRequests);
-        setBloodTypeData(bloodTypeData);
-        
-        console.log('Dashboard data loaded successfully:', { totalsData, bloodTypeData, requestsCount: sampleBloodRequests.length });
+        const [summaryData, pending] = await Promise.all([
+          dataProvider.getDashboardSummary(),
+          dataProvider.listRequests({ status: 'pending' }),
+        ]);
+        setSummary(summaryData);
+        setRequests(pending);
       } catch (error) {
         console.error('Error loading dashboard data:', error);
-        // Fallback to sample data
-        const fallbackTotals = {
-          totalDonors: sampleStats.totalDonors,
-          availableDonors: sampleStats.availableDonors,
-        };
-        
-        const fallbackBloodTypeData = [
-          { name: "A+", available: 45, required: 35 },
-          { name: "A-", available: 12, required: 8 },
-          { name: "B+", available: 28, required: 22 },
-          { name: "B-", available: 8, required: 5 },
-          { name: "AB+", available: 15, required: 12 },
-          { name: "AB-", available: 3, required: 2 },
-          { name: "O+", available: 52, required: 45 },
-          { name: "O-", available: 18, required: 15 }
-        ];
-        
-        setTotals(fallbackTotals);
-        setRequests(sampleBloodRequests);
-        setBloodTypeData(fallbackBloodTypeData);
       }
     };
     load();
   }, []);
 
+  const totals = {
+    totalDonors: summary?.totalDonors ?? 0,
+    availableDonors: summary?.availableDonors ?? 0,
+  };
+  const bloodTypeData = summary?.bloodTypes ?? [];
+  const plasmaInventory = summary?.plasmaTypes ?? [];
+
   const urgencyData = useMemo(() => {
-    const count: Record<string, number> = { Low: 0, Medium: 0, High: 0, Emergency: 0 };
-    for (const r of requests) count[r.urgency] = (count[r.urgency] || 0) + 1;
+    const count: Record<string, number> = { Low: 0, Medium: 0, High: 0, Critical: 0 };
+    for (const r of requests) count[r.emergency_level] = (count[r.emergency_level] || 0) + 1;
     return Object.keys(count).map((k) => ({ name: k, count: count[k] }));
   }, [requests]);
 
   const pendingRequests = useMemo(() => requests.length, [requests]);
-  const criticalRequests = useMemo(() => requests.filter((r) => r.urgency === 'Emergency').length, [requests]);
+  const criticalRequests = useMemo(() => requests.filter((r) => r.emergency_level === 'Critical').length, [requests]);
 
-  return { bloodTypeData, urgencyData, totals, pendingRequests, criticalRequests, requests };
+  return { bloodTypeData, plasmaInventory, urgencyData, totals, pendingRequests, criticalRequests, requests };
 };
 
-export default function Dashboard() {
-  const { bloodTypeData, urgencyData, totals, pendingRequests, criticalRequests, requests } = useLiveDashboardData();
-  const [plasmaInventory, setPlasmaInventory] = useState<{ plasma_type: string; units: number }[]>([]);
-  const [donorRequests, setDonorRequests] = useState<Array<{
-    id: string;
-    request_id: string;
-    hospital_id: string;
-    type: 'blood' | 'plasma';
-    blood_group: string;
-    units: number;
-    urgency: 'Low' | 'Medium' | 'High' | 'Emergency';
-    patient_name: string;
-    patient_age?: number;
-    patient_gender?: string;
-    medical_condition?: string;
-    location: string;
-    notes?: string;
-    status: 'pending' | 'accepted' | 'ignored' | 'completed' | 'cancelled';
-    created_at: string;
-    hospital?: {
-      name: string;
-      contact_info?: {
-        phone?: string;
-        address?: string;
-      };
+const MATCHED_REQUESTS = 5;
+
+// Top donors for the first few pending requests, keyed by request id
+const useDonorMatches = (requests: BloodRequestWithHospital[]) => {
+  const [matches, setMatches] = useState<Record<string, RankedDonor[]>>({});
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const shown = requests.slice(0, MATCHED_REQUESTS);
+        const ranked = await Promise.all(shown.map((req) => rankDonorsForRequest(req, { limit: 2 })));
+        setMatches(Object.fromEntries(shown.map((req, i) => [req.id, ranked[i]])));
+      } catch (error) {
+        console.error('Error ranking donors:', error);
+      }
     };
-  }>>([]);
+    load();
+  }, [requests]);
+
+  return matches;
+};
+
+export default function Dashboard() {
+  const { bloodTypeData, plasmaInventory, urgencyData, totals, pendingRequests, criticalRequests, requests } = useLiveDashboardData();
+  const donorMatches = useDonorMatches(requests);
+  const [donorRequests, setDonorRequests] = useState<BloodRequestWithHospital[]>([]);
+  const [donorPledges, setDonorPledges] = useState<Record<string, RequestPledgeRow>>({});
   const [loadingRequests, setLoadingRequests] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const { profile } = useProfile();
+  const [donor, setDonor] = useState<DonorRow | null>(null);
   const { toast } = useToast();
 
   // Add defensive programming for auth
@@ -169,117 +127,51 @@ export default function Dashboard() {
     return () => clearTimeout(timer);
   }, []);
 
+  // Load donor-specific requests
+  const loadDonorRequests = useCallback(async () => {
+    setLoadingRequests(true);
+    try {
+      console.log('Loading donor requests...');
+      const [requestsData, pledges] = await Promise.all([
+        dataProvider.listRequests({ status: ['pending', 'accepted'] }),
+        user?.id ? dataProvider.listRequestPledges({ donorId: user.id }) : Promise.resolve([]),
+      ]);
+      setDonorRequests(requestsData);
+      setDonorPledges(Object.fromEntries(pledges.map((pledge) => [pledge.request_id, pledge])));
+      console.log('Donor requests loaded successfully:', requestsData);
+    } catch (error) {
+      console.error('Error loading donor requests:', error);
+    } finally {
+      setLoadingRequests(false);
+      console.log('Donor requests loading completed');
+    }
+  }, [user?.id]);
+
   useEffect(() => {
-    const loadPlasma = async () => {
-      try {
-        console.log('Loading plasma data...');
-        // Use sample data directly
-        const plasmaData = [
-          { plasma_type: "Convalescent", units: 15 },
-          { plasma_type: "Fresh Frozen", units: 8 },
-          { plasma_type: "Platelets", units: 12 },
-          { plasma_type: "RBC", units: 6 }
-        ];
-        setPlasmaInventory(plasmaData);
-        console.log('Plasma data loaded successfully:', plasmaData);
-      } catch (error) {
-        console.error('Error loading plasma data:', error);
-        // Fallback to sample data
-        const fallbackData = [
-          { plasma_type: "Convalescent", units: 15 },
-          { plasma_type: "Fresh Frozen", units: 8 },
-          { plasma_type: "Platelets", units: 12 },
-          { plasma_type: "RBC", units: 6 }
-        ];
-        setPlasmaInventory(fallbackData);
-      }
-    };
-    loadPlasma();
-  }, []);
+    loadDonorRequests();
+  }, [loadDonorRequests]);
 
-  // Load donor-specific requests
   useEffect(() => {
-    const loadDonorRequests = async () => {
-      setLoadingRequests(true);
-      try {
-        console.log('Loading donor requests...');
-        // Use sample data directly for now - map to correct format
-        const requestsData = sampleBloodRequests.slice(0, 3).map(req => ({
-          id: req.id,
-          request_id: req.id,
-          hospital_id: req.hospital_id,
-          type: 'blood' as const,
-          blood_group: req.blood_group,
-          units: req.quantity_ml,
-          urgency: req.urgency as 'Low' | 'Medium' | 'High' | 'Emergency',
-          patient_name: req.patient_name,
-          location: req.location,
-          status: req.status as 'pending' | 'accepted' | 'ignored' | 'completed' | 'cancelled',
-          created_at: req.created_at,
-          hospital: {
-            name: req.hospital_name,
-            contact_info: {
-              phone: '+1-555-0123'
-            }
-          }
-        }));
-        setDonorRequests(requestsData);
-        console.log('Donor requests loaded successfully:', requestsData);
-      } catch (error) {
-        console.error('Error loading donor requests:', error);
-        const fallbackRequests = sampleBloodRequests.slice(0, 3).map(req => ({
-          id: req.id,
-          request_id: req.id,
-          hospital_id: req.hospital_id,
-          type: 'blood' as const,
-          blood_group: req.blood_group,
-          units: req.quantity_ml,
-          urgency: req.urgency as 'Low' | 'Medium' | 'High' | 'Emergency',
-          patient_name: req.patient_name,
-          location: req.location,
-          status: req.status as 'pending' | 'accepted' | 'ignored' | 'completed' | 'cancelled',
-          created_at: req.created_at,
-          hospital: {
-            name: req.hospital_name,
-            contact_info: {
-              phone: '+1-555-0123'
-            }
-          }
-        }));
-        setDonorRequests(fallbackRequests);
-      } finally {
-        setLoadingRequests(false);
-        console.log('Donor requests loading completed');
-      }
-    };
+    if (!user?.id) return;
+    dataProvider.getDonor(user.id)
+      .then(setDonor)
+      .catch((error) => console.error('Error loading donor record:', error));
+  }, [user?.id]);
 
-    loadDonorRequests();
-  }, []);
+  // Deferred donors still see requests but cannot pledge to them
+  const eligibility = useMemo(
+    () => (profile ? evaluateEligibility(eligibilityInputFromProfile(profile, donor)) : null),
+    [profile, donor],
+  );
 
   const handleRequestUpdate = () => {
     // Reload requests when one is updated
     console.log('Request updated, reloading data...');
-    // For now, just reload the sample data with correct mapping
-    const updatedRequests = sampleBloodRequests.slice(0, 3).map(req => ({
-      id: req.id,
-      request_id: req.id,
-      hospital_id: req.hospital_id,
-      type: 'blood' as const,
-      blood_group: req.blood_group,
-      units: req.quantity_ml,
-      urgency: req.urgency as 'Low' | 'Medium' | 'High' | 'Emergency',
-      patient_name: req.patient_name,
-      location: req.location,
-      status: req.status as 'pending' | 'accepted' | 'ignored' | 'completed' | 'cancelled',
-      created_at: req.created_at,
-      hospital: {
-        name: req.hospital_name,
-        contact_info: {
-          phone: '+1-555-0123'
-        }
-      }
-    }));
-    setDonorRequests(updatedRequests);
+    loadDonorRequests();
+  };
+
+  const handleRequestDismiss = (requestId: string) => {
+    setDonorRequests((prev) => prev.filter((request) => request.id !== requestId));
   };
 
   const plasmaChartData = useMemo(() => {
@@ -493,19 +385,19 @@ export default function Dashboard() {
                     <div>
                       <div className="font-medium">{request.patient_name ?? 'Patient'}</div>
                       <div className="text-sm text-gray-500">
-                        {request.hospital ?? 'Hospital'} • {request.blood_group ?? request.request_type?.toUpperCase()} • {request.quantity_ml ?? '-'} ml
+                        {request.hospital?.name ?? 'Hospital'} • {request.blood_group ?? request.request_type?.toUpperCase()} • {request.units_required ?? '-'} units
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
                       <Badge 
                         className={
-                          request.urgency === "Emergency" ? "bg-red-500" :
-                          request.urgency === "High" ? "bg-orange-500" :
-                          request.urgency === "Medium" ? "bg-yellow-500" :
+                          request.emergency_level === "Critical" ? "bg-red-500" :
+                          request.emergency_level === "High" ? "bg-orange-500" :
+                          request.emergency_level === "Medium" ? "bg-yellow-500" :
                           "bg-green-500"
                         }
                       >
-                        {request.urgency}
+                        {request.emergency_level}
                       </Badge>
                     </div>
                   </div>
@@ -537,7 +429,10 @@ export default function Dashboard() {
                     <DonorRequestCard
                       key={request.id}
                       request={request}
+                      pledge={donorPledges[request.id]}
+                      eligibility={eligibility}
                       onRequestUpdate={handleRequestUpdate}
+                      onDismiss={handleRequestDismiss}
                     />
                   ))}
                 </div>
@@ -573,56 +468,34 @@ export default function Dashboard() {
           <Card>
             <CardHeader>
               <CardTitle>AI-Powered Donor-Patient Matches</CardTitle>
-              <CardDescription>Rule-based matching for demo: blood type compatibility and proximity</CardDescription>
+              <CardDescription>Donors scored on compatibility, distance, cooldown, reliability and availability</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {requests.slice(0, 5).map((req) => {
-                  // Simple compatibility scoring
-                  const compatible = (donorType: string, patientType: string) => {
-                    const compat: Record<string, string[]> = {
-                      'O-': ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'],
-                      'O+': ['O+', 'A+', 'B+', 'AB+'],
-                      'A-': ['A-', 'A+', 'AB-', 'AB+'],
-                      'A+': ['A+', 'AB+'],
-                      'B-': ['B-', 'B+', 'AB-', 'AB+'],
-                      'B+': ['B+', 'AB+'],
-                      'AB-': ['AB-', 'AB+'],
-                      'AB+': ['AB+']
-                    };
-                    return (compat[donorType] || []).includes(patientType);
-                  };
-
-                  const demoDonors = [
-                    { id: 'd1', name: 'Krishna', blood: 'O+', distanceKm: 3.2 },
-                    { id: 'd2', name: 'Aisha', blood: 'A+', distanceKm: 5.1 },
-                    { id: 'd3', name: 'Rohit', blood: 'B+', distanceKm: 2.4 },
-                    { id: 'd4', name: 'Priya', blood: 'AB+', distanceKm: 7.8 }
-                  ];
-
-                  const matched = demoDonors
-                    .filter((d) => compatible(d.blood, req.blood_group))
-                    .sort((a, b) => a.distanceKm - b.distanceKm)
-                    .slice(0, 2);
+                {requests.slice(0, MATCHED_REQUESTS).map((req) => {
+                  const matched = donorMatches[req.id] ?? [];
 
                   return (
                     <div key={req.id} className="p-3 border rounded-md">
                       <div className="flex items-center justify-between">
                         <div>
                           <div className="font-medium">{req.patient_name} • {req.blood_group}</div>
-                          <div className="text-xs text-gray-500">{req.hospital_name} • {req.location}</div>
+                          <div className="text-xs text-gray-500">{req.hospital?.name} • {req.hospital?.city}</div>
                         </div>
-                        <Badge>{req.urgency}</Badge>
+                        <Badge>{req.emergency_level}</Badge>
                       </div>
                       <div className="mt-2 text-sm text-gray-700">Top matches:</div>
                       <div className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {matched.length > 0 ? matched.map((m) => (
-                          <div key={m.id} className="p-2 border rounded text-sm">
-                            <div className="font-medium">{m.name} ({m.blood})</div>
-                            <div className="text-xs text-gray-500">~{m.distanceKm} km away</div>
+                        {matched.length > 0 ? matched.map((ranked) => (
+                          <div key={ranked.donor.id} className="p-2 border rounded text-sm space-y-1">
+                            <div className="flex items-center justify-between">
+                              <div className="font-medium">{ranked.donor.name} ({ranked.donor.blood_group})</div>
+                              <Badge variant="outline">{ranked.score}</Badge>
+                            </div>
+                            <DonorRankingFactors ranked={ranked} />
                           </div>
                         )) : (
-                          <div className="text-xs text-gray-500">No compatible donors in demo set</div>
+                          <div className="text-xs text-gray-500">No compatible donors found</div>
                         )}
                       </div>
                     </div>
@@ -16,13 +16,35 @@ import {
 import { Label } from "@/components/ui/label";
 import { MapPin, Phone, Search, MessageCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { sampleDonors } from "@/data/sampleData";
+import { dataProvider } from "@/lib/dataProvider";
+import { BLOOD_GROUPS, type DonorRow } from "@/lib/repository";
+import {
+  BLOOD_COMPONENTS,
+  COMPONENT_LABELS,
+  isBloodGroup,
+  MATCH_QUALITY_LABELS,
+  rankCompatibleDonors,
+  type BloodComponent,
+  type MatchQuality,
+} from "@/lib/compatibility";
+
+const toSearchDonor = (donor: DonorRow): Donor => ({
+  id: donor.id,
+  name: donor.name,
+  bloodType: donor.blood_group,
+  location: donor.location ?? '',
+  lastDonation: donor.last_donation_date ?? 'N/A',
+  contactNumber: donor.phone ?? '',
+  status: donor.is_available ? 'Available' : 'Unavailable',
+  distance: Math.floor(Math.random() * 10) + 1,
+});
 
 export default function DonorSearch() {
   const [filteredDonors, setFilteredDonors] = useState<Donor[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [bloodType, setBloodType] = useState("all");
+  const [component, setComponent] = useState<BloodComponent>("red_cells");
+  const [matches, setMatches] = useState<Record<string, MatchQuality>>({});
   const [maxDistance, setMaxDistance] = useState([10]);
   const [availabilityFilter, setAvailabilityFilter] = useState("all");
   const { toast } = useToast();
@@ -30,42 +52,19 @@ export default function DonorSearch() {
   useEffect(() => {
     const load = async () => {
       try {
-        const { data } = await supabase
-          .from('profiles')
-          .select('id, first_name, last_name, blood_type, is_available, location_sharing, last_donation_date');
-        
-        // Use sample data if no real data available
-        const finalData = (data && data.length > 0) ? data : sampleDonors;
-        
-        const mapped: Donor[] = finalData.map((p: any) => ({
-          id: p.id,
-          name: `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim() || 'Anonymous Donor',
-          bloodType: p.blood_type ?? 'N/A',
-          location: 'Downtown Medical District',
-          lastDonation: p.last_donation_date ?? '2024-01-01',
-          contactNumber: '+1-555-XXXX',
-          status: p.is_available ? 'Available' : 'Unavailable',
-          distance: Math.floor(Math.random() * 10) + 1,
-        }));
-        setFilteredDonors(mapped);
+        const data = await dataProvider.listDonors();
+        setFilteredDonors(data.map(toSearchDonor));
       } catch (error) {
         console.error('Error loading donors:', error);
-        // Fallback to sample data
-        const mapped: Donor[] = sampleDonors.map((p: any) => ({
-          id: p.id,
-          name: `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim() || 'Anonymous Donor',
-          bloodType: p.blood_type ?? 'N/A',
-          location: 'Downtown Medical District',
-          lastDonation: p.last_donation_date ?? '2024-01-01',
-          contactNumber: '+1-555-XXXX',
-          status: p.is_available ? 'Available' : 'Unavailable',
-          distance: Math.floor(Math.random() * 10) + 1,
-        }));
-        setFilteredDonors(mapped);
+        toast({
+          title: "Error",
+          description: "Failed to load donors. Please try again.",
+          variant: "destructive",
+        });
       }
     };
     load();
-  }, []);
+  }, [toast]);
 
   const handleSearch = () => {
     let filtered = filteredDonors;
@@ -78,8 +77,13 @@ export default function DonorSearch() {
       );
     }
 
-    if (bloodType !== "all") {
-      filtered = filtered.filter((donor) => donor.bloodType === bloodType);
+    // Blood type is the patient's; show every donor who can give to them, best match first
+    if (isBloodGroup(bloodType)) {
+      const ranked = rankCompatibleDonors(filtered, bloodType, (donor) => donor.bloodType, { component });
+      filtered = ranked.map(({ donor }) => donor);
+      setMatches(Object.fromEntries(ranked.map(({ donor, match }) => [donor.id, match])));
+    } else {
+      setMatches({});
     }
 
     if (availabilityFilter !== "all") {
@@ -94,24 +98,14 @@ export default function DonorSearch() {
   const handleReset = () => {
     setSearchTerm("");
     setBloodType("all");
+    setComponent("red_cells");
+    setMatches({});
     setMaxDistance([10]);
     setAvailabilityFilter("all");
     // reload from db
     (async () => {
-      const { data } = await supabase
-        .from('profiles')
-        .select('id, first_name, last_name, blood_type, is_available, location_sharing, last_donation_date');
-      const mapped: Donor[] = (data || []).map((p: any) => ({
-        id: p.id,
-        name: `${p.first_name ?? ''} ${p.last_name ?? ''}`.trim() || 'Anonymous Donor',
-        bloodType: p.blood_type ?? 'N/A',
-        location: '',
-        lastDonation: p.last_donation_date ?? 'N/A',
-        contactNumber: '',
-        status: p.is_available ? 'Available' : 'Unavailable',
-        distance: 0,
-      }));
-      setFilteredDonors(mapped);
+      const data = await dataProvider.listDonors();
+      setFilteredDonors(data.map(toSearchDonor));
     })();
   };
 
@@ -148,21 +142,30 @@ export default function DonorSearch() {
               </div>
 
               <div>
-                <Label htmlFor="blood-type">Blood Type</Label>
+                <Label htmlFor="blood-type">Patient Blood Type</Label>
                 <Select value={bloodType} onValueChange={setBloodType}>
                   <SelectTrigger id="blood-type">
                     <SelectValue placeholder="Select blood type" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Types</SelectItem>
-                    <SelectItem value="A+">A+</SelectItem>
-                    <SelectItem value="A-">A-</SelectItem>
-                    <SelectItem value="B+">B+</SelectItem>
-                    <SelectItem value="B-">B-</SelectItem>
-                    <SelectItem value="AB+">AB+</SelectItem>
-                    <SelectItem value="AB-">AB-</SelectItem>
-                    <SelectItem value="O+">O+</SelectItem>
-                    <SelectItem value="O-">O-</SelectItem>
+                    {BLOOD_GROUPS.map((group) => (
+                      <SelectItem key={group} value={group}>{group}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="component">Component Needed</Label>
+                <Select value={component} onValueChange={(value) => setComponent(value as BloodComponent)}>
+                  <SelectTrigger id="component">
+                    <SelectValue placeholder="Select component" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_COMPONENTS.map((c) => (
+                      <SelectItem key={c} value={c}>{COMPONENT_LABELS[c]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -231,6 +234,12 @@ export default function DonorSearch() {
                     <span className="text-sm font-medium">Blood Type:</span>
                     <span className="text-sm font-bold text-blood">{donor.bloodType}</span>
                   </div>
+                  {matches[donor.id] && (
+                    <div className="flex justify-between">
+                      <span className="text-sm font-medium">Match:</span>
+                      <span className="text-sm">{MATCH_QUALITY_LABELS[matches[donor.id]]}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-sm font-medium">Last Donation:</span>
                     <span className="text-sm">{donor.lastDonation}</span>
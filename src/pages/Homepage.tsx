@@ -4,6 +4,8 @@ import { Link, useLocation } from "react-router-dom";
 import { Heart, Menu, X, Users, MapPin, Phone, Shield, Clock, Droplet, Zap, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { describeEligibilityRules } from "@/lib/eligibility";
+import { cooldownRange } from "@/lib/cooldown";
 
 export default function Homepage() {
   const [scrolled, setScrolled] = useState(false);
@@ -258,7 +260,7 @@ export default function Homepage() {
                     </thead>
                     <tbody className="text-sm">
                       <tr className="border-b border-gray-100"><td className="py-3 text-[#7F8C8D]">Duration</td><td className="py-3 text-[#2C3E50]">8-12 minutes</td><td className="py-3 text-[#2C3E50]">45-60 minutes</td></tr>
-                      <tr className="border-b border-gray-100"><td className="py-3 text-[#7F8C8D]">Cooldown Period</td><td className="py-3 text-[#2C3E50]">56 days (8 weeks)</td><td className="py-3 text-[#2C3E50]">14 days (2 weeks)</td></tr>
+                      <tr className="border-b border-gray-100"><td className="py-3 text-[#7F8C8D]">Cooldown Period</td><td className="py-3 text-[#2C3E50]">{cooldownRange('blood')}</td><td className="py-3 text-[#2C3E50]">{cooldownRange('plasma')}</td></tr>
                       <tr className="border-b border-gray-100"><td className="py-3 text-[#7F8C8D]">Primary Use</td><td className="py-3 text-[#2C3E50]">Transfusions</td><td className="py-3 text-[#2C3E50]">Therapies & Treatments</td></tr>
                       <tr className="border-b border-gray-100"><td className="py-3 text-[#7F8C8D]">Volume</td><td className="py-3 text-[#2C3E50]">450-500ml</td><td className="py-3 text-[#2C3E50]">600-800ml</td></tr>
                       <tr><td className="py-3 text-[#7F8C8D]">Recovery Time</td><td className="py-3 text-[#2C3E50]">24-48 hours</td><td className="py-3 text-[#2C3E50]">2-4 hours</td></tr>
@@ -302,7 +304,7 @@ export default function Homepage() {
                 <p className="text-[#7F8C8D] mb-8">Be part of our community plasma drives and help hospitals maintain critical inventories for life-saving treatments.</p>
                 <div className="space-y-4">
                   <div className="flex items-center gap-4 p-4 bg-[#FFD166]/10 rounded-lg"><Clock className="w-8 h-8 text-[#FFD166]" /><div><h5 className="font-semibold text-[#2C3E50]">Quick Recovery</h5><p className="text-sm text-[#7F8C8D]">Return to normal activities in 2-4 hours</p></div></div>
-                  <div className="flex items-center gap-4 p-4 bg-[#27AE60]/10 rounded-lg"><Zap className="w-8 h-8 text-[#27AE60]" /><div><h5 className="font-semibold text-[#2C3E50]">Frequent Donations</h5><p className="text-sm text-[#7F8C8D]">Donate every 14 days (vs 56 for blood)</p></div></div>
+                  <div className="flex items-center gap-4 p-4 bg-[#27AE60]/10 rounded-lg"><Zap className="w-8 h-8 text-[#27AE60]" /><div><h5 className="font-semibold text-[#2C3E50]">Frequent Donations</h5><p className="text-sm text-[#7F8C8D]">Donate every {cooldownRange('plasma')} (vs {cooldownRange('blood')} for blood)</p></div></div>
                   <div className="flex items-center gap-4 p-4 bg-[#FF6B6B]/10 rounded-lg"><Heart className="w-8 h-8 text-[#FF6B6B]" /><div><h5 className="font-semibold text-[#2C3E50]">Maximum Impact</h5><p className="text-sm text-[#7F8C8D]">Help multiple patients with each donation</p></div></div>
                 </div>
                 <div className="mt-8 space-x-4">
@@ -322,9 +324,9 @@ export default function Homepage() {
               <p className="text-xl text-[#7F8C8D]">Everything you need to know about blood and plasma donation</p>
             </div>
             <div className="space-y-6">
-              <Card><CardHeader><CardTitle className="text-[#2C3E50]">How often can I donate blood?</CardTitle><CardDescription className="text-[#7F8C8D]">You can donate whole blood every 56 days (8 weeks). For plasma, you can donate every 14 days (2 weeks).</CardDescription></CardHeader></Card>
+              <Card><CardHeader><CardTitle className="text-[#2C3E50]">How often can I donate blood?</CardTitle><CardDescription className="text-[#7F8C8D]">You can donate whole blood every {cooldownRange('blood')} depending on sex. For plasma, you can donate every {cooldownRange('plasma')}.</CardDescription></CardHeader></Card>
               <Card><CardHeader><CardTitle className="text-[#2C3E50]">Is blood donation safe?</CardTitle><CardDescription className="text-[#7F8C8D]">Yes, blood donation is extremely safe. All equipment is sterile and used only once. Our AI system ensures compatibility matching.</CardDescription></CardHeader></Card>
-              <Card><CardHeader><CardTitle className="text-[#2C3E50]">What are the eligibility requirements?</CardTitle><CardDescription className="text-[#7F8C8D]">You must be 18-65 years old, weigh at least 50kg, be in good health, and meet hemoglobin requirements.</CardDescription></CardHeader></Card>
+              <Card><CardHeader><CardTitle className="text-[#2C3E50]">What are the eligibility requirements?</CardTitle><CardDescription className="text-[#7F8C8D]">{describeEligibilityRules()}</CardDescription></CardHeader></Card>
               <Card><CardHeader><CardTitle className="text-[#2C3E50]">How does blockchain verification work?</CardTitle><CardDescription className="text-[#7F8C8D]">Every donation is recorded on the Polygon blockchain, creating an immutable record of your contribution.</CardDescription></CardHeader></Card>
             </div>
           </div>
@@ -1,31 +1,26 @@
 
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { sampleHospitals } from "@/data/sampleData";
+import { dataProvider } from "@/lib/dataProvider";
+import { formatHospitalAddress, formatHospitalContact, type HospitalRow } from "@/lib/repository";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MapPin, Phone, Search, Building } from "lucide-react";
-type DbHospital = { id: string; name: string; address: string | null; contact: string | null };
 
 export default function Hospitals() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [hospitals, setHospitals] = useState<DbHospital[]>([]);
+  const [hospitals, setHospitals] = useState<HospitalRow[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
 
   useEffect(() => {
     const load = async () => {
       setLoading(true);
       try {
-        const { data, error } = await supabase.from("hospitals").select("id, name, address, contact");
-        // Use sample data if no real data available
-        setHospitals((data && data.length > 0 ? data : sampleHospitals) as any);
+        setHospitals(await dataProvider.listHospitals({ activeOnly: true }));
       } catch (error) {
         console.error('Error loading hospitals:', error);
-        // Fallback to sample data
-        setHospitals(sampleHospitals as any);
       } finally {
         setLoading(false);
       }
@@ -36,7 +31,7 @@ export default function Hospitals() {
   const filteredHospitals = hospitals.filter(
     (hospital) =>
       hospital.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (hospital.address || "").toLowerCase().includes(searchTerm.toLowerCase())
+      formatHospitalAddress(hospital).toLowerCase().includes(searchTerm.toLowerCase())
   );
   
   return (
@@ -75,7 +70,7 @@ export default function Hospitals() {
                       <CardTitle>{hospital.name}</CardTitle>
                       <CardDescription className="flex items-center gap-1 mt-1">
                         <MapPin className="h-3 w-3" />
-                        {hospital.address || "Address unavailable"}
+                        {formatHospitalAddress(hospital) || "Address unavailable"}
                       </CardDescription>
                     </div>
                     <Building className="text-medical h-5 w-5" />
@@ -85,8 +80,8 @@ export default function Hospitals() {
                 <CardContent>
                   <div className="flex items-center gap-1 text-sm mb-4">
                     <Phone className="h-3 w-3" />
-                    <a href={`tel:${hospital.contact || ""}`} className="text-blue-500 hover:underline">
-                      {hospital.contact || "N/A"}
+                    <a href={`tel:${hospital.phone || ""}`} className="text-blue-500 hover:underline">
+                      {formatHospitalContact(hospital) || "N/A"}
                     </a>
                   </div>
                   <CardDescription>No inventory summary available</CardDescription>
@@ -10,6 +10,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CURRENT_ELIGIBILITY_RULES, describeEligibilityRules } from "@/lib/eligibility";
+import { cooldownRange, describeCooldowns } from "@/lib/cooldown";
 
 interface Message {
   id: string;
@@ -217,11 +219,11 @@ export default function Messages() {
     if (lowerQuery.includes('hello') || lowerQuery.includes('hi')) {
       return "Hello! I'm PulseConnect's AI assistant. How can I help you today regarding blood or plasma donation?";
     } else if (lowerQuery.includes('donate blood')) {
-      return "To donate blood, you typically need to be at least 18 years old, weigh over 50kg, and be in good health. You can find more details on our 'Blood Donation' section or schedule an appointment through your dashboard.";
+      return `To donate blood, you need to be ${CURRENT_ELIGIBILITY_RULES.minAge}-${CURRENT_ELIGIBILITY_RULES.maxAge} years old, weigh at least ${CURRENT_ELIGIBILITY_RULES.minWeightKg}kg, and be in good health. You can find more details on our 'Blood Donation' section or schedule an appointment through your dashboard.`;
     } else if (lowerQuery.includes('donate plasma')) {
-      return "Plasma donation is similar to blood donation but takes longer. You can donate plasma more frequently, typically every 14 days. Check our 'Plasma Therapy' section for eligibility and process details.";
+      return `Plasma donation is similar to blood donation but takes longer. You can donate plasma more frequently, every ${cooldownRange('plasma')}. Check our 'Plasma Therapy' section for eligibility and process details.`;
     } else if (lowerQuery.includes('eligibility')) {
-      return "Eligibility for donation depends on several factors like age, weight, recent travel, and medical history. Our AI eligibility checker in your profile can give you a personalized assessment.";
+      return `${describeEligibilityRules()} Your profile shows your own eligibility and when you can donate next.`;
     } else if (lowerQuery.includes('find hospital')) {
       return "You can find registered hospitals and blood banks in your area using the 'Hospitals' or 'Map' sections. They provide contact details and available blood types.";
     } else if (lowerQuery.includes('emergency')) {
@@ -231,7 +233,7 @@ export default function Messages() {
     } else if (lowerQuery.includes('chat')) {
       return "Our real-time chat system allows donors and hospitals to communicate directly. You can initiate a chat from the 'Donor Search' results or the 'Messages' section.";
     } else if (lowerQuery.includes('cooldown')) {
-      return "After a whole blood donation, there's a 56-day cooldown period. For plasma, it's 14 days. Your profile will show your next eligible donation date.";
+      return `${describeCooldowns()} Your profile will show your next eligible donation date.`;
     } else if (lowerQuery.includes('thank you') || lowerQuery.includes('thanks')) {
       return "You're welcome! Is there anything else I can assist you with?";
     } else if (lowerQuery.includes('how to use')) {
@@ -6,29 +6,12 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from "recharts";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { samplePlasmaInventory, samplePlasmaRequests, sampleBlockchainTransactions } from "@/data/sampleData";
-
-interface PlasmaInventoryRow {
-  hospital_id: string;
-  plasma_type: string;
-  units: number;
-}
-
-interface PlasmaRequestRow {
-  id: string;
-  patient_name: string;
-  hospital_id: string;
-  diagnosis: string | null;
-  plasma_type: string;
-  required_units: number;
-  status: string;
-  created_at: string;
-}
+import { dataProvider } from "@/lib/dataProvider";
+import { summarizeByBloodGroup, type BloodUnitRow, type PlasmaRequestRow } from "@/lib/repository";
 
 export default function PlasmaCenter() {
   const { toast } = useToast();
-  const [inventory, setInventory] = useState<PlasmaInventoryRow[]>([]);
+  const [plasmaUnits, setPlasmaUnits] = useState<BloodUnitRow[]>([]);
   const [requests, setRequests] = useState<PlasmaRequestRow[]>([]);
   const [newRequest, setNewRequest] = useState({
     patient_name: "",
@@ -38,44 +21,48 @@ export default function PlasmaCenter() {
   });
 
   const loadData = async () => {
-    const [{ data: inv }, { data: reqs }] = await Promise.all([
-      supabase.from("plasma_inventory").select("hospital_id, plasma_type, units"),
-      supabase.from("plasma_requests").select("id, patient_name, hospital_id, diagnosis, plasma_type, required_units, status, created_at").order("created_at", { ascending: false }),
+    const [inv, reqs] = await Promise.all([
+      // The same bags the blood bank holds, plasma only
+      dataProvider.listBloodUnits({ component: 'plasma', status: 'available' }).catch((error) => {
+        console.error('Error loading plasma units:', error);
+        return [] as BloodUnitRow[];
+      }),
+      dataProvider.listPlasmaRequests().catch((error) => {
+        console.error('Error loading plasma requests:', error);
+        return [] as PlasmaRequestRow[];
+      }),
     ]);
-    setInventory(inv || []);
-    setRequests(reqs || []);
+    setPlasmaUnits(inv);
+    setRequests(reqs);
   };
 
   useEffect(() => {
     loadData();
   }, []);
 
-  const chartData = useMemo(() => {
-    const grouped: Record<string, number> = {};
-    for (const row of inventory) {
-      grouped[row.plasma_type] = (grouped[row.plasma_type] || 0) + row.units;
-    }
-    return Object.keys(grouped).map((k) => ({ type: k, units: grouped[k] }));
-  }, [inventory]);
+  const chartData = useMemo(
+    () => summarizeByBloodGroup(plasmaUnits, ['plasma']).filter(({ units }) => units > 0),
+    [plasmaUnits]
+  );
 
   const createRequest = async () => {
     if (!newRequest.patient_name) {
       toast({ title: "Missing patient name", variant: "destructive" });
       return;
     }
-    const { error } = await supabase.from("plasma_requests").insert({
-      patient_name: newRequest.patient_name,
-      diagnosis: newRequest.diagnosis || null,
-      plasma_type: newRequest.plasma_type,
-      required_units: newRequest.required_units,
-      hospital_id: null,
-    });
-    if (error) {
-      toast({ title: "Failed to create request", description: error.message, variant: "destructive" });
-    } else {
+    try {
+      await dataProvider.createPlasmaRequest({
+        patient_name: newRequest.patient_name,
+        diagnosis: newRequest.diagnosis || null,
+        plasma_type: newRequest.plasma_type,
+        required_units: newRequest.required_units,
+        hospital_id: null,
+      });
       toast({ title: "Plasma request created" });
       setNewRequest({ patient_name: "", diagnosis: "", plasma_type: "AB", required_units: 1 });
       loadData();
+    } catch (error) {
+      toast({ title: "Failed to create request", description: (error as Error).message, variant: "destructive" });
     }
   };
 
@@ -98,7 +85,7 @@ export default function PlasmaCenter() {
           <Card>
             <CardHeader>
               <CardTitle>Overall Plasma Inventory</CardTitle>
-              <CardDescription>Aggregated by plasma type</CardDescription>
+              <CardDescription>Plasma bags in date, by blood group</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={350}>
@@ -6,17 +6,31 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { User, Heart, Shield, Clock, CalendarDays, Camera, Droplet } from "lucide-react";
+import { User, Heart, Shield, CalendarDays, Camera, Droplet } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useProfile } from "@/hooks/useProfile";
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import {
+  DONATION_TYPES,
+  getDonor,
+  listDeclarations,
+  listDonations,
+  listScreenings,
+  type DeclarationRow,
+  type DonationRow,
+  type ScreeningRow,
+} from "@/lib/repository";
+import { ELIGIBILITY_STATUS_LABELS, eligibilityInputFromProfile, evaluateEligibility } from "@/lib/eligibility";
+import { DONATION_TYPE_LABELS, donorSex, nextEligibleDate } from "@/lib/cooldown";
+import HealthForm from "@/components/HealthForm";
+import DonorAppointments from "@/components/DonorAppointments";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Trash2 } from "lucide-react";
 
 export default function Profile() {
-  const { profile, loading, updateProfile } = useProfile();
+  const { profile, loading, updateProfile, fetchProfile } = useProfile();
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   
@@ -37,8 +51,12 @@ export default function Profile() {
   const [availability, setAvailability] = useState(true);
   const [scheduleType, setScheduleType] = useState<'blood' | 'plasma'>('blood');
   const [scheduleDate, setScheduleDate] = useState('');
-  const [eligibility, setEligibility] = useState<'green' | 'yellow' | 'red'>('green');
   const [nextEligible, setNextEligible] = useState<string | null>(null);
+  const [donorGender, setDonorGender] = useState<string | null>(null);
+  const [donations, setDonations] = useState<DonationRow[]>([]);
+  const [screening, setScreening] = useState<ScreeningRow | null>(null);
+  const [declaration, setDeclaration] = useState<DeclarationRow | null>(null);
+  const [showHealthForm, setShowHealthForm] = useState(false);
 
   // Update form when profile loads
   useEffect(() => {
@@ -119,26 +137,23 @@ export default function Profile() {
     }
   };
 
-  useEffect(() => {
-    // Simple heuristic for plasma eligibility demo
-    // If user has medical condition flagged 'pref_plasma', treat as eligible; otherwise neutral
-    if (medicalConditions?.toLowerCase().includes('pref_plasma')) {
-      setEligibility('green');
-    } else if (medicalConditions) {
-      setEligibility('yellow');
-    } else {
-      setEligibility('green');
-    }
-  }, [medicalConditions]);
-
   useEffect(() => {
     const loadCooldown = async () => {
       if (!user?.id) return;
-      const { data } = await supabase.from('donors').select('next_eligible_date').eq('user_id', user.id).single();
-      setNextEligible(data?.next_eligible_date ?? null);
+      const [donor, history, screenings, declarations] = await Promise.all([
+        getDonor(user.id),
+        listDonations({ donorId: user.id }),
+        listScreenings({ donorId: user.id }),
+        listDeclarations({ donorId: user.id }),
+      ]);
+      setNextEligible(donor?.next_eligible_date ?? null);
+      setDonorGender(donor?.gender ?? null);
+      setDonations(history);
+      setScreening(screenings[0] ?? null);
+      setDeclaration(declarations[0] ?? null);
     };
     loadCooldown();
-  }, [user?.id]);
+  }, [user?.id, showHealthForm]);
 
   const scheduleDonation = async () => {
     if (!scheduleDate) {
@@ -149,13 +164,13 @@ export default function Profile() {
     if (scheduleType === 'plasma') {
       const { error } = await supabase.from('plasma_donations').insert({
         donor_id: user?.id || null,
-        hospital_id: user?.id || null, // placeholder; wire your hospital selection
+        hospital_id: null, // assigned when a hospital confirms the donation
         plasma_type: 'AB',
         donation_volume_ml: 500,
         extracted_date: scheduleDate,
         expiry_date: new Date(new Date(scheduleDate).getTime() + 5 * 24 * 60 * 60 * 1000).toISOString(),
         component_status: 'reserved',
-      } as any);
+      });
       if (error) {
         toast({ title: 'Failed to schedule plasma donation', description: error.message, variant: 'destructive' });
       } else {
@@ -179,6 +194,13 @@ export default function Profile() {
     }
   };
 
+  const eligibility = profile
+    ? evaluateEligibility(eligibilityInputFromProfile(profile, { next_eligible_date: nextEligible }))
+    : null;
+  const eligibilityColor = eligibility?.status === 'eligible'
+    ? 'text-green-500'
+    : eligibility?.status === 'temporarily_deferred' ? 'text-yellow-500' : 'text-red-500';
+
   if (loading) {
     return <div className="flex items-center justify-center h-64">Loading...</div>;
   }
@@ -217,7 +239,7 @@ export default function Profile() {
               </div>
               <div className="flex justify-between text-sm py-2 border-b">
                 <span className="font-medium">Total Donations</span>
-                <span>5 times</span>
+                <span>{donations.length} {donations.length === 1 ? 'time' : 'times'}</span>
               </div>
               <div className="flex justify-between text-sm py-2">
                 <span className="font-medium">Status</span>
@@ -512,72 +534,87 @@ export default function Profile() {
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Eligibility Status</span>
-                <span className={`text-sm ${eligibility==='green'?'text-green-500':eligibility==='yellow'?'text-yellow-500':'text-red-500'}`}>
-                  {eligibility==='green'?'Eligible':eligibility==='yellow'?'Borderline':'Not Eligible'}
+                <span className={`text-sm ${eligibilityColor}`}>
+                  {eligibility ? ELIGIBILITY_STATUS_LABELS[eligibility.status] : 'Unknown'}
                 </span>
               </div>
+              {eligibility && <p className="text-xs text-gray-500">{eligibility.reason}</p>}
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Next Donation Date</span>
-                <span className="text-sm">After June 15, 2023</span>
+                <span className="text-sm">
+                  {eligibility?.status === 'eligible'
+                    ? 'Now'
+                    : eligibility?.eligibleFrom
+                      ? `After ${eligibility.eligibleFrom.toLocaleDateString()}`
+                      : eligibility?.status === 'permanently_deferred' ? 'Not eligible' : 'After review'}
+                </span>
               </div>
+              {donations.length > 0 && (
+                <div className="space-y-1 text-xs text-gray-500">
+                  {DONATION_TYPES.map((type) => {
+                    const date = nextEligibleDate(donations, donorSex(profile?.sex, donorGender), { type });
+                    return (
+                      <div key={type} className="flex justify-between">
+                        <span>{DONATION_TYPE_LABELS[type]}</span>
+                        <span>{date && date > new Date() ? date.toLocaleDateString() : 'Now'}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Blood Pressure</span>
-                <span className="text-sm">120/80 (Normal)</span>
+                <span className="text-sm">
+                  {screening?.systolic_bp != null ? `${screening.systolic_bp}/${screening.diastolic_bp ?? '?'}` : 'Not recorded'}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Pulse</span>
+                <span className="text-sm">{screening?.pulse_bpm != null ? `${screening.pulse_bpm} bpm` : 'Not recorded'}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Hemoglobin Level</span>
-                <span className="text-sm">14.2 g/dL (Normal)</span>
+                <span className="text-sm">{profile?.hemoglobin_g_dl != null ? `${profile.hemoglobin_g_dl} g/dL` : 'Not recorded'}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Last Health Check</span>
-                <span className="text-sm">March 15, 2023</span>
+                <span className="text-sm">
+                  {screening ? new Date(screening.screened_at).toLocaleDateString() : 'Not screened yet'}
+                </span>
               </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Health Declaration</span>
+                <span className="text-sm">
+                  {declaration
+                    ? `${new Date(declaration.consented_at).toLocaleDateString()} (v${declaration.questionnaire_version})`
+                    : 'Not submitted'}
+                </span>
+              </div>
+              {screening?.decision === 'deferred' && (
+                <p className="text-xs text-yellow-600">
+                  Deferred at screening: {screening.deferral_reason}
+                  {screening.deferred_until && ` (until ${new Date(screening.deferred_until).toLocaleDateString()})`}
+                </p>
+              )}
             </div>
           </CardContent>
           <CardFooter>
-            <Button variant="link" className="w-full">Update Health Information</Button>
+            <Button variant="link" className="w-full" onClick={() => setShowHealthForm(true)}>Update Health Information</Button>
           </CardFooter>
         </Card>
         
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Clock className="h-5 w-5 text-blood" /> Upcoming Appointments
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="flex items-center gap-4 border-b pb-3">
-                <div className="bg-gray-100 p-2 rounded-md text-center min-w-14">
-                  <div className="text-xs text-gray-500">JUN</div>
-                  <div className="text-lg font-bold">15</div>
-                </div>
-                <div>
-                  <p className="font-medium">Scheduled Donation</p>
-                  <p className="text-sm text-gray-500">City General Hospital, 10:00 AM</p>
-                </div>
-              </div>
-              <div className="flex items-center gap-4">
-                <div className="bg-gray-100 p-2 rounded-md text-center min-w-14">
-                  <div className="text-xs text-gray-500">JUL</div>
-                  <div className="text-lg font-bold">05</div>
-                </div>
-                <div>
-                  <p className="font-medium">Health Check-up</p>
-                  <p className="text-sm text-gray-500">Community Clinic, 2:30 PM</p>
-                </div>
-              </div>
-            </div>
-          </CardContent>
-          <CardFooter className="flex justify-between">
-            <Button variant="outline" className="flex-1">Cancel</Button>
-            <Button className="medical-btn flex-1">
-              <CalendarDays className="mr-2 h-4 w-4" />
-              New Appointment
-            </Button>
-          </CardFooter>
-        </Card>
+        <DonorAppointments donorId={user?.id} />
       </div>
+
+      {showHealthForm && (
+        <HealthForm
+          onComplete={() => {
+            setShowHealthForm(false);
+            fetchProfile();
+          }}
+          onCancel={() => setShowHealthForm(false)}
+        />
+      )}
     </div>
   );
 }
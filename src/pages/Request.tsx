@@ -7,55 +7,64 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
+import {
+  BLOOD_GROUPS,
+  EMERGENCY_LEVELS,
+  type BloodGroup,
+  type EmergencyLevel,
+  type HospitalRow,
+  type RequestType,
+} from "@/lib/repository";
 
 export default function RequestPage() {
   const { toast } = useToast();
   const query = new URLSearchParams(useLocation().search);
-  const presetType = query.get("type") as "blood" | "plasma" | null;
-  const [requestType, setRequestType] = useState<"blood" | "plasma">(presetType || "blood");
-  const [groupType, setGroupType] = useState("");
-  const [quantity, setQuantity] = useState<number>(0);
-  const [urgency, setUrgency] = useState("Normal");
+  const presetType = query.get("type") as RequestType | null;
+  const [requestType, setRequestType] = useState<RequestType>(presetType || "blood");
+  const [bloodGroup, setBloodGroup] = useState<BloodGroup | "">("");
+  const [units, setUnits] = useState<number>(1);
+  const [urgency, setUrgency] = useState<EmergencyLevel>("Medium");
   const [patientName, setPatientName] = useState("");
-  const [hospitalName, setHospitalName] = useState("");
-  const [location, setLocation] = useState("");
+  const [hospitalId, setHospitalId] = useState("");
+  const [hospitals, setHospitals] = useState<HospitalRow[]>([]);
   const [notes, setNotes] = useState("");
   const [componentType, setComponentType] = useState("");
   const [condition, setCondition] = useState("");
 
   useEffect(() => {
-    // TODO: auto-fill via maps API
+    dataProvider.listHospitals({ activeOnly: true })
+      .then(setHospitals)
+      .catch((error) => console.error('Error loading hospitals:', error));
   }, []);
 
   const submitRequest = async () => {
-    if (!patientName || !groupType || !quantity) {
+    if (!patientName || !bloodGroup || !units || !hospitalId) {
       toast({ title: "Missing fields", variant: "destructive" });
       return;
     }
-    const { error } = await supabase.from("requests").insert({
-      request_type: requestType,
-      group_type: groupType,
-      quantity_ml: quantity,
-      urgency,
-      patient_name: patientName,
-      hospital_name: hospitalName,
-      location,
-      notes,
-      component_type: requestType === "plasma" ? componentType : null,
-      condition: requestType === "plasma" ? condition : null,
-    });
-    if (error) {
-      toast({ title: "Failed to create request", description: error.message, variant: "destructive" });
-    } else {
+    try {
+      await dataProvider.createRequest({
+        hospital_id: hospitalId,
+        request_type: requestType,
+        blood_group: bloodGroup,
+        units_required: units,
+        emergency_level: urgency,
+        patient_name: patientName,
+        medical_condition: requestType === "plasma" ? condition || null : null,
+        notes: [requestType === "plasma" && componentType ? `Component: ${componentType}` : "", notes]
+          .filter(Boolean)
+          .join("\n") || null,
+      });
       toast({ title: "Request created" });
       setPatientName("");
-      setHospitalName("");
-      setLocation("");
+      setHospitalId("");
       setNotes("");
-      setQuantity(0);
+      setUnits(1);
       setComponentType("");
       setCondition("");
+    } catch (error) {
+      toast({ title: "Failed to create request", description: (error as Error).message, variant: "destructive" });
     }
   };
 
@@ -72,7 +81,7 @@ export default function RequestPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>Request Type</Label>
-              <Select value={requestType} onValueChange={(v: any)=>setRequestType(v)}>
+              <Select value={requestType} onValueChange={(v)=>setRequestType(v as RequestType)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -83,27 +92,35 @@ export default function RequestPage() {
               </Select>
             </div>
             <div className="space-y-2">
-              <Label>Group</Label>
-              <Input value={groupType} onChange={(e)=>setGroupType(e.target.value)} placeholder="e.g., A+, AB" />
+              <Label>Blood Group</Label>
+              <Select value={bloodGroup} onValueChange={(v)=>setBloodGroup(v as BloodGroup)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select blood group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLOOD_GROUPS.map((group) => (
+                    <SelectItem key={group} value={group}>{group}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label>Quantity (ml)</Label>
-              <Input type="number" value={quantity} onChange={(e)=>setQuantity(Number(e.target.value))} />
+              <Label>Units Required</Label>
+              <Input type="number" min={1} value={units} onChange={(e)=>setUnits(Number(e.target.value))} />
             </div>
             <div className="space-y-2">
               <Label>Urgency</Label>
-              <Select value={urgency} onValueChange={setUrgency as any}>
+              <Select value={urgency} onValueChange={(v)=>setUrgency(v as EmergencyLevel)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Low">Low</SelectItem>
-                  <SelectItem value="Normal">Normal</SelectItem>
-                  <SelectItem value="High">High</SelectItem>
-                  <SelectItem value="Emergency">Emergency</SelectItem>
+                  {EMERGENCY_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>{level}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -116,20 +133,26 @@ export default function RequestPage() {
             </div>
             <div className="space-y-2">
               <Label>Hospital / Clinic</Label>
-              <Input value={hospitalName} onChange={(e)=>setHospitalName(e.target.value)} />
+              <Select value={hospitalId} onValueChange={setHospitalId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select hospital" />
+                </SelectTrigger>
+                <SelectContent>
+                  {hospitals.map((hospital) => (
+                    <SelectItem key={hospital.id} value={hospital.id}>
+                      {hospital.name}{hospital.city ? ` — ${hospital.city}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label>Location</Label>
-            <Input value={location} onChange={(e)=>setLocation(e.target.value)} placeholder="Auto-fill coming soon" />
-          </div>
-
           {requestType === "plasma" && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Plasma Component Type</Label>
-                <Select value={componentType} onValueChange={setComponentType as any}>
+                <Select value={componentType} onValueChange={setComponentType}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
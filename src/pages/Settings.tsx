@@ -11,7 +11,7 @@ import { Shield, Smartphone, Bell, Eye, Trash2, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { useProfile } from "@/hooks/useProfile";
-import { supabase } from "@/integrations/supabase/client";
+import { dataProvider } from "@/lib/dataProvider";
 import OTPVerification from "@/components/OTPVerification";
 
 export default function Settings() {
@@ -111,7 +111,7 @@ export default function Settings() {
     if (window.confirm("Are you sure you want to delete your account? This action cannot be undone.")) {
       try {
         // Delete user profile first
-        await supabase.from('profiles').delete().eq('id', user?.id);
+        if (user) await dataProvider.deleteProfile(user.id);
         
         // Sign out user
         await signOut();
@@ -87,7 +87,7 @@ export default function Auth() {
           if (phone) await supabase.from('profiles').update({ phone }).eq('email', email);
           await supabase
             .from('profiles')
-            .update({ medical_conditions: donationType === 'plasma' ? 'pref_plasma' : 'pref_blood' })
+            .update({ preferred_donation_type: donationType })
             .eq('email', email);
 
           toast({ title: "Account Created", description: "Please check your email to verify your account." });
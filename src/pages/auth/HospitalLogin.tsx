@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Building, Heart } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { getHospital } from "@/lib/repository";
 
 export default function HospitalLogin() {
   const [email, setEmail] = useState("");
@@ -40,13 +41,9 @@ export default function HospitalLogin() {
       }
 
       // Get hospital data using the user ID from auth
-      const { data: hospitalData, error: hospitalError } = await supabase
-        .from('hospitals')
-        .select('*')
-        .eq('id', data.user?.id)
-        .single();
+      const hospitalData = await getHospital(data.user?.id);
 
-      if (hospitalError || !hospitalData) {
+      if (!hospitalData) {
         toast({
           title: "Hospital Not Found",
           description: "No hospital account found. Please register first.",
@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Building, Heart } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { createHospital } from "@/lib/repository";
 import { useNavigate } from "react-router-dom";
 
 const STATES = [
@@ -106,53 +107,29 @@ export default function HospitalRegistration() {
         return;
       }
 
-      // Insert hospital data with updated schema
-      const { error: hospitalError } = await supabase
-        .from('hospitals')
-        .insert({
-          id: authData.user?.id || '',
-          name: formData.hospitalName,
-          email: formData.email,
-          password_hash: 'pending_verification',
-          address: `${formData.hospitalAddress}, ${formData.district}, ${formData.state}`,
-          contact: `${formData.mobileNumber}${formData.landlineNumber ? ', ' + formData.landlineNumber : ''}`,
-          contact_info: {
-            phone: formData.mobileNumber,
-            landline: formData.landlineNumber,
-            address: formData.hospitalAddress,
-            website: formData.website
-          },
-          hospital_type: formData.hospitalType,
-          government_category: formData.governmentCategory,
-          hospital_address: formData.hospitalAddress,
-          state: formData.state,
-          district: formData.district,
-          website: formData.website,
-          mobile_number: formData.mobileNumber,
-          landline_number: formData.landlineNumber,
-          hospital_head_name: formData.hospitalHeadName,
-          is_verified: false,
-          is_active: true
-        });
+      // Insert hospital data; the auth user id doubles as the hospital id
+      await createHospital({
+        id: authData.user?.id,
+        name: formData.hospitalName,
+        email: formData.email,
+        phone: formData.mobileNumber,
+        address: formData.hospitalAddress,
+        city: formData.district,
+        state: formData.state,
+        is_verified: false,
+        is_active: true
+      });
 
-      if (hospitalError) {
-        toast({
-          title: "Registration Failed",
-          description: hospitalError.message,
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Registration Submitted",
-          description: "Please check your email and click the verification link to complete your registration.",
-        });
-        navigate('/auth/hospital-login');
-      }
+      toast({
+        title: "Registration Submitted",
+        description: "Please check your email and click the verification link to complete your registration.",
+      });
+      navigate('/auth/hospital-login');
     } catch (error) {
       console.error('Registration error:', error);
       toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
+        title: "Registration Failed",
+        description: (error as Error).message || "An unexpected error occurred.",
         variant: "destructive",
       });
     } finally {
@@ -1,52 +1,83 @@
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building, Edit, Save, X, Plus, Minus, Check, Droplets, Users, Bell, FileText, MapPin } from "lucide-react";
-import { listHospitalAppointments, acceptAppointment } from "@/lib/appointments";
+import { Building, Check, Droplets, Users, Bell, FileText, MapPin, Calendar, CalendarPlus, Activity, Split, UserX, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { sampleHospitals, sampleBloodInventory, sampleAppointments } from "@/data/sampleData";
+import { APPOINTMENT_STATUS_LABELS, canMarkNoShow, isOpenAppointment } from "@/lib/appointments";
+import { dataProvider } from "@/lib/dataProvider";
+import { appointmentCalendar, downloadCalendar } from "@/lib/ical";
+import { DEFAULT_TIMEZONE, dayInZone, formatSlot } from "@/lib/slots";
+import {
+  formatHospitalContact,
+  stockLevel,
+  summarizeByBloodGroup,
+  type AppointmentRow,
+  type AppointmentStatus,
+  type AppointmentWithDonor,
+  type BloodUnitRow,
+  type DonationRow,
+  type DonorReliabilityRow,
+  type HospitalRow,
+  type ScreeningRow,
+  type StockThresholdRow,
+} from "@/lib/repository";
 import BloodRequestForm from "@/components/hospital/BloodRequestForm";
 import RequestsList from "@/components/hospital/RequestsList";
 import DonorProfiles from "@/components/hospital/DonorProfiles";
 import NotificationSystem from "@/components/hospital/NotificationSystem";
+import ScreeningForm from "@/components/hospital/ScreeningForm";
+import DeclarationViewer from "@/components/hospital/DeclarationViewer";
+import BloodUnitInventory from "@/components/hospital/BloodUnitInventory";
+import ComponentSeparationForm from "@/components/hospital/ComponentSeparationForm";
+import StockForecast from "@/components/hospital/StockForecast";
+import StockTransfers from "@/components/hospital/StockTransfers";
+import StockThresholds from "@/components/hospital/StockThresholds";
+import ColdChainMonitor from "@/components/hospital/ColdChainMonitor";
+import WastageReport from "@/components/hospital/WastageReport";
+import DonationScheduleForm from "@/components/hospital/DonationScheduleForm";
+import ChairDayView from "@/components/hospital/ChairDayView";
+import CalendarFeedPanel from "@/components/CalendarFeedPanel";
+import AppointmentStatusDialog from "@/components/AppointmentStatusDialog";
 import HospitalMap from "@/components/HospitalMap";
 
-interface BloodType {
-  type: string;
-  units: number;
-}
-
-type DbHospital = { id: string; name: string; address: string | null; contact: string | null };
-
 export default function HospitalDashboard() {
-  const [hospital, setHospital] = useState<DbHospital | null>(null);
+  const [hospital, setHospital] = useState<HospitalRow | null>(null);
   const [loadingHospital, setLoadingHospital] = useState<boolean>(false);
-  const [bloodInventory, setBloodInventory] = useState<BloodType[]>(sampleBloodInventory);
+  const [bloodUnits, setBloodUnits] = useState<BloodUnitRow[]>([]);
+  const [thresholds, setThresholds] = useState<StockThresholdRow[]>([]);
   const [selectedRequestId, setSelectedRequestId] = useState<string | undefined>(undefined);
+  const [scheduleVersion, setScheduleVersion] = useState(0);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
 
-  const [editingType, setEditingType] = useState<string | null>(null);
-  const [tempValue, setTempValue] = useState<number>(0);
   const { toast } = useToast();
-  const [appointments, setAppointments] = useState<any[]>([]);
+  const [appointments, setAppointments] = useState<AppointmentWithDonor[]>([]);
   const [loadingAppointments, setLoadingAppointments] = useState<boolean>(false);
+  const [screenings, setScreenings] = useState<Map<string, ScreeningRow>>(new Map());
+  const [screeningAppointment, setScreeningAppointment] = useState<AppointmentWithDonor | null>(null);
+  const [reliability, setReliability] = useState<Map<string, DonorReliabilityRow>>(new Map());
+  const [statusChange, setStatusChange] = useState<
+    { appointment: AppointmentWithDonor; status: 'cancelled' | 'no_show' } | null
+  >(null);
+  const [donations, setDonations] = useState<DonationRow[]>([]);
+  const [separatingDonation, setSeparatingDonation] = useState<DonationRow | null>(null);
+  const [declarationShown, setDeclarationShown] = useState<
+    { donorName?: string; declarationId?: string | null; donorId?: string; at?: string } | null
+  >(null);
 
   useEffect(() => {
     const loadHospital = async () => {
       setLoadingHospital(true);
       try {
-        const { data } = await supabase.from("hospitals").select("id, name, address, contact").limit(1).maybeSingle();
-        // Use sample data if no real data available
-        setHospital((data as any) || sampleHospitals[0]);
+        // Prefer the hospital that signed in; otherwise show the first registered one
+        const session = JSON.parse(sessionStorage.getItem('hospital') || '{}');
+        const data = session.id ? await dataProvider.getHospital(session.id) : (await dataProvider.listHospitals())[0];
+        setHospital(data ?? null);
       } catch (error) {
         console.error('Error loading hospital:', error);
-        // Fallback to sample data
-        setHospital(sampleHospitals[0]);
       } finally {
         setLoadingHospital(false);
       }
@@ -59,13 +90,19 @@ export default function HospitalDashboard() {
       if (!hospital?.id) return;
       try {
         setLoadingAppointments(true);
-        const data = await listHospitalAppointments(hospital.id);
-        // Use sample data if no real data available
-        setAppointments(data && data.length > 0 ? data : sampleAppointments);
+        const [rows, screened, collected] = await Promise.all([
+          dataProvider.listAppointments({ hospitalId: hospital.id }),
+          dataProvider.listScreenings({ hospitalId: hospital.id }),
+          dataProvider.listDonations({ hospitalId: hospital.id }),
+        ]);
+        setAppointments(rows);
+        setDonations(collected);
+        setScreenings(new Map(screened.map((screening) => [screening.appointment_id, screening])));
+        const donorIds = [...new Set(rows.map((appointment) => appointment.donor_id))];
+        const records = await dataProvider.listDonorReliability(donorIds);
+        setReliability(new Map(records.map((record) => [record.donor_id, record])));
       } catch (e) {
         console.error(e);
-        // Fallback to sample data
-        setAppointments(sampleAppointments);
       } finally {
         setLoadingAppointments(false);
       }
@@ -73,58 +110,89 @@ export default function HospitalDashboard() {
     load();
   }, [hospital?.id]);
 
-  const handleEditStart = (type: string, currentUnits: number) => {
-    setEditingType(type);
-    setTempValue(currentUnits);
-  };
+  useEffect(() => {
+    if (!hospital?.id) return;
+    dataProvider.getDonationSchedule(hospital.id)
+      .then((schedule) => setTimeZone(schedule?.timezone ?? DEFAULT_TIMEZONE))
+      .catch((error) => console.error('Error loading donation schedule:', error));
+  }, [hospital?.id, scheduleVersion]);
 
-  const handleEditSave = (type: string) => {
-    setBloodInventory(prev => 
-      prev.map(blood => 
-        blood.type === type ? { ...blood, units: tempValue } : blood
-      )
-    );
-    setEditingType(null);
-    toast({
-      title: "Blood Inventory Updated",
-      description: `${type} blood units updated to ${tempValue}`,
-    });
-  };
+  const loadBloodUnits = useCallback(async () => {
+    if (!hospital?.id) return;
+    try {
+      setBloodUnits(await dataProvider.listBloodUnits({ hospitalId: hospital.id }));
+    } catch (error) {
+      console.error('Error loading blood units:', error);
+    }
+  }, [hospital?.id]);
 
-  const handleEditCancel = () => {
-    setEditingType(null);
-    setTempValue(0);
-  };
+  useEffect(() => {
+    loadBloodUnits();
+  }, [loadBloodUnits]);
 
-  const handleQuickUpdate = (type: string, change: number) => {
-    setBloodInventory(prev => 
-      prev.map(blood => 
-        blood.type === type 
-          ? { ...blood, units: Math.max(0, blood.units + change) }
-          : blood
-      )
-    );
-    toast({
-      title: "Quick Update",
-      description: `${type} blood units ${change > 0 ? 'increased' : 'decreased'} by ${Math.abs(change)}`,
-    });
-  };
+  // Reload whenever a colleague, a transfer or a scheduled job changes one of our bags
+  useEffect(() => {
+    if (!hospital?.id) return;
+    return dataProvider.subscribeToBloodUnits(hospital.id, loadBloodUnits);
+  }, [hospital?.id, loadBloodUnits]);
+
+  const loadThresholds = useCallback(async () => {
+    if (!hospital?.id) return;
+    try {
+      setThresholds(await dataProvider.listStockThresholds({ hospitalId: hospital.id }));
+    } catch (error) {
+      console.error('Error loading stock thresholds:', error);
+    }
+  }, [hospital?.id]);
+
+  useEffect(() => {
+    loadThresholds();
+  }, [loadThresholds]);
+
+  // Totals always come from the live bags: available and in date
+  const bloodInventory = useMemo(() => summarizeByBloodGroup(bloodUnits), [bloodUnits]);
+  const separatedDonationIds = useMemo(
+    () => new Set(bloodUnits.filter((unit) => unit.donation_id && unit.component !== 'whole_blood').map((unit) => unit.donation_id)),
+    [bloodUnits]
+  );
 
   const getTotalUnits = () => {
     return bloodInventory.reduce((total, blood) => total + blood.units, 0);
   };
 
-  const getStatusColor = (units: number) => {
-    if (units <= 5) return "bg-red-500";
-    if (units <= 15) return "bg-yellow-500";
+  // Against the group's own threshold, or the default levels when it has none
+  const thresholdFor = (group: string) => thresholds.find((threshold) => threshold.blood_group === group);
+  const getStatusColor = (group: string, units: number) => {
+    const level = stockLevel(units, thresholdFor(group));
+    if (level === 'below_min') return "bg-red-500";
+    if (level === 'below_target') return "bg-yellow-500";
     return "bg-green-500";
   };
+  const lowStock = bloodInventory.filter((blood) => stockLevel(blood.units, thresholdFor(blood.type)) === 'below_min');
 
   const handleRequestSubmitted = () => {
     // Refresh requests list when a new request is submitted
     // This will be handled by the RequestsList component
   };
 
+  const handleScreeningRecorded = (screening: ScreeningRow) => {
+    setScreenings((prev) => new Map(prev).set(screening.appointment_id, screening));
+    setScreeningAppointment(null);
+  };
+
+  // A no-show also counts against the donor straight away
+  const handleStatusChanged = async (changed: AppointmentRow) => {
+    setStatusChange(null);
+    setAppointments((prev) => prev.map((appointment) => appointment.id === changed.id ? { ...appointment, ...changed } : appointment));
+    if (changed.status !== 'no_show') return;
+    try {
+      const [record] = await dataProvider.listDonorReliability([changed.donor_id]);
+      if (record) setReliability((prev) => new Map(prev).set(record.donor_id, record));
+    } catch (error) {
+      console.error('Error loading donor reliability:', error);
+    }
+  };
+
   const handleAppointmentScheduled = () => {
     // Refresh appointments when a new appointment is scheduled
     // This will be handled by the individual components
@@ -149,7 +217,7 @@ export default function HospitalDashboard() {
                 try {
                   const { verifyDonationOnChain } = await import("@/lib/blockchain");
                   const tx = await verifyDonationOnChain(
-                    { donorId: null, hospitalId: hospital?.id || null, donationType: "plasma", status: "received" },
+                    { donationId: null, donorId: null, hospitalId: hospital?.id || null, donationType: "plasma", status: "received" },
                     { rpcUrl: (import.meta as any).env.VITE_POLYGON_RPC_URL || "https://rpc-mumbai.maticvigil.com", privateKey: (import.meta as any).env.VITE_POLYGON_PRIVATE_KEY || "demo-key" }
                   );
                   
@@ -196,7 +264,7 @@ export default function HospitalDashboard() {
               </div>
               <div>
                 <Label className="text-sm font-medium text-gray-500">Contact</Label>
-                <p className="text-lg font-semibold">{hospital?.contact || 'N/A'}</p>
+                <p className="text-lg font-semibold">{hospital ? formatHospitalContact(hospital) : 'N/A'}</p>
               </div>
             </div>
           </CardContent>
@@ -204,7 +272,7 @@ export default function HospitalDashboard() {
 
         {/* Main Dashboard Tabs */}
         <Tabs defaultValue="requests" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="requests" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
               Requests
@@ -213,6 +281,10 @@ export default function HospitalDashboard() {
               <Users className="h-4 w-4" />
               Donors
             </TabsTrigger>
+            <TabsTrigger value="appointments" className="flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              Appointments
+            </TabsTrigger>
             <TabsTrigger value="map" className="flex items-center gap-2">
               <MapPin className="h-4 w-4" />
               Nearby Donors
@@ -241,6 +313,176 @@ export default function HospitalDashboard() {
             />
           </TabsContent>
 
+          {/* Appointments Tab */}
+          <TabsContent value="appointments" className="space-y-6">
+            <DonationScheduleForm hospitalId={hospital?.id} onSaved={() => setScheduleVersion((v) => v + 1)} />
+            <ChairDayView hospitalId={hospital?.id} refreshKey={scheduleVersion} />
+            <Card>
+              <CardHeader>
+                <CardTitle>Appointments</CardTitle>
+                <CardDescription>
+                  Screen each donor for hemoglobin and vitals before collection
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loadingAppointments ? (
+                  <p className="text-gray-500 text-center py-4">Loading appointments...</p>
+                ) : appointments.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4">No appointments booked yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {appointments.map((appointment) => {
+                      const screening = screenings.get(appointment.id);
+                      const missed = reliability.get(appointment.donor_id)?.appointments_missed ?? 0;
+                      return (
+                        <div key={appointment.id} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-semibold">{appointment.donor?.name ?? 'Unknown donor'}</span>
+                              {appointment.donor?.blood_group && (
+                                <Badge className="bg-red-100 text-red-800 border-red-200">{appointment.donor.blood_group}</Badge>
+                              )}
+                              <Badge variant="outline">
+                                {APPOINTMENT_STATUS_LABELS[appointment.status as AppointmentStatus] ?? appointment.status}
+                              </Badge>
+                              {missed > 0 && (
+                                <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">
+                                  {missed} missed {missed === 1 ? 'appointment' : 'appointments'}
+                                </Badge>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-500">
+                              {formatSlot(appointment.slot_start, timeZone)}
+                              {appointment.chair != null && ` · Chair ${appointment.chair}`}
+                            </p>
+                            {screening && (
+                              <p className={`text-sm ${screening.decision === 'deferred' ? 'text-yellow-700' : 'text-green-700'}`}>
+                                {screening.decision === 'deferred'
+                                  ? `Deferred: ${screening.deferral_reason}`
+                                  : 'Passed screening'}
+                                {screening.hemoglobin_g_dl != null && ` · Hb ${screening.hemoglobin_g_dl} g/dL`}
+                                {screening.systolic_bp != null && ` · BP ${screening.systolic_bp}/${screening.diastolic_bp ?? '?'}`}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!hospital}
+                              title="Add to calendar (.ics)"
+                              onClick={() => downloadCalendar(
+                                appointmentCalendar(appointment, hospital, timeZone, 'hospital'),
+                                `donation-${dayInZone(new Date(appointment.slot_start), timeZone)}-${appointment.donor?.name ?? 'donor'}`
+                              )}
+                            >
+                              <CalendarPlus className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setDeclarationShown({
+                                donorName: appointment.donor?.name,
+                                donorId: appointment.donor_id,
+                                at: appointment.appointment_date,
+                              })}
+                            >
+                              <FileText className="h-4 w-4 mr-1" />
+                              Declaration
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setScreeningAppointment(appointment)}
+                              disabled={appointment.status === 'cancelled' || appointment.status === 'no_show'}
+                            >
+                              <Activity className="h-4 w-4 mr-1" />
+                              {screening ? 'Re-screen' : 'Screen'}
+                            </Button>
+                            {canMarkNoShow(appointment) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setStatusChange({ appointment, status: 'no_show' })}
+                              >
+                                <UserX className="h-4 w-4 mr-1" />
+                                No-show
+                              </Button>
+                            )}
+                            {isOpenAppointment(appointment) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                title="Cancel appointment"
+                                onClick={() => setStatusChange({ appointment, status: 'cancelled' })}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="border-t pt-4 mt-4">
+                  <CalendarFeedPanel ownerType="hospital" ownerId={hospital?.id} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recorded Donations</CardTitle>
+                <CardDescription>
+                  Each donation keeps the health declaration the donor had made before it. Separate whole
+                  blood into components to add them to the inventory.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {donations.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4">No donations recorded yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {donations.map((donation) => (
+                      <div key={donation.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <Badge className="bg-red-100 text-red-800 border-red-200">{donation.blood_group}</Badge>
+                            <Badge variant="outline">{donation.donation_type}</Badge>
+                            <span className="text-sm">{donation.units_donated} unit(s)</span>
+                          </div>
+                          <p className="text-sm text-gray-500">{new Date(donation.donation_date).toLocaleString()}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {donation.donation_type === 'blood' && (
+                            separatedDonationIds.has(donation.id) ? (
+                              <Badge variant="outline">Separated</Badge>
+                            ) : (
+                              <Button size="sm" variant="outline" onClick={() => setSeparatingDonation(donation)}>
+                                <Split className="h-4 w-4 mr-1" />
+                                Separate
+                              </Button>
+                            )
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!donation.health_declaration_id}
+                            onClick={() => setDeclarationShown({ declarationId: donation.health_declaration_id })}
+                          >
+                            <FileText className="h-4 w-4 mr-1" />
+                            {donation.health_declaration_id ? 'Declaration' : 'No declaration'}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Map Tab - Nearby Donors */}
           <TabsContent value="map" className="space-y-6">
             <HospitalMap />
@@ -262,94 +504,38 @@ export default function HospitalDashboard() {
                     <div key={blood.type} className="border rounded-lg p-4 text-center">
                       <div className="text-2xl font-bold text-blood mb-2">{blood.type}</div>
                       <div className="flex items-center justify-center mb-2">
-                        <Badge className={`${getStatusColor(blood.units)} text-white`}>
+                        <Badge className={`${getStatusColor(blood.type, blood.units)} text-white`}>
                           {blood.units} units
                         </Badge>
                       </div>
-                      <div className="flex gap-1 justify-center">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="h-8 w-8 p-0"
-                          onClick={() => handleQuickUpdate(blood.type, -1)}
-                        >
-                          <Minus className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="h-8 w-8 p-0"
-                          onClick={() => handleQuickUpdate(blood.type, 1)}
-                        >
-                          <Plus className="h-3 w-3" />
-                        </Button>
-                      </div>
                     </div>
                   ))}
                 </div>
               </CardContent>
             </Card>
 
-            {/* Detailed Blood Management */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Blood Inventory Management</CardTitle>
-                <CardDescription>
-                  Update blood unit quantities for each blood type
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {bloodInventory.map((blood) => (
-                    <div key={blood.type} className="flex items-center justify-between p-4 border rounded-lg">
-                      <div className="flex items-center gap-4">
-                        <div className="text-xl font-bold text-blood w-12">{blood.type}</div>
-                        <div className="text-sm text-gray-500">Blood Type</div>
-                      </div>
-                      
-                      <div className="flex items-center gap-4">
-                        {editingType === blood.type ? (
-                          <div className="flex items-center gap-2">
-                            <Input
-                              type="number"
-                              value={tempValue}
-                              onChange={(e) => setTempValue(parseInt(e.target.value) || 0)}
-                              className="w-20"
-                              min="0"
-                            />
-                            <Button
-                              size="sm"
-                              onClick={() => handleEditSave(blood.type)}
-                              className="medical-btn"
-                            >
-                              <Save className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={handleEditCancel}
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        ) : (
-                          <div className="flex items-center gap-4">
-                            <div className="text-lg font-semibold">{blood.units} units</div>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleEditStart(blood.type, blood.units)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+            {/* Minimum and target levels that trigger automatic restocking */}
+            <StockThresholds
+              hospitalId={hospital?.id}
+              stock={bloodInventory}
+              thresholds={thresholds}
+              onThresholdsChanged={loadThresholds}
+            />
+
+            {/* Projected days of supply per group */}
+            <StockForecast hospitalId={hospital?.id} units={bloodUnits} donations={donations} />
+
+            {/* Bags, receiving and FEFO issue */}
+            <BloodUnitInventory hospitalId={hospital?.id} units={bloodUnits} onUnitsChanged={loadBloodUnits} />
+
+            {/* Transfers to and from other hospitals */}
+            <StockTransfers hospital={hospital} onUnitsChanged={loadBloodUnits} />
+
+            {/* Storage temperatures, excursions and quarantine */}
+            <ColdChainMonitor hospitalId={hospital?.id} onUnitsChanged={loadBloodUnits} />
+
+            {/* Expired and discarded bags by month */}
+            <WastageReport units={bloodUnits} />
 
             {/* Emergency Alerts */}
             <Card>
@@ -358,18 +544,24 @@ export default function HospitalDashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {bloodInventory
-                    .filter(blood => blood.units <= 5)
-                    .map((blood) => (
+                  {lowStock.map((blood) => {
+                    const threshold = thresholdFor(blood.type);
+                    return (
                       <div key={blood.type} className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg">
                         <div className="flex items-center gap-2">
                           <div className="w-2 h-2 bg-red-500 rounded-full"></div>
                           <span className="font-medium">Critical: {blood.type} blood type</span>
+                          {threshold && (
+                            <span className="text-xs text-gray-600">
+                              minimum {threshold.min_units}, restock requested up to {threshold.target_units}
+                            </span>
+                          )}
                         </div>
                         <Badge variant="destructive">{blood.units} units remaining</Badge>
                       </div>
-                    ))}
-                  {bloodInventory.filter(blood => blood.units <= 5).length === 0 && (
+                    );
+                  })}
+                  {lowStock.length === 0 && (
                     <p className="text-gray-500 text-center py-4">No critical stock alerts</p>
                   )}
                 </div>
@@ -383,6 +575,42 @@ export default function HospitalDashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      {screeningAppointment && (
+        <ScreeningForm
+          appointment={screeningAppointment}
+          screening={screenings.get(screeningAppointment.id)}
+          onClose={() => setScreeningAppointment(null)}
+          onScreeningRecorded={handleScreeningRecorded}
+        />
+      )}
+
+      {statusChange && (
+        <AppointmentStatusDialog
+          appointment={statusChange.appointment}
+          status={statusChange.status}
+          actor="hospital"
+          timeZone={timeZone}
+          counterpart={statusChange.appointment.donor?.name}
+          onClose={() => setStatusChange(null)}
+          onChanged={handleStatusChanged}
+        />
+      )}
+
+      {separatingDonation && (
+        <ComponentSeparationForm
+          donation={separatingDonation}
+          onClose={() => setSeparatingDonation(null)}
+          onSeparated={() => {
+            setSeparatingDonation(null);
+            loadBloodUnits();
+          }}
+        />
+      )}
+
+      {declarationShown && (
+        <DeclarationViewer {...declarationShown} onClose={() => setDeclarationShown(null)} />
+      )}
     </div>
   );
 }
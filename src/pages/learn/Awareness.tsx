@@ -2,6 +2,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
+import { cooldownRange } from "@/lib/cooldown";
 
 export default function Awareness() {
   return (
@@ -49,8 +50,8 @@ export default function Awareness() {
                       </tr>
                       <tr className="border-b">
                         <td className="py-2">Cooldown</td>
-                        <td className="py-2">56 days</td>
-                        <td className="py-2">14 days</td>
+                        <td className="py-2">{cooldownRange('blood')}</td>
+                        <td className="py-2">{cooldownRange('plasma')}</td>
                       </tr>
                       <tr>
                         <td className="py-2">Primary Use</td>
@@ -74,7 +74,7 @@ CREATE TABLE IF NOT EXISTS public.appointments (
   donor_id uuid NOT NULL,
   request_id uuid,
   appointment_date timestamptz NOT NULL,
- I want you to regenerate the full  appointment_time text,
+  appointment_time text,
   status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show')),
   notes text,
   created_at timestamptz NOT NULL DEFAULT now(),
@@ -0,0 +1,129 @@
+-- ===============================================================
+-- PulseConnect: donor profiles and OTP verification
+-- Tables used by the auth, profile, settings and messaging screens
+-- ===============================================================
+
+-- ===============================================================
+-- 1. PROFILES TABLE
+-- ===============================================================
+-- One row per signed-up donor account, keyed on the auth user id.
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id uuid PRIMARY KEY,
+  email text,
+  first_name text,
+  last_name text,
+  phone text,
+  address text,
+  blood_type text CHECK (blood_type IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  date_of_birth date,
+  last_donation_date timestamptz,
+  medical_conditions text,
+  medications text,
+  allergies text,
+  avatar_url text,
+  is_available boolean DEFAULT true,
+  email_notifications boolean DEFAULT true,
+  sms_notifications boolean DEFAULT true,
+  location_sharing boolean DEFAULT false,
+  is_email_verified boolean DEFAULT false,
+  is_mobile_verified boolean DEFAULT false,
+  two_factor_enabled boolean DEFAULT false,
+  backup_codes text[],
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ===============================================================
+-- 2. OTP VERIFICATIONS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.otp_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid,
+  hospital_id uuid,
+  email text,
+  phone_number text,
+  otp_code text NOT NULL,
+  purpose text NOT NULL CHECK (purpose IN ('login', 'registration', 'verification')),
+  attempts integer NOT NULL DEFAULT 0,
+  is_used boolean NOT NULL DEFAULT false,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT otp_verifications_target_check CHECK (email IS NOT NULL OR phone_number IS NOT NULL)
+);
+
+-- ===============================================================
+-- 3. FOREIGN KEY CONSTRAINTS
+-- ===============================================================
+ALTER TABLE public.profiles
+ADD CONSTRAINT fk_profiles_id
+FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.otp_verifications
+ADD CONSTRAINT fk_otp_verifications_user_id
+FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.otp_verifications
+ADD CONSTRAINT fk_otp_verifications_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+-- ===============================================================
+-- 4. INDEXES FOR PERFORMANCE
+-- ===============================================================
+CREATE INDEX IF NOT EXISTS idx_profiles_email ON public.profiles (email);
+CREATE INDEX IF NOT EXISTS idx_profiles_blood_type ON public.profiles (blood_type);
+CREATE INDEX IF NOT EXISTS idx_profiles_available ON public.profiles (is_available);
+
+CREATE INDEX IF NOT EXISTS idx_otp_verifications_email ON public.otp_verifications (email, purpose);
+CREATE INDEX IF NOT EXISTS idx_otp_verifications_expires_at ON public.otp_verifications (expires_at);
+
+-- ===============================================================
+-- 5. TRIGGERS
+-- ===============================================================
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON public.profiles;
+
+CREATE TRIGGER update_profiles_updated_at
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Create a profile for every new donor account. Hospital accounts sign up
+-- with user_type = 'hospital' and get a hospitals row instead.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF coalesce(NEW.raw_user_meta_data ->> 'user_type', 'donor') <> 'hospital' THEN
+        INSERT INTO public.profiles (id, email, first_name, last_name)
+        VALUES (
+            NEW.id,
+            NEW.email,
+            NEW.raw_user_meta_data ->> 'first_name',
+            NEW.raw_user_meta_data ->> 'last_name'
+        )
+        ON CONFLICT (id) DO NOTHING;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- ===============================================================
+-- 6. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.otp_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Profiles policies
+CREATE POLICY "profiles_select_authenticated" ON public.profiles FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "profiles_insert_own" ON public.profiles FOR INSERT WITH CHECK (auth.uid() = id);
+CREATE POLICY "profiles_update_own" ON public.profiles FOR UPDATE USING (auth.uid() = id);
+CREATE POLICY "profiles_delete_own" ON public.profiles FOR DELETE USING (auth.uid() = id);
+
+-- OTP policies: codes are issued and checked by the client before and
+-- right after sign-in, so anonymous access is required here.
+CREATE POLICY "otp_verifications_insert_all" ON public.otp_verifications FOR INSERT WITH CHECK (true);
+CREATE POLICY "otp_verifications_select_all" ON public.otp_verifications FOR SELECT USING (true);
+CREATE POLICY "otp_verifications_update_all" ON public.otp_verifications FOR UPDATE USING (true);
@@ -0,0 +1,96 @@
+-- ===============================================================
+-- PulseConnect: messages, notifications and hospital activity log
+-- ===============================================================
+
+-- ===============================================================
+-- 1. MESSAGES TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL,
+  receiver_id uuid NOT NULL,
+  content text,
+  image_url text,
+  message_type text NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'image')),
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT messages_body_check CHECK (content IS NOT NULL OR image_url IS NOT NULL)
+);
+
+-- ===============================================================
+-- 2. NOTIFICATIONS TABLE
+-- ===============================================================
+-- user_id is a donor id or a hospital id depending on user_type, so it
+-- carries no foreign key.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  user_type text NOT NULL DEFAULT 'donor' CHECK (user_type IN ('donor', 'hospital')),
+  title text NOT NULL,
+  message text NOT NULL,
+  type text NOT NULL DEFAULT 'general',
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_read boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ===============================================================
+-- 3. HOSPITAL ACTIVITIES TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.hospital_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  hospital_id uuid,
+  activity_type text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ===============================================================
+-- 4. FOREIGN KEY CONSTRAINTS
+-- ===============================================================
+ALTER TABLE public.messages
+ADD CONSTRAINT fk_messages_sender_id
+FOREIGN KEY (sender_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT fk_messages_receiver_id
+FOREIGN KEY (receiver_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.hospital_activities
+ADD CONSTRAINT fk_hospital_activities_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE SET NULL;
+
+-- ===============================================================
+-- 5. INDEXES FOR PERFORMANCE
+-- ===============================================================
+CREATE INDEX IF NOT EXISTS idx_messages_sender_receiver ON public.messages (sender_id, receiver_id);
+CREATE INDEX IF NOT EXISTS idx_messages_receiver_sender ON public.messages (receiver_id, sender_id);
+CREATE INDEX IF NOT EXISTS idx_messages_created_at ON public.messages (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications (user_id) WHERE NOT is_read;
+
+CREATE INDEX IF NOT EXISTS idx_hospital_activities_hospital_id ON public.hospital_activities (hospital_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hospital_activities_type ON public.hospital_activities (activity_type);
+
+-- ===============================================================
+-- 6. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.hospital_activities ENABLE ROW LEVEL SECURITY;
+
+-- Messages policies
+CREATE POLICY "messages_select_participant" ON public.messages FOR SELECT USING (auth.uid() = sender_id OR auth.uid() = receiver_id);
+CREATE POLICY "messages_insert_sender" ON public.messages FOR INSERT WITH CHECK (auth.uid() = sender_id);
+CREATE POLICY "messages_update_receiver" ON public.messages FOR UPDATE USING (auth.uid() = receiver_id);
+
+-- Notifications policies
+CREATE POLICY "notifications_select_own" ON public.notifications FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "notifications_insert_authenticated" ON public.notifications FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "notifications_update_own" ON public.notifications FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "notifications_delete_own" ON public.notifications FOR DELETE USING (auth.uid() = user_id);
+
+-- Hospital activities policies
+CREATE POLICY "hospital_activities_select_hospital" ON public.hospital_activities FOR SELECT USING (auth.uid() = hospital_id);
+CREATE POLICY "hospital_activities_insert_authenticated" ON public.hospital_activities FOR INSERT WITH CHECK (auth.role() = 'authenticated');
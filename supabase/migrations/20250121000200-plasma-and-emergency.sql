@@ -0,0 +1,161 @@
+-- ===============================================================
+-- PulseConnect: plasma workflow and emergency alerts
+-- ===============================================================
+
+-- ===============================================================
+-- 1. PLASMA REQUESTS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.plasma_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  hospital_id uuid,
+  patient_name text NOT NULL,
+  diagnosis text,
+  plasma_type text NOT NULL,
+  required_units integer NOT NULL DEFAULT 1 CHECK (required_units > 0),
+  urgency text NOT NULL DEFAULT 'Medium' CHECK (urgency IN ('Low', 'Medium', 'High', 'Critical')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'fulfilled', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ===============================================================
+-- 2. PLASMA DONATIONS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.plasma_donations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL,
+  hospital_id uuid,
+  plasma_type text NOT NULL,
+  donation_volume_ml integer NOT NULL CHECK (donation_volume_ml > 0),
+  extracted_date timestamptz NOT NULL DEFAULT now(),
+  expiry_date timestamptz NOT NULL,
+  component_status text NOT NULL DEFAULT 'available' CHECK (component_status IN ('available', 'reserved', 'used', 'expired')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT plasma_donations_expiry_check CHECK (expiry_date > extracted_date)
+);
+
+-- ===============================================================
+-- 3. PLASMA THERAPY LOGS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.plasma_therapy_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plasma_request_id uuid NOT NULL,
+  donation_id uuid,
+  hospital_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'initiated' CHECK (status IN ('initiated', 'in_progress', 'completed', 'cancelled')),
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ===============================================================
+-- 4. EMERGENCY REQUESTS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.emergency_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  patient_name text NOT NULL,
+  blood_type text NOT NULL CHECK (blood_type IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  units_required integer NOT NULL CHECK (units_required > 0),
+  location text NOT NULL,
+  additional_details text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'fulfilled', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ===============================================================
+-- 5. FOREIGN KEY CONSTRAINTS
+-- ===============================================================
+ALTER TABLE public.plasma_requests
+ADD CONSTRAINT fk_plasma_requests_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+ALTER TABLE public.plasma_donations
+ADD CONSTRAINT fk_plasma_donations_donor_id
+FOREIGN KEY (donor_id) REFERENCES public.donors(id) ON DELETE CASCADE;
+
+ALTER TABLE public.plasma_donations
+ADD CONSTRAINT fk_plasma_donations_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE SET NULL;
+
+ALTER TABLE public.plasma_therapy_logs
+ADD CONSTRAINT fk_plasma_therapy_logs_plasma_request_id
+FOREIGN KEY (plasma_request_id) REFERENCES public.plasma_requests(id) ON DELETE CASCADE;
+
+ALTER TABLE public.plasma_therapy_logs
+ADD CONSTRAINT fk_plasma_therapy_logs_donation_id
+FOREIGN KEY (donation_id) REFERENCES public.plasma_donations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.plasma_therapy_logs
+ADD CONSTRAINT fk_plasma_therapy_logs_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+ALTER TABLE public.emergency_requests
+ADD CONSTRAINT fk_emergency_requests_user_id
+FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- ===============================================================
+-- 6. INDEXES FOR PERFORMANCE
+-- ===============================================================
+CREATE INDEX IF NOT EXISTS idx_plasma_requests_hospital_id ON public.plasma_requests (hospital_id);
+CREATE INDEX IF NOT EXISTS idx_plasma_requests_status ON public.plasma_requests (status);
+CREATE INDEX IF NOT EXISTS idx_plasma_requests_created_at ON public.plasma_requests (created_at);
+
+CREATE INDEX IF NOT EXISTS idx_plasma_donations_donor_id ON public.plasma_donations (donor_id);
+CREATE INDEX IF NOT EXISTS idx_plasma_donations_hospital_id ON public.plasma_donations (hospital_id);
+CREATE INDEX IF NOT EXISTS idx_plasma_donations_status ON public.plasma_donations (component_status);
+
+CREATE INDEX IF NOT EXISTS idx_plasma_therapy_logs_request_id ON public.plasma_therapy_logs (plasma_request_id);
+CREATE INDEX IF NOT EXISTS idx_plasma_therapy_logs_hospital_id ON public.plasma_therapy_logs (hospital_id);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_requests_user_id ON public.emergency_requests (user_id);
+CREATE INDEX IF NOT EXISTS idx_emergency_requests_status ON public.emergency_requests (status);
+CREATE INDEX IF NOT EXISTS idx_emergency_requests_blood_type ON public.emergency_requests (blood_type);
+
+-- ===============================================================
+-- 7. TRIGGERS
+-- ===============================================================
+DROP TRIGGER IF EXISTS update_plasma_requests_updated_at ON public.plasma_requests;
+DROP TRIGGER IF EXISTS update_plasma_donations_updated_at ON public.plasma_donations;
+DROP TRIGGER IF EXISTS update_emergency_requests_updated_at ON public.emergency_requests;
+
+CREATE TRIGGER update_plasma_requests_updated_at
+    BEFORE UPDATE ON public.plasma_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_plasma_donations_updated_at
+    BEFORE UPDATE ON public.plasma_donations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_emergency_requests_updated_at
+    BEFORE UPDATE ON public.emergency_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================================================
+-- 8. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+ALTER TABLE public.plasma_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.plasma_donations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.plasma_therapy_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.emergency_requests ENABLE ROW LEVEL SECURITY;
+
+-- Plasma requests policies
+CREATE POLICY "plasma_requests_select_all" ON public.plasma_requests FOR SELECT USING (true);
+CREATE POLICY "plasma_requests_insert_authenticated" ON public.plasma_requests FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "plasma_requests_update_hospital" ON public.plasma_requests FOR UPDATE USING (auth.uid() = hospital_id);
+
+-- Plasma donations policies
+CREATE POLICY "plasma_donations_select_own" ON public.plasma_donations FOR SELECT USING (auth.uid() = donor_id OR auth.uid() = hospital_id);
+CREATE POLICY "plasma_donations_insert_donor" ON public.plasma_donations FOR INSERT WITH CHECK (auth.uid() = donor_id);
+CREATE POLICY "plasma_donations_update_own" ON public.plasma_donations FOR UPDATE USING (auth.uid() = donor_id OR auth.uid() = hospital_id);
+
+-- Plasma therapy logs policies
+CREATE POLICY "plasma_therapy_logs_select_hospital" ON public.plasma_therapy_logs FOR SELECT USING (auth.uid() = hospital_id);
+CREATE POLICY "plasma_therapy_logs_insert_hospital" ON public.plasma_therapy_logs FOR INSERT WITH CHECK (auth.uid() = hospital_id);
+CREATE POLICY "plasma_therapy_logs_update_hospital" ON public.plasma_therapy_logs FOR UPDATE USING (auth.uid() = hospital_id);
+
+-- Emergency requests policies
+CREATE POLICY "emergency_requests_select_authenticated" ON public.emergency_requests FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "emergency_requests_insert_own" ON public.emergency_requests FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "emergency_requests_update_own" ON public.emergency_requests FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,79 @@
+-- ===============================================================
+-- PulseConnect: RPC functions called from the client
+-- ===============================================================
+
+-- ===============================================================
+-- 1. SET DONOR COOLDOWN
+-- ===============================================================
+-- Called by a hospital once a donation has been received. Runs as the
+-- function owner because donors may only update their own rows.
+CREATE OR REPLACE FUNCTION public.set_donor_cooldown(p_user_id uuid, p_type text)
+RETURNS timestamptz AS $$
+DECLARE
+    v_next_eligible timestamptz;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.hospitals WHERE id = auth.uid()) THEN
+        RAISE EXCEPTION 'only hospital accounts can record a donation cooldown'
+            USING ERRCODE = '42501';
+    END IF;
+
+    v_next_eligible := CASE p_type
+        WHEN 'blood' THEN now() + interval '90 days'
+        WHEN 'plasma' THEN now() + interval '28 days'
+    END;
+
+    IF v_next_eligible IS NULL THEN
+        RAISE EXCEPTION 'unknown donation type: %', p_type
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.donors
+    SET last_donation_date = now(),
+        next_eligible_date = v_next_eligible
+    WHERE id = p_user_id;
+
+    UPDATE public.profiles
+    SET last_donation_date = now()
+    WHERE id = p_user_id;
+
+    RETURN v_next_eligible;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 2. DELETE USER
+-- ===============================================================
+-- Lets a signed-in user remove their own auth account. Profile, messages
+-- and other user-keyed rows go with it through ON DELETE CASCADE.
+CREATE OR REPLACE FUNCTION public.delete_user()
+RETURNS void AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'not authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM auth.users WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 3. CLEANUP EXPIRED OTPS
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.cleanup_expired_otps()
+RETURNS void AS $$
+BEGIN
+    DELETE FROM public.otp_verifications
+    WHERE expires_at < now() OR is_used;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 4. PERMISSIONS
+-- ===============================================================
+REVOKE EXECUTE ON FUNCTION public.set_donor_cooldown(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.delete_user() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cleanup_expired_otps() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.set_donor_cooldown(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cleanup_expired_otps() TO authenticated;
@@ -0,0 +1,281 @@
+-- ===============================================================
+-- PulseConnect: row level security by role and ownership
+-- Replaces the permissive starter policies from the earlier migrations
+-- ===============================================================
+--
+-- Roles:
+--   donor    - an auth user whose id is a donors / profiles row
+--   hospital - the hospital account itself (auth.uid() = hospitals.id) or a
+--              staff member listed in hospital_staff
+--   admin    - app_metadata.role = 'admin' on the JWT; only the service role
+--              can set app_metadata, so users cannot grant it to themselves
+
+-- ===============================================================
+-- 1. HOSPITAL STAFF TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.hospital_staff (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  hospital_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role text NOT NULL DEFAULT 'staff' CHECK (role IN ('manager', 'staff')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT hospital_staff_unique_member UNIQUE (hospital_id, user_id)
+);
+
+ALTER TABLE public.hospital_staff
+ADD CONSTRAINT fk_hospital_staff_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+ALTER TABLE public.hospital_staff
+ADD CONSTRAINT fk_hospital_staff_user_id
+FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_hospital_staff_user_id ON public.hospital_staff (user_id);
+
+-- ===============================================================
+-- 2. ROLE HELPERS
+-- ===============================================================
+-- SECURITY DEFINER so policies can consult hospitals / hospital_staff
+-- without recursing through their own RLS.
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+    SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_hospital_member(p_hospital_id uuid)
+RETURNS boolean AS $$
+    SELECT p_hospital_id IS NOT NULL AND (
+        p_hospital_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.hospital_staff
+            WHERE hospital_id = p_hospital_id AND user_id = auth.uid()
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_hospital_user()
+RETURNS boolean AS $$
+    SELECT EXISTS (SELECT 1 FROM public.hospitals WHERE id = auth.uid())
+        OR EXISTS (SELECT 1 FROM public.hospital_staff WHERE user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_donor()
+RETURNS boolean AS $$
+    SELECT EXISTS (SELECT 1 FROM public.donors WHERE id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- set_donor_cooldown was limited to hospital accounts; let staff use it too
+CREATE OR REPLACE FUNCTION public.set_donor_cooldown(p_user_id uuid, p_type text)
+RETURNS timestamptz AS $$
+DECLARE
+    v_next_eligible timestamptz;
+BEGIN
+    IF NOT (public.is_hospital_user() OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only hospital accounts can record a donation cooldown'
+            USING ERRCODE = '42501';
+    END IF;
+
+    v_next_eligible := CASE p_type
+        WHEN 'blood' THEN now() + interval '90 days'
+        WHEN 'plasma' THEN now() + interval '28 days'
+    END;
+
+    IF v_next_eligible IS NULL THEN
+        RAISE EXCEPTION 'unknown donation type: %', p_type
+            USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.donors
+    SET last_donation_date = now(),
+        next_eligible_date = v_next_eligible
+    WHERE id = p_user_id;
+
+    UPDATE public.profiles
+    SET last_donation_date = now()
+    WHERE id = p_user_id;
+
+    RETURN v_next_eligible;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 3. REQUEST UPDATE GUARD
+-- ===============================================================
+-- Donors may claim or release a request but must not touch anything else
+-- on it. RLS cannot restrict columns, so the trigger enforces that part.
+CREATE OR REPLACE FUNCTION public.guard_request_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_member(OLD.hospital_id) THEN
+        RETURN NEW;
+    END IF;
+
+    IF (to_jsonb(NEW) - ARRAY['donor_id', 'status', 'updated_at'])
+        IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['donor_id', 'status', 'updated_at']) THEN
+        RAISE EXCEPTION 'donors can only accept or release a request'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_requests_update ON public.requests;
+
+CREATE TRIGGER guard_requests_update
+    BEFORE UPDATE ON public.requests
+    FOR EACH ROW EXECUTE FUNCTION public.guard_request_update();
+
+-- ===============================================================
+-- 4. DROP STARTER POLICIES
+-- ===============================================================
+DROP POLICY IF EXISTS "hospitals_select_all" ON public.hospitals;
+DROP POLICY IF EXISTS "hospitals_insert_authenticated" ON public.hospitals;
+DROP POLICY IF EXISTS "hospitals_update_own" ON public.hospitals;
+DROP POLICY IF EXISTS "donors_select_own" ON public.donors;
+DROP POLICY IF EXISTS "donors_update_own" ON public.donors;
+DROP POLICY IF EXISTS "donors_insert_own" ON public.donors;
+DROP POLICY IF EXISTS "requests_select_all" ON public.requests;
+DROP POLICY IF EXISTS "requests_insert_authenticated" ON public.requests;
+DROP POLICY IF EXISTS "requests_update_own" ON public.requests;
+DROP POLICY IF EXISTS "appointments_select_own" ON public.appointments;
+DROP POLICY IF EXISTS "appointments_insert_authenticated" ON public.appointments;
+DROP POLICY IF EXISTS "appointments_update_own" ON public.appointments;
+DROP POLICY IF EXISTS "blood_inventory_select_hospital" ON public.blood_inventory;
+DROP POLICY IF EXISTS "blood_inventory_insert_hospital" ON public.blood_inventory;
+DROP POLICY IF EXISTS "blood_inventory_update_hospital" ON public.blood_inventory;
+DROP POLICY IF EXISTS "plasma_inventory_select_hospital" ON public.plasma_inventory;
+DROP POLICY IF EXISTS "plasma_inventory_insert_hospital" ON public.plasma_inventory;
+DROP POLICY IF EXISTS "plasma_inventory_update_hospital" ON public.plasma_inventory;
+DROP POLICY IF EXISTS "donations_select_own" ON public.donations;
+DROP POLICY IF EXISTS "donations_insert_authenticated" ON public.donations;
+DROP POLICY IF EXISTS "donations_update_own" ON public.donations;
+DROP POLICY IF EXISTS "blockchain_ledger_select_own" ON public.blockchain_ledger;
+DROP POLICY IF EXISTS "blockchain_ledger_insert_authenticated" ON public.blockchain_ledger;
+DROP POLICY IF EXISTS "profiles_select_authenticated" ON public.profiles;
+DROP POLICY IF EXISTS "profiles_insert_own" ON public.profiles;
+DROP POLICY IF EXISTS "profiles_update_own" ON public.profiles;
+DROP POLICY IF EXISTS "profiles_delete_own" ON public.profiles;
+DROP POLICY IF EXISTS "messages_select_participant" ON public.messages;
+DROP POLICY IF EXISTS "messages_insert_sender" ON public.messages;
+DROP POLICY IF EXISTS "messages_update_receiver" ON public.messages;
+DROP POLICY IF EXISTS "notifications_select_own" ON public.notifications;
+DROP POLICY IF EXISTS "notifications_insert_authenticated" ON public.notifications;
+DROP POLICY IF EXISTS "notifications_update_own" ON public.notifications;
+DROP POLICY IF EXISTS "notifications_delete_own" ON public.notifications;
+DROP POLICY IF EXISTS "hospital_activities_select_hospital" ON public.hospital_activities;
+DROP POLICY IF EXISTS "hospital_activities_insert_authenticated" ON public.hospital_activities;
+DROP POLICY IF EXISTS "plasma_requests_select_all" ON public.plasma_requests;
+DROP POLICY IF EXISTS "plasma_requests_insert_authenticated" ON public.plasma_requests;
+DROP POLICY IF EXISTS "plasma_requests_update_hospital" ON public.plasma_requests;
+DROP POLICY IF EXISTS "plasma_donations_select_own" ON public.plasma_donations;
+DROP POLICY IF EXISTS "plasma_donations_insert_donor" ON public.plasma_donations;
+DROP POLICY IF EXISTS "plasma_donations_update_own" ON public.plasma_donations;
+DROP POLICY IF EXISTS "plasma_therapy_logs_select_hospital" ON public.plasma_therapy_logs;
+DROP POLICY IF EXISTS "plasma_therapy_logs_insert_hospital" ON public.plasma_therapy_logs;
+DROP POLICY IF EXISTS "plasma_therapy_logs_update_hospital" ON public.plasma_therapy_logs;
+DROP POLICY IF EXISTS "emergency_requests_select_authenticated" ON public.emergency_requests;
+DROP POLICY IF EXISTS "emergency_requests_insert_own" ON public.emergency_requests;
+DROP POLICY IF EXISTS "emergency_requests_update_own" ON public.emergency_requests;
+
+-- ===============================================================
+-- 5. POLICIES
+-- ===============================================================
+ALTER TABLE public.hospital_staff ENABLE ROW LEVEL SECURITY;
+
+-- Hospitals: public directory, edited by their own account or an admin
+CREATE POLICY "hospitals_select_all" ON public.hospitals FOR SELECT USING (true);
+CREATE POLICY "hospitals_insert_own" ON public.hospitals FOR INSERT WITH CHECK (auth.uid() = id OR public.is_admin());
+CREATE POLICY "hospitals_update_member" ON public.hospitals FOR UPDATE USING (public.is_hospital_member(id) OR public.is_admin());
+CREATE POLICY "hospitals_delete_admin" ON public.hospitals FOR DELETE USING (public.is_admin());
+
+-- Hospital staff: managed by the hospital account
+CREATE POLICY "hospital_staff_select_member" ON public.hospital_staff FOR SELECT USING (auth.uid() = user_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "hospital_staff_insert_owner" ON public.hospital_staff FOR INSERT WITH CHECK (auth.uid() = hospital_id OR public.is_admin());
+CREATE POLICY "hospital_staff_update_owner" ON public.hospital_staff FOR UPDATE USING (auth.uid() = hospital_id OR public.is_admin());
+CREATE POLICY "hospital_staff_delete_owner" ON public.hospital_staff FOR DELETE USING (auth.uid() = hospital_id OR public.is_admin());
+
+-- Donors: each donor owns their row; hospitals may read it to match and book
+CREATE POLICY "donors_select_own_or_hospital" ON public.donors FOR SELECT USING (auth.uid() = id OR public.is_hospital_user() OR public.is_admin());
+CREATE POLICY "donors_insert_own" ON public.donors FOR INSERT WITH CHECK (auth.uid() = id);
+CREATE POLICY "donors_update_own" ON public.donors FOR UPDATE USING (auth.uid() = id OR public.is_admin()) WITH CHECK (auth.uid() = id OR public.is_admin());
+CREATE POLICY "donors_delete_own" ON public.donors FOR DELETE USING (auth.uid() = id OR public.is_admin());
+
+-- Profiles: readable by signed-in users (messaging contacts), edited only by the owner
+CREATE POLICY "profiles_select_authenticated" ON public.profiles FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "profiles_insert_own" ON public.profiles FOR INSERT WITH CHECK (auth.uid() = id);
+CREATE POLICY "profiles_update_own" ON public.profiles FOR UPDATE USING (auth.uid() = id) WITH CHECK (auth.uid() = id);
+CREATE POLICY "profiles_delete_own" ON public.profiles FOR DELETE USING (auth.uid() = id OR public.is_admin());
+
+-- Requests: open board; hospitals manage their own, donors may only claim or release
+CREATE POLICY "requests_select_all" ON public.requests FOR SELECT USING (true);
+CREATE POLICY "requests_insert_hospital" ON public.requests FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "requests_update_hospital" ON public.requests FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "requests_update_donor" ON public.requests FOR UPDATE
+    USING (auth.uid() = donor_id OR (donor_id IS NULL AND status = 'pending' AND public.is_donor()))
+    WITH CHECK ((auth.uid() = donor_id AND status IN ('pending', 'accepted')) OR (donor_id IS NULL AND status = 'pending'));
+CREATE POLICY "requests_delete_hospital" ON public.requests FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Appointments: the booking hospital and the donor
+CREATE POLICY "appointments_select_participant" ON public.appointments FOR SELECT USING (auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "appointments_insert_hospital" ON public.appointments FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "appointments_insert_donor" ON public.appointments FOR INSERT WITH CHECK (auth.uid() = donor_id AND status = 'scheduled');
+CREATE POLICY "appointments_update_participant" ON public.appointments FOR UPDATE USING (auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "appointments_delete_hospital" ON public.appointments FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Blood inventory: hospital staff only
+CREATE POLICY "blood_inventory_select_hospital" ON public.blood_inventory FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blood_inventory_insert_hospital" ON public.blood_inventory FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blood_inventory_update_hospital" ON public.blood_inventory FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blood_inventory_delete_hospital" ON public.blood_inventory FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Plasma inventory: hospital staff only
+CREATE POLICY "plasma_inventory_select_hospital" ON public.plasma_inventory FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "plasma_inventory_insert_hospital" ON public.plasma_inventory FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "plasma_inventory_update_hospital" ON public.plasma_inventory FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "plasma_inventory_delete_hospital" ON public.plasma_inventory FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Donations: recorded by the collecting hospital, visible to the donor
+CREATE POLICY "donations_select_participant" ON public.donations FOR SELECT USING (auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "donations_insert_hospital" ON public.donations FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "donations_update_hospital" ON public.donations FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Blockchain ledger: written by the hospital, readable by the donor
+CREATE POLICY "blockchain_ledger_select_participant" ON public.blockchain_ledger FOR SELECT USING (auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blockchain_ledger_insert_hospital" ON public.blockchain_ledger FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blockchain_ledger_update_hospital" ON public.blockchain_ledger FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Messages: participants only, no admin read
+CREATE POLICY "messages_select_participant" ON public.messages FOR SELECT USING (auth.uid() = sender_id OR auth.uid() = receiver_id);
+CREATE POLICY "messages_insert_sender" ON public.messages FOR INSERT WITH CHECK (auth.uid() = sender_id);
+CREATE POLICY "messages_update_receiver" ON public.messages FOR UPDATE USING (auth.uid() = receiver_id) WITH CHECK (auth.uid() = receiver_id);
+
+-- Notifications: any signed-in user may notify another, recipients manage their own
+CREATE POLICY "notifications_select_own" ON public.notifications FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "notifications_insert_authenticated" ON public.notifications FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+CREATE POLICY "notifications_update_own" ON public.notifications FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "notifications_delete_own" ON public.notifications FOR DELETE USING (auth.uid() = user_id);
+
+-- Hospital activities: audit trail per hospital
+CREATE POLICY "hospital_activities_select_hospital" ON public.hospital_activities FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "hospital_activities_insert_hospital" ON public.hospital_activities FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Plasma requests: open board, managed by the owning hospital
+CREATE POLICY "plasma_requests_select_all" ON public.plasma_requests FOR SELECT USING (true);
+CREATE POLICY "plasma_requests_insert_authenticated" ON public.plasma_requests FOR INSERT WITH CHECK (auth.role() = 'authenticated' AND (hospital_id IS NULL OR public.is_hospital_member(hospital_id)));
+CREATE POLICY "plasma_requests_update_hospital" ON public.plasma_requests FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Plasma donations: the donor and the collecting hospital
+CREATE POLICY "plasma_donations_select_participant" ON public.plasma_donations FOR SELECT USING (auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "plasma_donations_insert_donor" ON public.plasma_donations FOR INSERT WITH CHECK (auth.uid() = donor_id);
+CREATE POLICY "plasma_donations_update_participant" ON public.plasma_donations FOR UPDATE USING (auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Plasma therapy logs: hospital staff only
+CREATE POLICY "plasma_therapy_logs_select_hospital" ON public.plasma_therapy_logs FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "plasma_therapy_logs_insert_hospital" ON public.plasma_therapy_logs FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "plasma_therapy_logs_update_hospital" ON public.plasma_therapy_logs FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Emergency requests: raised by any signed-in user, visible to all of them
+CREATE POLICY "emergency_requests_select_authenticated" ON public.emergency_requests FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "emergency_requests_insert_own" ON public.emergency_requests FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "emergency_requests_update_own" ON public.emergency_requests FOR UPDATE USING (auth.uid() = user_id OR public.is_hospital_user() OR public.is_admin());
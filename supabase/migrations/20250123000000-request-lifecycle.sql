@@ -0,0 +1,185 @@
+-- ===============================================================
+-- PulseConnect: request lifecycle and status history
+-- ===============================================================
+--
+--   pending  -> accepted | cancelled | expired
+--   accepted -> pending (donor released) | fulfilled | cancelled | expired
+--   fulfilled, cancelled and expired are final
+--
+-- The same table lives in src/lib/requestLifecycle.ts; keep both in sync.
+
+-- ===============================================================
+-- 1. REQUEST STATUS HISTORY TABLE
+-- ===============================================================
+-- changed_by is null when the change came from a scheduled job rather
+-- than a signed-in user. created_at uses clock_timestamp() so several
+-- changes made in one transaction still sort in order.
+CREATE TABLE IF NOT EXISTS public.request_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL,
+  from_status text CHECK (from_status IN ('pending', 'accepted', 'fulfilled', 'cancelled', 'expired')),
+  to_status text NOT NULL CHECK (to_status IN ('pending', 'accepted', 'fulfilled', 'cancelled', 'expired')),
+  changed_by uuid,
+  actor_role text NOT NULL CHECK (actor_role IN ('donor', 'hospital', 'admin', 'system')),
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+ALTER TABLE public.request_status_history
+ADD CONSTRAINT fk_request_status_history_request_id
+FOREIGN KEY (request_id) REFERENCES public.requests(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_request_status_history_request_id ON public.request_status_history (request_id, created_at);
+
+-- ===============================================================
+-- 2. TRANSITION RULES
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.request_transition_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+    SELECT CASE p_from
+        WHEN 'pending' THEN p_to IN ('accepted', 'cancelled', 'expired')
+        WHEN 'accepted' THEN p_to IN ('pending', 'fulfilled', 'cancelled', 'expired')
+        ELSE false
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_request_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'pending' THEN
+            RAISE EXCEPTION 'new requests must start as pending, not %', NEW.status
+                USING ERRCODE = '23514';
+        END IF;
+    ELSIF NOT public.request_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'request cannot move from % to %', OLD.status, NEW.status
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF NEW.status = 'accepted' AND NEW.donor_id IS NULL THEN
+        RAISE EXCEPTION 'an accepted request needs a donor'
+            USING ERRCODE = '23514';
+    END IF;
+
+    -- A released request goes back on the board without its donor
+    IF NEW.status = 'pending' THEN
+        NEW.donor_id := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================================
+-- 3. HISTORY RECORDING
+-- ===============================================================
+-- The reason comes from transition_request() through a transaction-local
+-- setting, so plain updates are still recorded, just without one.
+-- SECURITY DEFINER because nobody may insert history rows directly.
+CREATE OR REPLACE FUNCTION public.record_request_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.request_status_history (request_id, from_status, to_status, changed_by, actor_role, reason)
+    VALUES (
+        NEW.id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        auth.uid(),
+        CASE
+            WHEN auth.uid() IS NULL THEN 'system'
+            WHEN public.is_admin() THEN 'admin'
+            WHEN public.is_hospital_member(NEW.hospital_id) THEN 'hospital'
+            ELSE 'donor'
+        END,
+        coalesce(nullif(current_setting('pulseconnect.status_reason', true), ''),
+                 CASE WHEN TG_OP = 'INSERT' THEN 'Request created' END)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_requests_status_insert ON public.requests;
+DROP TRIGGER IF EXISTS enforce_requests_status_update ON public.requests;
+DROP TRIGGER IF EXISTS record_requests_status_insert ON public.requests;
+DROP TRIGGER IF EXISTS record_requests_status_update ON public.requests;
+
+CREATE TRIGGER enforce_requests_status_insert
+    BEFORE INSERT ON public.requests
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_request_status();
+
+CREATE TRIGGER enforce_requests_status_update
+    BEFORE UPDATE OF status ON public.requests
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.enforce_request_status();
+
+CREATE TRIGGER record_requests_status_insert
+    AFTER INSERT ON public.requests
+    FOR EACH ROW EXECUTE FUNCTION public.record_request_status();
+
+CREATE TRIGGER record_requests_status_update
+    AFTER UPDATE OF status ON public.requests
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.record_request_status();
+
+-- ===============================================================
+-- 4. TRANSITION RPC
+-- ===============================================================
+-- Runs as the caller so the requests policies still decide who may make
+-- the change; the triggers above validate and record it.
+CREATE OR REPLACE FUNCTION public.transition_request(
+    p_request_id uuid,
+    p_status text,
+    p_reason text DEFAULT NULL,
+    p_donor_id uuid DEFAULT NULL
+)
+RETURNS public.requests AS $$
+DECLARE
+    v_request public.requests;
+    v_rows integer;
+BEGIN
+    PERFORM set_config('pulseconnect.status_reason', coalesce(p_reason, ''), true);
+
+    UPDATE public.requests
+    SET status = p_status,
+        donor_id = coalesce(p_donor_id, donor_id)
+    WHERE id = p_request_id
+    RETURNING * INTO v_request;
+    -- PERFORM resets FOUND, so keep the update's row count first
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    IF v_rows = 0 THEN
+        RAISE EXCEPTION 'request % not found or not editable', p_request_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transition_request(uuid, text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_request(uuid, text, text, uuid) TO authenticated;
+
+-- ===============================================================
+-- 5. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Readable by whoever can act on the request; written only by the trigger.
+ALTER TABLE public.request_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "request_status_history_select_participant" ON public.request_status_history FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.requests r
+        WHERE r.id = request_id
+          AND (public.is_hospital_member(r.hospital_id) OR r.donor_id = auth.uid())
+    )
+);
+
+-- ===============================================================
+-- 6. BACKFILL
+-- ===============================================================
+INSERT INTO public.request_status_history (request_id, from_status, to_status, actor_role, reason, created_at)
+SELECT r.id, NULL, r.status, 'system', 'Recorded when status history was introduced', r.updated_at
+FROM public.requests r
+WHERE NOT EXISTS (SELECT 1 FROM public.request_status_history h WHERE h.request_id = r.id);
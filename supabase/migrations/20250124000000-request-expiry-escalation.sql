@@ -0,0 +1,228 @@
+-- ===============================================================
+-- PulseConnect: automatic expiry and escalation of stale requests
+-- ===============================================================
+--
+-- public.process_stale_requests() runs every five minutes through pg_cron.
+-- To run it by hand against the local stack:
+--   SELECT * FROM public.process_stale_requests();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- ===============================================================
+-- 1. DEADLINE SETTINGS
+-- ===============================================================
+-- One row per emergency level. A pending request expires once
+-- expire_after has passed since it was created. Levels with an
+-- escalate_after are escalated each time that much time passes without
+-- a donor, up to max_escalations times.
+CREATE TABLE IF NOT EXISTS public.request_deadline_settings (
+  emergency_level text PRIMARY KEY CHECK (emergency_level IN ('Low', 'Medium', 'High', 'Critical')),
+  expire_after interval NOT NULL CHECK (expire_after > interval '0'),
+  escalate_after interval CHECK (escalate_after > interval '0'),
+  max_escalations integer NOT NULL DEFAULT 0 CHECK (max_escalations >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.request_deadline_settings (emergency_level, expire_after, escalate_after, max_escalations) VALUES
+  ('Critical', interval '12 hours', interval '30 minutes', 3),
+  ('High', interval '24 hours', interval '2 hours', 3),
+  ('Medium', interval '3 days', NULL, 0),
+  ('Low', interval '7 days', NULL, 0)
+ON CONFLICT (emergency_level) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_request_deadline_settings_updated_at ON public.request_deadline_settings;
+
+CREATE TRIGGER update_request_deadline_settings_updated_at
+    BEFORE UPDATE ON public.request_deadline_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===============================================================
+-- 2. ESCALATION TRACKING
+-- ===============================================================
+ALTER TABLE public.requests
+ADD COLUMN IF NOT EXISTS escalation_level integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_escalated_at timestamptz;
+
+-- Escalations are recorded in the same timeline as status changes; they
+-- leave the status as it was.
+ALTER TABLE public.request_status_history
+ADD COLUMN IF NOT EXISTS event text NOT NULL DEFAULT 'status_change' CHECK (event IN ('status_change', 'escalation'));
+
+CREATE INDEX IF NOT EXISTS idx_requests_pending_created_at ON public.requests (created_at) WHERE status = 'pending';
+
+-- ===============================================================
+-- 3. DONOR MATCHING
+-- ===============================================================
+-- Donor blood groups that can give to p_recipient, for a request type
+-- ('blood' means red cells) or a component. Same rules as
+-- src/lib/compatibility.ts under its strict Rh policy:
+--   red cells   - ABO and Rh
+--   whole blood - identical ABO, plus Rh
+--   plasma      - runs the other way (AB gives to everyone) and ignores Rh
+--   platelets   - any ABO, plus Rh
+-- It does not offer the app's emergency Rh substitution, which is a call for
+-- staff to make, and it does not rank the groups.
+CREATE OR REPLACE FUNCTION public.compatible_donor_groups(p_recipient text, p_request_type text DEFAULT 'blood')
+RETURNS text[] AS $$
+    SELECT CASE
+        WHEN p_request_type = 'plasma' THEN CASE left(p_recipient, length(p_recipient) - 1)
+            WHEN 'O' THEN ARRAY['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-']
+            WHEN 'A' THEN ARRAY['A+', 'A-', 'AB+', 'AB-']
+            WHEN 'B' THEN ARRAY['B+', 'B-', 'AB+', 'AB-']
+            WHEN 'AB' THEN ARRAY['AB+', 'AB-']
+        END
+        WHEN p_request_type = 'whole_blood' THEN CASE p_recipient
+            WHEN 'O-' THEN ARRAY['O-']
+            WHEN 'O+' THEN ARRAY['O+', 'O-']
+            WHEN 'A-' THEN ARRAY['A-']
+            WHEN 'A+' THEN ARRAY['A+', 'A-']
+            WHEN 'B-' THEN ARRAY['B-']
+            WHEN 'B+' THEN ARRAY['B+', 'B-']
+            WHEN 'AB-' THEN ARRAY['AB-']
+            WHEN 'AB+' THEN ARRAY['AB+', 'AB-']
+        END
+        WHEN p_request_type = 'platelets' THEN CASE
+            WHEN p_recipient NOT IN ('O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-') THEN NULL
+            WHEN right(p_recipient, 1) = '-' THEN ARRAY['O-', 'A-', 'B-', 'AB-']
+            ELSE ARRAY['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-']
+        END
+        ELSE CASE p_recipient
+            WHEN 'O-' THEN ARRAY['O-']
+            WHEN 'O+' THEN ARRAY['O+', 'O-']
+            WHEN 'A-' THEN ARRAY['A-', 'O-']
+            WHEN 'A+' THEN ARRAY['A+', 'A-', 'O+', 'O-']
+            WHEN 'B-' THEN ARRAY['B-', 'O-']
+            WHEN 'B+' THEN ARRAY['B+', 'B-', 'O+', 'O-']
+            WHEN 'AB-' THEN ARRAY['AB-', 'A-', 'B-', 'O-']
+            WHEN 'AB+' THEN ARRAY['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-']
+        END
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Each escalation level widens the search:
+--   1 - exact blood group, donors in the hospital's city
+--   2 - every compatible group, donors in the hospital's city
+--   3 - every compatible group, anywhere
+CREATE OR REPLACE FUNCTION public.notify_request_donors(p_request_id uuid, p_level integer)
+RETURNS integer AS $$
+DECLARE
+    v_request public.requests;
+    v_city text;
+    v_groups text[];
+    v_count integer;
+BEGIN
+    SELECT * INTO v_request FROM public.requests WHERE id = p_request_id;
+    SELECT city INTO v_city FROM public.hospitals WHERE id = v_request.hospital_id;
+
+    v_groups := CASE WHEN p_level <= 1
+        THEN ARRAY[v_request.blood_group]
+        ELSE public.compatible_donor_groups(v_request.blood_group, v_request.request_type)
+    END;
+
+    INSERT INTO public.notifications (user_id, user_type, title, message, type, data)
+    SELECT d.id, 'donor',
+           v_request.emergency_level || ' request still needs donors',
+           format('A hospital still needs %s unit(s) of %s %s. Can you help?',
+                  v_request.units_required, v_request.blood_group, v_request.request_type),
+           'request',
+           jsonb_build_object('request_id', v_request.id, 'escalation_level', p_level)
+    FROM public.donors d
+    WHERE d.is_available
+      AND (d.next_eligible_date IS NULL OR d.next_eligible_date <= now())
+      AND d.blood_group = ANY (v_groups)
+      AND (p_level >= 3 OR v_city IS NULL OR d.location ILIKE '%' || v_city || '%');
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 4. EXPIRY AND ESCALATION JOB
+-- ===============================================================
+-- Only pending requests are touched: once a donor has accepted, the
+-- hospital decides what happens next.
+CREATE OR REPLACE FUNCTION public.process_stale_requests()
+RETURNS TABLE (request_id uuid, action text, detail text) AS $$
+DECLARE
+    v_request record;
+    v_notified integer;
+BEGIN
+    IF auth.uid() IS NOT NULL AND NOT public.is_admin() THEN
+        RAISE EXCEPTION 'only admins can run the stale request job'
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- Expire first so an overdue request is not escalated on its way out
+    FOR v_request IN
+        SELECT r.id, r.hospital_id, r.blood_group, r.emergency_level, s.expire_after
+        FROM public.requests r
+        JOIN public.request_deadline_settings s ON s.emergency_level = r.emergency_level
+        WHERE r.status = 'pending'
+          AND r.created_at + s.expire_after <= now()
+        FOR UPDATE OF r SKIP LOCKED
+    LOOP
+        PERFORM set_config('pulseconnect.status_reason',
+            format('No donor within %s of a %s request', v_request.expire_after, v_request.emergency_level), true);
+
+        UPDATE public.requests SET status = 'expired' WHERE id = v_request.id;
+
+        INSERT INTO public.notifications (user_id, user_type, title, message, type, data)
+        VALUES (v_request.hospital_id, 'hospital', 'Request expired',
+                format('Your %s request for %s expired without a donor.', v_request.emergency_level, v_request.blood_group),
+                'request', jsonb_build_object('request_id', v_request.id));
+
+        request_id := v_request.id;
+        action := 'expired';
+        detail := NULL;
+        RETURN NEXT;
+    END LOOP;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    FOR v_request IN
+        SELECT r.id, r.hospital_id, r.status, r.escalation_level + 1 AS next_level
+        FROM public.requests r
+        JOIN public.request_deadline_settings s ON s.emergency_level = r.emergency_level
+        WHERE r.status = 'pending'
+          AND s.escalate_after IS NOT NULL
+          AND r.escalation_level < s.max_escalations
+          AND coalesce(r.last_escalated_at, r.created_at) + s.escalate_after <= now()
+        FOR UPDATE OF r SKIP LOCKED
+    LOOP
+        UPDATE public.requests
+        SET escalation_level = v_request.next_level,
+            last_escalated_at = now()
+        WHERE id = v_request.id;
+
+        v_notified := public.notify_request_donors(v_request.id, v_request.next_level);
+
+        INSERT INTO public.request_status_history (request_id, from_status, to_status, actor_role, event, reason)
+        VALUES (v_request.id, v_request.status, v_request.status, 'system', 'escalation',
+                format('Escalated to level %s: donor search widened, %s donor(s) notified',
+                       v_request.next_level, v_notified));
+
+        request_id := v_request.id;
+        action := 'escalated';
+        detail := format('level %s, %s donor(s) notified', v_request.next_level, v_notified);
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_request_donors(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_stale_requests() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.process_stale_requests() TO authenticated;
+
+-- ===============================================================
+-- 5. SCHEDULE
+-- ===============================================================
+SELECT cron.schedule('process-stale-requests', '*/5 * * * *', $$SELECT public.process_stale_requests()$$);
+
+-- ===============================================================
+-- 6. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+ALTER TABLE public.request_deadline_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "request_deadline_settings_select_all" ON public.request_deadline_settings FOR SELECT USING (true);
+CREATE POLICY "request_deadline_settings_update_admin" ON public.request_deadline_settings FOR UPDATE USING (public.is_admin());
@@ -0,0 +1,65 @@
+-- ===============================================================
+-- PulseConnect: inputs for donor ranking
+-- ===============================================================
+--
+-- The ranking itself runs in the app (src/lib/donorRanking.ts) so the
+-- explanation shown to hospital staff comes from the same code that
+-- produced the score. The database supplies coordinates and per-donor
+-- reliability counts that a hospital could not otherwise read under RLS.
+
+-- ===============================================================
+-- 1. COORDINATES
+-- ===============================================================
+-- Optional: without them ranking falls back to matching the city name.
+ALTER TABLE public.donors
+ADD COLUMN IF NOT EXISTS latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS longitude double precision CHECK (longitude BETWEEN -180 AND 180);
+
+ALTER TABLE public.hospitals
+ADD COLUMN IF NOT EXISTS latitude double precision CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS longitude double precision CHECK (longitude BETWEEN -180 AND 180);
+
+-- ===============================================================
+-- 2. DONOR RELIABILITY
+-- ===============================================================
+-- Per donor:
+--   requests_notified  - distinct requests the donor was notified about
+--   requests_accepted  - of those, the ones the donor accepted themselves
+--                        (pledged to, once pledges arrive in request-pledges)
+--   appointments_kept  - appointments completed
+--   appointments_missed - appointments marked no_show
+-- Only counts are returned; the notifications and appointments behind
+-- them stay private to the donor and the hospitals involved.
+CREATE OR REPLACE FUNCTION public.donor_reliability(p_donor_ids uuid[])
+RETURNS TABLE (
+    donor_id uuid,
+    requests_notified integer,
+    requests_accepted integer,
+    appointments_kept integer,
+    appointments_missed integer
+) AS $$
+BEGIN
+    IF NOT (public.is_hospital_user() OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only hospital staff can read donor reliability'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT d.id,
+           (SELECT count(DISTINCT n.data ->> 'request_id')::int
+            FROM public.notifications n
+            WHERE n.user_id = d.id AND n.data ? 'request_id'),
+           (SELECT count(DISTINCT h.request_id)::int
+            FROM public.request_status_history h
+            WHERE h.changed_by = d.id AND h.actor_role = 'donor' AND h.to_status = 'accepted'),
+           (SELECT count(*)::int FROM public.appointments a
+            WHERE a.donor_id = d.id AND a.status = 'completed'),
+           (SELECT count(*)::int FROM public.appointments a
+            WHERE a.donor_id = d.id AND a.status = 'no_show')
+    FROM public.donors d
+    WHERE d.id = ANY (p_donor_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.donor_reliability(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.donor_reliability(uuid[]) TO authenticated;
@@ -0,0 +1,503 @@
+-- ===============================================================
+-- PulseConnect: multi-donor pledges against a request
+-- ===============================================================
+--
+-- A request for several units needs several donors. Each donor who
+-- commits gets a pledge, and the pledge follows the donation:
+--
+--   pledged   -> scheduled | withdrawn
+--   scheduled -> pledged (appointment cancelled) | collected | withdrawn
+--   withdrawn -> pledged | scheduled (donor came back)
+--   collected is final
+--
+-- The request keeps running totals and moves by itself:
+--   pending  -> accepted   once pledged + scheduled + collected covers units_required
+--   accepted -> pending    if withdrawals drop it below again
+--   accepted -> fulfilled  once collected covers units_required
+-- Only pending requests are broadcast or escalated, so a fully pledged
+-- request stops reaching new donors.
+--
+-- The pledge transitions also live in src/lib/pledges.ts; keep both in sync.
+
+-- ===============================================================
+-- 1. REQUEST PLEDGES TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.request_pledges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL,
+  donor_id uuid NOT NULL,
+  units integer NOT NULL DEFAULT 1 CHECK (units > 0),
+  status text NOT NULL DEFAULT 'pledged' CHECK (status IN ('pledged', 'scheduled', 'collected', 'withdrawn')),
+  appointment_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (request_id, donor_id)
+);
+
+ALTER TABLE public.request_pledges
+ADD CONSTRAINT fk_request_pledges_request_id
+FOREIGN KEY (request_id) REFERENCES public.requests(id) ON DELETE CASCADE;
+
+ALTER TABLE public.request_pledges
+ADD CONSTRAINT fk_request_pledges_donor_id
+FOREIGN KEY (donor_id) REFERENCES public.donors(id) ON DELETE CASCADE;
+
+ALTER TABLE public.request_pledges
+ADD CONSTRAINT fk_request_pledges_appointment_id
+FOREIGN KEY (appointment_id) REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_request_pledges_donor_id ON public.request_pledges (donor_id);
+CREATE INDEX IF NOT EXISTS idx_request_pledges_appointment_id ON public.request_pledges (appointment_id);
+
+DROP TRIGGER IF EXISTS update_request_pledges_updated_at ON public.request_pledges;
+CREATE TRIGGER update_request_pledges_updated_at
+    BEFORE UPDATE ON public.request_pledges
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===============================================================
+-- 2. REQUEST TOTALS
+-- ===============================================================
+-- Units per pledge status; each pledge counts in exactly one column.
+ALTER TABLE public.requests
+ADD COLUMN IF NOT EXISTS pledged_units integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS scheduled_units integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS collected_units integer NOT NULL DEFAULT 0;
+
+-- ===============================================================
+-- 3. PLEDGE TRANSITIONS
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.pledge_transition_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+    SELECT CASE p_from
+        WHEN 'pledged' THEN p_to IN ('scheduled', 'withdrawn')
+        WHEN 'scheduled' THEN p_to IN ('pledged', 'collected', 'withdrawn')
+        WHEN 'withdrawn' THEN p_to IN ('pledged', 'scheduled')
+        ELSE false
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Donors may only pledge to open requests, withdraw, and pledge again.
+-- Changes made by other triggers (e.g. an appointment being cancelled)
+-- are trusted.
+CREATE OR REPLACE FUNCTION public.enforce_pledge_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_request public.requests;
+    v_is_staff boolean;
+BEGIN
+    SELECT * INTO v_request FROM public.requests WHERE id = NEW.request_id;
+    v_is_staff := auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_member(v_request.hospital_id)
+        OR pg_trigger_depth() > 1;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status NOT IN ('pledged', 'scheduled') THEN
+            RAISE EXCEPTION 'new pledges must start as pledged or scheduled, not %', NEW.status
+                USING ERRCODE = '23514';
+        END IF;
+    ELSIF NOT public.pledge_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'pledge cannot move from % to %', OLD.status, NEW.status
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF NEW.status IN ('pledged', 'scheduled') AND (TG_OP = 'INSERT' OR OLD.status = 'withdrawn')
+        AND v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'request is % and no longer taking pledges', v_request.status
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF NOT v_is_staff AND NOT (
+        (TG_OP = 'INSERT' AND NEW.status = 'pledged')
+        OR (TG_OP = 'UPDATE' AND NEW.status = 'withdrawn')
+        OR (TG_OP = 'UPDATE' AND OLD.status = 'withdrawn' AND NEW.status = 'pledged')
+    ) THEN
+        RAISE EXCEPTION 'donors can only pledge or withdraw'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_request_pledges_status_insert ON public.request_pledges;
+DROP TRIGGER IF EXISTS enforce_request_pledges_status_update ON public.request_pledges;
+
+CREATE TRIGGER enforce_request_pledges_status_insert
+    BEFORE INSERT ON public.request_pledges
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_pledge_status();
+
+CREATE TRIGGER enforce_request_pledges_status_update
+    BEFORE UPDATE OF status ON public.request_pledges
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.enforce_pledge_status();
+
+-- One donor gives one unit. Only hospital staff may pledge more on a
+-- donor's behalf, or change the amount afterwards.
+CREATE OR REPLACE FUNCTION public.guard_pledge_units()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() OR pg_trigger_depth() > 1 OR EXISTS (
+        SELECT 1 FROM public.requests r WHERE r.id = NEW.request_id AND public.is_hospital_member(r.hospital_id)
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF (TG_OP = 'INSERT' AND NEW.units <> 1)
+        OR (TG_OP = 'UPDATE' AND NEW.units IS DISTINCT FROM OLD.units) THEN
+        RAISE EXCEPTION 'donors pledge one unit each'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_request_pledges_units ON public.request_pledges;
+CREATE TRIGGER guard_request_pledges_units
+    BEFORE INSERT OR UPDATE OF units ON public.request_pledges
+    FOR EACH ROW EXECUTE FUNCTION public.guard_pledge_units();
+
+-- ===============================================================
+-- 4. KEEPING THE REQUEST IN STEP
+-- ===============================================================
+-- An accepted request used to need a donor_id; enough pledges now do too.
+CREATE OR REPLACE FUNCTION public.enforce_request_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'pending' THEN
+            RAISE EXCEPTION 'new requests must start as pending, not %', NEW.status
+                USING ERRCODE = '23514';
+        END IF;
+    ELSIF NOT public.request_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'request cannot move from % to %', OLD.status, NEW.status
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF NEW.status = 'accepted' AND NEW.donor_id IS NULL
+        AND NEW.pledged_units + NEW.scheduled_units + NEW.collected_units < NEW.units_required THEN
+        RAISE EXCEPTION 'an accepted request needs a donor or enough pledges'
+            USING ERRCODE = '23514';
+    END IF;
+
+    -- A released request goes back on the board without its donor
+    IF NEW.status = 'pending' THEN
+        NEW.donor_id := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The totals below are written from a trigger on behalf of whoever changed
+-- the pledge, which may be a donor; let nested updates through the guard.
+CREATE OR REPLACE FUNCTION public.guard_request_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_member(OLD.hospital_id)
+        OR pg_trigger_depth() > 1 THEN
+        RETURN NEW;
+    END IF;
+
+    IF (to_jsonb(NEW) - ARRAY['donor_id', 'status', 'updated_at'])
+        IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['donor_id', 'status', 'updated_at']) THEN
+        RAISE EXCEPTION 'donors can only accept or release a request'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- SECURITY DEFINER because donors cannot update requests themselves.
+CREATE OR REPLACE FUNCTION public.sync_request_pledges()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_request public.requests;
+    v_committed integer;
+BEGIN
+    UPDATE public.requests r
+    SET pledged_units = t.pledged,
+        scheduled_units = t.scheduled,
+        collected_units = t.collected
+    FROM (
+        SELECT coalesce(sum(p.units) FILTER (WHERE p.status = 'pledged'), 0)::int AS pledged,
+               coalesce(sum(p.units) FILTER (WHERE p.status = 'scheduled'), 0)::int AS scheduled,
+               coalesce(sum(p.units) FILTER (WHERE p.status = 'collected'), 0)::int AS collected
+        FROM public.request_pledges p
+        WHERE p.request_id = coalesce(NEW.request_id, OLD.request_id)
+    ) t
+    WHERE r.id = coalesce(NEW.request_id, OLD.request_id)
+    RETURNING r.* INTO v_request;
+
+    v_committed := v_request.pledged_units + v_request.scheduled_units + v_request.collected_units;
+
+    IF v_request.status = 'pending' AND v_committed >= v_request.units_required THEN
+        PERFORM set_config('pulseconnect.status_reason',
+            format('Fully pledged: %s of %s unit(s)', v_committed, v_request.units_required), true);
+        UPDATE public.requests SET status = 'accepted' WHERE id = v_request.id RETURNING * INTO v_request;
+    ELSIF v_request.status = 'accepted' AND v_request.donor_id IS NULL AND v_committed < v_request.units_required THEN
+        PERFORM set_config('pulseconnect.status_reason',
+            format('Pledges dropped to %s of %s unit(s)', v_committed, v_request.units_required), true);
+        UPDATE public.requests SET status = 'pending' WHERE id = v_request.id RETURNING * INTO v_request;
+    END IF;
+
+    IF v_request.status = 'accepted' AND v_request.collected_units >= v_request.units_required THEN
+        PERFORM set_config('pulseconnect.status_reason',
+            format('All %s unit(s) collected', v_request.units_required), true);
+        UPDATE public.requests SET status = 'fulfilled' WHERE id = v_request.id;
+    END IF;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_request_pledges ON public.request_pledges;
+CREATE TRIGGER sync_request_pledges
+    AFTER INSERT OR DELETE OR UPDATE OF status, units ON public.request_pledges
+    FOR EACH ROW EXECUTE FUNCTION public.sync_request_pledges();
+
+-- Cancelled or expired requests release everyone who had not donated yet
+CREATE OR REPLACE FUNCTION public.release_request_pledges()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.request_pledges
+    SET status = 'withdrawn'
+    WHERE request_id = NEW.id AND status IN ('pledged', 'scheduled');
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_requests_pledges ON public.requests;
+CREATE TRIGGER release_requests_pledges
+    AFTER UPDATE OF status ON public.requests
+    FOR EACH ROW WHEN (NEW.status IN ('cancelled', 'expired') AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.release_request_pledges();
+
+-- Appointments booked against a pledge move it along
+CREATE OR REPLACE FUNCTION public.sync_pledge_from_appointment()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.request_pledges
+    SET status = CASE NEW.status
+            WHEN 'completed' THEN 'collected'
+            WHEN 'no_show' THEN 'withdrawn'
+            WHEN 'cancelled' THEN 'pledged'
+        END
+    WHERE appointment_id = NEW.id
+      AND status = 'scheduled'
+      AND NEW.status IN ('completed', 'no_show', 'cancelled');
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_appointments_pledge ON public.appointments;
+CREATE TRIGGER sync_appointments_pledge
+    AFTER UPDATE OF status ON public.appointments
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.sync_pledge_from_appointment();
+
+-- ===============================================================
+-- 5. PLEDGE RPC
+-- ===============================================================
+-- Donors pledge for themselves, one unit each, whatever p_units says;
+-- hospital staff pass p_donor_id, and an appointment when they book one.
+-- Pledging again after withdrawing reuses the same row. Not written as INSERT .. ON CONFLICT because the insert
+-- trigger would judge the would-be new row even when it ends up an update.
+-- Runs as the caller so the policies below still apply.
+CREATE OR REPLACE FUNCTION public.pledge_to_request(
+    p_request_id uuid,
+    p_units integer DEFAULT 1,
+    p_donor_id uuid DEFAULT NULL,
+    p_appointment_id uuid DEFAULT NULL
+)
+RETURNS public.request_pledges AS $$
+DECLARE
+    v_donor_id uuid := coalesce(p_donor_id, auth.uid());
+    v_units integer;
+    v_pledge public.request_pledges;
+BEGIN
+    -- Null keeps the amount already pledged (see guard_pledge_units())
+    IF auth.uid() IS NULL OR public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.requests r WHERE r.id = p_request_id AND public.is_hospital_member(r.hospital_id)
+    ) THEN
+        v_units := p_units;
+    END IF;
+
+    UPDATE public.request_pledges p
+    SET units = coalesce(v_units, p.units),
+        status = CASE
+            WHEN p_appointment_id IS NOT NULL THEN 'scheduled'
+            WHEN p.status = 'withdrawn' THEN 'pledged'
+            ELSE p.status
+        END,
+        appointment_id = coalesce(p_appointment_id, p.appointment_id)
+    WHERE p.request_id = p_request_id
+      AND p.donor_id = v_donor_id
+      AND p.status <> 'collected'
+    RETURNING p.* INTO v_pledge;
+
+    IF FOUND THEN
+        RETURN v_pledge;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.request_pledges p WHERE p.request_id = p_request_id AND p.donor_id = v_donor_id) THEN
+        RAISE EXCEPTION 'donation for request % was already collected', p_request_id
+            USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO public.request_pledges (request_id, donor_id, units, status, appointment_id)
+    VALUES (
+        p_request_id,
+        v_donor_id,
+        coalesce(v_units, 1),
+        CASE WHEN p_appointment_id IS NULL THEN 'pledged' ELSE 'scheduled' END,
+        p_appointment_id
+    )
+    RETURNING * INTO v_pledge;
+
+    RETURN v_pledge;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pledge_to_request(uuid, integer, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pledge_to_request(uuid, integer, uuid, uuid) TO authenticated;
+
+-- ===============================================================
+-- 6. BROADCASTING
+-- ===============================================================
+-- Same as before, minus donors who have already pledged.
+CREATE OR REPLACE FUNCTION public.notify_request_donors(p_request_id uuid, p_level integer)
+RETURNS integer AS $$
+DECLARE
+    v_request public.requests;
+    v_city text;
+    v_groups text[];
+    v_count integer;
+BEGIN
+    SELECT * INTO v_request FROM public.requests WHERE id = p_request_id;
+    SELECT city INTO v_city FROM public.hospitals WHERE id = v_request.hospital_id;
+
+    v_groups := CASE WHEN p_level <= 1
+        THEN ARRAY[v_request.blood_group]
+        ELSE public.compatible_donor_groups(v_request.blood_group, v_request.request_type)
+    END;
+
+    INSERT INTO public.notifications (user_id, user_type, title, message, type, data)
+    SELECT d.id, 'donor',
+           v_request.emergency_level || ' request still needs donors',
+           format('A hospital still needs %s more unit(s) of %s %s. Can you help?',
+                  v_request.units_required - v_request.pledged_units - v_request.scheduled_units - v_request.collected_units,
+                  v_request.blood_group, v_request.request_type),
+           'request',
+           jsonb_build_object('request_id', v_request.id, 'escalation_level', p_level)
+    FROM public.donors d
+    WHERE d.is_available
+      AND (d.next_eligible_date IS NULL OR d.next_eligible_date <= now())
+      AND d.blood_group = ANY (v_groups)
+      AND (p_level >= 3 OR v_city IS NULL OR d.location ILIKE '%' || v_city || '%')
+      AND NOT EXISTS (
+          SELECT 1 FROM public.request_pledges p
+          WHERE p.request_id = v_request.id AND p.donor_id = d.id AND p.status <> 'withdrawn'
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 7. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Pledges are seen by the donor and the requesting hospital; the triggers
+-- above decide which status changes each of them may make.
+ALTER TABLE public.request_pledges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "request_pledges_select_participant" ON public.request_pledges FOR SELECT USING (
+    auth.uid() = donor_id OR public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.requests r WHERE r.id = request_id AND public.is_hospital_member(r.hospital_id)
+    )
+);
+CREATE POLICY "request_pledges_insert_participant" ON public.request_pledges FOR INSERT WITH CHECK (
+    auth.uid() = donor_id OR public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.requests r WHERE r.id = request_id AND public.is_hospital_member(r.hospital_id)
+    )
+);
+CREATE POLICY "request_pledges_update_participant" ON public.request_pledges FOR UPDATE USING (
+    auth.uid() = donor_id OR public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.requests r WHERE r.id = request_id AND public.is_hospital_member(r.hospital_id)
+    )
+);
+
+-- Pledged donors follow the request's timeline too
+DROP POLICY IF EXISTS "request_status_history_select_participant" ON public.request_status_history;
+CREATE POLICY "request_status_history_select_participant" ON public.request_status_history FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.requests r
+        WHERE r.id = request_id
+          AND (public.is_hospital_member(r.hospital_id) OR r.donor_id = auth.uid())
+    ) OR EXISTS (
+        SELECT 1 FROM public.request_pledges p
+        WHERE p.request_id = request_status_history.request_id AND p.donor_id = auth.uid()
+    )
+);
+
+-- ===============================================================
+-- 8. BACKFILL
+-- ===============================================================
+-- Requests claimed by a single donor become one pledge for the whole amount.
+-- The triggers would refuse pledges on requests that are no longer open,
+-- so they are bypassed here and the totals are filled in directly.
+ALTER TABLE public.request_pledges DISABLE TRIGGER USER;
+
+INSERT INTO public.request_pledges (request_id, donor_id, units, status)
+SELECT r.id, r.donor_id, r.units_required, CASE WHEN r.status = 'fulfilled' THEN 'collected' ELSE 'pledged' END
+FROM public.requests r
+WHERE r.donor_id IS NOT NULL AND r.status IN ('accepted', 'fulfilled')
+ON CONFLICT (request_id, donor_id) DO NOTHING;
+
+ALTER TABLE public.request_pledges ENABLE TRIGGER USER;
+
+UPDATE public.requests r
+SET pledged_units = CASE WHEN r.status = 'accepted' THEN r.units_required ELSE 0 END,
+    collected_units = CASE WHEN r.status = 'fulfilled' THEN r.units_required ELSE 0 END
+WHERE r.donor_id IS NOT NULL AND r.status IN ('accepted', 'fulfilled');
+
+-- ===============================================================
+-- 9. DONOR RELIABILITY
+-- ===============================================================
+-- Donors now answer a request by pledging, and only the pledge that
+-- completes a request moves it to accepted, so requests_accepted counts
+-- the requests the donor pledged to. The backfill above turned earlier
+-- single-donor acceptances into pledges, so they still count.
+CREATE OR REPLACE FUNCTION public.donor_reliability(p_donor_ids uuid[])
+RETURNS TABLE (
+    donor_id uuid,
+    requests_notified integer,
+    requests_accepted integer,
+    appointments_kept integer,
+    appointments_missed integer
+) AS $$
+BEGIN
+    IF NOT (public.is_hospital_user() OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only hospital staff can read donor reliability'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT d.id,
+           (SELECT count(DISTINCT n.data ->> 'request_id')::int
+            FROM public.notifications n
+            WHERE n.user_id = d.id AND n.data ? 'request_id'),
+           (SELECT count(DISTINCT p.request_id)::int
+            FROM public.request_pledges p
+            WHERE p.donor_id = d.id),
+           (SELECT count(*)::int FROM public.appointments a
+            WHERE a.donor_id = d.id AND a.status = 'completed'),
+           (SELECT count(*)::int FROM public.appointments a
+            WHERE a.donor_id = d.id AND a.status = 'no_show')
+    FROM public.donors d
+    WHERE d.id = ANY (p_donor_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,68 @@
+-- ===============================================================
+-- PulseConnect: donor eligibility inputs
+-- ===============================================================
+--
+-- The rules run in the app (src/lib/eligibility.ts) from the answers
+-- stored here. The last result is kept next to them, with the rules
+-- version that produced it, so other screens can show it without
+-- re-asking the donor.
+
+-- ===============================================================
+-- 1. HEALTH ANSWERS
+-- ===============================================================
+-- Medication and vaccine keys are not constrained here: the catalogue
+-- belongs to the versioned rule set, not to the schema.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS sex text CHECK (sex IN ('female', 'male', 'other')),
+ADD COLUMN IF NOT EXISTS weight_kg numeric(5,1) CHECK (weight_kg > 0),
+ADD COLUMN IF NOT EXISTS height_cm numeric(5,1) CHECK (height_cm > 0),
+ADD COLUMN IF NOT EXISTS hemoglobin_g_dl numeric(4,1) CHECK (hemoglobin_g_dl > 0),
+ADD COLUMN IF NOT EXISTS is_pregnant boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS is_breastfeeding boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS last_pregnancy_end_date date,
+ADD COLUMN IF NOT EXISTS last_surgery_date date,
+ADD COLUMN IF NOT EXISTS last_tattoo_date date,
+ADD COLUMN IF NOT EXISTS last_malaria_travel_date date,
+ADD COLUMN IF NOT EXISTS deferral_medication text,
+ADD COLUMN IF NOT EXISTS deferral_medication_last_dose date,
+ADD COLUMN IF NOT EXISTS last_vaccine text,
+ADD COLUMN IF NOT EXISTS last_vaccination_date date,
+ADD COLUMN IF NOT EXISTS has_heart_disease boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS has_insulin_diabetes boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS has_hypertension boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS health_form_completed boolean NOT NULL DEFAULT false;
+
+-- Collected by the health form alongside the medical answers
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS city text,
+ADD COLUMN IF NOT EXISTS state text,
+ADD COLUMN IF NOT EXISTS zip_code text,
+ADD COLUMN IF NOT EXISTS emergency_contact_name text,
+ADD COLUMN IF NOT EXISTS emergency_contact_phone text;
+
+-- ===============================================================
+-- 2. LAST RESULT
+-- ===============================================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS eligibility_status text
+    CHECK (eligibility_status IN ('eligible', 'temporarily_deferred', 'permanently_deferred')),
+ADD COLUMN IF NOT EXISTS eligibility_reason text,
+ADD COLUMN IF NOT EXISTS eligible_from date,
+ADD COLUMN IF NOT EXISTS eligibility_rules_version text,
+ADD COLUMN IF NOT EXISTS eligibility_checked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_eligibility_status ON public.profiles (eligibility_status);
+
+-- ===============================================================
+-- 3. DONATION PREFERENCE
+-- ===============================================================
+-- Sign-up used to record the preferred donation type by writing
+-- 'pref_blood' / 'pref_plasma' into medical_conditions. Give it a column
+-- and take the markers out of the medical history.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS preferred_donation_type text CHECK (preferred_donation_type IN ('blood', 'plasma'));
+
+UPDATE public.profiles
+SET preferred_donation_type = CASE WHEN medical_conditions ILIKE '%pref_plasma%' THEN 'plasma' ELSE 'blood' END,
+    medical_conditions = NULLIF(btrim(regexp_replace(medical_conditions, 'pref_(blood|plasma)', '', 'gi')), '')
+WHERE medical_conditions ~* 'pref_(blood|plasma)';
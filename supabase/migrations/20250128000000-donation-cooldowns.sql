@@ -0,0 +1,266 @@
+-- ===============================================================
+-- PulseConnect: donation cooldowns
+-- ===============================================================
+--
+-- How long a donor waits depends on what they gave last time and on
+-- their sex, and each donation type has a yearly cap. The rules live in
+-- donation_intervals; donors.next_eligible_date is recomputed from the
+-- donations table whenever a donation is recorded, changed or removed,
+-- so no client ever writes it.
+--
+-- src/lib/cooldown.ts holds the same table for the UI; keep both in sync.
+
+-- ===============================================================
+-- 1. DONATION TYPES
+-- ===============================================================
+ALTER TABLE public.donations DROP CONSTRAINT IF EXISTS donations_donation_type_check;
+ALTER TABLE public.donations
+ADD CONSTRAINT donations_donation_type_check
+CHECK (donation_type IN ('blood', 'plasma', 'platelets', 'double_red_cells'));
+
+-- A collected pledge records its donation (section 5)
+ALTER TABLE public.donations
+ADD COLUMN IF NOT EXISTS pledge_id uuid UNIQUE;
+
+ALTER TABLE public.donations
+ADD CONSTRAINT fk_donations_pledge_id
+FOREIGN KEY (pledge_id) REFERENCES public.request_pledges(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_donor_date ON public.donations (donor_id, donation_date DESC);
+
+-- ===============================================================
+-- 2. INTERVALS
+-- ===============================================================
+-- min_days applies after a donation of this type, whatever comes next.
+-- annual_cap counts donations of this type in the last 365 days.
+CREATE TABLE IF NOT EXISTS public.donation_intervals (
+  donation_type text NOT NULL CHECK (donation_type IN ('blood', 'plasma', 'platelets', 'double_red_cells')),
+  sex text NOT NULL CHECK (sex IN ('female', 'male')),
+  min_days integer NOT NULL CHECK (min_days > 0),
+  annual_cap integer NOT NULL CHECK (annual_cap > 0),
+  PRIMARY KEY (donation_type, sex)
+);
+
+INSERT INTO public.donation_intervals (donation_type, sex, min_days, annual_cap) VALUES
+  ('blood', 'male', 90, 4),
+  ('blood', 'female', 120, 3),
+  ('plasma', 'male', 14, 24),
+  ('plasma', 'female', 14, 24),
+  ('platelets', 'male', 2, 24),
+  ('platelets', 'female', 2, 24),
+  ('double_red_cells', 'male', 112, 3),
+  ('double_red_cells', 'female', 168, 2)
+ON CONFLICT (donation_type, sex) DO UPDATE
+SET min_days = EXCLUDED.min_days,
+    annual_cap = EXCLUDED.annual_cap;
+
+ALTER TABLE public.donation_intervals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "donation_intervals_select_all" ON public.donation_intervals FOR SELECT USING (true);
+CREATE POLICY "donation_intervals_write_admin" ON public.donation_intervals FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- ===============================================================
+-- 3. HELPERS
+-- ===============================================================
+-- The sex the donor gave on their health form, else the donor record.
+-- Anything else (including unknown) gets the stricter of the two rules.
+CREATE OR REPLACE FUNCTION public.donor_sex(p_donor_id uuid)
+RETURNS text AS $$
+    SELECT coalesce(p.sex, lower(d.gender))
+    FROM public.donors d
+    LEFT JOIN public.profiles p ON p.id = d.id
+    WHERE d.id = p_donor_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.donation_interval(p_type text, p_sex text)
+RETURNS TABLE (min_days integer, annual_cap integer) AS $$
+    SELECT max(i.min_days), min(i.annual_cap)
+    FROM public.donation_intervals i
+    WHERE i.donation_type = p_type
+      AND (i.sex = p_sex OR p_sex IS NULL OR p_sex NOT IN ('female', 'male'));
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- When the donor may next give p_type, or any type when p_type is NULL.
+-- NULL means nothing holds them back.
+CREATE OR REPLACE FUNCTION public.donor_next_eligible_date(p_donor_id uuid, p_type text DEFAULT NULL)
+RETURNS timestamptz AS $$
+DECLARE
+    v_sex text := public.donor_sex(p_donor_id);
+    v_after_last timestamptz;
+    v_type text;
+    v_cap integer;
+    v_cap_ends timestamptz;
+    v_next timestamptz;
+    v_best timestamptz;
+BEGIN
+    -- Every donation sets its own wait: plasma after whole blood does not
+    -- cut the whole blood interval short, so take the latest of them all
+    SELECT max(d.donation_date + make_interval(days => di.min_days)) INTO v_after_last
+    FROM public.donations d
+    CROSS JOIN LATERAL public.donation_interval(d.donation_type, v_sex) di
+    WHERE d.donor_id = p_donor_id;
+
+    IF v_after_last IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_type IN
+        SELECT unnest(CASE WHEN p_type IS NULL
+                           THEN ARRAY['blood', 'plasma', 'platelets', 'double_red_cells']
+                           ELSE ARRAY[p_type] END)
+    LOOP
+        SELECT di.annual_cap INTO v_cap FROM public.donation_interval(v_type, v_sex) di;
+
+        -- With the cap reached, the next one is allowed once the oldest
+        -- donation counting towards it is a year old
+        v_cap_ends := NULL;
+        SELECT d.donation_date + interval '365 days' INTO v_cap_ends
+        FROM public.donations d
+        WHERE d.donor_id = p_donor_id
+          AND d.donation_type = v_type
+          AND d.donation_date > now() - interval '365 days'
+        ORDER BY d.donation_date DESC
+        OFFSET v_cap - 1
+        LIMIT 1;
+
+        v_next := greatest(v_after_last, v_cap_ends);
+        v_best := least(v_best, v_next);
+    END LOOP;
+
+    RETURN v_best;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.donor_next_eligible_date(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.donor_next_eligible_date(uuid, text) TO authenticated;
+
+-- ===============================================================
+-- 4. KEEPING DONORS UP TO DATE
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.refresh_donor_cooldown(p_donor_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_last_donation timestamptz;
+BEGIN
+    SELECT max(donation_date) INTO v_last_donation
+    FROM public.donations
+    WHERE donor_id = p_donor_id;
+
+    UPDATE public.donors
+    SET last_donation_date = v_last_donation,
+        next_eligible_date = public.donor_next_eligible_date(p_donor_id)
+    WHERE id = p_donor_id;
+
+    UPDATE public.profiles
+    SET last_donation_date = v_last_donation
+    WHERE id = p_donor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_donor_cooldown(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_donor_cooldown()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM public.refresh_donor_cooldown(OLD.donor_id);
+    END IF;
+    IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.donor_id IS DISTINCT FROM OLD.donor_id) THEN
+        PERFORM public.refresh_donor_cooldown(NEW.donor_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_donations_cooldown ON public.donations;
+CREATE TRIGGER sync_donations_cooldown
+    AFTER INSERT OR DELETE OR UPDATE OF donor_id, donation_type, donation_date ON public.donations
+    FOR EACH ROW EXECUTE FUNCTION public.sync_donor_cooldown();
+
+-- Donors may edit their own record but not their cooldown. Hospital
+-- staff only reach donor rows through set_donor_cooldown.
+CREATE OR REPLACE FUNCTION public.guard_donor_cooldown()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_user() OR pg_trigger_depth() > 1 THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.next_eligible_date IS DISTINCT FROM OLD.next_eligible_date
+        OR NEW.last_donation_date IS DISTINCT FROM OLD.last_donation_date THEN
+        RAISE EXCEPTION 'the donation cooldown is set from recorded donations'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_donors_cooldown ON public.donors;
+CREATE TRIGGER guard_donors_cooldown
+    BEFORE UPDATE ON public.donors
+    FOR EACH ROW EXECUTE FUNCTION public.guard_donor_cooldown();
+
+-- Without a donations row (walk-in drives logged after the fact) staff
+-- still start the cooldown by hand; it now follows the same intervals.
+CREATE OR REPLACE FUNCTION public.set_donor_cooldown(p_user_id uuid, p_type text)
+RETURNS timestamptz AS $$
+DECLARE
+    v_days integer;
+    v_next_eligible timestamptz;
+BEGIN
+    IF NOT (public.is_hospital_user() OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only hospital accounts can record a donation cooldown'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT di.min_days INTO v_days FROM public.donation_interval(p_type, public.donor_sex(p_user_id)) di;
+
+    IF v_days IS NULL THEN
+        RAISE EXCEPTION 'unknown donation type: %', p_type
+            USING ERRCODE = '22023';
+    END IF;
+
+    v_next_eligible := greatest(now() + make_interval(days => v_days), public.donor_next_eligible_date(p_user_id));
+
+    UPDATE public.donors
+    SET last_donation_date = now(),
+        next_eligible_date = v_next_eligible
+    WHERE id = p_user_id;
+
+    UPDATE public.profiles
+    SET last_donation_date = now()
+    WHERE id = p_user_id;
+
+    RETURN v_next_eligible;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 5. COLLECTED PLEDGES ARE DONATIONS
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.record_pledge_donation()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.donations (hospital_id, donor_id, donation_type, units_donated, blood_group, pledge_id)
+    SELECT r.hospital_id, NEW.donor_id, r.request_type, NEW.units, d.blood_group, NEW.id
+    FROM public.requests r
+    JOIN public.donors d ON d.id = NEW.donor_id
+    WHERE r.id = NEW.request_id
+    ON CONFLICT (pledge_id) DO NOTHING;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_request_pledges_donation ON public.request_pledges;
+CREATE TRIGGER record_request_pledges_donation
+    AFTER UPDATE OF status ON public.request_pledges
+    FOR EACH ROW WHEN (NEW.status = 'collected' AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.record_pledge_donation();
+
+-- ===============================================================
+-- 6. BACKFILL
+-- ===============================================================
+UPDATE public.donors d
+SET next_eligible_date = public.donor_next_eligible_date(d.id)
+WHERE EXISTS (SELECT 1 FROM public.donations x WHERE x.donor_id = d.id);
@@ -0,0 +1,185 @@
+-- ===============================================================
+-- PulseConnect: pre-donation screening
+-- ===============================================================
+--
+-- Before collection the hospital checks hemoglobin and vitals and decides
+-- whether the donor can give today. Each appointment gets at most one
+-- screening (a re-check updates it). The latest screening is copied onto
+-- the donor's profile: measured hemoglobin and weight replace what the
+-- donor typed into the health form, and a deferral is stored where the
+-- eligibility rules (src/lib/eligibility.ts) pick it up.
+
+-- ===============================================================
+-- 1. SCREENINGS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.donor_screenings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL UNIQUE,
+  donor_id uuid NOT NULL,
+  hospital_id uuid NOT NULL,
+  hemoglobin_g_dl numeric(4,1) CHECK (hemoglobin_g_dl > 0),
+  systolic_bp integer CHECK (systolic_bp > 0),
+  diastolic_bp integer CHECK (diastolic_bp > 0),
+  pulse_bpm integer CHECK (pulse_bpm > 0),
+  temperature_c numeric(3,1) CHECK (temperature_c > 0),
+  weight_kg numeric(5,1) CHECK (weight_kg > 0),
+  decision text NOT NULL CHECK (decision IN ('accepted', 'deferred')),
+  deferral_reason text,
+  -- NULL on a deferral means the donor is re-checked at the next screening
+  deferred_until date,
+  notes text,
+  screened_by uuid DEFAULT auth.uid(),
+  screened_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (decision = 'accepted' OR deferral_reason IS NOT NULL),
+  CHECK (decision = 'deferred' OR deferred_until IS NULL)
+);
+
+ALTER TABLE public.donor_screenings
+ADD CONSTRAINT fk_donor_screenings_appointment_id
+FOREIGN KEY (appointment_id) REFERENCES public.appointments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.donor_screenings
+ADD CONSTRAINT fk_donor_screenings_donor_id
+FOREIGN KEY (donor_id) REFERENCES public.donors(id) ON DELETE CASCADE;
+
+ALTER TABLE public.donor_screenings
+ADD CONSTRAINT fk_donor_screenings_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_donor_screenings_donor_screened_at ON public.donor_screenings (donor_id, screened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_donor_screenings_hospital_id ON public.donor_screenings (hospital_id);
+
+DROP TRIGGER IF EXISTS update_donor_screenings_updated_at ON public.donor_screenings;
+CREATE TRIGGER update_donor_screenings_updated_at
+    BEFORE UPDATE ON public.donor_screenings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The donor and hospital must be the appointment's, so a screening can't
+-- be filed against someone else's donor.
+CREATE OR REPLACE FUNCTION public.check_donor_screening_appointment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.id = NEW.appointment_id
+          AND a.donor_id = NEW.donor_id
+          AND a.hospital_id = NEW.hospital_id
+    ) THEN
+        RAISE EXCEPTION 'screening does not match appointment %', NEW.appointment_id
+            USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_donor_screenings_appointment ON public.donor_screenings;
+CREATE TRIGGER check_donor_screenings_appointment
+    BEFORE INSERT OR UPDATE OF appointment_id, donor_id, hospital_id ON public.donor_screenings
+    FOR EACH ROW EXECUTE FUNCTION public.check_donor_screening_appointment();
+
+-- ===============================================================
+-- 2. PROFILE
+-- ===============================================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS last_screened_at timestamptz,
+ADD COLUMN IF NOT EXISTS screening_deferral_reason text,
+ADD COLUMN IF NOT EXISTS screening_deferred_until date;
+
+-- Copies the donor's latest screening onto their profile. A deferral also
+-- overwrites the stored eligibility result so other screens show it
+-- straight away; the app re-runs the rules the next time the donor opens
+-- their health form or profile.
+CREATE OR REPLACE FUNCTION public.apply_donor_screening()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.donor_screenings s
+        WHERE s.donor_id = NEW.donor_id AND s.screened_at > NEW.screened_at
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.profiles
+    SET hemoglobin_g_dl = coalesce(NEW.hemoglobin_g_dl, hemoglobin_g_dl),
+        weight_kg = coalesce(NEW.weight_kg, weight_kg),
+        last_screened_at = NEW.screened_at,
+        screening_deferral_reason = CASE WHEN NEW.decision = 'deferred' THEN NEW.deferral_reason END,
+        screening_deferred_until = NEW.deferred_until
+    WHERE id = NEW.donor_id;
+
+    IF NEW.decision = 'deferred' THEN
+        UPDATE public.profiles
+        SET eligibility_status = 'temporarily_deferred',
+            eligibility_reason = 'Deferred at screening: ' || NEW.deferral_reason,
+            eligible_from = NEW.deferred_until,
+            eligibility_checked_at = now()
+        WHERE id = NEW.donor_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS apply_donor_screenings ON public.donor_screenings;
+CREATE TRIGGER apply_donor_screenings
+    AFTER INSERT OR UPDATE ON public.donor_screenings
+    FOR EACH ROW EXECUTE FUNCTION public.apply_donor_screening();
+
+-- profiles_update_own lets donors edit their own row, but the screening
+-- results on it are the hospital's. A donor may fill in a hemoglobin they
+-- were never measured for, and while a screening deferral holds they can't
+-- store an eligible result over it.
+CREATE OR REPLACE FUNCTION public.guard_profile_screening()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_user() OR pg_trigger_depth() > 1 THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.last_screened_at IS DISTINCT FROM OLD.last_screened_at
+        OR NEW.screening_deferral_reason IS DISTINCT FROM OLD.screening_deferral_reason
+        OR NEW.screening_deferred_until IS DISTINCT FROM OLD.screening_deferred_until
+        OR (OLD.hemoglobin_g_dl IS NOT NULL AND NEW.hemoglobin_g_dl IS DISTINCT FROM OLD.hemoglobin_g_dl) THEN
+        RAISE EXCEPTION 'screening results are recorded by the hospital'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.screening_deferral_reason IS NOT NULL
+        AND (OLD.screening_deferred_until IS NULL OR OLD.screening_deferred_until > current_date)
+        AND NEW.eligibility_status IS DISTINCT FROM OLD.eligibility_status
+        AND coalesce(NEW.eligibility_status, 'eligible') = 'eligible' THEN
+        RAISE EXCEPTION 'deferred at screening until %', coalesce(OLD.screening_deferred_until::text, 'the next screening')
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_profiles_screening ON public.profiles;
+CREATE TRIGGER guard_profiles_screening
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.guard_profile_screening();
+
+-- ===============================================================
+-- 3. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Any hospital may read a donor's readings when deciding whom to call;
+-- only the screening hospital records or changes them.
+ALTER TABLE public.donor_screenings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "donor_screenings_select_participant" ON public.donor_screenings FOR SELECT USING (
+    auth.uid() = donor_id OR public.is_hospital_user() OR public.is_admin()
+);
+CREATE POLICY "donor_screenings_insert_hospital" ON public.donor_screenings FOR INSERT WITH CHECK (
+    public.is_hospital_member(hospital_id) OR public.is_admin()
+);
+CREATE POLICY "donor_screenings_update_hospital" ON public.donor_screenings FOR UPDATE USING (
+    public.is_hospital_member(hospital_id) OR public.is_admin()
+) WITH CHECK (
+    public.is_hospital_member(hospital_id) OR public.is_admin()
+);
+CREATE POLICY "donor_screenings_delete_hospital" ON public.donor_screenings FOR DELETE USING (
+    public.is_hospital_member(hospital_id) OR public.is_admin()
+);
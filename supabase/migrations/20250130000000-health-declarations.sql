@@ -0,0 +1,124 @@
+-- ===============================================================
+-- PulseConnect: health declarations
+-- ===============================================================
+--
+-- Every time a donor submits the health questionnaire their answers are
+-- kept as a declaration: the questionnaire version (defined in
+-- src/lib/questionnaire.ts), the answers as given, the consent wording
+-- they ticked and when. Declarations are never edited; profiles keep only
+-- the latest answers. Each donation points at the declaration that was in
+-- force when it was collected, for audit.
+
+-- ===============================================================
+-- 1. DECLARATIONS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.health_declarations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL,
+  questionnaire_version text NOT NULL,
+  answers jsonb NOT NULL CHECK (jsonb_typeof(answers) = 'object'),
+  consent_text text NOT NULL CHECK (btrim(consent_text) <> ''),
+  consented_at timestamptz NOT NULL DEFAULT now(),
+  -- What the eligibility rules made of the answers at the time
+  eligibility_status text CHECK (eligibility_status IN ('eligible', 'temporarily_deferred', 'permanently_deferred')),
+  eligibility_reason text,
+  eligibility_rules_version text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.health_declarations
+ADD CONSTRAINT fk_health_declarations_donor_id
+FOREIGN KEY (donor_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_health_declarations_donor_consented_at ON public.health_declarations (donor_id, consented_at DESC);
+
+-- The consent time is the server's, whatever the client sent
+CREATE OR REPLACE FUNCTION public.stamp_health_declaration()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.consented_at := clock_timestamp();
+    NEW.created_at := NEW.consented_at;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_health_declarations ON public.health_declarations;
+CREATE TRIGGER stamp_health_declarations
+    BEFORE INSERT ON public.health_declarations
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_health_declaration();
+
+-- Declarations only go when the donor's account does (the cascade from
+-- profiles runs as a nested trigger)
+CREATE OR REPLACE FUNCTION public.guard_health_declaration()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'health declarations cannot be changed; submit a new one'
+        USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_health_declarations ON public.health_declarations;
+CREATE TRIGGER guard_health_declarations
+    BEFORE UPDATE OR DELETE ON public.health_declarations
+    FOR EACH ROW EXECUTE FUNCTION public.guard_health_declaration();
+
+-- The declaration in force at a point in time: the last one made before it
+CREATE OR REPLACE FUNCTION public.health_declaration_at(p_donor_id uuid, p_at timestamptz DEFAULT now())
+RETURNS SETOF public.health_declarations AS $$
+    SELECT *
+    FROM public.health_declarations
+    WHERE donor_id = p_donor_id AND consented_at <= p_at
+    ORDER BY consented_at DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ===============================================================
+-- 2. DONATIONS
+-- ===============================================================
+ALTER TABLE public.donations
+ADD COLUMN IF NOT EXISTS health_declaration_id uuid;
+
+ALTER TABLE public.donations
+ADD CONSTRAINT fk_donations_health_declaration_id
+FOREIGN KEY (health_declaration_id) REFERENCES public.health_declarations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_health_declaration_id ON public.donations (health_declaration_id);
+
+CREATE OR REPLACE FUNCTION public.attach_health_declaration()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.health_declaration_id IS NULL THEN
+        SELECT h.id INTO NEW.health_declaration_id
+        FROM public.health_declaration_at(NEW.donor_id, NEW.donation_date) h;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attach_donations_health_declaration ON public.donations;
+CREATE TRIGGER attach_donations_health_declaration
+    BEFORE INSERT ON public.donations
+    FOR EACH ROW EXECUTE FUNCTION public.attach_health_declaration();
+
+-- ===============================================================
+-- 3. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Donors see their own declarations. A hospital sees those of donors
+-- booked with it, and the ones behind donations it collected.
+ALTER TABLE public.health_declarations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "health_declarations_select_participant" ON public.health_declarations FOR SELECT USING (
+    auth.uid() = donor_id OR public.is_admin()
+    OR EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.donor_id = health_declarations.donor_id AND public.is_hospital_member(a.hospital_id)
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.donations d
+        WHERE d.health_declaration_id = health_declarations.id AND public.is_hospital_member(d.hospital_id)
+    )
+);
+CREATE POLICY "health_declarations_insert_own" ON public.health_declarations FOR INSERT WITH CHECK (auth.uid() = donor_id);
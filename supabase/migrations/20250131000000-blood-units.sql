@@ -0,0 +1,204 @@
+-- ===============================================================
+-- PulseConnect: unit-level blood inventory
+-- ===============================================================
+--
+-- Every bag in a hospital's blood bank is a row in blood_units, with its
+-- bag number, component, group, collection and expiry times and where it
+-- is stored. Stock figures are counted from the bags that are available
+-- and in date; blood_inventory only held aggregate counts and is no
+-- longer written.
+--
+-- Bags leave the bank through public.issue_blood_units(), which always
+-- hands out the bags that expire first (first-expiry-first-out).
+-- public.expire_blood_units() runs hourly through pg_cron; to run it by
+-- hand against the local stack:
+--   SELECT public.expire_blood_units();
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- ===============================================================
+-- 1. BLOOD UNITS TABLE
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.blood_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  hospital_id uuid NOT NULL,
+  bag_number text NOT NULL CHECK (btrim(bag_number) <> ''),
+  component text NOT NULL CHECK (component IN ('red_cells', 'whole_blood', 'plasma', 'platelets')),
+  blood_group text NOT NULL CHECK (blood_group IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  volume_ml integer CHECK (volume_ml > 0),
+  donation_id uuid,
+  collected_at timestamptz NOT NULL,
+  expires_at timestamptz NOT NULL,
+  storage_location text,
+  status text NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'reserved', 'issued', 'expired', 'discarded')),
+  issued_at timestamptz,
+  issued_request_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT blood_units_expires_after_collection CHECK (expires_at > collected_at),
+  CONSTRAINT blood_units_issued_at_when_issued CHECK ((status = 'issued') = (issued_at IS NOT NULL)),
+  CONSTRAINT blood_units_hospital_bag_number_key UNIQUE (hospital_id, bag_number)
+);
+
+ALTER TABLE public.blood_units
+ADD CONSTRAINT fk_blood_units_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+ALTER TABLE public.blood_units
+ADD CONSTRAINT fk_blood_units_donation_id
+FOREIGN KEY (donation_id) REFERENCES public.donations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.blood_units
+ADD CONSTRAINT fk_blood_units_issued_request_id
+FOREIGN KEY (issued_request_id) REFERENCES public.requests(id) ON DELETE SET NULL;
+
+-- Stock lookups and FEFO picks: available bags of a group and component by expiry
+CREATE INDEX IF NOT EXISTS idx_blood_units_stock ON public.blood_units (hospital_id, blood_group, component, expires_at)
+    WHERE status = 'available';
+CREATE INDEX IF NOT EXISTS idx_blood_units_status_expires_at ON public.blood_units (status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_blood_units_donation_id ON public.blood_units (donation_id);
+
+DROP TRIGGER IF EXISTS update_blood_units_updated_at ON public.blood_units;
+CREATE TRIGGER update_blood_units_updated_at
+    BEFORE UPDATE ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A bag that has been issued or discarded has left the bank for good
+CREATE OR REPLACE FUNCTION public.guard_blood_unit_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('issued', 'discarded') AND NEW.status IS DISTINCT FROM OLD.status THEN
+        RAISE EXCEPTION 'bag % is % and cannot be returned to stock', OLD.bag_number, OLD.status
+            USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_blood_units_status ON public.blood_units;
+CREATE TRIGGER guard_blood_units_status
+    BEFORE UPDATE OF status ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.guard_blood_unit_status();
+
+-- ===============================================================
+-- 2. EXISTING STOCK
+-- ===============================================================
+-- The aggregate rows become one whole blood bag per unit, numbered after
+-- the row they came from. Rows without an expiry date are given the
+-- whole blood shelf life from when they were recorded.
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at, status, issued_at)
+SELECT
+    i.hospital_id,
+    'INV-' || upper(left(i.id::text, 8)) || '-' || lpad(n::text, 3, '0'),
+    'whole_blood',
+    i.blood_group,
+    coalesce(i.expiry_date - interval '35 days', i.created_at),
+    coalesce(i.expiry_date, i.created_at + interval '35 days'),
+    CASE i.status WHEN 'used' THEN 'issued' ELSE i.status END,
+    CASE WHEN i.status = 'used' THEN i.updated_at END
+FROM public.blood_inventory i
+CROSS JOIN LATERAL generate_series(1, i.units_available) AS n
+ON CONFLICT (hospital_id, bag_number) DO NOTHING;
+
+COMMENT ON TABLE public.blood_inventory IS 'Superseded by blood_units; kept for history and no longer written.';
+
+-- ===============================================================
+-- 3. ISSUE AND EXPIRY
+-- ===============================================================
+-- Issues p_units bags of a group and component, earliest expiry first.
+-- Bags locked by a concurrent issue are skipped rather than waited on, so
+-- two issues never hand out the same bag. Raises P0002 when there are not
+-- enough bags in date, and issues nothing in that case.
+CREATE OR REPLACE FUNCTION public.issue_blood_units(
+    p_hospital_id uuid,
+    p_blood_group text,
+    p_component text,
+    p_units integer,
+    p_request_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.blood_units AS $$
+DECLARE
+    v_ids uuid[];
+    v_found integer;
+BEGIN
+    IF NOT (public.is_hospital_member(p_hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only staff of the hospital can issue its blood'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF p_units IS NULL OR p_units < 1 THEN
+        RAISE EXCEPTION 'the number of units to issue must be positive'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_request_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.requests WHERE id = p_request_id AND hospital_id = p_hospital_id
+    ) THEN
+        RAISE EXCEPTION 'request % does not belong to this hospital', p_request_id
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT array_agg(id) INTO v_ids
+    FROM (
+        SELECT id
+        FROM public.blood_units
+        WHERE hospital_id = p_hospital_id
+          AND blood_group = p_blood_group
+          AND component = p_component
+          AND status = 'available'
+          AND expires_at > now()
+        ORDER BY expires_at, collected_at, bag_number
+        LIMIT p_units
+        FOR UPDATE SKIP LOCKED
+    ) picked;
+
+    v_found := coalesce(array_length(v_ids, 1), 0);
+    IF v_found < p_units THEN
+        RAISE EXCEPTION 'only % % % unit(s) in stock, % requested', v_found, p_blood_group, p_component, p_units
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN QUERY
+    WITH issued AS (
+        UPDATE public.blood_units
+        SET status = 'issued', issued_at = now(), issued_request_id = p_request_id
+        WHERE id = ANY (v_ids)
+        RETURNING *
+    )
+    SELECT * FROM issued ORDER BY expires_at, collected_at, bag_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Marks bags past their expiry as expired; returns how many were
+CREATE OR REPLACE FUNCTION public.expire_blood_units()
+RETURNS integer AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    UPDATE public.blood_units
+    SET status = 'expired'
+    WHERE status IN ('available', 'reserved') AND expires_at <= now();
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.issue_blood_units(uuid, text, text, integer, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_blood_units(uuid, text, text, integer, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_blood_units() FROM PUBLIC, anon, authenticated;
+
+-- ===============================================================
+-- 4. SCHEDULE
+-- ===============================================================
+SELECT cron.schedule('expire-blood-units', '0 * * * *', $$SELECT public.expire_blood_units()$$);
+
+-- ===============================================================
+-- 5. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+ALTER TABLE public.blood_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "blood_units_select_hospital" ON public.blood_units FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blood_units_insert_hospital" ON public.blood_units FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blood_units_update_hospital" ON public.blood_units FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "blood_units_delete_hospital" ON public.blood_units FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
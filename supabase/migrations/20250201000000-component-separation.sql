@@ -0,0 +1,173 @@
+-- ===============================================================
+-- PulseConnect: whole blood component separation
+-- ===============================================================
+--
+-- public.separate_donation() processes a whole blood donation into red
+-- cells, plasma and platelets. Each component becomes a bag in
+-- blood_units with its own shelf life, linked to the donation through
+-- donation_id; the donation's whole blood bag, if one was logged, is
+-- marked processed.
+--
+-- Plasma stock moves into blood_units as well, so the plasma centre and
+-- the blood bank count the same bags; plasma_inventory is no longer
+-- written.
+
+-- ===============================================================
+-- 1. PROCESSED BAGS
+-- ===============================================================
+ALTER TABLE public.blood_units DROP CONSTRAINT IF EXISTS blood_units_status_check;
+ALTER TABLE public.blood_units ADD CONSTRAINT blood_units_status_check
+    CHECK (status IN ('available', 'reserved', 'issued', 'expired', 'discarded', 'processed'));
+
+CREATE OR REPLACE FUNCTION public.guard_blood_unit_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('issued', 'discarded', 'processed') AND NEW.status IS DISTINCT FROM OLD.status THEN
+        RAISE EXCEPTION 'bag % is % and cannot be returned to stock', OLD.bag_number, OLD.status
+            USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A donation yields at most one bag of each component
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blood_units_donation_component ON public.blood_units (donation_id, component)
+    WHERE donation_id IS NOT NULL;
+
+-- ===============================================================
+-- 2. SHELF LIFE
+-- ===============================================================
+-- Keep in sync with COMPONENT_SHELF_LIFE_DAYS in src/lib/repository/bloodUnits.ts
+CREATE OR REPLACE FUNCTION public.component_shelf_life(p_component text)
+RETURNS interval AS $$
+    SELECT CASE p_component
+        WHEN 'whole_blood' THEN interval '35 days'
+        WHEN 'red_cells' THEN interval '42 days'
+        WHEN 'plasma' THEN interval '365 days'
+        WHEN 'platelets' THEN interval '5 days'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keep in sync with COMPONENT_BAG_SUFFIXES in src/lib/repository/bloodUnits.ts
+CREATE OR REPLACE FUNCTION public.component_bag_suffix(p_component text)
+RETURNS text AS $$
+    SELECT CASE p_component
+        WHEN 'red_cells' THEN 'RC'
+        WHEN 'plasma' THEN 'FFP'
+        WHEN 'platelets' THEN 'PLT'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ===============================================================
+-- 3. SEPARATION
+-- ===============================================================
+-- Component bags are numbered after the whole blood bag they came from
+-- (e.g. WB-1042-RC), or after the donation when no bag was logged. The
+-- plasma is assumed frozen on the day, so every component's expiry runs
+-- from the collection time. p_storage_locations maps a component to where
+-- its bag is kept, e.g. {"plasma": "Freezer 2"}.
+CREATE OR REPLACE FUNCTION public.separate_donation(
+    p_donation_id uuid,
+    p_components text[] DEFAULT ARRAY['red_cells', 'plasma', 'platelets'],
+    p_storage_locations jsonb DEFAULT '{}'::jsonb
+)
+RETURNS SETOF public.blood_units AS $$
+DECLARE
+    v_donation public.donations%ROWTYPE;
+    v_source public.blood_units%ROWTYPE;
+    v_base text;
+    v_component text;
+BEGIN
+    SELECT * INTO v_donation FROM public.donations WHERE id = p_donation_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'donation % not found', p_donation_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (public.is_hospital_member(v_donation.hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only staff of the collecting hospital can process a donation'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF v_donation.donation_type <> 'blood' THEN
+        RAISE EXCEPTION 'only whole blood donations can be separated, this is a % donation', v_donation.donation_type
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF coalesce(cardinality(p_components), 0) = 0 OR NOT p_components <@ ARRAY['red_cells', 'plasma', 'platelets'] THEN
+        RAISE EXCEPTION 'components must be chosen from red_cells, plasma and platelets'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.blood_units WHERE donation_id = p_donation_id AND component <> 'whole_blood'
+    ) THEN
+        RAISE EXCEPTION 'donation % has already been separated', p_donation_id
+            USING ERRCODE = '23505';
+    END IF;
+
+    -- The whole blood bag, if it was logged, is used up by the separation
+    SELECT * INTO v_source
+    FROM public.blood_units
+    WHERE donation_id = p_donation_id AND component = 'whole_blood'
+    FOR UPDATE;
+
+    IF FOUND THEN
+        IF v_source.status <> 'available' OR v_source.expires_at <= now() THEN
+            RAISE EXCEPTION 'bag % is no longer available for processing', v_source.bag_number
+                USING ERRCODE = '23514';
+        END IF;
+        UPDATE public.blood_units SET status = 'processed' WHERE id = v_source.id;
+        v_base := v_source.bag_number;
+    ELSE
+        v_base := 'DON-' || upper(left(p_donation_id::text, 8));
+    END IF;
+
+    FOR v_component IN
+        SELECT DISTINCT c FROM unnest(p_components) AS c
+    LOOP
+        RETURN QUERY
+        WITH created AS (
+            INSERT INTO public.blood_units (
+                hospital_id, bag_number, component, blood_group, donation_id,
+                collected_at, expires_at, storage_location
+            )
+            VALUES (
+                v_donation.hospital_id,
+                v_base || '-' || public.component_bag_suffix(v_component),
+                v_component,
+                v_donation.blood_group,
+                p_donation_id,
+                v_donation.donation_date,
+                v_donation.donation_date + public.component_shelf_life(v_component),
+                nullif(btrim(p_storage_locations ->> v_component), '')
+            )
+            RETURNING *
+        )
+        SELECT * FROM created;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.separate_donation(uuid, text[], jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.separate_donation(uuid, text[], jsonb) TO authenticated;
+
+-- ===============================================================
+-- 4. EXISTING PLASMA STOCK
+-- ===============================================================
+-- As with blood_inventory, each aggregate unit becomes one plasma bag
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at, status, issued_at)
+SELECT
+    p.hospital_id,
+    'PINV-' || upper(left(p.id::text, 8)) || '-' || lpad(n::text, 3, '0'),
+    'plasma',
+    p.blood_group,
+    coalesce(p.expiry_date - interval '365 days', p.created_at),
+    coalesce(p.expiry_date, p.created_at + interval '365 days'),
+    CASE p.status WHEN 'used' THEN 'issued' ELSE p.status END,
+    CASE WHEN p.status = 'used' THEN p.updated_at END
+FROM public.plasma_inventory p
+CROSS JOIN LATERAL generate_series(1, p.units_available) AS n
+ON CONFLICT (hospital_id, bag_number) DO NOTHING;
+
+COMMENT ON TABLE public.plasma_inventory IS 'Superseded by blood_units; kept for history and no longer written.';
@@ -0,0 +1,371 @@
+-- ===============================================================
+-- PulseConnect: inter-hospital stock transfers
+-- ===============================================================
+--
+-- A hospital short on a group asks another hospital for a number of bags.
+-- The supplying hospital approves (which reserves specific bags, earliest
+-- expiry first unless it picks them) or rejects; it then dispatches the
+-- reserved bags and the requesting hospital receives them, at which point
+-- the bags change owner in blood_units (blood_inventory is superseded, see
+-- 20250131000000-blood-units.sql).
+--
+--   requested  -> approved | rejected | cancelled
+--   approved   -> dispatched | rejected | cancelled
+--   dispatched -> received
+--   rejected, cancelled and received are final
+--
+-- The supplying hospital approves, rejects and dispatches; the requesting
+-- hospital cancels and receives. Every step is recorded in
+-- stock_transfer_history together with the bags involved.
+--
+-- The same table lives in src/lib/transferLifecycle.ts; keep both in sync.
+
+-- ===============================================================
+-- 1. TRANSFER TABLES
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requesting_hospital_id uuid NOT NULL,
+  supplying_hospital_id uuid NOT NULL,
+  blood_group text NOT NULL CHECK (blood_group IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  component text NOT NULL DEFAULT 'red_cells' CHECK (component IN ('red_cells', 'whole_blood', 'plasma', 'platelets')),
+  units_requested integer NOT NULL CHECK (units_requested > 0),
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'dispatched', 'received', 'cancelled')),
+  notes text,
+  requested_by uuid DEFAULT auth.uid(),
+  approved_at timestamptz,
+  dispatched_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT stock_transfers_distinct_hospitals CHECK (requesting_hospital_id <> supplying_hospital_id)
+);
+
+ALTER TABLE public.stock_transfers
+ADD CONSTRAINT fk_stock_transfers_requesting_hospital_id
+FOREIGN KEY (requesting_hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+ALTER TABLE public.stock_transfers
+ADD CONSTRAINT fk_stock_transfers_supplying_hospital_id
+FOREIGN KEY (supplying_hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_requesting_hospital_id ON public.stock_transfers (requesting_hospital_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_supplying_hospital_id ON public.stock_transfers (supplying_hospital_id, created_at);
+
+DROP TRIGGER IF EXISTS update_stock_transfers_updated_at ON public.stock_transfers;
+CREATE TRIGGER update_stock_transfers_updated_at
+    BEFORE UPDATE ON public.stock_transfers
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The bags reserved for a transfer when it is approved
+CREATE TABLE IF NOT EXISTS public.stock_transfer_units (
+  transfer_id uuid NOT NULL,
+  blood_unit_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (transfer_id, blood_unit_id)
+);
+
+ALTER TABLE public.stock_transfer_units
+ADD CONSTRAINT fk_stock_transfer_units_transfer_id
+FOREIGN KEY (transfer_id) REFERENCES public.stock_transfers(id) ON DELETE CASCADE;
+
+ALTER TABLE public.stock_transfer_units
+ADD CONSTRAINT fk_stock_transfer_units_blood_unit_id
+FOREIGN KEY (blood_unit_id) REFERENCES public.blood_units(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_units_blood_unit_id ON public.stock_transfer_units (blood_unit_id);
+
+-- changed_by is null when the change came from a scheduled job rather
+-- than a signed-in user. unit_ids are the bags attached to the transfer
+-- when the step was taken.
+CREATE TABLE IF NOT EXISTS public.stock_transfer_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id uuid NOT NULL,
+  from_status text CHECK (from_status IN ('requested', 'approved', 'rejected', 'dispatched', 'received', 'cancelled')),
+  to_status text NOT NULL CHECK (to_status IN ('requested', 'approved', 'rejected', 'dispatched', 'received', 'cancelled')),
+  changed_by uuid,
+  actor_role text NOT NULL CHECK (actor_role IN ('requesting_hospital', 'supplying_hospital', 'admin', 'system')),
+  reason text,
+  unit_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+ALTER TABLE public.stock_transfer_history
+ADD CONSTRAINT fk_stock_transfer_history_transfer_id
+FOREIGN KEY (transfer_id) REFERENCES public.stock_transfers(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_history_transfer_id ON public.stock_transfer_history (transfer_id, created_at);
+
+-- ===============================================================
+-- 2. TRANSITION RULES
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.stock_transfer_transition_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+    SELECT CASE p_from
+        WHEN 'requested' THEN p_to IN ('approved', 'rejected', 'cancelled')
+        WHEN 'approved' THEN p_to IN ('dispatched', 'rejected', 'cancelled')
+        WHEN 'dispatched' THEN p_to = 'received'
+        ELSE false
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_stock_transfer_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'requested' THEN
+            RAISE EXCEPTION 'new transfers must start as requested, not %', NEW.status
+                USING ERRCODE = '23514';
+        END IF;
+    ELSIF NOT public.stock_transfer_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'transfer cannot move from % to %', OLD.status, NEW.status
+            USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===============================================================
+-- 3. HISTORY RECORDING
+-- ===============================================================
+-- The reason comes from transition_stock_transfer() through the same
+-- transaction-local setting transition_request() uses.
+CREATE OR REPLACE FUNCTION public.record_stock_transfer_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.stock_transfer_history (transfer_id, from_status, to_status, changed_by, actor_role, reason, unit_ids)
+    VALUES (
+        NEW.id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        auth.uid(),
+        CASE
+            WHEN auth.uid() IS NULL THEN 'system'
+            WHEN public.is_admin() THEN 'admin'
+            WHEN public.is_hospital_member(NEW.supplying_hospital_id) THEN 'supplying_hospital'
+            ELSE 'requesting_hospital'
+        END,
+        coalesce(nullif(current_setting('pulseconnect.status_reason', true), ''),
+                 CASE WHEN TG_OP = 'INSERT' THEN coalesce(NEW.notes, 'Transfer requested') END),
+        coalesce((SELECT array_agg(blood_unit_id ORDER BY blood_unit_id) FROM public.stock_transfer_units WHERE transfer_id = NEW.id), '{}')
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_stock_transfers_status_insert ON public.stock_transfers;
+DROP TRIGGER IF EXISTS enforce_stock_transfers_status_update ON public.stock_transfers;
+DROP TRIGGER IF EXISTS record_stock_transfers_status_insert ON public.stock_transfers;
+DROP TRIGGER IF EXISTS record_stock_transfers_status_update ON public.stock_transfers;
+
+CREATE TRIGGER enforce_stock_transfers_status_insert
+    BEFORE INSERT ON public.stock_transfers
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_stock_transfer_status();
+
+CREATE TRIGGER enforce_stock_transfers_status_update
+    BEFORE UPDATE OF status ON public.stock_transfers
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.enforce_stock_transfer_status();
+
+CREATE TRIGGER record_stock_transfers_status_insert
+    AFTER INSERT ON public.stock_transfers
+    FOR EACH ROW EXECUTE FUNCTION public.record_stock_transfer_status();
+
+CREATE TRIGGER record_stock_transfers_status_update
+    AFTER UPDATE OF status ON public.stock_transfers
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.record_stock_transfer_status();
+
+-- ===============================================================
+-- 4. TRANSITION RPC
+-- ===============================================================
+-- SECURITY DEFINER because each step touches the other hospital's bags:
+-- the requesting hospital cannot see the supplier's stock, yet receiving
+-- moves those bags into its own. Who may take which step is checked here.
+--
+-- Approving reserves p_unit_ids, or when none are given the bags that
+-- expire first; either way exactly units_requested available, in-date
+-- bags of the right group and component. Rejecting or cancelling after
+-- approval puts the reserved bags back in stock. Receiving hands them to
+-- the requesting hospital as available, with no storage location yet.
+CREATE OR REPLACE FUNCTION public.transition_stock_transfer(
+    p_transfer_id uuid,
+    p_status text,
+    p_reason text DEFAULT NULL,
+    p_unit_ids uuid[] DEFAULT NULL
+)
+RETURNS public.stock_transfers AS $$
+DECLARE
+    v_transfer public.stock_transfers;
+    v_ids uuid[];
+    v_found integer;
+BEGIN
+    SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'transfer % not found', p_transfer_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_status IN ('approved', 'rejected', 'dispatched') THEN
+        IF NOT (public.is_hospital_member(v_transfer.supplying_hospital_id) OR public.is_admin()) THEN
+            RAISE EXCEPTION 'only the supplying hospital can mark a transfer %', p_status
+                USING ERRCODE = '42501';
+        END IF;
+    ELSIF NOT (public.is_hospital_member(v_transfer.requesting_hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only the requesting hospital can mark a transfer %', p_status
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.stock_transfer_transition_allowed(v_transfer.status, p_status) THEN
+        RAISE EXCEPTION 'transfer cannot move from % to %', v_transfer.status, p_status
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF p_status = 'approved' THEN
+        IF p_unit_ids IS NOT NULL AND cardinality(p_unit_ids) <> v_transfer.units_requested THEN
+            RAISE EXCEPTION '% bag(s) chosen, % requested', cardinality(p_unit_ids), v_transfer.units_requested
+                USING ERRCODE = '22023';
+        END IF;
+
+        SELECT array_agg(id) INTO v_ids
+        FROM (
+            SELECT id
+            FROM public.blood_units
+            WHERE hospital_id = v_transfer.supplying_hospital_id
+              AND blood_group = v_transfer.blood_group
+              AND component = v_transfer.component
+              AND status = 'available'
+              AND expires_at > now()
+              AND (p_unit_ids IS NULL OR id = ANY (p_unit_ids))
+            ORDER BY expires_at, collected_at, bag_number
+            LIMIT v_transfer.units_requested
+            FOR UPDATE SKIP LOCKED
+        ) picked;
+
+        v_found := coalesce(array_length(v_ids, 1), 0);
+        IF v_found < v_transfer.units_requested THEN
+            RAISE EXCEPTION 'only % suitable % % unit(s) available, % requested',
+                v_found, v_transfer.blood_group, v_transfer.component, v_transfer.units_requested
+                USING ERRCODE = 'P0002';
+        END IF;
+
+        UPDATE public.blood_units SET status = 'reserved' WHERE id = ANY (v_ids);
+        INSERT INTO public.stock_transfer_units (transfer_id, blood_unit_id)
+        SELECT p_transfer_id, unnest(v_ids);
+
+    ELSIF p_status IN ('rejected', 'cancelled') THEN
+        UPDATE public.blood_units u
+        SET status = 'available'
+        FROM public.stock_transfer_units t
+        WHERE t.transfer_id = p_transfer_id AND u.id = t.blood_unit_id AND u.status = 'reserved';
+
+    ELSIF p_status = 'dispatched' THEN
+        IF EXISTS (
+            SELECT 1
+            FROM public.stock_transfer_units t
+            JOIN public.blood_units u ON u.id = t.blood_unit_id
+            WHERE t.transfer_id = p_transfer_id AND u.status <> 'reserved'
+        ) THEN
+            RAISE EXCEPTION 'a bag reserved for this transfer has left stock; reject the transfer and request again'
+                USING ERRCODE = '23514';
+        END IF;
+
+    ELSIF p_status = 'received' THEN
+        UPDATE public.blood_units u
+        SET hospital_id = v_transfer.requesting_hospital_id,
+            status = CASE WHEN u.status = 'reserved' THEN 'available' ELSE u.status END,
+            storage_location = NULL
+        FROM public.stock_transfer_units t
+        WHERE t.transfer_id = p_transfer_id AND u.id = t.blood_unit_id;
+    END IF;
+
+    PERFORM set_config('pulseconnect.status_reason', coalesce(p_reason, ''), true);
+
+    UPDATE public.stock_transfers
+    SET status = p_status,
+        approved_at = CASE WHEN p_status = 'approved' THEN now() ELSE approved_at END,
+        dispatched_at = CASE WHEN p_status = 'dispatched' THEN now() ELSE dispatched_at END,
+        received_at = CASE WHEN p_status = 'received' THEN now() ELSE received_at END
+    WHERE id = p_transfer_id
+    RETURNING * INTO v_transfer;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transition_stock_transfer(uuid, text, text, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_stock_transfer(uuid, text, text, uuid[]) TO authenticated;
+
+-- ===============================================================
+-- 5. WHO HOLDS STOCK
+-- ===============================================================
+-- Bag counts per hospital for one group and component, so a hospital can
+-- see where to ask without seeing anyone's individual bags. Only counts
+-- available, in-date bags at active hospitals.
+CREATE OR REPLACE FUNCTION public.find_blood_stock(
+    p_blood_group text,
+    p_component text DEFAULT 'red_cells',
+    p_min_units integer DEFAULT 1
+)
+RETURNS TABLE (
+    hospital_id uuid,
+    name text,
+    city text,
+    phone text,
+    latitude double precision,
+    longitude double precision,
+    units_available integer
+) AS $$
+    SELECT h.id, h.name, h.city, h.phone, h.latitude, h.longitude, count(*)::integer
+    FROM public.blood_units u
+    JOIN public.hospitals h ON h.id = u.hospital_id
+    WHERE u.blood_group = p_blood_group
+      AND u.component = p_component
+      AND u.status = 'available'
+      AND u.expires_at > now()
+      AND coalesce(h.is_active, true)
+    GROUP BY h.id
+    HAVING count(*) >= greatest(p_min_units, 1)
+    ORDER BY count(*) DESC, h.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.find_blood_stock(text, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_blood_stock(text, text, integer) TO authenticated;
+
+-- ===============================================================
+-- 6. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Both hospitals see the transfer, its bags and its history. Transfers are
+-- created by the requesting hospital and changed only through
+-- transition_stock_transfer().
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stock_transfers_select_participant" ON public.stock_transfers FOR SELECT USING (
+    public.is_hospital_member(requesting_hospital_id) OR public.is_hospital_member(supplying_hospital_id) OR public.is_admin()
+);
+CREATE POLICY "stock_transfers_insert_hospital" ON public.stock_transfers FOR INSERT WITH CHECK (
+    public.is_hospital_member(requesting_hospital_id) OR public.is_admin()
+);
+
+CREATE POLICY "stock_transfer_units_select_participant" ON public.stock_transfer_units FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.stock_transfers t
+        WHERE t.id = transfer_id
+          AND (public.is_hospital_member(t.requesting_hospital_id) OR public.is_hospital_member(t.supplying_hospital_id))
+    )
+);
+
+CREATE POLICY "stock_transfer_history_select_participant" ON public.stock_transfer_history FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.stock_transfers t
+        WHERE t.id = transfer_id
+          AND (public.is_hospital_member(t.requesting_hospital_id) OR public.is_hospital_member(t.supplying_hospital_id))
+    )
+);
@@ -0,0 +1,20 @@
+-- ===============================================================
+-- PulseConnect: ISBT 128 product codes on blood units
+-- ===============================================================
+--
+-- Bags received with an ISBT 128 label keep their donation identification
+-- number as the bag number and their product code here, so printed labels
+-- carry the same codes. Both stay optional: bags from sources without ISBT
+-- labels are still numbered freely. Parsing, check characters and label
+-- printing live in src/lib/isbt128.ts.
+
+-- ===============================================================
+-- 1. PRODUCT CODE
+-- ===============================================================
+-- Data structure 003 content: a product description code (a letter and
+-- four digits), the collection type and a two-character division.
+ALTER TABLE public.blood_units
+ADD COLUMN IF NOT EXISTS product_code text
+    CONSTRAINT blood_units_product_code_format CHECK (product_code ~ '^[A-Z][0-9]{4}[0-9A-Z][0-9A-Z][0-9a-z]$');
+
+COMMENT ON COLUMN public.blood_units.product_code IS 'ISBT 128 product code (data structure 003 content), when the bag carries one.';
@@ -0,0 +1,219 @@
+-- ===============================================================
+-- PulseConnect: low-stock thresholds and automatic donor call-outs
+-- ===============================================================
+--
+-- Each hospital sets a minimum and a target number of red cell bags per
+-- blood group. Whenever a change to its bags (or to a threshold) leaves a
+-- group below its minimum, public.check_stock_threshold() opens a restock
+-- request for the difference to the target and notifies eligible,
+-- compatible donors nearby. One restock request per group is open at a
+-- time; from then on it is escalated and expired like any other request.
+--
+-- To check a group by hand against the local stack:
+--   SELECT public.check_stock_threshold('<hospital id>', 'O-');
+
+-- ===============================================================
+-- 1. THRESHOLDS TABLE
+-- ===============================================================
+-- Groups without a row are never restocked automatically.
+CREATE TABLE IF NOT EXISTS public.stock_thresholds (
+  hospital_id uuid NOT NULL,
+  blood_group text NOT NULL CHECK (blood_group IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  min_units integer NOT NULL CHECK (min_units >= 0),
+  target_units integer NOT NULL CHECK (target_units > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (hospital_id, blood_group),
+  CONSTRAINT stock_thresholds_target_above_min CHECK (target_units > min_units)
+);
+
+ALTER TABLE public.stock_thresholds
+ADD CONSTRAINT fk_stock_thresholds_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+DROP TRIGGER IF EXISTS update_stock_thresholds_updated_at ON public.stock_thresholds;
+CREATE TRIGGER update_stock_thresholds_updated_at
+    BEFORE UPDATE ON public.stock_thresholds
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===============================================================
+-- 2. RESTOCK REQUESTS
+-- ===============================================================
+-- Requests opened by the threshold check are marked so the dashboard can
+-- tell them apart and so a group never has two open at once.
+ALTER TABLE public.requests
+ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'low_stock'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_requests_open_low_stock ON public.requests (hospital_id, blood_group)
+    WHERE source = 'low_stock' AND status IN ('pending', 'accepted');
+
+-- ===============================================================
+-- 3. STOCK LEVEL
+-- ===============================================================
+-- Red cell bags (packed and whole blood) available and in date, the same
+-- figure the dashboard shows per group.
+CREATE OR REPLACE FUNCTION public.blood_stock_level(p_hospital_id uuid, p_blood_group text)
+RETURNS integer AS $$
+    SELECT count(*)::integer
+    FROM public.blood_units
+    WHERE hospital_id = p_hospital_id
+      AND blood_group = p_blood_group
+      AND component IN ('red_cells', 'whole_blood')
+      AND status = 'available'
+      AND expires_at > now();
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ===============================================================
+-- 4. DONOR CALL-OUT
+-- ===============================================================
+-- Notifies available donors past their cooldown whose group can give to
+-- the request's. Donors and hospitals with coordinates are matched within
+-- p_radius_km; the rest fall back to matching the hospital's city.
+CREATE OR REPLACE FUNCTION public.notify_low_stock_donors(p_request_id uuid, p_radius_km double precision DEFAULT 25)
+RETURNS integer AS $$
+DECLARE
+    v_request public.requests;
+    v_hospital public.hospitals;
+    v_count integer;
+BEGIN
+    SELECT * INTO v_request FROM public.requests WHERE id = p_request_id;
+    SELECT * INTO v_hospital FROM public.hospitals WHERE id = v_request.hospital_id;
+
+    INSERT INTO public.notifications (user_id, user_type, title, message, type, data)
+    SELECT d.id, 'donor',
+           format('%s blood is running low', v_request.blood_group),
+           format('%s is short of %s blood and needs %s unit(s). Your group can help; can you donate?',
+                  v_hospital.name, v_request.blood_group, v_request.units_required),
+           'request',
+           jsonb_build_object('request_id', v_request.id, 'source', 'low_stock')
+    FROM public.donors d
+    WHERE d.is_available
+      AND (d.next_eligible_date IS NULL OR d.next_eligible_date <= now())
+      AND d.blood_group = ANY (public.compatible_donor_groups(v_request.blood_group, v_request.request_type))
+      AND CASE
+          WHEN d.latitude IS NOT NULL AND d.longitude IS NOT NULL
+               AND v_hospital.latitude IS NOT NULL AND v_hospital.longitude IS NOT NULL
+          THEN 2 * 6371 * asin(sqrt(
+                   power(sin(radians(d.latitude - v_hospital.latitude) / 2), 2)
+                   + cos(radians(v_hospital.latitude)) * cos(radians(d.latitude))
+                     * power(sin(radians(d.longitude - v_hospital.longitude) / 2), 2)
+               )) <= p_radius_km
+          ELSE v_hospital.city IS NULL OR d.location ILIKE '%' || v_hospital.city || '%'
+      END;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 5. THRESHOLD CHECK
+-- ===============================================================
+-- Opens a restock request when the group is below its minimum and none is
+-- open yet, and returns its id; returns NULL otherwise. An empty shelf is
+-- Critical, anything else High. Only reached through the triggers below,
+-- which fire for whoever changed the bags, so it checks no permissions.
+CREATE OR REPLACE FUNCTION public.check_stock_threshold(p_hospital_id uuid, p_blood_group text)
+RETURNS uuid AS $$
+DECLARE
+    v_threshold public.stock_thresholds;
+    v_stock integer;
+    v_request_id uuid;
+    v_notified integer;
+BEGIN
+    SELECT * INTO v_threshold
+    FROM public.stock_thresholds
+    WHERE hospital_id = p_hospital_id AND blood_group = p_blood_group;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_stock := public.blood_stock_level(p_hospital_id, p_blood_group);
+    IF v_stock >= v_threshold.min_units OR EXISTS (
+        SELECT 1 FROM public.requests
+        WHERE hospital_id = p_hospital_id
+          AND blood_group = p_blood_group
+          AND source = 'low_stock'
+          AND status IN ('pending', 'accepted')
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM set_config('pulseconnect.status_reason',
+        format('Stock fell to %s unit(s), below the minimum of %s', v_stock, v_threshold.min_units), true);
+
+    INSERT INTO public.requests (hospital_id, request_type, blood_group, units_required, emergency_level, source, notes)
+    VALUES (
+        p_hospital_id, 'blood', p_blood_group, v_threshold.target_units - v_stock,
+        CASE WHEN v_stock = 0 THEN 'Critical' ELSE 'High' END,
+        'low_stock',
+        format('Automatic restock: %s unit(s) in stock against a minimum of %s, target %s.', v_stock, v_threshold.min_units, v_threshold.target_units)
+    )
+    ON CONFLICT (hospital_id, blood_group) WHERE source = 'low_stock' AND status IN ('pending', 'accepted') DO NOTHING
+    RETURNING id INTO v_request_id;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    IF v_request_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_notified := public.notify_low_stock_donors(v_request_id);
+
+    INSERT INTO public.notifications (user_id, user_type, title, message, type, data)
+    VALUES (p_hospital_id, 'hospital', format('%s stock below minimum', p_blood_group),
+            format('%s unit(s) of %s left against a minimum of %s. A restock request for %s unit(s) was opened and %s donor(s) notified.',
+                   v_stock, p_blood_group, v_threshold.min_units, v_threshold.target_units - v_stock, v_notified),
+            'request', jsonb_build_object('request_id', v_request_id, 'source', 'low_stock'));
+
+    RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_low_stock_donors(uuid, double precision) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_stock_threshold(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- ===============================================================
+-- 6. TRIGGERS
+-- ===============================================================
+-- Row triggers fire after the whole statement has run, so an issue or
+-- expiry run touching many bags is checked against the final count.
+CREATE OR REPLACE FUNCTION public.check_blood_unit_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'available' THEN
+        PERFORM public.check_stock_threshold(OLD.hospital_id, OLD.blood_group);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_blood_units_stock ON public.blood_units;
+CREATE TRIGGER check_blood_units_stock
+    AFTER UPDATE OF status, hospital_id OR DELETE ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.check_blood_unit_stock();
+
+-- Raising a minimum above the current stock counts as a drop too
+CREATE OR REPLACE FUNCTION public.check_threshold_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.check_stock_threshold(NEW.hospital_id, NEW.blood_group);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_stock_thresholds_stock ON public.stock_thresholds;
+CREATE TRIGGER check_stock_thresholds_stock
+    AFTER INSERT OR UPDATE OF min_units, target_units ON public.stock_thresholds
+    FOR EACH ROW EXECUTE FUNCTION public.check_threshold_stock();
+
+-- ===============================================================
+-- 7. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+ALTER TABLE public.stock_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stock_thresholds_select_hospital" ON public.stock_thresholds FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "stock_thresholds_insert_hospital" ON public.stock_thresholds FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "stock_thresholds_update_hospital" ON public.stock_thresholds FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "stock_thresholds_delete_hospital" ON public.stock_thresholds FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
@@ -0,0 +1,413 @@
+-- ===============================================================
+-- PulseConnect: cold-chain temperature monitoring
+-- ===============================================================
+--
+-- Refrigerators, freezers and platelet incubators are storage_units of a
+-- hospital, and bags record which one they are kept in. Temperature
+-- readings arrive either from staff uploading a logger's CSV export
+-- (public.record_temperature_readings()) or straight from a device over
+-- HTTP:
+--
+--   POST /rest/v1/rpc/ingest_temperature_readings
+--   apikey: <anon key>
+--   {"p_device_key": "<key>", "p_readings": [{"recorded_at": "2025-02-05T10:00:00Z", "temperature_c": 4.1}]}
+--
+-- Each storage unit has its own device key, shown once when it is issued
+-- by public.rotate_storage_unit_key(); only its hash is kept.
+--
+-- Every reading is checked against the allowed range of each component
+-- held in the unit. A reading outside a component's range opens an
+-- excursion and quarantines that component's bags in the unit; the next
+-- reading back in range closes it. Quarantined bags stay out of stock
+-- until staff release or discard them.
+
+-- ===============================================================
+-- 1. STORAGE UNITS
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.storage_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  hospital_id uuid NOT NULL,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  kind text NOT NULL CHECK (kind IN ('refrigerator', 'freezer', 'platelet_incubator')),
+  location text,
+  device_key_hash text UNIQUE,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT storage_units_hospital_name_key UNIQUE (hospital_id, name)
+);
+
+ALTER TABLE public.storage_units
+ADD CONSTRAINT fk_storage_units_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+DROP TRIGGER IF EXISTS update_storage_units_updated_at ON public.storage_units;
+CREATE TRIGGER update_storage_units_updated_at
+    BEFORE UPDATE ON public.storage_units
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- storage_location stays as the free-text shelf or rack within the unit
+ALTER TABLE public.blood_units
+ADD COLUMN IF NOT EXISTS storage_unit_id uuid;
+
+ALTER TABLE public.blood_units
+ADD CONSTRAINT fk_blood_units_storage_unit_id
+FOREIGN KEY (storage_unit_id) REFERENCES public.storage_units(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_blood_units_storage_unit_id ON public.blood_units (storage_unit_id, component)
+    WHERE storage_unit_id IS NOT NULL;
+
+-- A bag can only sit in its own hospital's storage. A bag that moves to
+-- another hospital (a received transfer) leaves its old unit behind.
+CREATE OR REPLACE FUNCTION public.check_blood_unit_storage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.storage_unit_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+        AND NEW.storage_unit_id IS NOT DISTINCT FROM OLD.storage_unit_id THEN
+        NEW.storage_unit_id := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.storage_units WHERE id = NEW.storage_unit_id AND hospital_id = NEW.hospital_id
+    ) THEN
+        RAISE EXCEPTION 'storage unit % does not belong to the bag''s hospital', NEW.storage_unit_id
+            USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_blood_units_storage ON public.blood_units;
+CREATE TRIGGER check_blood_units_storage
+    BEFORE INSERT OR UPDATE OF hospital_id, storage_unit_id ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.check_blood_unit_storage();
+
+-- ===============================================================
+-- 2. QUARANTINE
+-- ===============================================================
+-- Quarantined bags are out of stock but not lost: staff release them back
+-- to available or discard them once the excursion has been reviewed.
+ALTER TABLE public.blood_units DROP CONSTRAINT IF EXISTS blood_units_status_check;
+ALTER TABLE public.blood_units ADD CONSTRAINT blood_units_status_check
+    CHECK (status IN ('available', 'reserved', 'issued', 'expired', 'discarded', 'processed', 'quarantined'));
+
+-- ===============================================================
+-- 3. ALLOWED RANGES
+-- ===============================================================
+-- Keep in sync with COMPONENT_STORAGE_RANGES in src/lib/coldChain.ts.
+CREATE TABLE IF NOT EXISTS public.component_storage_ranges (
+  component text PRIMARY KEY CHECK (component IN ('red_cells', 'whole_blood', 'plasma', 'platelets')),
+  min_temp_c numeric(5,2) NOT NULL,
+  max_temp_c numeric(5,2) NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT component_storage_ranges_min_below_max CHECK (min_temp_c < max_temp_c)
+);
+
+INSERT INTO public.component_storage_ranges (component, min_temp_c, max_temp_c) VALUES
+  ('red_cells', 2, 6),
+  ('whole_blood', 2, 6),
+  ('plasma', -90, -18),
+  ('platelets', 20, 24)
+ON CONFLICT (component) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_component_storage_ranges_updated_at ON public.component_storage_ranges;
+CREATE TRIGGER update_component_storage_ranges_updated_at
+    BEFORE UPDATE ON public.component_storage_ranges
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===============================================================
+-- 4. READINGS AND EXCURSIONS
+-- ===============================================================
+CREATE TABLE IF NOT EXISTS public.temperature_readings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_unit_id uuid NOT NULL,
+  recorded_at timestamptz NOT NULL,
+  temperature_c numeric(5,2) NOT NULL CHECK (temperature_c BETWEEN -100 AND 100),
+  source text NOT NULL CHECK (source IN ('csv', 'device', 'manual')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT temperature_readings_unit_recorded_at_key UNIQUE (storage_unit_id, recorded_at)
+);
+
+ALTER TABLE public.temperature_readings
+ADD CONSTRAINT fk_temperature_readings_storage_unit_id
+FOREIGN KEY (storage_unit_id) REFERENCES public.storage_units(id) ON DELETE CASCADE;
+
+CREATE TABLE IF NOT EXISTS public.temperature_excursions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_unit_id uuid NOT NULL,
+  component text NOT NULL CHECK (component IN ('red_cells', 'whole_blood', 'plasma', 'platelets')),
+  min_temp_c numeric(5,2) NOT NULL,
+  max_temp_c numeric(5,2) NOT NULL,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  lowest_temp_c numeric(5,2) NOT NULL,
+  highest_temp_c numeric(5,2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT temperature_excursions_ends_after_start CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+ALTER TABLE public.temperature_excursions
+ADD CONSTRAINT fk_temperature_excursions_storage_unit_id
+FOREIGN KEY (storage_unit_id) REFERENCES public.storage_units(id) ON DELETE CASCADE;
+
+-- One open excursion per unit and component
+CREATE UNIQUE INDEX IF NOT EXISTS idx_temperature_excursions_open ON public.temperature_excursions (storage_unit_id, component)
+    WHERE ended_at IS NULL;
+
+DROP TRIGGER IF EXISTS update_temperature_excursions_updated_at ON public.temperature_excursions;
+CREATE TRIGGER update_temperature_excursions_updated_at
+    BEFORE UPDATE ON public.temperature_excursions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The bags each excursion quarantined
+CREATE TABLE IF NOT EXISTS public.temperature_excursion_units (
+  excursion_id uuid NOT NULL,
+  blood_unit_id uuid NOT NULL,
+  PRIMARY KEY (excursion_id, blood_unit_id)
+);
+
+ALTER TABLE public.temperature_excursion_units
+ADD CONSTRAINT fk_temperature_excursion_units_excursion_id
+FOREIGN KEY (excursion_id) REFERENCES public.temperature_excursions(id) ON DELETE CASCADE;
+
+ALTER TABLE public.temperature_excursion_units
+ADD CONSTRAINT fk_temperature_excursion_units_blood_unit_id
+FOREIGN KEY (blood_unit_id) REFERENCES public.blood_units(id) ON DELETE CASCADE;
+
+-- ===============================================================
+-- 5. EXCURSION DETECTION
+-- ===============================================================
+-- Runs for every reading. The components checked are the ones with bags
+-- in the unit plus any with an excursion still open, so an excursion
+-- closes even after its bags were discarded. Readings should arrive in
+-- time order; the ingest functions below sort each batch.
+CREATE OR REPLACE FUNCTION public.detect_temperature_excursion()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_range public.component_storage_ranges;
+    v_excursion_id uuid;
+BEGIN
+    FOR v_range IN
+        SELECT r.*
+        FROM public.component_storage_ranges r
+        WHERE r.component IN (
+            SELECT u.component FROM public.blood_units u
+            WHERE u.storage_unit_id = NEW.storage_unit_id AND u.status IN ('available', 'reserved', 'quarantined')
+            UNION
+            SELECT e.component FROM public.temperature_excursions e
+            WHERE e.storage_unit_id = NEW.storage_unit_id AND e.ended_at IS NULL
+        )
+    LOOP
+        SELECT id INTO v_excursion_id
+        FROM public.temperature_excursions
+        WHERE storage_unit_id = NEW.storage_unit_id AND component = v_range.component AND ended_at IS NULL
+        FOR UPDATE;
+
+        IF NEW.temperature_c BETWEEN v_range.min_temp_c AND v_range.max_temp_c THEN
+            IF v_excursion_id IS NOT NULL THEN
+                UPDATE public.temperature_excursions
+                SET ended_at = greatest(NEW.recorded_at, started_at)
+                WHERE id = v_excursion_id;
+            END IF;
+            CONTINUE;
+        END IF;
+
+        IF v_excursion_id IS NULL THEN
+            INSERT INTO public.temperature_excursions
+                (storage_unit_id, component, min_temp_c, max_temp_c, started_at, lowest_temp_c, highest_temp_c)
+            VALUES
+                (NEW.storage_unit_id, v_range.component, v_range.min_temp_c, v_range.max_temp_c,
+                 NEW.recorded_at, NEW.temperature_c, NEW.temperature_c)
+            RETURNING id INTO v_excursion_id;
+        ELSE
+            UPDATE public.temperature_excursions
+            SET lowest_temp_c = least(lowest_temp_c, NEW.temperature_c),
+                highest_temp_c = greatest(highest_temp_c, NEW.temperature_c)
+            WHERE id = v_excursion_id;
+        END IF;
+
+        -- Bags put in during an excursion are caught by the next reading
+        WITH quarantined AS (
+            UPDATE public.blood_units
+            SET status = 'quarantined'
+            WHERE storage_unit_id = NEW.storage_unit_id
+              AND component = v_range.component
+              AND status IN ('available', 'reserved')
+            RETURNING id
+        )
+        INSERT INTO public.temperature_excursion_units (excursion_id, blood_unit_id)
+        SELECT v_excursion_id, id FROM quarantined
+        ON CONFLICT DO NOTHING;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS detect_temperature_readings_excursion ON public.temperature_readings;
+CREATE TRIGGER detect_temperature_readings_excursion
+    AFTER INSERT ON public.temperature_readings
+    FOR EACH ROW EXECUTE FUNCTION public.detect_temperature_excursion();
+
+-- ===============================================================
+-- 6. INGEST
+-- ===============================================================
+-- p_readings is a JSON array of {"recorded_at", "temperature_c"} objects.
+-- Readings already stored for the same time are skipped, so an export can
+-- be uploaded again safely. Returns how many readings were added.
+CREATE OR REPLACE FUNCTION public.insert_temperature_readings(p_storage_unit_id uuid, p_readings jsonb, p_source text)
+RETURNS integer AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    IF p_readings IS NULL OR jsonb_typeof(p_readings) <> 'array' THEN
+        RAISE EXCEPTION 'readings must be a JSON array'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_readings) r
+        WHERE r ->> 'recorded_at' IS NULL OR r ->> 'temperature_c' IS NULL
+    ) THEN
+        RAISE EXCEPTION 'every reading needs recorded_at and temperature_c'
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.temperature_readings (storage_unit_id, recorded_at, temperature_c, source)
+    SELECT p_storage_unit_id, (r ->> 'recorded_at')::timestamptz, (r ->> 'temperature_c')::numeric, p_source
+    FROM jsonb_array_elements(p_readings) r
+    ORDER BY (r ->> 'recorded_at')::timestamptz
+    ON CONFLICT (storage_unit_id, recorded_at) DO NOTHING;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Staff upload, e.g. a logger's CSV export parsed in the app
+CREATE OR REPLACE FUNCTION public.record_temperature_readings(
+    p_storage_unit_id uuid,
+    p_readings jsonb,
+    p_source text DEFAULT 'csv'
+)
+RETURNS integer AS $$
+DECLARE
+    v_hospital_id uuid;
+BEGIN
+    SELECT hospital_id INTO v_hospital_id FROM public.storage_units WHERE id = p_storage_unit_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'storage unit % not found', p_storage_unit_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (public.is_hospital_member(v_hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only staff of the hospital can record its temperatures'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF p_source NOT IN ('csv', 'manual') THEN
+        RAISE EXCEPTION 'readings from staff are csv or manual, not %', p_source
+            USING ERRCODE = '22023';
+    END IF;
+
+    RETURN public.insert_temperature_readings(p_storage_unit_id, p_readings, p_source);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Device upload over HTTP; the key identifies the storage unit
+CREATE OR REPLACE FUNCTION public.ingest_temperature_readings(p_device_key text, p_readings jsonb)
+RETURNS integer AS $$
+DECLARE
+    v_storage_unit_id uuid;
+BEGIN
+    SELECT id INTO v_storage_unit_id
+    FROM public.storage_units
+    WHERE device_key_hash = encode(digest(coalesce(p_device_key, ''), 'sha256'), 'hex')
+      AND is_active;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown or inactive device key'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN public.insert_temperature_readings(v_storage_unit_id, p_readings, 'device');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Issues a new device key for the unit and returns it; the old one stops working
+CREATE OR REPLACE FUNCTION public.rotate_storage_unit_key(p_storage_unit_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_hospital_id uuid;
+    v_key text;
+BEGIN
+    SELECT hospital_id INTO v_hospital_id FROM public.storage_units WHERE id = p_storage_unit_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'storage unit % not found', p_storage_unit_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (public.is_hospital_member(v_hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only staff of the hospital can issue device keys for its storage'
+            USING ERRCODE = '42501';
+    END IF;
+
+    v_key := encode(gen_random_bytes(24), 'hex');
+    UPDATE public.storage_units
+    SET device_key_hash = encode(digest(v_key, 'sha256'), 'hex')
+    WHERE id = p_storage_unit_id;
+
+    RETURN v_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION public.insert_temperature_readings(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_temperature_readings(uuid, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_temperature_readings(uuid, jsonb, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.ingest_temperature_readings(text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.ingest_temperature_readings(text, jsonb) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rotate_storage_unit_key(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_storage_unit_key(uuid) TO authenticated;
+
+-- ===============================================================
+-- 7. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Readings and excursions are written only by the functions above.
+ALTER TABLE public.storage_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.component_storage_ranges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.temperature_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.temperature_excursions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.temperature_excursion_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "storage_units_select_hospital" ON public.storage_units FOR SELECT USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "storage_units_insert_hospital" ON public.storage_units FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "storage_units_update_hospital" ON public.storage_units FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+CREATE POLICY "component_storage_ranges_select_all" ON public.component_storage_ranges FOR SELECT USING (true);
+CREATE POLICY "component_storage_ranges_update_admin" ON public.component_storage_ranges FOR UPDATE USING (public.is_admin());
+
+CREATE POLICY "temperature_readings_select_hospital" ON public.temperature_readings FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.storage_units s WHERE s.id = storage_unit_id AND public.is_hospital_member(s.hospital_id)
+    )
+);
+
+CREATE POLICY "temperature_excursions_select_hospital" ON public.temperature_excursions FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.storage_units s WHERE s.id = storage_unit_id AND public.is_hospital_member(s.hospital_id)
+    )
+);
+
+CREATE POLICY "temperature_excursion_units_select_hospital" ON public.temperature_excursion_units FOR SELECT USING (
+    public.is_admin() OR EXISTS (
+        SELECT 1 FROM public.temperature_excursions e
+        JOIN public.storage_units s ON s.id = e.storage_unit_id
+        WHERE e.id = excursion_id AND public.is_hospital_member(s.hospital_id)
+    )
+);
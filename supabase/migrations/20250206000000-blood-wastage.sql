@@ -0,0 +1,106 @@
+-- ===============================================================
+-- PulseConnect: discard reasons and wastage records
+-- ===============================================================
+--
+-- A bag is wasted when it expires in stock or is discarded. Expired bags
+-- are marked by public.expire_blood_units() (hourly, through pg_cron),
+-- which now also ages out the superseded blood_inventory and
+-- plasma_inventory rows. Discarding a bag needs one of the reasons below;
+-- when and by whom it was discarded is stamped on the bag, so the bags
+-- themselves are the wastage record reported on the hospital dashboard.
+--
+--   expired                a bag past its expiry date
+--   broken_bag             leaking, torn or clotted
+--   reactive_test          a reactive infectious disease screen
+--   temperature_excursion  kept outside its storage range
+--   other                  anything else; say what in the notes
+
+-- ===============================================================
+-- 1. DISCARD COLUMNS
+-- ===============================================================
+ALTER TABLE public.blood_units
+  ADD COLUMN IF NOT EXISTS discard_reason text
+    CHECK (discard_reason IN ('expired', 'broken_bag', 'reactive_test', 'temperature_excursion', 'other')),
+  ADD COLUMN IF NOT EXISTS discard_notes text,
+  ADD COLUMN IF NOT EXISTS discarded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS discarded_by uuid;
+
+-- Bags discarded before reasons existed: those already past expiry were
+-- almost certainly thrown away for it
+UPDATE public.blood_units
+SET discarded_at = updated_at,
+    discard_reason = CASE WHEN expires_at <= updated_at THEN 'expired' ELSE 'other' END
+WHERE status = 'discarded' AND discarded_at IS NULL;
+
+ALTER TABLE public.blood_units
+  ADD CONSTRAINT blood_units_discard_reason_when_discarded CHECK ((status = 'discarded') = (discard_reason IS NOT NULL)),
+  ADD CONSTRAINT blood_units_discarded_at_when_discarded CHECK ((status = 'discarded') = (discarded_at IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_blood_units_discarded_at ON public.blood_units (hospital_id, discarded_at)
+    WHERE status = 'discarded';
+
+-- ===============================================================
+-- 2. DISCARD STAMP
+-- ===============================================================
+-- Expired and quarantined bags are discarded for the reason they left
+-- stock unless staff give another; any other bag needs a reason.
+CREATE OR REPLACE FUNCTION public.stamp_blood_unit_discard()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status <> 'discarded' OR OLD.status = 'discarded' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.discard_reason IS NULL THEN
+        NEW.discard_reason := CASE OLD.status
+            WHEN 'expired' THEN 'expired'
+            WHEN 'quarantined' THEN 'temperature_excursion'
+        END;
+    END IF;
+
+    IF NEW.discard_reason IS NULL THEN
+        RAISE EXCEPTION 'a reason is needed to discard bag %', OLD.bag_number
+            USING ERRCODE = '23514';
+    END IF;
+
+    NEW.discarded_at := now();
+    NEW.discarded_by := auth.uid();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_blood_units_discard ON public.blood_units;
+CREATE TRIGGER stamp_blood_units_discard
+    BEFORE UPDATE OF status ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_blood_unit_discard();
+
+-- ===============================================================
+-- 3. EXPIRY
+-- ===============================================================
+-- Marks bags past their expiry as expired; returns how many were. The
+-- aggregate inventory rows are aged out too, so nothing still reading
+-- them counts stock that has gone off.
+CREATE OR REPLACE FUNCTION public.expire_blood_units()
+RETURNS integer AS $$
+DECLARE
+    v_count integer;
+BEGIN
+    UPDATE public.blood_units
+    SET status = 'expired'
+    WHERE status IN ('available', 'reserved') AND expires_at <= now();
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    UPDATE public.blood_inventory
+    SET status = 'expired'
+    WHERE status IN ('available', 'reserved') AND expiry_date <= now();
+
+    UPDATE public.plasma_inventory
+    SET status = 'expired'
+    WHERE status IN ('available', 'reserved') AND expiry_date <= now();
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_blood_units() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,230 @@
+-- ===============================================================
+-- PulseConnect: bag movements, safe concurrent edits and live stock
+-- ===============================================================
+--
+-- Every change to a bag's status, hospital or storage is recorded in
+-- blood_unit_movements with who made it and why, whichever path made it:
+-- staff edits, issues, separations, transfers, quarantine and expiry.
+--
+-- Staff edit bags through public.adjust_blood_unit(), which needs a
+-- reason and the version of the bag the edit was based on. Each update
+-- bumps blood_units.version, so an edit made from a stale screen is
+-- rejected with SQLSTATE 40001 instead of overwriting someone else's.
+--
+-- blood_units is published to Supabase Realtime so open dashboards see
+-- changes as they happen.
+
+-- ===============================================================
+-- 1. VERSION
+-- ===============================================================
+ALTER TABLE public.blood_units
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_blood_unit_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.version := OLD.version + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_blood_units_version ON public.blood_units;
+CREATE TRIGGER bump_blood_units_version
+    BEFORE UPDATE ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.bump_blood_unit_version();
+
+-- ===============================================================
+-- 2. MOVEMENTS TABLE
+-- ===============================================================
+-- changed_by is null when the change came from a scheduled job or a
+-- device rather than a signed-in user. Locations are stored as shown at
+-- the time ("<storage unit> · <shelf>"), so renaming a unit later does
+-- not rewrite history.
+CREATE TABLE IF NOT EXISTS public.blood_unit_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blood_unit_id uuid NOT NULL,
+  hospital_id uuid NOT NULL,
+  from_hospital_id uuid,
+  from_status text,
+  to_status text NOT NULL,
+  from_location text,
+  to_location text,
+  changed_by uuid,
+  actor_role text NOT NULL CHECK (actor_role IN ('hospital', 'admin', 'system')),
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+ALTER TABLE public.blood_unit_movements
+ADD CONSTRAINT fk_blood_unit_movements_blood_unit_id
+FOREIGN KEY (blood_unit_id) REFERENCES public.blood_units(id) ON DELETE CASCADE;
+
+ALTER TABLE public.blood_unit_movements
+ADD CONSTRAINT fk_blood_unit_movements_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_blood_unit_movements_blood_unit_id ON public.blood_unit_movements (blood_unit_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_blood_unit_movements_hospital_id ON public.blood_unit_movements (hospital_id, created_at);
+
+-- ===============================================================
+-- 3. MOVEMENT RECORDING
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.blood_unit_location(p_storage_unit_id uuid, p_storage_location text)
+RETURNS text AS $$
+    SELECT nullif(concat_ws(' · ', (SELECT name FROM public.storage_units WHERE id = p_storage_unit_id), p_storage_location), '');
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The reason comes from adjust_blood_unit() through the transaction-local
+-- setting transition_request() uses. SECURITY DEFINER because nobody may
+-- insert movements directly.
+CREATE OR REPLACE FUNCTION public.record_blood_unit_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.blood_unit_movements (
+        blood_unit_id, hospital_id, from_hospital_id, from_status, to_status,
+        from_location, to_location, changed_by, actor_role, reason
+    )
+    VALUES (
+        NEW.id,
+        NEW.hospital_id,
+        CASE WHEN TG_OP = 'UPDATE' AND OLD.hospital_id IS DISTINCT FROM NEW.hospital_id THEN OLD.hospital_id END,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        CASE WHEN TG_OP = 'UPDATE' THEN public.blood_unit_location(OLD.storage_unit_id, OLD.storage_location) END,
+        public.blood_unit_location(NEW.storage_unit_id, NEW.storage_location),
+        auth.uid(),
+        CASE
+            WHEN auth.uid() IS NULL THEN 'system'
+            WHEN public.is_admin() THEN 'admin'
+            ELSE 'hospital'
+        END,
+        coalesce(nullif(current_setting('pulseconnect.status_reason', true), ''),
+                 CASE WHEN TG_OP = 'INSERT' THEN 'Bag received' END)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_blood_units_movement_insert ON public.blood_units;
+DROP TRIGGER IF EXISTS record_blood_units_movement_update ON public.blood_units;
+
+CREATE TRIGGER record_blood_units_movement_insert
+    AFTER INSERT ON public.blood_units
+    FOR EACH ROW EXECUTE FUNCTION public.record_blood_unit_movement();
+
+CREATE TRIGGER record_blood_units_movement_update
+    AFTER UPDATE OF status, hospital_id, storage_unit_id, storage_location ON public.blood_units
+    FOR EACH ROW WHEN (
+        OLD.status IS DISTINCT FROM NEW.status
+        OR OLD.hospital_id IS DISTINCT FROM NEW.hospital_id
+        OR OLD.storage_unit_id IS DISTINCT FROM NEW.storage_unit_id
+        OR OLD.storage_location IS DISTINCT FROM NEW.storage_location
+    )
+    EXECUTE FUNCTION public.record_blood_unit_movement();
+
+-- ===============================================================
+-- 4. ADJUST RPC
+-- ===============================================================
+-- Applies the keys present in p_changes (status, storage_unit_id,
+-- storage_location, discard_reason, discard_notes) when the bag is still
+-- at p_expected_version. Runs as the caller so the blood_units policies
+-- decide who may make the change; bags leave stock as issued or processed
+-- only through issue_blood_units() and separate_donation().
+CREATE OR REPLACE FUNCTION public.adjust_blood_unit(
+    p_blood_unit_id uuid,
+    p_expected_version integer,
+    p_changes jsonb,
+    p_reason text
+)
+RETURNS public.blood_units AS $$
+DECLARE
+    v_unit public.blood_units;
+    v_rows integer;
+BEGIN
+    IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+        RAISE EXCEPTION 'a reason is needed to adjust a bag'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'object'
+       OR EXISTS (
+           SELECT 1 FROM jsonb_object_keys(p_changes) AS k
+           WHERE k NOT IN ('status', 'storage_unit_id', 'storage_location', 'discard_reason', 'discard_notes')
+       ) THEN
+        RAISE EXCEPTION 'changes must be an object of status, storage_unit_id, storage_location, discard_reason and discard_notes'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_changes->>'status' IN ('issued', 'processed') THEN
+        RAISE EXCEPTION 'bags are % only by issuing or separating them', p_changes->>'status'
+            USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM set_config('pulseconnect.status_reason', btrim(p_reason), true);
+
+    UPDATE public.blood_units
+    SET status = CASE WHEN p_changes ? 'status' THEN p_changes->>'status' ELSE status END,
+        storage_unit_id = CASE WHEN p_changes ? 'storage_unit_id' THEN (p_changes->>'storage_unit_id')::uuid ELSE storage_unit_id END,
+        storage_location = CASE WHEN p_changes ? 'storage_location' THEN nullif(btrim(p_changes->>'storage_location'), '') ELSE storage_location END,
+        discard_reason = CASE WHEN p_changes ? 'discard_reason' THEN p_changes->>'discard_reason' ELSE discard_reason END,
+        discard_notes = CASE WHEN p_changes ? 'discard_notes' THEN nullif(btrim(p_changes->>'discard_notes'), '') ELSE discard_notes END
+    WHERE id = p_blood_unit_id AND version = p_expected_version
+    RETURNING * INTO v_unit;
+    -- PERFORM resets FOUND, so keep the update's row count first
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    IF v_rows = 0 THEN
+        SELECT * INTO v_unit FROM public.blood_units WHERE id = p_blood_unit_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'bag % not found or not editable', p_blood_unit_id
+                USING ERRCODE = 'P0002';
+        END IF;
+        RAISE EXCEPTION 'bag % was changed by someone else since you opened it; reload and try again', v_unit.bag_number
+            USING ERRCODE = '40001';
+    END IF;
+
+    RETURN v_unit;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_blood_unit(uuid, integer, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.adjust_blood_unit(uuid, integer, jsonb, text) TO authenticated;
+
+-- ===============================================================
+-- 5. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Readable by the hospital the bag was at; written only by the trigger.
+ALTER TABLE public.blood_unit_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "blood_unit_movements_select_hospital" ON public.blood_unit_movements FOR SELECT USING (
+    public.is_hospital_member(hospital_id)
+    OR (from_hospital_id IS NOT NULL AND public.is_hospital_member(from_hospital_id))
+    OR public.is_admin()
+);
+
+-- ===============================================================
+-- 6. BACKFILL
+-- ===============================================================
+INSERT INTO public.blood_unit_movements (blood_unit_id, hospital_id, to_status, to_location, actor_role, reason, created_at)
+SELECT u.id, u.hospital_id, u.status, public.blood_unit_location(u.storage_unit_id, u.storage_location),
+       'system', 'Recorded when movement history was introduced', u.updated_at
+FROM public.blood_units u
+WHERE NOT EXISTS (SELECT 1 FROM public.blood_unit_movements m WHERE m.blood_unit_id = u.id);
+
+-- ===============================================================
+-- 7. REALTIME
+-- ===============================================================
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'blood_units'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.blood_units;
+    END IF;
+END;
+$$;
@@ -0,0 +1,293 @@
+-- ===============================================================
+-- PulseConnect: capacity-aware appointment slots
+-- ===============================================================
+--
+-- Each hospital sets how many donation chairs it has, how long a slot
+-- is and when it is open on each day of the week, in its own time zone.
+-- public.list_appointment_slots() turns that into the slots of a day and
+-- how many chairs are booked in each; public.book_appointment() is the
+-- only way to book one. It takes the hospital's schedule row lock, so two
+-- people reaching for the last chair cannot both get it, and it gives
+-- every appointment a chair number.
+--
+-- Appointments booked before this migration keep their time and count
+-- against the chairs, but have no chair number.
+
+-- ===============================================================
+-- 1. SCHEDULES TABLE
+-- ===============================================================
+-- Hospitals without a row do not take bookings.
+CREATE TABLE IF NOT EXISTS public.donation_schedules (
+  hospital_id uuid PRIMARY KEY,
+  chairs integer NOT NULL CHECK (chairs BETWEEN 1 AND 50),
+  slot_minutes integer NOT NULL DEFAULT 30 CHECK (slot_minutes BETWEEN 10 AND 240),
+  timezone text NOT NULL DEFAULT 'Asia/Kolkata',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.donation_schedules
+ADD CONSTRAINT fk_donation_schedules_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+-- Rejects names Postgres does not know, which would otherwise only fail
+-- when the first slot is listed
+CREATE OR REPLACE FUNCTION public.check_donation_schedule_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'unknown time zone %', NEW.timezone
+            USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_donation_schedules_timezone ON public.donation_schedules;
+CREATE TRIGGER check_donation_schedules_timezone
+    BEFORE INSERT OR UPDATE OF timezone ON public.donation_schedules
+    FOR EACH ROW EXECUTE FUNCTION public.check_donation_schedule_timezone();
+
+DROP TRIGGER IF EXISTS update_donation_schedules_updated_at ON public.donation_schedules;
+CREATE TRIGGER update_donation_schedules_updated_at
+    BEFORE UPDATE ON public.donation_schedules
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===============================================================
+-- 2. OPENING HOURS TABLE
+-- ===============================================================
+-- One window per weekday (0 = Sunday, as extract(dow) counts), in the
+-- schedule's time zone. Days without a row are closed.
+CREATE TABLE IF NOT EXISTS public.donation_opening_hours (
+  hospital_id uuid NOT NULL,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  opens_at time NOT NULL,
+  closes_at time NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (hospital_id, weekday),
+  CONSTRAINT donation_opening_hours_closes_after_opening CHECK (closes_at > opens_at)
+);
+
+ALTER TABLE public.donation_opening_hours
+ADD CONSTRAINT fk_donation_opening_hours_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.donation_schedules(hospital_id) ON DELETE CASCADE;
+
+DROP TRIGGER IF EXISTS update_donation_opening_hours_updated_at ON public.donation_opening_hours;
+CREATE TRIGGER update_donation_opening_hours_updated_at
+    BEFORE UPDATE ON public.donation_opening_hours
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===============================================================
+-- 3. APPOINTMENT SLOTS
+-- ===============================================================
+-- appointment_date stays the start of the appointment for everything that
+-- already reads it; slot_start and slot_end are what capacity is judged on.
+ALTER TABLE public.appointments
+ADD COLUMN IF NOT EXISTS slot_start timestamptz,
+ADD COLUMN IF NOT EXISTS slot_end timestamptz,
+ADD COLUMN IF NOT EXISTS chair smallint CHECK (chair > 0);
+
+UPDATE public.appointments
+SET slot_start = appointment_date,
+    slot_end = appointment_date + interval '30 minutes'
+WHERE slot_start IS NULL;
+
+ALTER TABLE public.appointments
+ALTER COLUMN slot_start SET NOT NULL,
+ALTER COLUMN slot_end SET NOT NULL,
+ADD CONSTRAINT appointments_slot_order CHECK (slot_end > slot_start);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_hospital_slot ON public.appointments (hospital_id, slot_start);
+
+-- Last line of defence behind book_appointment(): a chair holds one
+-- donor per slot, and a donor sits in one chair at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_open_chair ON public.appointments (hospital_id, slot_start, chair)
+    WHERE status IN ('scheduled', 'confirmed') AND chair IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_open_donor_slot ON public.appointments (donor_id, slot_start)
+    WHERE status IN ('scheduled', 'confirmed');
+
+-- ===============================================================
+-- 4. SLOT LISTING
+-- ===============================================================
+-- The slots of p_days days from p_from, with the chairs booked in each.
+-- Counts only, so donors can see what is free without seeing who booked.
+CREATE OR REPLACE FUNCTION public.list_appointment_slots(p_hospital_id uuid, p_from date, p_days integer DEFAULT 1)
+RETURNS TABLE (slot_start timestamptz, slot_end timestamptz, chairs integer, booked integer) AS $$
+BEGIN
+    IF p_days IS NULL OR p_days NOT BETWEEN 1 AND 62 THEN
+        RAISE EXCEPTION 'slots can be listed for 1 to 62 days at a time'
+            USING ERRCODE = '22023';
+    END IF;
+
+    RETURN QUERY
+    SELECT s.slot_start,
+           s.slot_start + make_interval(mins => sch.slot_minutes),
+           sch.chairs,
+           (SELECT count(*)::integer FROM public.appointments a
+            WHERE a.hospital_id = p_hospital_id
+              AND a.status IN ('scheduled', 'confirmed')
+              AND a.slot_start < s.slot_start + make_interval(mins => sch.slot_minutes)
+              AND a.slot_end > s.slot_start)
+    FROM public.donation_schedules sch
+    CROSS JOIN generate_series(p_from::timestamp, (p_from + (p_days - 1))::timestamp, interval '1 day') AS d(day)
+    JOIN public.donation_opening_hours h
+      ON h.hospital_id = sch.hospital_id AND h.weekday = extract(dow FROM d.day)
+    CROSS JOIN LATERAL generate_series(
+        (d.day::date + h.opens_at) AT TIME ZONE sch.timezone,
+        ((d.day::date + h.closes_at) AT TIME ZONE sch.timezone) - make_interval(mins => sch.slot_minutes),
+        make_interval(mins => sch.slot_minutes)
+    ) AS s(slot_start)
+    WHERE sch.hospital_id = p_hospital_id
+    ORDER BY s.slot_start;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.list_appointment_slots(uuid, date, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_appointment_slots(uuid, date, integer) TO authenticated;
+
+-- ===============================================================
+-- 5. BOOKING RPC
+-- ===============================================================
+-- Donors book for themselves; hospital staff pass p_donor_id. The slot
+-- must be one list_appointment_slots() offers and must not have started.
+-- A full slot, or a donor already booked at that time, raises 23P01.
+CREATE OR REPLACE FUNCTION public.book_appointment(
+    p_hospital_id uuid,
+    p_slot_start timestamptz,
+    p_donor_id uuid DEFAULT NULL,
+    p_request_id uuid DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS public.appointments AS $$
+DECLARE
+    v_donor_id uuid := coalesce(p_donor_id, auth.uid());
+    v_schedule public.donation_schedules;
+    v_slot record;
+    v_chair integer;
+    v_appointment public.appointments;
+BEGIN
+    IF v_donor_id IS NULL
+       OR NOT (v_donor_id = auth.uid() OR public.is_hospital_member(p_hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'not allowed to book appointments for donor % at hospital %', v_donor_id, p_hospital_id
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- Serialises bookings per hospital until this transaction ends
+    SELECT * INTO v_schedule FROM public.donation_schedules WHERE hospital_id = p_hospital_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'hospital % does not take bookings', p_hospital_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_slot_start <= now() THEN
+        RAISE EXCEPTION 'the slot at % has already started', p_slot_start
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_slot
+    FROM public.list_appointment_slots(p_hospital_id, (p_slot_start AT TIME ZONE v_schedule.timezone)::date, 1) s
+    WHERE s.slot_start = p_slot_start;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'no slot starts at %', p_slot_start
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.donor_id = v_donor_id
+          AND a.status IN ('scheduled', 'confirmed')
+          AND a.slot_start < v_slot.slot_end
+          AND a.slot_end > v_slot.slot_start
+    ) THEN
+        RAISE EXCEPTION 'the donor already has an appointment at that time'
+            USING ERRCODE = '23P01';
+    END IF;
+
+    SELECT min(c) INTO v_chair
+    FROM generate_series(1, v_slot.chairs) AS c
+    WHERE v_slot.booked < v_slot.chairs
+      AND c NOT IN (
+          SELECT a.chair FROM public.appointments a
+          WHERE a.hospital_id = p_hospital_id
+            AND a.status IN ('scheduled', 'confirmed')
+            AND a.chair IS NOT NULL
+            AND a.slot_start < v_slot.slot_end
+            AND a.slot_end > v_slot.slot_start
+      );
+
+    IF v_chair IS NULL THEN
+        RAISE EXCEPTION 'every chair is booked at %; pick another slot', to_char(p_slot_start AT TIME ZONE v_schedule.timezone, 'HH24:MI')
+            USING ERRCODE = '23P01';
+    END IF;
+
+    INSERT INTO public.appointments (
+        hospital_id, donor_id, request_id, appointment_date, appointment_time,
+        slot_start, slot_end, chair, status, notes
+    )
+    VALUES (
+        p_hospital_id, v_donor_id, p_request_id, v_slot.slot_start,
+        to_char(v_slot.slot_start AT TIME ZONE v_schedule.timezone, 'HH24:MI'),
+        v_slot.slot_start, v_slot.slot_end, v_chair, 'scheduled', nullif(btrim(p_notes), '')
+    )
+    RETURNING * INTO v_appointment;
+
+    RETURN v_appointment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.book_appointment(uuid, timestamptz, uuid, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.book_appointment(uuid, timestamptz, uuid, uuid, text) TO authenticated;
+
+-- ===============================================================
+-- 6. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Schedules are public like the hospitals themselves; only the hospital
+-- edits its own.
+ALTER TABLE public.donation_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.donation_opening_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "donation_schedules_select_all" ON public.donation_schedules FOR SELECT USING (true);
+CREATE POLICY "donation_schedules_insert_hospital" ON public.donation_schedules FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "donation_schedules_update_hospital" ON public.donation_schedules FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "donation_schedules_delete_hospital" ON public.donation_schedules FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+CREATE POLICY "donation_opening_hours_select_all" ON public.donation_opening_hours FOR SELECT USING (true);
+CREATE POLICY "donation_opening_hours_insert_hospital" ON public.donation_opening_hours FOR INSERT WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "donation_opening_hours_update_hospital" ON public.donation_opening_hours FOR UPDATE USING (public.is_hospital_member(hospital_id) OR public.is_admin()) WITH CHECK (public.is_hospital_member(hospital_id) OR public.is_admin());
+CREATE POLICY "donation_opening_hours_delete_hospital" ON public.donation_opening_hours FOR DELETE USING (public.is_hospital_member(hospital_id) OR public.is_admin());
+
+-- Appointments are now only created through book_appointment()
+DROP POLICY IF EXISTS "appointments_insert_hospital" ON public.appointments;
+DROP POLICY IF EXISTS "appointments_insert_donor" ON public.appointments;
+
+-- appointments_update_participant still lets donors edit their own rows,
+-- which would skip the chair count. Only staff move an appointment, free
+-- its chair or reopen it once cancelled or done; book_appointment() is the
+-- donor's way in.
+CREATE OR REPLACE FUNCTION public.guard_appointment_slot()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_member(OLD.hospital_id) OR pg_trigger_depth() > 1 THEN
+        RETURN NEW;
+    END IF;
+
+    IF (NEW.slot_start, NEW.slot_end, NEW.chair, NEW.hospital_id, NEW.donor_id)
+        IS DISTINCT FROM (OLD.slot_start, OLD.slot_end, OLD.chair, OLD.hospital_id, OLD.donor_id) THEN
+        RAISE EXCEPTION 'book another slot instead of moving the appointment'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.status IN ('scheduled', 'confirmed') AND OLD.status NOT IN ('scheduled', 'confirmed') THEN
+        RAISE EXCEPTION 'a % appointment cannot be reopened; book another slot', OLD.status
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_appointments_slot ON public.appointments;
+CREATE TRIGGER guard_appointments_slot
+    BEFORE UPDATE ON public.appointments
+    FOR EACH ROW EXECUTE FUNCTION public.guard_appointment_slot();
@@ -0,0 +1,269 @@
+-- ===============================================================
+-- PulseConnect: iCalendar feeds for appointments
+-- ===============================================================
+--
+-- Every donor and every hospital can issue a private feed URL that
+-- calendar apps subscribe to. The URL carries a random token; only its
+-- hash is stored, so the token is shown once when issued, and issuing a
+-- new one or revoking the feed stops the old URL working.
+--
+-- public.calendar_feed() is called with a GET to
+-- /rest/v1/rpc/calendar_feed?p_token=… and returns the "text/calendar"
+-- domain, which PostgREST serves as a raw iCalendar document rather than
+-- JSON. Appointments keep their UID across reschedules and carry a
+-- SEQUENCE that grows with each change, so subscribed calendars move or
+-- cancel the event instead of adding another.
+--
+-- Times are written in UTC, which every client places correctly; the
+-- hospital's own time zone is named in X-WR-TIMEZONE and in the wording
+-- of each event.
+
+-- ===============================================================
+-- 1. APPOINTMENT REVISIONS
+-- ===============================================================
+ALTER TABLE public.appointments
+ADD COLUMN IF NOT EXISTS ical_sequence integer NOT NULL DEFAULT 0;
+
+-- Bumped whenever a change is one a calendar should show
+CREATE OR REPLACE FUNCTION public.bump_appointment_ical_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.hospital_id IS DISTINCT FROM OLD.hospital_id THEN
+        NEW.ical_sequence := OLD.ical_sequence + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_appointments_ical_sequence ON public.appointments;
+CREATE TRIGGER bump_appointments_ical_sequence
+    BEFORE UPDATE ON public.appointments
+    FOR EACH ROW EXECUTE FUNCTION public.bump_appointment_ical_sequence();
+
+-- ===============================================================
+-- 2. FEEDS TABLE
+-- ===============================================================
+-- One feed per owner. owner_id is a donor id or a hospital id depending
+-- on owner_type, so it has no foreign key. token_hash is null once the
+-- feed is revoked.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  owner_type text NOT NULL CHECK (owner_type IN ('donor', 'hospital')),
+  owner_id uuid NOT NULL,
+  token_hash text UNIQUE,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_type, owner_id),
+  CONSTRAINT calendar_feeds_revoked_without_token CHECK ((token_hash IS NULL) = (revoked_at IS NOT NULL))
+);
+
+DROP TRIGGER IF EXISTS update_calendar_feeds_updated_at ON public.calendar_feeds;
+CREATE TRIGGER update_calendar_feeds_updated_at
+    BEFORE UPDATE ON public.calendar_feeds
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- True when the caller may manage the feed of this donor or hospital
+CREATE OR REPLACE FUNCTION public.can_manage_calendar_feed(p_owner_type text, p_owner_id uuid)
+RETURNS boolean AS $$
+    SELECT public.is_admin()
+        OR (p_owner_type = 'donor' AND p_owner_id = auth.uid())
+        OR (p_owner_type = 'hospital' AND public.is_hospital_member(p_owner_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 3. ISSUING AND REVOKING
+-- ===============================================================
+-- Returns a new token for the owner's feed; any earlier token stops working
+CREATE OR REPLACE FUNCTION public.issue_calendar_feed(p_owner_type text, p_owner_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_token text;
+BEGIN
+    IF p_owner_type IS NULL OR p_owner_type NOT IN ('donor', 'hospital') THEN
+        RAISE EXCEPTION 'calendar feeds belong to a donor or a hospital, not %', coalesce(p_owner_type, 'null')
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF NOT public.can_manage_calendar_feed(p_owner_type, p_owner_id) THEN
+        RAISE EXCEPTION 'only the % can issue its calendar feed', p_owner_type
+            USING ERRCODE = '42501';
+    END IF;
+
+    v_token := encode(gen_random_bytes(24), 'hex');
+    INSERT INTO public.calendar_feeds (owner_type, owner_id, token_hash, issued_at, revoked_at)
+    VALUES (p_owner_type, p_owner_id, encode(digest(v_token, 'sha256'), 'hex'), now(), NULL)
+    ON CONFLICT (owner_type, owner_id) DO UPDATE
+    SET token_hash = EXCLUDED.token_hash,
+        issued_at = EXCLUDED.issued_at,
+        revoked_at = NULL;
+
+    RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Stops the owner's feed URL working; a no-op when there is no live feed
+CREATE OR REPLACE FUNCTION public.revoke_calendar_feed(p_owner_type text, p_owner_id uuid)
+RETURNS void AS $$
+BEGIN
+    IF NOT public.can_manage_calendar_feed(p_owner_type, p_owner_id) THEN
+        RAISE EXCEPTION 'only the % can revoke its calendar feed', coalesce(p_owner_type, 'owner')
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.calendar_feeds
+    SET token_hash = NULL,
+        revoked_at = now()
+    WHERE owner_type = p_owner_type AND owner_id = p_owner_id AND token_hash IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 4. ICALENDAR FORMATTING
+-- ===============================================================
+-- RFC 5545 TEXT values escape backslashes, commas, semicolons and newlines
+CREATE OR REPLACE FUNCTION public.ical_text(p_value text)
+RETURNS text AS $$
+    SELECT replace(replace(replace(replace(replace(coalesce(p_value, ''),
+        '\', '\\'), ';', '\;'), ',', '\,'), E'\r\n', '\n'), E'\n', '\n');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.ical_utc(p_at timestamptz)
+RETURNS text AS $$
+    SELECT to_char(p_at AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Folds a content line into 75-octet pieces, continuation lines starting
+-- with a space, without splitting a multi-byte character
+CREATE OR REPLACE FUNCTION public.ical_fold(p_line text)
+RETURNS text AS $$
+DECLARE
+    v_out text := '';
+    v_piece text := '';
+    v_limit integer := 75;
+    v_char text;
+BEGIN
+    FOREACH v_char IN ARRAY regexp_split_to_array(p_line, '') LOOP
+        IF octet_length(v_piece) + octet_length(v_char) > v_limit THEN
+            v_out := v_out || v_piece || E'\r\n ';
+            v_piece := '';
+            v_limit := 74;
+        END IF;
+        v_piece := v_piece || v_char;
+    END LOOP;
+    RETURN v_out || v_piece;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ===============================================================
+-- 5. FEED
+-- ===============================================================
+-- PostgREST answers with this media type for functions returning the domain
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'text/calendar' AND typnamespace = 'public'::regnamespace) THEN
+        CREATE DOMAIN public."text/calendar" AS text;
+    END IF;
+END;
+$$;
+
+-- The owner's appointments from 90 days back onwards. Cancelled ones stay
+-- in the feed as STATUS:CANCELLED so subscribed calendars drop them.
+CREATE OR REPLACE FUNCTION public.calendar_feed(p_token text)
+RETURNS public."text/calendar" AS $$
+DECLARE
+    v_feed public.calendar_feeds%ROWTYPE;
+    v_name text;
+    v_timezone text;
+    v_events text;
+BEGIN
+    SELECT * INTO v_feed
+    FROM public.calendar_feeds
+    WHERE token_hash = encode(digest(coalesce(p_token, ''), 'sha256'), 'hex');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown or revoked calendar feed'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF v_feed.owner_type = 'hospital' THEN
+        SELECT h.name || ' donations', coalesce(s.timezone, 'Asia/Kolkata') INTO v_name, v_timezone
+        FROM public.hospitals h
+        LEFT JOIN public.donation_schedules s ON s.hospital_id = h.id
+        WHERE h.id = v_feed.owner_id;
+    ELSE
+        v_name := 'My blood donations';
+    END IF;
+
+    SELECT string_agg(concat_ws(E'\r\n',
+               'BEGIN:VEVENT',
+               public.ical_fold('UID:' || a.id || '@pulseconnect'),
+               'SEQUENCE:' || a.ical_sequence,
+               'DTSTAMP:' || public.ical_utc(a.updated_at),
+               'DTSTART:' || public.ical_utc(a.slot_start),
+               'DTEND:' || public.ical_utc(a.slot_end),
+               public.ical_fold('SUMMARY:' || public.ical_text(
+                   CASE WHEN v_feed.owner_type = 'hospital'
+                        THEN 'Donation: ' || coalesce(d.name, 'Donor')
+                             || coalesce(' (' || d.blood_group || ')', '')
+                             || coalesce(', chair ' || a.chair, '')
+                        ELSE 'Blood donation at ' || h.name
+                   END)),
+               public.ical_fold('LOCATION:' || public.ical_text(concat_ws(', ',
+                   h.name, nullif(h.address, ''), nullif(h.city, ''), nullif(h.state, ''), nullif(h.pincode, '')))),
+               CASE WHEN h.latitude IS NOT NULL AND h.longitude IS NOT NULL
+                    THEN 'GEO:' || h.latitude || ';' || h.longitude
+               END,
+               public.ical_fold('DESCRIPTION:' || public.ical_text(concat_ws(E'\n',
+                   to_char(a.slot_start AT TIME ZONE coalesce(s.timezone, 'Asia/Kolkata'), 'FMDay DD FMMonth YYYY, HH24:MI')
+                       || ' (' || coalesce(s.timezone, 'Asia/Kolkata') || ')',
+                   'Hospital contact: ' || concat_ws(', ', nullif(h.phone, ''), h.email),
+                   CASE WHEN v_feed.owner_type = 'hospital' AND d.phone IS NOT NULL
+                        THEN 'Donor phone: ' || d.phone
+                   END))),
+               public.ical_fold('ORGANIZER;CN="' || replace(h.name, '"', '') || '":mailto:' || h.email),
+               'STATUS:' || CASE WHEN a.status = 'cancelled' THEN 'CANCELLED' ELSE 'CONFIRMED' END,
+               'END:VEVENT'
+           ), E'\r\n' ORDER BY a.slot_start)
+    INTO v_events
+    FROM public.appointments a
+    JOIN public.hospitals h ON h.id = a.hospital_id
+    LEFT JOIN public.donation_schedules s ON s.hospital_id = a.hospital_id
+    LEFT JOIN public.donors d ON d.id = a.donor_id
+    WHERE a.slot_start >= now() - interval '90 days'
+      AND CASE WHEN v_feed.owner_type = 'hospital' THEN a.hospital_id ELSE a.donor_id END = v_feed.owner_id;
+
+    RETURN concat_ws(E'\r\n',
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//PulseConnect//Appointments//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        public.ical_fold('X-WR-CALNAME:' || public.ical_text(v_name)),
+        'X-WR-TIMEZONE:' || v_timezone,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        'X-PUBLISHED-TTL:PT1H',
+        v_events,
+        'END:VCALENDAR'
+    ) || E'\r\n';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION public.issue_calendar_feed(text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_calendar_feed(text, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_calendar_feed(text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_calendar_feed(text, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.calendar_feed(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.calendar_feed(text) TO anon, authenticated;
+
+-- ===============================================================
+-- 6. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- Owners can see whether their feed is live; it is written only by the
+-- functions above.
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "calendar_feeds_select_owner" ON public.calendar_feeds FOR SELECT USING (public.can_manage_calendar_feed(owner_type, owner_id));
@@ -0,0 +1,480 @@
+-- ===============================================================
+-- PulseConnect: rescheduling, cancelling and no-shows
+-- ===============================================================
+--
+-- Appointments follow one set of steps:
+--
+--   scheduled -> confirmed | completed | cancelled | no_show
+--   confirmed -> completed | cancelled | no_show
+--   completed, cancelled and no_show are final
+--
+-- Donors cancel their own appointments with a reason, before they start,
+-- through transition_appointment(), and move them to another free slot
+-- through reschedule_appointment(). Only hospital staff mark a no-show,
+-- and only once the slot has started. A cancelled or missed appointment
+-- no longer holds its chair, and the linked pledge moves with it (see
+-- sync_pledge_from_appointment() in 20250126000000-request-pledges.sql),
+-- which updates the request's unit counts.
+--
+-- Every booking, step and move is kept in appointment_history, which
+-- outlives the appointment, so a donor's no-shows still count towards
+-- donor_reliability() after the hospital deletes the appointment.
+--
+-- The transitions also live in src/lib/appointments.ts; keep both in sync.
+
+-- ===============================================================
+-- 1. APPOINTMENT HISTORY
+-- ===============================================================
+-- changed_by is null when the change came from a scheduled job rather
+-- than a signed-in user. from_slot_start and to_slot_start differ only
+-- when the appointment was moved.
+CREATE TABLE IF NOT EXISTS public.appointment_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid,
+  donor_id uuid NOT NULL,
+  hospital_id uuid NOT NULL,
+  from_status text CHECK (from_status IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show')),
+  to_status text NOT NULL CHECK (to_status IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show')),
+  from_slot_start timestamptz,
+  to_slot_start timestamptz NOT NULL,
+  changed_by uuid,
+  actor_role text NOT NULL CHECK (actor_role IN ('donor', 'hospital', 'admin', 'system')),
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+ALTER TABLE public.appointment_history
+ADD CONSTRAINT fk_appointment_history_appointment_id
+FOREIGN KEY (appointment_id) REFERENCES public.appointments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.appointment_history
+ADD CONSTRAINT fk_appointment_history_donor_id
+FOREIGN KEY (donor_id) REFERENCES public.donors(id) ON DELETE CASCADE;
+
+ALTER TABLE public.appointment_history
+ADD CONSTRAINT fk_appointment_history_hospital_id
+FOREIGN KEY (hospital_id) REFERENCES public.hospitals(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_history_appointment_id ON public.appointment_history (appointment_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_appointment_history_donor_id ON public.appointment_history (donor_id, to_status);
+
+-- Existing appointments start their history where they stand today
+INSERT INTO public.appointment_history (appointment_id, donor_id, hospital_id, to_status, to_slot_start, actor_role, reason, created_at)
+SELECT a.id, a.donor_id, a.hospital_id, a.status, a.slot_start, 'system',
+       'Recorded when appointment history was introduced', a.updated_at
+FROM public.appointments a
+WHERE NOT EXISTS (SELECT 1 FROM public.appointment_history h WHERE h.appointment_id = a.id);
+
+-- ===============================================================
+-- 2. TRANSITION RULES
+-- ===============================================================
+CREATE OR REPLACE FUNCTION public.appointment_transition_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+    SELECT CASE p_from
+        WHEN 'scheduled' THEN p_to IN ('confirmed', 'completed', 'cancelled', 'no_show')
+        WHEN 'confirmed' THEN p_to IN ('completed', 'cancelled', 'no_show')
+        ELSE false
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Staff may take any allowed step; a no-show only once the slot started.
+-- Donors may only cancel, before the start and with a reason, which they
+-- can only give through transition_appointment(). The slot, chair and
+-- people only change inside reschedule_appointment(). Changes made by
+-- other triggers are trusted.
+CREATE OR REPLACE FUNCTION public.enforce_appointment_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_is_staff boolean;
+BEGIN
+    v_is_staff := auth.uid() IS NULL OR public.is_admin() OR public.is_hospital_member(OLD.hospital_id)
+        OR pg_trigger_depth() > 1;
+
+    IF (NEW.slot_start, NEW.slot_end, NEW.chair, NEW.hospital_id, NEW.donor_id)
+        IS DISTINCT FROM (OLD.slot_start, OLD.slot_end, OLD.chair, OLD.hospital_id, OLD.donor_id)
+       AND coalesce(current_setting('pulseconnect.rescheduling', true), '') <> 'on' THEN
+        RAISE EXCEPTION 'appointments are moved with reschedule_appointment()'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.status IS DISTINCT FROM NEW.status THEN
+        IF NOT public.appointment_transition_allowed(OLD.status, NEW.status) THEN
+            RAISE EXCEPTION 'appointment cannot move from % to %', OLD.status, NEW.status
+                USING ERRCODE = '23514';
+        END IF;
+
+        IF NEW.status = 'no_show' AND OLD.slot_start > now() THEN
+            RAISE EXCEPTION 'the appointment at % has not started yet', OLD.slot_start
+                USING ERRCODE = '22023';
+        END IF;
+
+        IF NOT v_is_staff THEN
+            IF NEW.status <> 'cancelled' THEN
+                RAISE EXCEPTION 'donors can only cancel their appointments'
+                    USING ERRCODE = '42501';
+            END IF;
+            IF nullif(current_setting('pulseconnect.status_reason', true), '') IS NULL THEN
+                RAISE EXCEPTION 'donors cancel with a reason through transition_appointment()'
+                    USING ERRCODE = '42501';
+            END IF;
+            IF OLD.slot_start <= now() THEN
+                RAISE EXCEPTION 'the appointment has already started; ask the hospital to update it'
+                    USING ERRCODE = '22023';
+            END IF;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replaces guard_appointment_slot() from 20250208000000-appointment-slots.sql,
+-- which would also stop a donor's own reschedule_appointment()
+DROP TRIGGER IF EXISTS guard_appointments_slot ON public.appointments;
+DROP FUNCTION IF EXISTS public.guard_appointment_slot();
+
+DROP TRIGGER IF EXISTS enforce_appointments_change ON public.appointments;
+CREATE TRIGGER enforce_appointments_change
+    BEFORE UPDATE ON public.appointments
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_appointment_change();
+
+-- ===============================================================
+-- 3. HISTORY RECORDING
+-- ===============================================================
+-- The reason comes from transition_appointment() and
+-- reschedule_appointment() through the same transaction-local setting
+-- transition_request() uses.
+CREATE OR REPLACE FUNCTION public.record_appointment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.appointment_history (
+        appointment_id, donor_id, hospital_id, from_status, to_status,
+        from_slot_start, to_slot_start, changed_by, actor_role, reason
+    )
+    VALUES (
+        NEW.id,
+        NEW.donor_id,
+        NEW.hospital_id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.slot_start END,
+        NEW.slot_start,
+        auth.uid(),
+        CASE
+            WHEN auth.uid() IS NULL THEN 'system'
+            WHEN public.is_admin() THEN 'admin'
+            WHEN public.is_hospital_member(NEW.hospital_id) THEN 'hospital'
+            ELSE 'donor'
+        END,
+        coalesce(nullif(current_setting('pulseconnect.status_reason', true), ''),
+                 CASE WHEN TG_OP = 'INSERT' THEN NEW.notes END)
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_appointments_change_insert ON public.appointments;
+DROP TRIGGER IF EXISTS record_appointments_change_update ON public.appointments;
+
+CREATE TRIGGER record_appointments_change_insert
+    AFTER INSERT ON public.appointments
+    FOR EACH ROW EXECUTE FUNCTION public.record_appointment_change();
+
+CREATE TRIGGER record_appointments_change_update
+    AFTER UPDATE OF status, slot_start ON public.appointments
+    FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.slot_start IS DISTINCT FROM NEW.slot_start)
+    EXECUTE FUNCTION public.record_appointment_change();
+
+-- ===============================================================
+-- 4. CLAIMING A SLOT
+-- ===============================================================
+-- The checks book_appointment() made, shared with rescheduling: the slot
+-- must be one list_appointment_slots() offers and must not have started,
+-- the donor must be free then, and a chair must be free. p_appointment_id
+-- is the appointment being moved, which does not count against itself.
+-- Locks the hospital's schedule until the transaction ends. Only called
+-- from the RPCs below.
+CREATE OR REPLACE FUNCTION public.claim_appointment_slot(
+    p_hospital_id uuid,
+    p_slot_start timestamptz,
+    p_donor_id uuid,
+    p_appointment_id uuid DEFAULT NULL,
+    OUT claimed_slot_start timestamptz,
+    OUT claimed_slot_end timestamptz,
+    OUT claimed_chair integer,
+    OUT schedule_timezone text
+) AS $$
+DECLARE
+    v_schedule public.donation_schedules;
+    v_slot record;
+    v_booked integer;
+    v_chairs_taken integer[];
+BEGIN
+    SELECT * INTO v_schedule FROM public.donation_schedules WHERE hospital_id = p_hospital_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'hospital % does not take bookings', p_hospital_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_slot_start <= now() THEN
+        RAISE EXCEPTION 'the slot at % has already started', p_slot_start
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_slot
+    FROM public.list_appointment_slots(p_hospital_id, (p_slot_start AT TIME ZONE v_schedule.timezone)::date, 1) s
+    WHERE s.slot_start = p_slot_start;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'no slot starts at %', p_slot_start
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.appointments a
+        WHERE a.donor_id = p_donor_id
+          AND a.id IS DISTINCT FROM p_appointment_id
+          AND a.status IN ('scheduled', 'confirmed')
+          AND a.slot_start < v_slot.slot_end
+          AND a.slot_end > v_slot.slot_start
+    ) THEN
+        RAISE EXCEPTION 'the donor already has an appointment at that time'
+            USING ERRCODE = '23P01';
+    END IF;
+
+    SELECT count(*)::integer, coalesce(array_agg(a.chair) FILTER (WHERE a.chair IS NOT NULL), '{}')
+    INTO v_booked, v_chairs_taken
+    FROM public.appointments a
+    WHERE a.hospital_id = p_hospital_id
+      AND a.id IS DISTINCT FROM p_appointment_id
+      AND a.status IN ('scheduled', 'confirmed')
+      AND a.slot_start < v_slot.slot_end
+      AND a.slot_end > v_slot.slot_start;
+
+    SELECT min(c) INTO claimed_chair
+    FROM generate_series(1, v_slot.chairs) AS c
+    WHERE v_booked < v_slot.chairs
+      AND c <> ALL (v_chairs_taken);
+
+    IF claimed_chair IS NULL THEN
+        RAISE EXCEPTION 'every chair is booked at %; pick another slot', to_char(p_slot_start AT TIME ZONE v_schedule.timezone, 'HH24:MI')
+            USING ERRCODE = '23P01';
+    END IF;
+
+    claimed_slot_start := v_slot.slot_start;
+    claimed_slot_end := v_slot.slot_end;
+    schedule_timezone := v_schedule.timezone;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.claim_appointment_slot(uuid, timestamptz, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same behaviour as before, now through claim_appointment_slot()
+CREATE OR REPLACE FUNCTION public.book_appointment(
+    p_hospital_id uuid,
+    p_slot_start timestamptz,
+    p_donor_id uuid DEFAULT NULL,
+    p_request_id uuid DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS public.appointments AS $$
+DECLARE
+    v_donor_id uuid := coalesce(p_donor_id, auth.uid());
+    v_slot record;
+    v_appointment public.appointments;
+BEGIN
+    IF v_donor_id IS NULL
+       OR NOT (v_donor_id = auth.uid() OR public.is_hospital_member(p_hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'not allowed to book appointments for donor % at hospital %', v_donor_id, p_hospital_id
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_slot FROM public.claim_appointment_slot(p_hospital_id, p_slot_start, v_donor_id);
+
+    INSERT INTO public.appointments (
+        hospital_id, donor_id, request_id, appointment_date, appointment_time,
+        slot_start, slot_end, chair, status, notes
+    )
+    VALUES (
+        p_hospital_id, v_donor_id, p_request_id, v_slot.claimed_slot_start,
+        to_char(v_slot.claimed_slot_start AT TIME ZONE v_slot.schedule_timezone, 'HH24:MI'),
+        v_slot.claimed_slot_start, v_slot.claimed_slot_end, v_slot.claimed_chair, 'scheduled', nullif(btrim(p_notes), '')
+    )
+    RETURNING * INTO v_appointment;
+
+    RETURN v_appointment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 5. TRANSITION RPC
+-- ===============================================================
+-- Donors may only cancel their own appointments; the hospital and admins
+-- take every other step. Cancelling always needs a reason, since the
+-- other side is told; a no-show without one is recorded as not attended.
+CREATE OR REPLACE FUNCTION public.transition_appointment(
+    p_appointment_id uuid,
+    p_status text,
+    p_reason text DEFAULT NULL
+)
+RETURNS public.appointments AS $$
+DECLARE
+    v_appointment public.appointments;
+    v_reason text := nullif(btrim(p_reason), '');
+BEGIN
+    SELECT * INTO v_appointment FROM public.appointments WHERE id = p_appointment_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'appointment % not found', p_appointment_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (public.is_hospital_member(v_appointment.hospital_id) OR public.is_admin()
+            OR (v_appointment.donor_id = auth.uid() AND p_status = 'cancelled')) THEN
+        RAISE EXCEPTION 'not allowed to mark appointment % %', p_appointment_id, p_status
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF p_status = 'cancelled' AND v_reason IS NULL THEN
+        RAISE EXCEPTION 'give a reason for cancelling'
+            USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM set_config('pulseconnect.status_reason',
+        coalesce(v_reason, CASE WHEN p_status = 'no_show' THEN 'Did not attend' END, ''), true);
+
+    UPDATE public.appointments
+    SET status = p_status
+    WHERE id = p_appointment_id
+    RETURNING * INTO v_appointment;
+
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    RETURN v_appointment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transition_appointment(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_appointment(uuid, text, text) TO authenticated;
+
+-- ===============================================================
+-- 6. RESCHEDULE RPC
+-- ===============================================================
+-- Moves an open appointment that has not started to another slot at the
+-- same hospital, keeping its id, pledge and request. The old chair is
+-- free as soon as this commits; calendar apps see the same event at the
+-- new time (ical_sequence goes up, see 20250209000000-calendar-feeds.sql).
+CREATE OR REPLACE FUNCTION public.reschedule_appointment(
+    p_appointment_id uuid,
+    p_slot_start timestamptz,
+    p_reason text
+)
+RETURNS public.appointments AS $$
+DECLARE
+    v_appointment public.appointments;
+    v_reason text := nullif(btrim(p_reason), '');
+    v_slot record;
+BEGIN
+    SELECT * INTO v_appointment FROM public.appointments WHERE id = p_appointment_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'appointment % not found', p_appointment_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT (v_appointment.donor_id = auth.uid() OR public.is_hospital_member(v_appointment.hospital_id) OR public.is_admin()) THEN
+        RAISE EXCEPTION 'not allowed to reschedule appointment %', p_appointment_id
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF v_appointment.status NOT IN ('scheduled', 'confirmed') THEN
+        RAISE EXCEPTION 'a % appointment cannot be rescheduled', v_appointment.status
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF v_appointment.slot_start <= now() THEN
+        RAISE EXCEPTION 'the appointment has already started'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        RAISE EXCEPTION 'give a reason for rescheduling'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_slot_start = v_appointment.slot_start THEN
+        RAISE EXCEPTION 'the appointment is already at that time'
+            USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_slot
+    FROM public.claim_appointment_slot(v_appointment.hospital_id, p_slot_start, v_appointment.donor_id, p_appointment_id);
+
+    PERFORM set_config('pulseconnect.status_reason', v_reason, true);
+    PERFORM set_config('pulseconnect.rescheduling', 'on', true);
+
+    UPDATE public.appointments
+    SET slot_start = v_slot.claimed_slot_start,
+        slot_end = v_slot.claimed_slot_end,
+        chair = v_slot.claimed_chair,
+        appointment_date = v_slot.claimed_slot_start,
+        appointment_time = to_char(v_slot.claimed_slot_start AT TIME ZONE v_slot.schedule_timezone, 'HH24:MI')
+    WHERE id = p_appointment_id
+    RETURNING * INTO v_appointment;
+
+    PERFORM set_config('pulseconnect.rescheduling', '', true);
+    PERFORM set_config('pulseconnect.status_reason', '', true);
+
+    RETURN v_appointment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reschedule_appointment(uuid, timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reschedule_appointment(uuid, timestamptz, text) TO authenticated;
+
+-- ===============================================================
+-- 7. DONOR RELIABILITY
+-- ===============================================================
+-- Kept and missed appointments now come from appointment_history, so
+-- deleting an appointment does not clear the donor's record. Answered
+-- requests are still the donor's pledges (see request-pledges).
+CREATE OR REPLACE FUNCTION public.donor_reliability(p_donor_ids uuid[])
+RETURNS TABLE (
+    donor_id uuid,
+    requests_notified integer,
+    requests_accepted integer,
+    appointments_kept integer,
+    appointments_missed integer
+) AS $$
+BEGIN
+    IF NOT (public.is_hospital_user() OR public.is_admin()) THEN
+        RAISE EXCEPTION 'only hospital staff can read donor reliability'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT d.id,
+           (SELECT count(DISTINCT n.data ->> 'request_id')::int
+            FROM public.notifications n
+            WHERE n.user_id = d.id AND n.data ? 'request_id'),
+           (SELECT count(DISTINCT p.request_id)::int
+            FROM public.request_pledges p
+            WHERE p.donor_id = d.id),
+           (SELECT count(*)::int FROM public.appointment_history ah
+            WHERE ah.donor_id = d.id AND ah.to_status = 'completed'),
+           (SELECT count(*)::int FROM public.appointment_history ah
+            WHERE ah.donor_id = d.id AND ah.to_status = 'no_show')
+    FROM public.donors d
+    WHERE d.id = ANY (p_donor_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ===============================================================
+-- 8. ROW LEVEL SECURITY (RLS)
+-- ===============================================================
+-- The donor and the hospital see the appointment's history; rows are
+-- only written by the triggers above.
+ALTER TABLE public.appointment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "appointment_history_select_participant" ON public.appointment_history FOR SELECT USING (
+    auth.uid() = donor_id OR public.is_hospital_member(hospital_id) OR public.is_admin()
+);
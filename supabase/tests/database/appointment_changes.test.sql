@@ -0,0 +1,190 @@
+-- ===============================================================
+-- Appointment reschedule, cancellation and no-show tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@changes.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@changes.test', '{"first_name": "First", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@changes.test', '{"first_name": "Second", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Changes Hospital', 'h1@changes.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'First Donor', 'd1@changes.test', 'A+', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Second Donor', 'd2@changes.test', 'A+', 'Pune');
+
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required, emergency_level) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 2, 'High');
+
+-- an appointment that started two hours ago
+INSERT INTO public.appointments (id, hospital_id, donor_id, appointment_date, slot_start, slot_end) VALUES
+  ('20000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+   now() - interval '2 hours', now() - interval '2 hours', now() - interval '90 minutes');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+INSERT INTO public.donation_schedules (hospital_id, chairs, slot_minutes, timezone) VALUES
+  ('11111111-1111-1111-1111-111111111111', 1, 30, 'UTC');
+INSERT INTO public.donation_opening_hours (hospital_id, weekday, opens_at, closes_at)
+SELECT '11111111-1111-1111-1111-111111111111', d, '09:00', '11:00' FROM generate_series(0, 6) AS d;
+
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001');
+SELECT set_config('test.appointment_id',
+  (public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC',
+     NULL, '10000000-0000-0000-0000-000000000001')).id::text,
+  true);
+
+-- The hospital links the booking to the pledge
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001', 1, 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+  current_setting('test.appointment_id')::uuid);
+
+-- ===============================================================
+-- WHAT DONORS MAY DO
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT to_status, actor_role FROM public.appointment_history WHERE appointment_id = current_setting('test.appointment_id')::uuid $$,
+  $$ VALUES ('scheduled'::text, 'donor'::text) $$,
+  'booking starts the appointment''s history'
+);
+SELECT throws_ok(
+  $$ UPDATE public.appointments SET status = 'cancelled' WHERE id = current_setting('test.appointment_id')::uuid $$,
+  '42501', NULL,
+  'donors cannot cancel without going through transition_appointment()'
+);
+SELECT throws_ok(
+  $$ UPDATE public.appointments SET slot_start = slot_start + interval '30 minutes', slot_end = slot_end + interval '30 minutes'
+     WHERE id = current_setting('test.appointment_id')::uuid $$,
+  '42501', NULL,
+  'appointments cannot be moved around the booking rules'
+);
+SELECT throws_ok(
+  $$ SELECT public.transition_appointment(current_setting('test.appointment_id')::uuid, 'completed') $$,
+  '42501', NULL,
+  'donors cannot mark their own appointment completed'
+);
+SELECT throws_ok(
+  $$ SELECT public.transition_appointment(current_setting('test.appointment_id')::uuid, 'cancelled', '  ') $$,
+  '22023', NULL,
+  'cancelling needs a reason'
+);
+
+-- ===============================================================
+-- RESCHEDULING
+-- ===============================================================
+SELECT throws_ok(
+  $$ SELECT public.reschedule_appointment(current_setting('test.appointment_id')::uuid,
+       ((current_date + 1) + time '09:10') AT TIME ZONE 'UTC', 'Clashes with work') $$,
+  '22023', NULL,
+  'appointments only move to the schedule''s slots'
+);
+
+SELECT is(
+  (SELECT id::text || ' ' || chair || ' ' || ical_sequence
+   FROM public.reschedule_appointment(current_setting('test.appointment_id')::uuid,
+     ((current_date + 1) + time '10:00') AT TIME ZONE 'UTC', 'Clashes with work')),
+  current_setting('test.appointment_id') || ' 1 1',
+  'rescheduling keeps the appointment and gives it a chair in the new slot'
+);
+SELECT results_eq(
+  $$ SELECT to_char(slot_start AT TIME ZONE 'UTC', 'HH24:MI'), booked
+     FROM public.list_appointment_slots('11111111-1111-1111-1111-111111111111', current_date + 1)
+     WHERE to_char(slot_start AT TIME ZONE 'UTC', 'HH24:MI') IN ('09:30', '10:00')
+     ORDER BY slot_start $$,
+  $$ VALUES ('09:30', 0), ('10:00', 1) $$,
+  'the old slot is released and the new one taken'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT public.reschedule_appointment(current_setting('test.appointment_id')::uuid,
+       ((current_date + 1) + time '10:30') AT TIME ZONE 'UTC', 'Not mine') $$,
+  '42501', NULL,
+  'donors cannot move someone else''s appointment'
+);
+
+-- ===============================================================
+-- CANCELLING
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+SELECT public.transition_appointment(current_setting('test.appointment_id')::uuid, 'cancelled', 'Feeling unwell');
+
+SELECT is(
+  (SELECT p.status || ' ' || r.pledged_units || ' ' || r.scheduled_units
+   FROM public.request_pledges p JOIN public.requests r ON r.id = p.request_id
+   WHERE p.appointment_id = current_setting('test.appointment_id')::uuid),
+  'pledged 1 0',
+  'cancelling puts the pledge back and updates the request''s counts'
+);
+SELECT results_eq(
+  $$ SELECT to_status, to_char(to_slot_start AT TIME ZONE 'UTC', 'HH24:MI'), actor_role, reason
+     FROM public.appointment_history WHERE appointment_id = current_setting('test.appointment_id')::uuid
+     ORDER BY created_at $$,
+  $$ VALUES ('scheduled', '09:30', 'donor', NULL::text),
+            ('scheduled', '10:00', 'donor', 'Clashes with work'),
+            ('cancelled', '10:00', 'donor', 'Feeling unwell') $$,
+  'the move and the cancellation are recorded with their reasons'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT public.transition_appointment(current_setting('test.appointment_id')::uuid, 'confirmed') $$,
+  '23514', NULL,
+  'a cancelled appointment is final'
+);
+
+-- ===============================================================
+-- NO-SHOWS
+-- ===============================================================
+SELECT set_config('test.future_id',
+  (public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:00') AT TIME ZONE 'UTC',
+     'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb')).id::text,
+  true);
+
+SELECT throws_ok(
+  $$ SELECT public.transition_appointment(current_setting('test.future_id')::uuid, 'no_show') $$,
+  '22023', NULL,
+  'a no-show can only be marked once the slot has started'
+);
+
+SELECT public.transition_appointment('20000000-0000-0000-0000-000000000002', 'no_show');
+DELETE FROM public.appointments WHERE id = '20000000-0000-0000-0000-000000000002';
+
+SELECT is(
+  (SELECT appointments_missed FROM public.donor_reliability(ARRAY['bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'::uuid])),
+  1,
+  'a no-show stays on the donor''s record after the appointment is deleted'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+SELECT results_eq(
+  $$ SELECT to_status, reason FROM public.appointment_history WHERE appointment_id IS NULL ORDER BY created_at $$,
+  $$ VALUES ('scheduled', NULL::text), ('no_show', 'Did not attend') $$,
+  'the donor sees their own no-show'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM public.appointment_history WHERE donor_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  0,
+  'donors cannot see each other''s history'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,131 @@
+-- ===============================================================
+-- Appointment slot and chair capacity tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@slots.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@slots.test', '{"first_name": "First", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@slots.test', '{"first_name": "Second", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Slot Hospital', 'h1@slots.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'First Donor', 'd1@slots.test', 'A+', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Second Donor', 'd2@slots.test', 'O+', 'Pune');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+-- One chair, half-hour slots, open 09:00-11:00 UTC every day
+INSERT INTO public.donation_schedules (hospital_id, chairs, slot_minutes, timezone) VALUES
+  ('11111111-1111-1111-1111-111111111111', 1, 30, 'UTC');
+INSERT INTO public.donation_opening_hours (hospital_id, weekday, opens_at, closes_at)
+SELECT '11111111-1111-1111-1111-111111111111', d, '09:00', '11:00' FROM generate_series(0, 6) AS d;
+
+-- ===============================================================
+-- LISTING
+-- ===============================================================
+SELECT throws_ok(
+  $$ UPDATE public.donation_schedules SET timezone = 'Mars/Olympus' $$,
+  '22023', NULL,
+  'schedules need a time zone Postgres knows'
+);
+SELECT results_eq(
+  $$ SELECT to_char(slot_start AT TIME ZONE 'UTC', 'HH24:MI'), chairs, booked
+     FROM public.list_appointment_slots('11111111-1111-1111-1111-111111111111', current_date + 1) $$,
+  $$ VALUES ('09:00', 1, 0), ('09:30', 1, 0), ('10:00', 1, 0), ('10:30', 1, 0) $$,
+  'opening hours are cut into slots of the schedule''s length'
+);
+
+-- ===============================================================
+-- BOOKING
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT is(
+  (public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC')).chair::int,
+  1,
+  'donors book a free slot for themselves and get a chair'
+);
+SELECT throws_ok(
+  $$ SELECT public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '10:00') AT TIME ZONE 'UTC',
+       'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb') $$,
+  '42501', NULL,
+  'donors cannot book for someone else'
+);
+SELECT throws_ok(
+  $$ SELECT public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:10') AT TIME ZONE 'UTC') $$,
+  '22023', NULL,
+  'only the schedule''s slots can be booked'
+);
+SELECT throws_ok(
+  $$ SELECT public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date - 1) + time '09:30') AT TIME ZONE 'UTC') $$,
+  '22023', NULL,
+  'slots in the past cannot be booked'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.appointments (hospital_id, donor_id, appointment_date, slot_start, slot_end)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now() + interval '1 day', now() + interval '1 day', now() + interval '25 hours') $$,
+  '42501', NULL,
+  'appointments cannot be inserted around the booking rules'
+);
+SELECT throws_ok(
+  $$ UPDATE public.appointments
+     SET slot_start = slot_start + interval '30 minutes', slot_end = slot_end + interval '30 minutes'
+     WHERE donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot move a booking around the chair count'
+);
+SELECT throws_ok(
+  $$ UPDATE public.appointments SET chair = NULL WHERE donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot give up their chair number and keep the slot'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC') $$,
+  '23P01', NULL,
+  'a slot with every chair booked cannot be booked again'
+);
+
+-- ===============================================================
+-- MORE CHAIRS
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+UPDATE public.donation_schedules SET chairs = 2 WHERE hospital_id = '11111111-1111-1111-1111-111111111111';
+
+SELECT is(
+  (public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC',
+     'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb')).chair::int,
+  2,
+  'hospital staff book donors into the next free chair'
+);
+SELECT throws_ok(
+  $$ SELECT public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC',
+       'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa') $$,
+  '23P01', NULL,
+  'a donor cannot be booked twice at the same time'
+);
+SELECT results_eq(
+  $$ SELECT chairs, booked FROM public.list_appointment_slots('11111111-1111-1111-1111-111111111111', current_date + 1)
+     WHERE slot_start = ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC' $$,
+  $$ VALUES (2, 2) $$,
+  'the slot shows both chairs booked'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
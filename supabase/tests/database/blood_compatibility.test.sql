@@ -0,0 +1,90 @@
+-- ===============================================================
+-- Blood compatibility tests
+-- Same rules as src/lib/compatibility.ts under the strict Rh policy
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- ===============================================================
+-- RED CELLS
+-- ===============================================================
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('A+', 'blood')) $$,
+  ARRAY['A+', 'A-', 'O+', 'O-'],
+  'red cells need a donor without antigens the patient lacks'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('AB+', 'red_cells')) $$,
+  ARRAY['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'AB+ patients take red cells from every group'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('O-', 'blood')) $$,
+  ARRAY['O-'],
+  'Rh-negative patients only get Rh-negative red cells; there is no emergency substitution'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('B-')) $$,
+  ARRAY['B-', 'O-'],
+  'a request type of blood is assumed'
+);
+
+-- ===============================================================
+-- PLASMA
+-- ===============================================================
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('O-', 'plasma')) $$,
+  ARRAY['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'O patients take plasma from every group, whatever the Rh'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('A+', 'plasma')) $$,
+  ARRAY['A+', 'A-', 'AB+', 'AB-'],
+  'AB plasma is universal'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('AB-', 'plasma')) $$,
+  ARRAY['AB+', 'AB-'],
+  'AB patients only take AB plasma'
+);
+
+-- ===============================================================
+-- WHOLE BLOOD
+-- ===============================================================
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('A+', 'whole_blood')) $$,
+  ARRAY['A+', 'A-'],
+  'whole blood needs the same ABO group'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('AB-', 'whole_blood')) $$,
+  ARRAY['AB-'],
+  'whole blood for an Rh-negative patient is Rh-negative'
+);
+
+-- ===============================================================
+-- PLATELETS
+-- ===============================================================
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('AB+', 'platelets')) $$,
+  ARRAY['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'platelets are given across ABO'
+);
+SELECT set_eq(
+  $$ SELECT unnest(public.compatible_donor_groups('B-', 'platelets')) $$,
+  ARRAY['O-', 'A-', 'B-', 'AB-'],
+  'platelets for an Rh-negative patient are Rh-negative'
+);
+
+SELECT is(
+  public.compatible_donor_groups('C+', 'platelets'),
+  NULL::text[],
+  'an unknown blood group matches nobody'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,109 @@
+-- ===============================================================
+-- Bag movement history and optimistic concurrency tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@moves.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@moves.test', '{"user_type": "hospital"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Moving Hospital', 'h1@moves.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Other Hospital', 'h2@moves.test', 'Pune');
+
+INSERT INTO public.storage_units (id, hospital_id, name, kind) VALUES
+  ('50000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Fridge 1', 'refrigerator');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+INSERT INTO public.blood_units (id, hospital_id, bag_number, component, blood_group, collected_at, expires_at, storage_location) VALUES
+  ('60000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'BAG-MOVE', 'red_cells', 'A+', now() - interval '5 days', now() + interval '30 days', 'Shelf A'),
+  ('60000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'BAG-ISSUE', 'red_cells', 'O+', now() - interval '5 days', now() + interval '30 days', NULL);
+
+-- ===============================================================
+-- RECORDING
+-- ===============================================================
+SELECT results_eq(
+  $$ SELECT from_status, to_status, to_location, reason, changed_by FROM public.blood_unit_movements
+     WHERE blood_unit_id = '60000000-0000-0000-0000-000000000001' $$,
+  $$ VALUES (NULL::text, 'available'::text, 'Shelf A'::text, 'Bag received'::text, '11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'receiving a bag records its first movement'
+);
+
+-- ===============================================================
+-- ADJUSTING
+-- ===============================================================
+SELECT throws_ok(
+  $$ SELECT public.adjust_blood_unit('60000000-0000-0000-0000-000000000001', 1, '{"storage_location": "Shelf B"}'::jsonb, '  ') $$,
+  '22023', NULL,
+  'adjustments need a reason'
+);
+SELECT throws_ok(
+  $$ SELECT public.adjust_blood_unit('60000000-0000-0000-0000-000000000001', 1, '{"status": "issued"}'::jsonb, 'Handed over') $$,
+  '22023', NULL,
+  'bags cannot be issued by adjusting them'
+);
+SELECT throws_ok(
+  $$ SELECT public.adjust_blood_unit('60000000-0000-0000-0000-000000000001', 1, '{"bag_number": "X"}'::jsonb, 'Relabel') $$,
+  '22023', NULL,
+  'only bag storage and status can be adjusted'
+);
+SELECT is(
+  (public.adjust_blood_unit('60000000-0000-0000-0000-000000000001', 1,
+    '{"storage_unit_id": "50000000-0000-0000-0000-000000000001", "storage_location": "Shelf B"}'::jsonb, 'Moved to the monitored fridge')).version,
+  2,
+  'an adjustment made on the current version is saved'
+);
+SELECT results_eq(
+  $$ SELECT from_location, to_location, reason FROM public.blood_unit_movements
+     WHERE blood_unit_id = '60000000-0000-0000-0000-000000000001' AND from_status IS NOT NULL $$,
+  $$ VALUES ('Shelf A'::text, 'Fridge 1 · Shelf B'::text, 'Moved to the monitored fridge'::text) $$,
+  'the move is recorded with its reason'
+);
+SELECT throws_ok(
+  $$ SELECT public.adjust_blood_unit('60000000-0000-0000-0000-000000000001', 1, '{"storage_location": "Shelf C"}'::jsonb, 'Tidy up') $$,
+  '40001', NULL,
+  'an adjustment based on a stale version is rejected'
+);
+SELECT is(
+  (SELECT storage_location FROM public.blood_units WHERE id = '60000000-0000-0000-0000-000000000001'),
+  'Shelf B',
+  'the rejected adjustment changed nothing'
+);
+
+SELECT is(
+  (SELECT array_agg(status) FROM public.issue_blood_units('11111111-1111-1111-1111-111111111111', 'O+', 'red_cells', 1)),
+  ARRAY['issued'],
+  'bags are issued as before'
+);
+SELECT results_eq(
+  $$ SELECT from_status, to_status FROM public.blood_unit_movements
+     WHERE blood_unit_id = '60000000-0000-0000-0000-000000000002' ORDER BY created_at $$,
+  $$ VALUES (NULL::text, 'available'::text), ('available', 'issued') $$,
+  'issues are recorded as movements too'
+);
+
+-- ===============================================================
+-- ACCESS
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.adjust_blood_unit('60000000-0000-0000-0000-000000000001', 2, '{"storage_location": "Shelf Z"}'::jsonb, 'Mine now') $$,
+  'P0002', NULL,
+  'hospitals cannot adjust another hospital''s bags'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
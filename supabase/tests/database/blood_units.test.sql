@@ -0,0 +1,96 @@
+-- ===============================================================
+-- Blood unit inventory tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@units.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@units.test', '{"user_type": "hospital"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Stocked Hospital', 'h1@units.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Other Hospital', 'h2@units.test', 'Pune');
+
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'BAG-LATE', 'red_cells', 'A+', now() - interval '32 days', now() + interval '10 days'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-SOON', 'red_cells', 'A+', now() - interval '39 days', now() + interval '3 days'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-LAST', 'red_cells', 'A+', now() - interval '22 days', now() + interval '20 days'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-OLD', 'red_cells', 'A+', now() - interval '43 days', now() - interval '1 day'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-PLASMA', 'plasma', 'A+', now() - interval '5 days', now() + interval '360 days');
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- ACCESS
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.blood_units),
+  0,
+  'hospitals do not see other hospitals'' bags'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.issue_blood_units('11111111-1111-1111-1111-111111111111', 'A+', 'red_cells', 1) $$,
+  '42501', NULL,
+  'hospitals cannot issue another hospital''s blood'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'BAG-X', 'red_cells', 'O-', now(), now() + interval '42 days') $$,
+  '42501', NULL,
+  'hospitals cannot add bags to another hospital'
+);
+
+-- ===============================================================
+-- FIRST EXPIRY, FIRST OUT
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT array_agg(bag_number) FROM public.issue_blood_units('11111111-1111-1111-1111-111111111111', 'A+', 'red_cells', 2)),
+  ARRAY['BAG-SOON', 'BAG-LATE'],
+  'the bags expiring first are issued first, skipping expired ones'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.blood_units WHERE status = 'issued' AND issued_at IS NOT NULL),
+  2,
+  'issued bags are marked with the time they left'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.issue_blood_units('11111111-1111-1111-1111-111111111111', 'A+', 'red_cells', 2) $$,
+  'P0002', NULL,
+  'issuing more than is in stock fails'
+);
+SELECT is(
+  (SELECT status FROM public.blood_units WHERE bag_number = 'BAG-LAST'),
+  'available',
+  'and issues nothing'
+);
+SELECT throws_ok(
+  $$ UPDATE public.blood_units SET status = 'available', issued_at = NULL WHERE bag_number = 'BAG-SOON' $$,
+  '23514', NULL,
+  'an issued bag cannot be returned to stock'
+);
+
+RESET ROLE;
+
+-- ===============================================================
+-- EXPIRY
+-- ===============================================================
+SELECT is(
+  public.expire_blood_units(),
+  1,
+  'bags past their expiry are marked expired'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,91 @@
+-- ===============================================================
+-- Discard reason and expiry tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@waste.test', '{"user_type": "hospital"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Wasteful Hospital', 'h1@waste.test', 'Pune');
+
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at, status) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'BAG-TORN', 'red_cells', 'A+', now() - interval '5 days', now() + interval '30 days', 'available'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-KEPT', 'red_cells', 'A+', now() - interval '5 days', now() + interval '30 days', 'available'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-GONE-OFF', 'red_cells', 'B+', now() - interval '43 days', now() - interval '1 day', 'available'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-WARM', 'platelets', 'O+', now() - interval '2 days', now() + interval '3 days', 'quarantined');
+
+INSERT INTO public.blood_inventory (hospital_id, blood_group, units_available, expiry_date) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'AB-', 3, now() - interval '1 day');
+
+-- ===============================================================
+-- EXPIRY
+-- ===============================================================
+SELECT is(
+  public.expire_blood_units(),
+  1,
+  'bags past their expiry are marked expired'
+);
+SELECT is(
+  (SELECT status FROM public.blood_inventory WHERE blood_group = 'AB-'),
+  'expired',
+  'aggregate inventory rows past their expiry are marked expired too'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+-- ===============================================================
+-- DISCARD REASONS
+-- ===============================================================
+SELECT throws_ok(
+  $$ UPDATE public.blood_units SET status = 'discarded' WHERE bag_number = 'BAG-TORN' $$,
+  '23514', NULL,
+  'bags in stock need a reason to be discarded'
+);
+SELECT throws_ok(
+  $$ UPDATE public.blood_units SET status = 'discarded', discard_reason = 'dropped' WHERE bag_number = 'BAG-TORN' $$,
+  '23514', NULL,
+  'only the listed reasons are accepted'
+);
+SELECT lives_ok(
+  $$ UPDATE public.blood_units SET status = 'discarded', discard_reason = 'broken_bag', discard_notes = 'Seal torn'
+     WHERE bag_number = 'BAG-TORN' $$,
+  'staff discard a bag with a reason'
+);
+SELECT results_eq(
+  $$ SELECT discarded_at IS NOT NULL, discarded_by FROM public.blood_units WHERE bag_number = 'BAG-TORN' $$,
+  $$ VALUES (true, '11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'when and by whom a bag was discarded is recorded'
+);
+
+UPDATE public.blood_units SET status = 'discarded' WHERE bag_number IN ('BAG-GONE-OFF', 'BAG-WARM');
+
+SELECT results_eq(
+  $$ SELECT bag_number, discard_reason FROM public.blood_units WHERE bag_number IN ('BAG-GONE-OFF', 'BAG-WARM') ORDER BY bag_number $$,
+  $$ VALUES ('BAG-GONE-OFF'::text, 'expired'::text), ('BAG-WARM', 'temperature_excursion') $$,
+  'expired and quarantined bags are discarded for the reason they left stock'
+);
+SELECT throws_ok(
+  $$ UPDATE public.blood_units SET discard_reason = 'broken_bag' WHERE bag_number = 'BAG-KEPT' $$,
+  '23514', NULL,
+  'bags still held cannot carry a discard reason'
+);
+SELECT throws_ok(
+  $$ UPDATE public.blood_units SET status = 'available' WHERE bag_number = 'BAG-TORN' $$,
+  '23514', NULL,
+  'discarded bags stay discarded'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
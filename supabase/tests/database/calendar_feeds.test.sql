@@ -0,0 +1,158 @@
+-- ===============================================================
+-- iCalendar feed tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@feeds.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@feeds.test', '{"first_name": "First", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@feeds.test', '{"first_name": "Second", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, phone, address, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Feed Hospital', 'h1@feeds.test', '+91 20 5555 0100', '1 Ring Road', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'First Donor', 'd1@feeds.test', 'A+', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Second Donor', 'd2@feeds.test', 'O+', 'Pune');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+INSERT INTO public.donation_schedules (hospital_id, chairs, slot_minutes, timezone) VALUES
+  ('11111111-1111-1111-1111-111111111111', 1, 30, 'UTC');
+INSERT INTO public.donation_opening_hours (hospital_id, weekday, opens_at, closes_at)
+SELECT '11111111-1111-1111-1111-111111111111', d, '09:00', '11:00' FROM generate_series(0, 6) AS d;
+
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+SELECT set_config('test.appointment_id',
+  (public.book_appointment('11111111-1111-1111-1111-111111111111', ((current_date + 1) + time '09:30') AT TIME ZONE 'UTC')).id::text,
+  true);
+
+-- ===============================================================
+-- FORMATTING
+-- ===============================================================
+SELECT is(
+  public.ical_text(E'Ward 3, Block B; ask at\\desk\nthen wait'),
+  'Ward 3\, Block B\; ask at\\desk\nthen wait',
+  'text values are escaped'
+);
+SELECT is(
+  public.ical_fold(repeat('a', 80)),
+  repeat('a', 75) || E'\r\n ' || repeat('a', 5),
+  'long lines are folded at 75 octets'
+);
+
+-- ===============================================================
+-- ISSUING
+-- ===============================================================
+SELECT throws_ok(
+  $$ SELECT public.issue_calendar_feed('donor', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb') $$,
+  '42501', NULL,
+  'donors cannot issue someone else''s feed'
+);
+SELECT throws_ok(
+  $$ SELECT public.issue_calendar_feed('clinic', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa') $$,
+  '22023', NULL,
+  'feeds belong to donors or hospitals'
+);
+
+SELECT set_config('test.donor_token', public.issue_calendar_feed('donor', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'), true);
+
+-- ===============================================================
+-- FEED
+-- ===============================================================
+SET LOCAL ROLE anon;
+
+SELECT matches(
+  public.calendar_feed(current_setting('test.donor_token')),
+  '^BEGIN:VCALENDAR\r\n.*END:VCALENDAR\r\n$',
+  'calendar apps can fetch the feed without signing in'
+);
+SELECT ok(
+  position('UID:' || current_setting('test.appointment_id') || '@pulseconnect' IN public.calendar_feed(current_setting('test.donor_token'))) > 0
+  AND position('DTSTART:' || to_char(current_date + 1, 'YYYYMMDD') || 'T093000Z' IN public.calendar_feed(current_setting('test.donor_token'))) > 0,
+  'the donor''s appointment is in the feed at its UTC start'
+);
+-- Long lines are folded, so unfold before looking inside them
+SELECT ok(
+  position('LOCATION:Feed Hospital\, 1 Ring Road\, Pune' IN replace(public.calendar_feed(current_setting('test.donor_token')), E'\r\n ', '')) > 0
+  AND position('Hospital contact: +91 20 5555 0100\, h1@feeds.test' IN replace(public.calendar_feed(current_setting('test.donor_token')), E'\r\n ', '')) > 0,
+  'events carry the hospital''s address and contact'
+);
+SELECT throws_ok(
+  $$ SELECT public.calendar_feed('not-a-token') $$,
+  '42501', NULL,
+  'unknown tokens are refused'
+);
+
+-- ===============================================================
+-- CHANGES
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT public.reschedule_appointment(current_setting('test.appointment_id')::uuid,
+  ((current_date + 1) + time '10:00') AT TIME ZONE 'UTC', 'Chair out of service');
+
+SELECT ok(
+  position('SEQUENCE:1' IN public.calendar_feed(current_setting('test.donor_token'))) > 0
+  AND position('DTSTART:' || to_char(current_date + 1, 'YYYYMMDD') || 'T100000Z' IN public.calendar_feed(current_setting('test.donor_token'))) > 0,
+  'a rescheduled appointment keeps its UID with a higher sequence'
+);
+
+SELECT public.transition_appointment(current_setting('test.appointment_id')::uuid, 'cancelled', 'Donor unwell');
+
+SELECT ok(
+  position(E'SEQUENCE:2\r\n' IN public.calendar_feed(current_setting('test.donor_token'))) > 0
+  AND position('STATUS:CANCELLED' IN public.calendar_feed(current_setting('test.donor_token'))) > 0,
+  'a cancelled appointment stays in the feed as cancelled'
+);
+
+-- Issued on its own: calendar_feed() is STABLE and would not see a token
+-- inserted by the same statement
+SELECT set_config('test.hospital_token', public.issue_calendar_feed('hospital', '11111111-1111-1111-1111-111111111111'), true);
+
+SELECT matches(
+  public.calendar_feed(current_setting('test.hospital_token')),
+  'X-WR-TIMEZONE:UTC\r\n.*SUMMARY:Donation: First Donor \(A\+\)\, chair 1',
+  'the hospital feed names each donor and the hospital''s time zone'
+);
+
+-- ===============================================================
+-- REVOKING
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+SELECT set_config('test.old_token', current_setting('test.donor_token'), true);
+SELECT set_config('test.donor_token', public.issue_calendar_feed('donor', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'), true);
+
+SELECT throws_ok(
+  $$ SELECT public.calendar_feed(current_setting('test.old_token')) $$,
+  '42501', NULL,
+  'issuing a new feed URL retires the old one'
+);
+
+SELECT public.revoke_calendar_feed('donor', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+
+SELECT throws_ok(
+  $$ SELECT public.calendar_feed(current_setting('test.donor_token')) $$,
+  '42501', NULL,
+  'a revoked feed stops working'
+);
+SELECT results_eq(
+  $$ SELECT token_hash IS NULL, revoked_at IS NOT NULL FROM public.calendar_feeds WHERE owner_type = 'donor' $$,
+  $$ VALUES (true, true) $$,
+  'the donor sees their feed as revoked'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
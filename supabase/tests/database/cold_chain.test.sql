@@ -0,0 +1,134 @@
+-- ===============================================================
+-- Cold-chain reading, excursion and quarantine tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@cold.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@cold.test', '{"user_type": "hospital"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Cold Hospital', 'h1@cold.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Other Hospital', 'h2@cold.test', 'Pune');
+
+INSERT INTO public.storage_units (id, hospital_id, name, kind) VALUES
+  ('50000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Fridge 1', 'refrigerator'),
+  ('50000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'Freezer 1', 'freezer'),
+  ('50000000-0000-0000-0000-000000000003', '22222222-2222-2222-2222-222222222222', 'Other Fridge', 'refrigerator');
+
+INSERT INTO public.blood_units (id, hospital_id, bag_number, component, blood_group, collected_at, expires_at, storage_unit_id) VALUES
+  ('60000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'BAG-FRIDGE-1', 'red_cells', 'A+', now() - interval '5 days', now() + interval '30 days', '50000000-0000-0000-0000-000000000001'),
+  ('60000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'BAG-FRIDGE-2', 'red_cells', 'O-', now() - interval '5 days', now() + interval '30 days', '50000000-0000-0000-0000-000000000001'),
+  ('60000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'BAG-SHELF', 'red_cells', 'A+', now() - interval '5 days', now() + interval '30 days', NULL),
+  ('60000000-0000-0000-0000-000000000004', '11111111-1111-1111-1111-111111111111', 'BAG-FFP', 'plasma', 'A+', now() - interval '5 days', now() + interval '300 days', '50000000-0000-0000-0000-000000000002');
+
+SELECT throws_ok(
+  $$ INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at, storage_unit_id)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'BAG-ELSEWHERE', 'red_cells', 'B+', now(), now() + interval '42 days',
+             '50000000-0000-0000-0000-000000000003') $$,
+  '23514', NULL,
+  'bags cannot be stored in another hospital''s units'
+);
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- STAFF UPLOAD
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.record_temperature_readings('50000000-0000-0000-0000-000000000001', '[]'::jsonb) $$,
+  '42501', NULL,
+  'hospitals cannot record temperatures for another hospital''s storage'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+-- Out of order on purpose: the batch is stored in time order
+SELECT is(
+  public.record_temperature_readings('50000000-0000-0000-0000-000000000001', $$[
+    {"recorded_at": "2025-02-05T10:30:00Z", "temperature_c": 8.0},
+    {"recorded_at": "2025-02-05T10:00:00Z", "temperature_c": 4.0},
+    {"recorded_at": "2025-02-05T10:45:00Z", "temperature_c": 4.5},
+    {"recorded_at": "2025-02-05T10:15:00Z", "temperature_c": 9.5}
+  ]$$::jsonb),
+  4,
+  'staff upload a batch of readings'
+);
+
+SELECT results_eq(
+  $$ SELECT component, started_at, ended_at, highest_temp_c FROM public.temperature_excursions $$,
+  $$ VALUES ('red_cells'::text, '2025-02-05T10:15:00Z'::timestamptz, '2025-02-05T10:45:00Z'::timestamptz, 9.5::numeric) $$,
+  'a run of readings above the red cell range is one excursion, closed when back in range'
+);
+SELECT results_eq(
+  $$ SELECT bag_number, status FROM public.blood_units WHERE component = 'red_cells' ORDER BY bag_number $$,
+  $$ VALUES ('BAG-FRIDGE-1'::text, 'quarantined'::text), ('BAG-FRIDGE-2', 'quarantined'), ('BAG-SHELF', 'available') $$,
+  'only the bags in the affected unit are quarantined'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.temperature_excursion_units),
+  2,
+  'the excursion lists the bags it quarantined'
+);
+SELECT is(
+  public.record_temperature_readings('50000000-0000-0000-0000-000000000001',
+    '[{"recorded_at": "2025-02-05T10:00:00Z", "temperature_c": 4.0}]'::jsonb),
+  0,
+  'uploading the same export again adds nothing'
+);
+SELECT throws_ok(
+  $$ SELECT public.record_temperature_readings('50000000-0000-0000-0000-000000000001', '[{"temperature_c": 4.0}]'::jsonb) $$,
+  '22023', NULL,
+  'readings without a time are rejected'
+);
+SELECT lives_ok(
+  $$ UPDATE public.blood_units SET status = 'available' WHERE bag_number = 'BAG-FRIDGE-1' $$,
+  'staff release a quarantined bag after review'
+);
+
+-- ===============================================================
+-- DEVICE UPLOAD
+-- ===============================================================
+SELECT set_config('test.device_key', public.rotate_storage_unit_key('50000000-0000-0000-0000-000000000002'), true);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.ingest_temperature_readings('not-a-key', '[]'::jsonb) $$,
+  '42501', NULL,
+  'devices need a valid key'
+);
+SELECT is(
+  public.ingest_temperature_readings(current_setting('test.device_key'),
+    '[{"recorded_at": "2025-02-05T11:00:00Z", "temperature_c": -12.0}]'::jsonb),
+  1,
+  'devices post readings with their key'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT source FROM public.temperature_readings WHERE storage_unit_id = '50000000-0000-0000-0000-000000000002'),
+  'device',
+  'device readings are marked as such'
+);
+SELECT results_eq(
+  $$ SELECT component, ended_at IS NULL FROM public.temperature_excursions
+     WHERE storage_unit_id = '50000000-0000-0000-0000-000000000002' $$,
+  $$ VALUES ('plasma'::text, true) $$,
+  'a freezer warming above -18 °C opens a plasma excursion'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,93 @@
+-- ===============================================================
+-- Component separation tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@separation.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@separation.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@separation.test', '{"first_name": "Whole", "last_name": "Blood"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Processing Hospital', 'h1@separation.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Other Hospital', 'h2@separation.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Whole Blood', 'd1@separation.test', 'B+', 'Pune');
+
+INSERT INTO public.donations (id, hospital_id, donor_id, donation_type, donation_date, units_donated, blood_group) VALUES
+  ('70000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+   'blood', now() - interval '1 day', 1, 'B+'),
+  ('70000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+   'blood', now() - interval '200 days', 1, 'B+'),
+  ('70000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+   'plasma', now() - interval '300 days', 1, 'B+');
+
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, donation_id, collected_at, expires_at) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'WB-1', 'whole_blood', 'B+', '70000000-0000-0000-0000-000000000001',
+   now() - interval '1 day', now() + interval '34 days');
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- SEPARATION
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.separate_donation('70000000-0000-0000-0000-000000000001') $$,
+  '42501', NULL,
+  'only the collecting hospital can process a donation'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT array_agg(bag_number ORDER BY bag_number) FROM public.separate_donation('70000000-0000-0000-0000-000000000001')),
+  ARRAY['WB-1-FFP', 'WB-1-PLT', 'WB-1-RC'],
+  'a whole blood donation yields red cells, plasma and platelets named after its bag'
+);
+SELECT is(
+  (SELECT status FROM public.blood_units WHERE bag_number = 'WB-1'),
+  'processed',
+  'the whole blood bag is used up'
+);
+SELECT is(
+  (SELECT expires_at - collected_at FROM public.blood_units WHERE bag_number = 'WB-1-PLT'),
+  interval '5 days',
+  'each component has its own shelf life'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.separate_donation('70000000-0000-0000-0000-000000000001') $$,
+  '23505', NULL,
+  'a donation is separated only once'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.separate_donation('70000000-0000-0000-0000-000000000003') $$,
+  '22023', NULL,
+  'plasma donations cannot be separated'
+);
+SELECT is(
+  (SELECT bag_number || ' ' || storage_location
+   FROM public.separate_donation('70000000-0000-0000-0000-000000000002', ARRAY['plasma'], '{"plasma": "Freezer 2"}')),
+  'DON-70000000-FFP Freezer 2',
+  'without a logged bag, components are named after the donation and stored where asked'
+);
+SELECT throws_ok(
+  $$ UPDATE public.blood_units SET status = 'available' WHERE bag_number = 'WB-1' $$,
+  '23514', NULL,
+  'a processed bag cannot be returned to stock'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,118 @@
+-- ===============================================================
+-- Donation cooldown tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@cooldown.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'f@cooldown.test', '{"first_name": "Female", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'm@cooldown.test', '{"first_name": "Male", "last_name": "Donor"}'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'p@cooldown.test', '{"first_name": "Pledge", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Cooldown Hospital', 'h1@cooldown.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, gender, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Female Donor', 'f@cooldown.test', 'B+', 'Female', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Male Donor', 'm@cooldown.test', 'B+', 'Male', 'Pune'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'Pledge Donor', 'p@cooldown.test', 'B+', 'Male', 'Pune');
+
+-- ===============================================================
+-- INTERVALS
+-- ===============================================================
+INSERT INTO public.donations (hospital_id, donor_id, donation_type, donation_date, units_donated, blood_group) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'blood', now(), 1, 'B+');
+
+SELECT is(
+  (SELECT next_eligible_date::date FROM public.donors WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  (now() + interval '120 days')::date,
+  'whole blood defers women for 120 days'
+);
+
+INSERT INTO public.donations (hospital_id, donor_id, donation_type, donation_date, units_donated, blood_group) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'plasma', now(), 1, 'B+');
+
+SELECT is(
+  (SELECT next_eligible_date::date FROM public.donors WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  (now() + interval '14 days')::date,
+  'plasma defers for 14 days'
+);
+
+-- whole blood ten days before the plasma: the plasma wait is over
+-- sooner, but the whole blood one still holds
+INSERT INTO public.donations (hospital_id, donor_id, donation_type, donation_date, units_donated, blood_group) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood', now() - interval '10 days', 1, 'B+');
+
+SELECT is(
+  public.donor_next_eligible_date('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb')::date,
+  (now() + interval '80 days')::date,
+  'a later, shorter wait does not end an earlier, longer one'
+);
+
+-- ===============================================================
+-- ANNUAL CAP
+-- ===============================================================
+-- four whole blood donations 91 days apart: the interval has passed but
+-- a fifth within the year is over the cap for men
+DELETE FROM public.donations WHERE donor_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+INSERT INTO public.donations (hospital_id, donor_id, donation_type, donation_date, units_donated, blood_group) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood', now() - interval '364 days', 1, 'B+'),
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood', now() - interval '273 days', 1, 'B+'),
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood', now() - interval '182 days', 1, 'B+'),
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood', now() - interval '91 days', 1, 'B+');
+
+SELECT is(
+  public.donor_next_eligible_date('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood')::date,
+  (now() + interval '1 day')::date,
+  'the yearly cap holds whole blood back until the oldest donation is a year old'
+);
+SELECT ok(
+  (SELECT next_eligible_date <= now() FROM public.donors WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  'other donation types stay open'
+);
+
+-- ===============================================================
+-- DONORS CANNOT RESET THEIR COOLDOWN
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.donors SET next_eligible_date = now() WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot move their own next eligible date'
+);
+SELECT lives_ok(
+  $$ UPDATE public.donors SET location = 'Mumbai' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'donors can still edit the rest of their record'
+);
+
+RESET ROLE;
+-- RESET ROLE keeps the donor's claims; the setup below runs as the system
+SELECT set_config('request.jwt.claims', '', true);
+
+-- ===============================================================
+-- COLLECTED PLEDGES
+-- ===============================================================
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required, emergency_level) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'B+', 1, 'High');
+INSERT INTO public.request_pledges (id, request_id, donor_id, status) VALUES
+  ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'cccccccc-cccc-cccc-cccc-cccccccccccc', 'scheduled');
+UPDATE public.request_pledges SET status = 'collected' WHERE id = '30000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT next_eligible_date::date FROM public.donors WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc'),
+  (now() + interval '90 days')::date,
+  'collecting a pledge records the donation and starts the cooldown'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,85 @@
+-- ===============================================================
+-- Donor ranking input tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@rank.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@rank.test', '{"first_name": "Reliable", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@rank.test', '{"first_name": "New", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city, latitude, longitude) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Rank Hospital', 'h1@rank.test', 'Pune', 18.52, 73.85);
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Reliable Donor', 'd1@rank.test', 'A+', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'New Donor', 'd2@rank.test', 'A+', 'Pune');
+
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required, emergency_level) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 1, 'High'),
+  ('10000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 1, 'High');
+
+-- notified twice about the first request and once about the second
+INSERT INTO public.notifications (user_id, title, message, type, data) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Need', 'Can you help?', 'request', '{"request_id": "10000000-0000-0000-0000-000000000001"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Need', 'Can you help?', 'request', '{"request_id": "10000000-0000-0000-0000-000000000001", "escalation_level": 2}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Need', 'Can you help?', 'request', '{"request_id": "10000000-0000-0000-0000-000000000002"}');
+
+-- answered the first by pledging; the pledge counts, not who moved the request
+INSERT INTO public.request_pledges (request_id, donor_id) VALUES
+  ('10000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+
+INSERT INTO public.appointments (hospital_id, donor_id, appointment_date, slot_start, slot_end, status) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now() - interval '30 days', now() - interval '30 days', now() - interval '30 days' + interval '30 minutes', 'completed'),
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now() - interval '60 days', now() - interval '60 days', now() - interval '60 days' + interval '30 minutes', 'completed'),
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now() - interval '90 days', now() - interval '90 days', now() - interval '90 days' + interval '30 minutes', 'no_show');
+
+-- ===============================================================
+-- RELIABILITY COUNTS
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT requests_notified, requests_accepted, appointments_kept, appointments_missed
+     FROM public.donor_reliability(ARRAY['aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::uuid]) $$,
+  $$ VALUES (2, 1, 2, 1) $$,
+  'counts distinct requests, pledges and kept/missed appointments'
+);
+SELECT results_eq(
+  $$ SELECT requests_notified, requests_accepted, appointments_kept, appointments_missed
+     FROM public.donor_reliability(ARRAY['bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'::uuid]) $$,
+  $$ VALUES (0, 0, 0, 0) $$,
+  'a donor with no history gets zero counts'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.donor_reliability(ARRAY['cccccccc-cccc-cccc-cccc-cccccccccccc'::uuid])),
+  0,
+  'unknown donors are skipped'
+);
+
+-- ===============================================================
+-- PERMISSIONS
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.donor_reliability(ARRAY['aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::uuid]) $$,
+  '42501', NULL,
+  'donors cannot read other donors'' reliability'
+);
+
+RESET ROLE;
+
+SELECT col_type_is('public', 'hospitals', 'latitude', 'double precision', 'hospitals have coordinates');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,137 @@
+-- ===============================================================
+-- Pre-donation screening tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@screening.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@screening.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@screening.test', '{"first_name": "Screened", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@screening.test', '{"first_name": "Other", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Screening Hospital', 'h1@screening.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Other Hospital', 'h2@screening.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, gender, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Screened Donor', 'd1@screening.test', 'O+', 'Female', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Other Donor', 'd2@screening.test', 'O+', 'Male', 'Pune');
+
+INSERT INTO public.appointments (id, hospital_id, donor_id, appointment_date, slot_start, slot_end) VALUES
+  ('40000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now() - interval '1 day', now() - interval '1 day', now() - interval '1 day' + interval '30 minutes'),
+  ('40000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now(), now(), now() + interval '30 minutes');
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- WHO MAY SCREEN
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.donor_screenings (appointment_id, donor_id, hospital_id, decision)
+     VALUES ('40000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'accepted') $$,
+  '42501', NULL,
+  'another hospital cannot screen for this appointment'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.donor_screenings (appointment_id, donor_id, hospital_id, decision)
+     VALUES ('40000000-0000-0000-0000-000000000001', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '11111111-1111-1111-1111-111111111111', 'accepted') $$,
+  '22023', NULL,
+  'the screening must be for the appointment''s donor'
+);
+
+-- ===============================================================
+-- A FAILED CHECK DEFERS THE DONOR
+-- ===============================================================
+SELECT lives_ok(
+  $$ INSERT INTO public.donor_screenings
+       (appointment_id, donor_id, hospital_id, hemoglobin_g_dl, systolic_bp, diastolic_bp, pulse_bpm, temperature_c, weight_kg,
+        decision, deferral_reason, screened_at)
+     VALUES ('40000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+             11.8, 118, 76, 72, 36.8, 58, 'deferred', 'Hemoglobin below 12.5 g/dL', now() - interval '1 day') $$,
+  'the appointment''s hospital records a screening'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT hemoglobin_g_dl || ' ' || weight_kg FROM public.profiles WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  '11.8 58.0',
+  'measured readings are copied onto the profile'
+);
+SELECT is(
+  (SELECT eligibility_status || ': ' || screening_deferral_reason FROM public.profiles WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  'temporarily_deferred: Hemoglobin below 12.5 g/dL',
+  'a deferral at screening defers the donor'
+);
+
+-- ===============================================================
+-- DONORS SEE BUT DO NOT WRITE
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.donor_screenings),
+  1,
+  'donors see their own screenings'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.donor_screenings (appointment_id, donor_id, hospital_id, decision)
+     VALUES ('40000000-0000-0000-0000-000000000002', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'accepted') $$,
+  '42501', NULL,
+  'donors cannot screen themselves'
+);
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET screening_deferral_reason = NULL, screening_deferred_until = NULL
+     WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot clear a screening deferral'
+);
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET hemoglobin_g_dl = 13.5 WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot overwrite measured hemoglobin'
+);
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET eligibility_status = 'eligible', eligibility_reason = 'Meets every rule'
+     WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot mark themselves eligible while deferred at screening'
+);
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET city = 'Mumbai', eligibility_checked_at = now()
+     WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'donors can still update the rest of their profile'
+);
+
+-- ===============================================================
+-- A LATER PASS CLEARS THE DEFERRAL
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+INSERT INTO public.donor_screenings (appointment_id, donor_id, hospital_id, hemoglobin_g_dl, decision)
+VALUES ('40000000-0000-0000-0000-000000000002', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 13.1, 'accepted');
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT coalesce(screening_deferral_reason, 'none') || ' ' || hemoglobin_g_dl FROM public.profiles WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  'none 13.1',
+  'passing a later screening clears the deferral'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
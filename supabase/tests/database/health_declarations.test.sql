@@ -0,0 +1,113 @@
+-- ===============================================================
+-- Health declaration tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@declaration.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@declaration.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@declaration.test', '{"first_name": "Declaring", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@declaration.test', '{"first_name": "Other", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Booked Hospital', 'h1@declaration.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Other Hospital', 'h2@declaration.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Declaring Donor', 'd1@declaration.test', 'A+', 'Pune');
+
+INSERT INTO public.appointments (hospital_id, donor_id, appointment_date, slot_start, slot_end) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', now(), now(), now() + interval '30 minutes');
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- SUBMITTING
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.health_declarations (id, donor_id, questionnaire_version, answers, consent_text, consented_at)
+     VALUES ('50000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '2025.1',
+             '{"weight": "62", "hasHeartDisease": false}', 'I agree.', now() - interval '1 year') $$,
+  'donors submit their own declaration'
+);
+SELECT ok(
+  (SELECT consented_at > now() - interval '1 minute' FROM public.health_declarations WHERE id = '50000000-0000-0000-0000-000000000001'),
+  'the consent is stamped with the server time'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.health_declarations (donor_id, questionnaire_version, answers, consent_text)
+     VALUES ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '2025.1', '{}', 'I agree.') $$,
+  '42501', NULL,
+  'donors cannot declare for someone else'
+);
+
+RESET ROLE;
+-- Donors have no update or delete policy, so RLS alone would hide the
+-- row; run as the system to reach the trigger that guards it
+SELECT set_config('request.jwt.claims', '', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.health_declarations SET answers = '{"weight": "70"}' WHERE id = '50000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'a declaration cannot be edited'
+);
+SELECT throws_ok(
+  $$ DELETE FROM public.health_declarations WHERE id = '50000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'a declaration cannot be deleted on its own'
+);
+
+-- ===============================================================
+-- DONATIONS KEEP THE DECLARATION IN FORCE
+-- ===============================================================
+INSERT INTO public.donations (id, hospital_id, donor_id, donation_type, donation_date, units_donated, blood_group) VALUES
+  ('60000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+   'blood', clock_timestamp(), 1, 'A+');
+
+INSERT INTO public.health_declarations (id, donor_id, questionnaire_version, answers, consent_text) VALUES
+  ('50000000-0000-0000-0000-000000000002', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '2025.1', '{"weight": "64"}', 'I agree.');
+
+SELECT is(
+  (SELECT health_declaration_id FROM public.donations WHERE id = '60000000-0000-0000-0000-000000000001'),
+  '50000000-0000-0000-0000-000000000001'::uuid,
+  'a donation points at the declaration made before it'
+);
+SELECT is(
+  (SELECT id FROM public.health_declaration_at('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', clock_timestamp())),
+  '50000000-0000-0000-0000-000000000002'::uuid,
+  'the latest declaration is the one in force now'
+);
+
+-- ===============================================================
+-- HOSPITAL ACCESS
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM public.health_declarations),
+  2,
+  'the hospital the donor booked with can audit their declarations'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+SELECT is(
+  (SELECT count(*)::int FROM public.health_declarations),
+  0,
+  'other hospitals cannot'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,92 @@
+-- ===============================================================
+-- Request lifecycle and status history tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@lifecycle.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@lifecycle.test', '{"first_name": "Donor", "last_name": "One"}');
+
+INSERT INTO public.hospitals (id, name, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Lifecycle Hospital', 'h1@lifecycle.test');
+
+INSERT INTO public.donors (id, name, email, blood_group) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Donor One', 'd1@lifecycle.test', 'O+');
+
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'O+', 1);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.requests (hospital_id, request_type, blood_group, units_required, status)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'blood', 'O+', 1, 'fulfilled') $$,
+  '23514', NULL,
+  'requests must be created as pending'
+);
+
+-- ===============================================================
+-- DONOR ACCEPTS, THEN RELEASES
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ SELECT public.transition_request('10000000-0000-0000-0000-000000000001', 'accepted', 'On my way', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa') $$,
+  'donor accepts through the RPC'
+);
+SELECT lives_ok(
+  $$ SELECT public.transition_request('10000000-0000-0000-0000-000000000001', 'pending', 'Cannot make it') $$,
+  'donor releases the request'
+);
+
+-- ===============================================================
+-- HOSPITAL
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.transition_request('10000000-0000-0000-0000-000000000001', 'fulfilled', 'Skipping ahead') $$,
+  '23514', NULL,
+  'pending cannot jump straight to fulfilled'
+);
+SELECT lives_ok(
+  $$ SELECT public.transition_request('10000000-0000-0000-0000-000000000001', 'cancelled', 'Patient transferred') $$,
+  'hospital cancels the request'
+);
+SELECT throws_ok(
+  $$ SELECT public.transition_request('10000000-0000-0000-0000-000000000001', 'pending', 'Reopen') $$,
+  '23514', NULL,
+  'cancelled is final'
+);
+SELECT throws_ok(
+  $$ SELECT public.transition_request('10000000-0000-0000-0000-0000000000ff', 'cancelled', 'No such request') $$,
+  'P0002', NULL,
+  'an unknown request is reported, not silently skipped'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT donor_id FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  NULL::uuid,
+  'releasing clears the donor'
+);
+SELECT results_eq(
+  $$ SELECT from_status, to_status, actor_role, reason FROM public.request_status_history
+     WHERE request_id = '10000000-0000-0000-0000-000000000001' ORDER BY created_at $$,
+  $$ VALUES (NULL::text, 'pending'::text, 'system'::text, 'Request created'::text),
+            ('pending', 'accepted', 'donor', 'On my way'),
+            ('accepted', 'pending', 'donor', 'Cannot make it'),
+            ('pending', 'cancelled', 'hospital', 'Patient transferred') $$,
+  'every transition is recorded with its actor and reason'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,167 @@
+-- ===============================================================
+-- Request pledge tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@pledge.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@pledge.test', '{"first_name": "First", "last_name": "Donor"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@pledge.test', '{"first_name": "Second", "last_name": "Donor"}'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'd3@pledge.test', '{"first_name": "Late", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Pledge Hospital', 'h1@pledge.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'First Donor', 'd1@pledge.test', 'A+', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Second Donor', 'd2@pledge.test', 'A+', 'Pune'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'Late Donor', 'd3@pledge.test', 'A+', 'Pune');
+
+-- needs two units / will be cancelled
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required, emergency_level) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 2, 'High'),
+  ('10000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 2, 'High');
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- PLEDGING
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001');
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000002');
+
+SELECT is(
+  (SELECT status || ' ' || pledged_units FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'pending 1',
+  'one pledge of two keeps the request open'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.request_pledges SET status = 'scheduled'
+     WHERE request_id = '10000000-0000-0000-0000-000000000001' AND donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot schedule their own pledge'
+);
+
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000002', 5);
+SELECT is(
+  (SELECT pledged_units FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000002'),
+  1,
+  'a donor pledging more than one unit still pledges one'
+);
+SELECT throws_ok(
+  $$ UPDATE public.request_pledges SET units = 2
+     WHERE request_id = '10000000-0000-0000-0000-000000000001' AND donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  '42501', NULL,
+  'donors cannot raise the units they pledged'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}', true);
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001');
+
+SELECT is(
+  (SELECT status FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'accepted',
+  'the second pledge fully pledges the request'
+);
+SELECT is(
+  (SELECT actor_role || ': ' || reason FROM public.request_status_history
+   WHERE request_id = '10000000-0000-0000-0000-000000000001' AND to_status = 'accepted'),
+  'donor: Fully pledged: 2 of 2 unit(s)',
+  'the automatic acceptance is recorded with its reason'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "cccccccc-cccc-cccc-cccc-cccccccccccc", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$ SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001') $$,
+  '23514', NULL,
+  'a fully pledged request takes no more pledges'
+);
+
+-- ===============================================================
+-- WITHDRAWING
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+UPDATE public.request_pledges SET status = 'withdrawn'
+WHERE request_id = '10000000-0000-0000-0000-000000000001' AND donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is(
+  (SELECT status || ' ' || pledged_units FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'pending 1',
+  'a withdrawal reopens the request'
+);
+
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001');
+SELECT is(
+  (SELECT status FROM public.request_pledges
+   WHERE request_id = '10000000-0000-0000-0000-000000000001' AND donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  'pledged',
+  'pledging again reopens the withdrawn pledge'
+);
+
+-- ===============================================================
+-- SCHEDULING AND COLLECTION
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+-- Booked appointments; booking itself is covered in appointment_slots.test.sql
+RESET ROLE;
+INSERT INTO public.appointments (id, hospital_id, donor_id, request_id, appointment_date, slot_start, slot_end) VALUES
+  ('20000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '10000000-0000-0000-0000-000000000001',
+   now() + interval '1 day', now() + interval '1 day', now() + interval '1 day' + interval '30 minutes'),
+  ('20000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '10000000-0000-0000-0000-000000000001',
+   now() + interval '1 day', now() + interval '1 day', now() + interval '1 day' + interval '30 minutes');
+SET LOCAL ROLE authenticated;
+
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001', 1, 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '20000000-0000-0000-0000-000000000001');
+SELECT public.pledge_to_request('10000000-0000-0000-0000-000000000001', 1, 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '20000000-0000-0000-0000-000000000002');
+
+SELECT is(
+  (SELECT status || ' ' || scheduled_units FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'accepted 2',
+  'the hospital can book existing pledges on an accepted request'
+);
+
+UPDATE public.appointments SET status = 'completed' WHERE id = '20000000-0000-0000-0000-000000000001';
+SELECT is(
+  (SELECT status || ' ' || collected_units FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'accepted 1',
+  'a completed appointment collects its pledge'
+);
+
+UPDATE public.appointments SET status = 'completed' WHERE id = '20000000-0000-0000-0000-000000000002';
+SELECT is(
+  (SELECT status FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'fulfilled',
+  'collecting every unit fulfils the request'
+);
+
+-- ===============================================================
+-- CANCELLATION
+-- ===============================================================
+SELECT public.transition_request('10000000-0000-0000-0000-000000000002', 'cancelled', 'Patient transferred');
+
+SELECT is(
+  (SELECT status FROM public.request_pledges WHERE request_id = '10000000-0000-0000-0000-000000000002'),
+  'withdrawn',
+  'cancelling a request releases its pledges'
+);
+SELECT is(
+  (SELECT pledged_units FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000002'),
+  0,
+  'released pledges leave the totals'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
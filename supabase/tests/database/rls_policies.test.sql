@@ -0,0 +1,189 @@
+-- ===============================================================
+-- Row level security policy tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(35);
+
+-- ===============================================================
+-- FIXTURES (inserted as postgres, which bypasses RLS)
+-- ===============================================================
+-- hospital one / hospital two / staff of hospital one / two donors / admin
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@rls.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'h2@rls.test', '{"user_type": "hospital"}'),
+  ('33333333-3333-3333-3333-333333333333', 'staff@rls.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@rls.test', '{"first_name": "Donor", "last_name": "One"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@rls.test', '{"first_name": "Donor", "last_name": "Two"}'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'admin@rls.test', '{"user_type": "hospital"}');
+
+INSERT INTO public.hospitals (id, name, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'RLS Hospital One', 'h1@rls.test'),
+  ('22222222-2222-2222-2222-222222222222', 'RLS Hospital Two', 'h2@rls.test');
+
+INSERT INTO public.hospital_staff (hospital_id, user_id) VALUES
+  ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333');
+
+INSERT INTO public.donors (id, name, email, blood_group) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Donor One', 'd1@rls.test', 'O+'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Donor Two', 'd2@rls.test', 'A+');
+
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'O+', 1),
+  ('10000000-0000-0000-0000-000000000002', '22222222-2222-2222-2222-222222222222', 'blood', 'A+', 1);
+
+INSERT INTO public.blood_inventory (id, hospital_id, blood_group, units_available) VALUES
+  ('20000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'O+', 10),
+  ('20000000-0000-0000-0000-000000000002', '22222222-2222-2222-2222-222222222222', 'A+', 10);
+
+INSERT INTO public.messages (sender_id, receiver_id, content) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'hi'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'hello'),
+  ('11111111-1111-1111-1111-111111111111', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'can you donate?');
+
+-- ===============================================================
+-- DONOR ONE
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}', true);
+
+SELECT is((SELECT count(*)::int FROM public.donors WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'), 1, 'donor reads own donor row');
+SELECT is((SELECT count(*)::int FROM public.donors WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'), 0, 'donor cannot read another donor row');
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET first_name = 'Dee' WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'donor updates own profile'
+);
+UPDATE public.profiles SET is_available = false WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+UPDATE public.donors SET is_available = false WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.requests (hospital_id, request_type, blood_group, units_required)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'blood', 'O+', 1) $$,
+  '42501', NULL,
+  'donor cannot create a request'
+);
+SELECT lives_ok(
+  $$ UPDATE public.requests SET donor_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', status = 'accepted'
+     WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'donor accepts a pending request'
+);
+SELECT throws_ok(
+  $$ UPDATE public.requests SET units_required = 5 WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'donor cannot edit request details'
+);
+SELECT throws_ok(
+  $$ UPDATE public.requests SET status = 'fulfilled' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'donor cannot fulfil a request'
+);
+
+SELECT is((SELECT count(*)::int FROM public.blood_inventory), 0, 'donor cannot read inventory');
+SELECT is((SELECT count(*)::int FROM public.messages), 2, 'donor reads only own conversations');
+SELECT throws_ok(
+  $$ INSERT INTO public.messages (sender_id, receiver_id, content)
+     VALUES ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'spoofed') $$,
+  '42501', NULL,
+  'donor cannot send a message as someone else'
+);
+SELECT throws_ok(
+  $$ SELECT public.set_donor_cooldown('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'blood') $$,
+  '42501', NULL,
+  'donor cannot set another donor''s cooldown'
+);
+
+RESET ROLE;
+
+SELECT is((SELECT is_available FROM public.profiles WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'), true, 'donor did not change another profile');
+SELECT is((SELECT is_available FROM public.donors WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'), true, 'donor did not change another donor row');
+SELECT is((SELECT first_name FROM public.profiles WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'), 'Dee', 'own profile update persisted');
+SELECT is((SELECT donor_id FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'), 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::uuid, 'request acceptance persisted');
+
+-- ===============================================================
+-- HOSPITAL ONE
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.requests SET units_required = 3 WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'hospital edits its own request'
+);
+SELECT lives_ok(
+  $$ UPDATE public.requests SET units_required = 9 WHERE id = '10000000-0000-0000-0000-000000000002' $$,
+  'hospital update of another hospital''s request matches no rows'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.blood_inventory (hospital_id, blood_group, units_available)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'B+', 4) $$,
+  'hospital adds to its own inventory'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.blood_inventory (hospital_id, blood_group, units_available)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'B+', 4) $$,
+  '42501', NULL,
+  'hospital cannot add to another hospital''s inventory'
+);
+SELECT is((SELECT count(*)::int FROM public.blood_inventory WHERE hospital_id = '22222222-2222-2222-2222-222222222222'), 0, 'hospital cannot read another hospital''s inventory');
+
+SELECT is((SELECT count(*)::int FROM public.donors WHERE email LIKE '%@rls.test'), 2, 'hospital reads donor rows for matching');
+UPDATE public.donors SET is_available = false WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+SELECT is((SELECT count(*)::int FROM public.messages), 1, 'hospital reads only its own conversations');
+SELECT lives_ok(
+  $$ SELECT public.set_donor_cooldown('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'blood') $$,
+  'hospital records a donation cooldown through the RPC'
+);
+
+-- ===============================================================
+-- STAFF OF HOSPITAL ONE
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.requests SET notes = 'staff note' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'staff edits their hospital''s request'
+);
+SELECT lives_ok(
+  $$ UPDATE public.blood_inventory SET units_available = 0 WHERE id = '20000000-0000-0000-0000-000000000002' $$,
+  'staff update of another hospital''s inventory matches no rows'
+);
+
+-- ===============================================================
+-- ADMIN
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "cccccccc-cccc-cccc-cccc-cccccccccccc", "role": "authenticated", "app_metadata": {"role": "admin"}}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.requests SET status = 'cancelled' WHERE id = '10000000-0000-0000-0000-000000000002' $$,
+  'admin edits any request'
+);
+SELECT is((SELECT count(*)::int FROM public.blood_inventory WHERE hospital_id IN ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222')), 3, 'admin reads every hospital''s inventory');
+SELECT is((SELECT count(*)::int FROM public.messages), 0, 'admin cannot read private messages');
+
+RESET ROLE;
+
+SELECT is((SELECT units_required FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'), 3, 'hospital request edit persisted');
+SELECT is((SELECT units_required FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000002'), 1, 'hospital did not edit another hospital''s request');
+SELECT is((SELECT notes FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'), 'staff note', 'staff request edit persisted');
+SELECT is((SELECT units_available FROM public.blood_inventory WHERE id = '20000000-0000-0000-0000-000000000002'), 10, 'staff did not edit another hospital''s inventory');
+SELECT is((SELECT status FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000002'), 'cancelled', 'admin request edit persisted');
+SELECT is((SELECT is_available FROM public.donors WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'), true, 'hospital did not edit a donor row directly');
+
+-- ===============================================================
+-- ANONYMOUS
+-- ===============================================================
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is((SELECT count(*)::int FROM public.profiles), 0, 'anonymous users cannot read profiles');
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,80 @@
+-- ===============================================================
+-- Stale request expiry and escalation tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@stale.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@stale.test', '{"first_name": "Same", "last_name": "Group"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@stale.test', '{"first_name": "Universal", "last_name": "Donor"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Stale Hospital', 'h1@stale.test', 'Pune');
+
+INSERT INTO public.donors (id, name, email, blood_group, location) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Same Group', 'd1@stale.test', 'A+', 'Pune'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Universal Donor', 'd2@stale.test', 'O-', 'Pune');
+
+-- fresh critical / critical waiting 45 minutes / medium past its deadline
+INSERT INTO public.requests (id, hospital_id, request_type, blood_group, units_required, emergency_level, created_at) VALUES
+  ('10000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 1, 'Critical', now()),
+  ('10000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 1, 'Critical', now() - interval '45 minutes'),
+  ('10000000-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'blood', 'A+', 1, 'Medium', now() - interval '4 days');
+
+-- ===============================================================
+-- JOB RUN
+-- ===============================================================
+SELECT results_eq(
+  $$ SELECT request_id, action FROM public.process_stale_requests() ORDER BY action $$,
+  $$ VALUES ('10000000-0000-0000-0000-000000000002'::uuid, 'escalated'::text),
+            ('10000000-0000-0000-0000-000000000003'::uuid, 'expired'::text) $$,
+  'escalates the waiting critical request and expires the overdue one'
+);
+
+SELECT is((SELECT status FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000003'), 'expired', 'overdue request is expired');
+SELECT is((SELECT escalation_level FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000002'), 1, 'waiting request moves to escalation level 1');
+SELECT is((SELECT escalation_level FROM public.requests WHERE id = '10000000-0000-0000-0000-000000000001'), 0, 'fresh request is left alone');
+
+SELECT is(
+  (SELECT array_agg(user_id ORDER BY user_id) FROM public.notifications
+   WHERE data ->> 'request_id' = '10000000-0000-0000-0000-000000000002'),
+  ARRAY['aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::uuid],
+  'level 1 only notifies donors with the same blood group'
+);
+SELECT is(
+  (SELECT actor_role || ': ' || reason FROM public.request_status_history
+   WHERE request_id = '10000000-0000-0000-0000-000000000003' AND to_status = 'expired'),
+  'system: No donor within 3 days of a Medium request',
+  'expiry is recorded with its reason'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.request_status_history
+   WHERE request_id = '10000000-0000-0000-0000-000000000002' AND event = 'escalation'),
+  1,
+  'escalation is recorded in the timeline'
+);
+
+-- ===============================================================
+-- PERMISSIONS
+-- ===============================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.process_stale_requests() $$,
+  '42501', NULL,
+  'hospitals cannot run the job themselves'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,111 @@
+-- ===============================================================
+-- Low-stock threshold and donor call-out tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'h1@thresholds.test', '{"user_type": "hospital"}'),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'd1@thresholds.test', '{"first_name": "Same", "last_name": "City"}'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'd2@thresholds.test', '{"first_name": "Near", "last_name": "By"}'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'd3@thresholds.test', '{"first_name": "Far", "last_name": "Away"}'),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'd4@thresholds.test', '{"first_name": "Wrong", "last_name": "Group"}'),
+  ('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 'd5@thresholds.test', '{"first_name": "Still", "last_name": "Resting"}');
+
+INSERT INTO public.hospitals (id, name, email, city, latitude, longitude) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Threshold Hospital', 'h1@thresholds.test', 'Pune', 18.5204, 73.8567);
+
+-- same group without coordinates / universal donor 5 km away / compatible
+-- donor in Mumbai / incompatible group / compatible but in cooldown
+INSERT INTO public.donors (id, name, email, blood_group, location, latitude, longitude, next_eligible_date) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Same City', 'd1@thresholds.test', 'A+', 'Pune', NULL, NULL, NULL),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Near By', 'd2@thresholds.test', 'O-', 'Pune', 18.5600, 73.8800, NULL),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'Far Away', 'd3@thresholds.test', 'O+', 'Pune', 19.0760, 72.8777, NULL),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'Wrong Group', 'd4@thresholds.test', 'B+', 'Pune', NULL, NULL, NULL),
+  ('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', 'Still Resting', 'd5@thresholds.test', 'A-', 'Pune', NULL, NULL, now() + interval '30 days');
+
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'BAG-1', 'red_cells', 'A+', now() - interval '30 days', now() + interval '5 days'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-2', 'red_cells', 'A+', now() - interval '20 days', now() + interval '15 days'),
+  ('11111111-1111-1111-1111-111111111111', 'BAG-3', 'red_cells', 'A+', now() - interval '10 days', now() + interval '25 days');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+-- ===============================================================
+-- THRESHOLDS
+-- ===============================================================
+SELECT throws_ok(
+  $$ INSERT INTO public.stock_thresholds (hospital_id, blood_group, min_units, target_units)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'A+', 5, 5) $$,
+  '23514', NULL,
+  'the target must be above the minimum'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.stock_thresholds (hospital_id, blood_group, min_units, target_units)
+     VALUES ('11111111-1111-1111-1111-111111111111', 'A+', 2, 6) $$,
+  'hospitals set thresholds for their own groups'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.requests WHERE source = 'low_stock'),
+  0,
+  'stock at or above the minimum opens no request'
+);
+
+-- ===============================================================
+-- DROP BELOW THE MINIMUM
+-- ===============================================================
+SELECT lives_ok(
+  $$ SELECT * FROM public.issue_blood_units('11111111-1111-1111-1111-111111111111', 'A+', 'red_cells', 2) $$,
+  'issuing bags still works with a threshold set'
+);
+SELECT results_eq(
+  $$ SELECT blood_group, units_required, emergency_level, status FROM public.requests WHERE source = 'low_stock' $$,
+  $$ VALUES ('A+'::text, 5, 'High'::text, 'pending'::text) $$,
+  'falling below the minimum opens a restock request up to the target'
+);
+SELECT is(
+  (SELECT reason FROM public.request_status_history h JOIN public.requests r ON r.id = h.request_id WHERE r.source = 'low_stock'),
+  'Stock fell to 1 unit(s), below the minimum of 2',
+  'the request timeline says why it was opened'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT array_agg(n.user_id ORDER BY n.user_id) FROM public.notifications n
+   JOIN public.requests r ON r.id = (n.data ->> 'request_id')::uuid
+   WHERE r.source = 'low_stock' AND n.user_type = 'donor'),
+  ARRAY['aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb']::uuid[],
+  'only eligible, compatible donors nearby are called'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.notifications WHERE user_id = '11111111-1111-1111-1111-111111111111' AND data ->> 'source' = 'low_stock'),
+  1,
+  'the hospital is told about the restock request'
+);
+
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ SELECT * FROM public.issue_blood_units('11111111-1111-1111-1111-111111111111', 'A+', 'red_cells', 1) $$,
+  'further issues go through'
+);
+SELECT is(
+  (SELECT count(*)::int FROM public.requests WHERE source = 'low_stock'),
+  1,
+  'a group has one open restock request at a time'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
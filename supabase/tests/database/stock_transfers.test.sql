@@ -0,0 +1,113 @@
+-- ===============================================================
+-- Inter-hospital stock transfer tests
+-- Run against the local stack with: supabase test db
+-- ===============================================================
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- ===============================================================
+-- FIXTURES
+-- ===============================================================
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'short@transfers.test', '{"user_type": "hospital"}'),
+  ('22222222-2222-2222-2222-222222222222', 'surplus@transfers.test', '{"user_type": "hospital"}');
+
+INSERT INTO public.hospitals (id, name, email, city) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'Short Hospital', 'short@transfers.test', 'Pune'),
+  ('22222222-2222-2222-2222-222222222222', 'Surplus Hospital', 'surplus@transfers.test', 'Pune');
+
+INSERT INTO public.blood_units (hospital_id, bag_number, component, blood_group, collected_at, expires_at, storage_location) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'ON-SOON', 'red_cells', 'O-', now() - interval '38 days', now() + interval '4 days', 'Fridge 1'),
+  ('22222222-2222-2222-2222-222222222222', 'ON-LATE', 'red_cells', 'O-', now() - interval '10 days', now() + interval '32 days', 'Fridge 1'),
+  ('22222222-2222-2222-2222-222222222222', 'ON-MID', 'red_cells', 'O-', now() - interval '20 days', now() + interval '22 days', 'Fridge 2');
+
+INSERT INTO public.stock_transfers (id, requesting_hospital_id, supplying_hospital_id, blood_group, units_requested) VALUES
+  ('80000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222', 'O-', 2),
+  ('80000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222', 'O-', 5);
+
+SET LOCAL ROLE authenticated;
+
+-- ===============================================================
+-- WHO HOLDS STOCK
+-- ===============================================================
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT units_available FROM public.find_blood_stock('O-') WHERE hospital_id = '22222222-2222-2222-2222-222222222222'),
+  3,
+  'hospitals can see how many bags another hospital holds'
+);
+
+-- ===============================================================
+-- WHO TAKES WHICH STEP
+-- ===============================================================
+SELECT throws_ok(
+  $$ SELECT public.transition_stock_transfer('80000000-0000-0000-0000-000000000001', 'approved') $$,
+  '42501', NULL,
+  'the requesting hospital cannot approve its own transfer'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.transition_stock_transfer('80000000-0000-0000-0000-000000000001', 'received') $$,
+  '42501', NULL,
+  'the supplying hospital cannot receive'
+);
+
+-- ===============================================================
+-- APPROVE, DISPATCH, RECEIVE
+-- ===============================================================
+SELECT throws_ok(
+  $$ SELECT public.transition_stock_transfer('80000000-0000-0000-0000-000000000002', 'approved') $$,
+  'P0002', NULL,
+  'a transfer cannot be approved beyond the bags in stock'
+);
+
+SELECT is(
+  (SELECT status FROM public.transition_stock_transfer('80000000-0000-0000-0000-000000000001', 'approved', 'Two bags ready')),
+  'approved',
+  'the supplying hospital approves'
+);
+SELECT is(
+  (SELECT array_agg(bag_number ORDER BY bag_number) FROM public.blood_units WHERE status = 'reserved'),
+  ARRAY['ON-MID', 'ON-SOON'],
+  'approval reserves the bags expiring first'
+);
+SELECT throws_ok(
+  $$ SELECT public.transition_stock_transfer('80000000-0000-0000-0000-000000000001', 'received') $$,
+  '42501', NULL,
+  'steps cannot be skipped by the wrong side'
+);
+SELECT is(
+  (SELECT status FROM public.transition_stock_transfer('80000000-0000-0000-0000-000000000001', 'dispatched')),
+  'dispatched',
+  'the supplying hospital dispatches'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT status FROM public.transition_stock_transfer('80000000-0000-0000-0000-000000000001', 'received')),
+  'received',
+  'the requesting hospital receives'
+);
+SELECT is(
+  (SELECT array_agg(bag_number || ':' || status ORDER BY bag_number) FROM public.blood_units WHERE storage_location IS NULL),
+  ARRAY['ON-MID:available', 'ON-SOON:available'],
+  'received bags belong to the requesting hospital and are back in stock'
+);
+SELECT is(
+  (SELECT array_agg(to_status || ':' || cardinality(unit_ids) ORDER BY created_at)
+   FROM public.stock_transfer_history WHERE transfer_id = '80000000-0000-0000-0000-000000000001'),
+  ARRAY['requested:0', 'approved:2', 'dispatched:2', 'received:2'],
+  'every step is recorded with the bags it moved'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;